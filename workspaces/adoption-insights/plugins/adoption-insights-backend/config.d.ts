@@ -41,6 +41,100 @@ export interface Config {
          * @visibility backend
          */
         licensedUsers?: number;
+        /**
+         * Number of days the events are kept. Older events and failed events are purged every day.
+         * Events are kept forever when not set.
+         * @visibility backend
+         */
+        retentionDays?: number;
+        /**
+         * Store a salted hash of the user ref instead of the user ref in the events.
+         */
+        pseudonymization?: {
+          /**
+           * default false
+           * @visibility backend
+           */
+          enabled?: boolean;
+          /**
+           * Secret salt used to hash the user refs. Changing it makes users counted as new users.
+           * @visibility secret
+           */
+          salt?: string;
+        };
+        /**
+         * User journeys reconstructed from the navigation events.
+         */
+        journeys?: {
+          /**
+           * Minutes of inactivity after which a new session starts.
+           * default 30
+           * @visibility backend
+           */
+          sessionTimeout?: number;
+          /**
+           * Maximum number of navigation events loaded to reconstruct the sessions.
+           * When the date range has more events, only the most recent ones are used.
+           * default 100000
+           * @visibility backend
+           */
+          maxEvents?: number;
+          /**
+           * Ordered funnel steps. A `*` in the path matches a single path segment.
+           * default open template list, choose template and scaffolder task created
+           * @visibility backend
+           */
+          funnel?: Array<{
+            title: string;
+            path: string;
+          }>;
+        };
+        /**
+         * Reports summarizing the active users, top plugins, templates and searches of the last week or month,
+         * compared with the period before.
+         */
+        reports?: Array<{
+          /**
+           * Unique identifier of the report.
+           * @visibility backend
+           */
+          id: string;
+          /**
+           * Weekly reports are sent on Monday and monthly reports on the 1st of the month, at 6 AM.
+           * @visibility backend
+           */
+          frequency: 'weekly' | 'monthly';
+          /**
+           * Number of top plugins and templates.
+           * default 5
+           * @visibility backend
+           */
+          limit?: number;
+          /**
+           * Send the report with the notifications service.
+           */
+          notification?: {
+            /**
+             * Entity refs of the users or groups receiving the report.
+             * @visibility backend
+             */
+            recipients: string[];
+          };
+          /**
+           * Write the report to a file named after the report id and the start date of the period.
+           */
+          artifact?: {
+            /**
+             * @visibility backend
+             */
+            directory: string;
+            /**
+             * default html
+             * @visibility backend
+             */
+            format?: 'html' | 'csv';
+          };
+        }>;
       };
     };
   };
@@ -0,0 +1,36 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// Group of the user, snapshotted when the event is stored
+exports.up = async function (knex) {
+  await knex.schema.alterTable('events', table => {
+    table.text('owner_group');
+    table.index(
+      ['created_at', 'owner_group'],
+      'idx_events_created_at_owner_group',
+    );
+  });
+};
+
+exports.down = async function (knex) {
+  await knex.schema.alterTable('events', table => {
+    table.dropIndex(
+      ['created_at', 'owner_group'],
+      'idx_events_created_at_owner_group',
+    );
+    table.dropColumn('owner_group');
+  });
+};
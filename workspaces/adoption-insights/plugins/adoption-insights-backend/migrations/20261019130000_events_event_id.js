@@ -0,0 +1,36 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// Id of the event sent by the frontend, used to ignore the events delivered more than once.
+// The partition key is part of the constraint, as postgres requires it on partitioned tables.
+exports.up = async function (knex) {
+  await knex.schema.alterTable('events', table => {
+    table.text('event_id');
+    table.unique(['event_id', 'created_at'], {
+      indexName: 'idx_events_event_id_created_at',
+    });
+  });
+};
+
+exports.down = async function (knex) {
+  await knex.schema.alterTable('events', table => {
+    table.dropUnique(
+      ['event_id', 'created_at'],
+      'idx_events_event_id_created_at',
+    );
+    table.dropColumn('event_id');
+  });
+};
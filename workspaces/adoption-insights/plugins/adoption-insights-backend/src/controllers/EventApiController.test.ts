@@ -18,13 +18,24 @@ import EventApiController from './EventApiController';
 import { EventDatabase } from '../database/event-database';
 import { mockServices } from '@backstage/backend-test-utils';
 import { EventBatchProcessor } from '../domain/EventBatchProcessor';
+import { InsightQueriesRegistry } from '../domain/InsightQueriesRegistry';
 import {
   AnalyticsContextValue,
   AnalyticsEvent,
 } from '@backstage/core-plugin-api';
-import { QUERY_TYPES, QueryParams } from '../types/event-request';
+import {
+  DeleteEventsQueryParams,
+  QUERY_TYPES,
+  QueryParams,
+} from '../types/event-request';
 import { toEndOfDayUTC, toStartOfDayUTC } from '../utils/date';
 import { TechDocsCount, TopTechDocsCount } from '../types/event';
+import { pseudonymizeUserRef } from '../utils/pseudonymize';
+import {
+  DEFAULT_FUNNEL,
+  DEFAULT_JOURNEYS_MAX_EVENTS,
+  DEFAULT_SESSION_TIMEOUT,
+} from '../utils/config';
 
 let controller: EventApiController;
 let req: Partial<Request>;
@@ -41,7 +52,11 @@ const mockEventDb = {
   getTopTechDocsViews: jest.fn(),
   getTopTemplateViews: jest.fn(),
   getTopCatalogEntitiesViews: jest.fn(),
+  getUserJourneys: jest.fn(),
+  getCustomInsight: jest.fn(),
   getTechdocsMetadata: jest.fn(),
+  getStorageUsage: jest.fn(),
+  deleteUserEvents: jest.fn(),
 } as unknown as jest.Mocked<EventDatabase>;
 
 const mockProcessor = {
@@ -120,6 +135,37 @@ describe('trackEvents', () => {
     });
   });
 
+  it('should queue the events before responding', async () => {
+    let resolveAddEvent: () => void = () => {};
+    mockProcessorAddEvent.mockReturnValue(
+      new Promise<void>(resolve => {
+        resolveAddEvent = resolve;
+      }),
+    );
+    const request = {
+      body: [
+        {
+          ...mockEvent,
+          context: {
+            ...mockEvent.context,
+            userId: 'test123',
+          } as AnalyticsContextValue,
+        },
+      ] as AnalyticsEvent[],
+    };
+
+    const promise = controller.trackEvents(request as Request, res as Response);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(mockProcessorAddEvent).toHaveBeenCalledTimes(1);
+    expect(res.status).not.toHaveBeenCalled();
+
+    resolveAddEvent();
+    await promise;
+
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
   it('should throw validation error if the request is missing some fields', async () => {
     jest.clearAllMocks();
     mockProcessIncomingEvents.mockClear();
@@ -222,12 +268,21 @@ describe('trackEvents', () => {
 });
 
 describe('GetInsights', () => {
+  const insightQuery = {
+    name: 'lightspeed_questions',
+    match: { action: 'click', subject: 'Question asked' },
+  };
+
   beforeEach(() => {
+    const insightQueries = new InsightQueriesRegistry();
+    insightQueries.register(insightQuery);
+
     controller = new EventApiController(
       mockEventDb,
       mockProcessor,
       mockServices.rootConfig.mock(),
       mockAuditor,
+      insightQueries,
     );
 
     global.fetch = jest.fn().mockResolvedValue({} as any);
@@ -289,6 +344,11 @@ describe('GetInsights', () => {
 
     expect(mockEventDb.setConfig).toHaveBeenCalledWith({
       licensedUsers: 100,
+      journeys: {
+        sessionTimeout: DEFAULT_SESSION_TIMEOUT,
+        funnel: DEFAULT_FUNNEL,
+        maxEvents: DEFAULT_JOURNEYS_MAX_EVENTS,
+      },
     });
   });
 
@@ -301,11 +361,14 @@ describe('GetInsights', () => {
     mockEventDb.getTopTemplateViews.mockResolvedValue({} as any);
     mockEventDb.getTopTechDocsViews.mockResolvedValue({} as any);
     mockEventDb.getTopCatalogEntitiesViews.mockResolvedValue({} as any);
+    mockEventDb.getUserJourneys.mockResolvedValue({} as any);
+    mockEventDb.getCustomInsight.mockResolvedValue({} as any);
 
     for (const type of QUERY_TYPES) {
       req.query = {
         ...req.query,
         type: type,
+        insight: 'lightspeed_questions',
       };
 
       await controller.getInsights(
@@ -321,6 +384,26 @@ describe('GetInsights', () => {
     expect(mockEventDb.getTopTemplateViews).toHaveBeenCalled();
     expect(mockEventDb.getTopTechDocsViews).toHaveBeenCalled();
     expect(mockEventDb.getTopCatalogEntitiesViews).toHaveBeenCalled();
+    expect(mockEventDb.getUserJourneys).toHaveBeenCalled();
+    expect(mockEventDb.getCustomInsight).toHaveBeenCalledWith(insightQuery);
+  });
+
+  it('should return not found for unknown insights', async () => {
+    req.query = {
+      ...req.query,
+      type: 'custom',
+      insight: 'unknown',
+    };
+
+    await controller.getInsights(
+      req as unknown as Request<{}, {}, {}, QueryParams>,
+      res as Response,
+    );
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(res.json).toHaveBeenCalledWith({
+      message: 'Unknown insight unknown',
+    });
   });
 
   it('should call getTechdocsMetadata method', async () => {
@@ -475,3 +558,203 @@ describe('GetInsights', () => {
     expect(res.status).toHaveBeenCalledWith(500);
   });
 });
+
+describe('getStorageUsage', () => {
+  const storageUsage = {
+    events: {
+      rows: 10,
+      size_bytes: 16384,
+      oldest_created_at: '2025-01-01T00:00:00.000Z',
+      partitions: [{ name: 'events_2025_01', size_bytes: 16384 }],
+    },
+    failed_events: {
+      rows: 1,
+      size_bytes: 8192,
+      oldest_created_at: '2025-01-02T00:00:00.000Z',
+    },
+  };
+
+  beforeEach(() => {
+    req = { query: {} };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the storage usage with the configured retention', async () => {
+    controller = new EventApiController(
+      mockEventDb,
+      mockProcessor,
+      mockServices.rootConfig({
+        data: {
+          app: { analytics: { adoptionInsights: { retentionDays: 90 } } },
+        },
+      }),
+      mockAuditor,
+    );
+    mockEventDb.getStorageUsage.mockResolvedValue(storageUsage);
+
+    await controller.getStorageUsage(
+      req as unknown as Request<{}, {}, {}, QueryParams>,
+      res as Response,
+    );
+
+    expect(res.json).toHaveBeenCalledWith({
+      ...storageUsage,
+      retention_days: 90,
+    });
+  });
+
+  it('should return null retention when no retention is configured', async () => {
+    controller = new EventApiController(
+      mockEventDb,
+      mockProcessor,
+      mockServices.rootConfig(),
+      mockAuditor,
+    );
+    mockEventDb.getStorageUsage.mockResolvedValue(storageUsage);
+
+    await controller.getStorageUsage(
+      req as unknown as Request<{}, {}, {}, QueryParams>,
+      res as Response,
+    );
+
+    expect(res.json).toHaveBeenCalledWith({
+      ...storageUsage,
+      retention_days: null,
+    });
+  });
+
+  it('should throw 500 error', async () => {
+    controller = new EventApiController(
+      mockEventDb,
+      mockProcessor,
+      mockServices.rootConfig(),
+      mockAuditor,
+    );
+    mockEventDb.getStorageUsage.mockRejectedValue(
+      new Error('Something went wrong'),
+    );
+
+    await controller.getStorageUsage(
+      req as unknown as Request<{}, {}, {}, QueryParams>,
+      res as Response,
+    );
+
+    expect(res.status).toHaveBeenCalledWith(500);
+  });
+});
+
+describe('deleteUserEvents', () => {
+  const deletedUserEvents = { deleted_events: 4, deleted_failed_events: 1 };
+
+  beforeEach(() => {
+    req = { query: { user_ref: 'user:default/john' } };
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    mockEventDb.deleteUserEvents.mockResolvedValue(deletedUserEvents);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return validation errors when user_ref is missing', async () => {
+    controller = new EventApiController(
+      mockEventDb,
+      mockProcessor,
+      mockServices.rootConfig(),
+      mockAuditor,
+    );
+    req.query = {};
+
+    await controller.deleteUserEvents(
+      req as unknown as Request<{}, {}, {}, DeleteEventsQueryParams>,
+      res as Response,
+    );
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(mockEventDb.deleteUserEvents).not.toHaveBeenCalled();
+  });
+
+  it('should delete the events of the user', async () => {
+    controller = new EventApiController(
+      mockEventDb,
+      mockProcessor,
+      mockServices.rootConfig(),
+      mockAuditor,
+    );
+
+    await controller.deleteUserEvents(
+      req as unknown as Request<{}, {}, {}, DeleteEventsQueryParams>,
+      res as Response,
+    );
+
+    expect(mockEventDb.deleteUserEvents).toHaveBeenCalledWith([
+      'user:default/john',
+    ]);
+    expect(res.json).toHaveBeenCalledWith(deletedUserEvents);
+    expect(mockAuditor.createEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        eventId: 'delete-user-events',
+        severityLevel: 'high',
+        meta: { userRef: 'user:default/john' },
+      }),
+    );
+  });
+
+  it('should also delete the pseudonymized events of the user', async () => {
+    controller = new EventApiController(
+      mockEventDb,
+      mockProcessor,
+      mockServices.rootConfig({
+        data: {
+          app: {
+            analytics: {
+              adoptionInsights: {
+                pseudonymization: { enabled: true, salt: 'salt' },
+              },
+            },
+          },
+        },
+      }),
+      mockAuditor,
+    );
+
+    await controller.deleteUserEvents(
+      req as unknown as Request<{}, {}, {}, DeleteEventsQueryParams>,
+      res as Response,
+    );
+
+    expect(mockEventDb.deleteUserEvents).toHaveBeenCalledWith([
+      'user:default/john',
+      pseudonymizeUserRef('user:default/john', 'salt'),
+    ]);
+  });
+
+  it('should throw 500 error', async () => {
+    controller = new EventApiController(
+      mockEventDb,
+      mockProcessor,
+      mockServices.rootConfig(),
+      mockAuditor,
+    );
+    mockEventDb.deleteUserEvents.mockRejectedValue(
+      new Error('Something went wrong'),
+    );
+
+    await controller.deleteUserEvents(
+      req as unknown as Request<{}, {}, {}, DeleteEventsQueryParams>,
+      res as Response,
+    );
+
+    expect(res.status).toHaveBeenCalledWith(500);
+  });
+});
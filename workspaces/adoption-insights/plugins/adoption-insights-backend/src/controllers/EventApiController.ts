@@ -19,18 +19,32 @@ import { Knex } from 'knex';
 import { AnalyticsEvent } from '@backstage/core-plugin-api';
 import { EventDatabase, Filters } from '../database/event-database';
 import { EventBatchProcessor } from '../domain/EventBatchProcessor';
+import { InsightQueriesRegistry } from '../domain/InsightQueriesRegistry';
 import { Event } from '../models/Event';
-import { QueryParams, QueryType } from '../types/event-request';
+import {
+  DeleteEventsQueryParams,
+  QueryParams,
+  QueryType,
+} from '../types/event-request';
 import { toEndOfDayUTC, toStartOfDayUTC } from '../utils/date';
 import { EventSchema } from '../validation/event';
-import { EventRequestSchema } from '../validation/event-request';
+import {
+  DeleteEventsRequestSchema,
+  EventRequestSchema,
+} from '../validation/event-request';
 import { ValidationError } from '../validation/ValidationError';
 import {
   AuditorService,
   AuditorServiceEvent,
   RootConfigService,
 } from '@backstage/backend-plugin-api';
-import { getLicensedUsersCount } from '../utils/config';
+import {
+  getJourneysConfig,
+  getLicensedUsersCount,
+  getPseudonymizationSalt,
+  getRetentionDays,
+} from '../utils/config';
+import { pseudonymizeUserRef } from '../utils/pseudonymize';
 import { TechDocsCount, TopTechDocsCount } from '../types/event';
 
 class EventApiController {
@@ -38,27 +52,30 @@ class EventApiController {
   private readonly config: RootConfigService;
   private readonly processor: EventBatchProcessor;
   private readonly auditor: AuditorService;
+  private readonly insightQueries: InsightQueriesRegistry;
 
   constructor(
     eventDatabase: EventDatabase,
     processor: EventBatchProcessor,
     config: RootConfigService,
     auditor: AuditorService,
+    insightQueries: InsightQueriesRegistry = new InsightQueriesRegistry(),
   ) {
     this.database = eventDatabase;
     this.processor = processor;
     this.config = config;
     this.auditor = auditor;
+    this.insightQueries = insightQueries;
   }
 
   async getBaseUrl(pluginId: string): Promise<string> {
     return `${this.config.getString('backend.baseUrl')}/api/${pluginId}`;
   }
 
-  private processIncomingEvents(
+  private async processIncomingEvents(
     events: AnalyticsEvent[],
     auditEvent: AuditorServiceEvent,
-  ): void {
+  ): Promise<void> {
     const proccessedEvents = events
       .filter(e => !!e.context?.userId)
       .map(event => new Event(event, this.database.isJsonSupported()));
@@ -73,8 +90,11 @@ class EventApiController {
         throw new ValidationError('Invalid event data', result.error.flatten());
       }
       auditEvent.success({ meta: { eventId: event.id } });
-      return this.processor.addEvent(event);
     });
+
+    await Promise.all(
+      proccessedEvents.map(event => this.processor.addEvent(event)),
+    );
   }
 
   async trackEvents(
@@ -89,7 +109,7 @@ class EventApiController {
     });
 
     try {
-      this.processIncomingEvents(events, auditEvent);
+      await this.processIncomingEvents(events, auditEvent);
       res.status(200).json({ success: true, message: 'Event received' });
     } catch (error) {
       auditEvent.fail({
@@ -127,7 +147,15 @@ class EventApiController {
       });
       return;
     }
-    const { type, format, ...params } = parsed.data;
+    const { type, format, insight, ...params } = parsed.data;
+    if (type === 'custom' && !this.insightQueries.has(insight!)) {
+      auditEvent.fail({
+        error: new Error(`Unknown insight ${insight}`),
+      });
+      res.status(404).json({ message: `Unknown insight ${insight}` });
+      return;
+    }
+
     const licensedUsers = getLicensedUsersCount(this.config);
     const filters: Filters = {
       ...params,
@@ -137,7 +165,7 @@ class EventApiController {
     const db = this.database;
 
     db.setFilters(filters);
-    db.setConfig({ licensedUsers });
+    db.setConfig({ licensedUsers, journeys: getJourneysConfig(this.config) });
     const queryHandlers: Record<QueryType, () => Promise<Knex.QueryBuilder>> = {
       total_users: () => db.getUsers(),
       active_users: () => db.getDailyUsers(),
@@ -146,6 +174,8 @@ class EventApiController {
       top_techdocs: () => db.getTopTechDocsViews(),
       top_templates: () => db.getTopTemplateViews(),
       top_catalog_entities: () => db.getTopCatalogEntitiesViews(),
+      user_journeys: () => db.getUserJourneys(),
+      custom: () => db.getCustomInsight(this.insightQueries.get(insight!)),
     };
 
     try {
@@ -180,6 +210,69 @@ class EventApiController {
     }
   }
 
+  async deleteUserEvents(
+    req: Request<{}, {}, {}, DeleteEventsQueryParams>,
+    res: Response,
+  ): Promise<void> {
+    const parsed = DeleteEventsRequestSchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({
+        message: 'Invalid query',
+        errors: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+    const { user_ref: userRef } = parsed.data;
+
+    const auditEvent = await this.auditor.createEvent({
+      eventId: 'delete-user-events',
+      severityLevel: 'high',
+      request: req,
+      meta: { userRef },
+    });
+
+    // Events stored before pseudonymization was enabled still contain the user ref
+    const salt = getPseudonymizationSalt(this.config);
+    const userRefs = salt
+      ? [userRef, pseudonymizeUserRef(userRef, salt)]
+      : [userRef];
+
+    try {
+      const result = await this.database.deleteUserEvents(userRefs);
+      auditEvent.success({ meta: { ...result } });
+      res.json(result);
+    } catch (error) {
+      auditEvent.fail({
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      res.status(500).json({ error: 'Internal Server Error' });
+    }
+  }
+
+  async getStorageUsage(
+    req: Request<{}, {}, {}, QueryParams>,
+    res: Response,
+  ): Promise<void> {
+    const auditEvent = await this.auditor.createEvent({
+      eventId: 'get-storage-usage',
+      request: req,
+    });
+
+    try {
+      const usage = await this.database.getStorageUsage();
+      auditEvent.success();
+      res.json({
+        ...usage,
+        retention_days: getRetentionDays(this.config) ?? null,
+      });
+    } catch (error) {
+      auditEvent.fail({
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      res.status(500).json({ error: 'Internal Server Error' });
+    }
+  }
+
   async getTechdocsMetadata(
     req: Request<{}, {}, {}, QueryParams>,
     result: TopTechDocsCount,
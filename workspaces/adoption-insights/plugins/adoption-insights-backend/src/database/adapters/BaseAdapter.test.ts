@@ -98,9 +98,10 @@ describe('BaseAdapter', () => {
   it('should insert the event to the database', async () => {
     infoLog = jest.spyOn(logger, 'info');
     mockKnex.transaction = jest.fn();
-    const mockTrx = jest.fn().mockReturnValue({
-      insert: jest.fn().mockResolvedValue([1]),
-    });
+    const ignore = jest.fn().mockResolvedValue([1]);
+    const onConflict = jest.fn().mockReturnValue({ ignore });
+    const insert = jest.fn().mockReturnValue({ onConflict });
+    const mockTrx = jest.fn().mockReturnValue({ insert });
     mockKnex.transaction.mockImplementation(async callback => {
       return callback(mockTrx as any);
     });
@@ -109,14 +110,40 @@ describe('BaseAdapter', () => {
     const event = new Event(mockEvent);
     await db.insertEvents([event]);
 
+    expect(insert).toHaveBeenCalledWith([event.toJSON()]);
     expect(infoLog).toHaveBeenCalledWith(
       '[DB] Successfully inserted 1 events in bulk',
     );
   });
+
+  it('should ignore the events whose event_id is already stored', async () => {
+    mockKnex.transaction = jest.fn();
+    const ignore = jest.fn().mockResolvedValue([]);
+    const onConflict = jest.fn().mockReturnValue({ ignore });
+    const mockTrx = jest.fn().mockReturnValue({
+      insert: jest.fn().mockReturnValue({ onConflict }),
+    });
+    mockKnex.transaction.mockImplementation(async callback => {
+      return callback(mockTrx as any);
+    });
+    const db = new PostgresAdapter(mockKnex, logger);
+
+    const event = new Event(mockEvent);
+    await expect(db.insertEvents([event, event])).resolves.toBeUndefined();
+
+    expect(onConflict).toHaveBeenCalledWith(['event_id', 'created_at']);
+    expect(ignore).toHaveBeenCalled();
+  });
   it('should throw error the user about the failed to insert into to database', async () => {
     infoLog = jest.spyOn(logger, 'info');
     const mockTrx = jest.fn().mockReturnValue({
-      insert: jest.fn().mockRejectedValue(new Error('Database insert failed')),
+      insert: jest.fn().mockReturnValue({
+        onConflict: jest.fn().mockReturnValue({
+          ignore: jest
+            .fn()
+            .mockRejectedValue(new Error('Database insert failed')),
+        }),
+      }),
     }) as any;
     mockKnex.transaction.mockImplementation(async callback => {
       await callback(mockTrx);
@@ -271,6 +298,185 @@ describe('BaseAdapter', () => {
     });
   });
 
+  describe('owner group', () => {
+    it('should filter the events of the group', async () => {
+      const mockpostgresDb = jest.fn().mockReturnValue({
+        ...mockKnex,
+        then: jest.fn().mockImplementation(cb => cb([])),
+      }) as any;
+      mockpostgresDb.raw = jest.fn().mockReturnValue('mocked_raw_sql');
+
+      const db = new PostgresAdapter(mockpostgresDb, logger);
+      db.setFilters({
+        timezone: new Intl.DateTimeFormat().resolvedOptions().timeZone,
+        start_date: new Date('2025-03-02').toISOString(),
+        end_date: new Date('2025-03-05').toISOString(),
+        group: 'group:default/team-a',
+      });
+      await db.getTopTemplateViews();
+
+      expect(mockKnex.where).toHaveBeenCalledWith(
+        'owner_group',
+        'group:default/team-a',
+      );
+      expect(mockKnex.groupBy).not.toHaveBeenCalledWith('owner_group');
+    });
+
+    it('should return the users count of each group', async () => {
+      const usersCount = [
+        { owner_group: 'group:default/team-a', logged_in_users: 2 },
+        { owner_group: 'group:default/team-b', logged_in_users: 1 },
+      ];
+
+      const mockpostgresDb = jest.fn().mockReturnValue({
+        ...mockKnex,
+        then: jest.fn().mockImplementation(cb => cb(usersCount)),
+      }) as any;
+      mockpostgresDb.raw = jest
+        .fn()
+        .mockReturnValue('COUNT(*) as logged_in_users');
+
+      const db = new PostgresAdapter(mockpostgresDb, logger);
+      db.setConfig({ licensedUsers: 10 });
+      db.setFilters({
+        timezone: new Intl.DateTimeFormat().resolvedOptions().timeZone,
+        start_date: new Date('2025-03-02').toISOString(),
+        end_date: new Date('2025-03-05').toISOString(),
+        groupBy: 'ownerGroup',
+      });
+      const result = await db.getUsers();
+
+      expect(mockKnex.groupBy).toHaveBeenCalledWith('owner_group');
+      expect(result).toEqual({
+        data: [
+          {
+            owner_group: 'group:default/team-a',
+            logged_in_users: 2,
+            licensed_users: 10,
+          },
+          {
+            owner_group: 'group:default/team-b',
+            logged_in_users: 1,
+            licensed_users: 10,
+          },
+        ],
+      });
+    });
+  });
+
+  describe('getUserJourneys', () => {
+    it('should return the sessions paths and funnel', async () => {
+      const navigationEvents = [
+        {
+          user_ref: 'user:default/john',
+          plugin_id: 'scaffolder',
+          subject: '/create',
+          created_at: '2025-03-02T10:00:00.000Z',
+        },
+        {
+          user_ref: 'user:default/john',
+          plugin_id: 'scaffolder',
+          subject: '/create/templates/default/nodejs',
+          created_at: '2025-03-02T10:01:00.000Z',
+        },
+        {
+          user_ref: 'user:default/jane',
+          plugin_id: 'catalog',
+          subject: '/catalog',
+          created_at: '2025-03-02T10:00:00.000Z',
+        },
+      ];
+
+      const mockQuery = {
+        ...mockKnex,
+        then: jest.fn().mockImplementation(cb => cb(navigationEvents)),
+      };
+      const mockpostgresDb = jest.fn().mockReturnValue(mockQuery) as any;
+      mockpostgresDb.select = jest.fn().mockReturnValue(mockQuery);
+
+      const db = new PostgresAdapter(mockpostgresDb, logger);
+      db.setConfig({
+        licensedUsers: 10,
+        journeys: {
+          sessionTimeout: 30,
+          maxEvents: 1000,
+          funnel: [
+            { title: 'Open template list', path: '/create' },
+            { title: 'Choose template', path: '/create/templates/*/*' },
+          ],
+        },
+      });
+      db.setFilters({
+        timezone: new Intl.DateTimeFormat().resolvedOptions().timeZone,
+        start_date: new Date('2025-03-02').toISOString(),
+        end_date: new Date('2025-03-05').toISOString(),
+        limit: 5,
+      });
+      const result = await db.getUserJourneys();
+      expect(result).toEqual({
+        total_sessions: 2,
+        funnel: [
+          {
+            title: 'Open template list',
+            path: '/create',
+            count: 1,
+            conversion_rate: 100,
+            drop_off: 0,
+          },
+          {
+            title: 'Choose template',
+            path: '/create/templates/*/*',
+            count: 1,
+            conversion_rate: 100,
+            drop_off: 0,
+          },
+        ],
+        data: [
+          { steps: ['scaffolder'], count: 1 },
+          { steps: ['catalog'], count: 1 },
+        ],
+      });
+      expect(mockKnex.limit).toHaveBeenCalledWith(1000);
+      expect(logger.warn).not.toHaveBeenCalled();
+    });
+
+    it('should only load the most recent events up to the limit', async () => {
+      const navigationEvents = [
+        {
+          user_ref: 'user:default/john',
+          plugin_id: 'catalog',
+          subject: '/catalog',
+          created_at: '2025-03-02T10:00:00.000Z',
+        },
+      ];
+      const mockQuery = {
+        ...mockKnex,
+        then: jest.fn().mockImplementation(cb => cb(navigationEvents)),
+      };
+      const mockpostgresDb = jest.fn().mockReturnValue(mockQuery) as any;
+      mockpostgresDb.select = jest.fn().mockReturnValue(mockQuery);
+
+      const db = new PostgresAdapter(mockpostgresDb, logger);
+      db.setConfig({
+        licensedUsers: 10,
+        journeys: { sessionTimeout: 30, maxEvents: 1, funnel: [] },
+      });
+      db.setFilters({
+        timezone: new Intl.DateTimeFormat().resolvedOptions().timeZone,
+        start_date: new Date('2025-03-02').toISOString(),
+        end_date: new Date('2025-03-05').toISOString(),
+      });
+      const result = await db.getUserJourneys();
+
+      expect(mockKnex.orderBy).toHaveBeenCalledWith('created_at', 'desc');
+      expect(mockKnex.limit).toHaveBeenCalledWith(1);
+      expect(logger.warn).toHaveBeenCalledWith(
+        '[JOURNEYS] The limit of 1 navigation events was reached, only the most recent ones are used',
+      );
+      expect(result.total_sessions).toBe(1);
+    });
+  });
+
   describe('modifyDateInObject', () => {
     it('should modify the date in the given object', async () => {
       const object = {
@@ -17,17 +17,33 @@ import { Knex } from 'knex';
 import { Filters, EventDatabase, UserConfig } from '../event-database';
 import { Event } from '../../models/Event';
 import { LoggerService } from '@backstage/backend-plugin-api';
+import { InsightQuery } from '@red-hat-developer-hub/backstage-plugin-adoption-insights-node';
 import {
   DailyUser,
+  DeletedUserEvents,
   Grouping,
+  PartitionStorageUsage,
   ResponseData,
   ResponseWithGrouping,
+  StorageUsage,
+  TableStorageUsage,
 } from '../../types/event';
 import { convertToTargetTimezone } from '../../utils/date';
+import {
+  DEFAULT_FUNNEL,
+  DEFAULT_JOURNEYS_MAX_EVENTS,
+  DEFAULT_SESSION_TIMEOUT,
+} from '../../utils/config';
+import {
+  getFunnel,
+  getSessions,
+  getTopPaths,
+  NavigationEvent,
+} from '../../utils/journeys';
 
 export abstract class BaseDatabaseAdapter implements EventDatabase {
   protected db: Knex;
-  private readonly logger: LoggerService;
+  protected readonly logger: LoggerService;
   protected filters?: Filters;
   protected config?: UserConfig;
 
@@ -69,7 +85,11 @@ export abstract class BaseDatabaseAdapter implements EventDatabase {
     try {
       await this.db.transaction(async trx => {
         const evts = events.map(event => event.toJSON());
-        await trx('events').insert(evts); // Bulk insert into events table ('events')
+        // Bulk insert into events table ('events'), skipping the events which are already stored
+        await trx('events')
+          .insert(evts)
+          .onConflict(['event_id', 'created_at'])
+          .ignore();
       });
       this.logger.info(
         `[DB] Successfully inserted ${events.length} events in bulk`,
@@ -80,6 +100,83 @@ export abstract class BaseDatabaseAdapter implements EventDatabase {
     }
   }
 
+  async deleteUserEvents(userRefs: string[]): Promise<DeletedUserEvents> {
+    return this.db.transaction(async trx => {
+      const deletedEvents = await trx('events')
+        .whereIn('user_ref', userRefs)
+        .delete();
+
+      // Failed events are stored as serialized events, so they are matched by their serialized user_ref field
+      const deletedFailedEvents = await trx('failed_events')
+        .where(query => {
+          userRefs.forEach(userRef => {
+            const field = `"user_ref":${JSON.stringify(userRef)}`;
+            query.orWhereRaw(`event_data LIKE ? ESCAPE '\\'`, [
+              `%${field.replace(/[\\%_]/g, '\\$&')}%`,
+            ]);
+          });
+        })
+        .delete();
+
+      return {
+        deleted_events: deletedEvents,
+        deleted_failed_events: deletedFailedEvents,
+      };
+    });
+  }
+
+  async purgeEvents(before: Date): Promise<number> {
+    return this.db('events')
+      .whereRaw(this.getDateBeforeQuery(), [before.toISOString()])
+      .delete();
+  }
+
+  async purgeFailedEvents(before: Date): Promise<number> {
+    return this.db('failed_events')
+      .whereRaw(this.getDateBeforeQuery(), [before.toISOString()])
+      .delete();
+  }
+
+  async getStorageUsage(): Promise<StorageUsage> {
+    const [events, failedEvents, partitions] = await Promise.all([
+      this.getTableStorageUsage('events'),
+      this.getTableStorageUsage('failed_events'),
+      this.getPartitionStorageUsage(),
+    ]);
+
+    return {
+      events: { ...events, partitions },
+      failed_events: failedEvents,
+    };
+  }
+
+  protected async getTableStorageUsage(
+    table: string,
+  ): Promise<TableStorageUsage> {
+    const db = this.db;
+    const [usage] = await db(table).select(
+      db.raw('CAST(COUNT(*) as INTEGER) as count'),
+      db.raw('MIN(created_at) as oldest_created_at'),
+    );
+
+    return {
+      rows: Number(usage?.count ?? 0),
+      size_bytes: await this.getTableSize(table),
+      oldest_created_at: usage?.oldest_created_at
+        ? new Date(usage.oldest_created_at).toISOString()
+        : null,
+    };
+  }
+
+  // Table sizes are only reported by databases which expose them
+  protected async getTableSize(_table: string): Promise<number | null> {
+    return null;
+  }
+
+  protected async getPartitionStorageUsage(): Promise<PartitionStorageUsage[]> {
+    return [];
+  }
+
   protected selectFromEvents(
     queryBuilder: Knex.QueryBuilder,
     columns: (string | Knex.Raw<any>)[],
@@ -94,9 +191,63 @@ export abstract class BaseDatabaseAdapter implements EventDatabase {
       query.whereBetween('created_at', dateRange);
     }
 
+    return this.whereGroup(query);
+  }
+
+  // Restricts the query to the events of the users of the filtered group
+  protected whereGroup(
+    query: Knex.QueryBuilder,
+    column: string = 'owner_group',
+  ): Knex.QueryBuilder {
+    if (this.filters?.group) {
+      query.where(column, this.filters.group);
+    }
     return query;
   }
 
+  // Adds the group of the users as a dimension of the query
+  protected groupByOwnerGroup(
+    query: Knex.QueryBuilder,
+    column: string = 'owner_group',
+  ): Knex.QueryBuilder {
+    if (this.isGroupedByOwnerGroup()) {
+      query.select(column).groupBy(column);
+    }
+    return query;
+  }
+
+  protected isGroupedByOwnerGroup(): boolean {
+    return this.filters?.groupBy === 'ownerGroup';
+  }
+
+  // Limits the rows of the query, per owner group when the query is broken down by group
+  protected limitPerOwnerGroup(
+    query: Knex.QueryBuilder,
+    limit: number,
+    orderBy: { column: string; order: 'asc' | 'desc' },
+  ): PromiseLike<any> {
+    if (!this.isGroupedByOwnerGroup()) {
+      return query.limit(limit);
+    }
+    const db = this.db;
+    const rankedQuery = db
+      .select(
+        'sub.*',
+        db.raw(
+          `ROW_NUMBER() OVER (PARTITION BY owner_group ORDER BY ?? ${orderBy.order}) AS group_rank`,
+          [orderBy.column],
+        ),
+      )
+      .from(query.as('sub'));
+
+    return db
+      .select('*')
+      .from(rankedQuery.as('ranked'))
+      .where('group_rank', '<=', limit)
+      .orderBy(['owner_group', 'group_rank'])
+      .then((rows: any[]) => rows.map(({ group_rank, ...row }) => row));
+  }
+
   async getDailyUsers(): Promise<Knex.QueryBuilder> {
     this.ensureFiltersSet();
     const { start_date, end_date } = this.filters!;
@@ -109,6 +260,8 @@ export abstract class BaseDatabaseAdapter implements EventDatabase {
       )
       .whereBetween('created_at', [start_date, end_date])
       .groupByRaw('date, user_ref');
+    this.whereGroup(groupedEventsQuery);
+    this.groupByOwnerGroup(groupedEventsQuery);
 
     const firstSeenQuery = db('events')
       .select('user_ref')
@@ -138,6 +291,7 @@ export abstract class BaseDatabaseAdapter implements EventDatabase {
       )
       .groupBy('ge.date')
       .orderBy('ge.date');
+    this.groupByOwnerGroup(query, 'ge.owner_group');
 
     return query.then(data => this.getResponseWithGrouping<DailyUser[]>(data));
   }
@@ -146,18 +300,25 @@ export abstract class BaseDatabaseAdapter implements EventDatabase {
     this.ensureFiltersSet();
     const { start_date, end_date } = this.filters!;
     const db = this.db;
+    const usersQuery = db('events')
+      .select('user_ref')
+      .whereBetween('created_at', [start_date, end_date])
+      .groupBy('user_ref');
+    this.whereGroup(usersQuery);
+    this.groupByOwnerGroup(usersQuery);
+
     const query = db('events')
       .select(db.raw('CAST(COUNT(*) as INTEGER) as logged_in_users'))
-      .from(
-        db('events')
-          .select('user_ref')
-          .whereBetween('created_at', [start_date, end_date])
-          .groupBy('user_ref')
-          .as('sub'),
-      );
+      .from(usersQuery.as('sub'));
+    this.groupByOwnerGroup(query);
 
     return query.then(result => {
       const { licensedUsers } = this.config!;
+      if (this.isGroupedByOwnerGroup()) {
+        return this.getResponseData(
+          result.map(row => ({ ...row, licensed_users: licensedUsers })),
+        );
+      }
       result[0] = { ...result[0], licensed_users: licensedUsers } as any;
       return this.getResponseData(result);
     });
@@ -180,10 +341,14 @@ export abstract class BaseDatabaseAdapter implements EventDatabase {
       })
       .whereBetween('created_at', [start_date, end_date])
       .groupByRaw('entityref')
-      .orderBy('count', 'desc')
-      .limit(Number(limit) || 3);
-
-    return query.then(data => this.getResponseData(data, 'last_used'));
+      .orderBy('count', 'desc');
+    this.whereGroup(query);
+    this.groupByOwnerGroup(query);
+
+    return this.limitPerOwnerGroup(query, Number(limit) || 3, {
+      column: 'count',
+      order: 'desc',
+    }).then(data => this.getResponseData(data, 'last_used'));
   }
 
   async getTopSearches(): Promise<Knex.QueryBuilder> {
@@ -198,10 +363,14 @@ export abstract class BaseDatabaseAdapter implements EventDatabase {
       .whereBetween('created_at', [start_date, end_date])
       .andWhere('action', 'search')
       .groupByRaw('date')
-      .orderBy('date', 'asc')
-      .limit(Number(limit) || 3);
-
-    return query.then(data => this.getResponseWithGrouping(data));
+      .orderBy('date', 'asc');
+    this.whereGroup(query);
+    this.groupByOwnerGroup(query);
+
+    return this.limitPerOwnerGroup(query, Number(limit) || 3, {
+      column: 'date',
+      order: 'asc',
+    }).then(data => this.getResponseWithGrouping(data));
   }
 
   async getTopTechDocsViews(): Promise<Knex.QueryBuilder> {
@@ -222,10 +391,14 @@ export abstract class BaseDatabaseAdapter implements EventDatabase {
       })
       .whereBetween('created_at', [start_date, end_date])
       .groupByRaw(`name, kind, namespace`)
-      .orderBy('count', 'desc')
-      .limit(Number(limit) || 3);
-
-    return query.then(data => this.getResponseData(data, 'last_used'));
+      .orderBy('count', 'desc');
+    this.whereGroup(query);
+    this.groupByOwnerGroup(query);
+
+    return this.limitPerOwnerGroup(query, Number(limit) || 3, {
+      column: 'count',
+      order: 'desc',
+    }).then(data => this.getResponseData(data, 'last_used'));
   }
 
   async getTopCatalogEntitiesViews(): Promise<Knex.QueryBuilder> {
@@ -246,13 +419,17 @@ export abstract class BaseDatabaseAdapter implements EventDatabase {
       .andWhere('action', 'navigate')
       .andWhere('plugin_id', 'catalog')
       .groupByRaw('plugin_id, kind, name, namespace')
-      .orderBy('count', 'desc')
-      .limit(Number(limit) || 3);
+      .orderBy('count', 'desc');
 
     if (kind) {
       query.andWhere(db.raw(`LOWER(attributes->>'kind') = ?`, [kind]));
     }
-    return query.then(data => this.getResponseData(data, 'last_used'));
+    this.whereGroup(query);
+    this.groupByOwnerGroup(query);
+    return this.limitPerOwnerGroup(query, Number(limit) || 3, {
+      column: 'count',
+      order: 'desc',
+    }).then(data => this.getResponseData(data, 'last_used'));
   }
 
   async getTopPluginViews(): Promise<Knex.QueryBuilder> {
@@ -260,17 +437,29 @@ export abstract class BaseDatabaseAdapter implements EventDatabase {
     const { start_date, end_date, limit = 3 } = this.filters!;
     const dateRange: [string, string] = [start_date, end_date];
     const db = this.db;
+    const grouped = this.isGroupedByOwnerGroup();
+
+    // Users without group are grouped under an empty group, so the trends can be joined on it
+    const ownerGroupColumns = grouped
+      ? [db.raw(`COALESCE(owner_group, '') AS owner_group`)]
+      : [];
+    const ownerGroupColumn = grouped ? ['owner_group'] : [];
+    const ownerGroupCondition = grouped
+      ? 'AND td.owner_group = t.owner_group'
+      : '';
 
     // return grouped plugin counts by date.
     const getTrendDataQuery = (qb: Knex.QueryBuilder) => {
       const trend_data_columns = [
         'plugin_id',
+        ...ownerGroupColumns,
         db.raw(this.getDynamicDateGrouping({ useTimestamp: false })),
         db.raw('CAST(COUNT(*) as INTEGER) AS count'),
       ];
 
       return this.selectFromEvents(qb, trend_data_columns, dateRange).groupBy(
         'plugin_id',
+        ...ownerGroupColumn,
         'date',
       );
     };
@@ -279,13 +468,14 @@ export abstract class BaseDatabaseAdapter implements EventDatabase {
     const getPluginCountsQuery = (qb: Knex.QueryBuilder) => {
       const plugin_counts_columns = [
         'plugin_id',
+        ...ownerGroupColumns,
         db.raw('CAST(COUNT(*) as INTEGER) AS visit_count'),
       ];
       return this.selectFromEvents(
         qb,
         plugin_counts_columns,
         dateRange,
-      ).groupBy('plugin_id');
+      ).groupBy('plugin_id', ...ownerGroupColumn);
     };
 
     // return aggregated trends JSON object and first_count, last_count to calculate the trend percentage
@@ -293,14 +483,15 @@ export abstract class BaseDatabaseAdapter implements EventDatabase {
       return qb
         .select([
           'plugin_id',
+          ...ownerGroupColumn,
           db.raw(`
                 json(${this.getJsonAggregationQuery('date', 'count')}) AS trend,
-                COALESCE((SELECT count FROM trend_data td WHERE td.plugin_id = t.plugin_id ORDER BY date LIMIT 1),0) AS first_count,
-                COALESCE((SELECT count FROM trend_data td WHERE td.plugin_id = t.plugin_id ORDER BY date DESC LIMIT 1),0) AS last_count
+                COALESCE((SELECT count FROM trend_data td WHERE td.plugin_id = t.plugin_id ${ownerGroupCondition} ORDER BY date LIMIT 1),0) AS first_count,
+                COALESCE((SELECT count FROM trend_data td WHERE td.plugin_id = t.plugin_id ${ownerGroupCondition} ORDER BY date DESC LIMIT 1),0) AS last_count
                 `),
         ])
         .from('trend_data AS t')
-        .groupBy('plugin_id');
+        .groupBy('plugin_id', ...ownerGroupColumn);
     };
 
     // Main query to get top plugins counts, trends for the given date range.
@@ -310,6 +501,9 @@ export abstract class BaseDatabaseAdapter implements EventDatabase {
       .with('aggregated_trends', qb => getAggregatedTrendsQuery(qb))
       .select([
         'p.plugin_id',
+        ...(grouped
+          ? [db.raw(`NULLIF(p.owner_group, '') AS owner_group`)]
+          : []),
         'p.visit_count',
         't.trend',
         db.raw(`
@@ -320,11 +514,18 @@ export abstract class BaseDatabaseAdapter implements EventDatabase {
         `),
       ])
       .from('plugin_counts AS p')
-      .leftJoin('aggregated_trends AS t', 'p.plugin_id', 't.plugin_id')
-      .orderBy('p.visit_count', 'desc')
-      .limit(limit);
+      .leftJoin('aggregated_trends AS t', join => {
+        join.on('p.plugin_id', 't.plugin_id');
+        if (grouped) {
+          join.andOn('p.owner_group', 't.owner_group');
+        }
+      })
+      .orderBy('p.visit_count', 'desc');
 
-    return query.then(data => {
+    return this.limitPerOwnerGroup(query, Number(limit), {
+      column: 'visit_count',
+      order: 'desc',
+    }).then(data => {
       return this.getResponseWithGrouping(
         this.transformJson(data, 'trend'),
         'trend',
@@ -332,12 +533,132 @@ export abstract class BaseDatabaseAdapter implements EventDatabase {
     });
   }
 
+  async getUserJourneys(): Promise<Knex.QueryBuilder> {
+    this.ensureFiltersSet();
+    const { start_date, end_date, limit } = this.filters!;
+    const {
+      sessionTimeout = DEFAULT_SESSION_TIMEOUT,
+      funnel = DEFAULT_FUNNEL,
+      maxEvents = DEFAULT_JOURNEYS_MAX_EVENTS,
+    } = this.config?.journeys ?? {};
+    const db = this.db;
+
+    // Only the most recent events are loaded, so a large date range cannot exhaust the memory
+    const recentEventsQuery = db('events')
+      .select('user_ref', 'plugin_id', 'subject', 'created_at')
+      .where('action', 'navigate')
+      .whereBetween('created_at', [start_date, end_date])
+      .orderBy('created_at', 'desc')
+      .limit(maxEvents);
+    this.whereGroup(recentEventsQuery);
+
+    // Sessions are rebuilt from the navigation events of each user, in chronological order
+    const query = db
+      .select('*')
+      .from(recentEventsQuery.as('recent_events'))
+      .orderBy([
+        { column: 'user_ref', order: 'asc' },
+        { column: 'created_at', order: 'asc' },
+      ]);
+
+    return query.then((events: NavigationEvent[]) => {
+      if (events.length >= maxEvents) {
+        this.logger.warn(
+          `[JOURNEYS] The limit of ${maxEvents} navigation events was reached, only the most recent ones are used`,
+        );
+      }
+      const sessions = getSessions(events, sessionTimeout);
+      return {
+        total_sessions: sessions.length,
+        funnel: getFunnel(sessions, funnel),
+        data: getTopPaths(sessions, Number(limit) || 3),
+      };
+    });
+  }
+
+  async getCustomInsight(
+    insightQuery: InsightQuery,
+  ): Promise<Knex.QueryBuilder> {
+    this.ensureFiltersSet();
+    const { start_date, end_date, limit } = this.filters!;
+    const db = this.db;
+    const { action, subject, pluginId, attributes = {} } = insightQuery.match;
+
+    const matchEvents = (query: Knex.QueryBuilder) => {
+      query
+        .whereBetween('created_at', [start_date, end_date])
+        .andWhere('action', action);
+      if (subject) {
+        query.andWhere('subject', subject);
+      }
+      if (pluginId) {
+        query.andWhere('plugin_id', pluginId);
+      }
+      for (const [attribute, value] of Object.entries(attributes)) {
+        query.andWhere(db.raw(`attributes->>? = ?`, [attribute, value]));
+      }
+      this.whereGroup(query);
+      return query;
+    };
+
+    const trendQuery = matchEvents(
+      db('events')
+        .select(
+          db.raw(this.getDynamicDateGrouping({ useTimestamp: true })),
+          db.raw('CAST(COUNT(*) as INTEGER) AS count'),
+        )
+        .groupByRaw('date')
+        .orderBy('date', 'asc'),
+    );
+
+    const totalsQuery = matchEvents(
+      db('events').select(
+        db.raw('CAST(COUNT(*) as INTEGER) AS total'),
+        db.raw('CAST(COUNT(DISTINCT user_ref) as INTEGER) AS users'),
+      ),
+    );
+
+    const { breakdown } = insightQuery;
+    // The alias must not collide with the value column of the events, which GROUP BY would pick instead
+    const breakdownColumn =
+      typeof breakdown === 'object'
+        ? db.raw(`attributes->>? AS breakdown_value`, [breakdown.attribute])
+        : db.raw(`?? AS breakdown_value`, [breakdown]);
+    const breakdownQuery = breakdown
+      ? matchEvents(
+          db('events')
+            .select(
+              breakdownColumn,
+              db.raw('CAST(COUNT(*) as INTEGER) AS count'),
+            )
+            .groupByRaw('breakdown_value')
+            .orderBy('count', 'desc')
+            .limit(Number(limit) || 3),
+        )
+      : Promise.resolve([]);
+
+    return Promise.all([trendQuery, totalsQuery, breakdownQuery]).then(
+      ([trend, totals, breakdownData]) => ({
+        ...this.getResponseWithGrouping(trend),
+        total: Number(totals[0]?.total ?? 0),
+        users: Number(totals[0]?.users ?? 0),
+        breakdown: breakdownData.map(
+          ({ breakdown_value, count }: Record<string, any>) => ({
+            value: breakdown_value,
+            count,
+          }),
+        ),
+      }),
+    );
+  }
+
   abstract getDate(): string;
   abstract getLastUsedDate(): string;
   abstract isJsonSupported(): boolean;
   abstract isTimezoneSupported(): boolean;
   abstract isPartitionSupported(): boolean;
   abstract getDateBetweenQuery(): string;
+  abstract getDateBeforeQuery(): string;
   abstract getDynamicDateGrouping(options?: {
     onlyText?: boolean;
     useTimestamp?: boolean;
@@ -16,6 +16,12 @@
 import { mockServices } from '@backstage/backend-test-utils';
 import { PostgresAdapter } from './PostgresAdapter';
 import { BaseDatabaseAdapter } from './BaseAdapter';
+import { dropPartitionsBefore, getPartitions } from '../partition';
+
+jest.mock('../partition', () => ({
+  dropPartitionsBefore: jest.fn(),
+  getPartitions: jest.fn(),
+}));
 
 describe('PostgresAdapter', () => {
   const mockDb = {
@@ -34,3 +40,63 @@ describe('PostgresAdapter', () => {
     expect(postgresAdapter.isPartitionSupported()).toBe(true);
   });
 });
+
+describe('PostgresAdapter retention', () => {
+  const logger = mockServices.logger.mock();
+  const deleteRows = jest.fn().mockResolvedValue(2);
+  const whereRaw = jest.fn().mockReturnValue({ delete: deleteRows });
+  const mockDb = Object.assign(jest.fn().mockReturnValue({ whereRaw }), {
+    raw: jest.fn(),
+  }) as any;
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should drop expired partitions before deleting the remaining expired events', async () => {
+    (dropPartitionsBefore as jest.Mock).mockResolvedValue(['events_2025_01']);
+    const adapter = new PostgresAdapter(mockDb, logger);
+    const before = new Date('2025-02-15T00:00:00.000Z');
+
+    const deleted = await adapter.purgeEvents(before);
+
+    expect(dropPartitionsBefore).toHaveBeenCalledWith(mockDb, before);
+    expect(logger.info).toHaveBeenCalledWith(
+      '[DB] Dropped expired partitions: events_2025_01',
+    );
+    expect(mockDb).toHaveBeenCalledWith('events');
+    expect(whereRaw).toHaveBeenCalledWith('created_at < ?', [
+      '2025-02-15T00:00:00.000Z',
+    ]);
+    expect(deleted).toBe(2);
+  });
+
+  it('should report the size of the events table as the size of its partitions', async () => {
+    (getPartitions as jest.Mock).mockResolvedValue([
+      { name: 'events_2025_01', size_bytes: 8192 },
+      { name: 'events_2025_02', size_bytes: 16384 },
+    ]);
+    mockDb.mockReturnValue({
+      select: jest
+        .fn()
+        .mockResolvedValue([
+          { count: 5, oldest_created_at: new Date('2025-01-10T00:00:00.000Z') },
+        ]),
+    });
+    mockDb.raw.mockResolvedValue({ rows: [{ size_bytes: '4096' }] });
+    const adapter = new PostgresAdapter(mockDb, logger);
+
+    const usage = await adapter.getStorageUsage();
+
+    expect(usage.events).toEqual({
+      rows: 5,
+      size_bytes: 24576,
+      oldest_created_at: '2025-01-10T00:00:00.000Z',
+      partitions: [
+        { name: 'events_2025_01', size_bytes: 8192 },
+        { name: 'events_2025_02', size_bytes: 16384 },
+      ],
+    });
+    expect(usage.failed_events.size_bytes).toBe(4096);
+  });
+});
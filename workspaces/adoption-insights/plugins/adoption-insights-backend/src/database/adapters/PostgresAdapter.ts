@@ -14,6 +14,8 @@
  * limitations under the License.
  */
 import { BaseDatabaseAdapter } from './BaseAdapter';
+import { dropPartitionsBefore, getPartitions } from '../partition';
+import { PartitionStorageUsage } from '../../types/event';
 import { calculateDateRange, getDateGroupingType } from '../../utils/date';
 
 export class PostgresAdapter extends BaseDatabaseAdapter {
@@ -60,6 +62,40 @@ export class PostgresAdapter extends BaseDatabaseAdapter {
   getDateBetweenQuery() {
     return 'created_at';
   }
+
+  getDateBeforeQuery(): string {
+    return 'created_at < ?';
+  }
+
+  async purgeEvents(before: Date): Promise<number> {
+    // Dropping whole partitions is much cheaper than deleting their rows
+    const droppedPartitions = await dropPartitionsBefore(this.db, before);
+    if (droppedPartitions.length > 0) {
+      this.logger.info(
+        `[DB] Dropped expired partitions: ${droppedPartitions.join(', ')}`,
+      );
+    }
+
+    return super.purgeEvents(before);
+  }
+
+  protected async getTableSize(table: string): Promise<number | null> {
+    if (table === 'events') {
+      // The partitioned table itself holds no data, its size is the size of its partitions
+      const partitions = await getPartitions(this.db);
+      return partitions.reduce((size, p) => size + p.size_bytes, 0);
+    }
+
+    const result = await this.db.raw(
+      'SELECT pg_total_relation_size(?) AS size_bytes',
+      [table],
+    );
+    return Number(result.rows[0].size_bytes);
+  }
+
+  protected async getPartitionStorageUsage(): Promise<PartitionStorageUsage[]> {
+    return getPartitions(this.db);
+  }
   getJsonAggregationQuery(...args: any[]): string {
     const { grouping } = this.filters!;
     const fieldMappings = args
@@ -13,9 +13,16 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
-import { mockServices } from '@backstage/backend-test-utils';
+import { mockServices, TestDatabases } from '@backstage/backend-test-utils';
+import { resolvePackagePath } from '@backstage/backend-plugin-api';
 import { SqliteAdapter } from './SqliteAdapter';
 import { BaseDatabaseAdapter } from './BaseAdapter';
+import { Event } from '../../models/Event';
+
+const migrationsDir = resolvePackagePath(
+  '@red-hat-developer-hub/backstage-plugin-adoption-insights-backend',
+  'migrations',
+);
 
 describe('SqliteAdapter', () => {
   const mockDb = {
@@ -31,3 +38,420 @@ describe('SqliteAdapter', () => {
     expect(sqliteAdapter.isPartitionSupported()).toBe(false);
   });
 });
+
+describe('SqliteAdapter with database', () => {
+  const databases = TestDatabases.create({ ids: ['SQLITE_3'] });
+
+  const createAdapter = async () => {
+    const knex = await databases.init('SQLITE_3');
+    await knex.migrate.latest({ directory: migrationsDir });
+
+    const event = {
+      action: 'navigate',
+      subject: '/catalog',
+      plugin_id: 'catalog',
+      user_ref: 'user:default/test-user',
+      attributes: '{}',
+      context: '{}',
+    };
+    await knex('events').insert([
+      { ...event, created_at: '2025-01-15T10:00:00.000Z' },
+      { ...event, created_at: '2025-03-15T10:00:00.000Z' },
+    ]);
+    await knex('failed_events').insert([
+      {
+        event_data: '{}',
+        error_message: 'failed',
+        created_at: '2025-01-15T10:00:00.000Z',
+      },
+      {
+        event_data: '{}',
+        error_message: 'failed',
+        created_at: '2025-03-15T10:00:00.000Z',
+      },
+    ]);
+
+    return {
+      knex,
+      adapter: new SqliteAdapter(knex, mockServices.logger.mock()),
+    };
+  };
+
+  it('should delete events created before the date', async () => {
+    const { knex, adapter } = await createAdapter();
+
+    const deleted = await adapter.purgeEvents(
+      new Date('2025-02-01T00:00:00.000Z'),
+    );
+
+    expect(deleted).toBe(1);
+    const remaining = await knex('events').select('created_at');
+    expect(remaining).toEqual([{ created_at: '2025-03-15T10:00:00.000Z' }]);
+  });
+
+  it('should delete failed events created before the date', async () => {
+    const { knex, adapter } = await createAdapter();
+
+    const deleted = await adapter.purgeFailedEvents(
+      new Date('2025-02-01T00:00:00.000Z'),
+    );
+
+    expect(deleted).toBe(1);
+    const remaining = await knex('failed_events').select('created_at');
+    expect(remaining).toEqual([{ created_at: '2025-03-15T10:00:00.000Z' }]);
+  });
+
+  it('should delete the events and failed events of the users', async () => {
+    const { knex, adapter } = await createAdapter();
+    await knex('events').insert({
+      action: 'navigate',
+      subject: '/catalog',
+      plugin_id: 'catalog',
+      user_ref: 'user:default/other-user',
+      attributes: '{}',
+      context: '{}',
+      created_at: '2025-03-15T10:00:00.000Z',
+    });
+    await knex('failed_events').insert({
+      event_data: JSON.stringify({ user_ref: 'user:default/test-user' }),
+      error_message: 'failed',
+      created_at: '2025-03-15T10:00:00.000Z',
+    });
+
+    await expect(
+      adapter.deleteUserEvents(['user:default/test-user']),
+    ).resolves.toEqual({ deleted_events: 2, deleted_failed_events: 1 });
+
+    const remaining = await knex('events').select('user_ref');
+    expect(remaining).toEqual([{ user_ref: 'user:default/other-user' }]);
+    await expect(knex('failed_events').count('* as count')).resolves.toEqual([
+      { count: 2 },
+    ]);
+  });
+
+  it('should not delete the failed events of users whose ref starts with the ref of the user', async () => {
+    const { knex, adapter } = await createAdapter();
+    await knex('failed_events').insert([
+      {
+        event_data: JSON.stringify({ user_ref: 'user:default/test-user' }),
+        error_message: 'failed',
+        created_at: '2025-03-15T10:00:00.000Z',
+      },
+      {
+        event_data: JSON.stringify({
+          user_ref: 'user:default/test-user-admin',
+        }),
+        error_message: 'failed',
+        created_at: '2025-03-15T10:00:00.000Z',
+      },
+    ]);
+
+    await expect(
+      adapter.deleteUserEvents(['user:default/test-user']),
+    ).resolves.toEqual({ deleted_events: 2, deleted_failed_events: 1 });
+
+    const remaining = await knex('failed_events')
+      .whereNot('event_data', '{}')
+      .select('event_data');
+    expect(remaining).toEqual([
+      {
+        event_data: JSON.stringify({
+          user_ref: 'user:default/test-user-admin',
+        }),
+      },
+    ]);
+  });
+
+  it('should match failed events of the user literally', async () => {
+    const { adapter } = await createAdapter();
+
+    await expect(adapter.deleteUserEvents(['%'])).resolves.toEqual({
+      deleted_events: 0,
+      deleted_failed_events: 0,
+    });
+  });
+
+  it('should return the storage usage', async () => {
+    const { adapter } = await createAdapter();
+
+    await expect(adapter.getStorageUsage()).resolves.toEqual({
+      events: {
+        rows: 2,
+        size_bytes: null,
+        oldest_created_at: '2025-01-15T10:00:00.000Z',
+        partitions: [],
+      },
+      failed_events: {
+        rows: 2,
+        size_bytes: null,
+        oldest_created_at: '2025-01-15T10:00:00.000Z',
+      },
+    });
+  });
+
+  it('should store the events delivered more than once only once', async () => {
+    const { knex, adapter } = await createAdapter();
+    const event = new Event(
+      {
+        action: 'click',
+        subject: 'button',
+        context: {
+          routeRef: 'unknown',
+          pluginId: 'catalog',
+          extension: 'App',
+          userName: 'user:default/test-user',
+          timestamp: '2025-03-16T10:00:00.000Z',
+          eventId: '0e4a4e0c-1a3b-4c55-9a5e-2f1d7c1c6a11',
+        },
+      },
+      false,
+    );
+
+    await adapter.insertEvents([event]);
+    await adapter.insertEvents([event]);
+
+    const stored = await knex('events')
+      .where('event_id', event.id)
+      .select('subject');
+    expect(stored).toEqual([{ subject: 'button' }]);
+  });
+
+  describe('owner group', () => {
+    const setupGroups = async (otherEvents: Record<string, string>[] = []) => {
+      const { knex, adapter } = await createAdapter();
+      const event = {
+        action: 'navigate',
+        subject: '/catalog',
+        plugin_id: 'catalog',
+        attributes: '{}',
+        context: '{}',
+        created_at: '2025-03-16T10:00:00.000Z',
+      };
+      await knex('events').insert([
+        {
+          ...event,
+          user_ref: 'user:default/john',
+          owner_group: 'group:default/team-a',
+        },
+        {
+          ...event,
+          user_ref: 'user:default/jane',
+          owner_group: 'group:default/team-a',
+        },
+        {
+          ...event,
+          user_ref: 'user:default/joe',
+          owner_group: 'group:default/team-b',
+        },
+        ...otherEvents.map(otherEvent => ({ ...event, ...otherEvent })),
+      ]);
+      adapter.setConfig({ licensedUsers: 100 });
+      return adapter;
+    };
+
+    const filters = {
+      timezone: 'UTC',
+      start_date: '2025-01-01T00:00:00.000Z',
+      end_date: '2025-12-31T23:59:59.999Z',
+    };
+
+    it('should count the users of the group', async () => {
+      const adapter = await setupGroups();
+      adapter.setFilters({ ...filters, group: 'group:default/team-a' });
+
+      await expect(adapter.getUsers()).resolves.toEqual({
+        data: [{ logged_in_users: 2, licensed_users: 100 }],
+      });
+    });
+
+    it('should count the users of each group', async () => {
+      const adapter = await setupGroups();
+      adapter.setFilters({ ...filters, groupBy: 'ownerGroup' });
+
+      const { data } = await adapter.getUsers();
+      expect(data).toHaveLength(3);
+      expect(data).toEqual(
+        expect.arrayContaining([
+          { owner_group: null, logged_in_users: 1, licensed_users: 100 },
+          {
+            owner_group: 'group:default/team-a',
+            logged_in_users: 2,
+            licensed_users: 100,
+          },
+          {
+            owner_group: 'group:default/team-b',
+            logged_in_users: 1,
+            licensed_users: 100,
+          },
+        ]),
+      );
+    });
+
+    it('should count the plugin views of each group', async () => {
+      const adapter = await setupGroups();
+      adapter.setFilters({ ...filters, groupBy: 'ownerGroup', limit: 10 });
+
+      const { data } = await adapter.getTopPluginViews();
+      expect(data).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            plugin_id: 'catalog',
+            owner_group: null,
+            visit_count: 2,
+          }),
+          expect.objectContaining({
+            plugin_id: 'catalog',
+            owner_group: 'group:default/team-a',
+            visit_count: 2,
+          }),
+          expect.objectContaining({
+            plugin_id: 'catalog',
+            owner_group: 'group:default/team-b',
+            visit_count: 1,
+          }),
+        ]),
+      );
+    });
+
+    it('should limit the plugin views of every group', async () => {
+      const scaffolderEvent = {
+        plugin_id: 'scaffolder',
+        subject: '/create',
+        user_ref: 'user:default/john',
+        owner_group: 'group:default/team-a',
+      };
+      const adapter = await setupGroups([
+        scaffolderEvent,
+        scaffolderEvent,
+        scaffolderEvent,
+      ]);
+      adapter.setFilters({ ...filters, groupBy: 'ownerGroup', limit: 1 });
+
+      const { data } = await adapter.getTopPluginViews();
+      expect(data).toHaveLength(3);
+      expect(data).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            plugin_id: 'catalog',
+            owner_group: null,
+            visit_count: 2,
+          }),
+          expect.objectContaining({
+            plugin_id: 'scaffolder',
+            owner_group: 'group:default/team-a',
+            visit_count: 3,
+          }),
+          expect.objectContaining({
+            plugin_id: 'catalog',
+            owner_group: 'group:default/team-b',
+            visit_count: 1,
+          }),
+        ]),
+      );
+      expect(data[0]).not.toHaveProperty('group_rank');
+    });
+  });
+
+  describe('custom insight', () => {
+    const filters = {
+      timezone: 'UTC',
+      start_date: '2025-03-01T00:00:00.000Z',
+      end_date: '2025-03-31T23:59:59.999Z',
+      grouping: 'daily' as const,
+    };
+
+    const setupInsight = async () => {
+      const { knex, adapter } = await createAdapter();
+      const event = {
+        action: 'click',
+        subject: 'Question asked',
+        plugin_id: 'lightspeed',
+        context: '{}',
+        created_at: '2025-03-16T10:00:00.000Z',
+      };
+      await knex('events').insert([
+        {
+          ...event,
+          user_ref: 'user:default/john',
+          attributes: JSON.stringify({ model: 'granite' }),
+        },
+        {
+          ...event,
+          user_ref: 'user:default/john',
+          attributes: JSON.stringify({ model: 'granite' }),
+          created_at: '2025-03-17T10:00:00.000Z',
+        },
+        {
+          ...event,
+          user_ref: 'user:default/jane',
+          attributes: JSON.stringify({ model: 'llama' }),
+        },
+        {
+          ...event,
+          subject: 'Feedback sent',
+          user_ref: 'user:default/jane',
+          attributes: JSON.stringify({ model: 'llama' }),
+        },
+      ]);
+      adapter.setFilters(filters);
+      return adapter;
+    };
+
+    it('should count the matching events per date', async () => {
+      const adapter = await setupInsight();
+
+      await expect(
+        adapter.getCustomInsight({
+          name: 'lightspeed_questions',
+          match: { action: 'click', subject: 'Question asked' },
+        }),
+      ).resolves.toEqual({
+        grouping: 'daily',
+        total: 3,
+        users: 2,
+        data: [
+          { date: '2025-03-16', count: 2 },
+          { date: '2025-03-17', count: 1 },
+        ],
+        breakdown: [],
+      });
+    });
+
+    it('should break down the matching events by attribute', async () => {
+      const adapter = await setupInsight();
+
+      const result = await adapter.getCustomInsight({
+        name: 'lightspeed_questions',
+        match: { action: 'click', pluginId: 'lightspeed' },
+        breakdown: { attribute: 'model' },
+      });
+
+      expect(result.total).toBe(4);
+      expect(result.breakdown).toHaveLength(2);
+      expect(result.breakdown).toEqual(
+        expect.arrayContaining([
+          { value: 'granite', count: 2 },
+          { value: 'llama', count: 2 },
+        ]),
+      );
+    });
+
+    it('should filter the matching events by attribute', async () => {
+      const adapter = await setupInsight();
+
+      const result = await adapter.getCustomInsight({
+        name: 'lightspeed_llama_events',
+        match: { action: 'click', attributes: { model: 'llama' } },
+        breakdown: 'subject',
+      });
+
+      expect(result.total).toBe(2);
+      expect(result.breakdown).toEqual(
+        expect.arrayContaining([
+          { value: 'Question asked', count: 1 },
+          { value: 'Feedback sent', count: 1 },
+        ]),
+      );
+    });
+  });
+});
@@ -53,6 +53,10 @@ export class SqliteAdapter extends BaseDatabaseAdapter {
     return 'created_at BETWEEN datetime(?) AND datetime(?)';
   }
 
+  getDateBeforeQuery(): string {
+    return 'datetime(created_at) < datetime(?)';
+  }
+
   getJsonAggregationQuery(...args: any[]): string {
     const fieldMappings = args.map(field => `'${field}', ${field}`).join(', ');
     return `json_group_array(json_object(${fieldMappings}))`;
@@ -14,17 +14,24 @@
  * limitations under the License.
  */
 import { Knex } from 'knex';
+import { InsightQuery } from '@red-hat-developer-hub/backstage-plugin-adoption-insights-node';
 import {
+  CustomInsight,
   DailyUsers,
+  DeletedUserEvents,
+  GroupBy,
   Grouping,
+  StorageUsage,
   TopCatalogEntitiesCount,
   TopPluginCount,
   TopSearches,
   TopTechDocsCount,
   TopTemplatesCount,
   TotalUsers,
+  UserJourneys,
 } from '../types/event';
 import { Event } from '../models/Event';
+import { JourneysConfig } from '../utils/journeys';
 
 export interface Filters {
   start_date: string;
@@ -33,10 +40,13 @@ export interface Filters {
   kind?: string | undefined;
   timezone: string;
   grouping?: Grouping | undefined;
+  group?: string | undefined;
+  groupBy?: GroupBy | undefined;
 }
 
 export type UserConfig = {
   licensedUsers: number;
+  journeys?: JourneysConfig;
 };
 
 export interface EventDatabase {
@@ -46,6 +56,10 @@ export interface EventDatabase {
     errorMessage: string,
     maxRetries: number,
   ): Promise<void>;
+  deleteUserEvents(userRefs: string[]): Promise<DeletedUserEvents>;
+  purgeEvents(before: Date): Promise<number>;
+  purgeFailedEvents(before: Date): Promise<number>;
+  getStorageUsage(): Promise<StorageUsage>;
   isJsonSupported(): boolean;
   isTimezoneSupported(): boolean;
   isPartitionSupported(): boolean;
@@ -60,4 +74,8 @@ export interface EventDatabase {
   getTopCatalogEntitiesViews(): Promise<
     Knex.QueryBuilder<TopCatalogEntitiesCount>
   >;
+  getUserJourneys(): Promise<Knex.QueryBuilder<UserJourneys>>;
+  getCustomInsight(
+    insightQuery: InsightQuery,
+  ): Promise<Knex.QueryBuilder<CustomInsight>>;
 }
@@ -13,11 +13,13 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
-import { createPartition } from './partition';
+import { createPartition, dropPartitionsBefore } from './partition';
 import { Knex } from 'knex';
 
 const mockRaw = jest.fn();
+const mockQueryRaw = jest.fn();
 const knex = {
+  raw: mockQueryRaw,
   schema: { raw: mockRaw },
 } as unknown as Knex;
 
@@ -114,3 +116,47 @@ describe('createPartition', () => {
     );
   });
 });
+
+describe('dropPartitionsBefore', () => {
+  beforeEach(() => {
+    mockQueryRaw.mockResolvedValue({
+      rows: [
+        { name: 'events_2024_12', size_bytes: '8192' },
+        { name: 'events_2025_01', size_bytes: '8192' },
+        { name: 'events_2025_02', size_bytes: '8192' },
+        { name: 'events_default', size_bytes: '8192' },
+      ],
+    });
+  });
+
+  it('should drop the partitions which ended before the date', async () => {
+    const dropped = await dropPartitionsBefore(
+      knex,
+      new Date('2025-02-15T00:00:00.000Z'),
+    );
+
+    expect(dropped).toEqual(['events_2024_12', 'events_2025_01']);
+    expect(mockRaw).toHaveBeenCalledTimes(2);
+    expect(mockRaw).toHaveBeenCalledWith('DROP TABLE IF EXISTS events_2024_12');
+    expect(mockRaw).toHaveBeenCalledWith('DROP TABLE IF EXISTS events_2025_01');
+  });
+
+  it('should drop a partition which ended exactly at the date', async () => {
+    const dropped = await dropPartitionsBefore(
+      knex,
+      new Date('2025-01-01T00:00:00.000Z'),
+    );
+
+    expect(dropped).toEqual(['events_2024_12']);
+  });
+
+  it('should not drop any partition when none has expired', async () => {
+    const dropped = await dropPartitionsBefore(
+      knex,
+      new Date('2024-12-31T00:00:00.000Z'),
+    );
+
+    expect(dropped).toEqual([]);
+    expect(mockRaw).not.toHaveBeenCalled();
+  });
+});
@@ -21,9 +21,57 @@ import {
   parsePartitionDate,
 } from '../utils/partition';
 import { DateTime } from 'luxon';
+import { PartitionStorageUsage } from '../types/event';
 
 type AttemptTracker = Map<string, number>;
 
+const MONTHLY_PARTITION_NAME = /^events_\d{4}_\d{2}$/;
+
+export const getPartitions = async (
+  knex: Knex,
+): Promise<PartitionStorageUsage[]> => {
+  const result = await knex.raw(`
+    SELECT child.relname AS name, pg_total_relation_size(child.oid) AS size_bytes
+    FROM pg_inherits
+    JOIN pg_class parent ON pg_inherits.inhparent = parent.oid
+    JOIN pg_class child ON pg_inherits.inhrelid = child.oid
+    WHERE parent.relname = 'events'
+    ORDER BY child.relname
+  `);
+
+  return result.rows.map((row: { name: string; size_bytes: string }) => ({
+    name: row.name,
+    size_bytes: Number(row.size_bytes),
+  }));
+};
+
+// Drops the monthly partitions which only contain events created before the given date
+export const dropPartitionsBefore = async (
+  knex: Knex,
+  date: Date,
+): Promise<string[]> => {
+  const cutoff = DateTime.fromJSDate(date, { zone: 'UTC' });
+  const partitions = await getPartitions(knex);
+
+  const expiredPartitions = partitions
+    .map(({ name }) => name)
+    .filter(name => MONTHLY_PARTITION_NAME.test(name))
+    .filter(name => {
+      const { year, month } = parsePartitionDate(name);
+      const partitionEnd = DateTime.fromObject(
+        { year, month, day: 1 },
+        { zone: 'UTC' },
+      ).plus({ month: 1 });
+      return partitionEnd <= cutoff;
+    });
+
+  for (const partitionName of expiredPartitions) {
+    await knex.schema.raw(`DROP TABLE IF EXISTS ${partitionName}`);
+  }
+
+  return expiredPartitions;
+};
+
 export const createPartition = async (
   knex: Knex,
   year: number,
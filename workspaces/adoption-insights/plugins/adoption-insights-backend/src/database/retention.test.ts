@@ -0,0 +1,71 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { mockServices } from '@backstage/backend-test-utils';
+import { purgeExpiredEvents, scheduleRetention } from './retention';
+import { EventDatabase } from './event-database';
+
+const mockDb = {
+  purgeEvents: jest.fn().mockResolvedValue(3),
+  purgeFailedEvents: jest.fn().mockResolvedValue(1),
+} as unknown as jest.Mocked<EventDatabase>;
+
+describe('purgeExpiredEvents', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2025-03-31T12:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should purge events and failed events older than the retention period', async () => {
+    const logger = mockServices.logger.mock();
+
+    await purgeExpiredEvents(mockDb, 30, logger);
+
+    const cutoff = new Date('2025-03-01T12:00:00.000Z');
+    expect(mockDb.purgeEvents).toHaveBeenCalledWith(cutoff);
+    expect(mockDb.purgeFailedEvents).toHaveBeenCalledWith(cutoff);
+    expect(logger.info).toHaveBeenCalledWith(
+      'Purged 3 events and 1 failed events created before 2025-03-01T12:00:00.000Z',
+    );
+  });
+});
+
+describe('scheduleRetention', () => {
+  it('should schedule the purge task', async () => {
+    const run = jest.fn();
+    const scheduler = mockServices.scheduler.mock({
+      createScheduledTaskRunner: jest.fn().mockReturnValue({ run }),
+    });
+
+    await scheduleRetention(mockDb, 30, {
+      logger: mockServices.logger.mock(),
+      scheduler,
+    });
+
+    expect(scheduler.createScheduledTaskRunner).toHaveBeenCalledWith({
+      frequency: { cron: '0 3 * * *' },
+      timeout: { minutes: 15 },
+    });
+    expect(run).toHaveBeenCalledWith({
+      id: 'purge-events',
+      fn: expect.any(Function),
+    });
+  });
+});
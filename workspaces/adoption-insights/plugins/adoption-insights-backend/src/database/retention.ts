@@ -0,0 +1,54 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { LoggerService, SchedulerService } from '@backstage/backend-plugin-api';
+import { DateTime } from 'luxon';
+import { EventDatabase } from './event-database';
+
+export const purgeExpiredEvents = async (
+  db: EventDatabase,
+  retentionDays: number,
+  logger: LoggerService,
+) => {
+  const cutoff = DateTime.utc().minus({ days: retentionDays }).toJSDate();
+
+  const deletedEvents = await db.purgeEvents(cutoff);
+  const deletedFailedEvents = await db.purgeFailedEvents(cutoff);
+
+  logger.info(
+    `Purged ${deletedEvents} events and ${deletedFailedEvents} failed events created before ${cutoff.toISOString()}`,
+  );
+};
+
+export const scheduleRetention = async (
+  db: EventDatabase,
+  retentionDays: number,
+  services: {
+    logger: LoggerService;
+    scheduler: SchedulerService;
+  },
+) => {
+  const { logger, scheduler } = services;
+
+  const runner = scheduler.createScheduledTaskRunner({
+    frequency: { cron: '0 3 * * *' }, // Runs at 3 AM every day
+    timeout: { minutes: 15 },
+  });
+
+  await runner.run({
+    id: 'purge-events',
+    fn: () => purgeExpiredEvents(db, retentionDays, logger),
+  });
+};
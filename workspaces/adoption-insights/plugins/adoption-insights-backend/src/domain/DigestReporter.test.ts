@@ -0,0 +1,211 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { mockServices } from '@backstage/backend-test-utils';
+import type { NotificationService } from '@backstage/plugin-notifications-node';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { DateTime } from 'luxon';
+import { DigestReporter, scheduleDigestReports } from './DigestReporter';
+import { EventDatabase } from '../database/event-database';
+import { DigestReportConfig } from '../utils/reports';
+
+const createMockDb = (
+  current: Record<string, unknown[]>,
+  previous: Record<string, unknown[]>,
+) => {
+  let filters: { start_date: string } | undefined;
+  const getData = (type: string) => async () => ({
+    data: (filters?.start_date === '2025-03-03T00:00:00.000Z'
+      ? current
+      : previous)[type],
+  });
+
+  return {
+    setFilters: jest.fn(value => {
+      filters = value;
+    }),
+    setConfig: jest.fn(),
+    getUsers: jest.fn(getData('users')),
+    getTopSearches: jest.fn(getData('searches')),
+    getTopPluginViews: jest.fn(getData('plugins')),
+    getTopTemplateViews: jest.fn(getData('templates')),
+  } as unknown as jest.Mocked<EventDatabase>;
+};
+
+describe('DigestReporter', () => {
+  const now = DateTime.fromISO('2025-03-12T10:00:00.000Z', { zone: 'UTC' });
+  let mockDb: jest.Mocked<EventDatabase>;
+  let mockNotifications: jest.Mocked<NotificationService>;
+  let reporter: DigestReporter;
+
+  const weeklyReport: DigestReportConfig = {
+    id: 'weekly',
+    frequency: 'weekly',
+    limit: 3,
+    notification: { recipients: ['group:default/admins'] },
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    jest.setSystemTime(now.toJSDate());
+
+    mockDb = createMockDb(
+      {
+        users: [{ logged_in_users: 12, licensed_users: 100 }],
+        searches: [{ date: '2025-03-01', count: 5 }],
+        plugins: [
+          { plugin_id: 'catalog', visit_count: 30 },
+          { plugin_id: 'techdocs', visit_count: 6 },
+        ],
+        templates: [{ entityref: 'template:default/go', count: 2 }],
+      },
+      {
+        users: [{ logged_in_users: 10, licensed_users: 100 }],
+        searches: [],
+        plugins: [{ plugin_id: 'catalog', visit_count: 40 }],
+        templates: [{ entityref: 'template:default/go', count: 2 }],
+      },
+    );
+    mockNotifications = {
+      send: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<NotificationService>;
+
+    reporter = new DigestReporter({
+      createDatabase: () => mockDb,
+      notifications: mockNotifications,
+      logger: mockServices.logger.mock(),
+      licensedUsers: 100,
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should compare the last week with the week before', async () => {
+    await expect(reporter.build(weeklyReport, now)).resolves.toEqual({
+      id: 'weekly',
+      frequency: 'weekly',
+      start_date: '2025-03-03T00:00:00.000Z',
+      end_date: '2025-03-09T23:59:59.999Z',
+      active_users: { current: 12, previous: 10, delta_percentage: 20 },
+      searches: { current: 5, previous: 0, delta_percentage: null },
+      top_plugins: [
+        { name: 'catalog', current: 30, previous: 40, delta_percentage: -25 },
+        { name: 'techdocs', current: 6, previous: 0, delta_percentage: null },
+      ],
+      top_templates: [
+        {
+          name: 'template:default/go',
+          current: 2,
+          previous: 2,
+          delta_percentage: 0,
+        },
+      ],
+    });
+
+    expect(mockDb.setFilters).toHaveBeenCalledWith({
+      start_date: '2025-03-03T00:00:00.000Z',
+      end_date: '2025-03-09T23:59:59.999Z',
+      limit: 3,
+      timezone: 'UTC',
+      grouping: 'monthly',
+    });
+    expect(mockDb.setFilters).toHaveBeenCalledWith({
+      start_date: '2025-02-24T00:00:00.000Z',
+      end_date: '2025-03-02T23:59:59.999Z',
+      limit: 100,
+      timezone: 'UTC',
+      grouping: 'monthly',
+    });
+  });
+
+  it('should send the report as notification', async () => {
+    await reporter.run(weeklyReport);
+
+    expect(mockNotifications.send).toHaveBeenCalledWith({
+      recipients: { type: 'entity', entityRef: ['group:default/admins'] },
+      payload: expect.objectContaining({
+        title: 'Adoption Insights weekly report',
+        description: expect.stringContaining('Active users: 12 (+20%)'),
+        link: '/adoption-insights',
+        topic: 'adoption-insights',
+        scope: 'adoption-insights:report:weekly:2025-03-03T00:00:00.000Z',
+      }),
+    });
+  });
+
+  it('should write the report to the artifact directory', async () => {
+    const directory = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'adoption-insights-reports-'),
+    );
+
+    try {
+      await reporter.run({
+        id: 'weekly',
+        frequency: 'weekly',
+        limit: 3,
+        artifact: { directory, format: 'csv' },
+      });
+
+      expect(mockNotifications.send).not.toHaveBeenCalled();
+      const csv = await fs.readFile(
+        path.join(directory, 'weekly-2025-03-03.csv'),
+        'utf-8',
+      );
+      expect(csv).toContain('active_users,,12,10,20');
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('scheduleDigestReports', () => {
+  it('should schedule a task per report', async () => {
+    const run = jest.fn();
+    const scheduler = mockServices.scheduler.mock({
+      createScheduledTaskRunner: jest.fn().mockReturnValue({ run }),
+    });
+    const reporter = { run: jest.fn() } as unknown as DigestReporter;
+
+    await scheduleDigestReports(
+      reporter,
+      [
+        { id: 'weekly', frequency: 'weekly', limit: 5 },
+        { id: 'monthly', frequency: 'monthly', limit: 5 },
+      ],
+      { scheduler },
+    );
+
+    expect(scheduler.createScheduledTaskRunner).toHaveBeenCalledWith({
+      frequency: { cron: '0 6 * * 1' },
+      timeout: { minutes: 15 },
+    });
+    expect(scheduler.createScheduledTaskRunner).toHaveBeenCalledWith({
+      frequency: { cron: '0 6 1 * *' },
+      timeout: { minutes: 15 },
+    });
+    expect(run).toHaveBeenCalledWith({
+      id: 'digest-report-weekly',
+      fn: expect.any(Function),
+    });
+    expect(run).toHaveBeenCalledWith({
+      id: 'digest-report-monthly',
+      fn: expect.any(Function),
+    });
+  });
+});
@@ -0,0 +1,229 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  LoggerService,
+  resolveSafeChildPath,
+  SchedulerService,
+} from '@backstage/backend-plugin-api';
+import type { NotificationService } from '@backstage/plugin-notifications-node';
+import fs from 'fs/promises';
+import { Knex } from 'knex';
+import { DateTime } from 'luxon';
+import { EventDatabase } from '../database/event-database';
+import {
+  DigestRanking,
+  DigestReport,
+  DigestReportConfig,
+  getReportPeriods,
+  REPORT_CRON,
+  ReportPeriod,
+  toDigestMetric,
+  toReportCsv,
+  toReportHtml,
+  toReportSummary,
+} from '../utils/reports';
+
+// Rankings of the previous period are fetched deeper, so most of the current entries can be compared
+const PREVIOUS_PERIOD_LIMIT = 100;
+
+type PeriodSummary = {
+  activeUsers: number;
+  searches: number;
+  plugins: { name: string; count: number }[];
+  templates: { name: string; count: number }[];
+};
+
+export type DigestReporterOptions = {
+  // Each summary uses its own adapter, since the adapters keep the filters of the query
+  createDatabase: () => EventDatabase;
+  notifications: NotificationService;
+  logger: LoggerService;
+  licensedUsers: number;
+};
+
+/**
+ * Builds the summary of the adoption over the last week or month, compared with the period before,
+ * and sends it as notification or writes it as a CSV or HTML file.
+ */
+export class DigestReporter {
+  private readonly createDatabase: () => EventDatabase;
+  private readonly notifications: NotificationService;
+  private readonly logger: LoggerService;
+  private readonly licensedUsers: number;
+
+  constructor(options: DigestReporterOptions) {
+    this.createDatabase = options.createDatabase;
+    this.notifications = options.notifications;
+    this.logger = options.logger;
+    this.licensedUsers = options.licensedUsers;
+  }
+
+  async build(
+    config: DigestReportConfig,
+    now: DateTime = DateTime.utc(),
+  ): Promise<DigestReport> {
+    const { current, previous } = getReportPeriods(config.frequency, now);
+    const currentSummary = await this.getSummary(current, config.limit);
+    const previousSummary = await this.getSummary(
+      previous,
+      PREVIOUS_PERIOD_LIMIT,
+    );
+
+    const toRankings = (
+      currentItems: PeriodSummary['plugins'],
+      previousItems: PeriodSummary['plugins'],
+    ): DigestRanking[] =>
+      currentItems.map(({ name, count }) => ({
+        name,
+        ...toDigestMetric(
+          count,
+          previousItems.find(item => item.name === name)?.count ?? 0,
+        ),
+      }));
+
+    return {
+      id: config.id,
+      frequency: config.frequency,
+      start_date: current.start_date,
+      end_date: current.end_date,
+      active_users: toDigestMetric(
+        currentSummary.activeUsers,
+        previousSummary.activeUsers,
+      ),
+      searches: toDigestMetric(
+        currentSummary.searches,
+        previousSummary.searches,
+      ),
+      top_plugins: toRankings(currentSummary.plugins, previousSummary.plugins),
+      top_templates: toRankings(
+        currentSummary.templates,
+        previousSummary.templates,
+      ),
+    };
+  }
+
+  async run(config: DigestReportConfig): Promise<void> {
+    const report = await this.build(config);
+
+    if (config.notification) {
+      await this.notifications.send({
+        recipients: {
+          type: 'entity',
+          entityRef: config.notification.recipients,
+        },
+        payload: {
+          title: `Adoption Insights ${config.frequency} report`,
+          description: toReportSummary(report),
+          link: '/adoption-insights',
+          topic: 'adoption-insights',
+          scope: `adoption-insights:report:${config.id}:${report.start_date}`,
+        },
+      });
+    }
+
+    if (config.artifact) {
+      const { directory, format } = config.artifact;
+      const fileName = `${config.id}-${DateTime.fromISO(report.start_date, {
+        zone: 'UTC',
+      }).toISODate()}.${format}`;
+
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(
+        resolveSafeChildPath(directory, fileName),
+        format === 'csv' ? toReportCsv(report) : toReportHtml(report),
+        'utf-8',
+      );
+    }
+
+    this.logger.info(
+      `[REPORT] Sent the ${config.frequency} report ${config.id} from ${report.start_date} to ${report.end_date}`,
+    );
+  }
+
+  private async getSummary(
+    period: ReportPeriod,
+    limit: number,
+  ): Promise<PeriodSummary> {
+    const db = this.createDatabase();
+    const query = async <T>(
+      fn: () => Promise<Knex.QueryBuilder>,
+      queryLimit: number,
+    ): Promise<T[]> => {
+      db.setFilters({
+        ...period,
+        limit: queryLimit,
+        timezone: 'UTC',
+        grouping: 'monthly',
+      });
+      const result = await fn();
+      return result.data;
+    };
+    db.setConfig({ licensedUsers: this.licensedUsers });
+
+    const users = await query<{ logged_in_users: number }>(
+      () => db.getUsers(),
+      limit,
+    );
+    // A week spans at most two months
+    const searches = await query<{ count: number }>(
+      () => db.getTopSearches(),
+      2,
+    );
+    const plugins = await query<{ plugin_id: string; visit_count: number }>(
+      () => db.getTopPluginViews(),
+      limit,
+    );
+    const templates = await query<{ entityref: string; count: number }>(
+      () => db.getTopTemplateViews(),
+      limit,
+    );
+
+    return {
+      activeUsers: Number(users[0]?.logged_in_users ?? 0),
+      searches: searches.reduce((sum, { count }) => sum + Number(count), 0),
+      plugins: plugins.map(plugin => ({
+        name: plugin.plugin_id,
+        count: Number(plugin.visit_count),
+      })),
+      templates: templates.map(template => ({
+        name: template.entityref,
+        count: Number(template.count),
+      })),
+    };
+  }
+}
+
+export const scheduleDigestReports = async (
+  reporter: DigestReporter,
+  reports: DigestReportConfig[],
+  services: {
+    scheduler: SchedulerService;
+  },
+) => {
+  const { scheduler } = services;
+
+  for (const report of reports) {
+    const runner = scheduler.createScheduledTaskRunner({
+      frequency: { cron: REPORT_CRON[report.frequency] },
+      timeout: { minutes: 15 },
+    });
+
+    await runner.run({
+      id: `digest-report-${report.id}`,
+      fn: () => reporter.run(report),
+    });
+  }
+};
@@ -19,6 +19,8 @@ import { AnalyticsEvent } from '@backstage/core-plugin-api';
 import { EventBatchProcessor } from './EventBatchProcessor';
 import { EventDatabase } from '../database/event-database';
 import { Event } from '../models/Event';
+import { pseudonymizeUserRef } from '../utils/pseudonymize';
+import { OwnerGroupResolver } from './OwnerGroupResolver';
 
 describe('EventBatchProcessor', () => {
   let mockRetryOrStoreFailedEvent: jest.SpyInstance;
@@ -34,6 +36,10 @@ describe('EventBatchProcessor', () => {
     isPartitionSupported: jest.fn().mockReturnValue(true),
     insertEvents: mockInsertEvents.mockResolvedValue(undefined),
     insertFailedEvent: mockInsertFailedEvent.mockResolvedValue(undefined),
+    deleteUserEvents: jest.fn(),
+    purgeEvents: jest.fn().mockResolvedValue(0),
+    purgeFailedEvents: jest.fn().mockResolvedValue(0),
+    getStorageUsage: jest.fn(),
     getDailyUsers: jest.fn().mockReturnValue({} as Knex.QueryBuilder),
     getTopSearches: jest.fn().mockReturnValue({} as Knex.QueryBuilder),
     getTopPluginViews: jest.fn().mockReturnValue({} as Knex.QueryBuilder),
@@ -42,6 +48,8 @@ describe('EventBatchProcessor', () => {
     getTopCatalogEntitiesViews: jest
       .fn()
       .mockReturnValue({} as Knex.QueryBuilder),
+    getUserJourneys: jest.fn().mockReturnValue({} as Knex.QueryBuilder),
+    getCustomInsight: jest.fn().mockReturnValue({} as Knex.QueryBuilder),
   };
 
   const mockLogger: jest.Mocked<LoggerService> = {
@@ -102,6 +110,85 @@ describe('EventBatchProcessor', () => {
     );
   });
 
+  it('should insert pseudonymized events when a salt is configured', () => {
+    jest.useFakeTimers();
+
+    const processor = new EventBatchProcessor(mockEventDatabase, mockLogger, {
+      batchSize: 10,
+      batchInterval: 1000,
+      pseudonymizationSalt: 'salt',
+    });
+    const event = new Event({
+      ...mockEvent,
+      context: { ...mockContext, userName: 'user:default/john' },
+    });
+    processor.addEvent(event);
+
+    jest.advanceTimersByTime(1000);
+
+    const pseudonym = pseudonymizeUserRef('user:default/john', 'salt');
+    const [[insertedEvents]] = mockInsertEvents.mock.calls;
+    expect(insertedEvents[0].toJSON()).toEqual(
+      expect.objectContaining({
+        user_ref: pseudonym,
+        context: expect.objectContaining({ userName: pseudonym }),
+      }),
+    );
+    expect(mockLogger.info).not.toHaveBeenCalledWith(
+      expect.stringContaining('user:default/john'),
+    );
+  });
+
+  it('should insert the group of the user when a resolver is configured', async () => {
+    jest.useFakeTimers();
+
+    const ownerGroupResolver = {
+      getOwnerGroup: jest.fn().mockResolvedValue('group:default/team-a'),
+    } as unknown as jest.Mocked<OwnerGroupResolver>;
+    const processor = new EventBatchProcessor(mockEventDatabase, mockLogger, {
+      batchSize: 10,
+      batchInterval: 1000,
+      ownerGroupResolver,
+    });
+    const event = new Event({
+      ...mockEvent,
+      context: { ...mockContext, userName: 'user:default/john' },
+    });
+    await processor.addEvent(event);
+
+    jest.advanceTimersByTime(1000);
+
+    expect(ownerGroupResolver.getOwnerGroup).toHaveBeenCalledWith(
+      'user:default/john',
+    );
+    const [[insertedEvents]] = mockInsertEvents.mock.calls;
+    expect(insertedEvents[0].toJSON()).toEqual(
+      expect.objectContaining({ owner_group: 'group:default/team-a' }),
+    );
+  });
+
+  it('should queue concurrent deliveries of the same event once', async () => {
+    const ownerGroupResolver = {
+      getOwnerGroup: jest.fn().mockResolvedValue('group:default/team-a'),
+    } as unknown as jest.Mocked<OwnerGroupResolver>;
+    const processor = new EventBatchProcessor(mockEventDatabase, mockLogger, {
+      batchSize: 10,
+      ownerGroupResolver,
+    });
+    const event = new Event({
+      ...mockEvent,
+      context: { ...mockContext, userName: 'user:default/john' },
+    });
+
+    await Promise.all([
+      processor.addEvent(event),
+      processor.addEvent({ ...event, toJSON: event.toJSON }),
+    ]);
+
+    expect(ownerGroupResolver.getOwnerGroup).toHaveBeenCalledTimes(1);
+    expect(mockLogger.info).toHaveBeenCalledTimes(1);
+  });
+
   it('should insert the event into the database', () => {
     jest.useFakeTimers();
 
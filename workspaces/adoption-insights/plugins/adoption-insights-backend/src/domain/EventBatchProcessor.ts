@@ -16,15 +16,20 @@
 import { LoggerService } from '@backstage/backend-plugin-api';
 import { EventDatabase } from '../database/event-database';
 import { Event } from '../models/Event';
+import { pseudonymizeEvent } from '../utils/pseudonymize';
+import { OwnerGroupResolver } from './OwnerGroupResolver';
 
 export type ProcessorConfigOptions = {
   debug?: boolean;
   batchSize?: number;
   maxRetries?: number;
   batchInterval?: number;
+  pseudonymizationSalt?: string;
+  ownerGroupResolver?: OwnerGroupResolver;
 };
 export class EventBatchProcessor {
   private readonly queue: Event[];
+  private readonly pendingEventIds: Set<string>;
   private processing: boolean;
   private readonly batchSize: number;
   private readonly batchInterval: number;
@@ -33,6 +38,8 @@ export class EventBatchProcessor {
   private readonly database: EventDatabase;
   private readonly logger: LoggerService;
   private readonly debug: boolean;
+  private readonly pseudonymizationSalt?: string;
+  private readonly ownerGroupResolver?: OwnerGroupResolver;
 
   constructor(
     database: EventDatabase,
@@ -40,11 +47,14 @@ export class EventBatchProcessor {
     options: ProcessorConfigOptions,
   ) {
     this.queue = [];
+    this.pendingEventIds = new Set();
     this.logger = logger;
     this.processing = false;
     this.database = database;
     this.failedEvents = new Map();
     this.debug = options.debug || false;
+    this.pseudonymizationSalt = options.pseudonymizationSalt;
+    this.ownerGroupResolver = options.ownerGroupResolver;
 
     const { batchSize = 5, maxRetries = 3, batchInterval = 2000 } = options;
 
@@ -56,12 +66,35 @@ export class EventBatchProcessor {
     setInterval(() => this.logQueueStats(), 5000);
   }
 
-  addEvent(event: Event) {
+  async addEvent(event: Event) {
+    // Reserve the id before resolving the group, so concurrent deliveries of the same event are queued once
     if (
-      !this.queue.some((existingEvent: Event) => existingEvent.id === event.id)
+      this.pendingEventIds.has(event.id) ||
+      this.queue.some((existingEvent: Event) => existingEvent.id === event.id)
     ) {
-      this.logger.info(`[QUEUE] Event added: ${JSON.stringify(event)}`);
-      this.queue.push({ ...event, toJSON: event.toJSON });
+      return;
+    }
+    this.pendingEventIds.add(event.id);
+
+    try {
+      // Snapshot the group of the user, so the events keep the group the user had at that time
+      const ownerGroup =
+        this.ownerGroupResolver && event.user_ref
+          ? await this.ownerGroupResolver.getOwnerGroup(event.user_ref)
+          : undefined;
+
+      // Pseudonymize before queueing, so the user ref is neither logged nor stored
+      const queuedEvent = this.pseudonymizationSalt
+        ? pseudonymizeEvent(event, this.pseudonymizationSalt)
+        : event;
+      this.logger.info(`[QUEUE] Event added: ${JSON.stringify(queuedEvent)}`);
+      this.queue.push({
+        ...queuedEvent,
+        ...(ownerGroup ? { owner_group: ownerGroup } : {}),
+        toJSON: event.toJSON,
+      });
+    } finally {
+      this.pendingEventIds.delete(event.id);
     }
   }
 
@@ -0,0 +1,64 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { ConflictError, NotFoundError } from '@backstage/errors';
+import { InsightQueriesRegistry } from './InsightQueriesRegistry';
+
+describe('InsightQueriesRegistry', () => {
+  const insightQuery = {
+    name: 'lightspeed_questions',
+    match: { action: 'click', subject: 'Question asked' },
+  };
+
+  let registry: InsightQueriesRegistry;
+
+  beforeEach(() => {
+    registry = new InsightQueriesRegistry();
+  });
+
+  it('should register and return an insight query', () => {
+    registry.register(insightQuery);
+
+    expect(registry.has('lightspeed_questions')).toBe(true);
+    expect(registry.get('lightspeed_questions')).toBe(insightQuery);
+    expect(registry.list()).toEqual([insightQuery]);
+  });
+
+  it('should throw for invalid names', () => {
+    expect(() =>
+      registry.register({ ...insightQuery, name: 'Lightspeed questions' }),
+    ).toThrow(
+      "Invalid insight query name 'Lightspeed questions', only lowercase letters, digits, dots, dashes and underscores are allowed",
+    );
+  });
+
+  it('should throw when the action is missing', () => {
+    expect(() =>
+      registry.register({ ...insightQuery, match: { action: '' } }),
+    ).toThrow(
+      "Invalid insight query 'lightspeed_questions', the action of the matched events is required",
+    );
+  });
+
+  it('should throw when the name is already registered', () => {
+    registry.register(insightQuery);
+
+    expect(() => registry.register(insightQuery)).toThrow(ConflictError);
+  });
+
+  it('should throw for unknown insight queries', () => {
+    expect(() => registry.get('unknown')).toThrow(NotFoundError);
+  });
+});
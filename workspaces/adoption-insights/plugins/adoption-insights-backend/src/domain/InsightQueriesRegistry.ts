@@ -0,0 +1,66 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { ConflictError, NotFoundError } from '@backstage/errors';
+import { InsightQuery } from '@red-hat-developer-hub/backstage-plugin-adoption-insights-node';
+
+const INSIGHT_NAME = /^[a-z0-9._-]+$/;
+
+/**
+ * Registry of the insight queries added by other plugins through the extension point.
+ */
+export class InsightQueriesRegistry {
+  private readonly insightQueries = new Map<string, InsightQuery>();
+
+  register(insightQuery: InsightQuery): void {
+    const { name } = insightQuery;
+
+    if (!INSIGHT_NAME.test(name)) {
+      throw new Error(
+        `Invalid insight query name '${name}', only lowercase letters, digits, dots, dashes and underscores are allowed`,
+      );
+    }
+
+    if (!insightQuery.match?.action) {
+      throw new Error(
+        `Invalid insight query '${name}', the action of the matched events is required`,
+      );
+    }
+
+    if (this.insightQueries.has(name)) {
+      throw new ConflictError(
+        `Insight query '${name}' has already been registered`,
+      );
+    }
+
+    this.insightQueries.set(name, insightQuery);
+  }
+
+  has(name: string): boolean {
+    return this.insightQueries.has(name);
+  }
+
+  get(name: string): InsightQuery {
+    const insightQuery = this.insightQueries.get(name);
+    if (!insightQuery) {
+      throw new NotFoundError(`Insight query '${name}' is not registered`);
+    }
+    return insightQuery;
+  }
+
+  list(): InsightQuery[] {
+    return Array.from(this.insightQueries.values());
+  }
+}
@@ -0,0 +1,80 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { mockServices } from '@backstage/backend-test-utils';
+import { catalogServiceMock } from '@backstage/plugin-catalog-node/testUtils';
+import { OwnerGroupResolver } from './OwnerGroupResolver';
+
+describe('OwnerGroupResolver', () => {
+  const logger = mockServices.logger.mock();
+  const auth = mockServices.auth();
+
+  const user = {
+    apiVersion: 'backstage.io/v1alpha1',
+    kind: 'User',
+    metadata: { name: 'john', namespace: 'default' },
+    relations: [
+      { type: 'memberOf', targetRef: 'group:default/team-b' },
+      { type: 'memberOf', targetRef: 'group:default/team-a' },
+      { type: 'ownedBy', targetRef: 'group:default/admins' },
+    ],
+  };
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the first group the user is member of', async () => {
+    const catalog = catalogServiceMock({ entities: [user] });
+    const resolver = new OwnerGroupResolver({ catalog, auth, logger });
+
+    await expect(resolver.getOwnerGroup('user:default/john')).resolves.toBe(
+      'group:default/team-a',
+    );
+  });
+
+  it('should return undefined for unknown users', async () => {
+    const catalog = catalogServiceMock({ entities: [] });
+    const resolver = new OwnerGroupResolver({ catalog, auth, logger });
+
+    await expect(
+      resolver.getOwnerGroup('user:default/jane'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should cache the group of the user', async () => {
+    const catalog = catalogServiceMock.mock({
+      getEntityByRef: jest.fn().mockResolvedValue(user),
+    });
+    const resolver = new OwnerGroupResolver({ catalog, auth, logger });
+
+    await resolver.getOwnerGroup('user:default/john');
+    await resolver.getOwnerGroup('user:default/john');
+
+    expect(catalog.getEntityByRef).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return undefined when the catalog fails', async () => {
+    const catalog = catalogServiceMock.mock({
+      getEntityByRef: jest.fn().mockRejectedValue(new Error('unavailable')),
+    });
+    const resolver = new OwnerGroupResolver({ catalog, auth, logger });
+
+    await expect(
+      resolver.getOwnerGroup('user:default/john'),
+    ).resolves.toBeUndefined();
+    expect(logger.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,77 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { AuthService, LoggerService } from '@backstage/backend-plugin-api';
+import { RELATION_MEMBER_OF } from '@backstage/catalog-model';
+import { CatalogService } from '@backstage/plugin-catalog-node';
+
+const CACHE_TTL = 60 * 60 * 1000;
+
+export type OwnerGroupResolverOptions = {
+  catalog: CatalogService;
+  auth: AuthService;
+  logger: LoggerService;
+};
+
+/**
+ * Resolves the group of a user from its catalog `memberOf` relations.
+ * When the user is member of several groups, the first group ref in alphabetical order is used.
+ */
+export class OwnerGroupResolver {
+  private readonly catalog: CatalogService;
+  private readonly auth: AuthService;
+  private readonly logger: LoggerService;
+  private readonly cache: Map<
+    string,
+    { ownerGroup: string | undefined; expiresAt: number }
+  >;
+
+  constructor(options: OwnerGroupResolverOptions) {
+    this.catalog = options.catalog;
+    this.auth = options.auth;
+    this.logger = options.logger;
+    this.cache = new Map();
+  }
+
+  async getOwnerGroup(userRef: string): Promise<string | undefined> {
+    const cached = this.cache.get(userRef);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.ownerGroup;
+    }
+
+    try {
+      const user = await this.catalog.getEntityByRef(userRef, {
+        credentials: await this.auth.getOwnServiceCredentials(),
+      });
+      const ownerGroup = user?.relations
+        ?.filter(relation => relation.type === RELATION_MEMBER_OF)
+        .map(relation => relation.targetRef)
+        .sort()[0];
+
+      this.cache.set(userRef, {
+        ownerGroup,
+        expiresAt: Date.now() + CACHE_TTL,
+      });
+      return ownerGroup;
+    } catch (error) {
+      // The event is stored without group rather than dropped
+      this.logger.warn(
+        `[GROUP] Failed to resolve the group of the user`,
+        error,
+      );
+      return undefined;
+    }
+  }
+}
@@ -16,7 +16,10 @@
 import { Event } from './Event';
 import { AnalyticsEvent } from '@backstage/core-plugin-api';
 
-jest.mock('uuid', () => ({ v4: jest.fn(() => 'mocked-uuid') }));
+jest.mock('uuid', () => ({
+  ...jest.requireActual('uuid'),
+  v4: jest.fn(() => 'mocked-uuid'),
+}));
 
 describe('Event Class', () => {
   const mockEvent: AnalyticsEvent = {
@@ -63,6 +66,7 @@ describe('Event Class', () => {
   it('should return correct JSON representation', () => {
     const eventInstance = new Event(mockEvent, true);
     expect(eventInstance.toJSON()).toEqual({
+      event_id: 'mocked-uuid',
       user_ref: 'test-user',
       plugin_id: 'test-plugin',
       action: 'test-action',
@@ -97,4 +101,30 @@ describe('Event Class', () => {
       }),
     );
   });
+
+  it('should use the event id sent by the frontend', () => {
+    const eventInstance = new Event({
+      ...mockEvent,
+      context: {
+        ...mockEvent.context,
+        eventId: '0e4a4e0c-1a3b-4c55-9a5e-2f1d7c1c6a11',
+      },
+    });
+
+    expect(eventInstance.id).toBe('0e4a4e0c-1a3b-4c55-9a5e-2f1d7c1c6a11');
+    expect(eventInstance.toJSON()).toEqual(
+      expect.objectContaining({
+        event_id: '0e4a4e0c-1a3b-4c55-9a5e-2f1d7c1c6a11',
+      }),
+    );
+  });
+
+  it('should generate an event id when the sent one is not a uuid', () => {
+    const eventInstance = new Event({
+      ...mockEvent,
+      context: { ...mockEvent.context, eventId: 'not-a-uuid' },
+    });
+
+    expect(eventInstance.id).toBe('mocked-uuid');
+  });
 });
@@ -13,7 +13,7 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
-import { v4 as uuidv4 } from 'uuid';
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
 import {
   AnalyticsContextValue,
   AnalyticsEvent,
@@ -21,6 +21,7 @@ import {
 } from '@backstage/core-plugin-api';
 
 export type EventType = {
+  event_id?: string;
   user_ref: string;
   plugin_id: string;
   action: string;
@@ -29,6 +30,7 @@ export type EventType = {
   value: number | undefined;
   attributes: AnalyticsEventAttributes | string;
   created_at: string;
+  owner_group?: string;
 };
 
 export class Event {
@@ -41,9 +43,13 @@ export class Event {
   public readonly value: number | undefined;
   public readonly attributes: AnalyticsEventAttributes | string;
   public readonly created_at: string;
+  public readonly owner_group?: string;
 
   constructor(event: AnalyticsEvent, isJson: boolean = true) {
-    this.id = uuidv4();
+    // Reuse the id of the frontend, so the events delivered more than once are stored once
+    const eventId = event.context?.eventId;
+    this.id =
+      typeof eventId === 'string' && isUuid(eventId) ? eventId : uuidv4();
     this.user_ref = event.context?.userName as string;
     this.plugin_id = event.context?.pluginId;
     this.action = event.action;
@@ -61,6 +67,7 @@ export class Event {
 
   toJSON() {
     return {
+      event_id: this.id,
       user_ref: this.user_ref,
       plugin_id: this.plugin_id,
       action: this.action,
@@ -69,6 +76,7 @@ export class Event {
       attributes: this.attributes,
       created_at: this.created_at,
       value: this.value,
+      owner_group: this.owner_group,
     };
   }
 }
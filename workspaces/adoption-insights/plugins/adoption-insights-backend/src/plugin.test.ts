@@ -16,6 +16,7 @@
 import { mockServices, startTestBackend } from '@backstage/backend-test-utils';
 import { adoptionInsightsPlugin } from './plugin';
 import request from 'supertest';
+import { catalogServiceMock } from '@backstage/plugin-catalog-node/testUtils';
 
 // TEMPLATE NOTE:
 // Plugin tests are integration tests for your plugin, ensuring that all pieces
@@ -28,7 +29,7 @@ describe('plugin', () => {
   // eslint-disable-next-line jest/expect-expect
   it('should throw Bad request when query params are not passed', async () => {
     const { server } = await startTestBackend({
-      features: [adoptionInsightsPlugin],
+      features: [adoptionInsightsPlugin, catalogServiceMock.factory()],
     });
 
     await request(server)
@@ -41,7 +42,7 @@ describe('plugin', () => {
           ],
           end_date: ['end_date is required. Use YYYY-MM-DD (e.g., 2025-03-02)'],
           type: [
-            'Invalid type. Allowed values: total_users,active_users,top_plugins,top_templates,top_techdocs,top_searches,top_catalog_entities',
+            'Invalid type. Allowed values: total_users,active_users,top_plugins,top_templates,top_techdocs,top_searches,top_catalog_entities,user_journeys,custom',
           ],
         },
       });
@@ -64,6 +65,7 @@ describe('plugin', () => {
     const { server } = await startTestBackend({
       features: [
         adoptionInsightsPlugin,
+        catalogServiceMock.factory(),
         mockServices.rootConfig.factory({
           data: { ...BASE_CONFIG },
         }),
@@ -17,14 +17,33 @@ import {
   coreServices,
   createBackendPlugin,
 } from '@backstage/backend-plugin-api';
-import { adoptionInsightsEventsReadPermission } from '@red-hat-developer-hub/backstage-plugin-adoption-insights-common';
+import { catalogServiceRef } from '@backstage/plugin-catalog-node';
+import { notificationService } from '@backstage/plugin-notifications-node';
+import {
+  adoptionInsightsQueriesExtensionPoint,
+  InsightQuery,
+} from '@red-hat-developer-hub/backstage-plugin-adoption-insights-node';
+import {
+  adoptionInsightsEventsDeletePermission,
+  adoptionInsightsEventsReadPermission,
+  adoptionInsightsStorageReadPermission,
+} from '@red-hat-developer-hub/backstage-plugin-adoption-insights-common';
 import { createRouter } from './router';
 import { migrate } from './database/migration';
 import { DatabaseFactory } from './database/DatabaseFactory';
 import { EventBatchProcessor } from './domain/EventBatchProcessor';
+import { OwnerGroupResolver } from './domain/OwnerGroupResolver';
+import { InsightQueriesRegistry } from './domain/InsightQueriesRegistry';
+import { DigestReporter, scheduleDigestReports } from './domain/DigestReporter';
 import EventApiController from './controllers/EventApiController';
 import { schedulePartition } from './database/partition';
-import { getConfigurationOptions } from './utils/config';
+import { scheduleRetention } from './database/retention';
+import {
+  getConfigurationOptions,
+  getDigestReports,
+  getLicensedUsersCount,
+  getRetentionDays,
+} from './utils/config';
 
 /**
  * adoptionInsightsPlugin backend plugin
@@ -34,25 +53,41 @@ import { getConfigurationOptions } from './utils/config';
 export const adoptionInsightsPlugin = createBackendPlugin({
   pluginId: 'adoption-insights',
   register(env) {
+    const insightQueries = new InsightQueriesRegistry();
+
+    env.registerExtensionPoint(adoptionInsightsQueriesExtensionPoint, {
+      addInsightQuery(...newInsightQueries: InsightQuery[]) {
+        newInsightQueries.forEach(insightQuery => {
+          insightQueries.register(insightQuery);
+        });
+      },
+    });
+
     env.registerInit({
       deps: {
         auditor: coreServices.auditor,
+        auth: coreServices.auth,
+        catalog: catalogServiceRef,
         config: coreServices.rootConfig,
         logger: coreServices.logger,
         httpAuth: coreServices.httpAuth,
         httpRouter: coreServices.httpRouter,
         database: coreServices.database,
+        notifications: notificationService,
         scheduler: coreServices.scheduler,
         permissions: coreServices.permissions,
         permissionsRegistry: coreServices.permissionsRegistry,
       },
       async init({
         auditor,
+        auth,
+        catalog,
         config,
         logger,
         httpAuth,
         httpRouter,
         database,
+        notifications,
         scheduler,
         permissions,
         permissionsRegistry,
@@ -60,18 +95,24 @@ export const adoptionInsightsPlugin = createBackendPlugin({
         // Register plugin permission
         permissionsRegistry.addPermissions([
           adoptionInsightsEventsReadPermission,
+          adoptionInsightsEventsDeletePermission,
+          adoptionInsightsStorageReadPermission,
         ]);
 
         // Queue configuration
         const options = getConfigurationOptions(config);
         const client = await database.getClient();
         const db = DatabaseFactory.getDatabase(client, logger);
-        const processor = new EventBatchProcessor(db, logger, options);
+        const processor = new EventBatchProcessor(db, logger, {
+          ...options,
+          ownerGroupResolver: new OwnerGroupResolver({ catalog, auth, logger }),
+        });
         const eventApiController = new EventApiController(
           db,
           processor,
           config,
           auditor,
+          insightQueries,
         );
 
         // Migrate database
@@ -82,6 +123,24 @@ export const adoptionInsightsPlugin = createBackendPlugin({
           schedulePartition(client, { logger, scheduler });
         }
 
+        // Schedule purge of events older than the retention period
+        const retentionDays = getRetentionDays(config);
+        if (retentionDays) {
+          await scheduleRetention(db, retentionDays, { logger, scheduler });
+        }
+
+        // Schedule the digest reports
+        const reports = getDigestReports(config);
+        if (reports.length > 0) {
+          const reporter = new DigestReporter({
+            createDatabase: () => DatabaseFactory.getDatabase(client, logger),
+            notifications,
+            logger,
+            licensedUsers: getLicensedUsersCount(config),
+          });
+          await scheduleDigestReports(reporter, reports, { scheduler });
+        }
+
         httpRouter.use(
           await createRouter({
             httpAuth,
@@ -94,6 +153,13 @@ export const adoptionInsightsPlugin = createBackendPlugin({
           path: '/health',
           allow: 'unauthenticated',
         });
+        // navigator.sendBeacon cannot send the authorization header, so the
+        // analytics module authenticates the events sent on page hide with the user cookie.
+        // Only the beacon route accepts it, the insights queries of /events still require a token.
+        httpRouter.addAuthPolicy({
+          path: '/events/beacon',
+          allow: 'user-cookie',
+        });
       },
     });
   },
@@ -50,6 +50,18 @@ describe('createRouter', () => {
   ) => {
     const mockEventDatabase = {
       isJsonSupported: jest.fn().mockReturnValue(true),
+      deleteUserEvents: jest
+        .fn()
+        .mockResolvedValue({ deleted_events: 2, deleted_failed_events: 0 }),
+      getStorageUsage: jest.fn().mockResolvedValue({
+        events: {
+          rows: 0,
+          size_bytes: null,
+          oldest_created_at: null,
+          partitions: [],
+        },
+        failed_events: { rows: 0, size_bytes: null, oldest_created_at: null },
+      }),
     };
 
     const mockEventBatchProcessor = {
@@ -99,6 +111,15 @@ describe('createRouter', () => {
     expect(response.body).toEqual({ success: true, message: 'Event received' });
   });
 
+  it('should track the events sent with a beacon', async () => {
+    const response = await request(app)
+      .post('/events/beacon')
+      .send([mockEvent]);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ success: true, message: 'Event received' });
+  });
+
   it('should not allow unauthenticated requests to track Events', async () => {
     // TEMPLATE NOTE:
     // The HttpAuth mock service considers all requests to be authenticated as a
@@ -123,6 +144,48 @@ describe('createRouter', () => {
     expect(response.status).toBe(400);
   });
 
+  it('should delete the events of a user', async () => {
+    const response = await request(app)
+      .delete('/events')
+      .query({ user_ref: 'user:default/john' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      deleted_events: 2,
+      deleted_failed_events: 0,
+    });
+  });
+
+  it('should return 403 for unAuthorized delete request', async () => {
+    await setupApp(AuthorizeResult.DENY);
+    const response = await request(app)
+      .delete('/events')
+      .query({ user_ref: 'user:default/john' });
+    expect(response.status).toBe(403);
+  });
+
+  it('should return the storage usage', async () => {
+    const response = await request(app).get('/storage');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      events: {
+        rows: 0,
+        size_bytes: null,
+        oldest_created_at: null,
+        partitions: [],
+      },
+      failed_events: { rows: 0, size_bytes: null, oldest_created_at: null },
+      retention_days: null,
+    });
+  });
+
+  it('should return 403 for unAuthorized storage usage request', async () => {
+    await setupApp(AuthorizeResult.DENY);
+    const response = await request(app).get('/storage');
+    expect(response.status).toBe(403);
+  });
+
   it('should return the health of the API service', async () => {
     const response = await request(app).get('/health');
     expect(response.body).toEqual({ status: 'ok' });
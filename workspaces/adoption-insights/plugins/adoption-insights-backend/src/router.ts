@@ -18,13 +18,20 @@ import {
   PermissionsService,
 } from '@backstage/backend-plugin-api';
 import { NotAllowedError } from '@backstage/errors';
-import { AuthorizeResult } from '@backstage/plugin-permission-common';
-import { adoptionInsightsEventsReadPermission } from '@red-hat-developer-hub/backstage-plugin-adoption-insights-common';
+import {
+  AuthorizeResult,
+  BasicPermission,
+} from '@backstage/plugin-permission-common';
+import {
+  adoptionInsightsEventsDeletePermission,
+  adoptionInsightsEventsReadPermission,
+  adoptionInsightsStorageReadPermission,
+} from '@red-hat-developer-hub/backstage-plugin-adoption-insights-common';
 import express, { Request, Response } from 'express';
 import Router from 'express-promise-router';
 
 import EventApiController from './controllers/EventApiController';
-import { QueryParams } from './types/event-request';
+import { DeleteEventsQueryParams, QueryParams } from './types/event-request';
 
 export async function createRouter({
   httpAuth,
@@ -39,15 +46,13 @@ export async function createRouter({
 
   router.use(express.json());
 
-  const authorizeUser = async (
-    req: Request<{}, {}, {}, QueryParams>,
+  const authorizeUser = async <Query>(
+    req: Request<{}, {}, {}, Query>,
+    permission: BasicPermission = adoptionInsightsEventsReadPermission,
   ): Promise<void> => {
     const credentials = await httpAuth.credentials(req, { allow: ['user'] });
     const decision = (
-      await permissions.authorize(
-        [{ permission: adoptionInsightsEventsReadPermission }],
-        { credentials },
-      )
+      await permissions.authorize([{ permission }], { credentials })
     )[0];
 
     if (decision.result === AuthorizeResult.DENY) {
@@ -77,6 +82,31 @@ export async function createRouter({
     return eventApiController.trackEvents(req, res);
   });
 
+  // Same as POST /events, for the events sent with navigator.sendBeacon,
+  // which are authenticated with the user cookie
+  router.post('/events/beacon', async (req, res) => {
+    return eventApiController.trackEvents(req, res);
+  });
+
+  router.delete(
+    '/events',
+    async (
+      req: Request<{}, {}, {}, DeleteEventsQueryParams>,
+      res: Response,
+    ) => {
+      await authorizeUser(req, adoptionInsightsEventsDeletePermission);
+      return eventApiController.deleteUserEvents(req, res);
+    },
+  );
+
+  router.get(
+    '/storage',
+    async (req: Request<{}, {}, {}, QueryParams>, res: Response) => {
+      await authorizeUser(req, adoptionInsightsStorageReadPermission);
+      return eventApiController.getStorageUsage(req, res);
+    },
+  );
+
   router.get('/health', (_, response) => {
     response.json({ status: 'ok' });
   });
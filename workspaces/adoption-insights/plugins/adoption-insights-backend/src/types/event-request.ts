@@ -21,6 +21,8 @@ export const QUERY_TYPES = [
   'top_techdocs',
   'top_searches',
   'top_catalog_entities',
+  'user_journeys',
+  'custom',
 ] as const;
 
 export type QueryType = (typeof QUERY_TYPES)[number];
@@ -33,4 +35,11 @@ export interface QueryParams {
   kind?: string;
   format?: string;
   licensedUsers?: number;
+  group?: string;
+  groupBy?: 'ownerGroup';
+  insight?: string;
+}
+
+export interface DeleteEventsQueryParams {
+  user_ref: string;
 }
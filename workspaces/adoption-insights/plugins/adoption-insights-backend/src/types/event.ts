@@ -59,11 +59,25 @@ interface CatalogEntityCount {
   count: number;
 }
 
+export interface JourneyPath {
+  steps: string[];
+  count: number;
+}
+
+export interface FunnelStep {
+  title: string;
+  path: string;
+  count: number;
+  conversion_rate: number; // percentage of the sessions which reached the first step
+  drop_off: number; // sessions lost since the previous step
+}
+
 export type ResponseData<T> = {
   data: T;
 };
 
 export type Grouping = 'hourly' | 'daily' | 'weekly' | 'monthly';
+export type GroupBy = 'ownerGroup';
 export type ResponseWithGrouping<T> = {
   grouping: Grouping;
   data: T;
@@ -75,3 +89,30 @@ export type TopPluginCount = ResponseWithGrouping<PluginCount[]>;
 export type TopTechDocsCount = ResponseData<TechDocsCount[]>;
 export type TopTemplatesCount = ResponseData<EntityRefCount[]>;
 export type TopCatalogEntitiesCount = ResponseData<CatalogEntityCount[]>;
+export type UserJourneys = ResponseData<JourneyPath[]> & {
+  total_sessions: number;
+  funnel: FunnelStep[];
+};
+export type CustomInsight = ResponseWithGrouping<DateCount[]> & {
+  total: number;
+  users: number;
+  breakdown: { value: string; count: number }[];
+};
+
+export interface TableStorageUsage {
+  rows: number;
+  size_bytes: number | null;
+  oldest_created_at: string | null;
+}
+export interface PartitionStorageUsage {
+  name: string;
+  size_bytes: number;
+}
+export interface StorageUsage {
+  events: TableStorageUsage & { partitions: PartitionStorageUsage[] };
+  failed_events: TableStorageUsage;
+}
+export interface DeletedUserEvents {
+  deleted_events: number;
+  deleted_failed_events: number;
+}
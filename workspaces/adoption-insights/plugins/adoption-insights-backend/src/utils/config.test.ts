@@ -14,7 +14,15 @@
  * limitations under the License.
  */
 import { mockServices } from '@backstage/backend-test-utils';
-import { getConfigurationOptions } from './config';
+import type { JsonObject } from '@backstage/types';
+import {
+  DEFAULT_FUNNEL,
+  getConfigurationOptions,
+  getDigestReports,
+  getJourneysConfig,
+  getPseudonymizationSalt,
+  getRetentionDays,
+} from './config';
 
 describe('getConfigurationOptions', () => {
   it('should return the default values', () => {
@@ -40,3 +48,224 @@ describe('getConfigurationOptions', () => {
     });
   });
 });
+
+describe('getRetentionDays', () => {
+  it('should return undefined when retention is not configured', () => {
+    expect(getRetentionDays(mockServices.rootConfig())).toBeUndefined();
+  });
+
+  it('should return the configured retention', () => {
+    const config = mockServices.rootConfig({
+      data: { app: { analytics: { adoptionInsights: { retentionDays: 30 } } } },
+    });
+    expect(getRetentionDays(config)).toBe(30);
+  });
+
+  it('should throw for invalid retention', () => {
+    const config = mockServices.rootConfig({
+      data: { app: { analytics: { adoptionInsights: { retentionDays: 0 } } } },
+    });
+    expect(() => getRetentionDays(config)).toThrow(
+      'Invalid app.analytics.adoptionInsights.retentionDays: 0. It must be a positive integer.',
+    );
+  });
+});
+
+describe('getPseudonymizationSalt', () => {
+  it('should return undefined when pseudonymization is not enabled', () => {
+    const config = mockServices.rootConfig({
+      data: {
+        app: {
+          analytics: {
+            adoptionInsights: {
+              pseudonymization: { enabled: false, salt: 'salt' },
+            },
+          },
+        },
+      },
+    });
+    expect(getPseudonymizationSalt(config)).toBeUndefined();
+  });
+
+  it('should return the salt when pseudonymization is enabled', () => {
+    const config = mockServices.rootConfig({
+      data: {
+        app: {
+          analytics: {
+            adoptionInsights: {
+              pseudonymization: { enabled: true, salt: 'salt' },
+            },
+          },
+        },
+      },
+    });
+    expect(getPseudonymizationSalt(config)).toBe('salt');
+  });
+
+  it('should throw when pseudonymization is enabled without salt', () => {
+    const config = mockServices.rootConfig({
+      data: {
+        app: {
+          analytics: {
+            adoptionInsights: { pseudonymization: { enabled: true } },
+          },
+        },
+      },
+    });
+    expect(() => getPseudonymizationSalt(config)).toThrow();
+  });
+});
+
+describe('getJourneysConfig', () => {
+  it('should return the default session timeout and funnel', () => {
+    expect(getJourneysConfig(mockServices.rootConfig())).toEqual({
+      sessionTimeout: 30,
+      funnel: DEFAULT_FUNNEL,
+      maxEvents: 100000,
+    });
+  });
+
+  it('should return the configured session timeout and funnel', () => {
+    const funnel = [
+      { title: 'Open catalog', path: '/catalog' },
+      { title: 'Open entity', path: '/catalog/*/*/*' },
+    ];
+    const config = mockServices.rootConfig({
+      data: {
+        app: {
+          analytics: {
+            adoptionInsights: {
+              journeys: { sessionTimeout: 15, maxEvents: 500, funnel },
+            },
+          },
+        },
+      },
+    });
+    expect(getJourneysConfig(config)).toEqual({
+      sessionTimeout: 15,
+      maxEvents: 500,
+      funnel,
+    });
+  });
+
+  it('should throw for invalid session timeout', () => {
+    const config = mockServices.rootConfig({
+      data: {
+        app: {
+          analytics: {
+            adoptionInsights: { journeys: { sessionTimeout: -1 } },
+          },
+        },
+      },
+    });
+    expect(() => getJourneysConfig(config)).toThrow(
+      'Invalid app.analytics.adoptionInsights.journeys.sessionTimeout: -1. It must be a positive number.',
+    );
+  });
+
+  it('should throw for invalid max events', () => {
+    const config = mockServices.rootConfig({
+      data: {
+        app: {
+          analytics: {
+            adoptionInsights: { journeys: { maxEvents: 0 } },
+          },
+        },
+      },
+    });
+    expect(() => getJourneysConfig(config)).toThrow(
+      'Invalid app.analytics.adoptionInsights.journeys.maxEvents: 0. It must be a positive integer.',
+    );
+  });
+});
+
+describe('getDigestReports', () => {
+  const toConfig = (reports: JsonObject[]) =>
+    mockServices.rootConfig({
+      data: { app: { analytics: { adoptionInsights: { reports } } } },
+    });
+
+  it('should return no reports when reports are not configured', () => {
+    expect(getDigestReports(mockServices.rootConfig())).toEqual([]);
+  });
+
+  it('should return the configured reports', () => {
+    const config = toConfig([
+      {
+        id: 'weekly',
+        frequency: 'weekly',
+        notification: { recipients: ['group:default/admins'] },
+      },
+      {
+        id: 'monthly',
+        frequency: 'monthly',
+        limit: 10,
+        artifact: { directory: '/tmp/reports', format: 'csv' },
+      },
+    ]);
+
+    expect(getDigestReports(config)).toEqual([
+      {
+        id: 'weekly',
+        frequency: 'weekly',
+        limit: 5,
+        notification: { recipients: ['group:default/admins'] },
+      },
+      {
+        id: 'monthly',
+        frequency: 'monthly',
+        limit: 10,
+        artifact: { directory: '/tmp/reports', format: 'csv' },
+      },
+    ]);
+  });
+
+  it('should write html artifacts by default', () => {
+    const config = toConfig([
+      {
+        id: 'weekly',
+        frequency: 'weekly',
+        artifact: { directory: '/tmp/reports' },
+      },
+    ]);
+
+    expect(getDigestReports(config)[0].artifact).toEqual({
+      directory: '/tmp/reports',
+      format: 'html',
+    });
+  });
+
+  it('should throw for invalid frequency', () => {
+    const config = toConfig([
+      {
+        id: 'daily',
+        frequency: 'daily',
+        artifact: { directory: '/tmp/reports' },
+      },
+    ]);
+
+    expect(() => getDigestReports(config)).toThrow(
+      'Invalid app.analytics.adoptionInsights.reports frequency of daily: daily. Allowed values: weekly, monthly',
+    );
+  });
+
+  it('should throw when the report has no notification nor artifact', () => {
+    const config = toConfig([{ id: 'weekly', frequency: 'weekly' }]);
+
+    expect(() => getDigestReports(config)).toThrow(
+      'Invalid app.analytics.adoptionInsights.reports weekly: a notification or an artifact must be configured.',
+    );
+  });
+
+  it('should throw for duplicate report ids', () => {
+    const report = {
+      id: 'weekly',
+      frequency: 'weekly',
+      artifact: { directory: '/tmp/reports' },
+    };
+
+    expect(() => getDigestReports(toConfig([report, report]))).toThrow(
+      'Invalid app.analytics.adoptionInsights.reports: duplicate report id weekly.',
+    );
+  });
+});
@@ -15,6 +15,39 @@
  */
 import { RootConfigService } from '@backstage/backend-plugin-api';
 import { ProcessorConfigOptions } from '../domain/EventBatchProcessor';
+import { FunnelStepConfig, JourneysConfig } from './journeys';
+import {
+  DigestReportConfig,
+  REPORT_FORMATS,
+  REPORT_FREQUENCIES,
+  ReportFormat,
+  ReportFrequency,
+} from './reports';
+
+export const DEFAULT_SESSION_TIMEOUT = 30;
+
+export const DEFAULT_JOURNEYS_MAX_EVENTS = 100000;
+
+export const DEFAULT_FUNNEL: FunnelStepConfig[] = [
+  { title: 'Open template list', path: '/create' },
+  { title: 'Choose template', path: '/create/templates/*/*' },
+  { title: 'Scaffolder task created', path: '/create/tasks/*' },
+];
+
+export const DEFAULT_REPORT_LIMIT = 5;
+
+export const getPseudonymizationSalt = (
+  config: RootConfigService,
+): string | undefined => {
+  const pseudonymization = config.getOptionalConfig(
+    'app.analytics.adoptionInsights.pseudonymization',
+  );
+  if (!pseudonymization?.getOptionalBoolean('enabled')) {
+    return undefined;
+  }
+
+  return pseudonymization.getString('salt');
+};
 
 export const getConfigurationOptions = (
   config: RootConfigService,
@@ -34,11 +67,135 @@ export const getConfigurationOptions = (
     debug,
     batchSize,
     batchInterval,
+    pseudonymizationSalt: getPseudonymizationSalt(config),
   };
 };
+
 export const getLicensedUsersCount = (config: RootConfigService) => {
   return (
     config.getOptionalNumber('app.analytics.adoptionInsights.licensedUsers') ||
     100
   );
 };
+
+export const getRetentionDays = (
+  config: RootConfigService,
+): number | undefined => {
+  const retentionDays = config.getOptionalNumber(
+    'app.analytics.adoptionInsights.retentionDays',
+  );
+
+  if (
+    retentionDays !== undefined &&
+    (!Number.isInteger(retentionDays) || retentionDays < 1)
+  ) {
+    throw new Error(
+      `Invalid app.analytics.adoptionInsights.retentionDays: ${retentionDays}. It must be a positive integer.`,
+    );
+  }
+
+  return retentionDays;
+};
+
+export const getJourneysConfig = (
+  config: RootConfigService,
+): JourneysConfig => {
+  const sessionTimeout =
+    config.getOptionalNumber(
+      'app.analytics.adoptionInsights.journeys.sessionTimeout',
+    ) ?? DEFAULT_SESSION_TIMEOUT;
+
+  if (sessionTimeout <= 0) {
+    throw new Error(
+      `Invalid app.analytics.adoptionInsights.journeys.sessionTimeout: ${sessionTimeout}. It must be a positive number.`,
+    );
+  }
+
+  const maxEvents =
+    config.getOptionalNumber(
+      'app.analytics.adoptionInsights.journeys.maxEvents',
+    ) ?? DEFAULT_JOURNEYS_MAX_EVENTS;
+
+  if (!Number.isInteger(maxEvents) || maxEvents <= 0) {
+    throw new Error(
+      `Invalid app.analytics.adoptionInsights.journeys.maxEvents: ${maxEvents}. It must be a positive integer.`,
+    );
+  }
+
+  const funnel = config
+    .getOptionalConfigArray('app.analytics.adoptionInsights.journeys.funnel')
+    ?.map(step => ({
+      title: step.getString('title'),
+      path: step.getString('path'),
+    }));
+
+  return {
+    sessionTimeout,
+    funnel: funnel?.length ? funnel : DEFAULT_FUNNEL,
+    maxEvents,
+  };
+};
+
+export const getDigestReports = (
+  config: RootConfigService,
+): DigestReportConfig[] => {
+  const reports =
+    config
+      .getOptionalConfigArray('app.analytics.adoptionInsights.reports')
+      ?.map(report => {
+        const id = report.getString('id');
+        const frequency = report.getString('frequency') as ReportFrequency;
+        if (!REPORT_FREQUENCIES.includes(frequency)) {
+          throw new Error(
+            `Invalid app.analytics.adoptionInsights.reports frequency of ${id}: ${frequency}. Allowed values: ${REPORT_FREQUENCIES.join(
+              ', ',
+            )}`,
+          );
+        }
+
+        const limit = report.getOptionalNumber('limit') ?? DEFAULT_REPORT_LIMIT;
+        if (!Number.isInteger(limit) || limit < 1) {
+          throw new Error(
+            `Invalid app.analytics.adoptionInsights.reports limit of ${id}: ${limit}. It must be a positive integer.`,
+          );
+        }
+
+        const recipients = report.getOptionalStringArray(
+          'notification.recipients',
+        );
+        const directory = report.getOptionalString('artifact.directory');
+        const format = (report.getOptionalString('artifact.format') ??
+          'html') as ReportFormat;
+        if (!REPORT_FORMATS.includes(format)) {
+          throw new Error(
+            `Invalid app.analytics.adoptionInsights.reports format of ${id}: ${format}. Allowed values: ${REPORT_FORMATS.join(
+              ', ',
+            )}`,
+          );
+        }
+
+        if (!recipients?.length && !directory) {
+          throw new Error(
+            `Invalid app.analytics.adoptionInsights.reports ${id}: a notification or an artifact must be configured.`,
+          );
+        }
+
+        return {
+          id,
+          frequency,
+          limit,
+          ...(recipients?.length ? { notification: { recipients } } : {}),
+          ...(directory ? { artifact: { directory, format } } : {}),
+        };
+      }) ?? [];
+
+  const ids = reports.map(report => report.id);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) {
+    throw new Error(
+      `Invalid app.analytics.adoptionInsights.reports: duplicate report id ${duplicate}.`,
+    );
+  }
+
+  return reports;
+};
@@ -0,0 +1,143 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  getFunnel,
+  getSessions,
+  getTopPaths,
+  MAX_JOURNEY_STEPS,
+  NavigationEvent,
+  toPathRegExp,
+} from './journeys';
+
+const navigate = (
+  user: string,
+  pluginId: string,
+  subject: string,
+  minutes: number,
+): NavigationEvent => ({
+  user_ref: `user:default/${user}`,
+  plugin_id: pluginId,
+  subject,
+  created_at: new Date(
+    Date.UTC(2025, 2, 2, 10) + minutes * 60 * 1000,
+  ).toISOString(),
+});
+
+const funnel = [
+  { title: 'Open template list', path: '/create' },
+  { title: 'Choose template', path: '/create/templates/*/*' },
+  { title: 'Scaffolder task created', path: '/create/tasks/*' },
+];
+
+describe('toPathRegExp', () => {
+  it('should match the exact path', () => {
+    expect(toPathRegExp('/create').test('/create')).toBe(true);
+    expect(toPathRegExp('/create').test('/create/')).toBe(true);
+    expect(toPathRegExp('/create').test('/create/tasks')).toBe(false);
+  });
+
+  it('should match a single path segment with a wildcard', () => {
+    const regExp = toPathRegExp('/create/tasks/*');
+    expect(regExp.test('/create/tasks/1234')).toBe(true);
+    expect(regExp.test('/create/tasks')).toBe(false);
+    expect(regExp.test('/create/tasks/1234/logs')).toBe(false);
+  });
+});
+
+describe('getSessions', () => {
+  it('should split the events by user and inactivity', () => {
+    const events = [
+      navigate('jane', 'catalog', '/catalog', 0),
+      navigate('jane', 'scaffolder', '/create', 10),
+      navigate('jane', 'catalog', '/catalog', 60),
+      navigate('john', 'catalog', '/catalog', 61),
+    ];
+
+    expect(getSessions(events, 30)).toEqual([
+      [events[0], events[1]],
+      [events[2]],
+      [events[3]],
+    ]);
+  });
+
+  it('should return no sessions without events', () => {
+    expect(getSessions([], 30)).toEqual([]);
+  });
+});
+
+describe('getTopPaths', () => {
+  it('should count the plugin paths of the sessions', () => {
+    const sessions = [
+      [
+        navigate('jane', 'catalog', '/catalog', 0),
+        navigate('jane', 'catalog', '/catalog/default/component/app', 1),
+        navigate('jane', 'scaffolder', '/create', 2),
+      ],
+      [
+        navigate('john', 'catalog', '/catalog', 0),
+        navigate('john', 'scaffolder', '/create', 1),
+      ],
+      [navigate('joe', 'techdocs', '/docs', 0)],
+    ];
+
+    expect(getTopPaths(sessions, 3)).toEqual([
+      { steps: ['catalog', 'scaffolder'], count: 2 },
+      { steps: ['techdocs'], count: 1 },
+    ]);
+    expect(getTopPaths(sessions, 1)).toHaveLength(1);
+  });
+
+  it('should truncate the long paths', () => {
+    const session = ['a', 'b', 'c', 'd', 'e', 'f', 'g'].map((plugin, i) =>
+      navigate('jane', plugin, `/${plugin}`, i),
+    );
+
+    expect(getTopPaths([session], 3)[0].steps).toHaveLength(MAX_JOURNEY_STEPS);
+  });
+});
+
+describe('getFunnel', () => {
+  it('should count the sessions reaching each step in order', () => {
+    const sessions = [
+      [
+        navigate('jane', 'scaffolder', '/create', 0),
+        navigate('jane', 'scaffolder', '/create/templates/default/nodejs', 1),
+        navigate('jane', 'scaffolder', '/create/tasks/1234?step=2', 2),
+      ],
+      [
+        navigate('john', 'scaffolder', '/create', 0),
+        navigate('john', 'scaffolder', '/create/templates/default/nodejs', 1),
+      ],
+      [
+        navigate('joe', 'scaffolder', '/create/tasks/1234', 0),
+        navigate('joe', 'scaffolder', '/create', 1),
+      ],
+      [navigate('jack', 'catalog', '/catalog', 0)],
+    ];
+
+    expect(getFunnel(sessions, funnel)).toEqual([
+      { ...funnel[0], count: 3, conversion_rate: 100, drop_off: 0 },
+      { ...funnel[1], count: 2, conversion_rate: 66.67, drop_off: 1 },
+      { ...funnel[2], count: 1, conversion_rate: 33.33, drop_off: 1 },
+    ]);
+  });
+
+  it('should return empty conversion rates without sessions', () => {
+    expect(getFunnel([], funnel).map(step => step.conversion_rate)).toEqual([
+      0, 0, 0,
+    ]);
+  });
+});
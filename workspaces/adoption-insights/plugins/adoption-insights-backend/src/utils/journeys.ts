@@ -0,0 +1,139 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { FunnelStep, JourneyPath } from '../types/event';
+
+// Longest path of plugins reported for a session
+export const MAX_JOURNEY_STEPS = 5;
+
+export type FunnelStepConfig = {
+  title: string;
+  path: string;
+};
+
+export type JourneysConfig = {
+  sessionTimeout: number; // minutes
+  funnel: FunnelStepConfig[];
+  maxEvents: number;
+};
+
+export type NavigationEvent = {
+  user_ref: string;
+  plugin_id: string;
+  subject: string;
+  created_at: string | Date;
+};
+
+export type Session = NavigationEvent[];
+
+const getPathname = (subject: string): string => subject.split(/[?#]/)[0];
+
+// A `*` in the funnel step path matches a single path segment
+export const toPathRegExp = (path: string): RegExp =>
+  new RegExp(
+    `^${path
+      .replace(/\/$/, '')
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('[^/]+')}/?$`,
+  );
+
+/**
+ * Splits the navigation events, ordered by user and creation date, into sessions.
+ * A new session starts when the user was inactive for longer than the session timeout.
+ */
+export const getSessions = (
+  events: NavigationEvent[],
+  sessionTimeout: number,
+): Session[] => {
+  const timeout = sessionTimeout * 60 * 1000;
+  const sessions: Session[] = [];
+  let previous: NavigationEvent | undefined;
+
+  events.forEach(event => {
+    if (
+      !previous ||
+      previous.user_ref !== event.user_ref ||
+      new Date(event.created_at).getTime() -
+        new Date(previous.created_at).getTime() >
+        timeout
+    ) {
+      sessions.push([]);
+    }
+    sessions[sessions.length - 1].push(event);
+    previous = event;
+  });
+
+  return sessions;
+};
+
+export const getTopPaths = (
+  sessions: Session[],
+  limit: number,
+): JourneyPath[] => {
+  const paths = new Map<string, JourneyPath>();
+
+  sessions.forEach(session => {
+    const steps = session
+      .map(event => event.plugin_id)
+      .filter(
+        (pluginId, index, all) => index === 0 || pluginId !== all[index - 1],
+      )
+      .slice(0, MAX_JOURNEY_STEPS);
+    const key = steps.join('>');
+
+    const path = paths.get(key) ?? { steps, count: 0 };
+    path.count++;
+    paths.set(key, path);
+  });
+
+  return [...paths.values()].sort((a, b) => b.count - a.count).slice(0, limit);
+};
+
+/**
+ * Counts the sessions which visited the funnel steps in order.
+ */
+export const getFunnel = (
+  sessions: Session[],
+  steps: FunnelStepConfig[],
+): FunnelStep[] => {
+  const matchers = steps.map(step => toPathRegExp(step.path));
+  const reached = steps.map(() => 0);
+
+  sessions.forEach(session => {
+    let step = 0;
+    session.forEach(event => {
+      if (
+        step < matchers.length &&
+        matchers[step].test(getPathname(event.subject))
+      ) {
+        step++;
+      }
+    });
+    for (let i = 0; i < step; i++) {
+      reached[i]++;
+    }
+  });
+
+  return steps.map((step, index) => ({
+    title: step.title,
+    path: step.path,
+    count: reached[index],
+    conversion_rate: reached[0]
+      ? Math.round((reached[index] * 10000) / reached[0]) / 100
+      : 0,
+    drop_off: index === 0 ? 0 : reached[index - 1] - reached[index],
+  }));
+};
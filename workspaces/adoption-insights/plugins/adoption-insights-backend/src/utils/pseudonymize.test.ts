@@ -0,0 +1,83 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { AnalyticsEvent } from '@backstage/core-plugin-api';
+import { Event } from '../models/Event';
+import { pseudonymizeEvent, pseudonymizeUserRef } from './pseudonymize';
+
+describe('pseudonymizeUserRef', () => {
+  it('should return a stable pseudonym for the same user', () => {
+    expect(pseudonymizeUserRef('user:default/john', 'salt')).toBe(
+      pseudonymizeUserRef('user:default/john', 'salt'),
+    );
+  });
+
+  it('should return different pseudonyms for different users or salts', () => {
+    const pseudonym = pseudonymizeUserRef('user:default/john', 'salt');
+
+    expect(pseudonym).not.toBe(
+      pseudonymizeUserRef('user:default/jane', 'salt'),
+    );
+    expect(pseudonym).not.toBe(
+      pseudonymizeUserRef('user:default/john', 'other-salt'),
+    );
+  });
+
+  it('should not contain the user ref', () => {
+    expect(pseudonymizeUserRef('user:default/john', 'salt')).toMatch(
+      /^[0-9a-f]{64}$/,
+    );
+  });
+});
+
+describe('pseudonymizeEvent', () => {
+  const analyticsEvent: AnalyticsEvent = {
+    action: 'navigate',
+    subject: '/catalog',
+    context: {
+      routeRef: 'unknown',
+      pluginId: 'catalog',
+      extension: 'App',
+      userName: 'user:default/john',
+      userId: 'unsalted-hash',
+    },
+  };
+  const pseudonym = pseudonymizeUserRef('user:default/john', 'salt');
+
+  it('should replace the user identifiers of the event', () => {
+    const event = pseudonymizeEvent(new Event(analyticsEvent), 'salt');
+
+    expect(event.toJSON()).toEqual(
+      expect.objectContaining({
+        user_ref: pseudonym,
+        context: expect.objectContaining({
+          userName: pseudonym,
+          userId: pseudonym,
+          pluginId: 'catalog',
+        }),
+      }),
+    );
+  });
+
+  it('should replace the user identifiers of a serialized context', () => {
+    const event = pseudonymizeEvent(new Event(analyticsEvent, false), 'salt');
+
+    expect(event.user_ref).toBe(pseudonym);
+    expect(JSON.parse(event.context as string)).toEqual(
+      expect.objectContaining({ userName: pseudonym, userId: pseudonym }),
+    );
+    expect(JSON.stringify(event)).not.toContain('user:default/john');
+  });
+});
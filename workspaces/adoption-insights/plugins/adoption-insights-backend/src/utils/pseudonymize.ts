@@ -0,0 +1,46 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { createHmac } from 'crypto';
+import { Event } from '../models/Event';
+
+export const pseudonymizeUserRef = (userRef: string, salt: string): string =>
+  createHmac('sha256', salt).update(userRef).digest('hex');
+
+// Replaces every user identifier of the event, including the ones sent in the event context
+export const pseudonymizeEvent = (event: Event, salt: string): Event => {
+  const pseudonym = event.user_ref
+    ? pseudonymizeUserRef(event.user_ref, salt)
+    : event.user_ref;
+
+  const context =
+    typeof event.context === 'string'
+      ? JSON.parse(event.context)
+      : { ...event.context };
+  if (context.userName) {
+    context.userName = pseudonym;
+  }
+  if (context.userId) {
+    context.userId = pseudonym;
+  }
+
+  return {
+    ...event,
+    user_ref: pseudonym,
+    context:
+      typeof event.context === 'string' ? JSON.stringify(context) : context,
+    toJSON: event.toJSON,
+  };
+};
@@ -0,0 +1,124 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { DateTime } from 'luxon';
+import {
+  DigestReport,
+  getDeltaPercentage,
+  getReportPeriods,
+  toReportCsv,
+  toReportHtml,
+  toReportSummary,
+} from './reports';
+
+const report: DigestReport = {
+  id: 'weekly',
+  frequency: 'weekly',
+  start_date: '2025-03-03T00:00:00.000Z',
+  end_date: '2025-03-09T23:59:59.999Z',
+  active_users: { current: 12, previous: 10, delta_percentage: 20 },
+  searches: { current: 5, previous: 0, delta_percentage: null },
+  top_plugins: [
+    { name: 'catalog', current: 30, previous: 40, delta_percentage: -25 },
+  ],
+  top_templates: [
+    {
+      name: 'template:default/<script>',
+      current: 2,
+      previous: 2,
+      delta_percentage: 0,
+    },
+  ],
+};
+
+describe('getReportPeriods', () => {
+  const now = DateTime.fromISO('2025-03-12T10:00:00.000Z', { zone: 'UTC' });
+
+  it('should return the last complete week and the week before', () => {
+    expect(getReportPeriods('weekly', now)).toEqual({
+      current: {
+        start_date: '2025-03-03T00:00:00.000Z',
+        end_date: '2025-03-09T23:59:59.999Z',
+      },
+      previous: {
+        start_date: '2025-02-24T00:00:00.000Z',
+        end_date: '2025-03-02T23:59:59.999Z',
+      },
+    });
+  });
+
+  it('should return the last complete month and the month before', () => {
+    expect(getReportPeriods('monthly', now)).toEqual({
+      current: {
+        start_date: '2025-02-01T00:00:00.000Z',
+        end_date: '2025-02-28T23:59:59.999Z',
+      },
+      previous: {
+        start_date: '2025-01-01T00:00:00.000Z',
+        end_date: '2025-01-31T23:59:59.999Z',
+      },
+    });
+  });
+});
+
+describe('getDeltaPercentage', () => {
+  it('should return the change rounded to one decimal', () => {
+    expect(getDeltaPercentage(4, 3)).toBe(33.3);
+    expect(getDeltaPercentage(1, 4)).toBe(-75);
+  });
+
+  it('should return null without previous value', () => {
+    expect(getDeltaPercentage(4, 0)).toBeNull();
+  });
+});
+
+describe('toReportSummary', () => {
+  it('should summarize the report', () => {
+    expect(toReportSummary(report)).toBe(
+      [
+        'Period: 2025-03-03 - 2025-03-09',
+        'Active users: 12 (+20%)',
+        'Searches: 5 (n/a)',
+        'Top plugins: catalog 30 (-25%)',
+        'Top templates: template:default/<script> 2 (0%)',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('toReportCsv', () => {
+  it('should return a row per metric', () => {
+    expect(toReportCsv(report).split('\n')).toEqual([
+      'section,name,current,previous,delta_percentage',
+      'active_users,,12,10,20',
+      'searches,,5,0,',
+      'top_plugins,catalog,30,40,-25',
+      'top_templates,template:default/<script>,2,2,0',
+    ]);
+  });
+});
+
+describe('toReportHtml', () => {
+  it('should render the tables with escaped values', () => {
+    const html = toReportHtml(report);
+
+    expect(html).toContain('<h1>Adoption Insights weekly report</h1>');
+    expect(html).toContain(
+      '<tr><td>Active users</td><td>12</td><td>10</td><td>+20%</td></tr>',
+    );
+    expect(html).toContain('<td>template:default/&lt;script&gt;</td>');
+    expect(html).not.toContain('<script>');
+  });
+});
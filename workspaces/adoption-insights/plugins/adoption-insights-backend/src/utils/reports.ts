@@ -0,0 +1,214 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { json2csv } from 'json-2-csv';
+import { DateTime } from 'luxon';
+
+export const REPORT_FREQUENCIES = ['weekly', 'monthly'] as const;
+export const REPORT_FORMATS = ['html', 'csv'] as const;
+
+export type ReportFrequency = (typeof REPORT_FREQUENCIES)[number];
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export const REPORT_CRON: Record<ReportFrequency, string> = {
+  weekly: '0 6 * * 1', // Runs at 6 AM every Monday
+  monthly: '0 6 1 * *', // Runs at 6 AM on the 1st of every month
+};
+
+export type DigestReportConfig = {
+  id: string;
+  frequency: ReportFrequency;
+  limit: number;
+  notification?: {
+    recipients: string[];
+  };
+  artifact?: {
+    directory: string;
+    format: ReportFormat;
+  };
+};
+
+export type ReportPeriod = {
+  start_date: string;
+  end_date: string;
+};
+
+export interface DigestMetric {
+  current: number;
+  previous: number;
+  delta_percentage: number | null; // null when there is nothing to compare with
+}
+
+export type DigestRanking = DigestMetric & {
+  name: string;
+};
+
+export interface DigestReport {
+  id: string;
+  frequency: ReportFrequency;
+  start_date: string;
+  end_date: string;
+  active_users: DigestMetric;
+  searches: DigestMetric;
+  top_plugins: DigestRanking[];
+  top_templates: DigestRanking[];
+}
+
+/**
+ * Returns the last complete week or month before the given date, and the period before it.
+ */
+export const getReportPeriods = (
+  frequency: ReportFrequency,
+  now: DateTime = DateTime.utc(),
+): { current: ReportPeriod; previous: ReportPeriod } => {
+  const duration = frequency === 'weekly' ? { weeks: 1 } : { months: 1 };
+  const end = now.toUTC().startOf(frequency === 'weekly' ? 'week' : 'month');
+  const start = end.minus(duration);
+
+  const toPeriod = (from: DateTime, to: DateTime): ReportPeriod => ({
+    start_date: from.toISO()!,
+    end_date: to.minus({ milliseconds: 1 }).toISO()!,
+  });
+
+  return {
+    current: toPeriod(start, end),
+    previous: toPeriod(start.minus(duration), start),
+  };
+};
+
+export const getDeltaPercentage = (
+  current: number,
+  previous: number,
+): number | null => {
+  if (previous === 0) {
+    return null;
+  }
+  return Math.round(((current - previous) / previous) * 1000) / 10;
+};
+
+export const toDigestMetric = (
+  current: number,
+  previous: number,
+): DigestMetric => ({
+  current,
+  previous,
+  delta_percentage: getDeltaPercentage(current, previous),
+});
+
+const formatDelta = (delta: number | null): string => {
+  if (delta === null) {
+    return 'n/a';
+  }
+  return `${delta > 0 ? '+' : ''}${delta}%`;
+};
+
+const formatMetric = ({ current, delta_percentage }: DigestMetric) =>
+  `${current} (${formatDelta(delta_percentage)})`;
+
+const formatPeriod = (report: DigestReport) =>
+  `${DateTime.fromISO(report.start_date, {
+    zone: 'UTC',
+  }).toISODate()} - ${DateTime.fromISO(report.end_date, {
+    zone: 'UTC',
+  }).toISODate()}`;
+
+const formatRankings = (rankings: DigestRanking[]) =>
+  rankings.length
+    ? rankings
+        .map(ranking => `${ranking.name} ${formatMetric(ranking)}`)
+        .join(', ')
+    : 'none';
+
+/**
+ * Plain text summary of the report, used as notification description.
+ */
+export const toReportSummary = (report: DigestReport): string =>
+  [
+    `Period: ${formatPeriod(report)}`,
+    `Active users: ${formatMetric(report.active_users)}`,
+    `Searches: ${formatMetric(report.searches)}`,
+    `Top plugins: ${formatRankings(report.top_plugins)}`,
+    `Top templates: ${formatRankings(report.top_templates)}`,
+  ].join('\n');
+
+export const toReportCsv = (report: DigestReport): string => {
+  const toRow = (section: string, name: string, metric: DigestMetric) => ({
+    section,
+    name,
+    current: metric.current,
+    previous: metric.previous,
+    delta_percentage: metric.delta_percentage ?? '',
+  });
+
+  return json2csv([
+    toRow('active_users', '', report.active_users),
+    toRow('searches', '', report.searches),
+    ...report.top_plugins.map(plugin =>
+      toRow('top_plugins', plugin.name, plugin),
+    ),
+    ...report.top_templates.map(template =>
+      toRow('top_templates', template.name, template),
+    ),
+  ]);
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const toHtmlTable = (title: string, rows: DigestRanking[]): string => `
+  <h2>${escapeHtml(title)}</h2>
+  <table>
+    <thead>
+      <tr><th>Name</th><th>Current</th><th>Previous</th><th>Change</th></tr>
+    </thead>
+    <tbody>
+${rows
+  .map(
+    row =>
+      `      <tr><td>${escapeHtml(row.name)}</td><td>${row.current}</td><td>${
+        row.previous
+      }</td><td>${formatDelta(row.delta_percentage)}</td></tr>`,
+  )
+  .join('\n')}
+    </tbody>
+  </table>`;
+
+export const toReportHtml = (report: DigestReport): string => {
+  const title = `Adoption Insights ${report.frequency} report`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p>${escapeHtml(formatPeriod(report))}</p>
+${toHtmlTable('Summary', [
+  { name: 'Active users', ...report.active_users },
+  { name: 'Searches', ...report.searches },
+])}
+${toHtmlTable('Top plugins', report.top_plugins)}
+${toHtmlTable('Top templates', report.top_templates)}
+</body>
+</html>
+`;
+};
@@ -13,7 +13,7 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
-import { EventRequestSchema } from './event-request';
+import { DeleteEventsRequestSchema, EventRequestSchema } from './event-request';
 
 describe('EventRequestSchema', () => {
   it('should validate a correct schema', () => {
@@ -66,6 +66,58 @@ describe('EventRequestSchema', () => {
     );
   });
 
+  it('should validate the group filter and groupBy option', () => {
+    const validData = {
+      start_date: '2025-03-01',
+      end_date: '2025-03-02',
+      type: 'active_users',
+      timezone: 'Asia/kolkata',
+      group: 'group:default/team-a',
+      groupBy: 'ownerGroup',
+    };
+
+    expect(() => EventRequestSchema.parse(validData)).not.toThrow();
+  });
+
+  it('should reject an invalid groupBy', () => {
+    const invalidData = {
+      start_date: '2025-03-01',
+      end_date: '2025-03-02',
+      type: 'active_users',
+      timezone: 'Asia/kolkata',
+      groupBy: 'department',
+    };
+
+    expect(() => EventRequestSchema.parse(invalidData)).toThrow(
+      'Invalid groupBy. Allowed values: ownerGroup',
+    );
+  });
+
+  it('should validate the insight of the custom type', () => {
+    const validData = {
+      start_date: '2025-03-01',
+      end_date: '2025-03-02',
+      type: 'custom',
+      timezone: 'Asia/kolkata',
+      insight: 'lightspeed_questions',
+    };
+
+    expect(() => EventRequestSchema.parse(validData)).not.toThrow();
+  });
+
+  it('should reject the custom type without insight', () => {
+    const invalidData = {
+      start_date: '2025-03-01',
+      end_date: '2025-03-02',
+      type: 'custom',
+      timezone: 'Asia/kolkata',
+    };
+
+    expect(() => EventRequestSchema.parse(invalidData)).toThrow(
+      'insight is required for the custom type',
+    );
+  });
+
   it('should reject an invalid format', () => {
     const invalidData = {
       start_date: '2025-03-01',
@@ -170,3 +222,23 @@ describe('EventRequestSchema', () => {
     expect(result.success).toBe(true);
   });
 });
+
+describe('DeleteEventsRequestSchema', () => {
+  it('should validate a correct schema', () => {
+    expect(() =>
+      DeleteEventsRequestSchema.parse({ user_ref: 'user:default/john' }),
+    ).not.toThrow();
+  });
+
+  it('should reject a missing user_ref', () => {
+    expect(() => DeleteEventsRequestSchema.parse({})).toThrow(
+      'user_ref is required',
+    );
+  });
+
+  it('should reject an empty user_ref', () => {
+    expect(() => DeleteEventsRequestSchema.parse({ user_ref: '' })).toThrow(
+      'user_ref is required',
+    );
+  });
+});
@@ -30,6 +30,15 @@ export const EventRequestSchema = z
     timezone: z.string(),
     limit: z.string().regex(/^\d+$/).transform(Number).optional(),
     kind: z.string().optional(),
+    group: z.string().min(1).optional(),
+    insight: z.string().min(1).optional(),
+    groupBy: z
+      .enum(['ownerGroup'], {
+        errorMap: () => ({
+          message: 'Invalid groupBy. Allowed values: ownerGroup',
+        }),
+      })
+      .optional(),
     type: z.enum(QUERY_TYPES, {
       errorMap: () => ({
         message: `Invalid type. Allowed values: ${QUERY_TYPES}`,
@@ -65,6 +74,14 @@ export const EventRequestSchema = z
       });
     }
 
+    if (data.type === 'custom' && !data.insight) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'insight is required for the custom type',
+        path: ['insight'],
+      });
+    }
+
     if (startDate.isValid && endDate.isValid && startDate > endDate) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
@@ -73,3 +90,9 @@ export const EventRequestSchema = z
       });
     }
   });
+
+export const DeleteEventsRequestSchema = z.object({
+  user_ref: z
+    .string({ required_error: 'user_ref is required' })
+    .min(1, 'user_ref is required'),
+});
@@ -24,3 +24,23 @@ export const adoptionInsightsEventsReadPermission = createPermission({
     action: 'read',
   },
 });
+
+/** This permission is used to read the storage usage of the adoption-insights events
+ * @public
+ */
+export const adoptionInsightsStorageReadPermission = createPermission({
+  name: 'adoption-insights.storage.read',
+  attributes: {
+    action: 'read',
+  },
+});
+
+/** This permission is used to delete all adoption-insights events of a user
+ * @public
+ */
+export const adoptionInsightsEventsDeletePermission = createPermission({
+  name: 'adoption-insights.events.delete',
+  attributes: {
+    action: 'delete',
+  },
+});
@@ -0,0 +1,35 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createExtensionPoint } from '@backstage/backend-plugin-api';
+import { InsightQuery } from './types';
+
+/**
+ * Interface for the Adoption Insights queries extension point
+ * @public
+ */
+export interface AdoptionInsightsQueriesExtensionPoint {
+  addInsightQuery(...insightQueries: Array<InsightQuery>): void;
+}
+
+/**
+ * Extension point for adding custom insight queries to the Adoption Insights plugin
+ * @public
+ */
+export const adoptionInsightsQueriesExtensionPoint =
+  createExtensionPoint<AdoptionInsightsQueriesExtensionPoint>({
+    id: 'adoption-insights.queries',
+  });
@@ -0,0 +1,53 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Events aggregated by an insight query.
+ * Only the `action` is required, the other properties narrow down the matched events.
+ * @public
+ */
+export interface InsightEventMatch {
+  action: string;
+  subject?: string;
+  pluginId?: string;
+  /**
+   * Values of the event attributes, compared as strings.
+   */
+  attributes?: Record<string, string>;
+}
+
+/**
+ * Property of the events an insight query is broken down by.
+ * @public
+ */
+export type InsightBreakdown = 'subject' | 'plugin_id' | { attribute: string };
+
+/**
+ * Named query over the captured analytics events, e.g. the questions asked to a chat assistant.
+ * @public
+ */
+export interface InsightQuery {
+  /**
+   * Unique name of the insight, used in the `insight` query parameter.
+   * Only lowercase letters, digits, dots, dashes and underscores are allowed.
+   */
+  name: string;
+  match: InsightEventMatch;
+  /**
+   * Breaks down the matched events, the most frequent values are returned in the `breakdown` of the response.
+   */
+  breakdown?: InsightBreakdown;
+}
@@ -0,0 +1,31 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+export default {
+  grouping: 'daily',
+  data: [
+    { date: '2025-03-02T00:00:00.000Z', count: 14 },
+    { date: '2025-03-03T00:00:00.000Z', count: 22 },
+    { date: '2025-03-04T00:00:00.000Z', count: 18 },
+    { date: '2025-03-05T00:00:00.000Z', count: 27 },
+    { date: '2025-03-06T00:00:00.000Z', count: 31 },
+  ],
+  total: 112,
+  users: 19,
+  breakdown: [
+    { value: 'granite-3', count: 64 },
+    { value: 'llama-3', count: 48 },
+  ],
+};
@@ -0,0 +1,48 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+export default {
+  total_sessions: 412,
+  funnel: [
+    {
+      title: 'Open template list',
+      path: '/create',
+      count: 180,
+      conversion_rate: 100,
+      drop_off: 0,
+    },
+    {
+      title: 'Choose template',
+      path: '/create/templates/*/*',
+      count: 96,
+      conversion_rate: 53.33,
+      drop_off: 84,
+    },
+    {
+      title: 'Scaffolder task created',
+      path: '/create/tasks/*',
+      count: 61,
+      conversion_rate: 33.89,
+      drop_off: 35,
+    },
+  ],
+  data: [
+    { steps: ['catalog', 'scaffolder', 'catalog'], count: 88 },
+    { steps: ['root', 'catalog', 'techdocs'], count: 64 },
+    { steps: ['catalog', 'techdocs'], count: 51 },
+    { steps: ['root', 'scaffolder'], count: 37 },
+    { steps: ['search', 'techdocs'], count: 22 },
+  ],
+};
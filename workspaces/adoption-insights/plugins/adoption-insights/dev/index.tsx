@@ -18,8 +18,14 @@ import { ReactNode } from 'react';
 import { createDevApp } from '@backstage/dev-utils';
 import { getAllThemes } from '@red-hat-developer-hub/backstage-plugin-theme';
 import { TestApiProvider } from '@backstage/test-utils';
+import { catalogApiRef } from '@backstage/plugin-catalog-react';
+import { catalogApiMock } from '@backstage/plugin-catalog-react/testUtils';
 
-import { adoptionInsightsPlugin, AdoptionInsightsPage } from '../src/plugin';
+import {
+  adoptionInsightsPlugin,
+  AdoptionInsightsPage,
+  CustomInsightCard,
+} from '../src/plugin';
 import { adoptionInsightsApiRef } from '../src/api';
 import { adoptionInsightsTranslations } from '../src/translations';
 import {
@@ -27,19 +33,24 @@ import {
   AdoptionInsightsApi,
   APIsViewOptions,
   CatalogEntitiesResponse,
+  CustomInsightResponse,
   PluginTrendResponse,
   SearchesResponse,
   TechdocsResponse,
   TemplatesResponse,
+  UserJourneysResponse,
   UsersResponse,
 } from '../src/types';
 import { mockPluginViews } from './__data__/plugins';
 import mockCatalogEntities from './__data__/catalogEntities';
 import mockTemplates from './__data__/templates';
 import mockActiveUsers from './__data__/activeUsers';
+import mockGroups from './__data__/groups';
 import mockTechdocs from './__data__/techdocs';
 import mockSearches from './__data__/searches';
 import mockUsers from './__data__/users';
+import mockUserJourneys from './__data__/userJourneys';
+import mockCustomInsight from './__data__/customInsight';
 import { CatalogEntityPage } from '@backstage/plugin-catalog';
 
 import CatalogEntities from '../src/components/CatalogEntities';
@@ -50,6 +61,7 @@ import Templates from '../src/components/Templates';
 import Plugins from '../src/components/Plugins';
 import Techdocs from '../src/components/Techdocs';
 import Searches from '../src/components/Searches';
+import UserJourneys from '../src/components/UserJourneys';
 
 export class MockAdoptionInsightsApiClient implements AdoptionInsightsApi {
   async getPlugins(_options: APIsViewOptions): Promise<PluginTrendResponse> {
@@ -77,6 +89,16 @@ export class MockAdoptionInsightsApiClient implements AdoptionInsightsApi {
   async getUsers(_options: APIsViewOptions): Promise<UsersResponse> {
     return mockUsers;
   }
+  async getUserJourneys(
+    _options: APIsViewOptions,
+  ): Promise<UserJourneysResponse> {
+    return mockUserJourneys;
+  }
+  async getCustomInsight(
+    _options: APIsViewOptions,
+  ): Promise<CustomInsightResponse> {
+    return mockCustomInsight;
+  }
   async downloadBlob(options: APIsViewOptions): Promise<void> {
     // Simulate CSV download in dev mode - filename comes from frontend translation
     const csvContent =
@@ -97,7 +119,10 @@ export class MockAdoptionInsightsApiClient implements AdoptionInsightsApi {
 
 const AdoptionInsightsWrapper = ({ children }: { children: ReactNode }) => (
   <TestApiProvider
-    apis={[[adoptionInsightsApiRef, new MockAdoptionInsightsApiClient()]]}
+    apis={[
+      [adoptionInsightsApiRef, new MockAdoptionInsightsApiClient()],
+      [catalogApiRef, catalogApiMock({ entities: mockGroups })],
+    ]}
   >
     <Page themeId="home">
       <Content>
@@ -116,7 +141,12 @@ createDevApp()
   .addPage({
     element: (
       <AdoptionInsightsWrapper>
-        <AdoptionInsightsPage />
+        <AdoptionInsightsPage>
+          <CustomInsightCard
+            insight="lightspeed_questions"
+            title="Lightspeed questions"
+          />
+        </AdoptionInsightsPage>
       </AdoptionInsightsWrapper>
     ),
     title: 'Adoption insights Page',
@@ -168,6 +198,15 @@ createDevApp()
     ),
     title: 'Top Searches',
   })
+  .addPage({
+    path: '/user-journeys',
+    element: (
+      <AdoptionInsightsWrapper>
+        <UserJourneys />
+      </AdoptionInsightsWrapper>
+    ),
+    title: 'User Journeys',
+  })
   .addPage({
     path: '/catalog/:kind/:namespace/:name',
     element: (
@@ -57,6 +57,11 @@ describe('AdoptionInsightsApiClient', () => {
     { method: 'getTechdocs', response: { data: [] } },
     { method: 'getPlugins', response: { data: [] } },
     { method: 'getSearches', response: { grouping: undefined, data: [] } },
+    { method: 'getUserJourneys', response: { data: [] } },
+    {
+      method: 'getCustomInsight',
+      response: { grouping: undefined, data: [] },
+    },
   ];
 
   testCases.forEach(({ method, response }) => {
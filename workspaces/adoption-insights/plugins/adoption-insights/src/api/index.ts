@@ -24,6 +24,8 @@ import {
   TechdocsResponse,
   ActiveUsersResponse,
   SearchesResponse,
+  UserJourneysResponse,
+  CustomInsightResponse,
 } from '../types';
 import { generateEventsUrl } from '../utils/utils';
 
@@ -38,6 +40,8 @@ export interface InsightsApi {
   getTechdocs(options: APIsViewOptions): Promise<TechdocsResponse>;
   getPlugins(options: APIsViewOptions): Promise<PluginTrendResponse>;
   getSearches(options: APIsViewOptions): Promise<SearchesResponse>;
+  getUserJourneys(options: APIsViewOptions): Promise<UserJourneysResponse>;
+  getCustomInsight(options: APIsViewOptions): Promise<CustomInsightResponse>;
 }
 
 export const adoptionInsightsApiRef = createApiRef<AdoptionInsightsApi>({
@@ -188,10 +192,50 @@ export class AdoptionInsightsApiClient implements AdoptionInsightsApi {
     return data as SearchesResponse;
   }
 
+  async getUserJourneys(
+    options: APIsViewOptions,
+  ): Promise<UserJourneysResponse> {
+    if (!options.start_date || !options.end_date) {
+      return Promise.resolve({ data: [] });
+    }
+
+    const baseUrl = await this.getBaseUrl();
+    const url = generateEventsUrl(`${baseUrl}/events`, options);
+
+    const response = await this.fetchApi.fetch(url);
+
+    validateResponse(response, 'user journeys');
+
+    const data = await response.json();
+    return data as UserJourneysResponse;
+  }
+
+  async getCustomInsight(
+    options: APIsViewOptions,
+  ): Promise<CustomInsightResponse> {
+    if (!options.start_date || !options.end_date) {
+      return Promise.resolve({ grouping: undefined, data: [] });
+    }
+
+    const baseUrl = await this.getBaseUrl();
+    const url = generateEventsUrl(`${baseUrl}/events`, options);
+
+    const response = await this.fetchApi.fetch(url);
+
+    validateResponse(response, `insight ${options.insight}`);
+
+    const data = await response.json();
+    return data as CustomInsightResponse;
+  }
+
   async downloadBlob(options: APIsViewOptions): Promise<void> {
     const baseUrl = await this.getBaseUrl();
     const response = await this.fetchApi.fetch(
-      `${baseUrl}/events?type=${options.type}&start_date=${options.start_date}&end_date=${options.end_date}&format=${options.format}&timezone=${options.timezone}`,
+      `${baseUrl}/events?type=${options.type}&start_date=${
+        options.start_date
+      }&end_date=${options.end_date}&format=${options.format}&timezone=${
+        options.timezone
+      }${options.group ? `&group=${encodeURIComponent(options.group)}` : ''}`,
     );
     const blob = await response.blob();
     const blobUrl = window.URL.createObjectURL(blob);
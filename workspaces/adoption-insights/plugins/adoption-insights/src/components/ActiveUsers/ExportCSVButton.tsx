@@ -29,7 +29,7 @@ import { useTranslation } from '../../hooks/useTranslation';
 const ExportCSVButton = () => {
   const [loading, setLoading] = useState(false);
   const api = useApi(adoptionInsightsApiRef);
-  const { startDateRange, endDateRange } = useDateRange();
+  const { startDateRange, endDateRange, group } = useDateRange();
   const theme = useTheme();
   const { t } = useTranslation();
   const debounceRef = useRef<NodeJS.Timeout | null>(null);
@@ -44,6 +44,7 @@ const ExportCSVButton = () => {
           : undefined,
         end_date: endDateRange ? format(endDateRange, 'yyyy-MM-dd') : undefined,
         timezone: new Intl.DateTimeFormat().resolvedOptions().timeZone,
+        group,
         format: 'csv',
         blobName: `${t('common.csvFilename')}_${timestamp}.csv`,
       });
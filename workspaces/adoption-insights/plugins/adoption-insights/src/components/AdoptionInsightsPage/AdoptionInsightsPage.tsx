@@ -13,6 +13,8 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
+import type { ReactNode } from 'react';
+
 import { Content, Page } from '@backstage/core-components';
 import Masonry from '@mui/lab/Masonry';
 import useMediaQuery from '@mui/material/useMediaQuery';
@@ -26,12 +28,26 @@ import ActiveUsers from '../ActiveUsers';
 import Plugins from '../Plugins';
 import Searches from '../Searches';
 import Users from '../Users';
+import UserJourneys from '../UserJourneys';
 import { DateRangeProvider } from '../Header/DateRangeContext';
 import { useAdoptionInsightsEventsReadPermission } from '../../hooks/useAdoptionInsightsEventsReadPermission';
 import PermissionRequiredState from '../Common/PermissionRequiredState';
 import { useTranslation } from '../../hooks/useTranslation';
 
-export const AdoptionInsightsPage = () => {
+/**
+ * Props of the {@link AdoptionInsightsPage}
+ * @public
+ */
+export type AdoptionInsightsPageProps = {
+  /**
+   * Additional cards, e.g. {@link CustomInsightCard}, rendered after the built-in cards.
+   */
+  children?: ReactNode;
+};
+
+export const AdoptionInsightsPage = ({
+  children,
+}: AdoptionInsightsPageProps) => {
   const theme = useTheme();
   const isSmallScreen = useMediaQuery(theme.breakpoints.down('sm'));
   const isMediumScreen = useMediaQuery(theme.breakpoints.between('sm', 'md'));
@@ -69,6 +85,8 @@ export const AdoptionInsightsPage = () => {
               <Plugins />
               <Techdocs />
               <Searches />
+              <UserJourneys />
+              {children}
             </Masonry>
           </Content>
         </DateRangeProvider>
@@ -78,6 +78,11 @@ jest.mock('../../Searches', () => ({
   default: () => <div data-testid="mock-searches">Searches</div>,
 }));
 
+jest.mock('../../UserJourneys', () => ({
+  __esModule: true,
+  default: () => <div data-testid="mock-user-journeys">UserJourneys</div>,
+}));
+
 jest.mock('../../Users', () => ({
   __esModule: true,
   default: () => <div data-testid="mock-users">Users</div>,
@@ -176,6 +181,23 @@ describe('AdoptionInsightsPage', () => {
       expect(screen.getByTestId('mock-plugins')).toBeInTheDocument();
       expect(screen.getByTestId('mock-techdocs')).toBeInTheDocument();
       expect(screen.getByTestId('mock-searches')).toBeInTheDocument();
+      expect(screen.getByTestId('mock-user-journeys')).toBeInTheDocument();
+    });
+  });
+
+  it('should display additional cards passed as children', async () => {
+    mockUsePermission.mockReturnValue({ loading: false, allowed: true });
+
+    await renderInTestApp(
+      <TestApiProvider apis={[[identityApiRef, identityApi]]}>
+        <AdoptionInsightsPage>
+          <div data-testid="mock-custom-card">Custom card</div>
+        </AdoptionInsightsPage>
+      </TestApiProvider>,
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('mock-custom-card')).toBeInTheDocument();
     });
   });
 });
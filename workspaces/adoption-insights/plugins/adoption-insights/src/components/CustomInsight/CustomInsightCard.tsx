@@ -0,0 +1,197 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { ResponseErrorPanel } from '@backstage/core-components';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import CircularProgress from '@mui/material/CircularProgress';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import { useTheme } from '@mui/material/styles';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+
+import CardWrapper from '../CardWrapper';
+import CustomCursor from '../Common/CustomCursor';
+import EmptyChartState from '../Common/EmptyChartState';
+import ChartTooltip from '../Common/ChartTooltip';
+import { useCustomInsight } from '../../hooks/useCustomInsight';
+import { useTranslation } from '../../hooks/useTranslation';
+import { useLanguage } from '../../hooks/useLanguage';
+import {
+  formatNumber,
+  getXAxisformat,
+  getXAxisTickValues,
+} from '../../utils/utils';
+
+/**
+ * Props of the {@link CustomInsightCard}
+ * @public
+ */
+export type CustomInsightCardProps = {
+  /**
+   * Name of the insight query registered in the backend.
+   */
+  insight: string;
+  title: string;
+  /**
+   * Number of values of the breakdown, defaults to 5.
+   */
+  limit?: number;
+};
+
+export const CustomInsightCard = ({
+  insight,
+  title,
+  limit,
+}: CustomInsightCardProps) => {
+  const theme = useTheme();
+  const isDarkMode = theme.palette.mode === 'dark';
+  const { t } = useTranslation();
+  const locale = useLanguage();
+
+  const { customInsight, loading, error } = useCustomInsight({
+    insight,
+    limit,
+  });
+  const {
+    data,
+    grouping = 'daily',
+    total = 0,
+    users = 0,
+    breakdown = [],
+  } = customInsight;
+
+  if (error) {
+    return (
+      <CardWrapper title={title}>
+        <ResponseErrorPanel error={error} />
+      </CardWrapper>
+    );
+  }
+
+  if (!loading && !total) {
+    return (
+      <CardWrapper title={title}>
+        <Box
+          display="flex"
+          justifyContent="center"
+          alignItems="center"
+          minHeight={80}
+        >
+          <EmptyChartState />
+        </Box>
+      </CardWrapper>
+    );
+  }
+
+  return (
+    <CardWrapper title={title}>
+      {loading ? (
+        <Box
+          display="flex"
+          justifyContent="center"
+          alignItems="center"
+          height={200}
+        >
+          <CircularProgress />
+        </Box>
+      ) : (
+        <>
+          <Typography style={{ margin: '20px 36px' }}>
+            {t('customInsight.summary' as any, {
+              total: total.toLocaleString('en-US'),
+              users: users.toLocaleString('en-US'),
+            })}
+          </Typography>
+          <Box sx={{ height: 310, mt: 4, mb: 4, ml: 0, mr: 0 }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart
+                data={data}
+                margin={{ top: 10, right: 50, left: 20, bottom: 0 }}
+              >
+                <CartesianGrid
+                  stroke={isDarkMode ? '#666' : '#E5E7EB'}
+                  strokeDasharray={0}
+                  vertical={false}
+                />
+                <XAxis
+                  dataKey="date"
+                  tickFormatter={date => getXAxisformat(date, grouping, locale)}
+                  ticks={getXAxisTickValues(data, grouping)}
+                  tick={{ fill: theme.palette.text.primary }}
+                  axisLine={false}
+                  tickLine={false}
+                  padding={{ left: 30, right: 30 }}
+                  tickMargin={10}
+                />
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  tick={{ fill: theme.palette.text.primary }}
+                  tickFormatter={value => formatNumber(value, {}, locale)}
+                  tickMargin={20}
+                />
+                <Tooltip
+                  cursor={<CustomCursor cursorHeight={280} />}
+                  content={<ChartTooltip grouping={grouping} />}
+                />
+                <Line
+                  type="linear"
+                  dataKey="count"
+                  stroke="#00838F"
+                  strokeWidth={1.5}
+                  dot={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </Box>
+          {breakdown.length > 0 && (
+            <Table aria-label={t('customInsight.breakdown')}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('customInsight.value')}</TableCell>
+                  <TableCell align="right">
+                    {t('customInsight.events')}
+                  </TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {breakdown.map(row => (
+                  <TableRow key={row.value}>
+                    <TableCell>{row.value || '-'}</TableCell>
+                    <TableCell align="right">
+                      {Number(row.count).toLocaleString('en-US')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </>
+      )}
+    </CardWrapper>
+  );
+};
@@ -0,0 +1,110 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { render, screen, cleanup } from '@testing-library/react';
+
+import {
+  mockUseTranslation,
+  mockUseLanguage,
+} from '../../../test-utils/mockTranslations';
+
+import { CustomInsightCard } from '../CustomInsightCard';
+import { useCustomInsight } from '../../../hooks/useCustomInsight';
+
+jest.mock('../../../hooks/useTranslation', () => ({
+  useTranslation: mockUseTranslation,
+}));
+
+jest.mock('../../../hooks/useLanguage', () => ({
+  useLanguage: mockUseLanguage,
+}));
+
+jest.mock('../../../hooks/useCustomInsight', () => ({
+  useCustomInsight: jest.fn(),
+}));
+
+describe('CustomInsightCard Component', () => {
+  beforeAll(() => {
+    global.ResizeObserver = jest.fn(() => ({
+      observe: jest.fn(),
+      unobserve: jest.fn(),
+      disconnect: jest.fn(),
+    }));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    cleanup();
+  });
+
+  it('should request the insight of the card', () => {
+    (useCustomInsight as jest.Mock).mockReturnValue({
+      customInsight: { data: [] },
+      loading: true,
+    });
+    render(
+      <CustomInsightCard
+        insight="lightspeed_questions"
+        title="Questions asked"
+        limit={3}
+      />,
+    );
+
+    expect(useCustomInsight).toHaveBeenCalledWith({
+      insight: 'lightspeed_questions',
+      limit: 3,
+    });
+    expect(screen.getByText('Questions asked')).toBeInTheDocument();
+    expect(screen.getByRole('progressbar')).toBeInTheDocument();
+  });
+
+  it('should render no results message when no events matched', () => {
+    (useCustomInsight as jest.Mock).mockReturnValue({
+      customInsight: { data: [], total: 0 },
+      loading: false,
+    });
+    render(
+      <CustomInsightCard insight="lightspeed_questions" title="Questions" />,
+    );
+
+    expect(
+      screen.getByText('No results for this date range.'),
+    ).toBeInTheDocument();
+  });
+
+  it('should render the totals and the breakdown', () => {
+    (useCustomInsight as jest.Mock).mockReturnValue({
+      customInsight: {
+        grouping: 'daily',
+        total: 1200,
+        users: 35,
+        data: [{ date: '2025-03-02', count: 1200 }],
+        breakdown: [
+          { value: 'granite', count: 1000 },
+          { value: 'llama', count: 200 },
+        ],
+      },
+      loading: false,
+    });
+    render(
+      <CustomInsightCard insight="lightspeed_questions" title="Questions" />,
+    );
+
+    expect(screen.getByText('1,200 events from 35 users')).toBeInTheDocument();
+    expect(screen.getByText('granite')).toBeInTheDocument();
+    expect(screen.getByText('1,000')).toBeInTheDocument();
+    expect(screen.getByText('llama')).toBeInTheDocument();
+  });
+});
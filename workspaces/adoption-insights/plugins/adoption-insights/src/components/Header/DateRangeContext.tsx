@@ -23,6 +23,8 @@ interface DateRange {
   setEndDateRange: (date: Date | null) => void;
   isDefaultDateRange: boolean;
   setIsDefaultDateRange: (val: boolean) => void;
+  group: string | undefined;
+  setGroup: (group: string | undefined) => void;
 }
 
 export const DateRangeContext = createContext<DateRange | undefined>(
@@ -35,6 +37,7 @@ export const DateRangeProvider: FC<{ children: ReactNode }> = ({
   const [startDateRange, setStartDateRange] = useState<Date | null>(null);
   const [endDateRange, setEndDateRange] = useState<Date | null>(null);
   const [isDefaultDateRange, setIsDefaultDateRange] = useState<boolean>(true);
+  const [group, setGroup] = useState<string | undefined>(undefined);
 
   const value = useMemo(
     () => ({
@@ -44,8 +47,10 @@ export const DateRangeProvider: FC<{ children: ReactNode }> = ({
       setStartDateRange,
       setEndDateRange,
       setIsDefaultDateRange,
+      group,
+      setGroup,
     }),
-    [startDateRange, endDateRange, isDefaultDateRange],
+    [startDateRange, endDateRange, isDefaultDateRange, group],
   );
 
   return (
@@ -0,0 +1,91 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { useApi } from '@backstage/core-plugin-api';
+import { stringifyEntityRef } from '@backstage/catalog-model';
+import { catalogApiRef } from '@backstage/plugin-catalog-react';
+import MenuItem from '@mui/material/MenuItem';
+import Select, { SelectChangeEvent } from '@mui/material/Select';
+import { useAsync } from 'react-use';
+
+import { useDateRange } from './DateRangeContext';
+import { useTranslation } from '../../hooks/useTranslation';
+
+const GroupPicker = () => {
+  const catalogApi = useApi(catalogApiRef);
+  const { group, setGroup } = useDateRange();
+  const { t } = useTranslation();
+
+  const { value: groups = [] } = useAsync(async () => {
+    const { items } = await catalogApi.getEntities({
+      filter: { kind: 'Group' },
+      fields: [
+        'kind',
+        'metadata.name',
+        'metadata.namespace',
+        'metadata.title',
+        'spec.profile.displayName',
+      ],
+    });
+
+    return items
+      .map(entity => ({
+        ref: stringifyEntityRef(entity),
+        title:
+          entity.metadata.title ??
+          (entity.spec?.profile as { displayName?: string } | undefined)
+            ?.displayName ??
+          entity.metadata.name,
+      }))
+      .sort((a, b) => a.title.localeCompare(b.title));
+  }, [catalogApi]);
+
+  return (
+    <Select
+      displayEmpty
+      value={group ?? ''}
+      onChange={(event: SelectChangeEvent<string>) =>
+        setGroup(event.target.value || undefined)
+      }
+      inputProps={{ 'aria-label': t('header.group.title') }}
+      sx={{
+        minWidth: 190,
+        marginRight: '10px',
+      }}
+      MenuProps={{
+        PaperProps: {
+          sx: {
+            minWidth: 190,
+            maxHeight: 400,
+            boxShadow: '0px 4px 10px rgba(0, 0, 0, 0.2)',
+            border: theme => `1px solid ${theme.palette.grey[300]}`,
+          },
+          disableScrollLock: true,
+        },
+      }}
+    >
+      <MenuItem value="" sx={{ height: '52px' }}>
+        {t('header.group.all')}
+      </MenuItem>
+      {groups.map(option => (
+        <MenuItem key={option.ref} value={option.ref} sx={{ height: '52px' }}>
+          {option.title}
+        </MenuItem>
+      ))}
+    </Select>
+  );
+};
+
+export default GroupPicker;
@@ -25,6 +25,7 @@ import Box from '@mui/material/Box';
 import Button from '@mui/material/Button';
 
 import DateRangePicker from './DateRangePicker';
+import GroupPicker from './GroupPicker';
 import { useDateRange } from './DateRangeContext';
 import { DATE_RANGE_OPTIONS } from '../../utils/constants';
 import { subDays } from 'date-fns';
@@ -131,6 +132,7 @@ const InsightsHeader: FC<InsightsHeaderProps> = () => {
 
   return (
     <Header title={t('header.title')} pageTitleOverride={t('header.title')}>
+      <GroupPicker />
       <Select
         displayEmpty
         open={menuOpen}
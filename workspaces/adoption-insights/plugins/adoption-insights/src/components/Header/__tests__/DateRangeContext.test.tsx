@@ -83,6 +83,29 @@ describe('DateRangeContext', () => {
     expect(contextValue.endDateRange).toEqual(new Date('2025-03-05'));
   });
 
+  it('should update group correctly', () => {
+    let contextValue: any;
+
+    const TestComponent = () => {
+      contextValue = useDateRange();
+      return <div>Test Component</div>;
+    };
+
+    render(
+      <DateRangeProvider>
+        <TestComponent />
+      </DateRangeProvider>,
+    );
+
+    expect(contextValue.group).toBeUndefined();
+
+    act(() => {
+      contextValue.setGroup('group:default/team-a');
+    });
+
+    expect(contextValue.group).toBe('group:default/team-a');
+  });
+
   it('should throw an error if useDateRange is used outside the provider', () => {
     const TestComponent = () => {
       useDateRange();
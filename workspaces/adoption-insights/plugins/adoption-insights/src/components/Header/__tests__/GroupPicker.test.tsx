@@ -0,0 +1,118 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ThemeProvider, createTheme } from '@mui/material/styles';
+
+import { mockUseTranslation } from '../../../test-utils/mockTranslations';
+
+import GroupPicker from '../GroupPicker';
+
+jest.mock('../../../hooks/useTranslation', () => ({
+  useTranslation: mockUseTranslation,
+}));
+
+const mockGetEntities = jest.fn();
+
+jest.mock('@backstage/core-plugin-api', () => ({
+  ...jest.requireActual('@backstage/core-plugin-api'),
+  useApi: () => ({ getEntities: mockGetEntities }),
+}));
+
+const mockSetGroup = jest.fn();
+let mockGroup: string | undefined;
+
+jest.mock('../DateRangeContext', () => ({
+  useDateRange: () => ({
+    group: mockGroup,
+    setGroup: mockSetGroup,
+  }),
+}));
+
+describe('GroupPicker', () => {
+  const theme = createTheme();
+  const user = userEvent.setup();
+
+  const renderComponent = () =>
+    render(
+      <ThemeProvider theme={theme}>
+        <GroupPicker />
+      </ThemeProvider>,
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGroup = undefined;
+    mockGetEntities.mockResolvedValue({
+      items: [
+        {
+          apiVersion: 'backstage.io/v1alpha1',
+          kind: 'Group',
+          metadata: { name: 'team-b', namespace: 'default' },
+        },
+        {
+          apiVersion: 'backstage.io/v1alpha1',
+          kind: 'Group',
+          metadata: { name: 'team-a', namespace: 'default' },
+          spec: { profile: { displayName: 'Team A' } },
+        },
+      ],
+    });
+  });
+
+  it('should show all groups by default', async () => {
+    renderComponent();
+
+    expect(screen.getByText('All groups')).toBeInTheDocument();
+    await waitFor(() =>
+      expect(mockGetEntities).toHaveBeenCalledWith(
+        expect.objectContaining({ filter: { kind: 'Group' } }),
+      ),
+    );
+  });
+
+  it('should list the catalog groups sorted by title', async () => {
+    renderComponent();
+    await user.click(screen.getByRole('combobox'));
+    await screen.findByRole('option', { name: 'Team A' });
+
+    const options = screen.getAllByRole('option');
+    expect(options.map(option => option.textContent)).toEqual([
+      'All groups',
+      'Team A',
+      'team-b',
+    ]);
+  });
+
+  it('should set the selected group', async () => {
+    renderComponent();
+    await user.click(screen.getByRole('combobox'));
+    await screen.findByRole('option', { name: 'Team A' });
+    await user.click(screen.getByRole('option', { name: 'Team A' }));
+
+    expect(mockSetGroup).toHaveBeenCalledWith('group:default/team-a');
+  });
+
+  it('should clear the group when all groups is selected', async () => {
+    mockGroup = 'group:default/team-a';
+    renderComponent();
+    await user.click(screen.getByRole('combobox'));
+    await screen.findByRole('option', { name: 'Team A' });
+    await user.click(screen.getByRole('option', { name: 'All groups' }));
+
+    expect(mockSetGroup).toHaveBeenCalledWith(undefined);
+  });
+});
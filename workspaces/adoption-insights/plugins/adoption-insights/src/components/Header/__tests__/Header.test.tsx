@@ -54,6 +54,11 @@ jest.mock('../DateRangePicker', () => ({
   default: () => <div data-testid="date-range-picker">DateRangePicker</div>,
 }));
 
+jest.mock('../GroupPicker', () => ({
+  __esModule: true,
+  default: () => <div data-testid="group-picker">GroupPicker</div>,
+}));
+
 jest.mock('../../../utils/constants', () => ({
   DATE_RANGE_OPTIONS: [
     { value: 'today', labelKey: 'header.dateRange.today' },
@@ -110,6 +115,11 @@ describe('InsightsHeader', () => {
     expect(screen.getByText('Adoption Insights')).toBeInTheDocument();
   });
 
+  it('should render the group picker', () => {
+    renderComponent();
+    expect(screen.getByTestId('group-picker')).toBeInTheDocument();
+  });
+
   it('should initialize with default date range', () => {
     renderComponent();
     expect(mockSetStartDateRange).toHaveBeenCalled();
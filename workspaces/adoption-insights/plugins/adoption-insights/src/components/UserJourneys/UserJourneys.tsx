@@ -0,0 +1,157 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { useMemo } from 'react';
+
+import { ResponseErrorPanel } from '@backstage/core-components';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import LinearProgress from '@mui/material/LinearProgress';
+import CircularProgress from '@mui/material/CircularProgress';
+import { useTheme } from '@mui/material/styles';
+import {
+  Layer,
+  Rectangle,
+  ResponsiveContainer,
+  Sankey,
+  Tooltip,
+} from 'recharts';
+
+import CardWrapper from '../CardWrapper';
+import EmptyChartState from '../Common/EmptyChartState';
+import { useUserJourneys } from '../../hooks/useUserJourneys';
+import { useTranslation } from '../../hooks/useTranslation';
+import { getJourneySankeyData } from '../../utils/utils';
+
+const SankeyNode = ({ x, y, width, height, payload, fill }: any) => (
+  <Layer>
+    <Rectangle x={x} y={y} width={width} height={height} fill="#00838F" />
+    <text
+      x={x + width + 6}
+      y={y + height / 2}
+      dominantBaseline="middle"
+      fontSize={12}
+      fill={fill}
+    >
+      {payload.name}
+    </text>
+  </Layer>
+);
+
+const UserJourneys = () => {
+  const theme = useTheme();
+  const { t } = useTranslation();
+
+  const { userJourneys, loading, error } = useUserJourneys({ limit: 10 });
+  const { data, funnel = [], total_sessions: totalSessions } = userJourneys;
+
+  const sankeyData = useMemo(() => getJourneySankeyData(data ?? []), [data]);
+
+  if (error) {
+    return (
+      <CardWrapper title={t('userJourneys.title')}>
+        <ResponseErrorPanel error={error} />
+      </CardWrapper>
+    );
+  }
+
+  if (!loading && !totalSessions) {
+    return (
+      <CardWrapper title={t('userJourneys.title')}>
+        <Box
+          display="flex"
+          justifyContent="center"
+          alignItems="center"
+          minHeight={80}
+        >
+          <EmptyChartState />
+        </Box>
+      </CardWrapper>
+    );
+  }
+
+  return (
+    <CardWrapper title={t('userJourneys.title')}>
+      {loading ? (
+        <Box
+          display="flex"
+          justifyContent="center"
+          alignItems="center"
+          height={200}
+        >
+          <CircularProgress />
+        </Box>
+      ) : (
+        <Box sx={{ p: 3 }}>
+          <Typography sx={{ mb: 3 }}>
+            {t('userJourneys.sessions' as any, {
+              count: (totalSessions ?? 0).toLocaleString('en-US'),
+            })}
+          </Typography>
+          <Typography variant="h6" sx={{ mb: 2 }}>
+            {t('userJourneys.funnel')}
+          </Typography>
+          {funnel.map((step, index) => (
+            <Box key={step.path} sx={{ mb: 2 }}>
+              <Box display="flex" justifyContent="space-between">
+                <Typography>{step.title}</Typography>
+                <Typography fontWeight="bold">
+                  {step.count.toLocaleString('en-US')}
+                </Typography>
+              </Box>
+              <LinearProgress
+                variant="determinate"
+                value={step.conversion_rate}
+                aria-label={step.title}
+                sx={{ height: 8, borderRadius: 4, my: 1 }}
+              />
+              <Typography variant="body2" color="text.secondary">
+                {t('userJourneys.conversionRate' as any, {
+                  rate: step.conversion_rate.toString(),
+                })}
+                {index > 0 &&
+                  ` · ${t('userJourneys.dropOff' as any, {
+                    count: step.drop_off.toLocaleString('en-US'),
+                  })}`}
+              </Typography>
+            </Box>
+          ))}
+          {sankeyData.links.length > 0 && (
+            <>
+              <Typography variant="h6" sx={{ mt: 4, mb: 2 }}>
+                {t('userJourneys.topPaths')}
+              </Typography>
+              <Box sx={{ height: 310 }}>
+                <ResponsiveContainer width="100%" height="100%">
+                  <Sankey
+                    data={sankeyData}
+                    nodePadding={30}
+                    margin={{ top: 10, right: 100, left: 10, bottom: 10 }}
+                    node={<SankeyNode fill={theme.palette.text.primary} />}
+                    link={{ stroke: theme.palette.grey[400] }}
+                  >
+                    <Tooltip />
+                  </Sankey>
+                </ResponsiveContainer>
+              </Box>
+            </>
+          )}
+        </Box>
+      )}
+    </CardWrapper>
+  );
+};
+
+export default UserJourneys;
@@ -0,0 +1,117 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { render, screen, cleanup } from '@testing-library/react';
+
+import { mockUseTranslation } from '../../../test-utils/mockTranslations';
+
+import UserJourneys from '../UserJourneys';
+import { useUserJourneys } from '../../../hooks/useUserJourneys';
+
+jest.mock('../../../hooks/useTranslation', () => ({
+  useTranslation: mockUseTranslation,
+}));
+
+jest.mock('../../../hooks/useUserJourneys', () => ({
+  useUserJourneys: jest.fn(),
+}));
+
+jest.mock('recharts', () => ({
+  ResponsiveContainer: ({ children }: any) => <div>{children}</div>,
+  Sankey: ({ data }: any) => (
+    <div data-testid="sankey">
+      {data.nodes.map((node: any) => node.name).join(' > ')}
+    </div>
+  ),
+  Tooltip: () => null,
+  Layer: () => null,
+  Rectangle: () => null,
+}));
+
+const funnel = [
+  {
+    title: 'Open template list',
+    path: '/create',
+    count: 10,
+    conversion_rate: 100,
+    drop_off: 0,
+  },
+  {
+    title: 'Choose template',
+    path: '/create/templates/*/*',
+    count: 4,
+    conversion_rate: 40,
+    drop_off: 6,
+  },
+];
+
+describe('UserJourneys Component', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+    cleanup();
+  });
+
+  it('should render no results message when there are no sessions', () => {
+    (useUserJourneys as jest.Mock).mockReturnValue({
+      userJourneys: { data: [] },
+      loading: false,
+    });
+    render(<UserJourneys />);
+    expect(
+      screen.getByText('No results for this date range.'),
+    ).toBeInTheDocument();
+  });
+
+  it('should render the loading state', () => {
+    (useUserJourneys as jest.Mock).mockReturnValue({
+      userJourneys: { data: [] },
+      loading: true,
+    });
+    render(<UserJourneys />);
+    expect(screen.getByRole('progressbar')).toBeInTheDocument();
+  });
+
+  it('should render the funnel steps and conversion rates', () => {
+    (useUserJourneys as jest.Mock).mockReturnValue({
+      userJourneys: { total_sessions: 12, funnel, data: [] },
+      loading: false,
+    });
+    render(<UserJourneys />);
+    expect(screen.getByText('12 sessions')).toBeInTheDocument();
+    expect(screen.getByText('Open template list')).toBeInTheDocument();
+    expect(screen.getByText('Choose template')).toBeInTheDocument();
+    expect(screen.getByText('100% conversion')).toBeInTheDocument();
+    expect(
+      screen.getByText('40% conversion · 6 dropped off'),
+    ).toBeInTheDocument();
+    expect(screen.queryByTestId('sankey')).not.toBeInTheDocument();
+  });
+
+  it('should render the top paths', () => {
+    (useUserJourneys as jest.Mock).mockReturnValue({
+      userJourneys: {
+        total_sessions: 12,
+        funnel,
+        data: [{ steps: ['catalog', 'scaffolder'], count: 5 }],
+      },
+      loading: false,
+    });
+    render(<UserJourneys />);
+    expect(screen.getByText('Top paths')).toBeInTheDocument();
+    expect(screen.getByTestId('sankey')).toHaveTextContent(
+      'catalog > scaffolder',
+    );
+  });
+});
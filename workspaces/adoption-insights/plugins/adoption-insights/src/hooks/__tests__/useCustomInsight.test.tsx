@@ -0,0 +1,97 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { renderHook, waitFor } from '@testing-library/react';
+import { useApi } from '@backstage/core-plugin-api';
+
+import { useDateRange } from '../../components/Header/DateRangeContext';
+import { useCustomInsight } from '../useCustomInsight';
+
+jest.mock('@backstage/core-plugin-api', () => ({
+  useApi: jest.fn(),
+}));
+
+jest.mock('../../components/Header/DateRangeContext', () => ({
+  useDateRange: jest.fn(),
+}));
+
+jest.mock('../../api', () => ({
+  adoptionInsightsApiRef: {
+    getCustomInsight: jest.fn().mockResolvedValue({ data: [] }),
+  },
+}));
+
+describe('useCustomInsight', () => {
+  const mockApi = {
+    getCustomInsight: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (useApi as jest.Mock).mockReturnValue(mockApi);
+    (useDateRange as jest.Mock).mockReturnValue({
+      startDateRange: new Date('2025-03-01'),
+      endDateRange: new Date('2025-03-08'),
+    });
+  });
+
+  it('should return loading state initially', async () => {
+    mockApi.getCustomInsight.mockResolvedValueOnce({ data: [] });
+
+    const { result } = renderHook(() =>
+      useCustomInsight({ insight: 'lightspeed_questions' }),
+    );
+    expect(result.current.loading).toBe(true);
+  });
+
+  it('should request the insight and return its data', async () => {
+    const mockResponse = {
+      grouping: 'daily',
+      total: 3,
+      users: 2,
+      data: [{ date: '2025-03-02', count: 3 }],
+      breakdown: [{ value: 'granite', count: 3 }],
+    };
+    mockApi.getCustomInsight.mockResolvedValueOnce(mockResponse);
+
+    const { result } = renderHook(() =>
+      useCustomInsight({ insight: 'lightspeed_questions' }),
+    );
+    await waitFor(() => {
+      expect(result.current.customInsight).toEqual(mockResponse);
+      expect(result.current.loading).toBe(false);
+    });
+    expect(mockApi.getCustomInsight).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'custom',
+        insight: 'lightspeed_questions',
+        limit: 5,
+      }),
+    );
+  });
+
+  it('should handle API failure', async () => {
+    const mockError = new Error('API Error');
+    mockApi.getCustomInsight.mockRejectedValueOnce(mockError);
+
+    const { result } = renderHook(() =>
+      useCustomInsight({ insight: 'lightspeed_questions' }),
+    );
+    await waitFor(() => {
+      expect(result.current.error).toEqual(mockError);
+      expect(result.current.loading).toBe(false);
+    });
+  });
+});
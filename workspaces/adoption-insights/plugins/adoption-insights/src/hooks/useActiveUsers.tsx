@@ -35,7 +35,7 @@ export const useActiveUsers = (): {
     data: [],
   });
 
-  const { startDateRange, endDateRange } = useDateRange();
+  const { startDateRange, endDateRange, group } = useDateRange();
   const grouping = determineGrouping(startDateRange, endDateRange);
 
   const api = useApi(adoptionInsightsApiRef);
@@ -52,12 +52,13 @@ export const useActiveUsers = (): {
           ? formatInTimeZone(endDateRange, timezone, 'yyyy-MM-dd')
           : undefined,
         timezone,
+        group,
         grouping,
       })
       .then(response =>
         setActiveUsers(response ?? { grouping: undefined, data: [] }),
       );
-  }, [api, startDateRange, endDateRange, grouping]);
+  }, [api, startDateRange, endDateRange, grouping, group]);
 
   const { error, loading } = useAsyncRetry(async () => {
     return await getActiveUsers();
@@ -36,7 +36,7 @@ export const useCatalogEntities = ({
   const [catalogEntities, setCatalogEntities] =
     useState<CatalogEntitiesResponse>({ data: [] });
 
-  const { startDateRange, endDateRange } = useDateRange();
+  const { startDateRange, endDateRange, group } = useDateRange();
 
   const api = useApi(adoptionInsightsApiRef);
 
@@ -50,13 +50,14 @@ export const useCatalogEntities = ({
           : undefined,
         end_date: endDateRange ? format(endDateRange, 'yyyy-MM-dd') : undefined,
         timezone,
+        group,
         limit,
         kind,
       })
       .then((response: CatalogEntitiesResponse) =>
         setCatalogEntities(response ?? { data: [] }),
       );
-  }, [api, kind, limit, startDateRange, endDateRange]);
+  }, [api, kind, limit, startDateRange, endDateRange, group]);
 
   const { error, loading } = useAsyncRetry(async () => {
     return await getCatalogEntities();
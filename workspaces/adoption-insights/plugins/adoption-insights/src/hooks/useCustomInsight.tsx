@@ -0,0 +1,82 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { useState, useCallback, useEffect } from 'react';
+
+import { useApi } from '@backstage/core-plugin-api';
+import { useAsyncRetry } from 'react-use';
+import { format } from 'date-fns';
+
+import { adoptionInsightsApiRef } from '../api';
+import { APIsViewOptions, CustomInsightResponse } from '../types';
+import { useDateRange } from '../components/Header/DateRangeContext';
+import { formatInTimeZone } from 'date-fns-tz';
+import { determineGrouping } from '../utils/utils';
+
+export const useCustomInsight = ({
+  insight,
+  limit = 5,
+}: APIsViewOptions): {
+  customInsight: CustomInsightResponse;
+  error: Error | undefined;
+  loading: boolean;
+} => {
+  const [loadingData, setLoadingData] = useState<boolean>(true);
+  const [customInsight, setCustomInsight] = useState<CustomInsightResponse>({
+    data: [],
+  });
+
+  const { startDateRange, endDateRange, group } = useDateRange();
+  const grouping = determineGrouping(startDateRange, endDateRange);
+
+  const api = useApi(adoptionInsightsApiRef);
+
+  const getCustomInsight = useCallback(async () => {
+    const timezone = new Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+    return await api
+      .getCustomInsight({
+        type: 'custom',
+        insight,
+        start_date: startDateRange
+          ? formatInTimeZone(startDateRange, timezone, 'yyyy-MM-dd')
+          : undefined,
+        end_date: endDateRange ? format(endDateRange, 'yyyy-MM-dd') : undefined,
+        timezone,
+        group,
+        grouping,
+        limit,
+      })
+      .then((response: CustomInsightResponse) =>
+        setCustomInsight(response ?? { data: [] }),
+      );
+  }, [api, insight, limit, startDateRange, endDateRange, grouping, group]);
+
+  const { error, loading } = useAsyncRetry(async () => {
+    return await getCustomInsight();
+  }, [getCustomInsight]);
+
+  useEffect(() => {
+    let mounted = true;
+    if (!loading && mounted) {
+      setLoadingData(false);
+    }
+    return () => {
+      mounted = false;
+    };
+  }, [loading]);
+
+  return { customInsight, error, loading: loadingData };
+};
@@ -37,7 +37,7 @@ export const usePlugins = ({
     data: [],
   });
 
-  const { startDateRange, endDateRange } = useDateRange();
+  const { startDateRange, endDateRange, group } = useDateRange();
   const grouping = determineGrouping(startDateRange, endDateRange);
 
   const api = useApi(adoptionInsightsApiRef);
@@ -52,11 +52,12 @@ export const usePlugins = ({
           : undefined,
         end_date: endDateRange ? format(endDateRange, 'yyyy-MM-dd') : undefined,
         timezone,
+        group,
         limit,
         grouping,
       })
       .then(response => setPlugins(response ?? { data: [] }));
-  }, [api, limit, startDateRange, endDateRange, grouping]);
+  }, [api, limit, startDateRange, endDateRange, grouping, group]);
 
   const { error, loading } = useAsyncRetry(async () => {
     return await getPlugins();
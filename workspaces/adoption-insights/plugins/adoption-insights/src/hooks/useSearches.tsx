@@ -35,7 +35,7 @@ export const useSearches = (): {
     data: [],
   });
 
-  const { startDateRange, endDateRange } = useDateRange();
+  const { startDateRange, endDateRange, group } = useDateRange();
   const grouping = determineGrouping(startDateRange, endDateRange);
 
   const api = useApi(adoptionInsightsApiRef);
@@ -50,13 +50,14 @@ export const useSearches = (): {
           : undefined,
         end_date: endDateRange ? format(endDateRange, 'yyyy-MM-dd') : undefined,
         timezone,
+        group,
         grouping,
         limit: 24,
       })
       .then(response =>
         setSearches(response ?? { grouping: undefined, data: [] }),
       );
-  }, [api, startDateRange, endDateRange, grouping]);
+  }, [api, startDateRange, endDateRange, grouping, group]);
 
   const { error, loading } = useAsyncRetry(async () => {
     return await getSearches();
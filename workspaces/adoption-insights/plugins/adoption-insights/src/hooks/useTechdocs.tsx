@@ -36,7 +36,7 @@ export const useTechdocs = ({
     data: [],
   });
 
-  const { startDateRange, endDateRange } = useDateRange();
+  const { startDateRange, endDateRange, group } = useDateRange();
 
   const api = useApi(adoptionInsightsApiRef);
 
@@ -51,10 +51,11 @@ export const useTechdocs = ({
           : undefined,
         end_date: endDateRange ? format(endDateRange, 'yyyy-MM-dd') : undefined,
         timezone: new Intl.DateTimeFormat().resolvedOptions().timeZone,
+        group,
         limit,
       })
       .then(response => setTechdocs(response ?? { data: [] }));
-  }, [api, limit, startDateRange, endDateRange]);
+  }, [api, limit, startDateRange, endDateRange, group]);
 
   const { error, loading } = useAsyncRetry(async () => {
     return await getTechdocs();
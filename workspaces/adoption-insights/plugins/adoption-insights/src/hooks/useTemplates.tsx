@@ -36,7 +36,7 @@ export const useTemplates = ({
     data: [],
   });
 
-  const { startDateRange, endDateRange } = useDateRange();
+  const { startDateRange, endDateRange, group } = useDateRange();
 
   const api = useApi(adoptionInsightsApiRef);
 
@@ -51,12 +51,13 @@ export const useTemplates = ({
           : undefined,
         end_date: endDateRange ? format(endDateRange, 'yyyy-MM-dd') : undefined,
         timezone,
+        group,
         limit,
       })
       .then((response: TemplatesResponse) =>
         setTemplates(response ?? { data: [] }),
       );
-  }, [api, limit, startDateRange, endDateRange]);
+  }, [api, limit, startDateRange, endDateRange, group]);
 
   const { error, loading } = useAsyncRetry(async () => {
     return await getTemplates();
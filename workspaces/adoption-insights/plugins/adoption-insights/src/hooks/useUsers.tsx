@@ -32,7 +32,7 @@ export const useUsers = (): {
   const [loadingData, setLoadingData] = useState<boolean>(true);
   const [users, setUsers] = useState<UsersResponse>({ data: [] });
 
-  const { startDateRange, endDateRange } = useDateRange();
+  const { startDateRange, endDateRange, group } = useDateRange();
 
   const api = useApi(adoptionInsightsApiRef);
 
@@ -47,9 +47,10 @@ export const useUsers = (): {
           : undefined,
         end_date: endDateRange ? format(endDateRange, 'yyyy-MM-dd') : undefined,
         timezone,
+        group,
       })
       .then(response => setUsers(response ?? { data: [] }));
-  }, [api, startDateRange, endDateRange]);
+  }, [api, startDateRange, endDateRange, group]);
 
   const { error, loading } = useAsyncRetry(async () => {
     return await getUsers();
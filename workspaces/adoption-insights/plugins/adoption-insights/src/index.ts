@@ -23,5 +23,7 @@ ClassNameGenerator.configure(componentName => {
 });
 
 export * from './plugin';
+export type { AdoptionInsightsPageProps } from './components/AdoptionInsightsPage/AdoptionInsightsPage';
+export type { CustomInsightCardProps } from './components/CustomInsight';
 
 export * from './alpha';
@@ -16,6 +16,7 @@
 import {
   configApiRef,
   createApiFactory,
+  createComponentExtension,
   createPlugin,
   createRoutableExtension,
   fetchApiRef,
@@ -63,6 +64,21 @@ export const AdoptionInsightsPage = adoptionInsightsPlugin.provide(
   }),
 );
 
+/**
+ * Card displaying an insight query registered by another plugin in the Adoption Insights backend.
+ * It can be added to the {@link AdoptionInsightsPage} as a child.
+ * @public
+ */
+export const CustomInsightCard = adoptionInsightsPlugin.provide(
+  createComponentExtension({
+    name: 'CustomInsightCard',
+    component: {
+      lazy: () =>
+        import('./components/CustomInsight').then(m => m.CustomInsightCard),
+    },
+  }),
+);
+
 /**
  * @public
  */
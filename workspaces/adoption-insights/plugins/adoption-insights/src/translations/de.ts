@@ -38,6 +38,8 @@ const adoptionInsightsTranslationDe = createTranslationMessages({
     'header.dateRange.title': 'Datumsbereich',
     'header.dateRange.startDate': 'Startdatum',
     'header.dateRange.endDate': 'Enddatum',
+    'header.group.title': 'Gruppe',
+    'header.group.all': 'Alle Gruppen',
     'activeUsers.title': 'Aktive Benutzer',
     'activeUsers.averagePrefix':
       'Durchschnittliche Spitzenanzahl aktiver Benutzer war',
@@ -70,6 +72,16 @@ const adoptionInsightsTranslationDe = createTranslationMessages({
     'searches.day': 'Tag',
     'searches.week': 'Woche',
     'searches.month': 'Monat',
+    'userJourneys.title': 'Benutzerpfade',
+    'userJourneys.sessions': '{{count}} Sitzungen',
+    'userJourneys.funnel': 'Trichter',
+    'userJourneys.conversionRate': '{{rate}} % Konversion',
+    'userJourneys.dropOff': '{{count}} abgesprungen',
+    'userJourneys.topPaths': 'Häufigste Pfade',
+    'customInsight.summary': '{{total}} Ereignisse von {{users}} Benutzern',
+    'customInsight.breakdown': 'Aufschlüsselung',
+    'customInsight.value': 'Wert',
+    'customInsight.events': 'Ereignisse',
     'users.title': 'Gesamtzahl der Benutzer',
     'users.haveLoggedIn': 'haben sich angemeldet',
     'users.loggedInUsers': 'Angemeldete Benutzer',
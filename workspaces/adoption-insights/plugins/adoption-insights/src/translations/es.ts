@@ -38,6 +38,8 @@ const adoptionInsightsTranslationEs = createTranslationMessages({
     'header.dateRange.title': 'Rango de fechas',
     'header.dateRange.startDate': 'Fecha de inicio',
     'header.dateRange.endDate': 'Fecha de fin',
+    'header.group.title': 'Grupo',
+    'header.group.all': 'Todos los grupos',
     'activeUsers.title': 'Usuarios Activos',
     'activeUsers.averagePrefix': 'El promedio de usuarios activos máximos fue',
     'activeUsers.averageText': '{{count}} por {{period}}',
@@ -69,6 +71,16 @@ const adoptionInsightsTranslationEs = createTranslationMessages({
     'searches.day': 'día',
     'searches.week': 'semana',
     'searches.month': 'mes',
+    'userJourneys.title': 'Recorridos de usuario',
+    'userJourneys.sessions': '{{count}} sesiones',
+    'userJourneys.funnel': 'Embudo',
+    'userJourneys.conversionRate': '{{rate}} % de conversión',
+    'userJourneys.dropOff': '{{count}} abandonos',
+    'userJourneys.topPaths': 'Rutas principales',
+    'customInsight.summary': '{{total}} eventos de {{users}} usuarios',
+    'customInsight.breakdown': 'Desglose',
+    'customInsight.value': 'Valor',
+    'customInsight.events': 'Eventos',
     'users.title': 'Número total de usuarios',
     'users.haveLoggedIn': 'han iniciado sesión',
     'users.loggedInUsers': 'Usuarios conectados',
@@ -38,6 +38,8 @@ const adoptionInsightsTranslationFr = createTranslationMessages({
     'header.dateRange.title': 'Intervalle de temps',
     'header.dateRange.startDate': 'Date de départ',
     'header.dateRange.endDate': 'Date de fin',
+    'header.group.title': 'Groupe',
+    'header.group.all': 'Tous les groupes',
     'activeUsers.title': 'Utilisateurs actifs',
     'activeUsers.averagePrefix':
       "Le nombre moyen maximal d'utilisateurs actifs était de",
@@ -70,6 +72,16 @@ const adoptionInsightsTranslationFr = createTranslationMessages({
     'searches.day': 'jour',
     'searches.week': 'semaine',
     'searches.month': 'mois',
+    'userJourneys.title': 'Parcours utilisateur',
+    'userJourneys.sessions': '{{count}} sessions',
+    'userJourneys.funnel': 'Entonnoir',
+    'userJourneys.conversionRate': '{{rate}} % de conversion',
+    'userJourneys.dropOff': '{{count}} abandons',
+    'userJourneys.topPaths': 'Parcours principaux',
+    'customInsight.summary': '{{total}} événements de {{users}} utilisateurs',
+    'customInsight.breakdown': 'Répartition',
+    'customInsight.value': 'Valeur',
+    'customInsight.events': 'Événements',
     'users.title': "Nombre total d'utilisateurs",
     'users.haveLoggedIn': 'se sont connectés',
     'users.loggedInUsers': 'Utilisateurs connectés',
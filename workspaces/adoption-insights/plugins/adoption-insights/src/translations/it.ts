@@ -38,6 +38,8 @@ const adoptionInsightsTranslationIt = createTranslationMessages({
     'header.dateRange.title': 'Intervallo di date',
     'header.dateRange.startDate': 'Data di inizio',
     'header.dateRange.endDate': 'Data di fine',
+    'header.group.title': 'Gruppo',
+    'header.group.all': 'Tutti i gruppi',
     'activeUsers.title': 'Utenti attivi',
     'activeUsers.averagePrefix':
       'Il conteggio del picco medio di utenti attivi era',
@@ -71,6 +73,16 @@ const adoptionInsightsTranslationIt = createTranslationMessages({
     'searches.day': 'giorno',
     'searches.week': 'settimana',
     'searches.month': 'mese',
+    'userJourneys.title': 'Percorsi utente',
+    'userJourneys.sessions': '{{count}} sessioni',
+    'userJourneys.funnel': 'Funnel',
+    'userJourneys.conversionRate': '{{rate}}% di conversione',
+    'userJourneys.dropOff': '{{count}} abbandoni',
+    'userJourneys.topPaths': 'Percorsi principali',
+    'customInsight.summary': '{{total}} eventi da {{users}} utenti',
+    'customInsight.breakdown': 'Ripartizione',
+    'customInsight.value': 'Valore',
+    'customInsight.events': 'Eventi',
     'users.title': 'Numero totale di utenti',
     'users.haveLoggedIn': 'registrati',
     'users.loggedInUsers': 'Utenti registrati',
@@ -38,6 +38,8 @@ const adoptionInsightsTranslationJa = createTranslationMessages({
     'header.dateRange.title': '日付範囲',
     'header.dateRange.startDate': '開始日',
     'header.dateRange.endDate': '終了日',
+    'header.group.title': 'グループ',
+    'header.group.all': 'すべてのグループ',
     'activeUsers.title': 'アクティブユーザー',
     'activeUsers.averagePrefix': '平均ピークアクティブユーザー数は',
     'activeUsers.averageText': '{{period}} あたり {{count}}',
@@ -69,6 +71,17 @@ const adoptionInsightsTranslationJa = createTranslationMessages({
     'searches.day': '日',
     'searches.week': '週',
     'searches.month': '月',
+    'userJourneys.title': 'ユーザージャーニー',
+    'userJourneys.sessions': '{{count}} セッション',
+    'userJourneys.funnel': 'ファネル',
+    'userJourneys.conversionRate': 'コンバージョン率 {{rate}}%',
+    'userJourneys.dropOff': '{{count}} 件の離脱',
+    'userJourneys.topPaths': '上位のパス',
+    'customInsight.summary':
+      '{{users}} 人のユーザーから {{total}} 件のイベント',
+    'customInsight.breakdown': '内訳',
+    'customInsight.value': '値',
+    'customInsight.events': 'イベント',
     'users.title': '総ユーザー数',
     'users.haveLoggedIn': 'ログイン済み',
     'users.loggedInUsers': 'ログイン済みユーザー',
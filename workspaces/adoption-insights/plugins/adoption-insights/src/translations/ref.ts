@@ -41,6 +41,10 @@ export const adoptionInsightsMessages = {
       startDate: 'Start date',
       endDate: 'End date',
     },
+    group: {
+      title: 'Group',
+      all: 'All groups',
+    },
   },
   activeUsers: {
     title: 'Active users',
@@ -87,6 +91,20 @@ export const adoptionInsightsMessages = {
     week: 'week',
     month: 'month',
   },
+  userJourneys: {
+    title: 'User journeys',
+    sessions: '{{count}} sessions',
+    funnel: 'Funnel',
+    conversionRate: '{{rate}}% conversion',
+    dropOff: '{{count}} dropped off',
+    topPaths: 'Top paths',
+  },
+  customInsight: {
+    summary: '{{total}} events from {{users}} users',
+    breakdown: 'Breakdown',
+    value: 'Value',
+    events: 'Events',
+  },
   users: {
     title: 'Total number of users',
     haveLoggedIn: 'have logged in',
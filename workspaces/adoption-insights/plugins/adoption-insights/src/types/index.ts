@@ -27,6 +27,8 @@ export interface AdoptionInsightsApi {
   getActiveUsers(options: APIsViewOptions): Promise<ActiveUsersResponse>;
   getSearches(options: APIsViewOptions): Promise<SearchesResponse>;
   getUsers(options: APIsViewOptions): Promise<UsersResponse>;
+  getUserJourneys(options: APIsViewOptions): Promise<UserJourneysResponse>;
+  getCustomInsight(options: APIsViewOptions): Promise<CustomInsightResponse>;
 }
 
 export type APIsViewOptions = {
@@ -40,6 +42,8 @@ export type APIsViewOptions = {
   format?: string | null;
   blobName?: string;
   grouping?: string;
+  group?: string;
+  insight?: string;
 };
 
 /**
@@ -143,3 +147,38 @@ export type Users = {
 export type UsersResponse = {
   data: Users[];
 };
+
+/**
+ * User journeys
+ */
+export type JourneyPath = {
+  steps: string[];
+  count: number;
+};
+
+export type FunnelStep = {
+  title: string;
+  path: string;
+  count: number;
+  conversion_rate: number;
+  drop_off: number;
+};
+
+export type UserJourneysResponse = {
+  total_sessions?: number;
+  funnel?: FunnelStep[];
+  data: JourneyPath[];
+};
+
+export type InsightBreakdownCount = {
+  value: string;
+  count: number;
+};
+
+export type CustomInsightResponse = {
+  grouping?: string;
+  data: Searches[];
+  total?: number;
+  users?: number;
+  breakdown?: InsightBreakdownCount[];
+};
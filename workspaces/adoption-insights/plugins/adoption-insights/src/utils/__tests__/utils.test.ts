@@ -30,6 +30,7 @@ import {
   formatWeeklyBucket,
   formatTooltipHeaderLabel,
   getGroupingLabel,
+  getJourneySankeyData,
   safeDate,
 } from '../utils';
 import { format, subDays } from 'date-fns';
@@ -509,3 +510,28 @@ describe('getGroupingLabel', () => {
     ).toBe('day');
   });
 });
+
+describe('getJourneySankeyData', () => {
+  it('should create nodes per step position and weighted links', () => {
+    expect(
+      getJourneySankeyData([
+        { steps: ['catalog', 'scaffolder', 'catalog'], count: 3 },
+        { steps: ['catalog', 'scaffolder'], count: 2 },
+        { steps: ['techdocs'], count: 1 },
+      ]),
+    ).toEqual({
+      nodes: [{ name: 'catalog' }, { name: 'scaffolder' }, { name: 'catalog' }],
+      links: [
+        { source: 0, target: 1, value: 5 },
+        { source: 1, target: 2, value: 3 },
+      ],
+    });
+  });
+
+  it('should return no links for single step paths', () => {
+    expect(getJourneySankeyData([{ steps: ['catalog'], count: 1 }])).toEqual({
+      nodes: [],
+      links: [],
+    });
+  });
+});
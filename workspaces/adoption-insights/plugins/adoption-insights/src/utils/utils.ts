@@ -26,7 +26,7 @@ import {
 import { utcToZonedTime, formatInTimeZone } from 'date-fns-tz';
 import { TranslationFunction } from '@backstage/core-plugin-api/alpha';
 
-import { APIsViewOptions } from '../types';
+import { APIsViewOptions, JourneyPath } from '../types';
 import { adoptionInsightsTranslationRef } from '../translations';
 
 /**
@@ -381,6 +381,45 @@ export const getUniqueCatalogEntityKinds = (
   return uniqueKinds;
 };
 
+/**
+ * Build the Sankey chart nodes and links of the user journey paths.
+ * Nodes are created per step position, so that the chart stays acyclic
+ * when a plugin is visited several times during a session.
+ *
+ * @param paths - Most frequent paths of plugins visited during a session
+ * @returns Sankey nodes and links weighted by the number of sessions
+ */
+export const getJourneySankeyData = (paths: JourneyPath[]) => {
+  const nodes: { name: string }[] = [];
+  const nodeIndexes = new Map<string, number>();
+  const links = new Map<
+    string,
+    { source: number; target: number; value: number }
+  >();
+
+  const getNodeIndex = (name: string, position: number) => {
+    const key = `${position}:${name}`;
+    if (!nodeIndexes.has(key)) {
+      nodeIndexes.set(key, nodes.length);
+      nodes.push({ name });
+    }
+    return nodeIndexes.get(key)!;
+  };
+
+  paths.forEach(({ steps, count }) => {
+    for (let i = 1; i < steps.length; i++) {
+      const source = getNodeIndex(steps[i - 1], i - 1);
+      const target = getNodeIndex(steps[i], i);
+      const key = `${source}>${target}`;
+      const link = links.get(key) ?? { source, target, value: 0 };
+      link.value += count;
+      links.set(key, link);
+    }
+  });
+
+  return { nodes, links: Array.from(links.values()) };
+};
+
 // =============================================================================
 // UTILITY FUNCTIONS
 // =============================================================================
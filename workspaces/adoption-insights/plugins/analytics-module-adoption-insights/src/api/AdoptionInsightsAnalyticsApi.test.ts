@@ -20,8 +20,16 @@ import {
   AnalyticsEvent,
 } from '@backstage/core-plugin-api';
 
+let mockEventCount = 0;
+jest.mock('uuid', () => ({
+  v4: () => `mocked-event-id-${++mockEventCount}`,
+}));
+
 jest.useFakeTimers();
 
+const flushPromises = () =>
+  new Promise(jest.requireActual('timers').setImmediate);
+
 describe('InsightsAnalyticsApi', () => {
   let mockConfigApi: ConfigApi;
   let mockIdentityApi: IdentityApi;
@@ -35,6 +43,7 @@ describe('InsightsAnalyticsApi', () => {
   };
 
   beforeEach(() => {
+    window.localStorage.clear();
     mockConfigApi = {
       getString: jest.fn().mockReturnValue('http://localhost:3000'),
       getOptionalNumber: jest.fn().mockImplementation((key: string) => {
@@ -166,4 +175,112 @@ describe('InsightsAnalyticsApi', () => {
     // eslint-disable-next-line no-console
     expect(console.log).toHaveBeenCalled();
   });
+
+  it('should add an event id to the captured events', async () => {
+    const event: AnalyticsEvent = {
+      action: 'click',
+      subject: 'button',
+      context: mockContext,
+    };
+    await insightsAnalyticsApi.captureEvent(event);
+    expect(event.context.eventId).toMatch(/^mocked-event-id-\d+$/);
+  });
+
+  it('should store the buffered events until they are sent', async () => {
+    await flushPromises();
+    await insightsAnalyticsApi.captureEvent({
+      action: 'click',
+      subject: 'button',
+      context: { ...mockContext },
+    });
+    await flushPromises();
+    expect(
+      JSON.parse(window.localStorage.getItem('adoption-insights-events')!),
+    ).toHaveLength(1);
+
+    jest.advanceTimersByTime(flushInterval);
+    await flushPromises();
+
+    expect(fetch).toHaveBeenCalledWith(
+      'http://localhost:3000/api/adoption-insights/events',
+      expect.objectContaining({ method: 'POST' }),
+    );
+    expect(window.localStorage.getItem('adoption-insights-events')).toBeNull();
+  });
+
+  it('should resend the stored events of the previous page', async () => {
+    const storedEvent = {
+      action: 'click',
+      subject: 'button',
+      context: { ...mockContext, eventId: 'stored-event-id' },
+    };
+    window.localStorage.setItem(
+      'adoption-insights-events',
+      JSON.stringify([storedEvent]),
+    );
+    insightsAnalyticsApi = AdoptionInsightsAnalyticsApi.fromConfig(
+      mockConfigApi,
+      {
+        identityApi: mockIdentityApi,
+      },
+    );
+    await flushPromises();
+
+    jest.advanceTimersByTime(flushInterval);
+    await flushPromises();
+
+    expect(fetch).toHaveBeenCalledWith(
+      'http://localhost:3000/api/adoption-insights/events',
+      expect.objectContaining({ body: JSON.stringify([storedEvent]) }),
+    );
+  });
+
+  it('should back off and keep the events when the backend is unreachable', async () => {
+    jest.spyOn(global.console, 'error').mockImplementation(() => {});
+    (fetch as jest.Mock).mockResolvedValue({ ok: false, status: 503 });
+    await flushPromises();
+    await insightsAnalyticsApi.captureEvent({
+      action: 'click',
+      subject: 'button',
+      context: { ...mockContext },
+    });
+
+    jest.advanceTimersByTime(flushInterval);
+    await flushPromises();
+    const calls = (fetch as jest.Mock).mock.calls.length;
+
+    // The next attempt is delayed by twice the flush interval
+    jest.advanceTimersByTime(flushInterval);
+    await flushPromises();
+    expect(fetch).toHaveBeenCalledTimes(calls);
+
+    expect(
+      JSON.parse(window.localStorage.getItem('adoption-insights-events')!),
+    ).toHaveLength(1);
+  });
+
+  it('should send the buffered events with a beacon when the page is hidden', async () => {
+    const sendBeacon = jest.fn().mockReturnValue(true);
+    Object.defineProperty(window.navigator, 'sendBeacon', {
+      value: sendBeacon,
+      configurable: true,
+    });
+    await flushPromises();
+    await insightsAnalyticsApi.captureEvent({
+      action: 'click',
+      subject: 'button',
+      context: { ...mockContext },
+    });
+
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(sendBeacon).toHaveBeenCalledWith(
+      'http://localhost:3000/api/adoption-insights/events/beacon',
+      expect.any(Blob),
+    );
+    // Kept until the delivery is confirmed by a later flush
+    expect(
+      JSON.parse(window.localStorage.getItem('adoption-insights-events')!),
+    ).toHaveLength(1);
+  });
 });
@@ -19,6 +19,11 @@ import {
   ConfigApi,
   AnalyticsEvent,
 } from '@backstage/core-plugin-api';
+import { v4 as uuidv4 } from 'uuid';
+import { createEventStore, EventStore, getEventId } from './EventStore';
+
+// Upper bound of the delay between the retries when the backend is unreachable
+const MAX_RETRY_INTERVAL = 5 * 60 * 1000;
 
 /**
  * Analytics API for Adoption Insights
@@ -35,6 +40,9 @@ export class AdoptionInsightsAnalyticsApi implements AnalyticsApi {
   private userId?: string;
   private userToken?: string;
   private isUserIdentityAvailable?: boolean;
+  private readonly eventStore?: EventStore;
+  private failedFlushes: number = 0;
+  private nextFlushAt: number = 0;
 
   private constructor(
     backendUrl: string,
@@ -42,11 +50,13 @@ export class AdoptionInsightsAnalyticsApi implements AnalyticsApi {
     maxBufferSize: number,
     identityApi: IdentityApi,
     debug?: boolean,
+    eventStore?: EventStore,
   ) {
     this.backendUrl = backendUrl;
     this.flushInterval = flushInterval;
     this.maxBufferSize = maxBufferSize;
     this.debug = debug;
+    this.eventStore = eventStore;
     this.isUserIdentityAvailable = false;
 
     identityApi.getBackstageIdentity().then(async identity => {
@@ -54,17 +64,31 @@ export class AdoptionInsightsAnalyticsApi implements AnalyticsApi {
       this.userToken = token;
       this.userId = identity.userEntityRef;
       this.isUserIdentityAvailable = true;
+      this.requestCookie();
 
       await Promise.all(
         this.pendingEvents.map(event => this.setUserIdToEvent(event)),
       );
 
-      this.eventBuffer.push(...this.pendingEvents);
+      // Resend the events which were not confirmed before the last page was closed
+      const storedEvents = await this.runStoreOperation(store =>
+        store.getAll(),
+      );
+      const bufferedIds = new Set(this.eventBuffer.map(getEventId));
+      this.eventBuffer.unshift(
+        ...(storedEvents ?? []).filter(
+          event => !bufferedIds.has(getEventId(event)),
+        ),
+      );
+
+      this.bufferEvents(this.pendingEvents);
 
       this.pendingEvents = [];
     });
 
     setInterval(() => this.flushEvents(), this.flushInterval);
+
+    window.addEventListener('pagehide', () => this.flushOnPageHide());
   }
 
   private async setUserIdToEvent(event: AnalyticsEvent) {
@@ -99,6 +123,7 @@ export class AdoptionInsightsAnalyticsApi implements AnalyticsApi {
       maxBufferSize,
       options.identityApi,
       debug,
+      createEventStore(),
     );
   }
   /**
@@ -110,13 +135,16 @@ export class AdoptionInsightsAnalyticsApi implements AnalyticsApi {
       event.context.userId = await this.hash(this.userId);
     }
     event.context.timestamp = new Date().toISOString();
+    // Lets the backend ignore the events which are delivered more than once.
+    // crypto.randomUUID is only available in secure contexts, so uuid is used instead
+    event.context.eventId = uuidv4();
 
     if (this.debug) {
       // eslint-disable-next-line no-console
       console.log('Adoption Insights Analytics Event -', event);
     }
     if (this.isUserIdentityAvailable) {
-      this.eventBuffer.push(event);
+      this.bufferEvents([event]);
     } else {
       this.pendingEvents.push(event);
     }
@@ -127,14 +155,19 @@ export class AdoptionInsightsAnalyticsApi implements AnalyticsApi {
     }
   }
 
+  private bufferEvents(events: AnalyticsEvent[]) {
+    this.eventBuffer.push(...events);
+    this.runStoreOperation(store => store.put(events));
+  }
+
   private async flushEvents() {
-    if (this.eventBuffer.length === 0) return;
+    if (this.eventBuffer.length === 0 || Date.now() < this.nextFlushAt) return;
 
     const eventsToSend = [...this.eventBuffer];
     this.eventBuffer = []; // Clear buffer before sending to avoid blocking new events
 
     try {
-      await fetch(`${this.backendUrl}/events`, {
+      const response = await fetch(`${this.backendUrl}/events`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -142,7 +175,24 @@ export class AdoptionInsightsAnalyticsApi implements AnalyticsApi {
         },
         body: JSON.stringify(eventsToSend),
       });
+      // Invalid events are rejected with 400 and would never be accepted
+      if (!response.ok && response.status !== 400) {
+        throw new Error(`Request failed with status ${response.status}`);
+      }
+      this.failedFlushes = 0;
+      this.nextFlushAt = 0;
+      await this.runStoreOperation(store =>
+        store.delete(eventsToSend.map(getEventId)),
+      );
     } catch (error) {
+      // Back off exponentially, so an unreachable backend is not flooded with requests
+      this.failedFlushes++;
+      this.nextFlushAt =
+        Date.now() +
+        Math.min(
+          this.flushInterval * 2 ** this.failedFlushes,
+          MAX_RETRY_INTERVAL,
+        );
       // eslint-disable-next-line no-console
       console.error(
         'Failed to send analytics events, adding the events back to the queue:',
@@ -153,6 +203,53 @@ export class AdoptionInsightsAnalyticsApi implements AnalyticsApi {
     }
   }
 
+  /**
+   * Sends the buffered events with `navigator.sendBeacon`, which outlives the page.
+   * The delivery is not confirmed, so the events are kept in the event store
+   * and resent with the next page load; the backend ignores the duplicates.
+   */
+  private flushOnPageHide() {
+    if (this.eventBuffer.length === 0 || !window.navigator.sendBeacon) return;
+
+    const body = new Blob([JSON.stringify(this.eventBuffer)], {
+      type: 'application/json',
+    });
+    if (window.navigator.sendBeacon(`${this.backendUrl}/events/beacon`, body)) {
+      this.eventBuffer = [];
+    }
+  }
+
+  /**
+   * Requests the user cookie of the backend, as `navigator.sendBeacon` cannot
+   * send the authorization header.
+   */
+  private async requestCookie() {
+    try {
+      await fetch(`${this.backendUrl}/.backstage/auth/v1/cookie`, {
+        credentials: 'include',
+        headers: {
+          ...(this.userToken && { Authorization: `Bearer ${this.userToken}` }),
+        },
+      });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Failed to request the adoption insights cookie:', error);
+    }
+  }
+
+  private async runStoreOperation<T>(
+    operation: (store: EventStore) => Promise<T>,
+  ): Promise<T | undefined> {
+    if (!this.eventStore) return undefined;
+    try {
+      return await operation(this.eventStore);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Failed to access the stored analytics events:', error);
+      return undefined;
+    }
+  }
+
   /**
    * Simple hash function; relies on web cryptography + the sha-256 algorithm.
    * @param value - value to be hashed
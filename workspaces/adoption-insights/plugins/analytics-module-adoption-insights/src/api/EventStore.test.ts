@@ -0,0 +1,99 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { AnalyticsEvent } from '@backstage/core-plugin-api';
+import {
+  createEventStore,
+  IndexedDbEventStore,
+  LocalStorageEventStore,
+} from './EventStore';
+
+const createEvent = (eventId: string): AnalyticsEvent => ({
+  action: 'click',
+  subject: eventId,
+  context: {
+    routeRef: 'unknown',
+    pluginId: 'root',
+    extension: 'App',
+    eventId,
+  },
+});
+
+describe('LocalStorageEventStore', () => {
+  let store: LocalStorageEventStore;
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    store = new LocalStorageEventStore(window.localStorage);
+  });
+
+  it('should return no events when nothing is stored', async () => {
+    await expect(store.getAll()).resolves.toEqual([]);
+  });
+
+  it('should store the events by their event id', async () => {
+    await store.put([createEvent('1'), createEvent('2')]);
+    await store.put([createEvent('2'), createEvent('3')]);
+
+    const events = await store.getAll();
+    expect(events.map(event => event.context.eventId)).toEqual(['1', '2', '3']);
+  });
+
+  it('should delete the events', async () => {
+    await store.put([createEvent('1'), createEvent('2')]);
+    await store.delete(['1']);
+
+    const events = await store.getAll();
+    expect(events.map(event => event.context.eventId)).toEqual(['2']);
+
+    await store.delete(['2']);
+    expect(window.localStorage.getItem('adoption-insights-events')).toBeNull();
+  });
+
+  it('should ignore malformed stored events', async () => {
+    window.localStorage.setItem('adoption-insights-events', '{malformed');
+
+    await expect(store.getAll()).resolves.toEqual([]);
+  });
+});
+
+describe('createEventStore', () => {
+  const { indexedDB } = window;
+
+  afterEach(() => {
+    Object.defineProperty(window, 'indexedDB', {
+      value: indexedDB,
+      configurable: true,
+    });
+  });
+
+  it('should prefer IndexedDB', () => {
+    Object.defineProperty(window, 'indexedDB', {
+      value: {} as IDBFactory,
+      configurable: true,
+    });
+
+    expect(createEventStore()).toBeInstanceOf(IndexedDbEventStore);
+  });
+
+  it('should fall back to localStorage', () => {
+    Object.defineProperty(window, 'indexedDB', {
+      value: undefined,
+      configurable: true,
+    });
+
+    expect(createEventStore()).toBeInstanceOf(LocalStorageEventStore);
+  });
+});
@@ -0,0 +1,148 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { AnalyticsEvent } from '@backstage/core-plugin-api';
+
+const STORE_NAME = 'adoption-insights-events';
+
+// localStorage is limited to a few megabytes, so only the newest events are kept
+const MAX_LOCAL_STORAGE_EVENTS = 1000;
+
+/**
+ * Durable storage for the events which are not yet confirmed by the backend.
+ * Events are keyed by `context.eventId`.
+ */
+export interface EventStore {
+  getAll(): Promise<AnalyticsEvent[]>;
+  put(events: AnalyticsEvent[]): Promise<void>;
+  delete(eventIds: string[]): Promise<void>;
+}
+
+export const getEventId = (event: AnalyticsEvent) =>
+  event.context.eventId as string;
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export class IndexedDbEventStore implements EventStore {
+  private database?: Promise<IDBDatabase>;
+
+  constructor(private readonly indexedDB: IDBFactory) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = this.indexedDB.open(STORE_NAME, 1);
+      request.onupgradeneeded = () =>
+        request.result.createObjectStore(STORE_NAME);
+      this.database = toPromise(request);
+    }
+    return this.database;
+  }
+
+  private async write(fn: (store: IDBObjectStore) => void): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    fn(transaction.objectStore(STORE_NAME));
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async getAll(): Promise<AnalyticsEvent[]> {
+    const database = await this.open();
+    return toPromise<AnalyticsEvent[]>(
+      database
+        .transaction(STORE_NAME, 'readonly')
+        .objectStore(STORE_NAME)
+        .getAll(),
+    );
+  }
+
+  async put(events: AnalyticsEvent[]): Promise<void> {
+    await this.write(store =>
+      events.forEach(event => store.put(event, getEventId(event))),
+    );
+  }
+
+  async delete(eventIds: string[]): Promise<void> {
+    await this.write(store =>
+      eventIds.forEach(eventId => store.delete(eventId)),
+    );
+  }
+}
+
+export class LocalStorageEventStore implements EventStore {
+  constructor(private readonly storage: Storage) {}
+
+  private read(): AnalyticsEvent[] {
+    try {
+      return JSON.parse(this.storage.getItem(STORE_NAME) ?? '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  private write(events: AnalyticsEvent[]) {
+    if (events.length === 0) {
+      this.storage.removeItem(STORE_NAME);
+      return;
+    }
+    this.storage.setItem(
+      STORE_NAME,
+      JSON.stringify(events.slice(-MAX_LOCAL_STORAGE_EVENTS)),
+    );
+  }
+
+  async getAll(): Promise<AnalyticsEvent[]> {
+    return this.read();
+  }
+
+  async put(events: AnalyticsEvent[]): Promise<void> {
+    const eventIds = new Set(events.map(getEventId));
+    this.write([
+      ...this.read().filter(event => !eventIds.has(getEventId(event))),
+      ...events,
+    ]);
+  }
+
+  async delete(eventIds: string[]): Promise<void> {
+    const deleted = new Set(eventIds);
+    this.write(this.read().filter(event => !deleted.has(getEventId(event))));
+  }
+}
+
+/**
+ * Creates the event store of the browser, preferring IndexedDB over localStorage.
+ * Returns undefined when neither is available, e.g. when storage is disabled.
+ */
+export const createEventStore = (): EventStore | undefined => {
+  try {
+    if (window.indexedDB) {
+      return new IndexedDbEventStore(window.indexedDB);
+    }
+    if (window.localStorage) {
+      return new LocalStorageEventStore(window.localStorage);
+    }
+  } catch {
+    // Accessing the storage throws when it is blocked by the browser settings
+  }
+  return undefined;
+};
@@ -14,6 +14,8 @@
  * limitations under the License.
  */
 
+import { SchedulerServiceTaskScheduleDefinitionConfig } from '@backstage/backend-plugin-api';
+
 export interface Config {
   bulkImport?: {
     /**
@@ -26,5 +28,66 @@ export interface Config {
      * @visibility backend
      */
     orchestratorWorkflow?: string;
+    /**
+     * ServiceNow instance used to approve repository imports with change requests,
+     * when the 'SERVICENOW' approval tool is selected.
+     */
+    serviceNow?: {
+      /**
+       * The base URL of the ServiceNow instance, e.g. https://my-instance.service-now.com
+       * @visibility frontend
+       */
+      baseUrl: string;
+      /**
+       * The username to authenticate with, if no token is set.
+       * @visibility backend
+       */
+      username?: string;
+      /**
+       * The password to authenticate with, if no token is set.
+       * @visibility secret
+       */
+      password?: string;
+      /**
+       * The OAuth token to authenticate with.
+       * @visibility secret
+       */
+      token?: string;
+      /**
+       * The sys_id or name of the group to assign the change requests to.
+       * @visibility backend
+       */
+      assignmentGroup?: string;
+      /**
+       * Additional fields to set on the created change requests, e.g. category or risk.
+       * @visibility backend
+       */
+      changeRequestFields?: { [field: string]: string };
+      /**
+       * How often the state of pending change requests is checked.
+       * Defaults to every 5 minutes.
+       */
+      schedule?: SchedulerServiceTaskScheduleDefinitionConfig;
+    };
+    /**
+     * Detection of the drifts of imported repositories.
+     */
+    driftDetection?: {
+      /**
+       * How often the imported repositories are checked for drifts.
+       * Defaults to every hour.
+       */
+      schedule?: SchedulerServiceTaskScheduleDefinitionConfig;
+    };
+    /**
+     * Processing of the import batches submitted through an import manifest.
+     */
+    importManifest?: {
+      /**
+       * How often the unfinished import batches are checked, in addition to when a batch is submitted.
+       * Defaults to every minute, with a timeout of one hour.
+       */
+      schedule?: SchedulerServiceTaskScheduleDefinitionConfig;
+    };
   };
 }
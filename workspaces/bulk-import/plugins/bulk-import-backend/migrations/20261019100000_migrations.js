@@ -0,0 +1,69 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('servicenow_change_requests', table => {
+    table.comment(
+      'Stores the ServiceNow change requests created to approve repository imports',
+    );
+    table.increments('id').primary().comment('Primary key');
+    table
+      .string('repository_url')
+      .notNullable()
+      .comment('The URL of the repository to import');
+    table
+      .string('default_branch')
+      .nullable()
+      .comment('The default branch of the repository to import');
+    table
+      .string('sys_id')
+      .notNullable()
+      .unique()
+      .comment('The sys_id of the change request in ServiceNow');
+    table
+      .string('number')
+      .notNullable()
+      .comment('The human-readable number of the change request');
+    table
+      .string('status')
+      .notNullable()
+      .defaultTo('PENDING')
+      .comment('PENDING, APPROVED or REJECTED');
+    table
+      .text('catalog_info_content')
+      .nullable()
+      .comment('The catalog-info content submitted for approval');
+    table
+      .timestamp('created_at')
+      .defaultTo(knex.fn.now())
+      .comment('Creation timestamp');
+    table
+      .timestamp('updated_at')
+      .defaultTo(knex.fn.now())
+      .comment('Last status update timestamp');
+    table.index(['repository_url'], 'servicenow_change_requests_repo_idx');
+  });
+};
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTable('servicenow_change_requests');
+};
@@ -0,0 +1,61 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('repository_drifts', table => {
+    table.comment(
+      'Stores the drifts detected for the repositories already imported in the catalog',
+    );
+    table.increments('id').primary().comment('Primary key');
+    table
+      .string('repository_url')
+      .notNullable()
+      .unique()
+      .comment('The URL of the imported repository');
+    table
+      .string('status')
+      .notNullable()
+      .comment(
+        'CATALOG_INFO_MISSING, DEFAULT_BRANCH_CHANGED, REPOSITORY_ARCHIVED or LOCATION_ORPHANED',
+      );
+    table
+      .string('location_id')
+      .nullable()
+      .comment('The ID of the drifted Location in the catalog');
+    table
+      .text('location_target')
+      .notNullable()
+      .comment('The target URL of the drifted Location in the catalog');
+    table
+      .string('default_branch')
+      .nullable()
+      .comment('The current default branch of the repository');
+    table
+      .timestamp('detected_at')
+      .defaultTo(knex.fn.now())
+      .comment('Detection timestamp');
+  });
+};
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTable('repository_drifts');
+};
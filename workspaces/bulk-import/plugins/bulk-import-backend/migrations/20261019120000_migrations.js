@@ -0,0 +1,87 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('import_batches', table => {
+    table.comment(
+      'Stores the batches of Import Jobs submitted through an import manifest',
+    );
+    table.string('id').primary().comment('Primary key (UUID)');
+    table
+      .string('status')
+      .notNullable()
+      .comment('PENDING, IN_PROGRESS or COMPLETED');
+    table
+      .timestamp('created_at')
+      .defaultTo(knex.fn.now())
+      .comment('Creation timestamp');
+    table
+      .timestamp('updated_at')
+      .defaultTo(knex.fn.now())
+      .comment('Last update timestamp');
+  });
+
+  await knex.schema.createTable('import_batch_items', table => {
+    table.comment('Stores the repositories listed in an import manifest');
+    table.increments('id').primary().comment('Primary key');
+    table
+      .string('batch_id')
+      .notNullable()
+      .references('id')
+      .inTable('import_batches')
+      .onDelete('CASCADE')
+      .comment('The batch which the item is part of');
+    table
+      .integer('position')
+      .notNullable()
+      .comment('Position of the repository in the manifest');
+    table
+      .string('repository_url')
+      .notNullable()
+      .comment('The URL of the repository to import');
+    table
+      .text('import_request')
+      .notNullable()
+      .comment('The Import request generated from the manifest entry (JSON)');
+    table
+      .string('template')
+      .nullable()
+      .comment('The scaffolder template to execute instead of opening a PR');
+    table
+      .string('status')
+      .notNullable()
+      .comment('PENDING, IN_PROGRESS, SUCCEEDED or FAILED');
+    table
+      .text('result')
+      .nullable()
+      .comment('The resulting Import Job status (JSON)');
+    table
+      .timestamp('updated_at')
+      .defaultTo(knex.fn.now())
+      .comment('Last update timestamp');
+  });
+};
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTable('import_batch_items');
+  await knex.schema.dropTable('import_batches');
+};
@@ -0,0 +1,324 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { mockServices } from '@backstage/backend-test-utils';
+
+import gitUrlParse from 'git-url-parse';
+import { rest } from 'msw';
+import { setupServer } from 'msw/node';
+
+import { AzureApiService } from './azureApiService';
+import { EMPTY_OBJECT_ID } from './utils/azureUtils';
+
+const REPO_URL = 'https://dev.azure.com/my-org/project-a/_git/repo-a';
+const REPO_API_URL =
+  'https://dev.azure.com/my-org/project-a/_apis/git/repositories/repo-a';
+
+const CATALOG_INFO_CONTENT = 'apiVersion: backstage.io/v1alpha1\n';
+const MAIN_SHA = '1111111111111111111111111111111111111111';
+const BRANCH_SHA = '2222222222222222222222222222222222222222';
+
+const openPr = {
+  pullRequestId: 1,
+  title: 'Add catalog-info.yaml config file',
+  description: 'This PR adds a catalog-info.yaml file',
+  repository: { webUrl: REPO_URL },
+  creationDate: '2024-01-01T00:00:00.000Z',
+  status: 'active',
+  sourceRefName: 'refs/heads/backstage-integration',
+  lastMergeSourceCommit: { commitId: BRANCH_SHA },
+};
+
+describe('AzureApiService Pull Request tests', () => {
+  const server = setupServer();
+  const logger = mockServices.logger.mock();
+  let azureApiService: AzureApiService;
+
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+  afterEach(() => server.resetHandlers());
+  afterAll(() => server.close());
+
+  beforeEach(() => {
+    azureApiService = new AzureApiService(
+      logger,
+      mockServices.rootConfig({
+        data: {
+          integrations: {
+            azure: [
+              {
+                host: 'dev.azure.com',
+                credentials: [
+                  {
+                    organizations: ['my-org'],
+                    personalAccessToken: 'my-pat', // notsecret
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      }),
+    );
+  });
+
+  function mockBranches(branches: Record<string, string>) {
+    server.use(
+      rest.get(`${REPO_API_URL}/refs`, (req, res, ctx) => {
+        const name = `refs/${req.url.searchParams.get('filter')}`;
+        return res(
+          ctx.json({
+            value: branches[name] ? [{ name, objectId: branches[name] }] : [],
+          }),
+        );
+      }),
+    );
+  }
+
+  it('should create the import branch, push the catalog-info file and open a PR', async () => {
+    let refUpdates: any;
+    let push: any;
+    let createdPr: any;
+    mockBranches({ 'refs/heads/main': MAIN_SHA });
+    server.use(
+      rest.get(REPO_API_URL, (_req, res, ctx) =>
+        res(
+          ctx.json({
+            name: 'repo-a',
+            webUrl: REPO_URL,
+            defaultBranch: 'refs/heads/main',
+            project: { name: 'project-a' },
+          }),
+        ),
+      ),
+      rest.get(`${REPO_API_URL}/items`, (_req, res, ctx) =>
+        res(ctx.status(404), ctx.json({ message: 'Not found' })),
+      ),
+      rest.get(`${REPO_API_URL}/pullrequests`, (_req, res, ctx) =>
+        res(ctx.json({ value: [] })),
+      ),
+      rest.post(`${REPO_API_URL}/refs`, async (req, res, ctx) => {
+        refUpdates = await req.json();
+        return res(ctx.json({ value: [{ success: true }] }));
+      }),
+      rest.post(`${REPO_API_URL}/pushes`, async (req, res, ctx) => {
+        push = await req.json();
+        return res(ctx.status(201), ctx.json({}));
+      }),
+      rest.post(`${REPO_API_URL}/pullrequests`, async (req, res, ctx) => {
+        createdPr = await req.json();
+        return res(ctx.status(201), ctx.json(openPr));
+      }),
+    );
+
+    const result = await azureApiService.submitPrToRepo(logger, {
+      repoUrl: REPO_URL,
+      gitUrl: gitUrlParse(REPO_URL),
+      prTitle: 'Add catalog-info.yaml config file',
+      prBody: 'This PR adds a catalog-info.yaml file',
+      catalogInfoContent: CATALOG_INFO_CONTENT,
+    });
+
+    expect(result).toEqual({
+      prNumber: 1,
+      prUrl: `${REPO_URL}/pullrequest/1`,
+      lastUpdate: '2024-01-01T00:00:00.000Z',
+      hasChanges: true,
+    });
+    expect(refUpdates).toEqual([
+      {
+        name: 'refs/heads/backstage-integration',
+        oldObjectId: EMPTY_OBJECT_ID,
+        newObjectId: MAIN_SHA,
+      },
+    ]);
+    expect(push).toEqual({
+      refUpdates: [
+        { name: 'refs/heads/backstage-integration', oldObjectId: MAIN_SHA },
+      ],
+      commits: [
+        {
+          comment: 'Add catalog-info.yaml config file',
+          changes: [
+            {
+              changeType: 'add',
+              item: { path: '/catalog-info.yaml' },
+              newContent: {
+                content: CATALOG_INFO_CONTENT,
+                contentType: 'rawtext',
+              },
+            },
+          ],
+        },
+      ],
+    });
+    expect(createdPr).toEqual({
+      sourceRefName: 'refs/heads/backstage-integration',
+      targetRefName: 'refs/heads/main',
+      title: 'Add catalog-info.yaml config file',
+      description: 'This PR adds a catalog-info.yaml file',
+    });
+  });
+
+  it('should edit the catalog-info file and update the existing import PR', async () => {
+    let push: any;
+    let updatedPr: any;
+    mockBranches({
+      'refs/heads/main': MAIN_SHA,
+      'refs/heads/backstage-integration': BRANCH_SHA,
+    });
+    server.use(
+      rest.get(REPO_API_URL, (_req, res, ctx) =>
+        res(
+          ctx.json({
+            name: 'repo-a',
+            webUrl: REPO_URL,
+            defaultBranch: 'refs/heads/main',
+            project: { name: 'project-a' },
+          }),
+        ),
+      ),
+      rest.get(`${REPO_API_URL}/items`, (req, res, ctx) =>
+        req.url.searchParams.get('versionDescriptor.version') ===
+        'backstage-integration'
+          ? res(ctx.json({ content: 'kind: Component\n' }))
+          : res(ctx.status(404), ctx.json({ message: 'Not found' })),
+      ),
+      rest.get(`${REPO_API_URL}/pullrequests`, (_req, res, ctx) =>
+        res(ctx.json({ value: [openPr] })),
+      ),
+      rest.post(`${REPO_API_URL}/pushes`, async (req, res, ctx) => {
+        push = await req.json();
+        return res(ctx.status(201), ctx.json({}));
+      }),
+      rest.patch(`${REPO_API_URL}/pullrequests/1`, async (req, res, ctx) => {
+        updatedPr = await req.json();
+        return res(ctx.json(openPr));
+      }),
+    );
+
+    const result = await azureApiService.submitPrToRepo(logger, {
+      repoUrl: REPO_URL,
+      gitUrl: gitUrlParse(REPO_URL),
+      prTitle: 'Add catalog-info.yaml config file',
+      prBody: 'Updated description',
+      catalogInfoContent: CATALOG_INFO_CONTENT,
+    });
+
+    expect(result).toEqual({
+      prNumber: 1,
+      prUrl: `${REPO_URL}/pullrequest/1`,
+      lastUpdate: '2024-01-01T00:00:00.000Z',
+    });
+    expect(push.refUpdates).toEqual([
+      { name: 'refs/heads/backstage-integration', oldObjectId: BRANCH_SHA },
+    ]);
+    expect(push.commits[0].changes[0].changeType).toEqual('edit');
+    expect(updatedPr).toEqual({
+      title: 'Add catalog-info.yaml config file',
+      description: 'Updated description',
+    });
+  });
+
+  it('should find the open import PR along with its catalog-info file', async () => {
+    let prParams: URLSearchParams | undefined;
+    let itemParams: URLSearchParams | undefined;
+    server.use(
+      rest.get(`${REPO_API_URL}/pullrequests`, (req, res, ctx) => {
+        prParams = req.url.searchParams;
+        return res(ctx.json({ value: [openPr] }));
+      }),
+      rest.get(`${REPO_API_URL}/items`, (req, res, ctx) => {
+        itemParams = req.url.searchParams;
+        return res(ctx.json({ content: CATALOG_INFO_CONTENT }));
+      }),
+    );
+
+    const result = await azureApiService.findImportOpenPr(logger, {
+      repoUrl: REPO_URL,
+      includeCatalogInfoContent: true,
+    });
+
+    expect(result).toEqual({
+      prNum: 1,
+      prUrl: `${REPO_URL}/pullrequest/1`,
+      prTitle: 'Add catalog-info.yaml config file',
+      prBody: 'This PR adds a catalog-info.yaml file',
+      prCatalogInfoContent: CATALOG_INFO_CONTENT,
+      lastUpdate: '2024-01-01T00:00:00.000Z',
+    });
+    expect(prParams?.get('searchCriteria.sourceRefName')).toEqual(
+      'refs/heads/backstage-integration',
+    );
+    expect(prParams?.get('searchCriteria.status')).toEqual('active');
+    expect(itemParams?.get('versionDescriptor.version')).toEqual(BRANCH_SHA);
+    expect(itemParams?.get('versionDescriptor.versionType')).toEqual('commit');
+  });
+
+  it('should abandon the import PR and delete the import branch when the import is deleted', async () => {
+    let thread: any;
+    let prUpdate: any;
+    let refUpdates: any;
+    mockBranches({ 'refs/heads/backstage-integration': BRANCH_SHA });
+    server.use(
+      rest.get(`${REPO_API_URL}/pullrequests`, (_req, res, ctx) =>
+        res(ctx.json({ value: [openPr] })),
+      ),
+      rest.post(
+        `${REPO_API_URL}/pullrequests/1/threads`,
+        async (req, res, ctx) => {
+          thread = await req.json();
+          return res(ctx.json({}));
+        },
+      ),
+      rest.patch(`${REPO_API_URL}/pullrequests/1`, async (req, res, ctx) => {
+        prUpdate = await req.json();
+        return res(ctx.json({ ...openPr, status: 'abandoned' }));
+      }),
+      rest.post(`${REPO_API_URL}/refs`, async (req, res, ctx) => {
+        refUpdates = await req.json();
+        return res(ctx.json({ value: [{ success: true }] }));
+      }),
+    );
+
+    await azureApiService.closeImportPR(logger, {
+      repoUrl: REPO_URL,
+      gitUrl: gitUrlParse(REPO_URL),
+      comment: 'The repository was removed from the bulk import',
+    });
+    await azureApiService.deleteImportBranch({
+      repoUrl: REPO_URL,
+      gitUrl: gitUrlParse(REPO_URL),
+    });
+
+    expect(thread).toEqual({
+      comments: [
+        {
+          content: 'The repository was removed from the bulk import',
+          commentType: 'text',
+        },
+      ],
+      status: 'closed',
+    });
+    expect(prUpdate).toEqual({ status: 'abandoned' });
+    expect(refUpdates).toEqual([
+      {
+        name: 'refs/heads/backstage-integration',
+        oldObjectId: BRANCH_SHA,
+        newObjectId: EMPTY_OBJECT_ID,
+      },
+    ]);
+  });
+});
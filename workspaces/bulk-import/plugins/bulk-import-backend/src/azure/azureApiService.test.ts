@@ -0,0 +1,229 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { mockServices } from '@backstage/backend-test-utils';
+
+import fetch from 'node-fetch';
+
+import { AzureApiService } from './azureApiService';
+import { parseAzureRepoUrl } from './utils/azureUtils';
+
+jest.mock('node-fetch');
+
+const mockFetch = fetch as unknown as jest.Mock;
+
+function mockResponse(status: number, body?: unknown) {
+  return Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: `${status}`,
+    url: 'https://dev.azure.com',
+    headers: { get: () => 'application/json' },
+    text: () => Promise.resolve(JSON.stringify(body ?? {})),
+  });
+}
+
+function mockRoutes(routes: Record<string, unknown>) {
+  mockFetch.mockImplementation((url: string) => {
+    const path = url.replace('https://dev.azure.com', '').split('?')[0];
+    if (path in routes) {
+      return mockResponse(200, routes[path]);
+    }
+    return mockResponse(404, { message: 'Not found' });
+  });
+}
+
+const repositories = {
+  value: [
+    {
+      name: 'repo-b',
+      url: 'https://dev.azure.com/my-org/_apis/git/repositories/2',
+      webUrl: 'https://dev.azure.com/my-org/project-a/_git/repo-b',
+      defaultBranch: 'refs/heads/main',
+      project: { name: 'project-a' },
+    },
+    {
+      name: 'repo-a',
+      url: 'https://dev.azure.com/my-org/_apis/git/repositories/1',
+      webUrl: 'https://dev.azure.com/my-org/project-a/_git/repo-a',
+      defaultBranch: 'refs/heads/master',
+      project: { name: 'project-a' },
+    },
+  ],
+};
+
+describe('AzureApiService tests', () => {
+  let azureApiService: AzureApiService;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    const config = mockServices.rootConfig({
+      data: {
+        integrations: {
+          azure: [
+            {
+              host: 'dev.azure.com',
+              credentials: [
+                {
+                  organizations: ['my-org'],
+                  personalAccessToken: 'my-pat', // notsecret
+                },
+              ],
+            },
+          ],
+        },
+      },
+    });
+    azureApiService = new AzureApiService(mockServices.logger.mock(), config);
+  });
+
+  it('throws if there is no Azure DevOps organization in config', async () => {
+    const service = new AzureApiService(
+      mockServices.logger.mock(),
+      mockServices.rootConfig({ data: {} }),
+    );
+
+    await expect(service.getOrganizationsFromIntegrations()).rejects.toThrow(
+      'Looks like there is no Azure DevOps organization in config',
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('returns the projects of the configured organizations', async () => {
+    mockRoutes({
+      '/my-org/_apis/projects': {
+        value: [
+          { id: '2', name: 'project-b' },
+          { id: '1', name: 'project-a', description: 'Project A' },
+        ],
+      },
+    });
+
+    const result = await azureApiService.getOrganizationsFromIntegrations();
+
+    expect(result).toEqual({
+      organizations: [
+        {
+          id: '1',
+          name: 'project-a',
+          description: 'Project A',
+          organization: 'my-org',
+        },
+        { id: '2', name: 'project-b', organization: 'my-org' },
+      ],
+      errors: [],
+      totalCount: 2,
+    });
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.stringContaining('api-version=7.0'),
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          Authorization: expect.stringMatching(/^Basic /),
+        }),
+      }),
+    );
+  });
+
+  it('returns the sorted, filtered and paginated repositories of a project', async () => {
+    mockRoutes({
+      '/my-org/project-a/_apis/git/repositories': repositories,
+    });
+
+    const result = await azureApiService.getOrgRepositoriesFromIntegrations(
+      'project-a',
+      'repo',
+      1,
+      1,
+    );
+
+    expect(result).toEqual({
+      repositories: [
+        expect.objectContaining({
+          name: 'repo-a',
+          full_name: 'project-a/repo-a',
+          html_url: 'https://dev.azure.com/my-org/project-a/_git/repo-a',
+          default_branch: 'master',
+        }),
+      ],
+      errors: [],
+      totalCount: 2,
+    });
+  });
+
+  it('returns the list of errors if the credentials are rejected', async () => {
+    mockFetch.mockImplementation(() =>
+      mockResponse(401, { message: 'Unauthorized' }),
+    );
+
+    const result = await azureApiService.getRepositoriesFromIntegrations();
+
+    expect(result.repositories).toEqual([]);
+    expect(result.errors).toHaveLength(1);
+  });
+
+  it('filters out locations from projects not accessible from the integrations', async () => {
+    mockRoutes({
+      '/my-org/_apis/projects': {
+        value: [{ id: '1', name: 'project-a' }],
+      },
+    });
+
+    const result =
+      await azureApiService.filterLocationsAccessibleFromIntegrations([
+        'https://dev.azure.com/my-org/project-a/_git/repo-a?path=/catalog-info.yaml',
+        'https://dev.azure.com/my-org/project-b/_git/repo-b?path=/catalog-info.yaml',
+        'https://github.com/my-org/repo-c/blob/main/catalog-info.yaml',
+      ]);
+
+    expect(result).toEqual([
+      'https://dev.azure.com/my-org/project-a/_git/repo-a?path=/catalog-info.yaml',
+    ]);
+  });
+
+  describe('parseAzureRepoUrl', () => {
+    it('parses dev.azure.com URLs', () => {
+      expect(
+        parseAzureRepoUrl(
+          'https://dev.azure.com/my-org/my%20project/_git/repo',
+        ),
+      ).toEqual({
+        host: 'dev.azure.com',
+        organization: 'my-org',
+        organizationUrl: 'https://dev.azure.com/my-org',
+        project: 'my project',
+        repo: 'repo',
+      });
+    });
+
+    it('parses visualstudio.com URLs', () => {
+      expect(
+        parseAzureRepoUrl('https://my-org.visualstudio.com/project/_git/repo'),
+      ).toEqual({
+        host: 'my-org.visualstudio.com',
+        organization: 'my-org',
+        organizationUrl: 'https://my-org.visualstudio.com',
+        project: 'project',
+        repo: 'repo',
+      });
+    });
+
+    it('rejects URLs that are not Git repository URLs', () => {
+      expect(() =>
+        parseAzureRepoUrl('https://dev.azure.com/my-org/project'),
+      ).toThrow('Invalid Azure DevOps repository URL');
+    });
+  });
+});
@@ -0,0 +1,869 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { LoggerService } from '@backstage/backend-plugin-api';
+import type { Config } from '@backstage/config';
+import {
+  DefaultAzureDevOpsCredentialsProvider,
+  ScmIntegrations,
+} from '@backstage/integration';
+
+import gitUrlParse from 'git-url-parse';
+
+import { getBranchName, getCatalogFilename } from '../catalog/catalogUtils';
+import {
+  getRepoUrlFromLocation,
+  isNotFoundError,
+  logErrorIfNeeded,
+  paginateArray,
+  sendJsonRequest,
+} from '../helpers';
+import {
+  DefaultPageNumber,
+  DefaultPageSize,
+} from '../service/handlers/handlers';
+import {
+  AzureFetchError,
+  AzureOrganization,
+  AzureOrganizationResponse,
+  AzureRepoLocation,
+  AzureRepository,
+  AzureRepositoryResponse,
+} from './types';
+import {
+  AZURE_API_VERSION,
+  createCredentialError,
+  EMPTY_OBJECT_ID,
+  parseAzureRepoUrl,
+  stripHeadsRef,
+} from './utils/azureUtils';
+
+type AzurePullRequest = {
+  number: number;
+  url: string;
+  title?: string;
+  body?: string;
+  lastUpdate?: string;
+  merged: boolean;
+  sha?: string;
+  branch?: string;
+};
+
+// See https://learn.microsoft.com/en-us/rest/api/azure/devops/git/
+export class AzureApiService {
+  private readonly logger: LoggerService;
+  private readonly integrations: ScmIntegrations;
+  private readonly credentialsProvider: DefaultAzureDevOpsCredentialsProvider;
+  private readonly config: Config;
+
+  constructor(logger: LoggerService, config: Config) {
+    this.logger = logger;
+    this.config = config;
+    this.integrations = ScmIntegrations.fromConfig(config);
+    this.credentialsProvider =
+      DefaultAzureDevOpsCredentialsProvider.fromIntegrations(this.integrations);
+  }
+
+  async getCredentials(repoUrl: string): Promise<{ token: string }> {
+    const creds = await this.credentialsProvider.getCredentials({
+      url: repoUrl,
+    });
+    if (!creds || !creds.token) {
+      throw new Error(`Token not configured for 'azure' provider`);
+    }
+    return {
+      token: creds.token,
+    };
+  }
+
+  async getRepositoryFromIntegrations(repoUrl: string): Promise<{
+    repository?: AzureRepository;
+    errors?: AzureFetchError[];
+  }> {
+    const location = parseAzureRepoUrl(repoUrl);
+    const headers = await this.getHeaders(location.organizationUrl);
+    let repository: AzureRepository | undefined;
+    try {
+      repository = toRepository(
+        await sendJsonRequest(
+          withApiVersion(this.repoApiUrl(location)),
+          headers,
+        ),
+      );
+    } catch (err: any) {
+      if (!isNotFoundError(err)) {
+        throw err;
+      }
+    }
+    return {
+      repository,
+      errors: [],
+    };
+  }
+
+  /**
+   * Returns the projects of the Azure DevOps organizations listed in the 'organizations' field of the integration credentials.
+   */
+  async getOrganizationsFromIntegrations(
+    search?: string,
+    pageNumber: number = DefaultPageNumber,
+    pageSize: number = DefaultPageSize,
+  ): Promise<AzureOrganizationResponse> {
+    const projects: AzureOrganization[] = [];
+    const errors: AzureFetchError[] = [];
+    for (const organizationUrl of this.verifyAndGetOrganizationUrls()) {
+      try {
+        projects.push(...(await this.listProjects(organizationUrl)));
+      } catch (err: any) {
+        this.handleError(
+          `Fetching projects from ${organizationUrl}`,
+          err,
+          errors,
+        );
+      }
+    }
+
+    const filtered = projects
+      .filter(
+        project =>
+          !search || project.name.toLowerCase().includes(search.toLowerCase()),
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const paginated = paginateArray(filtered, pageNumber, pageSize);
+    return {
+      organizations: paginated.result,
+      errors,
+      totalCount: paginated.totalCount,
+    };
+  }
+
+  async getOrgRepositoriesFromIntegrations(
+    orgName: string,
+    search?: string,
+    pageNumber: number = DefaultPageNumber,
+    pageSize: number = DefaultPageSize,
+  ): Promise<AzureRepositoryResponse> {
+    return this.listRepositories(orgName, search, pageNumber, pageSize);
+  }
+
+  /**
+   * Returns AzureRepositoryResponse containing:
+   *   - a list of unique repositories the azure integrations have access to
+   *   - a list of errors encountered by each organization (if any exist)
+   */
+  async getRepositoriesFromIntegrations(
+    search?: string,
+    pageNumber: number = DefaultPageNumber,
+    pageSize: number = DefaultPageSize,
+  ): Promise<AzureRepositoryResponse> {
+    return this.listRepositories(undefined, search, pageNumber, pageSize);
+  }
+
+  async filterLocationsAccessibleFromIntegrations(
+    locationUrls: string[],
+  ): Promise<string[]> {
+    const accessibleProjects = new Set<string>();
+    for (const organizationUrl of this.getOrganizationUrls()) {
+      try {
+        (await this.listProjects(organizationUrl)).forEach(project =>
+          accessibleProjects.add(
+            `${organizationUrl}/${project.name}`.toLowerCase(),
+          ),
+        );
+      } catch (err: any) {
+        logErrorIfNeeded(
+          this.logger,
+          `failed to fetch azure projects from ${organizationUrl}`,
+          err,
+        );
+      }
+    }
+
+    return locationUrls.filter(loc => {
+      const repoUrl = getRepoUrlFromLocation(loc);
+      if (!repoUrl) {
+        return false;
+      }
+      try {
+        const location = parseAzureRepoUrl(repoUrl);
+        return accessibleProjects.has(
+          `${location.organizationUrl}/${location.project}`.toLowerCase(),
+        );
+      } catch (_e) {
+        return false;
+      }
+    });
+  }
+
+  async findImportOpenPr(
+    logger: LoggerService,
+    input: {
+      repoUrl: string;
+      includeCatalogInfoContent?: boolean;
+    },
+  ): Promise<{
+    prNum?: number;
+    prUrl?: string;
+    prTitle?: string;
+    prBody?: string;
+    prCatalogInfoContent?: string;
+    lastUpdate?: string;
+  }> {
+    const location = parseAzureRepoUrl(input.repoUrl);
+    const headers = await this.getHeaders(location.organizationUrl);
+    const branchName = getBranchName(this.config);
+    try {
+      const pr = await this.findOpenPullRequest(location, headers, branchName);
+      if (!pr) {
+        return {};
+      }
+      let prCatalogInfoContent: string | undefined;
+      if (input.includeCatalogInfoContent) {
+        prCatalogInfoContent = await this.getFileContent(
+          location,
+          headers,
+          pr.sha ? { commit: pr.sha } : { branch: branchName },
+          getCatalogFilename(this.config),
+        );
+      }
+      return {
+        prNum: pr.number,
+        prUrl: pr.url,
+        prTitle: pr.title,
+        prBody: pr.body,
+        prCatalogInfoContent,
+        lastUpdate: pr.lastUpdate,
+      };
+    } catch (error: any) {
+      logErrorIfNeeded(logger, 'Error fetching pull requests', error);
+    }
+    return {};
+  }
+
+  async submitPrToRepo(
+    logger: LoggerService,
+    input: {
+      repoUrl: string;
+      gitUrl: gitUrlParse.GitUrl;
+      defaultBranch?: string;
+      prTitle: string;
+      prBody: string;
+      catalogInfoContent: string;
+    },
+  ): Promise<{
+    prUrl?: string;
+    prNumber?: number;
+    hasChanges?: boolean;
+    lastUpdate?: string;
+    errors?: string[];
+  }> {
+    const fileName = getCatalogFilename(this.config);
+    const branchName = getBranchName(this.config);
+    try {
+      const location = parseAzureRepoUrl(input.repoUrl);
+      const headers = await this.getHeaders(location.organizationUrl);
+      const { repository } = await this.getRepositoryFromIntegrations(
+        input.repoUrl,
+      );
+      if (!repository) {
+        throw new Error(`Repository ${input.repoUrl} not found`);
+      }
+
+      // Check if there is already a catalogInfo in the default branch
+      const existingCatalogInfo = await this.getFileContent(
+        location,
+        headers,
+        { branch: input.defaultBranch ?? repository.default_branch },
+        fileName,
+      );
+      if (existingCatalogInfo !== undefined) {
+        // No need to create a PR => component will be imported as is
+        return {
+          hasChanges: false,
+        };
+      }
+
+      const existingPrForBranch = await this.findOpenPullRequest(
+        location,
+        headers,
+        branchName,
+      );
+
+      let branchHead = await this.getBranchHead(location, headers, branchName);
+      if (!branchHead) {
+        const defaultBranchHead = await this.getBranchHead(
+          location,
+          headers,
+          repository.default_branch,
+        );
+        await this.updateRef(location, headers, {
+          branch: branchName,
+          oldObjectId: EMPTY_OBJECT_ID,
+          newObjectId: defaultBranchHead!,
+        });
+        branchHead = defaultBranchHead;
+      }
+      const fileInBranch = await this.getFileContent(
+        location,
+        headers,
+        { branch: branchName },
+        fileName,
+      );
+      await sendJsonRequest(
+        withApiVersion(`${this.repoApiUrl(location)}/pushes`),
+        headers,
+        {
+          method: 'POST',
+          body: {
+            refUpdates: [
+              { name: `refs/heads/${branchName}`, oldObjectId: branchHead },
+            ],
+            commits: [
+              {
+                comment: `Add ${fileName} config file`,
+                changes: [
+                  {
+                    changeType: fileInBranch === undefined ? 'add' : 'edit',
+                    item: { path: `/${fileName}` },
+                    newContent: {
+                      content: input.catalogInfoContent,
+                      contentType: 'rawtext',
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      );
+
+      if (existingPrForBranch) {
+        const pr = toPullRequest(
+          await sendJsonRequest(
+            withApiVersion(
+              `${this.repoApiUrl(location)}/pullrequests/${existingPrForBranch.number}`,
+            ),
+            headers,
+            {
+              method: 'PATCH',
+              body: {
+                title: input.prTitle,
+                description: input.prBody,
+              },
+            },
+          ),
+        );
+        return {
+          prNumber: pr.number,
+          prUrl: pr.url,
+          lastUpdate: pr.lastUpdate,
+        };
+      }
+
+      const pr = toPullRequest(
+        await sendJsonRequest(
+          withApiVersion(`${this.repoApiUrl(location)}/pullrequests`),
+          headers,
+          {
+            method: 'POST',
+            body: {
+              sourceRefName: `refs/heads/${branchName}`,
+              targetRefName: `refs/heads/${repository.default_branch}`,
+              title: input.prTitle,
+              description: input.prBody,
+            },
+          },
+        ),
+      );
+      return {
+        prNumber: pr.number,
+        prUrl: pr.url,
+        lastUpdate: pr.lastUpdate,
+        hasChanges: true,
+      };
+    } catch (e: any) {
+      logErrorIfNeeded(logger, `Couldn't create PR in ${input.repoUrl}`, e);
+      return {
+        errors: [e.message],
+      };
+    }
+  }
+
+  async hasFileInRepo(input: {
+    repoUrl: string;
+    defaultBranch?: string;
+    fileName: string;
+  }) {
+    const location = parseAzureRepoUrl(input.repoUrl);
+    const headers = await this.getHeaders(location.organizationUrl);
+    let branch = input.defaultBranch;
+    if (!branch) {
+      const { repository } = await this.getRepositoryFromIntegrations(
+        input.repoUrl,
+      );
+      if (!repository) {
+        throw new Error(
+          `Could not determine if repo at ${input.repoUrl} already has a file named ${input.fileName} in its default branch`,
+        );
+      }
+      branch = repository.default_branch;
+    }
+    const content = await this.getFileContent(
+      location,
+      headers,
+      { branch },
+      input.fileName,
+    );
+    return content !== undefined;
+  }
+
+  async getFileContentFromRepo(input: {
+    repoUrl: string;
+    defaultBranch?: string;
+    fileName: string;
+  }): Promise<string | undefined> {
+    try {
+      const location = parseAzureRepoUrl(input.repoUrl);
+      const headers = await this.getHeaders(location.organizationUrl);
+      let branch = input.defaultBranch;
+      if (!branch) {
+        const { repository } = await this.getRepositoryFromIntegrations(
+          input.repoUrl,
+        );
+        if (!repository) {
+          return undefined;
+        }
+        branch = repository.default_branch;
+      }
+      return await this.getFileContent(
+        location,
+        headers,
+        { branch },
+        input.fileName,
+      );
+    } catch (error: any) {
+      logErrorIfNeeded(
+        this.logger,
+        `Error fetching ${input.fileName} from ${input.repoUrl}`,
+        error,
+      );
+      return undefined;
+    }
+  }
+
+  async closeImportPR(
+    logger: LoggerService,
+    input: {
+      repoUrl: string;
+      gitUrl: gitUrlParse.GitUrl;
+      comment: string;
+    },
+  ) {
+    try {
+      const location = parseAzureRepoUrl(input.repoUrl);
+      const headers = await this.getHeaders(location.organizationUrl);
+      const pr = await this.findOpenPullRequest(
+        location,
+        headers,
+        getBranchName(this.config),
+      );
+      if (!pr) {
+        return;
+      }
+      const prApiUrl = `${this.repoApiUrl(location)}/pullrequests/${pr.number}`;
+      await sendJsonRequest(withApiVersion(`${prApiUrl}/threads`), headers, {
+        method: 'POST',
+        body: {
+          comments: [{ content: input.comment, commentType: 'text' }],
+          status: 'closed',
+        },
+      });
+      await sendJsonRequest(withApiVersion(prApiUrl), headers, {
+        method: 'PATCH',
+        body: { status: 'abandoned' },
+      });
+    } catch (e: any) {
+      logErrorIfNeeded(logger, `Couldn't close PR in ${input.repoUrl}`, e);
+    }
+  }
+
+  async deleteImportBranch(input: {
+    repoUrl: string;
+    gitUrl: gitUrlParse.GitUrl;
+  }) {
+    try {
+      const location = parseAzureRepoUrl(input.repoUrl);
+      const headers = await this.getHeaders(location.organizationUrl);
+      const branchName = getBranchName(this.config);
+      const branchHead = await this.getBranchHead(
+        location,
+        headers,
+        branchName,
+      );
+      if (branchHead) {
+        await this.updateRef(location, headers, {
+          branch: branchName,
+          oldObjectId: branchHead,
+          newObjectId: EMPTY_OBJECT_ID,
+        });
+      }
+    } catch (e: any) {
+      logErrorIfNeeded(
+        this.logger,
+        `Couldn't close import PR and/or delete import branch in ${input.repoUrl}`,
+        e,
+      );
+    }
+  }
+
+  async isRepoEmpty(input: { repoUrl: string }) {
+    const location = parseAzureRepoUrl(input.repoUrl);
+    const headers = await this.getHeaders(location.organizationUrl);
+    const repo = await sendJsonRequest(
+      withApiVersion(this.repoApiUrl(location)),
+      headers,
+    );
+    // Empty repositories do not have any default branch yet
+    return !repo?.defaultBranch;
+  }
+
+  async getPullRequest(
+    repoUrl: string,
+    pullRequestNumber: number,
+  ): Promise<{
+    title?: string;
+    body?: string;
+    merged?: boolean;
+    lastUpdated?: string;
+    prSha?: string;
+    prBranch?: string;
+  }> {
+    try {
+      const location = parseAzureRepoUrl(repoUrl);
+      const headers = await this.getHeaders(location.organizationUrl);
+      const pr = toPullRequest(
+        await sendJsonRequest(
+          withApiVersion(
+            `${this.repoApiUrl(location)}/pullrequests/${pullRequestNumber}`,
+          ),
+          headers,
+        ),
+      );
+      return {
+        title: pr.title,
+        body: pr.body,
+        merged: pr.merged,
+        lastUpdated: pr.lastUpdate,
+        prSha: pr.sha,
+        prBranch: pr.branch,
+      };
+    } catch (error: any) {
+      logErrorIfNeeded(
+        this.logger,
+        `Error fetching pull request ${pullRequestNumber} from ${repoUrl}`,
+        error,
+      );
+    }
+    return {};
+  }
+
+  async getCatalogInfoFile(
+    logger: LoggerService,
+    input: {
+      repoUrl: string;
+      prNumber: number;
+      prHeadSha: string;
+    },
+  ): Promise<string | undefined> {
+    try {
+      const location = parseAzureRepoUrl(input.repoUrl);
+      const headers = await this.getHeaders(location.organizationUrl);
+      const content = await this.getFileContent(
+        location,
+        headers,
+        { commit: input.prHeadSha },
+        getCatalogFilename(this.config),
+      );
+      if (content === undefined) {
+        logger.warn(
+          `catalog-info.yaml not found in PR ${input.prNumber} of ${input.repoUrl}`,
+        );
+      }
+      return content;
+    } catch (error: any) {
+      logErrorIfNeeded(
+        logger,
+        `Error fetching catalog-info.yaml from PR ${input.prNumber} of ${input.repoUrl}`,
+        error,
+      );
+      return undefined;
+    }
+  }
+
+  private async listRepositories(
+    project: string | undefined,
+    search: string | undefined,
+    pageNumber: number,
+    pageSize: number,
+  ): Promise<AzureRepositoryResponse> {
+    const repositories = new Map<string, AzureRepository>();
+    const errors: AzureFetchError[] = [];
+    for (const organizationUrl of this.verifyAndGetOrganizationUrls()) {
+      try {
+        const headers = await this.getHeaders(organizationUrl);
+        const baseUrl = project
+          ? `${organizationUrl}/${encodeURIComponent(project)}`
+          : organizationUrl;
+        const resp = await sendJsonRequest(
+          withApiVersion(`${baseUrl}/_apis/git/repositories`),
+          headers,
+        );
+        (resp?.value ?? [])
+          .map(toRepository)
+          .forEach((repo: AzureRepository) =>
+            repositories.set(repo.html_url, repo),
+          );
+      } catch (err: any) {
+        // The project is not part of this organization
+        if (project && isNotFoundError(err)) {
+          continue;
+        }
+        this.handleError(
+          `Fetching repositories from ${organizationUrl}`,
+          err,
+          errors,
+        );
+      }
+    }
+
+    // The Azure DevOps API neither supports searching nor paginating repositories
+    const filtered = Array.from(repositories.values())
+      .filter(
+        repo =>
+          !search || repo.name.toLowerCase().includes(search.toLowerCase()),
+      )
+      .sort((a, b) => a.full_name.localeCompare(b.full_name));
+    const paginated = paginateArray(filtered, pageNumber, pageSize);
+    return {
+      repositories: paginated.result,
+      errors,
+      totalCount: paginated.totalCount,
+    };
+  }
+
+  private async listProjects(
+    organizationUrl: string,
+  ): Promise<AzureOrganization[]> {
+    const headers = await this.getHeaders(organizationUrl);
+    const projects: AzureOrganization[] = [];
+    const top = 500;
+    let skip = 0;
+    let hasMore = true;
+    while (hasMore) {
+      const resp = await sendJsonRequest(
+        withApiVersion(
+          `${organizationUrl}/_apis/projects?$top=${top}&$skip=${skip}`,
+        ),
+        headers,
+      );
+      const values: any[] = resp?.value ?? [];
+      projects.push(
+        ...values.map(project => ({
+          name: project.name,
+          id: project.id,
+          description: project.description,
+          url: project.url,
+          organization: decodeURIComponent(organizationUrl.split('/').pop()!),
+        })),
+      );
+      hasMore = values.length === top;
+      skip += top;
+    }
+    return projects;
+  }
+
+  private async getFileContent(
+    location: AzureRepoLocation,
+    headers: Record<string, string>,
+    version: { branch: string } | { commit: string },
+    path: string,
+  ): Promise<string | undefined> {
+    const params = new URLSearchParams({
+      path: `/${path}`,
+      includeContent: 'true',
+      'versionDescriptor.version':
+        'branch' in version ? version.branch : version.commit,
+      'versionDescriptor.versionType':
+        'branch' in version ? 'branch' : 'commit',
+      'api-version': AZURE_API_VERSION,
+    });
+    try {
+      const item = await sendJsonRequest(
+        `${this.repoApiUrl(location)}/items?${params}`,
+        headers,
+      );
+      return item?.content ?? '';
+    } catch (err: any) {
+      if (isNotFoundError(err)) {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  private async getBranchHead(
+    location: AzureRepoLocation,
+    headers: Record<string, string>,
+    branch: string,
+  ): Promise<string | undefined> {
+    const resp = await sendJsonRequest(
+      withApiVersion(
+        `${this.repoApiUrl(location)}/refs?filter=${encodeURIComponent(`heads/${branch}`)}`,
+      ),
+      headers,
+    );
+    return (resp?.value ?? []).find(
+      (ref: any) => ref.name === `refs/heads/${branch}`,
+    )?.objectId;
+  }
+
+  private async updateRef(
+    location: AzureRepoLocation,
+    headers: Record<string, string>,
+    update: { branch: string; oldObjectId: string; newObjectId: string },
+  ) {
+    const resp = await sendJsonRequest(
+      withApiVersion(`${this.repoApiUrl(location)}/refs`),
+      headers,
+      {
+        method: 'POST',
+        body: [
+          {
+            name: `refs/heads/${update.branch}`,
+            oldObjectId: update.oldObjectId,
+            newObjectId: update.newObjectId,
+          },
+        ],
+      },
+    );
+    const result = resp?.value?.[0];
+    if (result && !result.success) {
+      throw new Error(
+        `Could not update branch ${update.branch}: ${result.updateStatus}`,
+      );
+    }
+  }
+
+  private async findOpenPullRequest(
+    location: AzureRepoLocation,
+    headers: Record<string, string>,
+    branch: string,
+  ): Promise<AzurePullRequest | undefined> {
+    const params = new URLSearchParams({
+      'searchCriteria.sourceRefName': `refs/heads/${branch}`,
+      'searchCriteria.status': 'active',
+      'api-version': AZURE_API_VERSION,
+    });
+    const resp = await sendJsonRequest(
+      `${this.repoApiUrl(location)}/pullrequests?${params}`,
+      headers,
+    );
+    const pr = resp?.value?.[0];
+    return pr ? toPullRequest(pr) : undefined;
+  }
+
+  private handleError(desc: string, err: any, errors: AzureFetchError[]) {
+    logErrorIfNeeded(this.logger, `${desc} failed`, err);
+    const credentialError = createCredentialError(err as Error);
+    if (credentialError) {
+      errors.push(credentialError);
+    }
+  }
+
+  private async getHeaders(url: string): Promise<Record<string, string>> {
+    const creds = await this.credentialsProvider.getCredentials({ url });
+    if (!creds) {
+      throw new Error(
+        `No Azure DevOps credentials found for ${url}. Please add a configuration entry under 'integrations.azure'`,
+      );
+    }
+    return creds.headers;
+  }
+
+  /**
+   * Azure DevOps does not allow listing the organizations a token has access to,
+   * so only the organizations explicitly listed in the integration credentials are considered.
+   */
+  private getOrganizationUrls(): string[] {
+    const organizationUrls = new Set<string>();
+    for (const integration of this.integrations.azure.list()) {
+      for (const credential of integration.config.credentials ?? []) {
+        for (const organization of credential.organizations ?? []) {
+          organizationUrls.add(
+            `https://${integration.config.host}/${encodeURIComponent(organization)}`,
+          );
+        }
+      }
+    }
+    return Array.from(organizationUrls);
+  }
+
+  private verifyAndGetOrganizationUrls(): string[] {
+    const organizationUrls = this.getOrganizationUrls();
+    if (organizationUrls.length === 0) {
+      this.logger.debug(
+        'No Azure DevOps organization in config => returning an empty list.',
+      );
+      throw new Error(
+        "Looks like there is no Azure DevOps organization in config. Please add the 'organizations' to the credentials under 'integrations.azure'",
+      );
+    }
+    return organizationUrls;
+  }
+
+  private repoApiUrl(location: AzureRepoLocation) {
+    return `${location.organizationUrl}/${encodeURIComponent(location.project)}/_apis/git/repositories/${encodeURIComponent(location.repo)}`;
+  }
+}
+
+function withApiVersion(url: string) {
+  return `${url}${url.includes('?') ? '&' : '?'}api-version=${AZURE_API_VERSION}`;
+}
+
+function toRepository(repo: any): AzureRepository {
+  return {
+    name: repo.name,
+    full_name: `${repo.project?.name}/${repo.name}`,
+    url: repo.url,
+    html_url: repo.webUrl,
+    default_branch: stripHeadsRef(repo.defaultBranch) ?? 'main',
+    updated_at: repo.project?.lastUpdateTime,
+    archived: repo.isDisabled,
+  };
+}
+
+function toPullRequest(pr: any): AzurePullRequest {
+  return {
+    number: pr.pullRequestId,
+    url: `${pr.repository?.webUrl}/pullrequest/${pr.pullRequestId}`,
+    title: pr.title,
+    body: pr.description || undefined,
+    lastUpdate: pr.closedDate ?? pr.creationDate,
+    merged: pr.status === 'completed',
+    sha: pr.lastMergeSourceCommit?.commitId,
+    branch: stripHeadsRef(pr.sourceRefName),
+  };
+}
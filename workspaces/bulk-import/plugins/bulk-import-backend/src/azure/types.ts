@@ -0,0 +1,93 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { SerializedError } from '@backstage/errors';
+
+/**
+ * An Azure DevOps project
+ */
+export type AzureOrganization = {
+  /**
+   * The project name
+   */
+  name: string;
+  id: string;
+  description?: string;
+  url?: string;
+  /**
+   * The Azure DevOps organization the project is part of
+   */
+  organization: string;
+};
+
+export type AzureRepository = {
+  name: string;
+  /**
+   * The full name of the repository in the form of project/repo
+   */
+  full_name: string;
+  /**
+   * The API url to the repository
+   */
+  url: string;
+  /**
+   * The HTML URL to the repository, webUrl in Azure DevOps
+   */
+  html_url: string;
+  /**
+   * The default "main" branch of the repository to place the `catalog-info.yaml` file into
+   */
+  default_branch: string;
+  /**
+   * The date-time the repository was last updated at
+   */
+  updated_at?: string | null;
+  /**
+   * Whether the repository is archived (or disabled), i.e. read-only
+   */
+  archived?: boolean;
+};
+
+export type AzureFetchError = {
+  type: 'token';
+  error: SerializedError;
+};
+
+export type AzureOrganizationResponse = {
+  organizations: AzureOrganization[];
+  errors: AzureFetchError[];
+  totalCount?: number;
+};
+
+export type AzureRepositoryResponse = {
+  repositories: AzureRepository[];
+  errors: AzureFetchError[];
+  totalCount?: number;
+};
+
+/**
+ * Location of a repository, parsed from URLs like https://dev.azure.com/<org>/<project>/_git/<repo>
+ */
+export type AzureRepoLocation = {
+  host: string;
+  organization: string;
+  /**
+   * The base URL of the organization (or collection for Azure DevOps Server)
+   */
+  organizationUrl: string;
+  project: string;
+  repo: string;
+};
@@ -0,0 +1,75 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { AzureFetchError, AzureRepoLocation } from '../types';
+
+export const AZURE_API_VERSION = '7.0';
+
+export const EMPTY_OBJECT_ID = '0000000000000000000000000000000000000000';
+
+/**
+ * Creates the AzureFetchError to be stored in the returned errors array of the returned AzureRepositoryResponse object
+ */
+export function createCredentialError(
+  err?: Error,
+): AzureFetchError | undefined {
+  if (err) {
+    return {
+      type: 'token',
+      error: {
+        name: err.name,
+        message: err.message,
+      },
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Parses repository URLs like:
+ *   - https://dev.azure.com/<org>/<project>/_git/<repo>
+ *   - https://<org>.visualstudio.com/<project>/_git/<repo>
+ *   - https://<server>/<collection>/<project>/_git/<repo>
+ */
+export function parseAzureRepoUrl(repoUrl: string): AzureRepoLocation {
+  const url = new URL(repoUrl);
+  const segments = url.pathname
+    .split('/')
+    .filter(segment => segment.length > 0)
+    .map(decodeURIComponent);
+  const gitIdx = segments.indexOf('_git');
+  if (gitIdx < 1 || gitIdx + 1 >= segments.length) {
+    throw new Error(`Invalid Azure DevOps repository URL: ${repoUrl}`);
+  }
+  const orgSegments = segments.slice(0, gitIdx - 1);
+  const organization =
+    orgSegments.length > 0
+      ? orgSegments[orgSegments.length - 1]
+      : url.hostname.split('.')[0];
+  return {
+    host: url.host,
+    organization,
+    organizationUrl: [url.origin, ...orgSegments.map(encodeURIComponent)].join(
+      '/',
+    ),
+    project: segments[gitIdx - 1],
+    repo: segments[gitIdx + 1],
+  };
+}
+
+export function stripHeadsRef(ref?: string) {
+  return ref?.replace(/^refs\/heads\//, '');
+}
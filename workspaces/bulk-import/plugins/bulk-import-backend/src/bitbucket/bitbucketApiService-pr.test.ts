@@ -0,0 +1,518 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { mockServices } from '@backstage/backend-test-utils';
+
+import gitUrlParse from 'git-url-parse';
+import { rest } from 'msw';
+import { setupServer } from 'msw/node';
+
+import { BitbucketApiService } from './bitbucketApiService';
+
+const CLOUD_API_URL = 'https://api.bitbucket.org/2.0';
+const CLOUD_REPO_URL = 'https://bitbucket.org/my-workspace/repo-a';
+const CLOUD_REPO_API_URL = `${CLOUD_API_URL}/repositories/my-workspace/repo-a`;
+
+const SERVER_URL = 'https://bitbucket.example.com';
+const SERVER_REPO_URL = `${SERVER_URL}/projects/PRJ/repos/my-repo`;
+const SERVER_REPO_API_URL = `${SERVER_URL}/rest/api/1.0/projects/PRJ/repos/my-repo`;
+
+const CATALOG_INFO_CONTENT = 'apiVersion: backstage.io/v1alpha1\n';
+const PR_SHA = '0123456789abcdef0123456789abcdef01234567';
+
+describe('BitbucketApiService Pull Request tests', () => {
+  const server = setupServer();
+  const logger = mockServices.logger.mock();
+  let bitbucketApiService: BitbucketApiService;
+
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+  afterEach(() => server.resetHandlers());
+  afterAll(() => server.close());
+
+  beforeEach(() => {
+    bitbucketApiService = new BitbucketApiService(
+      logger,
+      mockServices.rootConfig({
+        data: {
+          integrations: {
+            bitbucketCloud: [
+              {
+                username: 'my-user',
+                appPassword: 'my-app-password', // notsecret
+              },
+            ],
+            bitbucketServer: [
+              {
+                host: 'bitbucket.example.com',
+                apiBaseUrl: `${SERVER_URL}/rest/api/1.0`,
+                token: 'my-token', // notsecret
+              },
+            ],
+          },
+        },
+      }),
+    );
+  });
+
+  describe('Bitbucket Cloud', () => {
+    const openPr = {
+      id: 1,
+      title: 'Add catalog-info.yaml config file',
+      description: 'This PR adds a catalog-info.yaml file',
+      links: {
+        html: { href: `${CLOUD_REPO_URL}/pull-requests/1` },
+      },
+      updated_on: '2024-01-01T00:00:00.000Z',
+      source: {
+        branch: { name: 'backstage-integration' },
+        commit: { hash: PR_SHA },
+      },
+    };
+
+    it('should create the import branch, commit the catalog-info file and open a PR', async () => {
+      let createdBranch: any;
+      let commitForm: URLSearchParams | undefined;
+      let createdPr: any;
+      server.use(
+        rest.get(CLOUD_REPO_API_URL, (_req, res, ctx) =>
+          res(
+            ctx.json({
+              slug: 'repo-a',
+              full_name: 'my-workspace/repo-a',
+              mainbranch: { name: 'main' },
+            }),
+          ),
+        ),
+        rest.get(
+          `${CLOUD_REPO_API_URL}/src/main/catalog-info.yaml`,
+          (_req, res, ctx) =>
+            res(ctx.status(404), ctx.json({ error: { message: 'Not found' } })),
+        ),
+        rest.get(`${CLOUD_REPO_API_URL}/pullrequests`, (_req, res, ctx) =>
+          res(ctx.json({ values: [] })),
+        ),
+        rest.get(
+          `${CLOUD_REPO_API_URL}/refs/branches/:branch`,
+          (req, res, ctx) =>
+            req.params.branch === 'main'
+              ? res(ctx.json({ name: 'main', target: { hash: 'abc123' } }))
+              : res(
+                  ctx.status(404),
+                  ctx.json({ error: { message: 'Not found' } }),
+                ),
+        ),
+        rest.post(
+          `${CLOUD_REPO_API_URL}/refs/branches`,
+          async (req, res, ctx) => {
+            createdBranch = await req.json();
+            return res(ctx.status(201), ctx.json({}));
+          },
+        ),
+        rest.post(`${CLOUD_REPO_API_URL}/src`, async (req, res, ctx) => {
+          commitForm = new URLSearchParams(await req.text());
+          return res(ctx.status(201));
+        }),
+        rest.post(
+          `${CLOUD_REPO_API_URL}/pullrequests`,
+          async (req, res, ctx) => {
+            createdPr = await req.json();
+            return res(ctx.status(201), ctx.json(openPr));
+          },
+        ),
+      );
+
+      const result = await bitbucketApiService.submitPrToRepo(logger, {
+        repoUrl: CLOUD_REPO_URL,
+        gitUrl: gitUrlParse(CLOUD_REPO_URL),
+        prTitle: 'Add catalog-info.yaml config file',
+        prBody: 'This PR adds a catalog-info.yaml file',
+        catalogInfoContent: CATALOG_INFO_CONTENT,
+      });
+
+      expect(result).toEqual({
+        prNumber: 1,
+        prUrl: `${CLOUD_REPO_URL}/pull-requests/1`,
+        lastUpdate: '2024-01-01T00:00:00.000Z',
+        hasChanges: true,
+      });
+      expect(createdBranch).toEqual({
+        name: 'backstage-integration',
+        target: { hash: 'abc123' },
+      });
+      expect(commitForm?.get('branch')).toEqual('backstage-integration');
+      expect(commitForm?.get('message')).toEqual(
+        'Add catalog-info.yaml config file',
+      );
+      expect(commitForm?.get('/catalog-info.yaml')).toEqual(
+        CATALOG_INFO_CONTENT,
+      );
+      expect(createdPr).toEqual({
+        title: 'Add catalog-info.yaml config file',
+        description: 'This PR adds a catalog-info.yaml file',
+        source: { branch: { name: 'backstage-integration' } },
+        destination: { branch: { name: 'main' } },
+        close_source_branch: true,
+      });
+    });
+
+    it('should find the open import PR along with its catalog-info file', async () => {
+      let prQuery: string | null = null;
+      server.use(
+        rest.get(`${CLOUD_REPO_API_URL}/pullrequests`, (req, res, ctx) => {
+          prQuery = req.url.searchParams.get('q');
+          return res(ctx.json({ values: [openPr] }));
+        }),
+        rest.get(
+          `${CLOUD_REPO_API_URL}/src/${PR_SHA}/catalog-info.yaml`,
+          (_req, res, ctx) => res(ctx.text(CATALOG_INFO_CONTENT)),
+        ),
+      );
+
+      const result = await bitbucketApiService.findImportOpenPr(logger, {
+        repoUrl: CLOUD_REPO_URL,
+        includeCatalogInfoContent: true,
+      });
+
+      expect(result).toEqual({
+        prNum: 1,
+        prUrl: `${CLOUD_REPO_URL}/pull-requests/1`,
+        prTitle: 'Add catalog-info.yaml config file',
+        prBody: 'This PR adds a catalog-info.yaml file',
+        prCatalogInfoContent: CATALOG_INFO_CONTENT,
+        lastUpdate: '2024-01-01T00:00:00.000Z',
+      });
+      expect(prQuery).toEqual('source.branch.name = "backstage-integration"');
+    });
+
+    it('should decline the import PR and delete the import branch when the import is deleted', async () => {
+      let comment: any;
+      let declined = false;
+      let deletedBranch = false;
+      server.use(
+        rest.get(`${CLOUD_REPO_API_URL}/pullrequests`, (_req, res, ctx) =>
+          res(ctx.json({ values: [openPr] })),
+        ),
+        rest.post(
+          `${CLOUD_REPO_API_URL}/pullrequests/1/comments`,
+          async (req, res, ctx) => {
+            comment = await req.json();
+            return res(ctx.status(201), ctx.json({}));
+          },
+        ),
+        rest.post(
+          `${CLOUD_REPO_API_URL}/pullrequests/1/decline`,
+          (_req, res, ctx) => {
+            declined = true;
+            return res(ctx.json({}));
+          },
+        ),
+        rest.get(
+          `${CLOUD_REPO_API_URL}/refs/branches/backstage-integration`,
+          (_req, res, ctx) => res(ctx.json({ name: 'backstage-integration' })),
+        ),
+        rest.delete(
+          `${CLOUD_REPO_API_URL}/refs/branches/backstage-integration`,
+          (_req, res, ctx) => {
+            deletedBranch = true;
+            return res(ctx.status(204));
+          },
+        ),
+      );
+
+      await bitbucketApiService.closeImportPR(logger, {
+        repoUrl: CLOUD_REPO_URL,
+        gitUrl: gitUrlParse(CLOUD_REPO_URL),
+        comment: 'The repository was removed from the bulk import',
+      });
+      await bitbucketApiService.deleteImportBranch({
+        repoUrl: CLOUD_REPO_URL,
+        gitUrl: gitUrlParse(CLOUD_REPO_URL),
+      });
+
+      expect(comment).toEqual({
+        content: { raw: 'The repository was removed from the bulk import' },
+      });
+      expect(declined).toBe(true);
+      expect(deletedBranch).toBe(true);
+    });
+  });
+
+  describe('Bitbucket Server', () => {
+    const openPr = {
+      id: 1,
+      version: 2,
+      title: 'Add catalog-info.yaml config file',
+      description: 'This PR adds a catalog-info.yaml file',
+      links: {
+        self: [{ href: `${SERVER_REPO_URL}/pull-requests/1` }],
+      },
+      updatedDate: 1704067200000,
+      fromRef: {
+        displayId: 'backstage-integration',
+        latestCommit: PR_SHA,
+      },
+    };
+
+    function mockRepository() {
+      server.use(
+        rest.get(SERVER_REPO_API_URL, (_req, res, ctx) =>
+          res(
+            ctx.json({
+              slug: 'my-repo',
+              project: { key: 'PRJ' },
+              links: { self: [{ href: `${SERVER_REPO_URL}/browse` }] },
+            }),
+          ),
+        ),
+        rest.get(`${SERVER_REPO_API_URL}/default-branch`, (_req, res, ctx) =>
+          res(ctx.json({ displayId: 'main' })),
+        ),
+      );
+    }
+
+    it('should create the import branch, commit the catalog-info file and open a PR', async () => {
+      let createdBranch: any;
+      let xsrfToken: string | null = null;
+      let contentType: string | null = null;
+      let commitBody = '';
+      let createdPr: any;
+      mockRepository();
+      server.use(
+        rest.get(
+          `${SERVER_REPO_API_URL}/raw/catalog-info.yaml`,
+          (_req, res, ctx) =>
+            res(
+              ctx.status(404),
+              ctx.json({ errors: [{ message: 'Not found' }] }),
+            ),
+        ),
+        rest.get(`${SERVER_REPO_API_URL}/pull-requests`, (_req, res, ctx) =>
+          res(ctx.json({ values: [] })),
+        ),
+        rest.get(`${SERVER_REPO_API_URL}/branches`, (_req, res, ctx) =>
+          res(ctx.json({ values: [] })),
+        ),
+        rest.post(`${SERVER_REPO_API_URL}/branches`, async (req, res, ctx) => {
+          createdBranch = await req.json();
+          return res(ctx.json({}));
+        }),
+        rest.put(
+          `${SERVER_REPO_API_URL}/browse/catalog-info.yaml`,
+          async (req, res, ctx) => {
+            xsrfToken = req.headers.get('X-Atlassian-Token');
+            contentType = req.headers.get('Content-Type');
+            commitBody = await req.text();
+            return res(ctx.json({}));
+          },
+        ),
+        rest.post(
+          `${SERVER_REPO_API_URL}/pull-requests`,
+          async (req, res, ctx) => {
+            createdPr = await req.json();
+            return res(ctx.status(201), ctx.json(openPr));
+          },
+        ),
+      );
+
+      const result = await bitbucketApiService.submitPrToRepo(logger, {
+        repoUrl: SERVER_REPO_URL,
+        gitUrl: gitUrlParse(SERVER_REPO_URL),
+        prTitle: 'Add catalog-info.yaml config file',
+        prBody: 'This PR adds a catalog-info.yaml file',
+        catalogInfoContent: CATALOG_INFO_CONTENT,
+      });
+
+      expect(result).toEqual({
+        prNumber: 1,
+        prUrl: `${SERVER_REPO_URL}/pull-requests/1`,
+        lastUpdate: '2024-01-01T00:00:00.000Z',
+        hasChanges: true,
+      });
+      expect(createdBranch).toEqual({
+        name: 'backstage-integration',
+        startPoint: 'refs/heads/main',
+      });
+      expect(xsrfToken).toEqual('no-check');
+      expect(contentType).toMatch(/^multipart\/form-data; boundary=/);
+      expect(commitBody).toContain(
+        `Content-Disposition: form-data; name="content"\r\n\r\n${CATALOG_INFO_CONTENT}\r\n`,
+      );
+      expect(commitBody).toContain(
+        'Content-Disposition: form-data; name="branch"\r\n\r\nbackstage-integration\r\n',
+      );
+      expect(commitBody).not.toContain('name="sourceCommitId"');
+      expect(createdPr).toEqual({
+        title: 'Add catalog-info.yaml config file',
+        description: 'This PR adds a catalog-info.yaml file',
+        fromRef: { id: 'refs/heads/backstage-integration' },
+        toRef: { id: 'refs/heads/main' },
+      });
+    });
+
+    it('should update the catalog-info file and the existing import PR', async () => {
+      let commitBody = '';
+      let updatedPr: any;
+      mockRepository();
+      server.use(
+        rest.get(
+          `${SERVER_REPO_API_URL}/raw/catalog-info.yaml`,
+          (req, res, ctx) =>
+            req.url.searchParams.get('at') ===
+            'refs/heads/backstage-integration'
+              ? res(ctx.text('kind: Component\n'))
+              : res(
+                  ctx.status(404),
+                  ctx.json({ errors: [{ message: 'Not found' }] }),
+                ),
+        ),
+        rest.get(`${SERVER_REPO_API_URL}/pull-requests`, (_req, res, ctx) =>
+          res(ctx.json({ values: [openPr] })),
+        ),
+        rest.get(`${SERVER_REPO_API_URL}/branches`, (_req, res, ctx) =>
+          res(ctx.json({ values: [{ displayId: 'backstage-integration' }] })),
+        ),
+        rest.get(`${SERVER_REPO_API_URL}/commits`, (_req, res, ctx) =>
+          res(ctx.json({ values: [{ id: PR_SHA }] })),
+        ),
+        rest.put(
+          `${SERVER_REPO_API_URL}/browse/catalog-info.yaml`,
+          async (req, res, ctx) => {
+            commitBody = await req.text();
+            return res(ctx.json({}));
+          },
+        ),
+        rest.put(
+          `${SERVER_REPO_API_URL}/pull-requests/1`,
+          async (req, res, ctx) => {
+            updatedPr = await req.json();
+            return res(ctx.json({ ...openPr, version: 3 }));
+          },
+        ),
+      );
+
+      const result = await bitbucketApiService.submitPrToRepo(logger, {
+        repoUrl: SERVER_REPO_URL,
+        gitUrl: gitUrlParse(SERVER_REPO_URL),
+        prTitle: 'Add catalog-info.yaml config file',
+        prBody: 'Updated description',
+        catalogInfoContent: CATALOG_INFO_CONTENT,
+      });
+
+      expect(result).toEqual({
+        prNumber: 1,
+        prUrl: `${SERVER_REPO_URL}/pull-requests/1`,
+        lastUpdate: '2024-01-01T00:00:00.000Z',
+      });
+      expect(commitBody).toContain(
+        `Content-Disposition: form-data; name="sourceCommitId"\r\n\r\n${PR_SHA}\r\n`,
+      );
+      expect(updatedPr).toEqual({
+        version: 2,
+        title: 'Add catalog-info.yaml config file',
+        description: 'Updated description',
+      });
+    });
+
+    it('should find the open import PR along with its catalog-info file', async () => {
+      let prParams: URLSearchParams | undefined;
+      let fileRef: string | null = null;
+      server.use(
+        rest.get(`${SERVER_REPO_API_URL}/pull-requests`, (req, res, ctx) => {
+          prParams = req.url.searchParams;
+          return res(ctx.json({ values: [openPr] }));
+        }),
+        rest.get(
+          `${SERVER_REPO_API_URL}/raw/catalog-info.yaml`,
+          (req, res, ctx) => {
+            fileRef = req.url.searchParams.get('at');
+            return res(ctx.text(CATALOG_INFO_CONTENT));
+          },
+        ),
+      );
+
+      const result = await bitbucketApiService.findImportOpenPr(logger, {
+        repoUrl: SERVER_REPO_URL,
+        includeCatalogInfoContent: true,
+      });
+
+      expect(result).toEqual({
+        prNum: 1,
+        prUrl: `${SERVER_REPO_URL}/pull-requests/1`,
+        prTitle: 'Add catalog-info.yaml config file',
+        prBody: 'This PR adds a catalog-info.yaml file',
+        prCatalogInfoContent: CATALOG_INFO_CONTENT,
+        lastUpdate: '2024-01-01T00:00:00.000Z',
+      });
+      expect(prParams?.get('state')).toEqual('OPEN');
+      expect(prParams?.get('at')).toEqual('refs/heads/backstage-integration');
+      expect(fileRef).toEqual(PR_SHA);
+    });
+
+    it('should decline the import PR and delete the import branch when the import is deleted', async () => {
+      let comment: any;
+      let declinedVersion: string | null = null;
+      let deletedBranch: any;
+      server.use(
+        rest.get(`${SERVER_REPO_API_URL}/pull-requests`, (_req, res, ctx) =>
+          res(ctx.json({ values: [openPr] })),
+        ),
+        rest.post(
+          `${SERVER_REPO_API_URL}/pull-requests/1/comments`,
+          async (req, res, ctx) => {
+            comment = await req.json();
+            return res(ctx.status(201), ctx.json({}));
+          },
+        ),
+        rest.post(
+          `${SERVER_REPO_API_URL}/pull-requests/1/decline`,
+          (req, res, ctx) => {
+            declinedVersion = req.url.searchParams.get('version');
+            return res(ctx.json({}));
+          },
+        ),
+        rest.get(`${SERVER_REPO_API_URL}/branches`, (_req, res, ctx) =>
+          res(ctx.json({ values: [{ displayId: 'backstage-integration' }] })),
+        ),
+        rest.delete(
+          `${SERVER_URL}/rest/branch-utils/1.0/projects/PRJ/repos/my-repo/branches`,
+          async (req, res, ctx) => {
+            deletedBranch = await req.json();
+            return res(ctx.status(204));
+          },
+        ),
+      );
+
+      await bitbucketApiService.closeImportPR(logger, {
+        repoUrl: SERVER_REPO_URL,
+        gitUrl: gitUrlParse(SERVER_REPO_URL),
+        comment: 'The repository was removed from the bulk import',
+      });
+      await bitbucketApiService.deleteImportBranch({
+        repoUrl: SERVER_REPO_URL,
+        gitUrl: gitUrlParse(SERVER_REPO_URL),
+      });
+
+      expect(comment).toEqual({
+        text: 'The repository was removed from the bulk import',
+      });
+      expect(declinedVersion).toEqual('2');
+      expect(deletedBranch).toEqual({
+        name: 'refs/heads/backstage-integration',
+        dryRun: false,
+      });
+    });
+  });
+});
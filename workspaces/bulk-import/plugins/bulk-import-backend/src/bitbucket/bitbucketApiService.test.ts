@@ -0,0 +1,228 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { mockServices } from '@backstage/backend-test-utils';
+
+import fetch from 'node-fetch';
+
+import { BitbucketApiService } from './bitbucketApiService';
+
+jest.mock('node-fetch');
+
+const mockFetch = fetch as unknown as jest.Mock;
+
+function mockResponse(status: number, body?: unknown) {
+  return Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: `${status}`,
+    url: 'https://api.bitbucket.org',
+    headers: { get: () => 'application/json' },
+    text: () =>
+      Promise.resolve(
+        typeof body === 'string' ? body : JSON.stringify(body ?? {}),
+      ),
+  });
+}
+
+function mockRoutes(routes: Record<string, unknown>) {
+  mockFetch.mockImplementation((url: string) => {
+    const path = url.replace('https://api.bitbucket.org/2.0', '').split('?')[0];
+    if (path in routes) {
+      return mockResponse(200, routes[path]);
+    }
+    return mockResponse(404, { error: { message: 'Not found' } });
+  });
+}
+
+describe('BitbucketApiService tests', () => {
+  let bitbucketApiService: BitbucketApiService;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    const config = mockServices.rootConfig({
+      data: {
+        integrations: {
+          bitbucketCloud: [
+            {
+              username: 'my-user',
+              appPassword: 'my-app-password', // notsecret
+            },
+          ],
+        },
+      },
+    });
+    bitbucketApiService = new BitbucketApiService(
+      mockServices.logger.mock(),
+      config,
+    );
+  });
+
+  it('throws if there is no Bitbucket integration with credentials', async () => {
+    const service = new BitbucketApiService(
+      mockServices.logger.mock(),
+      mockServices.rootConfig({ data: {} }),
+    );
+
+    await expect(service.getRepositoriesFromIntegrations()).rejects.toThrow(
+      'Looks like there is no Bitbucket Integration in config',
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('returns the list of workspaces the user has access to', async () => {
+    mockRoutes({
+      '/user/permissions/workspaces': {
+        size: 1,
+        values: [
+          {
+            workspace: {
+              slug: 'my-workspace',
+              uuid: '{1234}',
+              name: 'My Workspace',
+              links: {
+                html: { href: 'https://bitbucket.org/my-workspace/' },
+              },
+            },
+          },
+        ],
+      },
+    });
+
+    const result = await bitbucketApiService.getOrganizationsFromIntegrations();
+
+    expect(result).toEqual({
+      organizations: [
+        {
+          name: 'my-workspace',
+          id: '{1234}',
+          description: 'My Workspace',
+          html_url: 'https://bitbucket.org/my-workspace/',
+        },
+      ],
+      errors: [],
+      totalCount: 1,
+    });
+  });
+
+  it('returns the list of repositories of a workspace', async () => {
+    mockRoutes({
+      '/repositories/my-workspace': {
+        size: 2,
+        values: [
+          {
+            slug: 'repo-a',
+            full_name: 'my-workspace/repo-a',
+            links: {
+              html: { href: 'https://bitbucket.org/my-workspace/repo-a' },
+            },
+            mainbranch: { name: 'master' },
+          },
+          {
+            slug: 'repo-b',
+            full_name: 'my-workspace/repo-b',
+            links: {
+              html: { href: 'https://bitbucket.org/my-workspace/repo-b' },
+            },
+          },
+        ],
+      },
+    });
+
+    const result =
+      await bitbucketApiService.getOrgRepositoriesFromIntegrations(
+        'my-workspace',
+      );
+
+    expect(result.errors).toEqual([]);
+    expect(result.totalCount).toEqual(2);
+    expect(result.repositories).toEqual([
+      expect.objectContaining({
+        name: 'repo-a',
+        full_name: 'my-workspace/repo-a',
+        html_url: 'https://bitbucket.org/my-workspace/repo-a',
+        default_branch: 'master',
+      }),
+      expect.objectContaining({
+        name: 'repo-b',
+        default_branch: 'main',
+      }),
+    ]);
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'https://api.bitbucket.org/2.0/repositories/my-workspace?',
+      ),
+      expect.objectContaining({
+        method: 'GET',
+        headers: expect.objectContaining({
+          Authorization: expect.stringMatching(/^Basic /),
+        }),
+      }),
+    );
+  });
+
+  it('returns the list of errors if the credentials are rejected', async () => {
+    mockFetch.mockImplementation(() =>
+      mockResponse(401, { error: { message: 'Unauthorized' } }),
+    );
+
+    const result = await bitbucketApiService.getRepositoriesFromIntegrations();
+
+    expect(result.repositories).toEqual([]);
+    expect(result.errors).toHaveLength(1);
+  });
+
+  it('checks whether a file exists in the default branch of a repository', async () => {
+    mockRoutes({
+      '/repositories/my-workspace/repo-a/src/main/catalog-info.yaml':
+        'apiVersion: backstage.io/v1alpha1',
+    });
+
+    await expect(
+      bitbucketApiService.hasFileInRepo({
+        repoUrl: 'https://bitbucket.org/my-workspace/repo-a',
+        defaultBranch: 'main',
+        fileName: 'catalog-info.yaml',
+      }),
+    ).resolves.toBe(true);
+    await expect(
+      bitbucketApiService.hasFileInRepo({
+        repoUrl: 'https://bitbucket.org/my-workspace/repo-a',
+        defaultBranch: 'dev',
+        fileName: 'catalog-info.yaml',
+      }),
+    ).resolves.toBe(false);
+  });
+
+  it('filters out locations from workspaces not accessible from the integrations', async () => {
+    mockRoutes({
+      '/user/permissions/workspaces': {
+        size: 1,
+        values: [{ workspace: { slug: 'my-workspace', uuid: '{1234}' } }],
+      },
+    });
+
+    const result =
+      await bitbucketApiService.filterLocationsAccessibleFromIntegrations([
+        'https://bitbucket.org/my-workspace/repo-a/src/main/catalog-info.yaml',
+        'https://bitbucket.org/other-workspace/repo-b/src/main/catalog-info.yaml',
+      ]);
+
+    expect(result).toEqual([
+      'https://bitbucket.org/my-workspace/repo-a/src/main/catalog-info.yaml',
+    ]);
+  });
+});
@@ -0,0 +1,613 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { LoggerService } from '@backstage/backend-plugin-api';
+import type { Config } from '@backstage/config';
+import {
+  getBitbucketCloudRequestOptions,
+  getBitbucketServerRequestOptions,
+  ScmIntegrations,
+} from '@backstage/integration';
+
+import gitUrlParse from 'git-url-parse';
+
+import { getBranchName, getCatalogFilename } from '../catalog/catalogUtils';
+import {
+  computeTotalCount,
+  extractLocationOwnerMap,
+  logErrorIfNeeded,
+} from '../helpers';
+import {
+  DefaultPageNumber,
+  DefaultPageSize,
+} from '../service/handlers/handlers';
+import {
+  BitbucketClient,
+  BitbucketFetchError,
+  BitbucketOrganization,
+  BitbucketOrganizationResponse,
+  BitbucketRepository,
+  BitbucketRepositoryResponse,
+} from './types';
+import { BitbucketCloudClient } from './utils/BitbucketCloudClient';
+import { BitbucketServerClient } from './utils/BitbucketServerClient';
+import { createCredentialError } from './utils/bbUtils';
+
+export class BitbucketApiService {
+  private readonly logger: LoggerService;
+  private readonly integrations: ScmIntegrations;
+  private readonly config: Config;
+
+  constructor(logger: LoggerService, config: Config) {
+    this.logger = logger;
+    this.config = config;
+    this.integrations = ScmIntegrations.fromConfig(config);
+  }
+
+  async getCredentials(repoUrl: string): Promise<{ token: string }> {
+    const client = await this.getClientForRepo(repoUrl);
+    const token = client.getToken();
+    if (!token) {
+      throw new Error(`Token not configured for 'bitbucket' provider`);
+    }
+    return {
+      token,
+    };
+  }
+
+  async getRepositoryFromIntegrations(repoUrl: string): Promise<{
+    repository?: BitbucketRepository;
+    errors?: BitbucketFetchError[];
+  }> {
+    const client = await this.getClientForRepo(repoUrl);
+    const gitUrl = gitUrlParse(repoUrl);
+    const repository = await client.getRepository(gitUrl.owner, gitUrl.name);
+    return {
+      repository,
+      errors: [],
+    };
+  }
+
+  async getOrganizationsFromIntegrations(
+    search?: string,
+    pageNumber: number = DefaultPageNumber,
+    pageSize: number = DefaultPageSize,
+  ): Promise<BitbucketOrganizationResponse> {
+    const organizations = new Map<string, BitbucketOrganization>();
+    const errors: BitbucketFetchError[] = [];
+    const counts: number[] = [];
+    for (const client of await this.verifyAndGetClients()) {
+      try {
+        const resp = await client.listOrganizations({
+          search,
+          pageNumber,
+          pageSize,
+        });
+        resp.organizations.forEach(org => organizations.set(org.name, org));
+        counts.push(resp.totalCount);
+        this.logger.debug(
+          `Got ${resp.totalCount} workspace(s)/project(s) for ${client.host}`,
+        );
+      } catch (err: any) {
+        this.handleError(
+          `Fetching organizations from ${client.host}`,
+          err,
+          errors,
+        );
+      }
+    }
+
+    const orgList = Array.from(organizations.values());
+    return {
+      organizations: orgList,
+      errors,
+      totalCount: computeTotalCount(orgList, counts, pageSize),
+    };
+  }
+
+  async getOrgRepositoriesFromIntegrations(
+    orgName: string,
+    search?: string,
+    pageNumber: number = DefaultPageNumber,
+    pageSize: number = DefaultPageSize,
+  ): Promise<BitbucketRepositoryResponse> {
+    return this.listRepositories(orgName, search, pageNumber, pageSize);
+  }
+
+  /**
+   * Returns BitbucketRepositoryResponse containing:
+   *   - a list of unique repositories the bitbucket integrations have access to
+   *   - a list of errors encountered by each integration (if any exist)
+   */
+  async getRepositoriesFromIntegrations(
+    search?: string,
+    pageNumber: number = DefaultPageNumber,
+    pageSize: number = DefaultPageSize,
+  ): Promise<BitbucketRepositoryResponse> {
+    return this.listRepositories(undefined, search, pageNumber, pageSize);
+  }
+
+  async filterLocationsAccessibleFromIntegrations(
+    locationUrls: string[],
+  ): Promise<string[]> {
+    const locationGitOwnerMap = extractLocationOwnerMap(locationUrls);
+
+    const allAccessibleOwners = new Set<string>();
+    for (const client of await this.getAllClients()) {
+      try {
+        let pageNumber = 1;
+        const pageSize = 100;
+        let hasMore = true;
+        while (hasMore) {
+          const resp = await client.listOrganizations({
+            pageNumber,
+            pageSize,
+          });
+          resp.organizations.forEach(org => allAccessibleOwners.add(org.name));
+          hasMore = resp.organizations.length === pageSize;
+          pageNumber++;
+        }
+      } catch (err: any) {
+        logErrorIfNeeded(
+          this.logger,
+          `failed to fetch bitbucket workspaces/projects from ${client.host}`,
+          err,
+        );
+      }
+    }
+
+    return locationUrls.filter(loc => {
+      if (!locationGitOwnerMap.has(loc)) {
+        return false;
+      }
+      return allAccessibleOwners.has(locationGitOwnerMap.get(loc)!);
+    });
+  }
+
+  async findImportOpenPr(
+    logger: LoggerService,
+    input: {
+      repoUrl: string;
+      includeCatalogInfoContent?: boolean;
+    },
+  ): Promise<{
+    prNum?: number;
+    prUrl?: string;
+    prTitle?: string;
+    prBody?: string;
+    prCatalogInfoContent?: string;
+    lastUpdate?: string;
+  }> {
+    const client = await this.getClientForRepo(input.repoUrl);
+    const gitUrl = gitUrlParse(input.repoUrl);
+    const branchName = getBranchName(this.config);
+    try {
+      const pr = await client.findOpenPullRequest(
+        gitUrl.owner,
+        gitUrl.name,
+        branchName,
+      );
+      if (!pr) {
+        return {};
+      }
+      let prCatalogInfoContent: string | undefined;
+      if (input.includeCatalogInfoContent) {
+        prCatalogInfoContent = await client.getFileContent(
+          gitUrl.owner,
+          gitUrl.name,
+          pr.sha ?? branchName,
+          getCatalogFilename(this.config),
+        );
+      }
+      return {
+        prNum: pr.number,
+        prUrl: pr.url,
+        prTitle: pr.title,
+        prBody: pr.body,
+        prCatalogInfoContent,
+        lastUpdate: pr.lastUpdate,
+      };
+    } catch (error: any) {
+      logErrorIfNeeded(logger, 'Error fetching pull requests', error);
+    }
+    return {};
+  }
+
+  async submitPrToRepo(
+    logger: LoggerService,
+    input: {
+      repoUrl: string;
+      gitUrl: gitUrlParse.GitUrl;
+      defaultBranch?: string;
+      prTitle: string;
+      prBody: string;
+      catalogInfoContent: string;
+    },
+  ): Promise<{
+    prUrl?: string;
+    prNumber?: number;
+    hasChanges?: boolean;
+    lastUpdate?: string;
+    errors?: string[];
+  }> {
+    const fileName = getCatalogFilename(this.config);
+    const branchName = getBranchName(this.config);
+    const owner = input.gitUrl.owner;
+    const repo = input.gitUrl.name;
+    try {
+      const client = await this.getClientForRepo(input.repoUrl);
+      const repoData = await client.getRepository(owner, repo);
+      if (!repoData) {
+        throw new Error(`Repository ${input.repoUrl} not found`);
+      }
+
+      // Check if there is already a catalogInfo in the default branch
+      const existingCatalogInfo = await client.getFileContent(
+        owner,
+        repo,
+        input.defaultBranch ?? repoData.default_branch,
+        fileName,
+      );
+      if (existingCatalogInfo !== undefined) {
+        // No need to create a PR => component will be imported as is
+        return {
+          hasChanges: false,
+        };
+      }
+
+      const existingPrForBranch = await client.findOpenPullRequest(
+        owner,
+        repo,
+        branchName,
+      );
+      if (!(await client.branchExists(owner, repo, branchName))) {
+        await client.createBranch(
+          owner,
+          repo,
+          branchName,
+          repoData.default_branch,
+        );
+      }
+      await client.commitFile(owner, repo, {
+        branch: branchName,
+        path: fileName,
+        content: input.catalogInfoContent,
+        message: `Add ${fileName} config file`,
+      });
+
+      if (existingPrForBranch) {
+        const pr = await client.updatePullRequest(
+          owner,
+          repo,
+          existingPrForBranch,
+          {
+            title: input.prTitle,
+            body: input.prBody,
+          },
+        );
+        return {
+          prNumber: pr.number,
+          prUrl: pr.url,
+          lastUpdate: pr.lastUpdate,
+        };
+      }
+
+      const pr = await client.createPullRequest(owner, repo, {
+        title: input.prTitle,
+        body: input.prBody,
+        sourceBranch: branchName,
+        targetBranch: repoData.default_branch,
+      });
+      return {
+        prNumber: pr.number,
+        prUrl: pr.url,
+        lastUpdate: pr.lastUpdate,
+        hasChanges: true,
+      };
+    } catch (e: any) {
+      logErrorIfNeeded(logger, `Couldn't create PR in ${input.repoUrl}`, e);
+      return {
+        errors: [e.message],
+      };
+    }
+  }
+
+  async hasFileInRepo(input: {
+    repoUrl: string;
+    defaultBranch?: string;
+    fileName: string;
+  }) {
+    const client = await this.getClientForRepo(input.repoUrl);
+    const gitUrl = gitUrlParse(input.repoUrl);
+    let branch = input.defaultBranch;
+    if (!branch) {
+      const repository = await client.getRepository(gitUrl.owner, gitUrl.name);
+      if (!repository) {
+        throw new Error(
+          `Could not determine if repo at ${input.repoUrl} already has a file named ${input.fileName} in its default branch`,
+        );
+      }
+      branch = repository.default_branch;
+    }
+    const content = await client.getFileContent(
+      gitUrl.owner,
+      gitUrl.name,
+      branch,
+      input.fileName,
+    );
+    return content !== undefined;
+  }
+
+  async getFileContentFromRepo(input: {
+    repoUrl: string;
+    defaultBranch?: string;
+    fileName: string;
+  }): Promise<string | undefined> {
+    try {
+      const client = await this.getClientForRepo(input.repoUrl);
+      const gitUrl = gitUrlParse(input.repoUrl);
+      let branch = input.defaultBranch;
+      if (!branch) {
+        const repository = await client.getRepository(
+          gitUrl.owner,
+          gitUrl.name,
+        );
+        if (!repository) {
+          return undefined;
+        }
+        branch = repository.default_branch;
+      }
+      return await client.getFileContent(
+        gitUrl.owner,
+        gitUrl.name,
+        branch,
+        input.fileName,
+      );
+    } catch (error: any) {
+      logErrorIfNeeded(
+        this.logger,
+        `Error fetching ${input.fileName} from ${input.repoUrl}`,
+        error,
+      );
+      return undefined;
+    }
+  }
+
+  async closeImportPR(
+    logger: LoggerService,
+    input: {
+      repoUrl: string;
+      gitUrl: gitUrlParse.GitUrl;
+      comment: string;
+    },
+  ) {
+    try {
+      const client = await this.getClientForRepo(input.repoUrl);
+      const owner = input.gitUrl.owner;
+      const repo = input.gitUrl.name;
+      const pr = await client.findOpenPullRequest(
+        owner,
+        repo,
+        getBranchName(this.config),
+      );
+      if (pr) {
+        await client.declinePullRequest(owner, repo, pr, input.comment);
+      }
+    } catch (e: any) {
+      logErrorIfNeeded(logger, `Couldn't close PR in ${input.repoUrl}`, e);
+    }
+  }
+
+  async deleteImportBranch(input: {
+    repoUrl: string;
+    gitUrl: gitUrlParse.GitUrl;
+  }) {
+    try {
+      const client = await this.getClientForRepo(input.repoUrl);
+      const owner = input.gitUrl.owner;
+      const repo = input.gitUrl.name;
+      const branchName = getBranchName(this.config);
+      if (await client.branchExists(owner, repo, branchName)) {
+        await client.deleteBranch(owner, repo, branchName);
+      }
+    } catch (e: any) {
+      logErrorIfNeeded(
+        this.logger,
+        `Couldn't close import PR and/or delete import branch in ${input.repoUrl}`,
+        e,
+      );
+    }
+  }
+
+  async isRepoEmpty(input: { repoUrl: string }) {
+    const client = await this.getClientForRepo(input.repoUrl);
+    const gitUrl = gitUrlParse(input.repoUrl);
+    return await client.isRepositoryEmpty(gitUrl.owner, gitUrl.name);
+  }
+
+  async getPullRequest(
+    repoUrl: string,
+    pullRequestNumber: number,
+  ): Promise<{
+    title?: string;
+    body?: string;
+    merged?: boolean;
+    lastUpdated?: string;
+    prSha?: string;
+    prBranch?: string;
+  }> {
+    try {
+      const client = await this.getClientForRepo(repoUrl);
+      const gitUrl = gitUrlParse(repoUrl);
+      const pr = await client.getPullRequest(
+        gitUrl.owner,
+        gitUrl.name,
+        pullRequestNumber,
+      );
+      if (pr) {
+        return {
+          title: pr.title,
+          body: pr.body,
+          merged: pr.merged,
+          lastUpdated: pr.lastUpdate,
+          prSha: pr.sha,
+          prBranch: pr.branch,
+        };
+      }
+    } catch (error: any) {
+      logErrorIfNeeded(
+        this.logger,
+        `Error fetching pull request ${pullRequestNumber} from ${repoUrl}`,
+        error,
+      );
+    }
+    return {};
+  }
+
+  async getCatalogInfoFile(
+    logger: LoggerService,
+    input: {
+      repoUrl: string;
+      prNumber: number;
+      prHeadSha: string;
+    },
+  ): Promise<string | undefined> {
+    try {
+      const client = await this.getClientForRepo(input.repoUrl);
+      const gitUrl = gitUrlParse(input.repoUrl);
+      const content = await client.getFileContent(
+        gitUrl.owner,
+        gitUrl.name,
+        input.prHeadSha,
+        getCatalogFilename(this.config),
+      );
+      if (content === undefined) {
+        logger.warn(
+          `catalog-info.yaml not found in PR ${input.prNumber} of ${input.repoUrl}`,
+        );
+      }
+      return content;
+    } catch (error: any) {
+      logErrorIfNeeded(
+        logger,
+        `Error fetching catalog-info.yaml from PR ${input.prNumber} of ${input.repoUrl}`,
+        error,
+      );
+      return undefined;
+    }
+  }
+
+  private async listRepositories(
+    owner: string | undefined,
+    search: string | undefined,
+    pageNumber: number,
+    pageSize: number,
+  ): Promise<BitbucketRepositoryResponse> {
+    const repositories = new Map<string, BitbucketRepository>();
+    const errors: BitbucketFetchError[] = [];
+    const counts: number[] = [];
+    for (const client of await this.verifyAndGetClients()) {
+      try {
+        const resp = await client.listRepositories({
+          owner,
+          search,
+          pageNumber,
+          pageSize,
+        });
+        resp.repositories.forEach(repo =>
+          repositories.set(repo.html_url, repo),
+        );
+        counts.push(resp.totalCount);
+        this.logger.debug(`Got ${resp.totalCount} repo(s) for ${client.host}`);
+      } catch (err: any) {
+        this.handleError(
+          `Fetching repositories from ${client.host}`,
+          err,
+          errors,
+        );
+      }
+    }
+
+    const repoList = Array.from(repositories.values());
+    return {
+      repositories: repoList,
+      errors,
+      totalCount: computeTotalCount(repoList, counts, pageSize),
+    };
+  }
+
+  private handleError(desc: string, err: any, errors: BitbucketFetchError[]) {
+    logErrorIfNeeded(this.logger, `${desc} failed`, err);
+    const credentialError = createCredentialError(err as Error);
+    if (credentialError) {
+      errors.push(credentialError);
+    }
+  }
+
+  /**
+   * Returns a client for each Bitbucket Cloud and Bitbucket Server integration having credentials configured
+   */
+  private async getAllClients(): Promise<BitbucketClient[]> {
+    const clients: BitbucketClient[] = [];
+    for (const integration of this.integrations.bitbucketCloud.list()) {
+      const { headers } = await getBitbucketCloudRequestOptions(
+        integration.config,
+      );
+      if (headers.Authorization) {
+        clients.push(new BitbucketCloudClient(integration.config, headers));
+      }
+    }
+    for (const integration of this.integrations.bitbucketServer.list()) {
+      const { headers } = getBitbucketServerRequestOptions(integration.config);
+      if (headers.Authorization) {
+        clients.push(new BitbucketServerClient(integration.config, headers));
+      }
+    }
+    return clients;
+  }
+
+  private async verifyAndGetClients(): Promise<BitbucketClient[]> {
+    const clients = await this.getAllClients();
+    if (clients.length === 0) {
+      this.logger.debug(
+        'No Bitbucket Integration with credentials in config => returning an empty list.',
+      );
+      throw new Error(
+        "Looks like there is no Bitbucket Integration in config. Please add a configuration entry under 'integrations.bitbucketCloud' or 'integrations.bitbucketServer'",
+      );
+    }
+    return clients;
+  }
+
+  private async getClientForRepo(repoUrl: string): Promise<BitbucketClient> {
+    const cloudConfig = this.integrations.bitbucketCloud.byUrl(repoUrl)?.config;
+    if (cloudConfig) {
+      const { headers } = await getBitbucketCloudRequestOptions(cloudConfig);
+      return new BitbucketCloudClient(cloudConfig, headers);
+    }
+    const serverConfig =
+      this.integrations.bitbucketServer.byUrl(repoUrl)?.config;
+    if (serverConfig) {
+      return new BitbucketServerClient(
+        serverConfig,
+        getBitbucketServerRequestOptions(serverConfig).headers,
+      );
+    }
+    throw new Error(
+      `No Bitbucket integration config found for repo ${repoUrl}. Please add a configuration entry under 'integrations.bitbucketCloud' or 'integrations.bitbucketServer'`,
+    );
+  }
+}
@@ -0,0 +1,178 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { SerializedError } from '@backstage/errors';
+
+/**
+ * A Bitbucket Cloud workspace or a Bitbucket Server project
+ */
+export type BitbucketOrganization = {
+  /**
+   * The workspace slug in Bitbucket Cloud, or the project key in Bitbucket Server
+   */
+  name: string;
+  id: string;
+  description?: string;
+  url?: string;
+  html_url?: string;
+  avatar_url?: string;
+};
+
+export type BitbucketRepository = {
+  name: string;
+  /**
+   * The full name of the repository in the form of owner/repo, owner being the workspace slug or project key
+   */
+  full_name: string;
+  /**
+   * The API url to the repository
+   */
+  url: string;
+  /**
+   * The HTML URL to the repository
+   */
+  html_url: string;
+  /**
+   * The default "main" branch of the repository to place the `catalog-info.yaml` file into
+   */
+  default_branch: string;
+  /**
+   * The date-time the repository was last updated at
+   */
+  updated_at?: string | null;
+  /**
+   * Whether the repository is archived (or disabled), i.e. read-only
+   */
+  archived?: boolean;
+};
+
+export type BitbucketPullRequest = {
+  number: number;
+  url: string;
+  title?: string;
+  body?: string;
+  lastUpdate?: string;
+  merged: boolean;
+  /**
+   * Latest commit of the source branch
+   */
+  sha?: string;
+  branch?: string;
+  /**
+   * Version of the pull request, needed by Bitbucket Server for optimistic locking
+   */
+  version?: number;
+};
+
+export type BitbucketFetchError = {
+  type: 'token';
+  error: SerializedError;
+};
+
+export type BitbucketOrganizationResponse = {
+  organizations: BitbucketOrganization[];
+  errors: BitbucketFetchError[];
+  totalCount?: number;
+};
+
+export type BitbucketRepositoryResponse = {
+  repositories: BitbucketRepository[];
+  errors: BitbucketFetchError[];
+  totalCount?: number;
+};
+
+/**
+ * Common operations needed by the bulk import on either Bitbucket Cloud or Bitbucket Server
+ */
+export interface BitbucketClient {
+  /**
+   * Host of the integration this client talks to
+   */
+  readonly host: string;
+  getToken(): string | undefined;
+  listOrganizations(options: {
+    search?: string;
+    pageNumber: number;
+    pageSize: number;
+  }): Promise<{ organizations: BitbucketOrganization[]; totalCount: number }>;
+  listRepositories(options: {
+    owner?: string;
+    search?: string;
+    pageNumber: number;
+    pageSize: number;
+  }): Promise<{ repositories: BitbucketRepository[]; totalCount: number }>;
+  getRepository(
+    owner: string,
+    repo: string,
+  ): Promise<BitbucketRepository | undefined>;
+  isRepositoryEmpty(owner: string, repo: string): Promise<boolean>;
+  getFileContent(
+    owner: string,
+    repo: string,
+    ref: string,
+    path: string,
+  ): Promise<string | undefined>;
+  branchExists(owner: string, repo: string, branch: string): Promise<boolean>;
+  createBranch(
+    owner: string,
+    repo: string,
+    branch: string,
+    startPoint: string,
+  ): Promise<void>;
+  deleteBranch(owner: string, repo: string, branch: string): Promise<void>;
+  commitFile(
+    owner: string,
+    repo: string,
+    options: {
+      branch: string;
+      path: string;
+      content: string;
+      message: string;
+    },
+  ): Promise<void>;
+  findOpenPullRequest(
+    owner: string,
+    repo: string,
+    branch: string,
+  ): Promise<BitbucketPullRequest | undefined>;
+  getPullRequest(
+    owner: string,
+    repo: string,
+    prNumber: number,
+  ): Promise<BitbucketPullRequest | undefined>;
+  createPullRequest(
+    owner: string,
+    repo: string,
+    options: {
+      title: string;
+      body: string;
+      sourceBranch: string;
+      targetBranch: string;
+    },
+  ): Promise<BitbucketPullRequest>;
+  updatePullRequest(
+    owner: string,
+    repo: string,
+    pr: BitbucketPullRequest,
+    options: { title: string; body: string },
+  ): Promise<BitbucketPullRequest>;
+  declinePullRequest(
+    owner: string,
+    repo: string,
+    pr: BitbucketPullRequest,
+    comment: string,
+  ): Promise<void>;
+}
@@ -0,0 +1,336 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { BitbucketCloudIntegrationConfig } from '@backstage/integration';
+
+import { isNotFoundError, sendJsonRequest, sendRequest } from '../../helpers';
+import type {
+  BitbucketClient,
+  BitbucketOrganization,
+  BitbucketPullRequest,
+  BitbucketRepository,
+} from '../types';
+import { encodePath } from './bbUtils';
+
+// See https://developer.atlassian.com/cloud/bitbucket/rest/intro/
+export class BitbucketCloudClient implements BitbucketClient {
+  readonly host: string;
+  private readonly config: BitbucketCloudIntegrationConfig;
+  private readonly headers: Record<string, string>;
+
+  constructor(
+    config: BitbucketCloudIntegrationConfig,
+    headers: Record<string, string>,
+  ) {
+    this.host = config.host;
+    this.config = config;
+    this.headers = headers;
+  }
+
+  getToken(): string | undefined {
+    return this.config.token ?? this.config.appPassword;
+  }
+
+  async listOrganizations(options: {
+    search?: string;
+    pageNumber: number;
+    pageSize: number;
+  }) {
+    const params = new URLSearchParams({
+      page: `${options.pageNumber}`,
+      pagelen: `${options.pageSize}`,
+    });
+    if (options.search) {
+      params.set('q', `workspace.name ~ "${options.search}"`);
+    }
+    const resp = await sendJsonRequest(
+      `${this.config.apiBaseUrl}/user/permissions/workspaces?${params}`,
+      this.headers,
+    );
+    const organizations: BitbucketOrganization[] = (resp?.values ?? []).map(
+      (permission: any) => ({
+        name: permission.workspace.slug,
+        id: permission.workspace.uuid,
+        description: permission.workspace.name,
+        url: permission.workspace.links?.self?.href,
+        html_url: permission.workspace.links?.html?.href,
+        avatar_url: permission.workspace.links?.avatar?.href,
+      }),
+    );
+    return {
+      organizations,
+      totalCount: resp?.size ?? organizations.length,
+    };
+  }
+
+  async listRepositories(options: {
+    owner?: string;
+    search?: string;
+    pageNumber: number;
+    pageSize: number;
+  }) {
+    const params = new URLSearchParams({
+      page: `${options.pageNumber}`,
+      pagelen: `${options.pageSize}`,
+    });
+    if (!options.owner) {
+      params.set('role', 'member');
+    }
+    if (options.search) {
+      params.set('q', `name ~ "${options.search}"`);
+    }
+    const path = options.owner
+      ? `/repositories/${encodeURIComponent(options.owner)}`
+      : '/repositories';
+    const resp = await sendJsonRequest(
+      `${this.config.apiBaseUrl}${path}?${params}`,
+      this.headers,
+    );
+    const repositories: BitbucketRepository[] = (resp?.values ?? []).map(
+      toRepository,
+    );
+    return {
+      repositories,
+      totalCount: resp?.size ?? repositories.length,
+    };
+  }
+
+  async getRepository(owner: string, repo: string) {
+    try {
+      return toRepository(
+        await sendJsonRequest(this.repoApiUrl(owner, repo), this.headers),
+      );
+    } catch (err: any) {
+      if (isNotFoundError(err)) {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  async isRepositoryEmpty(owner: string, repo: string) {
+    const resp = await sendJsonRequest(
+      `${this.repoApiUrl(owner, repo)}/commits?pagelen=1`,
+      this.headers,
+    );
+    return (resp?.values ?? []).length === 0;
+  }
+
+  async getFileContent(owner: string, repo: string, ref: string, path: string) {
+    try {
+      const resp = await sendRequest(
+        `${this.repoApiUrl(owner, repo)}/src/${encodeURIComponent(ref)}/${encodePath(path)}`,
+        this.headers,
+      );
+      return await resp.text();
+    } catch (err: any) {
+      if (isNotFoundError(err)) {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  async branchExists(owner: string, repo: string, branch: string) {
+    try {
+      await sendJsonRequest(
+        `${this.repoApiUrl(owner, repo)}/refs/branches/${encodeURIComponent(branch)}`,
+        this.headers,
+      );
+      return true;
+    } catch (err: any) {
+      if (isNotFoundError(err)) {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  async createBranch(
+    owner: string,
+    repo: string,
+    branch: string,
+    startPoint: string,
+  ) {
+    const startBranch = await sendJsonRequest(
+      `${this.repoApiUrl(owner, repo)}/refs/branches/${encodeURIComponent(startPoint)}`,
+      this.headers,
+    );
+    await sendJsonRequest(
+      `${this.repoApiUrl(owner, repo)}/refs/branches`,
+      this.headers,
+      {
+        method: 'POST',
+        body: {
+          name: branch,
+          target: { hash: startBranch.target.hash },
+        },
+      },
+    );
+  }
+
+  async deleteBranch(owner: string, repo: string, branch: string) {
+    await sendRequest(
+      `${this.repoApiUrl(owner, repo)}/refs/branches/${encodeURIComponent(branch)}`,
+      this.headers,
+      { method: 'DELETE' },
+    );
+  }
+
+  async commitFile(
+    owner: string,
+    repo: string,
+    options: {
+      branch: string;
+      path: string;
+      content: string;
+      message: string;
+    },
+  ) {
+    const form = new URLSearchParams({
+      message: options.message,
+      branch: options.branch,
+      [`/${options.path}`]: options.content,
+    });
+    await sendRequest(`${this.repoApiUrl(owner, repo)}/src`, this.headers, {
+      method: 'POST',
+      body: form.toString(),
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    });
+  }
+
+  async findOpenPullRequest(owner: string, repo: string, branch: string) {
+    const params = new URLSearchParams({
+      state: 'OPEN',
+      q: `source.branch.name = "${branch}"`,
+    });
+    const resp = await sendJsonRequest(
+      `${this.repoApiUrl(owner, repo)}/pullrequests?${params}`,
+      this.headers,
+    );
+    const pr = resp?.values?.[0];
+    return pr ? toPullRequest(pr) : undefined;
+  }
+
+  async getPullRequest(owner: string, repo: string, prNumber: number) {
+    try {
+      return toPullRequest(
+        await sendJsonRequest(
+          `${this.repoApiUrl(owner, repo)}/pullrequests/${prNumber}`,
+          this.headers,
+        ),
+      );
+    } catch (err: any) {
+      if (isNotFoundError(err)) {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  async createPullRequest(
+    owner: string,
+    repo: string,
+    options: {
+      title: string;
+      body: string;
+      sourceBranch: string;
+      targetBranch: string;
+    },
+  ) {
+    return toPullRequest(
+      await sendJsonRequest(
+        `${this.repoApiUrl(owner, repo)}/pullrequests`,
+        this.headers,
+        {
+          method: 'POST',
+          body: {
+            title: options.title,
+            description: options.body,
+            source: { branch: { name: options.sourceBranch } },
+            destination: { branch: { name: options.targetBranch } },
+            close_source_branch: true,
+          },
+        },
+      ),
+    );
+  }
+
+  async updatePullRequest(
+    owner: string,
+    repo: string,
+    pr: BitbucketPullRequest,
+    options: { title: string; body: string },
+  ) {
+    return toPullRequest(
+      await sendJsonRequest(
+        `${this.repoApiUrl(owner, repo)}/pullrequests/${pr.number}`,
+        this.headers,
+        {
+          method: 'PUT',
+          body: {
+            title: options.title,
+            description: options.body,
+          },
+        },
+      ),
+    );
+  }
+
+  async declinePullRequest(
+    owner: string,
+    repo: string,
+    pr: BitbucketPullRequest,
+    comment: string,
+  ) {
+    const prApiUrl = `${this.repoApiUrl(owner, repo)}/pullrequests/${pr.number}`;
+    await sendJsonRequest(`${prApiUrl}/comments`, this.headers, {
+      method: 'POST',
+      body: { content: { raw: comment } },
+    });
+    await sendJsonRequest(`${prApiUrl}/decline`, this.headers, {
+      method: 'POST',
+    });
+  }
+
+  private repoApiUrl(owner: string, repo: string) {
+    return `${this.config.apiBaseUrl}/repositories/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  }
+}
+
+function toRepository(repo: any): BitbucketRepository {
+  return {
+    name: repo.slug ?? repo.name,
+    full_name: repo.full_name,
+    url: repo.links?.self?.href,
+    html_url: repo.links?.html?.href,
+    default_branch: repo.mainbranch?.name ?? 'main',
+    updated_at: repo.updated_on,
+  };
+}
+
+function toPullRequest(pr: any): BitbucketPullRequest {
+  return {
+    number: pr.id,
+    url: pr.links?.html?.href,
+    title: pr.title,
+    body: pr.description || undefined,
+    lastUpdate: pr.updated_on,
+    merged: pr.state === 'MERGED',
+    sha: pr.source?.commit?.hash,
+    branch: pr.source?.branch?.name,
+  };
+}
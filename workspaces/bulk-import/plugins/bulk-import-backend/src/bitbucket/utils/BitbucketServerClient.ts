@@ -0,0 +1,407 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { BitbucketServerIntegrationConfig } from '@backstage/integration';
+
+import { isNotFoundError, sendJsonRequest, sendRequest } from '../../helpers';
+import type {
+  BitbucketClient,
+  BitbucketOrganization,
+  BitbucketPullRequest,
+  BitbucketRepository,
+} from '../types';
+import { encodePath } from './bbUtils';
+
+// See https://developer.atlassian.com/server/bitbucket/rest/
+export class BitbucketServerClient implements BitbucketClient {
+  readonly host: string;
+  private readonly config: BitbucketServerIntegrationConfig;
+  private readonly headers: Record<string, string>;
+
+  constructor(
+    config: BitbucketServerIntegrationConfig,
+    headers: Record<string, string>,
+  ) {
+    this.host = config.host;
+    this.config = config;
+    this.headers = headers;
+  }
+
+  getToken(): string | undefined {
+    return this.config.token ?? this.config.password;
+  }
+
+  async listOrganizations(options: {
+    search?: string;
+    pageNumber: number;
+    pageSize: number;
+  }) {
+    const params = pageParams(options.pageNumber, options.pageSize);
+    if (options.search) {
+      params.set('name', options.search);
+    }
+    const resp = await sendJsonRequest(
+      `${this.config.apiBaseUrl}/projects?${params}`,
+      this.headers,
+    );
+    const organizations: BitbucketOrganization[] = (resp?.values ?? []).map(
+      (project: any) => ({
+        name: project.key,
+        id: `${project.id}`,
+        description: project.description ?? project.name,
+        url: `${this.config.apiBaseUrl}/projects/${project.key}`,
+        html_url: project.links?.self?.[0]?.href,
+      }),
+    );
+    return {
+      organizations,
+      totalCount: estimateTotalCount(resp),
+    };
+  }
+
+  async listRepositories(options: {
+    owner?: string;
+    search?: string;
+    pageNumber: number;
+    pageSize: number;
+  }) {
+    const params = pageParams(options.pageNumber, options.pageSize);
+    let url: string;
+    if (options.owner) {
+      // The project repositories endpoint does not support filtering by name
+      url = `${this.config.apiBaseUrl}/projects/${encodeURIComponent(options.owner)}/repos?${params}`;
+    } else {
+      if (options.search) {
+        params.set('name', options.search);
+      }
+      url = `${this.config.apiBaseUrl}/repos?${params}`;
+    }
+    const resp = await sendJsonRequest(url, this.headers);
+    const values: any[] = (resp?.values ?? []).filter(
+      (repo: any) =>
+        !options.owner ||
+        !options.search ||
+        repo.name.toLowerCase().includes(options.search.toLowerCase()),
+    );
+    const repositories = await Promise.all(
+      values.map(repo => this.toRepository(repo)),
+    );
+    return {
+      repositories,
+      totalCount: estimateTotalCount(resp),
+    };
+  }
+
+  async getRepository(owner: string, repo: string) {
+    try {
+      return await this.toRepository(
+        await sendJsonRequest(this.repoApiUrl(owner, repo), this.headers),
+      );
+    } catch (err: any) {
+      if (isNotFoundError(err)) {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  async isRepositoryEmpty(owner: string, repo: string) {
+    const resp = await sendJsonRequest(
+      `${this.repoApiUrl(owner, repo)}/branches?limit=1`,
+      this.headers,
+    );
+    return (resp?.values ?? []).length === 0;
+  }
+
+  async getFileContent(owner: string, repo: string, ref: string, path: string) {
+    try {
+      const resp = await sendRequest(
+        `${this.repoApiUrl(owner, repo)}/raw/${encodePath(path)}?at=${encodeURIComponent(toRef(ref))}`,
+        this.headers,
+      );
+      return await resp.text();
+    } catch (err: any) {
+      if (isNotFoundError(err)) {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  async branchExists(owner: string, repo: string, branch: string) {
+    const resp = await sendJsonRequest(
+      `${this.repoApiUrl(owner, repo)}/branches?filterText=${encodeURIComponent(branch)}`,
+      this.headers,
+    );
+    return (resp?.values ?? []).some((b: any) => b.displayId === branch);
+  }
+
+  async createBranch(
+    owner: string,
+    repo: string,
+    branch: string,
+    startPoint: string,
+  ) {
+    await sendJsonRequest(
+      `${this.repoApiUrl(owner, repo)}/branches`,
+      this.headers,
+      {
+        method: 'POST',
+        body: {
+          name: branch,
+          startPoint: `refs/heads/${startPoint}`,
+        },
+      },
+    );
+  }
+
+  async deleteBranch(owner: string, repo: string, branch: string) {
+    const branchUtilsBaseUrl = this.config.apiBaseUrl.replace(
+      /\/rest\/api\/1\.0\/?$/,
+      '/rest/branch-utils/1.0',
+    );
+    await sendJsonRequest(
+      `${branchUtilsBaseUrl}/projects/${encodeURIComponent(owner)}/repos/${encodeURIComponent(repo)}/branches`,
+      this.headers,
+      {
+        method: 'DELETE',
+        body: {
+          name: `refs/heads/${branch}`,
+          dryRun: false,
+        },
+      },
+    );
+  }
+
+  async commitFile(
+    owner: string,
+    repo: string,
+    options: {
+      branch: string;
+      path: string;
+      content: string;
+      message: string;
+    },
+  ) {
+    const fields: Record<string, string> = {
+      content: options.content,
+      message: options.message,
+      branch: options.branch,
+    };
+    const existingContent = await this.getFileContent(
+      owner,
+      repo,
+      options.branch,
+      options.path,
+    );
+    if (existingContent !== undefined) {
+      // Updating an existing file requires the commit the change is based on
+      const commits = await sendJsonRequest(
+        `${this.repoApiUrl(owner, repo)}/commits?until=${encodeURIComponent(toRef(options.branch))}&limit=1`,
+        this.headers,
+      );
+      fields.sourceCommitId = commits?.values?.[0]?.id;
+    }
+    const boundary = `----bulk-import-${Date.now().toString(16)}`;
+    const body = Object.entries(fields)
+      .map(
+        ([name, value]) =>
+          `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`,
+      )
+      .join('')
+      .concat(`--${boundary}--\r\n`);
+    await sendRequest(
+      `${this.repoApiUrl(owner, repo)}/browse/${encodePath(options.path)}`,
+      this.headers,
+      {
+        method: 'PUT',
+        body,
+        headers: {
+          'Content-Type': `multipart/form-data; boundary=${boundary}`,
+          // Multipart requests are rejected by the XSRF protection without this header
+          'X-Atlassian-Token': 'no-check',
+        },
+      },
+    );
+  }
+
+  async findOpenPullRequest(owner: string, repo: string, branch: string) {
+    const params = new URLSearchParams({
+      state: 'OPEN',
+      direction: 'OUTGOING',
+      at: toRef(branch),
+    });
+    const resp = await sendJsonRequest(
+      `${this.repoApiUrl(owner, repo)}/pull-requests?${params}`,
+      this.headers,
+    );
+    const pr = resp?.values?.[0];
+    return pr ? toPullRequest(pr) : undefined;
+  }
+
+  async getPullRequest(owner: string, repo: string, prNumber: number) {
+    try {
+      return toPullRequest(
+        await sendJsonRequest(
+          `${this.repoApiUrl(owner, repo)}/pull-requests/${prNumber}`,
+          this.headers,
+        ),
+      );
+    } catch (err: any) {
+      if (isNotFoundError(err)) {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  async createPullRequest(
+    owner: string,
+    repo: string,
+    options: {
+      title: string;
+      body: string;
+      sourceBranch: string;
+      targetBranch: string;
+    },
+  ) {
+    return toPullRequest(
+      await sendJsonRequest(
+        `${this.repoApiUrl(owner, repo)}/pull-requests`,
+        this.headers,
+        {
+          method: 'POST',
+          body: {
+            title: options.title,
+            description: options.body,
+            fromRef: { id: toRef(options.sourceBranch) },
+            toRef: { id: toRef(options.targetBranch) },
+          },
+        },
+      ),
+    );
+  }
+
+  async updatePullRequest(
+    owner: string,
+    repo: string,
+    pr: BitbucketPullRequest,
+    options: { title: string; body: string },
+  ) {
+    return toPullRequest(
+      await sendJsonRequest(
+        `${this.repoApiUrl(owner, repo)}/pull-requests/${pr.number}`,
+        this.headers,
+        {
+          method: 'PUT',
+          body: {
+            version: pr.version,
+            title: options.title,
+            description: options.body,
+          },
+        },
+      ),
+    );
+  }
+
+  async declinePullRequest(
+    owner: string,
+    repo: string,
+    pr: BitbucketPullRequest,
+    comment: string,
+  ) {
+    const prApiUrl = `${this.repoApiUrl(owner, repo)}/pull-requests/${pr.number}`;
+    await sendJsonRequest(`${prApiUrl}/comments`, this.headers, {
+      method: 'POST',
+      body: { text: comment },
+    });
+    await sendJsonRequest(
+      `${prApiUrl}/decline?version=${pr.version ?? 0}`,
+      this.headers,
+      {
+        method: 'POST',
+        body: {},
+      },
+    );
+  }
+
+  private repoApiUrl(owner: string, repo: string) {
+    return `${this.config.apiBaseUrl}/projects/${encodeURIComponent(owner)}/repos/${encodeURIComponent(repo)}`;
+  }
+
+  private async toRepository(repo: any): Promise<BitbucketRepository> {
+    const owner = repo.project.key;
+    let defaultBranch = 'main';
+    try {
+      const resp = await sendJsonRequest(
+        `${this.repoApiUrl(owner, repo.slug)}/default-branch`,
+        this.headers,
+      );
+      defaultBranch = resp?.displayId ?? defaultBranch;
+    } catch (err: any) {
+      // Empty repositories do not have any default branch yet
+      if (!isNotFoundError(err)) {
+        throw err;
+      }
+    }
+    return {
+      name: repo.slug,
+      full_name: `${owner}/${repo.slug}`,
+      url: this.repoApiUrl(owner, repo.slug),
+      html_url: (repo.links?.self?.[0]?.href ?? '').replace(/\/browse$/, ''),
+      default_branch: defaultBranch,
+      archived: repo.archived,
+    };
+  }
+}
+
+function pageParams(pageNumber: number, pageSize: number) {
+  return new URLSearchParams({
+    start: `${(pageNumber - 1) * pageSize}`,
+    limit: `${pageSize}`,
+  });
+}
+
+function toRef(branchOrSha: string) {
+  if (branchOrSha.startsWith('refs/') || /^[0-9a-f]{40}$/.test(branchOrSha)) {
+    return branchOrSha;
+  }
+  return `refs/heads/${branchOrSha}`;
+}
+
+/**
+ * Bitbucket Server does not return the total number of elements, only whether the current page is the last one
+ */
+function estimateTotalCount(resp: any) {
+  const count = (resp?.start ?? 0) + (resp?.size ?? 0);
+  return resp?.isLastPage === false ? count + 1 : count;
+}
+
+function toPullRequest(pr: any): BitbucketPullRequest {
+  return {
+    number: pr.id,
+    url: pr.links?.self?.[0]?.href,
+    title: pr.title,
+    body: pr.description || undefined,
+    lastUpdate: pr.updatedDate
+      ? new Date(pr.updatedDate).toISOString()
+      : undefined,
+    merged: pr.state === 'MERGED',
+    sha: pr.fromRef?.latestCommit,
+    branch: pr.fromRef?.displayId,
+    version: pr.version,
+  };
+}
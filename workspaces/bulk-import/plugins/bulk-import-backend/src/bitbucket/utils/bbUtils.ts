@@ -0,0 +1,46 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { BitbucketFetchError } from '../types';
+
+/**
+ * Creates the BitbucketFetchError to be stored in the returned errors array of the returned BitbucketRepositoryResponse object
+ */
+export function createCredentialError(
+  err?: Error,
+): BitbucketFetchError | undefined {
+  if (err) {
+    return {
+      type: 'token',
+      error: {
+        name: err.name,
+        message: err.message,
+      },
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Encodes each segment of a file path, keeping the separators as is
+ */
+export function encodePath(path: string) {
+  return path
+    .split('/')
+    .filter(segment => segment.length > 0)
+    .map(encodeURIComponent)
+    .join('/');
+}
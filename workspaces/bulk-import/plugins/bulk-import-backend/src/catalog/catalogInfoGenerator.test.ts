@@ -18,8 +18,10 @@ import type { DiscoveryService } from '@backstage/backend-plugin-api';
 import { mockServices } from '@backstage/backend-test-utils';
 import type { CatalogClient } from '@backstage/catalog-client';
 
+import jsYaml from 'js-yaml';
 import fetch from 'node-fetch';
 
+import type { GitApiServices } from '../service/handlers/gitApiServices';
 import { CatalogHttpClient } from './catalogHttpClient';
 import { CatalogInfoGenerator } from './catalogInfoGenerator';
 
@@ -29,6 +31,7 @@ const mockBaseUrl = 'http://127.0.0.1:65535';
 
 describe('catalogInfoGenerator', () => {
   let catalogInfoGenerator: CatalogInfoGenerator;
+  let catalogHttpClient: CatalogHttpClient;
   let mockDiscovery: DiscoveryService;
 
   beforeEach(() => {
@@ -53,16 +56,14 @@ describe('catalogInfoGenerator', () => {
       }),
     });
     const logger = mockServices.logger.mock();
-    catalogInfoGenerator = new CatalogInfoGenerator(
+    catalogHttpClient = new CatalogHttpClient({
       logger,
-      new CatalogHttpClient({
-        logger,
-        config: mockServices.rootConfig({ data: {} }),
-        discovery: mockDiscovery,
-        auth: mockAuth,
-        catalogApi: mockCatalogClient,
-      }),
-    );
+      config: mockServices.rootConfig({ data: {} }),
+      discovery: mockDiscovery,
+      auth: mockAuth,
+      catalogApi: mockCatalogClient,
+    });
+    catalogInfoGenerator = new CatalogInfoGenerator(logger, catalogHttpClient);
   });
 
   afterEach(() => {
@@ -152,6 +153,239 @@ ${getDefaultCatalogInfoWithoutSeparators('my-org-4', 'my-repo-comp-42')}
       },
     );
   });
+
+  it('should use the annotation of the provider of the repository', async () => {
+    await expect(
+      catalogInfoGenerator.generateDefaultCatalogInfoContent(
+        'https://gitlab.com/my-group/my-repo',
+        false,
+      ),
+    ).resolves.toContain('gitlab.com/project-slug: my-group/my-repo');
+    await expect(
+      catalogInfoGenerator.generateDefaultCatalogInfoContent(
+        'https://bitbucket.org/my-workspace/my-repo',
+        false,
+      ),
+    ).resolves.toContain('bitbucket.org/project-slug: my-workspace/my-repo');
+    await expect(
+      catalogInfoGenerator.generateDefaultCatalogInfoContent(
+        'https://dev.azure.com/my-org/my-project/_git/my-repo',
+        false,
+      ),
+    ).resolves.toContain('dev.azure.com/project-repo: my-project/my-repo');
+  });
+
+  describe('with repository content', () => {
+    let files: Record<string, string>;
+    let gitApiServices: GitApiServices;
+
+    beforeEach(() => {
+      files = {};
+      const getFileContentFromRepo = jest.fn(
+        async (input: { fileName: string }) => files[input.fileName],
+      );
+      gitApiServices = {
+        githubApiService: { getFileContentFromRepo },
+        gitlabApiService: { getFileContentFromRepo },
+        bitbucketApiService: { getFileContentFromRepo },
+      } as unknown as GitApiServices;
+      catalogInfoGenerator = new CatalogInfoGenerator(
+        mockServices.logger.mock(),
+        catalogHttpClient,
+        gitApiServices,
+      );
+    });
+
+    it('should fall back to the analyze-location endpoint if no well-known file is found', async () => {
+      const repoUrl = 'https://github.com/my-org-5/my-repo-5';
+      await expect(
+        catalogInfoGenerator.generateDefaultCatalogInfoContent(
+          repoUrl,
+          true,
+          'main',
+        ),
+      ).resolves.toBe(getDefaultCatalogInfo('my-org-5', 'my-repo-5'));
+      expect(
+        gitApiServices.githubApiService.getFileContentFromRepo,
+      ).toHaveBeenCalledWith({
+        repoUrl,
+        defaultBranch: 'main',
+        fileName: 'package.json',
+      });
+      expect(fetch).toHaveBeenCalled();
+    });
+
+    it('should generate the component, its APIs and resources from the repository content', async () => {
+      files = {
+        '.github/CODEOWNERS': `# Owners of the repository
+* @my-org-6/my-team @someone
+/docs/ @my-org-6/tech-writers
+`,
+        'package.json': JSON.stringify({
+          name: '@my-org-6/my-service',
+          description: 'My service',
+          scripts: { start: 'node index.js' },
+        }),
+        'api/openapi.yaml': `openapi: 3.0.0
+info:
+  title: My service API
+  version: 1.0.0
+paths: {}
+`,
+        Dockerfile: 'FROM node:22',
+        'chart/Chart.yaml': `apiVersion: v2
+name: my-service-chart
+version: 0.1.0
+`,
+      };
+      const content =
+        await catalogInfoGenerator.generateDefaultCatalogInfoContent(
+          'https://github.com/my-org-6/my-repo-6',
+        );
+
+      const annotations = { 'github.com/project-slug': 'my-org-6/my-repo-6' };
+      expect(jsYaml.loadAll(content)).toEqual([
+        {
+          apiVersion: 'backstage.io/v1alpha1',
+          kind: 'Component',
+          metadata: {
+            name: 'my-service',
+            description: 'My service',
+            annotations,
+          },
+          spec: {
+            type: 'service',
+            lifecycle: 'unknown',
+            owner: 'my-team',
+            providesApis: ['my-service-api'],
+            dependsOn: [
+              'resource:my-service-container-image',
+              'resource:my-service-chart',
+            ],
+          },
+        },
+        {
+          apiVersion: 'backstage.io/v1alpha1',
+          kind: 'API',
+          metadata: {
+            name: 'my-service-api',
+            description: 'My service API',
+            annotations,
+          },
+          spec: {
+            type: 'openapi',
+            lifecycle: 'unknown',
+            owner: 'my-team',
+            definition: { $text: './api/openapi.yaml' },
+          },
+        },
+        {
+          apiVersion: 'backstage.io/v1alpha1',
+          kind: 'Resource',
+          metadata: { name: 'my-service-container-image', annotations },
+          spec: { type: 'container-image', owner: 'my-team' },
+        },
+        {
+          apiVersion: 'backstage.io/v1alpha1',
+          kind: 'Resource',
+          metadata: { name: 'my-service-chart', annotations },
+          spec: { type: 'helm-chart', owner: 'my-team' },
+        },
+      ]);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should ignore the malformed files of the repository', async () => {
+      files = {
+        'package.json': 'null',
+        'pom.xml': `<project>
+  <artifactId>my-app</artifactId>
+</project>`,
+        'api/openapi.yaml': `openapi: 3.0.0
+info:
+  title: [My, service, API]
+`,
+        'chart/Chart.yaml': `apiVersion: v2
+name: 42
+description:
+  text: My chart
+`,
+      };
+      const content =
+        await catalogInfoGenerator.generateDefaultCatalogInfoContent(
+          'https://github.com/my-org-8/my-repo-8',
+        );
+
+      const annotations = { 'github.com/project-slug': 'my-org-8/my-repo-8' };
+      expect(jsYaml.loadAll(content)).toEqual([
+        {
+          apiVersion: 'backstage.io/v1alpha1',
+          kind: 'Component',
+          metadata: { name: 'my-app', annotations },
+          spec: {
+            type: 'library',
+            lifecycle: 'unknown',
+            owner: 'my-org-8',
+            providesApis: ['my-app-api'],
+            dependsOn: ['resource:my-app-helm-chart'],
+          },
+        },
+        {
+          apiVersion: 'backstage.io/v1alpha1',
+          kind: 'API',
+          metadata: { name: 'my-app-api', annotations },
+          spec: {
+            type: 'openapi',
+            lifecycle: 'unknown',
+            owner: 'my-org-8',
+            definition: { $text: './api/openapi.yaml' },
+          },
+        },
+        {
+          apiVersion: 'backstage.io/v1alpha1',
+          kind: 'Resource',
+          metadata: { name: 'my-app-helm-chart', annotations },
+          spec: { type: 'helm-chart', owner: 'my-org-8' },
+        },
+      ]);
+    });
+
+    it('should read the repository content with the API of the provider of the repository', async () => {
+      files = {
+        'pom.xml': `<project>
+  <parent>
+    <artifactId>my-parent</artifactId>
+  </parent>
+  <artifactId>my-lib</artifactId>
+  <description>My library</description>
+</project>`,
+      };
+      const content =
+        await catalogInfoGenerator.generateDefaultCatalogInfoContent(
+          'https://gitlab.com/my-group/my-repo-7',
+        );
+
+      expect(jsYaml.loadAll(content)).toEqual([
+        {
+          apiVersion: 'backstage.io/v1alpha1',
+          kind: 'Component',
+          metadata: {
+            name: 'my-lib',
+            description: 'My library',
+            annotations: { 'gitlab.com/project-slug': 'my-group/my-repo-7' },
+          },
+          spec: {
+            type: 'library',
+            lifecycle: 'unknown',
+            owner: 'my-group',
+          },
+        },
+      ]);
+      expect(
+        gitApiServices.gitlabApiService.getFileContentFromRepo,
+      ).toHaveBeenCalled();
+    });
+  });
 });
 
 function getDefaultCatalogInfo(org: string, name: string): string {
@@ -15,34 +15,109 @@
  */
 
 import type { LoggerService } from '@backstage/backend-plugin-api';
+import type { Entity } from '@backstage/catalog-model';
 
 import gitUrlParse from 'git-url-parse';
 import jsYaml from 'js-yaml';
 
-import { logErrorIfNeeded } from '../helpers';
+import { parseAzureRepoUrl } from '../azure/utils/azureUtils';
+import { logErrorIfNeeded, parseGitURLForApprovalTool } from '../helpers';
+import {
+  getGitApiService,
+  type GitApiService,
+  type GitApiServices,
+} from '../service/handlers/gitApiServices';
 import { CatalogHttpClient } from './catalogHttpClient';
+import {
+  CODEOWNERS_PATHS,
+  HELM_CHART_PATHS,
+  OPENAPI_PATHS,
+  parseCodeowners,
+  parseDocument,
+  parseGoMod,
+  parsePackageJson,
+  parsePomXml,
+  toEntityName,
+} from './repositoryContent';
+
+type RepositoryFile = {
+  fileName: string;
+  content: string;
+};
+
+/**
+ * Returns the annotation used by the provider plugins to find the project of a repository
+ */
+function getProjectSlugAnnotation(repoUrl: string): [string, string] {
+  const gitUrl = gitUrlParse(repoUrl);
+  switch (parseGitURLForApprovalTool(repoUrl)) {
+    case 'GITLAB':
+      return ['gitlab.com/project-slug', `${gitUrl.owner}/${gitUrl.name}`];
+    case 'BITBUCKET':
+      return [
+        new URL(repoUrl).hostname === 'bitbucket.org'
+          ? 'bitbucket.org/project-slug'
+          : 'bitbucket.com/project-slug',
+        `${gitUrl.owner}/${gitUrl.name}`,
+      ];
+    case 'AZURE': {
+      const location = parseAzureRepoUrl(repoUrl);
+      return [
+        'dev.azure.com/project-repo',
+        `${location.project}/${location.repo}`,
+      ];
+    }
+    default:
+      return [
+        'github.com/project-slug',
+        `${gitUrl.organization}/${gitUrl.name}`,
+      ];
+  }
+}
+
+function toCatalogInfoContent(entities: object[]): string {
+  return entities
+    .map(
+      entity => `---
+${jsYaml.dump(entity)}`,
+    )
+    .join('\n');
+}
 
 export class CatalogInfoGenerator {
   private readonly logger: LoggerService;
   private readonly catalogHttpClient: CatalogHttpClient;
+  private readonly gitApiServices?: GitApiServices;
 
-  constructor(logger: LoggerService, catalogHttpClient: CatalogHttpClient) {
+  constructor(
+    logger: LoggerService,
+    catalogHttpClient: CatalogHttpClient,
+    gitApiServices?: GitApiServices,
+  ) {
     this.logger = logger;
     this.catalogHttpClient = catalogHttpClient;
+    this.gitApiServices = gitApiServices;
   }
 
+  /**
+   * Generates the catalog-info content to add to the repository.
+   * Unless analyzeLocation is false, the entities are guessed from the repository content (if the Git API services are available),
+   * or by the catalog analyze-location endpoint, before falling back to a default Component.
+   */
   async generateDefaultCatalogInfoContent(
     repoUrl: string,
     analyzeLocation: boolean = true,
+    defaultBranch?: string,
   ): Promise<string> {
     const gitUrl = gitUrlParse(repoUrl);
+    const [annotationKey, annotationValue] = getProjectSlugAnnotation(repoUrl);
     const defaultCatalogInfo = `---
 apiVersion: backstage.io/v1alpha1
 kind: Component
 metadata:
   name: ${gitUrl.name}
   annotations:
-    github.com/project-slug: ${gitUrl.organization}/${gitUrl.name}
+    ${annotationKey}: ${annotationValue}
 spec:
   type: other
   lifecycle: unknown
@@ -52,6 +127,14 @@ spec:
       return defaultCatalogInfo;
     }
 
+    const entitiesFromContent = await this.generateEntitiesFromContent(
+      repoUrl,
+      defaultBranch,
+    );
+    if (entitiesFromContent.length > 0) {
+      return toCatalogInfoContent(entitiesFromContent);
+    }
+
     let generatedEntities: any[] = [];
     try {
       generatedEntities = await this.catalogHttpClient.analyzeLocation(repoUrl);
@@ -68,11 +151,165 @@ spec:
       return defaultCatalogInfo;
     }
 
-    return generatedEntities
-      .map(
-        generatedEntity => `---
-${jsYaml.dump(generatedEntity.entity)}`,
-      )
-      .join('\n');
+    return toCatalogInfoContent(
+      generatedEntities.map(generatedEntity => generatedEntity.entity),
+    );
+  }
+
+  /**
+   * Inspects the well-known files of the repository (CODEOWNERS, build descriptors, OpenAPI documents, Dockerfile and Helm charts)
+   * to generate a Component, along with the APIs it provides and the Resources it depends on.
+   * Returns an empty list if none of those files could be found.
+   */
+  private async generateEntitiesFromContent(
+    repoUrl: string,
+    defaultBranch?: string,
+  ): Promise<Entity[]> {
+    if (!this.gitApiServices) {
+      return [];
+    }
+    let gitApiService: GitApiService;
+    try {
+      gitApiService = getGitApiService(
+        this.gitApiServices,
+        parseGitURLForApprovalTool(repoUrl),
+      );
+    } catch (error: any) {
+      logErrorIfNeeded(
+        this.logger,
+        `Could not inspect the content of ${repoUrl}`,
+        error,
+      );
+      return [];
+    }
+
+    const findFirstFile = async (
+      fileNames: string[],
+    ): Promise<RepositoryFile | undefined> => {
+      for (const fileName of fileNames) {
+        const content = await gitApiService.getFileContentFromRepo({
+          repoUrl,
+          defaultBranch,
+          fileName,
+        });
+        if (content !== undefined) {
+          return { fileName, content };
+        }
+      }
+      return undefined;
+    };
+
+    const [codeowners, packageJson, pomXml, goMod, openapi, dockerfile, chart] =
+      await Promise.all([
+        findFirstFile(CODEOWNERS_PATHS),
+        findFirstFile(['package.json']),
+        findFirstFile(['pom.xml']),
+        findFirstFile(['go.mod']),
+        findFirstFile(OPENAPI_PATHS),
+        findFirstFile(['Dockerfile', 'Containerfile']),
+        findFirstFile(HELM_CHART_PATHS),
+      ]);
+    if (
+      ![
+        codeowners,
+        packageJson,
+        pomXml,
+        goMod,
+        openapi,
+        dockerfile,
+        chart,
+      ].some(Boolean)
+    ) {
+      return [];
+    }
+
+    const gitUrl = gitUrlParse(repoUrl);
+    const [annotationKey, annotationValue] = getProjectSlugAnnotation(repoUrl);
+    const hints =
+      (packageJson && parsePackageJson(packageJson.content)) ??
+      (pomXml && parsePomXml(pomXml.content)) ??
+      (goMod && parseGoMod(goMod.content));
+    const name = hints?.name ?? toEntityName(gitUrl.name) ?? gitUrl.name;
+    const owner =
+      (codeowners && parseCodeowners(codeowners.content)) ??
+      gitUrl.organization;
+    const metadata = (entityName: string, description?: string) => ({
+      name: entityName,
+      ...(description ? { description } : {}),
+      annotations: { [annotationKey]: annotationValue },
+    });
+
+    const apis: Entity[] = [];
+    const openapiDoc = openapi && parseDocument(openapi.content);
+    if (openapi && openapiDoc) {
+      apis.push({
+        apiVersion: 'backstage.io/v1alpha1',
+        kind: 'API',
+        metadata: metadata(
+          `${name}-api`,
+          typeof openapiDoc.info?.title === 'string'
+            ? openapiDoc.info.title
+            : undefined,
+        ),
+        spec: {
+          type: 'openapi',
+          lifecycle: 'unknown',
+          owner,
+          definition: { $text: `./${openapi.fileName}` },
+        },
+      });
+    }
+
+    const resources: Entity[] = [];
+    if (dockerfile) {
+      resources.push({
+        apiVersion: 'backstage.io/v1alpha1',
+        kind: 'Resource',
+        metadata: metadata(`${name}-container-image`),
+        spec: {
+          type: 'container-image',
+          owner,
+        },
+      });
+    }
+    const chartDoc = chart && parseDocument(chart.content);
+    if (chartDoc) {
+      resources.push({
+        apiVersion: 'backstage.io/v1alpha1',
+        kind: 'Resource',
+        metadata: metadata(
+          toEntityName(chartDoc.name) ?? `${name}-helm-chart`,
+          typeof chartDoc.description === 'string'
+            ? chartDoc.description
+            : undefined,
+        ),
+        spec: {
+          type: 'helm-chart',
+          owner,
+        },
+      });
+    }
+
+    const component: Entity = {
+      apiVersion: 'backstage.io/v1alpha1',
+      kind: 'Component',
+      metadata: metadata(name, hints?.description),
+      spec: {
+        type: hints?.type ?? 'other',
+        lifecycle: 'unknown',
+        owner,
+        ...(apis.length > 0
+          ? { providesApis: apis.map(api => api.metadata.name) }
+          : {}),
+        ...(resources.length > 0
+          ? {
+              dependsOn: resources.map(
+                resource => `resource:${resource.metadata.name}`,
+              ),
+            }
+          : {}),
+      },
+    };
+    return [component, ...apis, ...resources];
   }
 }
@@ -61,4 +61,25 @@ describe('catalogUtils', () => {
       ),
     ).toBe(`${repoUrl}/blob/${defaultBranch}/my-catalog-info.yaml`);
   });
+
+  it('should return a Bitbucket Cloud catalog url', () => {
+    const repoUrl = 'https://bitbucket.org/my-workspace/my-repo';
+    expect(getCatalogUrl(mockServices.rootConfig(), repoUrl, 'dev')).toBe(
+      `${repoUrl}/src/dev/catalog-info.yaml`,
+    );
+  });
+
+  it('should return a Bitbucket Server catalog url', () => {
+    const repoUrl = 'https://bitbucket.example.com/projects/PRJ/repos/my-repo';
+    expect(getCatalogUrl(mockServices.rootConfig(), repoUrl, 'dev')).toBe(
+      `${repoUrl}/browse/catalog-info.yaml?at=refs/heads/dev`,
+    );
+  });
+
+  it('should return an Azure DevOps catalog url', () => {
+    const repoUrl = 'https://dev.azure.com/my-org/my-project/_git/my-repo';
+    expect(getCatalogUrl(mockServices.rootConfig(), repoUrl, 'dev')).toBe(
+      `${repoUrl}?path=/catalog-info.yaml&version=GBdev`,
+    );
+  });
 });
@@ -18,6 +18,7 @@ import type { Config } from '@backstage/config';
 
 import gitUrlParse from 'git-url-parse';
 
+import { buildRepoFileUrl, getRepoUrlFromLocation } from '../helpers';
 import { CatalogLocation } from './types';
 
 export function getCatalogFilename(config: Config): string {
@@ -39,7 +40,7 @@ export function getCatalogUrl(
   repoUrl: string,
   defaultBranch: string = 'main',
 ): string {
-  return `${repoUrl}/blob/${defaultBranch}/${getCatalogFilename(config)}`;
+  return buildRepoFileUrl(repoUrl, defaultBranch, getCatalogFilename(config));
 }
 
 export function filterLocations(
@@ -48,11 +49,10 @@ export function filterLocations(
 ) {
   return search
     ? res.filter(loc => {
-        const split = loc.target.split('/blob/');
-        if (split.length < 2) {
+        const repoUrl = getRepoUrlFromLocation(loc.target);
+        if (!repoUrl) {
           return false;
         }
-        const repoUrl = split[0];
         const gitUrl = gitUrlParse(repoUrl);
         return gitUrl.name.toLowerCase().includes(search.toLowerCase());
       })
@@ -0,0 +1,140 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  parseCodeowners,
+  parseGoMod,
+  parsePackageJson,
+  parsePomXml,
+  toEntityName,
+} from './repositoryContent';
+
+describe('repositoryContent', () => {
+  describe('toEntityName', () => {
+    it('should replace invalid characters and trim separators', () => {
+      expect(toEntityName('My Service!')).toBe('My-Service');
+      expect(toEntityName('-my_lib.')).toBe('my_lib');
+      expect(toEntityName('a'.repeat(70))).toHaveLength(63);
+      expect(toEntityName('!!!')).toBeUndefined();
+      expect(toEntityName(undefined)).toBeUndefined();
+      expect(toEntityName(42)).toBeUndefined();
+      expect(toEntityName({ name: 'my-service' })).toBeUndefined();
+    });
+  });
+
+  describe('parseCodeowners', () => {
+    it('should return the owner of the last catch-all rule', () => {
+      expect(
+        parseCodeowners(`
+# comment
+*.js @my-org/frontend
+* @my-org/old-team
+*       @my-org/my-team @someone # inline comment
+`),
+      ).toBe('my-team');
+    });
+
+    it('should return the owner of the first rule if there is no catch-all rule', () => {
+      expect(
+        parseCodeowners(`
+[Documentation]
+/docs/ someone@example.com
+/src/ @jdoe
+`),
+      ).toBe('user:jdoe');
+    });
+
+    it('should return undefined if no owner is declared', () => {
+      expect(parseCodeowners('# nothing here\n')).toBeUndefined();
+    });
+  });
+
+  describe('parsePackageJson', () => {
+    it('should detect websites, services and libraries', () => {
+      expect(
+        parsePackageJson(
+          JSON.stringify({ name: 'app', dependencies: { react: '^18' } }),
+        ),
+      ).toEqual({ name: 'app', description: undefined, type: 'website' });
+      expect(
+        parsePackageJson(
+          JSON.stringify({ name: 'srv', scripts: { start: 'node .' } }),
+        )?.type,
+      ).toBe('service');
+      expect(
+        parsePackageJson(
+          JSON.stringify({ name: '@scope/lib', main: 'index.js' }),
+        ),
+      ).toEqual({ name: 'lib', description: undefined, type: 'library' });
+    });
+
+    it('should return undefined for an invalid file', () => {
+      expect(parsePackageJson('{')).toBeUndefined();
+      expect(parsePackageJson('null')).toBeUndefined();
+      expect(parsePackageJson('[]')).toBeUndefined();
+      expect(parsePackageJson('"my-service"')).toBeUndefined();
+    });
+
+    it('should ignore fields that are not strings', () => {
+      expect(
+        parsePackageJson(
+          JSON.stringify({ name: 42, description: { text: 'My service' } }),
+        ),
+      ).toEqual({ name: undefined, description: undefined, type: 'other' });
+    });
+  });
+
+  describe('parsePomXml', () => {
+    it('should ignore the parent and dependencies artifacts', () => {
+      expect(
+        parsePomXml(`<project>
+  <!-- <artifactId>commented</artifactId> -->
+  <parent>
+    <artifactId>spring-boot-starter-parent</artifactId>
+  </parent>
+  <artifactId>my-app</artifactId>
+  <dependencies>
+    <dependency>
+      <artifactId>spring-boot-starter-web</artifactId>
+    </dependency>
+  </dependencies>
+</project>`),
+      ).toEqual({ name: 'my-app', description: undefined, type: 'service' });
+    });
+
+    it('should return undefined if there is no artifactId', () => {
+      expect(parsePomXml('<project></project>')).toBeUndefined();
+    });
+  });
+
+  describe('parseGoMod', () => {
+    it('should name the component after the module', () => {
+      expect(
+        parseGoMod(`module github.com/my-org/my-tool/v2
+
+go 1.22
+
+require github.com/spf13/cobra v1.8.0
+`),
+      ).toEqual({ name: 'my-tool', type: 'library' });
+      expect(
+        parseGoMod(`module example.com/api
+require github.com/gin-gonic/gin v1.10.0
+`),
+      ).toEqual({ name: 'api', type: 'service' });
+    });
+  });
+});
@@ -0,0 +1,225 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import jsYaml from 'js-yaml';
+
+/**
+ * Hints about the component gathered from the build descriptor of a repository
+ */
+export type ComponentHints = {
+  name?: string;
+  description?: string;
+  type?: string;
+};
+
+/**
+ * Locations where the CODEOWNERS file is looked up, in the order supported by the different providers
+ */
+export const CODEOWNERS_PATHS = [
+  '.github/CODEOWNERS',
+  '.gitlab/CODEOWNERS',
+  '.bitbucket/CODEOWNERS',
+  '.azuredevops/CODEOWNERS',
+  'CODEOWNERS',
+  'docs/CODEOWNERS',
+];
+
+export const OPENAPI_PATHS = [
+  'openapi.yaml',
+  'openapi.yml',
+  'openapi.json',
+  'api/openapi.yaml',
+  'api/openapi.yml',
+  'api/openapi.json',
+  'swagger.yaml',
+  'swagger.json',
+];
+
+export const HELM_CHART_PATHS = [
+  'Chart.yaml',
+  'chart/Chart.yaml',
+  'helm/Chart.yaml',
+];
+
+const WEBSITE_DEPENDENCIES = [
+  'react',
+  'vue',
+  '@angular/core',
+  'next',
+  'nuxt',
+  'svelte',
+];
+const JAVA_SERVICE_DEPENDENCIES = [
+  'spring-boot-starter-web',
+  'spring-boot-starter-webflux',
+  'quarkus-rest',
+  'quarkus-resteasy',
+  'micronaut-http-server',
+];
+const GO_SERVICE_MODULES = [
+  'github.com/gin-gonic/gin',
+  'github.com/labstack/echo',
+  'github.com/gofiber/fiber',
+  'github.com/gorilla/mux',
+  'github.com/go-chi/chi',
+  'google.golang.org/grpc',
+];
+
+/**
+ * Converts the value to a valid entity name: letters, digits and [-_.] separators, at most 63 characters
+ */
+export function toEntityName(value: unknown): string | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const name = value
+    .replace(/[^a-zA-Z0-9\-_.]+/g, '-')
+    .slice(0, 63)
+    .replace(/^[^a-zA-Z0-9]+|[^a-zA-Z0-9]+$/g, '');
+  return name || undefined;
+}
+
+/**
+ * Returns the owner of the whole repository declared in a CODEOWNERS file, as an entity reference.
+ * The owner of the catch-all (*) rule takes precedence over the owner of the first rule.
+ * Teams (\@org/team) are mapped to groups and users (\@user) to users; email owners are ignored.
+ */
+export function parseCodeowners(content: string): string | undefined {
+  const rules = content
+    .split('\n')
+    .map(line => line.replace(/#.*$/, '').trim())
+    // GitLab sections ([Section name] @owner) and Bitbucket/Azure group definitions are not file rules
+    .filter(line => line && !line.startsWith('[') && !line.startsWith('@'))
+    .map(line => {
+      const [pattern, ...owners] = line.split(/\s+/);
+      return {
+        pattern,
+        owners: owners.filter(owner => owner.startsWith('@')),
+      };
+    })
+    .filter(rule => rule.owners.length > 0);
+  // the last matching rule wins in CODEOWNERS files
+  const rule =
+    [...rules].reverse().find(r => r.pattern === '*' || r.pattern === '/') ??
+    rules[0];
+  if (!rule) {
+    return undefined;
+  }
+  const owner = rule.owners[0].slice(1);
+  if (owner.includes('/')) {
+    return toEntityName(owner.split('/').pop());
+  }
+  const user = toEntityName(owner);
+  return user ? `user:${user}` : undefined;
+}
+
+export function parsePackageJson(content: string): ComponentHints | undefined {
+  let pkg: any;
+  try {
+    pkg = JSON.parse(content);
+  } catch (_e) {
+    return undefined;
+  }
+  if (!pkg || typeof pkg !== 'object' || Array.isArray(pkg)) {
+    return undefined;
+  }
+  const dependencies = Object.keys({
+    ...pkg.dependencies,
+    ...pkg.devDependencies,
+  });
+  let type = 'other';
+  if (WEBSITE_DEPENDENCIES.some(dep => dependencies.includes(dep))) {
+    type = 'website';
+  } else if (pkg.scripts?.start) {
+    type = 'service';
+  } else if (pkg.main || pkg.exports || pkg.types) {
+    type = 'library';
+  }
+  return {
+    // scoped packages (@scope/name) are named after the package name only
+    name:
+      typeof pkg.name === 'string'
+        ? toEntityName(pkg.name.split('/').pop())
+        : undefined,
+    description:
+      typeof pkg.description === 'string' ? pkg.description : undefined,
+    type,
+  };
+}
+
+function getXmlElement(xml: string, tag: string): string | undefined {
+  return new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`).exec(xml)?.[1];
+}
+
+export function parsePomXml(content: string): ComponentHints | undefined {
+  // only keep the elements describing the project itself
+  const project = content
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<parent>[\s\S]*?<\/parent>/g, '')
+    .replace(/<dependencyManagement>[\s\S]*?<\/dependencyManagement>/g, '')
+    .replace(/<dependencies>[\s\S]*?<\/dependencies>/g, '')
+    .replace(/<build>[\s\S]*?<\/build>/g, '')
+    .replace(/<profiles>[\s\S]*?<\/profiles>/g, '');
+  const artifactId = getXmlElement(project, 'artifactId');
+  if (!artifactId) {
+    return undefined;
+  }
+  const packaging = getXmlElement(project, 'packaging') ?? 'jar';
+  let type = 'library';
+  if (
+    packaging === 'war' ||
+    JAVA_SERVICE_DEPENDENCIES.some(dep =>
+      content.includes(`<artifactId>${dep}</artifactId>`),
+    )
+  ) {
+    type = 'service';
+  }
+  return {
+    name: toEntityName(artifactId),
+    description: getXmlElement(project, 'description'),
+    type,
+  };
+}
+
+export function parseGoMod(content: string): ComponentHints | undefined {
+  const modulePath = /^module\s+(\S+)/m.exec(content)?.[1];
+  if (!modulePath) {
+    return undefined;
+  }
+  return {
+    name: toEntityName(
+      modulePath
+        .replace(/\/v\d+$/, '')
+        .split('/')
+        .pop(),
+    ),
+    type: GO_SERVICE_MODULES.some(mod => content.includes(mod))
+      ? 'service'
+      : 'library',
+  };
+}
+
+/**
+ * Parses a YAML or JSON document, returning undefined if it is not a valid object
+ */
+export function parseDocument(content: string): any {
+  try {
+    const doc = jsYaml.load(content);
+    return doc && typeof doc === 'object' ? doc : undefined;
+  } catch (_e) {
+    return undefined;
+  }
+}
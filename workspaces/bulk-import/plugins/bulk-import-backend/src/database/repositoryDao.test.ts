@@ -25,10 +25,13 @@ import { Knex } from 'knex';
 
 import { migrate } from './migration';
 import {
+  ImportBatchDao,
   OrchestratorWorkflowDao,
   paginateQuery,
   RepositoryDao,
+  RepositoryDriftDao,
   ScaffolderTaskDao,
+  ServiceNowChangeRequestDao,
   TaskLocationsDao,
 } from './repositoryDao';
 
@@ -863,4 +866,448 @@ describe('repositoryDao', () => {
       });
     });
   });
+
+  describe('ServiceNowChangeRequestDao', () => {
+    let knex: Knex;
+    let serviceNowChangeRequestDao: ServiceNowChangeRequestDao;
+
+    beforeEach(async () => {
+      knex = await createDatabase('SQLITE_3');
+      serviceNowChangeRequestDao = new ServiceNowChangeRequestDao(knex);
+    });
+
+    afterEach(async () => {
+      await knex.destroy();
+    });
+
+    describe('insertChangeRequest', () => {
+      it('should insert a new pending change request', async () => {
+        const result = await serviceNowChangeRequestDao.insertChangeRequest({
+          repositoryUrl: 'https://github.com/test/repo',
+          defaultBranch: 'main',
+          sysId: 'sys-123',
+          number: 'CHG0000123',
+          catalogInfoContent: 'apiVersion: backstage.io/v1alpha1',
+        });
+
+        expect(result).toBeGreaterThan(0);
+        const changeRequest =
+          await serviceNowChangeRequestDao.lastChangeRequestByRepoUrl(
+            'https://github.com/test/repo',
+          );
+        expect(changeRequest).toEqual(
+          expect.objectContaining({
+            id: result,
+            repositoryUrl: 'https://github.com/test/repo',
+            defaultBranch: 'main',
+            sysId: 'sys-123',
+            number: 'CHG0000123',
+            status: 'PENDING',
+            catalogInfoContent: 'apiVersion: backstage.io/v1alpha1',
+          }),
+        );
+      });
+    });
+
+    describe('lastChangeRequestByRepoUrl', () => {
+      it('should find the last change request of the repository', async () => {
+        await knex('servicenow_change_requests').insert([
+          {
+            repository_url: 'https://github.com/test/repo',
+            sys_id: 'sys-123',
+            number: 'CHG0000123',
+            status: 'REJECTED',
+            created_at: new Date('2024-01-01'),
+          },
+          {
+            repository_url: 'https://github.com/test/repo',
+            sys_id: 'sys-456',
+            number: 'CHG0000456',
+            status: 'PENDING',
+            created_at: new Date('2024-01-02'),
+          },
+        ]);
+
+        const result =
+          await serviceNowChangeRequestDao.lastChangeRequestByRepoUrl(
+            'https://github.com/test/repo',
+          );
+
+        expect(result?.sysId).toBe('sys-456');
+        expect(result?.status).toBe('PENDING');
+      });
+
+      it('should return undefined if no change request found', async () => {
+        const result =
+          await serviceNowChangeRequestDao.lastChangeRequestByRepoUrl(
+            'https://github.com/test/repo',
+          );
+
+        expect(result).toBeUndefined();
+      });
+    });
+
+    describe('findNotApprovedChangeRequests', () => {
+      beforeEach(async () => {
+        await knex('servicenow_change_requests').insert([
+          {
+            repository_url: 'https://github.com/test/repo1',
+            sys_id: 'sys-1',
+            number: 'CHG0000001',
+            status: 'REJECTED',
+          },
+          {
+            repository_url: 'https://github.com/test/repo1',
+            sys_id: 'sys-2',
+            number: 'CHG0000002',
+            status: 'PENDING',
+          },
+          {
+            repository_url: 'https://github.com/test/repo2',
+            sys_id: 'sys-3',
+            number: 'CHG0000003',
+            status: 'APPROVED',
+          },
+          {
+            repository_url: 'https://github.com/other/project',
+            sys_id: 'sys-4',
+            number: 'CHG0000004',
+            status: 'REJECTED',
+          },
+        ]);
+      });
+
+      it('should only return the last change request of repositories not approved yet', async () => {
+        const result =
+          await serviceNowChangeRequestDao.findNotApprovedChangeRequests();
+
+        expect(result.map(cr => cr.sysId)).toEqual(['sys-4', 'sys-2']);
+      });
+
+      it('should filter change requests by repository URL', async () => {
+        const result =
+          await serviceNowChangeRequestDao.findNotApprovedChangeRequests(
+            'repo',
+          );
+
+        expect(result.map(cr => cr.sysId)).toEqual(['sys-2']);
+      });
+    });
+
+    describe('updateStatus', () => {
+      it('should update the status of the change request', async () => {
+        await serviceNowChangeRequestDao.insertChangeRequest({
+          repositoryUrl: 'https://github.com/test/repo',
+          sysId: 'sys-123',
+          number: 'CHG0000123',
+        });
+
+        await serviceNowChangeRequestDao.updateStatus('sys-123', 'APPROVED');
+
+        expect(
+          await serviceNowChangeRequestDao.findChangeRequestsByStatus(
+            'PENDING',
+          ),
+        ).toHaveLength(0);
+        const approved =
+          await serviceNowChangeRequestDao.findChangeRequestsByStatus(
+            'APPROVED',
+          );
+        expect(approved).toHaveLength(1);
+        expect(approved[0].sysId).toBe('sys-123');
+      });
+    });
+
+    describe('deleteChangeRequestsByRepoUrl', () => {
+      it('should delete all change requests of the repository', async () => {
+        await serviceNowChangeRequestDao.insertChangeRequest({
+          repositoryUrl: 'https://github.com/test/repo',
+          sysId: 'sys-123',
+          number: 'CHG0000123',
+        });
+        await serviceNowChangeRequestDao.insertChangeRequest({
+          repositoryUrl: 'https://github.com/test/other-repo',
+          sysId: 'sys-456',
+          number: 'CHG0000456',
+        });
+
+        await serviceNowChangeRequestDao.deleteChangeRequestsByRepoUrl(
+          'https://github.com/test/repo',
+        );
+
+        expect(
+          await serviceNowChangeRequestDao.lastChangeRequestByRepoUrl(
+            'https://github.com/test/repo',
+          ),
+        ).toBeUndefined();
+        expect(
+          await serviceNowChangeRequestDao.lastChangeRequestByRepoUrl(
+            'https://github.com/test/other-repo',
+          ),
+        ).toBeDefined();
+      });
+    });
+  });
+
+  describe('RepositoryDriftDao', () => {
+    let knex: Knex;
+    let repositoryDriftDao: RepositoryDriftDao;
+
+    beforeEach(async () => {
+      knex = await createDatabase('SQLITE_3');
+      repositoryDriftDao = new RepositoryDriftDao(knex);
+    });
+
+    afterEach(async () => {
+      await knex.destroy();
+    });
+
+    it('should replace all the drifts', async () => {
+      await repositoryDriftDao.replaceDrifts([
+        {
+          repositoryUrl: 'https://github.com/test/repo',
+          status: 'CATALOG_INFO_MISSING',
+          locationId: 'loc-1',
+          locationTarget:
+            'https://github.com/test/repo/blob/main/catalog-info.yaml',
+          defaultBranch: 'main',
+        },
+        {
+          repositoryUrl: 'https://github.com/test/other-repo',
+          status: 'LOCATION_ORPHANED',
+          locationTarget:
+            'https://github.com/test/other-repo/blob/main/catalog-info.yaml',
+        },
+      ]);
+      await repositoryDriftDao.replaceDrifts([
+        {
+          repositoryUrl: 'https://github.com/test/repo',
+          status: 'DEFAULT_BRANCH_CHANGED',
+          locationId: 'loc-1',
+          locationTarget:
+            'https://github.com/test/repo/blob/master/catalog-info.yaml',
+          defaultBranch: 'main',
+        },
+      ]);
+
+      const drifts = await repositoryDriftDao.findDrifts();
+      expect(drifts).toHaveLength(1);
+      expect(drifts[0]).toEqual(
+        expect.objectContaining({
+          repositoryUrl: 'https://github.com/test/repo',
+          status: 'DEFAULT_BRANCH_CHANGED',
+          locationId: 'loc-1',
+          locationTarget:
+            'https://github.com/test/repo/blob/master/catalog-info.yaml',
+          defaultBranch: 'main',
+        }),
+      );
+    });
+
+    it('should find drifts by repository URL or search', async () => {
+      await repositoryDriftDao.replaceDrifts([
+        {
+          repositoryUrl: 'https://github.com/test/repo',
+          status: 'REPOSITORY_ARCHIVED',
+          locationTarget:
+            'https://github.com/test/repo/blob/main/catalog-info.yaml',
+        },
+        {
+          repositoryUrl: 'https://github.com/test/other-repo',
+          status: 'LOCATION_ORPHANED',
+          locationTarget:
+            'https://github.com/test/other-repo/blob/main/catalog-info.yaml',
+        },
+      ]);
+
+      expect(
+        await repositoryDriftDao.findDriftByRepoUrl(
+          'https://github.com/test/repo',
+        ),
+      ).toEqual(expect.objectContaining({ status: 'REPOSITORY_ARCHIVED' }));
+      expect(
+        (await repositoryDriftDao.findDrifts('other')).map(
+          drift => drift.repositoryUrl,
+        ),
+      ).toEqual(['https://github.com/test/other-repo']);
+    });
+
+    it('should delete the drift of a repository', async () => {
+      await repositoryDriftDao.replaceDrifts([
+        {
+          repositoryUrl: 'https://github.com/test/repo',
+          status: 'REPOSITORY_ARCHIVED',
+          locationTarget:
+            'https://github.com/test/repo/blob/main/catalog-info.yaml',
+        },
+      ]);
+
+      await repositoryDriftDao.deleteDriftByRepoUrl(
+        'https://github.com/test/repo',
+      );
+
+      expect(
+        await repositoryDriftDao.findDriftByRepoUrl(
+          'https://github.com/test/repo',
+        ),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('ImportBatchDao', () => {
+    let knex: Knex;
+    let importBatchDao: ImportBatchDao;
+
+    beforeEach(async () => {
+      knex = await createDatabase('SQLITE_3');
+      importBatchDao = new ImportBatchDao(knex);
+    });
+
+    afterEach(async () => {
+      await knex.destroy();
+    });
+
+    it('should create a batch with its items in the manifest order', async () => {
+      await importBatchDao.createBatch('batch-1', [
+        {
+          importRequest: {
+            approvalTool: 'GIT',
+            repository: { url: 'https://github.com/test/repo' },
+          },
+        },
+        {
+          importRequest: {
+            approvalTool: 'GITLAB',
+            repository: { url: 'https://gitlab.com/test/other-repo' },
+          },
+          template: 'template:default/import',
+        },
+      ]);
+
+      const batch = await importBatchDao.findBatchById('batch-1');
+      expect(batch).toEqual(
+        expect.objectContaining({ id: 'batch-1', status: 'PENDING' }),
+      );
+      expect(batch?.items).toEqual([
+        expect.objectContaining({
+          position: 0,
+          repositoryUrl: 'https://github.com/test/repo',
+          importRequest: {
+            approvalTool: 'GIT',
+            repository: { url: 'https://github.com/test/repo' },
+          },
+          template: undefined,
+          status: 'PENDING',
+          result: undefined,
+        }),
+        expect.objectContaining({
+          position: 1,
+          repositoryUrl: 'https://gitlab.com/test/other-repo',
+          template: 'template:default/import',
+          status: 'PENDING',
+        }),
+      ]);
+    });
+
+    it('should return undefined if batch not found', async () => {
+      expect(await importBatchDao.findBatchById('unknown')).toBeUndefined();
+    });
+
+    it('should update the batch and its items', async () => {
+      await importBatchDao.createBatch('batch-1', [
+        {
+          importRequest: {
+            repository: { url: 'https://github.com/test/repo' },
+          },
+        },
+      ]);
+      await importBatchDao.createBatch('batch-2', [
+        {
+          importRequest: {
+            repository: { url: 'https://github.com/test/other-repo' },
+          },
+        },
+      ]);
+      const itemId = (await importBatchDao.findBatchById('batch-1'))!.items[0]
+        .id;
+
+      await importBatchDao.updateItem(itemId, {
+        status: 'SUCCEEDED',
+        result: { status: 'WAIT_PR_APPROVAL' },
+      });
+      await importBatchDao.updateBatchStatus('batch-1', 'COMPLETED');
+
+      const batch = await importBatchDao.findBatchById('batch-1');
+      expect(batch?.status).toEqual('COMPLETED');
+      expect(batch?.items[0]).toEqual(
+        expect.objectContaining({
+          status: 'SUCCEEDED',
+          result: { status: 'WAIT_PR_APPROVAL' },
+        }),
+      );
+      expect(await importBatchDao.findUnfinishedBatchIds()).toEqual([
+        'batch-2',
+      ]);
+    });
+
+    it('should claim the pending items one after the other', async () => {
+      await importBatchDao.createBatch('batch-1', [
+        {
+          importRequest: {
+            repository: { url: 'https://github.com/test/repo' },
+          },
+        },
+        {
+          importRequest: {
+            repository: { url: 'https://github.com/test/other-repo' },
+          },
+        },
+      ]);
+
+      const [first, second, third] = await Promise.all([
+        importBatchDao.claimNextItem('batch-1'),
+        importBatchDao.claimNextItem('batch-1'),
+        importBatchDao.claimNextItem('batch-1'),
+      ]);
+
+      expect(
+        [first, second, third].map(item => item?.repositoryUrl).sort(),
+      ).toEqual([
+        'https://github.com/test/other-repo',
+        'https://github.com/test/repo',
+        undefined,
+      ]);
+      const batch = await importBatchDao.findBatchById('batch-1');
+      expect(batch?.items.map(item => item.status)).toEqual([
+        'IN_PROGRESS',
+        'IN_PROGRESS',
+      ]);
+    });
+
+    it('should put the interrupted items back to pending', async () => {
+      await importBatchDao.createBatch('batch-1', [
+        {
+          importRequest: {
+            repository: { url: 'https://github.com/test/repo' },
+          },
+        },
+        {
+          importRequest: {
+            repository: { url: 'https://github.com/test/other-repo' },
+          },
+        },
+      ]);
+      const claimed = await importBatchDao.claimNextItem('batch-1');
+      await importBatchDao.updateItem(claimed!.id, { status: 'SUCCEEDED' });
+      await importBatchDao.claimNextItem('batch-1');
+
+      expect(await importBatchDao.resetInterruptedItems()).toEqual(1);
+
+      const batch = await importBatchDao.findBatchById('batch-1');
+      expect(batch?.items.map(item => item.status)).toEqual([
+        'SUCCEEDED',
+        'PENDING',
+      ]);
+    });
+  });
 });
@@ -279,3 +279,373 @@ export class OrchestratorWorkflowDao {
       });
   }
 }
+
+export type ServiceNowChangeRequestStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface ServiceNowChangeRequest {
+  id: number;
+  repositoryUrl: string;
+  defaultBranch?: string;
+  sysId: string;
+  number: string;
+  status: ServiceNowChangeRequestStatus;
+  catalogInfoContent?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const serviceNowChangeRequestColumns = {
+  id: 'id',
+  repositoryUrl: 'repository_url',
+  defaultBranch: 'default_branch',
+  sysId: 'sys_id',
+  number: 'number',
+  status: 'status',
+  catalogInfoContent: 'catalog_info_content',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+// @internal
+export class ServiceNowChangeRequestDao {
+  constructor(private readonly knex: Knex<any, any[]>) {}
+
+  async insertChangeRequest(changeRequest: {
+    repositoryUrl: string;
+    defaultBranch?: string;
+    sysId: string;
+    number: string;
+    catalogInfoContent?: string;
+  }): Promise<number> {
+    const [newChangeRequest] = await this.knex('servicenow_change_requests')
+      .insert({
+        repository_url: changeRequest.repositoryUrl,
+        default_branch: changeRequest.defaultBranch,
+        sys_id: changeRequest.sysId,
+        number: changeRequest.number,
+        status: 'PENDING',
+        catalog_info_content: changeRequest.catalogInfoContent,
+      })
+      .returning('id');
+    return newChangeRequest.id;
+  }
+
+  async lastChangeRequestByRepoUrl(
+    repositoryUrl: string,
+  ): Promise<ServiceNowChangeRequest | undefined> {
+    return await this.knex('servicenow_change_requests')
+      .select(serviceNowChangeRequestColumns)
+      .where({ repository_url: repositoryUrl })
+      .orderBy([
+        { column: 'created_at', order: 'desc' },
+        { column: 'id', order: 'desc' },
+      ])
+      .first();
+  }
+
+  async findChangeRequestsByStatus(
+    status: ServiceNowChangeRequestStatus,
+  ): Promise<ServiceNowChangeRequest[]> {
+    return await this.knex('servicenow_change_requests')
+      .select(serviceNowChangeRequestColumns)
+      .where({ status })
+      .orderBy('id');
+  }
+
+  /**
+   * Returns the last change request of each repository whose import was not approved yet.
+   */
+  async findNotApprovedChangeRequests(
+    search?: string,
+  ): Promise<ServiceNowChangeRequest[]> {
+    const lastIds = this.knex('servicenow_change_requests')
+      .max('id')
+      .groupBy('repository_url');
+    const query = this.knex('servicenow_change_requests')
+      .select(serviceNowChangeRequestColumns)
+      .whereIn('id', lastIds)
+      .whereNot({ status: 'APPROVED' })
+      .orderBy('repository_url');
+    if (search) {
+      if (this.knex.client.dialect === 'postgres') {
+        query.whereILike('repository_url', `%${search}%`);
+      } else {
+        query.whereLike('repository_url', `%${search}%`);
+      }
+    }
+    return await query;
+  }
+
+  async updateStatus(
+    sysId: string,
+    status: ServiceNowChangeRequestStatus,
+  ): Promise<void> {
+    await this.knex('servicenow_change_requests')
+      .where({ sys_id: sysId })
+      .update({ status, updated_at: this.knex.fn.now() });
+  }
+
+  async deleteChangeRequestsByRepoUrl(repositoryUrl: string): Promise<void> {
+    await this.knex('servicenow_change_requests')
+      .where({ repository_url: repositoryUrl })
+      .del();
+  }
+}
+
+export type RepositoryDriftStatus =
+  | 'CATALOG_INFO_MISSING'
+  | 'DEFAULT_BRANCH_CHANGED'
+  | 'REPOSITORY_ARCHIVED'
+  | 'LOCATION_ORPHANED';
+
+export interface RepositoryDrift {
+  id: number;
+  repositoryUrl: string;
+  status: RepositoryDriftStatus;
+  locationId?: string;
+  locationTarget: string;
+  defaultBranch?: string;
+  detectedAt: Date;
+}
+
+export type NewRepositoryDrift = Omit<RepositoryDrift, 'id' | 'detectedAt'>;
+
+const repositoryDriftColumns = {
+  id: 'id',
+  repositoryUrl: 'repository_url',
+  status: 'status',
+  locationId: 'location_id',
+  locationTarget: 'location_target',
+  defaultBranch: 'default_branch',
+  detectedAt: 'detected_at',
+};
+
+// @internal
+export class RepositoryDriftDao {
+  constructor(private readonly knex: Knex<any, any[]>) {}
+
+  /**
+   * Replaces all the known drifts with the ones found by the last detection run.
+   * Drifts that were not detected again are considered resolved.
+   */
+  async replaceDrifts(drifts: NewRepositoryDrift[]): Promise<void> {
+    await this.knex.transaction(async trx => {
+      await trx('repository_drifts').del();
+      if (drifts.length === 0) {
+        return;
+      }
+      await trx('repository_drifts').insert(
+        drifts.map(drift => ({
+          repository_url: drift.repositoryUrl,
+          status: drift.status,
+          location_id: drift.locationId,
+          location_target: drift.locationTarget,
+          default_branch: drift.defaultBranch,
+        })),
+      );
+    });
+  }
+
+  async findDriftByRepoUrl(
+    repositoryUrl: string,
+  ): Promise<RepositoryDrift | undefined> {
+    return await this.knex('repository_drifts')
+      .select(repositoryDriftColumns)
+      .where({ repository_url: repositoryUrl })
+      .first();
+  }
+
+  async findDrifts(search?: string): Promise<RepositoryDrift[]> {
+    const query = this.knex('repository_drifts')
+      .select(repositoryDriftColumns)
+      .orderBy('repository_url');
+    if (search) {
+      if (this.knex.client.dialect === 'postgres') {
+        query.whereILike('repository_url', `%${search}%`);
+      } else {
+        query.whereLike('repository_url', `%${search}%`);
+      }
+    }
+    return await query;
+  }
+
+  async deleteDriftByRepoUrl(repositoryUrl: string): Promise<void> {
+    await this.knex('repository_drifts')
+      .where({ repository_url: repositoryUrl })
+      .del();
+  }
+}
+
+export type ImportBatchStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED';
+
+export type ImportBatchItemStatus =
+  | 'PENDING'
+  | 'IN_PROGRESS'
+  | 'SUCCEEDED'
+  | 'FAILED';
+
+export interface ImportBatchItem {
+  id: number;
+  batchId: string;
+  position: number;
+  repositoryUrl: string;
+  importRequest: Components.Schemas.ImportRequest;
+  template?: string;
+  status: ImportBatchItemStatus;
+  result?: Components.Schemas.Import;
+  updatedAt: Date;
+}
+
+export interface ImportBatch {
+  id: string;
+  status: ImportBatchStatus;
+  createdAt: Date;
+  updatedAt: Date;
+  items: ImportBatchItem[];
+}
+
+export type NewImportBatchItem = Pick<
+  ImportBatchItem,
+  'importRequest' | 'template'
+>;
+
+const importBatchColumns = {
+  id: 'id',
+  status: 'status',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+const importBatchItemColumns = {
+  id: 'id',
+  batchId: 'batch_id',
+  position: 'position',
+  repositoryUrl: 'repository_url',
+  importRequest: 'import_request',
+  template: 'template',
+  status: 'status',
+  result: 'result',
+  updatedAt: 'updated_at',
+};
+
+function toImportBatchItem(row: any): ImportBatchItem {
+  return {
+    ...row,
+    template: row.template ?? undefined,
+    importRequest: JSON.parse(row.importRequest),
+    result: row.result ? JSON.parse(row.result) : undefined,
+  };
+}
+
+// @internal
+export class ImportBatchDao {
+  constructor(private readonly knex: Knex<any, any[]>) {}
+
+  async createBatch(
+    batchId: string,
+    items: NewImportBatchItem[],
+  ): Promise<void> {
+    await this.knex.transaction(async trx => {
+      await trx('import_batches').insert({ id: batchId, status: 'PENDING' });
+      await trx('import_batch_items').insert(
+        items.map((item, position) => ({
+          batch_id: batchId,
+          position,
+          repository_url: item.importRequest.repository.url,
+          import_request: JSON.stringify(item.importRequest),
+          template: item.template,
+          status: 'PENDING',
+        })),
+      );
+    });
+  }
+
+  async findBatchById(batchId: string): Promise<ImportBatch | undefined> {
+    const batch = await this.knex('import_batches')
+      .select(importBatchColumns)
+      .where({ id: batchId })
+      .first();
+    if (!batch) {
+      return undefined;
+    }
+    const items = await this.knex('import_batch_items')
+      .select(importBatchItemColumns)
+      .where({ batch_id: batchId })
+      .orderBy('position');
+    return { ...batch, items: items.map(toImportBatchItem) };
+  }
+
+  /**
+   * Returns the IDs of the batches that were not fully processed, e.g., because the backend was restarted in the meantime.
+   */
+  async findUnfinishedBatchIds(): Promise<string[]> {
+    const batches = await this.knex('import_batches')
+      .select('id')
+      .whereNot({ status: 'COMPLETED' })
+      .orderBy('created_at');
+    return batches.map(batch => batch.id);
+  }
+
+  /**
+   * Claims the next pending item of the batch, in the manifest order.
+   * An item is only claimed while it is still pending, so that it is never processed twice.
+   */
+  async claimNextItem(batchId: string): Promise<ImportBatchItem | undefined> {
+    let item = await this.findNextPendingItem(batchId);
+    while (item) {
+      const claimed = await this.knex('import_batch_items')
+        .where({ id: item.id, status: 'PENDING' })
+        .update({ status: 'IN_PROGRESS', updated_at: this.knex.fn.now() });
+      if (claimed > 0) {
+        return toImportBatchItem({ ...item, status: 'IN_PROGRESS' });
+      }
+      // Claimed by someone else in the meantime
+      item = await this.findNextPendingItem(batchId);
+    }
+    return undefined;
+  }
+
+  /**
+   * Puts the items whose processing was interrupted, e.g., by a restart of the backend, back to pending.
+   *
+   * @returns the number of interrupted items
+   */
+  async resetInterruptedItems(): Promise<number> {
+    return this.knex('import_batch_items')
+      .where({ status: 'IN_PROGRESS' })
+      .update({ status: 'PENDING', updated_at: this.knex.fn.now() });
+  }
+
+  private async findNextPendingItem(batchId: string): Promise<any> {
+    return this.knex('import_batch_items')
+      .select(importBatchItemColumns)
+      .where({ batch_id: batchId, status: 'PENDING' })
+      .orderBy('position')
+      .first();
+  }
+
+  async updateBatchStatus(
+    batchId: string,
+    status: ImportBatchStatus,
+  ): Promise<void> {
+    await this.knex('import_batches')
+      .where({ id: batchId })
+      .update({ status, updated_at: this.knex.fn.now() });
+  }
+
+  async updateItem(
+    itemId: number,
+    update: {
+      status: ImportBatchItemStatus;
+      result?: Components.Schemas.Import;
+    },
+  ): Promise<void> {
+    await this.knex('import_batch_items')
+      .where({ id: itemId })
+      .update({
+        status: update.status,
+        result: update.result ? JSON.stringify(update.result) : null,
+        updated_at: this.knex.fn.now(),
+      });
+  }
+}
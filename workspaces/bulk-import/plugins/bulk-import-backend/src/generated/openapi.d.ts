@@ -40,7 +40,30 @@ declare namespace Components {
         approvalToolParam?: Parameters.ApprovalToolParam;
     }
     namespace Schemas {
-        export type ApprovalTool = "GIT" | "SERVICENOW" | "GITLAB";
+        export type ApprovalTool = "GIT" | "SERVICENOW" | "GITLAB" | "BITBUCKET" | "AZURE";
+        export interface ChangeRequest {
+            /**
+             * URL of the ServiceNow change request
+             */
+            url?: string;
+            /**
+             * ServiceNow change request number
+             */
+            number?: string;
+            /**
+             * sys_id of the ServiceNow change request
+             */
+            sysId?: string;
+            /**
+             * short description of the ServiceNow change request
+             */
+            title?: string;
+            /**
+             * description of the ServiceNow change request
+             */
+            body?: string;
+            status?: "PENDING" | "APPROVED" | "REJECTED";
+        }
         /**
          * Import Job
          */
@@ -79,7 +102,85 @@ declare namespace Components {
             github?: {
                 pullRequest?: PullRequest;
             };
+            /**
+             * Bitbucket details. Applicable if approvalTool is bitbucket.
+             */
+            bitbucket?: {
+                pullRequest?: PullRequest;
+            };
+            /**
+             * Azure DevOps details. Applicable if approvalTool is azure.
+             */
+            azure?: {
+                pullRequest?: PullRequest;
+            };
+            /**
+             * ServiceNow details. Applicable if approvalTool is servicenow.
+             */
+            servicenow?: {
+                changeRequest?: ChangeRequest;
+            };
+            drift?: /* Drift detected between the catalog and an imported repository. Applicable if status is one of the DRIFT_* values. */ RepositoryDrift;
         }
+        /**
+         * Import batch submitted from a manifest
+         */
+        export interface ImportBatch {
+            id?: string;
+            status?: /* Import batch status */ ImportBatchStatus;
+            createdAt?: string; // date-time
+            lastUpdate?: string; // date-time
+            /**
+             * aggregate progress of the batch
+             */
+            progress?: {
+                total?: number;
+                pending?: number;
+                inProgress?: number;
+                succeeded?: number;
+                failed?: number;
+            };
+            items?: /* Repository of an Import batch */ ImportBatchItem[];
+        }
+        /**
+         * Repository of an Import batch
+         */
+        export interface ImportBatchItem {
+            approvalTool?: ApprovalTool;
+            /**
+             * scaffolder template executed instead of creating a Pull Request
+             */
+            template?: string;
+            repository?: {
+                /**
+                 * repository name
+                 */
+                name?: string;
+                /**
+                 * repository URL
+                 */
+                url?: string;
+                /**
+                 * organization which the repository is part of
+                 */
+                organization?: string;
+                /**
+                 * branch targeted by the import
+                 */
+                defaultBranch?: string;
+            };
+            status?: /* Status of a repository in an Import batch */ ImportBatchItemStatus;
+            result?: /* Import Job */ Import;
+            lastUpdate?: string; // date-time
+        }
+        /**
+         * Status of a repository in an Import batch
+         */
+        export type ImportBatchItemStatus = "PENDING" | "IN_PROGRESS" | "SUCCEEDED" | "FAILED";
+        /**
+         * Import batch status
+         */
+        export type ImportBatchStatus = "PENDING" | "IN_PROGRESS" | "COMPLETED";
         /**
          * Import Job List
          */
@@ -90,6 +191,50 @@ declare namespace Components {
             page?: number;
             size?: number;
         }
+        /**
+         * Dry-run result for a repository of an import manifest
+         */
+        export interface ImportManifestDryRunResult {
+            approvalTool?: ApprovalTool;
+            /**
+             * scaffolder template to execute instead of creating a Pull Request
+             */
+            template?: string;
+            catalogEntityName?: string;
+            repository?: {
+                /**
+                 * repository name
+                 */
+                name?: string;
+                /**
+                 * repository URL
+                 */
+                url?: string;
+                /**
+                 * organization which the repository is part of
+                 */
+                organization?: string;
+                /**
+                 * branch targeted by the import
+                 */
+                defaultBranch?: string;
+            };
+            /**
+             * content of the catalog-info.yaml that would be added by the import Pull Request
+             */
+            catalogInfoContent?: string;
+            /**
+             * unified diff of the changes that would be made by the import Pull Request
+             */
+            diff?: string;
+            errors?: string[];
+        }
+        /**
+         * Import manifest validation errors
+         */
+        export interface ImportManifestErrors {
+            errors?: string[];
+        }
         /**
          * Import Job request
          */
@@ -137,11 +282,29 @@ declare namespace Components {
             github?: {
                 pullRequest?: PullRequest;
             };
+            /**
+             * Bitbucket details. Applicable if approvalTool is bitbucket.
+             */
+            bitbucket?: {
+                pullRequest?: PullRequest;
+            };
+            /**
+             * Azure DevOps details. Applicable if approvalTool is azure.
+             */
+            azure?: {
+                pullRequest?: PullRequest;
+            };
+            /**
+             * ServiceNow details. Applicable if approvalTool is servicenow.
+             */
+            servicenow?: {
+                changeRequest?: ChangeRequest;
+            };
         }
         /**
          * Import Job status
          */
-        export type ImportStatus = "ADDED" | "WAIT_PR_APPROVAL" | "PR_ERROR" | null;
+        export type ImportStatus = "ADDED" | "WAIT_PR_APPROVAL" | "WAIT_SERVICENOW_RESOLUTION" | "PR_ERROR" | "SERVICENOW_ERROR" | "SERVICENOW_TICKET_REJECTED" | "DRIFT_CATALOG_INFO_MISSING" | "DRIFT_DEFAULT_BRANCH_CHANGED" | "DRIFT_REPOSITORY_ARCHIVED" | "DRIFT_LOCATION_ORPHANED" | null;
         /**
          * Organization
          */
@@ -229,6 +392,19 @@ declare namespace Components {
             lastUpdate?: string; // date-time
             errors?: string[];
         }
+        /**
+         * Drift detected between the catalog and an imported repository. Applicable if status is one of the DRIFT_* values.
+         */
+        export interface RepositoryDrift {
+            /**
+             * target of the catalog location registered for the repository
+             */
+            location?: string;
+            /**
+             * when the drift was detected
+             */
+            detectedAt?: string; // date-time
+        }
         /**
          * Repository List
          */
@@ -294,6 +470,25 @@ declare namespace Components {
             github?: {
                 pullRequest?: PullRequest;
             };
+            /**
+             * Bitbucket details. Applicable if approvalTool is bitbucket.
+             */
+            bitbucket?: {
+                pullRequest?: PullRequest;
+            };
+            /**
+             * Azure DevOps details. Applicable if approvalTool is azure.
+             */
+            azure?: {
+                pullRequest?: PullRequest;
+            };
+            /**
+             * ServiceNow details. Applicable if approvalTool is servicenow.
+             */
+            servicenow?: {
+                changeRequest?: ChangeRequest;
+            };
+            drift?: /* Drift detected between the catalog and an imported repository. Applicable if status is one of the DRIFT_* values. */ RepositoryDrift;
             source?: /**
              * Import Source:
              *   * 'config' - Import from static catalog location configuration in 'app-config'
@@ -327,6 +522,20 @@ declare namespace Paths {
             export type $202 = /* Import Job */ Components.Schemas.Import[];
         }
     }
+    namespace CreateImportManifestJobs {
+        namespace Parameters {
+            export type DryRun = boolean;
+        }
+        export interface QueryParameters {
+            dryRun?: Parameters.DryRun;
+        }
+        export type RequestBody = string;
+        namespace Responses {
+            export type $200 = /* Dry-run result for a repository of an import manifest */ Components.Schemas.ImportManifestDryRunResult[];
+            export type $202 = /* Import batch submitted from a manifest */ Components.Schemas.ImportBatch;
+            export type $400 = /* Import manifest validation errors */ Components.Schemas.ImportManifestErrors;
+        }
+    }
     namespace CreateOrchestratorWorkflowJobs {
         export type RequestBody = /* Import Job request */ Components.Schemas.ImportRequest[];
         namespace Responses {
@@ -514,6 +723,21 @@ declare namespace Paths {
             export type $500 = string | /* Import Job List */ Components.Schemas.ImportJobListV2;
         }
     }
+    namespace FindImportBatchById {
+        namespace Parameters {
+            export type BatchId = string;
+        }
+        export interface PathParameters {
+            batchId: Parameters.BatchId;
+        }
+        namespace Responses {
+            export type $200 = /* Import batch submitted from a manifest */ Components.Schemas.ImportBatch;
+            export interface $404 {
+            }
+            export interface $500 {
+            }
+        }
+    }
     namespace FindImportStatusByRepo {
         namespace Parameters {
             export type ApprovalTool = string;
@@ -594,6 +818,19 @@ declare namespace Paths {
             }
         }
     }
+    namespace RepairImportByRepo {
+        namespace Parameters {
+            export type Repo = string;
+        }
+        export interface QueryParameters {
+            repo?: Parameters.Repo;
+        }
+        namespace Responses {
+            export type $200 = /* Import Job */ Components.Schemas.Import;
+            export type $404 = /* Import Job */ Components.Schemas.Import;
+            export type $500 = /* Import Job */ Components.Schemas.Import;
+        }
+    }
 }
 
 
@@ -726,6 +963,30 @@ export interface OperationMethods {
     data?: any,
     config?: AxiosRequestConfig  
   ): OperationResponse<Paths.DeleteImportByRepo.Responses.$204>
+  /**
+   * repairImportByRepo - Repair a drifted Import by repository
+   */
+  'repairImportByRepo'(
+    parameters?: Parameters<Paths.RepairImportByRepo.QueryParameters> | null,
+    data?: any,
+    config?: AxiosRequestConfig  
+  ): OperationResponse<Paths.RepairImportByRepo.Responses.$200>
+  /**
+   * createImportManifestJobs - Submit Import Jobs from a manifest
+   */
+  'createImportManifestJobs'(
+    parameters?: Parameters<Paths.CreateImportManifestJobs.QueryParameters> | null,
+    data?: Paths.CreateImportManifestJobs.RequestBody,
+    config?: AxiosRequestConfig  
+  ): OperationResponse<Paths.CreateImportManifestJobs.Responses.$200>
+  /**
+   * findImportBatchById - Get the progress of an Import batch
+   */
+  'findImportBatchById'(
+    parameters?: Parameters<Paths.FindImportBatchById.PathParameters> | null,
+    data?: any,
+    config?: AxiosRequestConfig  
+  ): OperationResponse<Paths.FindImportBatchById.Responses.$200>
 }
 
 export interface PathsDictionary {
@@ -877,20 +1138,58 @@ export interface PathsDictionary {
       config?: AxiosRequestConfig  
     ): OperationResponse<Paths.DeleteImportByRepo.Responses.$204>
   }
+  ['/import/by-repo/repair']: {
+    /**
+     * repairImportByRepo - Repair a drifted Import by repository
+     */
+    'post'(
+      parameters?: Parameters<Paths.RepairImportByRepo.QueryParameters> | null,
+      data?: any,
+      config?: AxiosRequestConfig  
+    ): OperationResponse<Paths.RepairImportByRepo.Responses.$200>
+  }
+  ['/import/manifest']: {
+    /**
+     * createImportManifestJobs - Submit Import Jobs from a manifest
+     */
+    'post'(
+      parameters?: Parameters<Paths.CreateImportManifestJobs.QueryParameters> | null,
+      data?: Paths.CreateImportManifestJobs.RequestBody,
+      config?: AxiosRequestConfig  
+    ): OperationResponse<Paths.CreateImportManifestJobs.Responses.$200>
+  }
+  ['/import/manifest/batches/{batchId}']: {
+    /**
+     * findImportBatchById - Get the progress of an Import batch
+     */
+    'get'(
+      parameters?: Parameters<Paths.FindImportBatchById.PathParameters> | null,
+      data?: any,
+      config?: AxiosRequestConfig  
+    ): OperationResponse<Paths.FindImportBatchById.Responses.$200>
+  }
 }
 
 export type Client = OpenAPIClient<OperationMethods, PathsDictionary>
 
 
 export type ApprovalTool = Components.Schemas.ApprovalTool;
+export type ChangeRequest = Components.Schemas.ChangeRequest;
 export type Import = Components.Schemas.Import;
+export type ImportBatch = Components.Schemas.ImportBatch;
+export type ImportBatchItem = Components.Schemas.ImportBatchItem;
+export type ImportBatchItemStatus = Components.Schemas.ImportBatchItemStatus;
+export type ImportBatchStatus = Components.Schemas.ImportBatchStatus;
 export type ImportJobListV2 = Components.Schemas.ImportJobListV2;
+export type ImportManifestDryRunResult = Components.Schemas.ImportManifestDryRunResult;
+export type ImportManifestErrors = Components.Schemas.ImportManifestErrors;
 export type ImportRequest = Components.Schemas.ImportRequest;
 export type ImportStatus = Components.Schemas.ImportStatus;
 export type Organization = Components.Schemas.Organization;
 export type OrganizationList = Components.Schemas.OrganizationList;
 export type PullRequest = Components.Schemas.PullRequest;
 export type Repository = Components.Schemas.Repository;
+export type RepositoryDrift = Components.Schemas.RepositoryDrift;
 export type RepositoryList = Components.Schemas.RepositoryList;
 export type ScaffolderTask = Components.Schemas.ScaffolderTask;
 export type Source = Components.Schemas.Source;
@@ -975,6 +975,193 @@ const OPENAPI = `
           }
         }
       }
+    },
+    "/import/by-repo/repair": {
+      "post": {
+        "operationId": "repairImportByRepo",
+        "summary": "Repair a drifted Import by repository",
+        "description": "Opens a fix Pull Request or re-registers the catalog location, depending on the drift detected for the repository.",
+        "security": [
+          {
+            "BearerAuth": []
+          }
+        ],
+        "tags": [
+          "Import"
+        ],
+        "parameters": [
+          {
+            "in": "query",
+            "name": "repo",
+            "description": "the full URL to the repo",
+            "schema": {
+              "type": "string"
+            }
+          }
+        ],
+        "responses": {
+          "200": {
+            "description": "Repair was performed, the response contains the resulting Import Job status",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "$ref": "#/components/schemas/Import"
+                }
+              }
+            }
+          },
+          "404": {
+            "description": "No drift was detected for the repository",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "$ref": "#/components/schemas/Import"
+                }
+              }
+            }
+          },
+          "500": {
+            "description": "Generic error",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "$ref": "#/components/schemas/Import"
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    "/import/manifest": {
+      "post": {
+        "operationId": "createImportManifestJobs",
+        "summary": "Submit Import Jobs from a manifest",
+        "description": "Submits a YAML or CSV manifest listing the repositories to import, with optional per-repository overrides\\n('approvalTool', 'targetBranch', 'template', 'catalogEntityName' and 'catalogInfoContent').\\nUnless performing a dry-run, the repositories are imported in the background as a single batch,\\nwhose progress can be tracked with the returned batch ID.\\n",
+        "security": [
+          {
+            "BearerAuth": []
+          }
+        ],
+        "tags": [
+          "Import"
+        ],
+        "parameters": [
+          {
+            "in": "query",
+            "name": "dryRun",
+            "description": "whether to only validate the manifest and return the Pull Request changes that would be made in each repository",
+            "schema": {
+              "type": "boolean",
+              "default": "false"
+            }
+          }
+        ],
+        "requestBody": {
+          "description": "Import manifest",
+          "required": true,
+          "content": {
+            "application/yaml": {
+              "schema": {
+                "type": "string"
+              },
+              "examples": {
+                "yamlImportManifest": {
+                  "$ref": "#/components/examples/yamlImportManifest"
+                }
+              }
+            },
+            "text/csv": {
+              "schema": {
+                "type": "string"
+              },
+              "examples": {
+                "csvImportManifest": {
+                  "$ref": "#/components/examples/csvImportManifest"
+                }
+              }
+            }
+          }
+        },
+        "responses": {
+          "200": {
+            "description": "Dry-run was performed, the response contains the results for each repository of the manifest",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "type": "array",
+                  "items": {
+                    "$ref": "#/components/schemas/ImportManifestDryRunResult"
+                  }
+                }
+              }
+            }
+          },
+          "202": {
+            "description": "Import batch was submitted successfully to the API",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "$ref": "#/components/schemas/ImportBatch"
+                }
+              }
+            }
+          },
+          "400": {
+            "description": "Invalid manifest",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "$ref": "#/components/schemas/ImportManifestErrors"
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    "/import/manifest/batches/{batchId}": {
+      "get": {
+        "operationId": "findImportBatchById",
+        "summary": "Get the progress of an Import batch",
+        "security": [
+          {
+            "BearerAuth": []
+          }
+        ],
+        "tags": [
+          "Import"
+        ],
+        "parameters": [
+          {
+            "in": "path",
+            "name": "batchId",
+            "description": "ID of the batch returned when submitting the manifest",
+            "required": true,
+            "schema": {
+              "type": "string"
+            }
+          }
+        ],
+        "responses": {
+          "200": {
+            "description": "Import batch was fetched successfully",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "$ref": "#/components/schemas/ImportBatch"
+                }
+              }
+            }
+          },
+          "404": {
+            "description": "Import batch not found"
+          },
+          "500": {
+            "description": "Generic error"
+          }
+        }
+      }
     }
   },
   "components": {
@@ -1237,7 +1424,9 @@ const OPENAPI = `
         "enum": [
           "GIT",
           "SERVICENOW",
-          "GITLAB"
+          "GITLAB",
+          "BITBUCKET",
+          "AZURE"
         ]
       },
       "TaskImportStatus": {
@@ -1260,7 +1449,14 @@ const OPENAPI = `
         "enum": [
           "ADDED",
           "WAIT_PR_APPROVAL",
+          "WAIT_SERVICENOW_RESOLUTION",
           "PR_ERROR",
+          "SERVICENOW_ERROR",
+          "SERVICENOW_TICKET_REJECTED",
+          "DRIFT_CATALOG_INFO_MISSING",
+          "DRIFT_DEFAULT_BRANCH_CHANGED",
+          "DRIFT_REPOSITORY_ARCHIVED",
+          "DRIFT_LOCATION_ORPHANED",
           null
         ]
       },
@@ -1386,6 +1582,36 @@ const OPENAPI = `
                 "$ref": "#/components/schemas/PullRequest"
               }
             }
+          },
+          "bitbucket": {
+            "type": "object",
+            "description": "Bitbucket details. Applicable if approvalTool is bitbucket.",
+            "properties": {
+              "pullRequest": {
+                "$ref": "#/components/schemas/PullRequest"
+              }
+            }
+          },
+          "azure": {
+            "type": "object",
+            "description": "Azure DevOps details. Applicable if approvalTool is azure.",
+            "properties": {
+              "pullRequest": {
+                "$ref": "#/components/schemas/PullRequest"
+              }
+            }
+          },
+          "servicenow": {
+            "type": "object",
+            "description": "ServiceNow details. Applicable if approvalTool is servicenow.",
+            "properties": {
+              "changeRequest": {
+                "$ref": "#/components/schemas/ChangeRequest"
+              }
+            }
+          },
+          "drift": {
+            "$ref": "#/components/schemas/RepositoryDrift"
           }
         }
       },
@@ -1422,6 +1648,54 @@ const OPENAPI = `
           }
         }
       },
+      "ChangeRequest": {
+        "type": "object",
+        "properties": {
+          "url": {
+            "type": "string",
+            "description": "URL of the ServiceNow change request"
+          },
+          "number": {
+            "type": "string",
+            "description": "ServiceNow change request number"
+          },
+          "sysId": {
+            "type": "string",
+            "description": "sys_id of the ServiceNow change request"
+          },
+          "title": {
+            "type": "string",
+            "description": "short description of the ServiceNow change request"
+          },
+          "body": {
+            "type": "string",
+            "description": "description of the ServiceNow change request"
+          },
+          "status": {
+            "type": "string",
+            "enum": [
+              "PENDING",
+              "APPROVED",
+              "REJECTED"
+            ]
+          }
+        }
+      },
+      "RepositoryDrift": {
+        "type": "object",
+        "description": "Drift detected between the catalog and an imported repository. Applicable if status is one of the DRIFT_* values.",
+        "properties": {
+          "location": {
+            "type": "string",
+            "description": "target of the catalog location registered for the repository"
+          },
+          "detectedAt": {
+            "type": "string",
+            "format": "date-time",
+            "description": "when the drift was detected"
+          }
+        }
+      },
       "SourceImport": {
         "title": "Import Job with source it originates from",
         "allOf": [
@@ -1512,6 +1786,206 @@ const OPENAPI = `
                 "$ref": "#/components/schemas/PullRequest"
               }
             }
+          },
+          "bitbucket": {
+            "type": "object",
+            "description": "Bitbucket details. Applicable if approvalTool is bitbucket.",
+            "properties": {
+              "pullRequest": {
+                "$ref": "#/components/schemas/PullRequest"
+              }
+            }
+          },
+          "azure": {
+            "type": "object",
+            "description": "Azure DevOps details. Applicable if approvalTool is azure.",
+            "properties": {
+              "pullRequest": {
+                "$ref": "#/components/schemas/PullRequest"
+              }
+            }
+          },
+          "servicenow": {
+            "type": "object",
+            "description": "ServiceNow details. Applicable if approvalTool is servicenow.",
+            "properties": {
+              "changeRequest": {
+                "$ref": "#/components/schemas/ChangeRequest"
+              }
+            }
+          }
+        }
+      },
+      "ImportManifestDryRunResult": {
+        "title": "Dry-run result for a repository of an import manifest",
+        "type": "object",
+        "properties": {
+          "approvalTool": {
+            "$ref": "#/components/schemas/ApprovalTool"
+          },
+          "template": {
+            "type": "string",
+            "description": "scaffolder template to execute instead of creating a Pull Request"
+          },
+          "catalogEntityName": {
+            "type": "string"
+          },
+          "repository": {
+            "type": "object",
+            "properties": {
+              "name": {
+                "type": "string",
+                "description": "repository name"
+              },
+              "url": {
+                "type": "string",
+                "description": "repository URL"
+              },
+              "organization": {
+                "type": "string",
+                "description": "organization which the repository is part of"
+              },
+              "defaultBranch": {
+                "type": "string",
+                "description": "branch targeted by the import"
+              }
+            }
+          },
+          "catalogInfoContent": {
+            "type": "string",
+            "description": "content of the catalog-info.yaml that would be added by the import Pull Request"
+          },
+          "diff": {
+            "type": "string",
+            "description": "unified diff of the changes that would be made by the import Pull Request"
+          },
+          "errors": {
+            "type": "array",
+            "items": {
+              "type": "string"
+            }
+          }
+        }
+      },
+      "ImportManifestErrors": {
+        "title": "Import manifest validation errors",
+        "type": "object",
+        "properties": {
+          "errors": {
+            "type": "array",
+            "items": {
+              "type": "string"
+            }
+          }
+        }
+      },
+      "ImportBatchStatus": {
+        "type": "string",
+        "description": "Import batch status",
+        "enum": [
+          "PENDING",
+          "IN_PROGRESS",
+          "COMPLETED"
+        ]
+      },
+      "ImportBatchItemStatus": {
+        "type": "string",
+        "description": "Status of a repository in an Import batch",
+        "enum": [
+          "PENDING",
+          "IN_PROGRESS",
+          "SUCCEEDED",
+          "FAILED"
+        ]
+      },
+      "ImportBatchItem": {
+        "title": "Repository of an Import batch",
+        "type": "object",
+        "properties": {
+          "approvalTool": {
+            "$ref": "#/components/schemas/ApprovalTool"
+          },
+          "template": {
+            "type": "string",
+            "description": "scaffolder template executed instead of creating a Pull Request"
+          },
+          "repository": {
+            "type": "object",
+            "properties": {
+              "name": {
+                "type": "string",
+                "description": "repository name"
+              },
+              "url": {
+                "type": "string",
+                "description": "repository URL"
+              },
+              "organization": {
+                "type": "string",
+                "description": "organization which the repository is part of"
+              },
+              "defaultBranch": {
+                "type": "string",
+                "description": "branch targeted by the import"
+              }
+            }
+          },
+          "status": {
+            "$ref": "#/components/schemas/ImportBatchItemStatus"
+          },
+          "result": {
+            "$ref": "#/components/schemas/Import"
+          },
+          "lastUpdate": {
+            "type": "string",
+            "format": "date-time"
+          }
+        }
+      },
+      "ImportBatch": {
+        "title": "Import batch submitted from a manifest",
+        "type": "object",
+        "properties": {
+          "id": {
+            "type": "string"
+          },
+          "status": {
+            "$ref": "#/components/schemas/ImportBatchStatus"
+          },
+          "createdAt": {
+            "type": "string",
+            "format": "date-time"
+          },
+          "lastUpdate": {
+            "type": "string",
+            "format": "date-time"
+          },
+          "progress": {
+            "type": "object",
+            "description": "aggregate progress of the batch",
+            "properties": {
+              "total": {
+                "type": "integer"
+              },
+              "pending": {
+                "type": "integer"
+              },
+              "inProgress": {
+                "type": "integer"
+              },
+              "succeeded": {
+                "type": "integer"
+              },
+              "failed": {
+                "type": "integer"
+              }
+            }
+          },
+          "items": {
+            "type": "array",
+            "items": {
+              "$ref": "#/components/schemas/ImportBatchItem"
+            }
           }
         }
       },
@@ -1819,6 +2293,14 @@ const OPENAPI = `
             "catalogInfoContent": "apiVersion: backstage.io/v1alpha1\\nkind: Component\\nmetadata:\\n  name: project-zero\\n  annotations:\\n    github.com/project-slug: my-other-org/project-zero\\n    acme.com/custom-annotation: my-value\\nspec:\\n  type: other\\n  lifecycle: unknown\\n  owner: my-other-org"
           }
         ]
+      },
+      "yamlImportManifest": {
+        "summary": "YAML import manifest",
+        "value": "repositories:\\n  - url: https://github.com/my-org/my-repo\\n  - url: https://gitlab.com/my-org/my-other-repo\\n    approvalTool: GITLAB\\n    targetBranch: develop\\n    catalogEntityName: my-other-repo\\n  - url: https://github.com/my-org/my-scaffolded-repo\\n    template: template:default/my-import-template"
+      },
+      "csvImportManifest": {
+        "summary": "CSV import manifest",
+        "value": "url,approvalTool,targetBranch,template\\nhttps://github.com/my-org/my-repo,,,\\nhttps://gitlab.com/my-org/my-other-repo,GITLAB,develop,\\nhttps://github.com/my-org/my-scaffolded-repo,,,template:default/my-import-template"
       }
     }
   }
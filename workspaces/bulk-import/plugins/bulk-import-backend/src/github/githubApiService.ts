@@ -64,6 +64,7 @@ import {
   addGithubTokenOrgRepositories,
   addGithubTokenRepositories,
   fileExistsInDefaultBranch,
+  getFileContentFromDefaultBranch,
   type ValidatedRepo,
 } from './utils/repoUtils';
 import {
@@ -136,6 +137,7 @@ export class GithubApiService {
           html_url: repo.html_url,
           default_branch: repo.default_branch,
           updated_at: repo.updated_at,
+          archived: repo.archived,
         };
       },
     );
@@ -918,6 +920,50 @@ export class GithubApiService {
     return fileExists;
   }
 
+  async getFileContentFromRepo(input: {
+    repoUrl: string;
+    defaultBranch?: string;
+    fileName: string;
+  }): Promise<string | undefined> {
+    try {
+      const content = await executeFunctionOnFirstSuccessfulIntegration(
+        {
+          logger: this.logger,
+          cache: this.cache,
+          config: this.config,
+          githubCredentialsProvider: this.githubCredentialsProvider,
+        },
+        this.integrations,
+        {
+          repoUrl: input.repoUrl,
+          fn: async (validatedRepo: ValidatedRepo, octo: Octokit) => {
+            const { owner, repo } = validatedRepo;
+            const result = await getFileContentFromDefaultBranch(
+              this.logger,
+              octo,
+              owner,
+              repo,
+              input.fileName,
+              input.defaultBranch,
+            );
+            if (result === undefined) {
+              return { successful: false };
+            }
+            return { successful: true, result };
+          },
+        },
+      );
+      return content ?? undefined;
+    } catch (error: any) {
+      logErrorIfNeeded(
+        this.logger,
+        `Error fetching ${input.fileName} from ${input.repoUrl}`,
+        error,
+      );
+      return undefined;
+    }
+  }
+
   async closeImportPR(
     logger: LoggerService,
     input: {
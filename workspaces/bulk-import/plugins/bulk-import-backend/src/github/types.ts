@@ -64,6 +64,10 @@ export type GithubRepository = {
    * The date-time the repository was last updated at
    */
   updated_at?: string | null;
+  /**
+   * Whether the repository is archived (or disabled), i.e. read-only
+   */
+  archived?: boolean;
 };
 
 /**
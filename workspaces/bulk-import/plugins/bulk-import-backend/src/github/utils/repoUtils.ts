@@ -399,6 +399,40 @@ export async function fileExistsInDefaultBranch(
   }
 }
 
+/**
+ * Returns the content of the file in the default branch, null if the file does not exist,
+ * or undefined if its content could not be determined.
+ */
+export async function getFileContentFromDefaultBranch(
+  logger: LoggerService,
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  fileName: string,
+  defaultBranch: string = 'main',
+): Promise<string | null | undefined> {
+  try {
+    const { data } = await octo.rest.repos.getContent({
+      owner,
+      repo,
+      path: fileName,
+      ref: defaultBranch,
+    });
+    if (Array.isArray(data) || !('content' in data)) {
+      return null;
+    }
+    return Buffer.from(data.content, 'base64').toString('utf-8');
+  } catch (error: any) {
+    if (error.status === 404) {
+      return null;
+    }
+    logger.debug(
+      `Unable to fetch the content of ${fileName} in repo ${repo}: ${error}`,
+    );
+    return undefined;
+  }
+}
+
 export async function createOrUpdateFileInBranch(
   octo: Octokit,
   owner: string,
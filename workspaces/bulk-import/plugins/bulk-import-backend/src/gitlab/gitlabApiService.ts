@@ -55,6 +55,7 @@ import {
   addGitlabTokenRepositories,
   createOrUpdateFileInBranch,
   fileExistsInDefaultBranch,
+  getFileContentFromDefaultBranch,
   ValidatedRepo,
 } from './utils/repoUtils';
 import {
@@ -136,6 +137,7 @@ export class GitlabApiService {
         html_url: repo.web_url,
         default_branch: repo.default_branch,
         updated_at: repo.updated_at,
+        archived: repo.archived,
       };
       break;
     }
@@ -672,6 +674,53 @@ export class GitlabApiService {
     return fileExists;
   }
 
+  async getFileContentFromRepo(input: {
+    repoUrl: string;
+    defaultBranch?: string;
+    fileName: string;
+  }): Promise<string | undefined> {
+    try {
+      const content = await executeFunctionOnFirstSuccessfulIntegration(
+        {
+          logger: this.logger,
+          cache: this.cache,
+          config: this.config,
+          gitlabCredentialsProvider: this.gitlabCredentialsProvider,
+        },
+        this.integrations,
+        {
+          repoUrl: input.repoUrl,
+          fn: async (
+            validatedRepo: ValidatedRepo,
+            gitlab: InstanceType<typeof Gitlab<false>>,
+          ) => {
+            const { owner, repo } = validatedRepo;
+            const result = await getFileContentFromDefaultBranch(
+              this.logger,
+              gitlab,
+              owner,
+              repo,
+              input.fileName,
+              input.defaultBranch,
+            );
+            if (result === undefined) {
+              return { successful: false };
+            }
+            return { successful: true, result };
+          },
+        },
+      );
+      return content ?? undefined;
+    } catch (error: any) {
+      logErrorIfNeeded(
+        this.logger,
+        `Error fetching ${input.fileName} from ${input.repoUrl}`,
+        error,
+      );
+      return undefined;
+    }
+  }
+
   async closeImportPR(
     logger: LoggerService,
     input: {
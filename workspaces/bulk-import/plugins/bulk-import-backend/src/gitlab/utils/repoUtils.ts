@@ -299,6 +299,36 @@ export async function fileExistsInDefaultBranch(
   }
 }
 
+/**
+ * Returns the content of the file in the default branch, null if the file does not exist,
+ * or undefined if its content could not be determined.
+ */
+export async function getFileContentFromDefaultBranch(
+  logger: LoggerService,
+  gitlab: InstanceType<typeof Gitlab<false>>,
+  owner: string,
+  repo: string,
+  fileName: string,
+  defaultBranch: string = 'main',
+): Promise<string | null | undefined> {
+  try {
+    const file = await gitlab.RepositoryFiles.show(
+      `${owner}/${repo}`,
+      fileName,
+      defaultBranch,
+    );
+    return Buffer.from(file.content, 'base64').toString('utf-8');
+  } catch (error: any) {
+    if (error.cause?.response?.status === 404) {
+      return null;
+    }
+    logger.debug(
+      `Unable to fetch the content of ${fileName} in repo ${repo}: ${error}`,
+    );
+    return undefined;
+  }
+}
+
 export async function createOrUpdateFileInBranch(
   gitlab: InstanceType<typeof Gitlab<false>>,
   owner: string,
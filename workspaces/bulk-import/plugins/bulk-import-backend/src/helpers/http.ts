@@ -0,0 +1,80 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ResponseError } from '@backstage/errors';
+
+import fetch from 'node-fetch';
+
+/**
+ * Sends a request to a Git provider REST API, throwing a ResponseError if the response is not successful.
+ * @param url the request URL
+ * @param headers the authentication headers of the integration
+ * @param init the method, body and additional headers of the request
+ */
+export async function sendRequest(
+  url: string,
+  headers: Record<string, string> | undefined,
+  init?: {
+    method?: string;
+    body?: string;
+    headers?: Record<string, string>;
+  },
+) {
+  const response = await fetch(url, {
+    method: init?.method ?? 'GET',
+    body: init?.body,
+    headers: {
+      ...headers,
+      ...init?.headers,
+    },
+  });
+  if (!response.ok) {
+    throw await ResponseError.fromResponse(response);
+  }
+  return response;
+}
+
+/**
+ * Same as {@link sendRequest}, but sends and parses JSON payloads.
+ */
+export async function sendJsonRequest<T = any>(
+  url: string,
+  headers: Record<string, string> | undefined,
+  init?: {
+    method?: string;
+    body?: unknown;
+  },
+): Promise<T> {
+  const response = await sendRequest(url, headers, {
+    method: init?.method,
+    body: init?.body === undefined ? undefined : JSON.stringify(init.body),
+    headers: {
+      Accept: 'application/json',
+      ...(init?.body === undefined
+        ? {}
+        : { 'Content-Type': 'application/json' }),
+    },
+  });
+  if (response.status === 204) {
+    return undefined as T;
+  }
+  const text = await response.text();
+  return (text ? JSON.parse(text) : undefined) as T;
+}
+
+export function isNotFoundError(error: any): boolean {
+  return error?.response?.status === 404;
+}
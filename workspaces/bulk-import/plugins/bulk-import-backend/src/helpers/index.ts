@@ -15,6 +15,7 @@
  */
 
 export * from './auth';
+export * from './http';
 export * from './loggingUtils';
 export * from './pagination';
 export * from './utils';
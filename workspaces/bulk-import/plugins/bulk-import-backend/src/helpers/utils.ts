@@ -34,11 +34,11 @@ export function getNestedValue<T>(obj: T, path: string): any {
 export function extractLocationOwnerMap(locationUrls: string[]) {
   const locationGitOwnerMap = new Map<string, string>();
   for (const locationUrl of locationUrls) {
-    const split = locationUrl.split('/blob/');
-    if (split.length < 2) {
+    const repoUrl = getRepoUrlFromLocation(locationUrl);
+    if (!repoUrl) {
       continue;
     }
-    locationGitOwnerMap.set(locationUrl, gitUrlParse(split[0]).owner);
+    locationGitOwnerMap.set(locationUrl, gitUrlParse(repoUrl).owner);
   }
   return locationGitOwnerMap;
 }
@@ -58,8 +58,23 @@ export function computeTotalCount<T>(
   return totalCount;
 }
 
-export function parseGitURLForApprovalTool(repoUrl: string) {
+export function parseGitURLForApprovalTool(
+  repoUrl: string,
+): 'GIT' | 'GITLAB' | 'BITBUCKET' | 'AZURE' {
   const parsedRepoUrl = new URL(repoUrl);
+  if (
+    parsedRepoUrl.hostname === 'dev.azure.com' ||
+    parsedRepoUrl.hostname.endsWith('.visualstudio.com') ||
+    parsedRepoUrl.pathname.includes('/_git/')
+  ) {
+    return 'AZURE';
+  }
+  if (
+    parsedRepoUrl.hostname.includes('bitbucket') ||
+    isBitbucketServerPath(parsedRepoUrl.pathname)
+  ) {
+    return 'BITBUCKET';
+  }
   if (parsedRepoUrl.hostname.includes('gitlab')) {
     return 'GITLAB';
   }
@@ -67,6 +82,61 @@ export function parseGitURLForApprovalTool(repoUrl: string) {
   return 'GIT';
 }
 
+function isBitbucketServerPath(pathname: string) {
+  return /\/(projects|users)\/[^/]+\/repos\/[^/]+/.test(pathname);
+}
+
+/**
+ * Builds the URL of a file at the root of the repository, in the format expected by the catalog for the given provider:
+ *   - GitHub/GitLab: https://github.com/<org>/<repo>/blob/<branch>/<file>
+ *   - Bitbucket Cloud: https://bitbucket.org/<workspace>/<repo>/src/<branch>/<file>
+ *   - Bitbucket Server: https://<host>/projects/<project>/repos/<repo>/browse/<file>?at=refs/heads/<branch>
+ *   - Azure DevOps: https://dev.azure.com/<org>/<project>/_git/<repo>?path=/<file>&version=GB<branch>
+ */
+export function buildRepoFileUrl(
+  repoUrl: string,
+  branch: string,
+  fileName: string,
+) {
+  const approvalTool = parseGitURLForApprovalTool(repoUrl);
+  if (approvalTool === 'AZURE') {
+    return `${repoUrl}?path=/${fileName}&version=GB${branch}`;
+  }
+  if (approvalTool === 'BITBUCKET') {
+    if (isBitbucketServerPath(new URL(repoUrl).pathname)) {
+      return `${repoUrl}/browse/${fileName}?at=refs/heads/${branch}`;
+    }
+    return `${repoUrl}/src/${branch}/${fileName}`;
+  }
+  return `${repoUrl}/blob/${branch}/${fileName}`;
+}
+
+/**
+ * Returns the repository URL from a catalog location target built with {@link buildRepoFileUrl},
+ * or undefined if the location does not point to a file in a repository.
+ */
+export function getRepoUrlFromLocation(loc: string): string | undefined {
+  let separator = '/blob/';
+  try {
+    const approvalTool = parseGitURLForApprovalTool(loc);
+    if (approvalTool === 'AZURE') {
+      return loc.includes('?path=') ? loc.split('?')[0] : undefined;
+    }
+    if (approvalTool === 'BITBUCKET') {
+      separator = isBitbucketServerPath(new URL(loc).pathname)
+        ? '/browse/'
+        : '/src/';
+    }
+  } catch (_e) {
+    return undefined;
+  }
+  const split = loc.split(separator);
+  if (split.length < 2) {
+    return undefined;
+  }
+  return split[0];
+}
+
 export function getImportTemplateRef(templateRef: string): string {
   try {
     const { name, namespace, kind } = parseEntityRef(templateRef, {
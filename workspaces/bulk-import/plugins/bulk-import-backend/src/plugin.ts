@@ -42,6 +42,7 @@ export const bulkImportPlugin = createBackendPlugin({
         catalogApi: catalogServiceRef,
         auditor: coreServices.auditor,
         database: coreServices.database,
+        scheduler: coreServices.scheduler,
       },
       async init({
         config,
@@ -55,6 +56,7 @@ export const bulkImportPlugin = createBackendPlugin({
         catalogApi,
         auditor,
         database,
+        scheduler,
       }) {
         const router = await createRouter({
           config,
@@ -67,6 +69,7 @@ export const bulkImportPlugin = createBackendPlugin({
           catalogApi,
           auditor,
           database,
+          scheduler,
         });
         http.use(router);
         http.addAuthPolicy({
@@ -0,0 +1,88 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { AzureApiService } from '../../azure';
+import type { BitbucketApiService } from '../../bitbucket';
+import type { Components } from '../../generated/openapi';
+import type { GithubApiService } from '../../github';
+import type { GitlabApiService } from '../../gitlab';
+import { parseGitURLForApprovalTool } from '../../helpers';
+
+export type GitApiService =
+  | GithubApiService
+  | GitlabApiService
+  | BitbucketApiService
+  | AzureApiService;
+
+export type GitApiServices = {
+  githubApiService: GithubApiService;
+  gitlabApiService: GitlabApiService;
+  bitbucketApiService?: BitbucketApiService;
+  azureApiService?: AzureApiService;
+};
+
+/**
+ * Name of the property holding the provider-specific details (like the pull request) in imports
+ */
+export type ApprovalToolKey = 'github' | 'gitlab' | 'bitbucket' | 'azure';
+
+export function getApprovalToolKey(approvalTool?: string): ApprovalToolKey {
+  switch (approvalTool) {
+    case 'GITLAB':
+      return 'gitlab';
+    case 'BITBUCKET':
+      return 'bitbucket';
+    case 'AZURE':
+      return 'azure';
+    default:
+      return 'github';
+  }
+}
+
+export function getGitApiService(
+  services: GitApiServices,
+  approvalTool?: Components.Schemas.ApprovalTool | string,
+): GitApiService {
+  switch (approvalTool) {
+    case 'GITLAB':
+      return services.gitlabApiService;
+    case 'BITBUCKET':
+      if (!services.bitbucketApiService) {
+        throw new Error('Bitbucket approval tool is not available');
+      }
+      return services.bitbucketApiService;
+    case 'AZURE':
+      if (!services.azureApiService) {
+        throw new Error('Azure DevOps approval tool is not available');
+      }
+      return services.azureApiService;
+    default:
+      return services.githubApiService;
+  }
+}
+
+/**
+ * ServiceNow is not a Git provider: the Git API to use for a ServiceNow import is determined by the repository URL.
+ */
+export function getGitApprovalTool(
+  approvalTool: Components.Schemas.ApprovalTool | string | undefined,
+  repoUrl: string,
+): Components.Schemas.ApprovalTool | string | undefined {
+  if (approvalTool === 'SERVICENOW') {
+    return parseGitURLForApprovalTool(repoUrl);
+  }
+  return approvalTool;
+}
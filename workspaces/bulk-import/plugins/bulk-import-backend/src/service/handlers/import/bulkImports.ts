@@ -45,14 +45,21 @@ import {
   TaskLocationsDao,
 } from '../../../database/repositoryDao';
 import type { Components, Paths } from '../../../generated/openapi';
-import type { GithubApiService } from '../../../github';
-import { GitlabApiService } from '../../../gitlab';
 import {
+  buildRepoFileUrl,
   getNestedValue,
+  getRepoUrlFromLocation,
   logErrorIfNeeded,
   paginateArray,
   parseGitURLForApprovalTool,
 } from '../../../helpers';
+import {
+  getApprovalToolKey,
+  getGitApiService,
+  getGitApprovalTool,
+  type GitApiService,
+  type GitApiServices,
+} from '../gitApiServices';
 import {
   DefaultPageNumber,
   DefaultPageSize,
@@ -60,6 +67,19 @@ import {
   DefaultSortOrder,
   type HandlerResponse,
 } from '../handlers';
+import {
+  deleteRepositoryDrift,
+  findAllDriftImports,
+  findDriftImportByRepo,
+  type RepositoryDriftServices,
+} from './repository-drift';
+import {
+  deleteServiceNowChangeRequests,
+  findAllServiceNowImports,
+  findServiceNowImportByRepo,
+  handleServiceNowChangeRequestCreation,
+  type ServiceNowServices,
+} from './servicenow-change-request';
 
 type CreateImportDryRunStatus =
   | 'CATALOG_ENTITY_CONFLICT'
@@ -100,13 +120,13 @@ export function sortImports(
 }
 
 export async function findAllImports(
-  deps: {
-    logger: LoggerService;
-    config: Config;
-    gitlabApiService: GitlabApiService;
-    githubApiService: GithubApiService;
-    catalogHttpClient: CatalogHttpClient;
-  },
+  deps: GitApiServices &
+    ServiceNowServices &
+    RepositoryDriftServices & {
+      logger: LoggerService;
+      config: Config;
+      catalogHttpClient: CatalogHttpClient;
+    },
   requestHeaders?: {
     apiVersion?: Paths.FindAllImports.Parameters.ApiVersion;
   },
@@ -140,8 +160,7 @@ export async function findAllImports(
   // It can be 'main' or something more convoluted like 'our/awesome/main'.
   const defaultBranchByRepoUrl = await resolveReposDefaultBranches(
     deps.logger,
-    deps.gitlabApiService,
-    deps.githubApiService,
+    deps,
     allLocations.keys(),
     catalogFilename,
   );
@@ -154,37 +173,36 @@ export async function findAllImports(
     catalogFilename,
   );
 
-  // Keep only repos that are accessible from the configured GH/GL integrations
-  const importsReachableFromGHIntegrations =
-    await deps.githubApiService.filterLocationsAccessibleFromIntegrations(
-      importCandidates.filter(val => {
-        return parseGitURLForApprovalTool(val) === 'GIT';
-      }),
-    );
-
-  const importsReachableFromGLIntegrations =
-    await deps.gitlabApiService.filterLocationsAccessibleFromIntegrations(
-      importCandidates.filter(val => {
-        return parseGitURLForApprovalTool(val) === 'GITLAB';
-      }),
-    );
-
-  // Merge the two lists together and map the appropriate approvalTool
-  const mergedReachbleFromIntegrations = importsReachableFromGHIntegrations
-    .map(val => {
-      return {
-        loc: val,
-        approvalTool: 'GIT',
-      };
-    })
-    .concat(
-      importsReachableFromGLIntegrations.map(val => {
+  // Keep only repos that are accessible from the configured integrations,
+  // and map the appropriate approvalTool
+  const mergedReachbleFromIntegrations: {
+    loc: string;
+    approvalTool: Components.Schemas.ApprovalTool;
+  }[] = [];
+  for (const approvalTool of ['GIT', 'GITLAB', 'BITBUCKET', 'AZURE'] as const) {
+    const candidates = importCandidates.filter(val => {
+      return parseGitURLForApprovalTool(val) === approvalTool;
+    });
+    // Unlike GitHub and GitLab, there is no default integration for Bitbucket and Azure DevOps
+    if (
+      (approvalTool === 'BITBUCKET' || approvalTool === 'AZURE') &&
+      candidates.length === 0
+    ) {
+      continue;
+    }
+    const reachable = await getGitApiService(
+      deps,
+      approvalTool,
+    ).filterLocationsAccessibleFromIntegrations(candidates);
+    mergedReachbleFromIntegrations.push(
+      ...reachable.map(val => {
         return {
           loc: val,
-          approvalTool: 'GITLAB',
+          approvalTool,
         };
       }),
     );
+  }
 
   const repoUrlToLocation = new Map<string, string>();
 
@@ -204,10 +222,7 @@ export async function findAllImports(
         {
           logger: deps.logger,
           config: deps.config,
-          gitApiService:
-            imports.approvalTool === 'GITLAB'
-              ? deps.gitlabApiService
-              : deps.githubApiService,
+          gitApiService: getGitApiService(deps, imports.approvalTool),
           catalogHttpClient: deps.catalogHttpClient,
           approvalTool: imports.approvalTool,
         },
@@ -219,7 +234,7 @@ export async function findAllImports(
   }
 
   const result = await Promise.all(importStatusPromises);
-  const imports = result
+  const imports: Components.Schemas.SourceImport[] = result
     .filter(res => res.responseBody)
     .map(res => res.responseBody!)
     .map(res => {
@@ -231,6 +246,35 @@ export async function findAllImports(
       };
     });
 
+  // Repositories waiting for a ServiceNow change request to be approved do not have any Location in the catalog yet
+  const importedRepoUrls = new Set(imports.map(res => res.repository?.url));
+  imports.push(
+    ...(await findAllServiceNowImports(deps, search)).filter(
+      res => !importedRepoUrls.has(res.repository?.url),
+    ),
+  );
+
+  // Drifted repositories take the status of their drift. Some of them (e.g., with a renamed default branch)
+  // are not import candidates anymore, and are listed from their drift only.
+  const driftImports = new Map(
+    (await findAllDriftImports(deps, search)).map(res => [
+      res.repository?.url,
+      res,
+    ]),
+  );
+  for (const [index, res] of imports.entries()) {
+    const driftImport = driftImports.get(res.repository?.url);
+    if (driftImport) {
+      imports[index] = {
+        ...res,
+        status: driftImport.status,
+        drift: driftImport.drift,
+      };
+      driftImports.delete(res.repository?.url);
+    }
+  }
+  imports.push(...driftImports.values());
+
   // sorting the output to make it deterministic and easy to navigate in the UI
 
   sortImports(imports, sortColumn, sortOrder);
@@ -254,8 +298,7 @@ export async function findAllImports(
 
 async function resolveReposDefaultBranches(
   logger: LoggerService,
-  gitlabApiService: GitlabApiService,
-  githubApiService: GithubApiService,
+  gitApiServices: GitApiServices,
   allLocations: Iterable<string>,
   catalogFilename: string,
 ) {
@@ -264,7 +307,7 @@ async function resolveReposDefaultBranches(
     defaultBranch?: string;
   }>[] = [];
   for (const loc of allLocations) {
-    // loc has the following format: https://github.com/<org>/<repo>/blob/<default-branch>/catalog-info.yaml
+    // loc has the following format: https://github.com/<org>/<repo>/blob/<default-branch>/catalog-info.yaml (see buildRepoFileUrl for the other providers)
     // but it can have a more convoluted format like 'https://github.com/redhat-developer/rhdh-plugins/blob/main/plugins/scaffolder-annotator-action/examples/templates/01-scaffolder-template.yaml'
     // if registered manually from the 'Register existing component' feature in Backstage.
     if (!loc.endsWith(catalogFilename)) {
@@ -277,21 +320,21 @@ async function resolveReposDefaultBranches(
     if (!repoUrl) {
       continue;
     }
-    // Have to do this for Both the gitlab/github, possibly a better way?
-    // Should probably parse the URL to figure out which to use?
     defaultBranchByRepoUrlPromises.push(
-      (parseGitURLForApprovalTool(repoUrl) === 'GITLAB'
-        ? gitlabApiService
-        : githubApiService
-      )
-        .getRepositoryFromIntegrations(repoUrl)
+      Promise.resolve()
+        .then(() =>
+          getGitApiService(
+            gitApiServices,
+            parseGitURLForApprovalTool(repoUrl),
+          ).getRepositoryFromIntegrations(repoUrl),
+        )
         .then(resp => {
           return { repoUrl, defaultBranch: resp?.repository?.default_branch };
         })
         .catch((err: any) => {
           logErrorIfNeeded(
             logger,
-            `Ignored repo ${repoUrl} due to an error while fetching details from GitHub`,
+            `Ignored repo ${repoUrl} due to an error while fetching details from the Git provider`,
             err,
           );
           return {
@@ -313,11 +356,7 @@ async function resolveReposDefaultBranches(
 }
 
 function repoUrlFromLocation(loc: string) {
-  const split = loc.split('/blob/');
-  if (split.length < 2) {
-    return undefined;
-  }
-  return split[0];
+  return getRepoUrlFromLocation(loc);
 }
 
 function findImportCandidates(
@@ -336,7 +375,7 @@ function findImportCandidates(
     if (!defaultBranch) {
       continue;
     }
-    if (loc !== `${repoUrl}/blob/${defaultBranch}/${catalogFilename}`) {
+    if (loc !== buildRepoFileUrl(repoUrl, defaultBranch, catalogFilename)) {
       // Because users can use the "Register existing component" workflow to register a Location
       // using any file path in the repo, we consider a repository as an Import Location only
       // if it is at the root of the repository, because that is what the import PR ultimately does.
@@ -348,7 +387,7 @@ function findImportCandidates(
 }
 
 async function createPR(
-  gitApiService: GithubApiService | GitlabApiService,
+  gitApiService: GitApiService,
   logger: LoggerService,
   req: Components.Schemas.ImportRequest,
   gitUrl: gitUrlParse.GitUrl,
@@ -367,13 +406,14 @@ async function createPR(
       req.catalogInfoContent ??
       (await catalogInfoGenerator.generateDefaultCatalogInfoContent(
         req.repository.url,
+        true,
+        req.repository.defaultBranch,
       )),
     prTitle:
-      req[req.approvalTool === 'GITLAB' ? 'gitlab' : 'github']?.pullRequest
-        ?.title ?? `Add ${catalogFileName}`,
+      req[getApprovalToolKey(req.approvalTool)]?.pullRequest?.title ??
+      `Add ${catalogFileName}`,
     prBody:
-      req[req.approvalTool === 'GITLAB' ? 'gitlab' : 'github']?.pullRequest
-        ?.body ??
+      req[getApprovalToolKey(req.approvalTool)]?.pullRequest?.body ??
       `
 This pull request adds a **Backstage entity metadata file** to this repository so that the component can be added to a Backstage application.
 
@@ -385,13 +425,11 @@ For more information, read an [overview of the Backstage software catalog](https
 }
 
 async function handleAddedReposFromCreateImportJobs(
-  deps: {
+  deps: GitApiServices & {
     logger: LoggerService;
     config: Config;
     auth: AuthService;
     catalogApi: CatalogApi;
-    gitlabApiService: GitlabApiService;
-    githubApiService: GithubApiService;
     catalogInfoGenerator: CatalogInfoGenerator;
     catalogHttpClient: CatalogHttpClient;
   },
@@ -411,10 +449,10 @@ async function handleAddedReposFromCreateImportJobs(
     if (!hasLocation) {
       continue;
     }
-    const gitApiService =
-      req.approvalTool === 'GITLAB'
-        ? deps.gitlabApiService
-        : deps.githubApiService;
+    const gitApiService = getGitApiService(
+      deps,
+      getGitApprovalTool(req.approvalTool, req.repository.url),
+    );
     const hasCatalogInfoFileInRepo = await gitApiService.hasFileInRepo({
       repoUrl: req.repository.url,
       defaultBranch: req.repository.defaultBranch,
@@ -449,13 +487,11 @@ async function handleAddedReposFromCreateImportJobs(
 }
 
 async function handlePrCreationRequest(
-  deps: {
+  deps: GitApiServices & {
     logger: LoggerService;
     config: Config;
     auth: AuthService;
     catalogApi: CatalogApi;
-    gitlabApiService: GitlabApiService;
-    githubApiService: GithubApiService;
     catalogInfoGenerator: CatalogInfoGenerator;
     catalogHttpClient: CatalogHttpClient;
   },
@@ -467,10 +503,7 @@ async function handlePrCreationRequest(
     req.repository.url,
     req.repository.defaultBranch,
   );
-  const gitApiService =
-    req.approvalTool === 'GITLAB'
-      ? deps.gitlabApiService
-      : deps.githubApiService;
+  const gitApiService = getGitApiService(deps, req.approvalTool);
   const prToRepo = await createPR(
     gitApiService,
     deps.logger,
@@ -524,7 +557,7 @@ async function handlePrCreationRequest(
       name: gitUrl.name,
       organization: gitUrl.organization,
     },
-    [req.approvalTool === 'GITLAB' ? 'gitlab' : 'github']: {
+    [getApprovalToolKey(req.approvalTool)]: {
       pullRequest: {
         url: prToRepo.prUrl,
         number: prToRepo.prNumber,
@@ -534,16 +567,15 @@ async function handlePrCreationRequest(
 }
 
 export async function createImportJobs(
-  deps: {
-    logger: LoggerService;
-    config: Config;
-    auth: AuthService;
-    catalogApi: CatalogApi;
-    gitlabApiService: GitlabApiService;
-    githubApiService: GithubApiService;
-    catalogInfoGenerator: CatalogInfoGenerator;
-    catalogHttpClient: CatalogHttpClient;
-  },
+  deps: GitApiServices &
+    ServiceNowServices & {
+      logger: LoggerService;
+      config: Config;
+      auth: AuthService;
+      catalogApi: CatalogApi;
+      catalogInfoGenerator: CatalogInfoGenerator;
+      catalogHttpClient: CatalogHttpClient;
+    },
   reqParams: {
     importRequests: Paths.CreateImportJobs.RequestBody;
     dryRun?: boolean;
@@ -587,6 +619,27 @@ export async function createImportJobs(
   for (const req of remainingRequests) {
     const gitUrl = gitUrlParse(req.repository.url);
 
+    if (req.approvalTool === 'SERVICENOW') {
+      // Create ServiceNow change request instead of PR
+      try {
+        result.push(
+          await handleServiceNowChangeRequestCreation(deps, req, gitUrl),
+        );
+      } catch (error: any) {
+        result.push({
+          approvalTool: 'SERVICENOW',
+          errors: [error.message],
+          status: 'SERVICENOW_ERROR',
+          repository: {
+            url: req.repository.url,
+            name: gitUrl.name,
+            organization: gitUrl.organization,
+          },
+        });
+      }
+      continue;
+    }
+
     // Create PR
     try {
       result.push(await handlePrCreationRequest(deps, req, gitUrl));
@@ -612,13 +665,11 @@ export async function createImportJobs(
 }
 
 async function dryRunCreateImportJobs(
-  deps: {
+  deps: GitApiServices & {
     logger: LoggerService;
     config: Config;
     auth: AuthService;
     catalogApi: CatalogApi;
-    gitlabApiService: GitlabApiService;
-    githubApiService: GithubApiService;
     catalogInfoGenerator: CatalogInfoGenerator;
     catalogHttpClient: CatalogHttpClient;
   },
@@ -647,14 +698,12 @@ async function dryRunCreateImportJobs(
   return result;
 }
 
-async function performDryRunChecks(
-  deps: {
+export async function performDryRunChecks(
+  deps: GitApiServices & {
     logger: LoggerService;
     auth: AuthService;
     catalogApi: CatalogApi;
     config: Config;
-    gitlabApiService: GitlabApiService;
-    githubApiService: GithubApiService;
     catalogHttpClient: CatalogHttpClient;
   },
   req: Components.Schemas.ImportRequest,
@@ -673,10 +722,11 @@ async function performDryRunChecks(
     return {};
   };
 
-  const gitApiService =
-    req.approvalTool === 'GITLAB'
-      ? deps.gitlabApiService
-      : deps.githubApiService;
+  const gitApprovalTool = getGitApprovalTool(
+    req.approvalTool,
+    req.repository.url,
+  );
+  const gitApiService = getGitApiService(deps, gitApprovalTool);
   const checkEmptyRepo = async (): Promise<{
     dryRunStatuses?: CreateImportDryRunStatus[];
     errors?: string[];
@@ -713,8 +763,12 @@ async function performDryRunChecks(
     dryRunStatuses?: CreateImportDryRunStatus[];
     errors?: string[];
   }> => {
-    const gitDirLocation =
-      req.approvalTool === 'GITLAB' ? '.gitlab' : '.github';
+    const gitDirLocation = {
+      github: '.github',
+      gitlab: '.gitlab',
+      bitbucket: '.bitbucket',
+      azure: '.azuredevops',
+    }[getApprovalToolKey(gitApprovalTool)];
     const exists = await gitApiService.hasFileInRepo({
       repoUrl: req.repository.url,
       defaultBranch: req.repository.defaultBranch,
@@ -756,13 +810,14 @@ async function performDryRunChecks(
 }
 
 export async function findImportStatusByRepo(
-  deps: {
-    logger: LoggerService;
-    config: Config;
-    gitApiService: GitlabApiService | GithubApiService;
-    catalogHttpClient: CatalogHttpClient;
-    approvalTool: string | undefined;
-  },
+  deps: ServiceNowServices &
+    RepositoryDriftServices & {
+      logger: LoggerService;
+      config: Config;
+      gitApiService: GitApiService;
+      catalogHttpClient: CatalogHttpClient;
+      approvalTool: string | undefined;
+    },
   repoUrl: string,
   defaultBranch?: string,
   includeCatalogInfoContent?: boolean,
@@ -785,6 +840,36 @@ export async function findImportStatusByRepo(
     status: null,
   } as Components.Schemas.Import;
   try {
+    // Check to see if the import is waiting for a ServiceNow change request
+    const serviceNowImport = await findServiceNowImportByRepo(deps, repoUrl);
+    if (serviceNowImport) {
+      return {
+        statusCode: 200,
+        responseBody: {
+          ...result,
+          ...serviceNowImport,
+          repository: result.repository,
+        },
+      };
+    }
+
+    // Check to see if the import drifted since it was added to the catalog
+    const driftImport = await findDriftImportByRepo(deps, repoUrl);
+    if (driftImport) {
+      return {
+        statusCode: 200,
+        responseBody: {
+          ...result,
+          ...driftImport,
+          repository: {
+            ...result.repository,
+            defaultBranch:
+              driftImport.repository?.defaultBranch ?? defaultBranch,
+          },
+        },
+      };
+    }
+
     // Check to see if there are any PR
     const openImportPr = await deps.gitApiService.findImportOpenPr(
       deps.logger,
@@ -832,7 +917,7 @@ export async function findImportStatusByRepo(
       };
     }
     result.status = 'WAIT_PR_APPROVAL';
-    result[deps.approvalTool === 'GITLAB' ? 'gitlab' : 'github'] = {
+    result[getApprovalToolKey(deps.approvalTool)] = {
       pullRequest: {
         number: openImportPr.prNum,
         url: openImportPr.prUrl,
@@ -862,11 +947,9 @@ export async function findImportStatusByRepo(
 }
 
 export async function findTaskImportStatusByRepo(
-  deps: {
+  deps: GitApiServices & {
     logger: LoggerService;
     config: Config;
-    githubApiService: GithubApiService;
-    gitlabApiService: GitlabApiService;
     catalogHttpClient: CatalogHttpClient;
     repositoryDao: RepositoryDao<'repositories'>;
     taskDao: ScaffolderTaskDao;
@@ -942,17 +1025,13 @@ export async function findTaskImportStatusByRepo(
         repository.approvalTool as unknown as Components.Schemas.ApprovalTool;
       const pullRequest = await parsePullOrMergeRequestInfo(
         data.state?.checkpoints,
-        deps.gitlabApiService,
-        deps.githubApiService,
+        deps,
         approvalTool,
         deps.logger,
         repoUrl,
       );
-      if (pullRequest && approvalTool === 'GITLAB') {
-        result.gitlab = { pullRequest };
-      }
-      if (pullRequest && approvalTool === 'GIT') {
-        result.github = { pullRequest };
+      if (pullRequest) {
+        result[getApprovalToolKey(approvalTool)] = { pullRequest };
       }
 
       result.status =
@@ -1078,18 +1157,21 @@ export async function findOrchestratorImportStatusByRepo(
 
 async function parsePullOrMergeRequestInfo(
   checkpoints: Record<string, any>,
-  githubApiService: GitlabApiService,
-  gitlabApiService: GithubApiService,
+  gitApiServices: GitApiServices,
   approvalTool: Components.Schemas.ApprovalTool,
   logger: LoggerService,
   repoUrl: string,
 ): Promise<Components.Schemas.PullRequest | undefined> {
   // return errors ?
-  if (approvalTool !== 'GITLAB' && approvalTool !== 'GIT') {
+  if (
+    approvalTool !== 'GITLAB' &&
+    approvalTool !== 'GIT' &&
+    approvalTool !== 'BITBUCKET' &&
+    approvalTool !== 'AZURE'
+  ) {
     return undefined;
   }
-  const gitApiService =
-    approvalTool === 'GITLAB' ? gitlabApiService : githubApiService;
+  const gitApiService = getGitApiService(gitApiServices, approvalTool);
 
   for (const key in checkpoints) {
     if (!checkpoints.hasOwnProperty(key)) {
@@ -1136,17 +1218,22 @@ async function parsePullOrMergeRequestInfo(
 }
 
 export async function deleteImportByRepo(
-  deps: {
-    logger: LoggerService;
-    config: Config;
-    gitApiService: GithubApiService | GitlabApiService;
-    catalogHttpClient: CatalogHttpClient;
-  },
+  deps: ServiceNowServices &
+    RepositoryDriftServices & {
+      logger: LoggerService;
+      config: Config;
+      gitApiService: GitApiService;
+      catalogHttpClient: CatalogHttpClient;
+    },
   repoUrl: string,
   defaultBranch?: string,
 ): Promise<HandlerResponse<void>> {
   deps.logger.debug(`Deleting bulk import job status for ${repoUrl}..`);
 
+  // Cancel any pending ServiceNow change request
+  await deleteServiceNowChangeRequests(deps, repoUrl);
+  await deleteRepositoryDrift(deps, repoUrl);
+
   // Check to see if there are any PR
   const openImportPr = await deps.gitApiService.findImportOpenPr(deps.logger, {
     repoUrl: repoUrl,
@@ -18,6 +18,7 @@ import { DiscoveryApi } from '@backstage/plugin-permission-common';
 
 import { DefaultApi } from '@red-hat-developer-hub/backstage-plugin-orchestrator-common';
 
+import { BitbucketApiService } from '../../../bitbucket';
 import {
   OrchestratorWorkflowDao,
   RepositoryDao,
@@ -44,6 +45,7 @@ describe('execute-orchestrator-workflow', () => {
   let mockDiscovery: DiscoveryApi;
   let mockGithubApiService: GithubApiService;
   let mockGitlabApiService: GitlabApiService;
+  let mockBitbucketApiService: BitbucketApiService;
   let mockOrchestratorApi: jest.Mocked<DefaultApi>;
 
   beforeEach(() => {
@@ -74,6 +76,10 @@ describe('execute-orchestrator-workflow', () => {
       getCredentials: jest.fn(),
     } as unknown as GitlabApiService;
 
+    mockBitbucketApiService = {
+      getCredentials: jest.fn(),
+    } as unknown as BitbucketApiService;
+
     mockOrchestratorApi = {
       executeWorkflow: jest.fn(),
       getInstanceById: jest.fn(),
@@ -267,6 +273,58 @@ describe('execute-orchestrator-workflow', () => {
       expect(responseBody[0].status).toBe('WORKFLOW_COMPLETED');
     });
 
+    it('should execute workflow for Bitbucket repository', async () => {
+      const requestBody: ImportRequest[] = [
+        {
+          repository: {
+            url: 'https://bitbucket.org/test-workspace/test-repo',
+            name: 'test-repo',
+            organization: 'test-workspace',
+            defaultBranch: 'main',
+          },
+          approvalTool: 'BITBUCKET',
+        },
+      ];
+
+      const mockToken = 'bitbucket-token-789';
+
+      (mockBitbucketApiService.getCredentials as jest.Mock).mockResolvedValue({
+        token: mockToken,
+      });
+
+      mockOrchestratorApi.executeWorkflow.mockResolvedValue({
+        data: { id: 'workflow-instance-789' },
+      } as any);
+
+      mockOrchestratorApi.getInstanceById.mockResolvedValue({
+        data: { state: 'completed' },
+      } as any);
+
+      const result = await createWorkflowImportJobs({
+        orchestratorWorkflowId: 'test-workflow-id',
+        discovery: mockDiscovery,
+        token: 'auth-token',
+        requestBody,
+        orchestratorWorkflowDao: mockOrchestratorWorkflowDao,
+        orchestratorRepositoryDao: mockOrchestratorRepositoryDao,
+        githubApiService: mockGithubApiService,
+        gitlabApiService: mockGitlabApiService,
+        bitbucketApiService: mockBitbucketApiService,
+      });
+
+      expect(result.statusCode).toBe(202);
+      expect(mockBitbucketApiService.getCredentials).toHaveBeenCalledWith(
+        'https://bitbucket.org/test-workspace/test-repo',
+      );
+      expect(mockOrchestratorApi.executeWorkflow).toHaveBeenCalledWith(
+        'test-workflow-id',
+        expect.objectContaining({
+          authTokens: [{ token: mockToken, provider: 'bitbucket' }],
+        }),
+        expect.any(Object),
+      );
+    });
+
     it('should use default approvalTool GIT if not provided', async () => {
       const requestBody: ImportRequest[] = [
         {
@@ -27,20 +27,21 @@ import {
   RepositoryDao,
 } from '../../../database/repositoryDao';
 import { Components, ImportRequest } from '../../../generated/openapi';
-import { GithubApiService } from '../../../github';
-import { GitlabApiService } from '../../../gitlab';
+import {
+  getApprovalToolKey,
+  getGitApiService,
+  GitApiServices,
+} from '../gitApiServices';
 import { HandlerResponse } from '../handlers';
 import { sortImports } from './bulkImports';
 
-export type CreateWorkflowImportJobsArgs = {
+export type CreateWorkflowImportJobsArgs = GitApiServices & {
   orchestratorWorkflowId: string;
   discovery: DiscoveryApi;
   token?: string;
   requestBody: ImportRequest[];
   orchestratorWorkflowDao: OrchestratorWorkflowDao;
   orchestratorRepositoryDao: RepositoryDao<'orchestrator_repositories'>;
-  githubApiService: GithubApiService;
-  gitlabApiService: GitlabApiService;
 };
 
 export async function createWorkflowImportJobs(
@@ -53,8 +54,6 @@ export async function createWorkflowImportJobs(
     requestBody,
     orchestratorWorkflowDao,
     orchestratorRepositoryDao,
-    githubApiService,
-    gitlabApiService,
   } = args;
 
   if (requestBody.length === 0) {
@@ -81,17 +80,14 @@ export async function createWorkflowImportJobs(
       const approvalTool = repo.approvalTool ?? 'GIT';
 
       const authTokens: AuthToken[] = [];
-      if (approvalTool === 'GIT') {
-        const creds = await githubApiService.getCredentials(
-          repo.repository.url,
-        );
-        authTokens.push({ token: creds?.token, provider: 'github' });
-      }
-      if (approvalTool === 'GITLAB') {
-        const creds = await gitlabApiService.getCredentials(
+      if (approvalTool !== 'SERVICENOW') {
+        const creds = await getGitApiService(args, approvalTool).getCredentials(
           repo.repository.url,
         );
-        authTokens.push({ token: creds?.token, provider: 'gitlab' });
+        authTokens.push({
+          token: creds?.token,
+          provider: getApprovalToolKey(approvalTool),
+        });
       }
 
       const requestDTO: ExecuteWorkflowRequestDTO = {
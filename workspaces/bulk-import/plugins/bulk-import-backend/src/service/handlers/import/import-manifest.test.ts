@@ -0,0 +1,521 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { mockServices } from '@backstage/backend-test-utils';
+
+import type { CatalogHttpClient } from '../../../catalog/catalogHttpClient';
+import type { CatalogInfoGenerator } from '../../../catalog/catalogInfoGenerator';
+import type {
+  ImportBatch,
+  ImportBatchDao,
+  ImportBatchItem,
+} from '../../../database/repositoryDao';
+import type { GithubApiService } from '../../../github';
+import type { GitlabApiService } from '../../../gitlab';
+import { createTaskImportJobs } from './execute-template';
+import {
+  createImportManifestJobs,
+  findImportBatchById,
+  IMPORT_BATCHES_TASK_ID,
+  parseImportManifest,
+  processImportBatch,
+  processImportBatches,
+} from './import-manifest';
+
+jest.mock('./execute-template', () => ({
+  createTaskImportJobs: jest.fn(),
+}));
+
+const REPO_URL = 'https://github.com/my-org/my-repo';
+const OTHER_REPO_URL = 'https://github.com/my-org/my-other-repo';
+
+function batchItem(overrides?: Partial<ImportBatchItem>): ImportBatchItem {
+  return {
+    id: 1,
+    batchId: 'batch-1',
+    position: 0,
+    repositoryUrl: REPO_URL,
+    importRequest: {
+      approvalTool: 'GIT',
+      repository: {
+        url: REPO_URL,
+        name: 'my-repo',
+        organization: 'my-org',
+        defaultBranch: 'main',
+      },
+    },
+    status: 'PENDING',
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function batch(items: ImportBatchItem[]): ImportBatch {
+  return {
+    id: 'batch-1',
+    status: 'PENDING',
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    items,
+  };
+}
+
+describe('import-manifest', () => {
+  const logger = mockServices.logger.mock();
+  const config = mockServices.rootConfig({
+    data: {
+      app: { baseUrl: 'https://my-backstage-app.example.com' },
+    },
+  });
+  let importBatchDao: jest.Mocked<ImportBatchDao>;
+  let githubApiService: jest.Mocked<GithubApiService>;
+  let catalogHttpClient: jest.Mocked<CatalogHttpClient>;
+  let catalogInfoGenerator: jest.Mocked<CatalogInfoGenerator>;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    importBatchDao = {
+      createBatch: jest.fn(),
+      findBatchById: jest.fn(),
+      findUnfinishedBatchIds: jest.fn(),
+      claimNextItem: jest.fn(),
+      resetInterruptedItems: jest.fn(),
+      updateBatchStatus: jest.fn(),
+      updateItem: jest.fn(),
+    } as unknown as jest.Mocked<ImportBatchDao>;
+    githubApiService = {
+      getRepositoryFromIntegrations: jest.fn(),
+      hasFileInRepo: jest.fn().mockResolvedValue(false),
+      isRepoEmpty: jest.fn().mockResolvedValue(false),
+      submitPrToRepo: jest.fn(),
+    } as unknown as jest.Mocked<GithubApiService>;
+    catalogHttpClient = {
+      hasEntityInCatalog: jest.fn().mockResolvedValue(false),
+      verifyLocationExistence: jest.fn().mockResolvedValue(false),
+      possiblyCreateLocation: jest.fn(),
+    } as unknown as jest.Mocked<CatalogHttpClient>;
+    catalogInfoGenerator = {
+      generateDefaultCatalogInfoContent: jest
+        .fn()
+        .mockResolvedValue(
+          'apiVersion: backstage.io/v1alpha1\nkind: Component\n',
+        ),
+    } as unknown as jest.Mocked<CatalogInfoGenerator>;
+  });
+
+  const deps = () => ({
+    logger,
+    config,
+    auth: mockServices.auth(),
+    discovery: mockServices.discovery(),
+    catalogApi: {} as any,
+    githubApiService,
+    gitlabApiService: {} as GitlabApiService,
+    catalogHttpClient,
+    catalogInfoGenerator,
+    importBatchDao,
+    repositoryDao: {} as any,
+    taskDao: {} as any,
+    taskLocationsDao: {} as any,
+  });
+
+  describe('parseImportManifest', () => {
+    it('should parse a YAML manifest', () => {
+      const { entries, errors } = parseImportManifest(
+        `
+repositories:
+  - ${REPO_URL}
+  - url: ${OTHER_REPO_URL}
+    approvalTool: SERVICENOW
+    targetBranch: develop
+    template: my-import-template
+`,
+        'application/yaml',
+      );
+
+      expect(errors).toEqual([]);
+      expect(entries).toEqual([
+        { url: REPO_URL },
+        {
+          url: OTHER_REPO_URL,
+          approvalTool: 'SERVICENOW',
+          targetBranch: 'develop',
+          template: 'my-import-template',
+        },
+      ]);
+    });
+
+    it('should parse a CSV manifest with quoted multi-line values', () => {
+      const { entries, errors } = parseImportManifest(
+        [
+          'url,approvalTool,catalogInfoContent',
+          `${REPO_URL},,`,
+          `${OTHER_REPO_URL},GIT,"kind: Component`,
+          `metadata:`,
+          `  name: ""my-other-repo""",`,
+          '',
+        ].join('\n'),
+        'text/csv',
+      );
+
+      expect(errors).toEqual([]);
+      expect(entries).toEqual([
+        { url: REPO_URL },
+        {
+          url: OTHER_REPO_URL,
+          approvalTool: 'GIT',
+          catalogInfoContent:
+            'kind: Component\nmetadata:\n  name: "my-other-repo"',
+        },
+      ]);
+    });
+
+    it('should report all the validation errors', () => {
+      const { entries, errors } = parseImportManifest(
+        `
+- url: ${REPO_URL}
+  approvalTool: SVN
+- url: ${REPO_URL}
+- approvalTool: GIT
+- url: ${OTHER_REPO_URL}
+  owner: my-team
+- url: ${OTHER_REPO_URL}
+  template: component:default/my-component
+`,
+      );
+
+      expect(entries).toEqual([]);
+      expect(errors).toEqual([
+        "Repository #1: invalid 'approvalTool' SVN, expected one of GIT, GITLAB, BITBUCKET, AZURE, SERVICENOW",
+        `Repository #2: duplicate 'url' ${REPO_URL}`,
+        "Repository #3: missing 'url'",
+        "Repository #4: unknown field 'owner'",
+        "Repository #5: invalid 'template' component:default/my-component",
+      ]);
+    });
+
+    it('should reject an empty manifest', () => {
+      expect(parseImportManifest('repositories: []').errors).toEqual([
+        'The manifest does not list any repository',
+      ]);
+    });
+  });
+
+  describe('createImportManifestJobs', () => {
+    it('should return 400 if the manifest is invalid', async () => {
+      const response = await createImportManifestJobs(deps(), {
+        manifest: 'repositories: my-repo',
+      });
+
+      expect(response.statusCode).toEqual(400);
+      expect(importBatchDao.createBatch).not.toHaveBeenCalled();
+    });
+
+    it('should return the Pull Request diff of each repository in dry-run mode', async () => {
+      githubApiService.getRepositoryFromIntegrations.mockResolvedValue({
+        repository: { default_branch: 'main' } as any,
+        errors: [],
+      });
+
+      const response = await createImportManifestJobs(deps(), {
+        manifest: `- ${REPO_URL}\n- url: ${OTHER_REPO_URL}\n  template: my-import-template\n`,
+        dryRun: true,
+      });
+
+      expect(response.statusCode).toEqual(200);
+      expect(response.responseBody).toEqual([
+        {
+          approvalTool: 'GIT',
+          repository: {
+            url: REPO_URL,
+            name: 'my-repo',
+            organization: 'my-org',
+            defaultBranch: 'main',
+          },
+          errors: [],
+          catalogInfoContent:
+            'apiVersion: backstage.io/v1alpha1\nkind: Component\n',
+          diff: [
+            '--- /dev/null',
+            '+++ b/catalog-info.yaml',
+            '@@ -0,0 +1,2 @@',
+            '+apiVersion: backstage.io/v1alpha1',
+            '+kind: Component',
+            '',
+          ].join('\n'),
+        },
+        {
+          approvalTool: 'GIT',
+          template: 'my-import-template',
+          repository: {
+            url: OTHER_REPO_URL,
+            name: 'my-other-repo',
+            organization: 'my-org',
+            defaultBranch: 'main',
+          },
+          errors: [],
+        },
+      ]);
+      expect(importBatchDao.createBatch).not.toHaveBeenCalled();
+      expect(githubApiService.submitPrToRepo).not.toHaveBeenCalled();
+    });
+
+    it('should name the entity of the generated catalog-info content as requested', async () => {
+      const response = await createImportManifestJobs(deps(), {
+        manifest: `- url: ${REPO_URL}\n  targetBranch: main\n  catalogEntityName: my-component\n`,
+        dryRun: true,
+      });
+
+      expect(response.statusCode).toEqual(200);
+      expect(response.responseBody).toEqual([
+        expect.objectContaining({
+          catalogEntityName: 'my-component',
+          catalogInfoContent:
+            '---\napiVersion: backstage.io/v1alpha1\nkind: Component\nmetadata:\n  name: my-component\n',
+        }),
+      ]);
+      expect(catalogHttpClient.hasEntityInCatalog).toHaveBeenCalledWith(
+        'my-component',
+      );
+    });
+
+    it('should return 400 if the manifest lists too many repositories for a dry-run', async () => {
+      const manifest = Array.from(
+        { length: 101 },
+        (_, index) => `- ${REPO_URL}-${index}`,
+      ).join('\n');
+
+      const response = await createImportManifestJobs(deps(), {
+        manifest,
+        dryRun: true,
+      });
+
+      expect(response.statusCode).toEqual(400);
+      expect(response.responseBody).toEqual({
+        errors: [
+          'A dry-run is limited to 100 repositories, but the manifest lists 101: split the manifest to check it',
+        ],
+      });
+      expect(
+        githubApiService.getRepositoryFromIntegrations,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should create a batch to be processed in the background', async () => {
+      importBatchDao.findBatchById.mockResolvedValueOnce(batch([batchItem()]));
+
+      const response = await createImportManifestJobs(deps(), {
+        manifest: `url,targetBranch\n${REPO_URL},main\n`,
+        contentType: 'text/csv',
+      });
+
+      expect(response.statusCode).toEqual(202);
+      expect(response.responseBody).toEqual(
+        expect.objectContaining({
+          id: 'batch-1',
+          status: 'PENDING',
+          progress: {
+            total: 1,
+            pending: 1,
+            inProgress: 0,
+            succeeded: 0,
+            failed: 0,
+          },
+        }),
+      );
+      expect(importBatchDao.createBatch).toHaveBeenCalledWith(
+        expect.any(String),
+        [
+          {
+            importRequest: {
+              approvalTool: 'GIT',
+              repository: {
+                url: REPO_URL,
+                name: 'my-repo',
+                organization: 'my-org',
+                defaultBranch: 'main',
+              },
+            },
+            template: undefined,
+          },
+        ],
+      );
+    });
+
+    it('should trigger the scheduled task processing the batches', async () => {
+      const scheduler = mockServices.scheduler.mock();
+      importBatchDao.findBatchById.mockResolvedValueOnce(batch([batchItem()]));
+
+      const response = await createImportManifestJobs(
+        { ...deps(), scheduler },
+        {
+          manifest: `- ${REPO_URL}
+`,
+        },
+      );
+
+      expect(response.statusCode).toEqual(202);
+      expect(scheduler.triggerTask).toHaveBeenCalledWith(
+        IMPORT_BATCHES_TASK_ID,
+      );
+      expect(importBatchDao.claimNextItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processImportBatch', () => {
+    it('should import the pending repositories one after the other', async () => {
+      importBatchDao.claimNextItem
+        .mockResolvedValueOnce(batchItem({ status: 'IN_PROGRESS' }))
+        .mockResolvedValueOnce(
+          batchItem({
+            id: 2,
+            position: 1,
+            repositoryUrl: OTHER_REPO_URL,
+            template: 'template:default/my-import-template',
+            importRequest: {
+              approvalTool: 'GIT',
+              repository: { url: OTHER_REPO_URL, defaultBranch: 'main' },
+            },
+            status: 'IN_PROGRESS',
+          }),
+        )
+        .mockResolvedValueOnce(undefined);
+      githubApiService.submitPrToRepo.mockResolvedValue({
+        prUrl: `${REPO_URL}/pull/1`,
+        prNumber: 1,
+        hasChanges: true,
+      });
+      (createTaskImportJobs as jest.Mock).mockResolvedValue({
+        statusCode: 202,
+        responseBody: [{ status: 'TASK_FAILED', errors: ['boom'] }],
+      });
+
+      await processImportBatch(deps(), 'batch-1');
+
+      expect(createTaskImportJobs).toHaveBeenCalledWith(
+        'template:default/my-import-template',
+        expect.anything(),
+        logger,
+        expect.anything(),
+        config,
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+        [
+          {
+            approvalTool: 'GIT',
+            repository: { url: OTHER_REPO_URL, defaultBranch: 'main' },
+          },
+        ],
+        githubApiService,
+      );
+      expect(importBatchDao.updateItem.mock.calls).toEqual([
+        [
+          1,
+          {
+            status: 'SUCCEEDED',
+            result: expect.objectContaining({
+              status: 'WAIT_PR_APPROVAL',
+              github: {
+                pullRequest: { url: `${REPO_URL}/pull/1`, number: 1 },
+              },
+            }),
+          },
+        ],
+        [
+          2,
+          {
+            status: 'FAILED',
+            result: { status: 'TASK_FAILED', errors: ['boom'] },
+          },
+        ],
+      ]);
+      expect(importBatchDao.updateBatchStatus.mock.calls).toEqual([
+        ['batch-1', 'IN_PROGRESS'],
+        ['batch-1', 'COMPLETED'],
+      ]);
+    });
+  });
+
+  describe('processImportBatches', () => {
+    it('should resume the interrupted items and process the batches submitted in the meantime', async () => {
+      importBatchDao.resetInterruptedItems.mockResolvedValue(1);
+      importBatchDao.findUnfinishedBatchIds
+        .mockResolvedValueOnce(['batch-1'])
+        .mockResolvedValueOnce(['batch-2'])
+        .mockResolvedValueOnce([]);
+
+      await processImportBatches(deps());
+
+      expect(importBatchDao.resetInterruptedItems).toHaveBeenCalledTimes(1);
+      expect(importBatchDao.claimNextItem.mock.calls).toEqual([
+        ['batch-1'],
+        ['batch-2'],
+      ]);
+      expect(importBatchDao.updateBatchStatus.mock.calls).toEqual([
+        ['batch-1', 'IN_PROGRESS'],
+        ['batch-1', 'COMPLETED'],
+        ['batch-2', 'IN_PROGRESS'],
+        ['batch-2', 'COMPLETED'],
+      ]);
+    });
+  });
+
+  describe('findImportBatchById', () => {
+    it('should return 404 if the batch does not exist', async () => {
+      const response = await findImportBatchById(deps(), 'unknown');
+
+      expect(response.statusCode).toEqual(404);
+    });
+
+    it('should return the aggregate progress of the batch', async () => {
+      importBatchDao.findBatchById.mockResolvedValue({
+        ...batch([
+          batchItem({
+            status: 'SUCCEEDED',
+            result: { status: 'WAIT_PR_APPROVAL' },
+          }),
+          batchItem({ id: 2, position: 1, status: 'FAILED' }),
+          batchItem({ id: 3, position: 2, status: 'IN_PROGRESS' }),
+        ]),
+        status: 'IN_PROGRESS',
+      });
+
+      const response = await findImportBatchById(deps(), 'batch-1');
+
+      expect(response.statusCode).toEqual(200);
+      expect(response.responseBody?.progress).toEqual({
+        total: 3,
+        pending: 0,
+        inProgress: 1,
+        succeeded: 1,
+        failed: 1,
+      });
+      expect(response.responseBody?.items?.[0]).toEqual({
+        approvalTool: 'GIT',
+        repository: {
+          url: REPO_URL,
+          name: 'my-repo',
+          organization: 'my-org',
+          defaultBranch: 'main',
+        },
+        status: 'SUCCEEDED',
+        result: { status: 'WAIT_PR_APPROVAL' },
+        lastUpdate: '2024-01-01T00:00:00.000Z',
+      });
+    });
+  });
+});
@@ -0,0 +1,672 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type {
+  AuthService,
+  DiscoveryService,
+  LoggerService,
+  SchedulerService,
+} from '@backstage/backend-plugin-api';
+import type { CatalogApi } from '@backstage/catalog-client';
+import type { Config } from '@backstage/config';
+
+import gitUrlParse from 'git-url-parse';
+import jsYaml from 'js-yaml';
+
+import { randomUUID } from 'node:crypto';
+
+import { CatalogHttpClient } from '../../../catalog/catalogHttpClient';
+import type { CatalogInfoGenerator } from '../../../catalog/catalogInfoGenerator';
+import { getCatalogFilename } from '../../../catalog/catalogUtils';
+import type {
+  ImportBatch,
+  ImportBatchDao,
+  ImportBatchItem,
+  RepositoryDao,
+  ScaffolderTaskDao,
+  TaskLocationsDao,
+} from '../../../database/repositoryDao';
+import type { Components } from '../../../generated/openapi';
+import {
+  getImportTemplateRef,
+  logErrorIfNeeded,
+  parseGitURLForApprovalTool,
+} from '../../../helpers';
+import {
+  getGitApiService,
+  getGitApprovalTool,
+  type GitApiServices,
+} from '../gitApiServices';
+import type { HandlerResponse } from '../handlers';
+import { createImportJobs, performDryRunChecks } from './bulkImports';
+import { createTaskImportJobs } from './execute-template';
+import type { ServiceNowServices } from './servicenow-change-request';
+
+export type ImportManifestServices = {
+  importBatchDao: ImportBatchDao;
+  discovery: DiscoveryService;
+  repositoryDao: RepositoryDao<'repositories'>;
+  taskDao: ScaffolderTaskDao;
+  taskLocationsDao: TaskLocationsDao;
+  scheduler?: SchedulerService;
+};
+
+/**
+ * ID of the scheduled task processing the import batches.
+ * Scheduled tasks are locked across the cluster, so only one backend instance processes the batches at a time.
+ */
+export const IMPORT_BATCHES_TASK_ID = 'bulk-import-import-batches';
+
+type ImportManifestDeps = GitApiServices &
+  ServiceNowServices &
+  ImportManifestServices & {
+    logger: LoggerService;
+    config: Config;
+    auth: AuthService;
+    catalogApi: CatalogApi;
+    catalogInfoGenerator: CatalogInfoGenerator;
+    catalogHttpClient: CatalogHttpClient;
+  };
+
+/**
+ * A repository listed in an import manifest, along with its per-repository overrides.
+ */
+export type ImportManifestEntry = {
+  url: string;
+  approvalTool?: Components.Schemas.ApprovalTool;
+  targetBranch?: string;
+  template?: string;
+  catalogEntityName?: string;
+  catalogInfoContent?: string;
+};
+
+const manifestFields: (keyof ImportManifestEntry)[] = [
+  'url',
+  'approvalTool',
+  'targetBranch',
+  'template',
+  'catalogEntityName',
+  'catalogInfoContent',
+];
+
+const approvalTools: Components.Schemas.ApprovalTool[] = [
+  'GIT',
+  'GITLAB',
+  'BITBUCKET',
+  'AZURE',
+  'SERVICENOW',
+];
+
+/**
+ * A dry-run is performed while handling the request, so the number of repositories it can check is limited.
+ */
+const MAX_DRY_RUN_REPOSITORIES = 100;
+const DRY_RUN_CONCURRENCY = 5;
+
+const failedImportStatuses = [
+  'PR_ERROR',
+  'SERVICENOW_ERROR',
+  'TASK_CANCELLED',
+  'TASK_FAILED',
+];
+
+function isValidUrl(url: string): boolean {
+  try {
+    return Boolean(new URL(url));
+  } catch (_e) {
+    return false;
+  }
+}
+
+/**
+ * Parses CSV content as specified in RFC 4180: fields containing commas, line breaks or double quotes
+ * (like a multi-line catalog-info content) need to be enclosed in double quotes.
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Ignore blank lines
+  return rows.filter(r => r.some(value => value.trim()));
+}
+
+function readCsvManifest(content: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) {
+    return [];
+  }
+  const columns = header.map(column => column.trim());
+  return rows.map(row =>
+    Object.fromEntries(
+      columns
+        .map((column, index) => [column, row[index]?.trim()] as const)
+        .filter(([_column, value]) => value),
+    ),
+  );
+}
+
+function readYamlManifest(content: string): unknown[] {
+  const manifest = jsYaml.load(content) as any;
+  const repositories = Array.isArray(manifest)
+    ? manifest
+    : manifest?.repositories;
+  if (!Array.isArray(repositories)) {
+    throw new Error(
+      `The manifest must be a list of repositories or an object with a 'repositories' list`,
+    );
+  }
+  // A plain string is a shorthand for a repository without any override
+  return repositories.map(repo =>
+    typeof repo === 'string' ? { url: repo } : repo,
+  );
+}
+
+/**
+ * Parses and validates an import manifest, in YAML (default) or CSV format depending on the given content type.
+ * All the validation errors are collected, so they can be fixed at once.
+ */
+export function parseImportManifest(
+  content: string,
+  contentType?: string,
+): { entries: ImportManifestEntry[]; errors: string[] } {
+  let rawEntries: unknown[];
+  try {
+    rawEntries = contentType?.includes('csv')
+      ? readCsvManifest(content)
+      : readYamlManifest(content);
+  } catch (err: any) {
+    return {
+      entries: [],
+      errors: [`Unable to parse the manifest: ${err.message}`],
+    };
+  }
+  if (rawEntries.length === 0) {
+    return {
+      entries: [],
+      errors: ['The manifest does not list any repository'],
+    };
+  }
+
+  const entries: ImportManifestEntry[] = [];
+  const errors: string[] = [];
+  const seenUrls = new Set<string>();
+  rawEntries.forEach((rawEntry, index) => {
+    const prefix = `Repository #${index + 1}`;
+    if (!rawEntry || typeof rawEntry !== 'object' || Array.isArray(rawEntry)) {
+      errors.push(`${prefix}: expected an object`);
+      return;
+    }
+    const entry = rawEntry as Record<string, unknown>;
+    const entryErrors: string[] = [];
+    for (const [field, value] of Object.entries(entry)) {
+      if (!manifestFields.includes(field as keyof ImportManifestEntry)) {
+        entryErrors.push(`${prefix}: unknown field '${field}'`);
+      } else if (typeof value !== 'string') {
+        entryErrors.push(`${prefix}: '${field}' must be a string`);
+      }
+    }
+    if (entryErrors.length > 0) {
+      errors.push(...entryErrors);
+      return;
+    }
+
+    const { url, approvalTool, template } = entry as ImportManifestEntry;
+    if (!url?.trim()) {
+      entryErrors.push(`${prefix}: missing 'url'`);
+    } else {
+      if (!isValidUrl(url)) {
+        entryErrors.push(`${prefix}: invalid 'url' ${url}`);
+      }
+      if (seenUrls.has(url)) {
+        entryErrors.push(`${prefix}: duplicate 'url' ${url}`);
+      }
+      seenUrls.add(url);
+    }
+    if (approvalTool && !approvalTools.includes(approvalTool)) {
+      entryErrors.push(
+        `${prefix}: invalid 'approvalTool' ${approvalTool}, expected one of ${approvalTools.join(', ')}`,
+      );
+    }
+    if (template) {
+      try {
+        getImportTemplateRef(template);
+      } catch (_e) {
+        entryErrors.push(`${prefix}: invalid 'template' ${template}`);
+      }
+    }
+    if (entryErrors.length > 0) {
+      errors.push(...entryErrors);
+      return;
+    }
+    entries.push(entry as ImportManifestEntry);
+  });
+
+  return { entries, errors };
+}
+
+function toImportRequest(
+  entry: ImportManifestEntry,
+): Components.Schemas.ImportRequest {
+  const gitUrl = gitUrlParse(entry.url);
+  return {
+    approvalTool: entry.approvalTool ?? parseGitURLForApprovalTool(entry.url),
+    catalogEntityName: entry.catalogEntityName,
+    catalogInfoContent: entry.catalogInfoContent,
+    repository: {
+      url: entry.url,
+      name: gitUrl.name,
+      organization: gitUrl.organization,
+      defaultBranch: entry.targetBranch,
+    },
+  };
+}
+
+/**
+ * Falls back to the default branch of the repository if no target branch was specified in the manifest.
+ */
+async function withTargetBranch(
+  deps: GitApiServices,
+  req: Components.Schemas.ImportRequest,
+): Promise<Components.Schemas.ImportRequest> {
+  if (req.repository.defaultBranch) {
+    return req;
+  }
+  const resp = await getGitApiService(
+    deps,
+    getGitApprovalTool(req.approvalTool, req.repository.url),
+  ).getRepositoryFromIntegrations(req.repository.url);
+  const defaultBranch = resp?.repository?.default_branch;
+  if (!defaultBranch) {
+    throw new Error(
+      `Unable to determine the default branch of ${req.repository.url}: repository not found or not accessible`,
+    );
+  }
+  return { ...req, repository: { ...req.repository, defaultBranch } };
+}
+
+/**
+ * Returns a unified diff of the catalog-info file added by the import Pull Request.
+ */
+function toNewFileDiff(fileName: string, content: string): string {
+  const lines = content.endsWith('\n')
+    ? content.slice(0, -1).split('\n')
+    : content.split('\n');
+  return [
+    '--- /dev/null',
+    `+++ b/${fileName}`,
+    `@@ -0,0 +1,${lines.length} @@`,
+    ...lines.map(line => `+${line}`),
+    '',
+  ].join('\n');
+}
+
+/**
+ * Renames the first entity of a generated catalog-info content, as requested by the 'catalogEntityName' override.
+ */
+function withCatalogEntityName(
+  content: string,
+  catalogEntityName: string,
+): string {
+  const [entity, ...otherEntities] = jsYaml
+    .loadAll(content)
+    .filter(doc => doc && typeof doc === 'object') as any[];
+  if (!entity) {
+    return content;
+  }
+  return [
+    { ...entity, metadata: { ...entity.metadata, name: catalogEntityName } },
+    ...otherEntities,
+  ]
+    .map(
+      doc => `---
+${jsYaml.dump(doc)}`,
+    )
+    .join('\n');
+}
+
+async function getCatalogInfoContent(
+  deps: ImportManifestDeps,
+  req: Components.Schemas.ImportRequest,
+): Promise<string> {
+  if (req.catalogInfoContent) {
+    return req.catalogInfoContent;
+  }
+  const generatedContent =
+    await deps.catalogInfoGenerator.generateDefaultCatalogInfoContent(
+      req.repository.url,
+      true,
+      req.repository.defaultBranch,
+    );
+  return req.catalogEntityName?.trim()
+    ? withCatalogEntityName(generatedContent, req.catalogEntityName)
+    : generatedContent;
+}
+
+async function dryRunImportManifestEntry(
+  deps: ImportManifestDeps,
+  entry: ImportManifestEntry,
+): Promise<Components.Schemas.ImportManifestDryRunResult> {
+  const dryRunResult: Components.Schemas.ImportManifestDryRunResult = {
+    approvalTool: entry.approvalTool ?? parseGitURLForApprovalTool(entry.url),
+    template: entry.template,
+    catalogEntityName: entry.catalogEntityName,
+    repository: toImportRequest(entry).repository,
+  };
+
+  let req: Components.Schemas.ImportRequest;
+  try {
+    req = await withTargetBranch(deps, toImportRequest(entry));
+  } catch (err: any) {
+    dryRunResult.errors = [err.message];
+    return dryRunResult;
+  }
+  dryRunResult.repository = req.repository;
+
+  const dryRunChecks = await performDryRunChecks(deps, req);
+  if (dryRunChecks.errors?.length > 0) {
+    deps.logger.warn(
+      `Errors while performing dry-run checks: ${dryRunChecks.errors}`,
+    );
+  }
+  dryRunResult.errors = dryRunChecks.dryRunStatuses;
+
+  // The catalog-info file added by a scaffolder template is only known once the template is executed,
+  // and no Pull Request is created if the repository already contains a catalog-info file.
+  if (
+    entry.template ||
+    dryRunChecks.dryRunStatuses.includes('CATALOG_INFO_FILE_EXISTS_IN_REPO')
+  ) {
+    return dryRunResult;
+  }
+  const catalogInfoContent = await getCatalogInfoContent(deps, req);
+  dryRunResult.catalogInfoContent = catalogInfoContent;
+  dryRunResult.diff = toNewFileDiff(
+    getCatalogFilename(deps.config),
+    catalogInfoContent,
+  );
+  return dryRunResult;
+}
+
+/**
+ * Checks the repositories a few at a time, so as not to hit the rate limits of the Git providers.
+ */
+async function dryRunImportManifest(
+  deps: ImportManifestDeps,
+  entries: ImportManifestEntry[],
+): Promise<Components.Schemas.ImportManifestDryRunResult[]> {
+  const result: Components.Schemas.ImportManifestDryRunResult[] = [];
+  for (let i = 0; i < entries.length; i += DRY_RUN_CONCURRENCY) {
+    result.push(
+      ...(await Promise.all(
+        entries
+          .slice(i, i + DRY_RUN_CONCURRENCY)
+          .map(entry => dryRunImportManifestEntry(deps, entry)),
+      )),
+    );
+  }
+  return result;
+}
+
+function toImportBatch(batch: ImportBatch): Components.Schemas.ImportBatch {
+  const countByStatus = (status: ImportBatchItem['status']) =>
+    batch.items.filter(item => item.status === status).length;
+  return {
+    id: batch.id,
+    status: batch.status,
+    createdAt: new Date(batch.createdAt).toISOString(),
+    lastUpdate: new Date(batch.updatedAt).toISOString(),
+    progress: {
+      total: batch.items.length,
+      pending: countByStatus('PENDING'),
+      inProgress: countByStatus('IN_PROGRESS'),
+      succeeded: countByStatus('SUCCEEDED'),
+      failed: countByStatus('FAILED'),
+    },
+    items: batch.items.map(item => ({
+      repository: item.importRequest.repository,
+      approvalTool: item.importRequest.approvalTool,
+      template: item.template,
+      status: item.status,
+      result: item.result,
+      lastUpdate: new Date(item.updatedAt).toISOString(),
+    })),
+  };
+}
+
+async function executeImportBatchItem(
+  deps: ImportManifestDeps,
+  item: ImportBatchItem,
+): Promise<Components.Schemas.Import | undefined> {
+  let req = await withTargetBranch(deps, item.importRequest);
+  if (item.template) {
+    const response = await createTaskImportJobs(
+      getImportTemplateRef(item.template),
+      deps.discovery,
+      deps.logger,
+      deps.auth,
+      deps.config,
+      deps.repositoryDao,
+      deps.taskDao,
+      deps.taskLocationsDao,
+      [req],
+      deps.githubApiService,
+    );
+    return response.responseBody?.[0];
+  }
+  if (req.catalogEntityName?.trim() && !req.catalogInfoContent) {
+    // The regular import ignores the entity name, so the catalog-info content is generated with it beforehand
+    req = {
+      ...req,
+      catalogInfoContent: await getCatalogInfoContent(deps, req),
+    };
+  }
+  const response = await createImportJobs(deps, { importRequests: [req] });
+  return response.responseBody?.[0];
+}
+
+/**
+ * Processes the pending items of a batch one after the other, so as not to hit the rate limits of the Git providers.
+ * Each item is claimed before being processed, so that it is never imported twice.
+ */
+export async function processImportBatch(
+  deps: ImportManifestDeps,
+  batchId: string,
+): Promise<void> {
+  await deps.importBatchDao.updateBatchStatus(batchId, 'IN_PROGRESS');
+  let item = await deps.importBatchDao.claimNextItem(batchId);
+  while (item) {
+    let result: Components.Schemas.Import | undefined;
+    try {
+      result = await executeImportBatchItem(deps, item);
+    } catch (err: any) {
+      logErrorIfNeeded(
+        deps.logger,
+        `Error while importing ${item.repositoryUrl} from batch ${batchId}`,
+        err,
+      );
+      result = {
+        approvalTool: item.importRequest.approvalTool,
+        status: item.template ? 'TASK_FAILED' : 'PR_ERROR',
+        errors: [err.message],
+        repository: item.importRequest.repository,
+      };
+    }
+    const failed =
+      !result ||
+      failedImportStatuses.includes(result.status ?? '') ||
+      (result.errors?.length ?? 0) > 0;
+    await deps.importBatchDao.updateItem(item.id, {
+      status: failed ? 'FAILED' : 'SUCCEEDED',
+      result,
+    });
+    item = await deps.importBatchDao.claimNextItem(batchId);
+  }
+  await deps.importBatchDao.updateBatchStatus(batchId, 'COMPLETED');
+}
+
+/**
+ * Processes all the unfinished batches, including the batches interrupted by a restart of the backend.
+ * This is meant to run as the {@link IMPORT_BATCHES_TASK_ID} scheduled task, which no other backend instance runs at the same time.
+ */
+export async function processImportBatches(
+  deps: ImportManifestDeps,
+): Promise<void> {
+  // The items left in progress by a previous run were interrupted, as no other run can be in progress
+  const interruptedItems = await deps.importBatchDao.resetInterruptedItems();
+  if (interruptedItems > 0) {
+    deps.logger.info(
+      `Resuming the processing of ${interruptedItems} interrupted import batch item(s)`,
+    );
+  }
+  let batchIds = await deps.importBatchDao.findUnfinishedBatchIds();
+  while (batchIds.length > 0) {
+    for (const batchId of batchIds) {
+      deps.logger.debug(`Processing import batch ${batchId}`);
+      await processImportBatch(deps, batchId);
+    }
+    // Batches submitted in the meantime are processed in the same run
+    batchIds = await deps.importBatchDao.findUnfinishedBatchIds();
+  }
+}
+
+export async function createImportManifestJobs(
+  deps: ImportManifestDeps,
+  reqParams: {
+    manifest: string;
+    contentType?: string;
+    dryRun?: boolean;
+  },
+): Promise<
+  HandlerResponse<
+    | Components.Schemas.ImportManifestDryRunResult[]
+    | Components.Schemas.ImportBatch
+    | { errors: string[] }
+  >
+> {
+  const dryRun = reqParams.dryRun ?? false;
+  const { entries, errors } = parseImportManifest(
+    reqParams.manifest,
+    reqParams.contentType,
+  );
+  if (errors.length > 0) {
+    deps.logger.debug(`Invalid import manifest: ${errors}`);
+    return {
+      statusCode: 400,
+      responseBody: { errors },
+    };
+  }
+  deps.logger.debug(
+    `Handling import manifest with ${entries.length} repo(s) (dryRun=${dryRun})..`,
+  );
+
+  if (dryRun) {
+    if (entries.length > MAX_DRY_RUN_REPOSITORIES) {
+      return {
+        statusCode: 400,
+        responseBody: {
+          errors: [
+            `A dry-run is limited to ${MAX_DRY_RUN_REPOSITORIES} repositories, but the manifest lists ${entries.length}: split the manifest to check it`,
+          ],
+        },
+      };
+    }
+    return {
+      statusCode: 200,
+      responseBody: await dryRunImportManifest(deps, entries),
+    };
+  }
+
+  const batchId = randomUUID();
+  await deps.importBatchDao.createBatch(
+    batchId,
+    entries.map(entry => ({
+      importRequest: toImportRequest(entry),
+      template: entry.template,
+    })),
+  );
+  const batch = await deps.importBatchDao.findBatchById(batchId);
+
+  // The batch is processed in the background: its progress can be tracked with the returned ID.
+  if (deps.scheduler) {
+    try {
+      await deps.scheduler.triggerTask(IMPORT_BATCHES_TASK_ID);
+    } catch (err: any) {
+      // The task is already running, and picks up the new batch before completing
+      deps.logger.debug(
+        `Unable to trigger the processing of import batch ${batchId}: ${err.message}`,
+      );
+    }
+  } else {
+    processImportBatch(deps, batchId).catch(err =>
+      deps.logger.error(`Error while processing import batch ${batchId}`, err),
+    );
+  }
+
+  return {
+    statusCode: 202,
+    responseBody: toImportBatch(batch!),
+  };
+}
+
+export async function findImportBatchById(
+  deps: Pick<ImportManifestServices, 'importBatchDao'>,
+  batchId: string,
+): Promise<HandlerResponse<Components.Schemas.ImportBatch | undefined>> {
+  const batch = await deps.importBatchDao.findBatchById(batchId);
+  if (!batch) {
+    return {
+      statusCode: 404,
+      responseBody: undefined,
+    };
+  }
+  return {
+    statusCode: 200,
+    responseBody: toImportBatch(batch),
+  };
+}
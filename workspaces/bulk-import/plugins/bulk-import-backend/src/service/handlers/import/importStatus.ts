@@ -23,16 +23,24 @@ import {
   getCatalogUrl,
 } from '../../../catalog/catalogUtils';
 import type { Components } from '../../../generated/openapi';
-import type { GithubApiService } from '../../../github';
-import { GitlabApiService } from '../../../gitlab';
+import type { GitApiService } from '../gitApiServices';
+import {
+  findDriftImportByRepo,
+  type RepositoryDriftServices,
+} from './repository-drift';
+import {
+  findServiceNowImportByRepo,
+  type ServiceNowServices,
+} from './servicenow-change-request';
 
 export async function getImportStatusFromLocations(
-  deps: {
-    logger: LoggerService;
-    config: Config;
-    gitApiService: GithubApiService | GitlabApiService;
-    catalogHttpClient: CatalogHttpClient;
-  },
+  deps: ServiceNowServices &
+    RepositoryDriftServices & {
+      logger: LoggerService;
+      config: Config;
+      gitApiService: GitApiService;
+      catalogHttpClient: CatalogHttpClient;
+    },
   repoUrl: string,
   catalogUrlLocations: Iterable<string>,
   defaultBranch?: string,
@@ -56,12 +64,13 @@ export async function getImportStatusFromLocations(
 }
 
 async function getImportStatusWithCheckerFn(
-  deps: {
-    logger: LoggerService;
-    config: Config;
-    gitApiService: GithubApiService | GitlabApiService;
-    catalogHttpClient: CatalogHttpClient;
-  },
+  deps: ServiceNowServices &
+    RepositoryDriftServices & {
+      logger: LoggerService;
+      config: Config;
+      gitApiService: GitApiService;
+      catalogHttpClient: CatalogHttpClient;
+    },
   repoUrl: string,
   catalogExistenceCheckFn: (catalogUrl: string) => Promise<boolean>,
   defaultBranch?: string,
@@ -69,6 +78,22 @@ async function getImportStatusWithCheckerFn(
   status: Components.Schemas.ImportStatus;
   lastUpdate?: string;
 } | null> {
+  // Check to see if the import is waiting for a ServiceNow change request
+  const serviceNowImport = await findServiceNowImportByRepo(deps, repoUrl);
+  if (serviceNowImport) {
+    return {
+      status: serviceNowImport.status as Components.Schemas.ImportStatus,
+      lastUpdate: serviceNowImport.lastUpdate,
+    };
+  }
+  // Check to see if the import drifted since it was added to the catalog
+  const driftImport = await findDriftImportByRepo(deps, repoUrl);
+  if (driftImport) {
+    return {
+      status: driftImport.status as Components.Schemas.ImportStatus,
+      lastUpdate: driftImport.lastUpdate,
+    };
+  }
   // Check to see if there are any PR
   const openImportPr = await deps.gitApiService.findImportOpenPr(deps.logger, {
     repoUrl,
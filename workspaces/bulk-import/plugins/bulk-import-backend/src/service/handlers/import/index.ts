@@ -15,4 +15,7 @@
  */
 
 export * from './bulkImports';
+export * from './import-manifest';
 export * from './importStatus';
+export * from './repository-drift';
+export * from './servicenow-change-request';
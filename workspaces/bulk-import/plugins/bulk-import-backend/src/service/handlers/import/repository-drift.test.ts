@@ -0,0 +1,350 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { mockServices } from '@backstage/backend-test-utils';
+
+import type { CatalogHttpClient } from '../../../catalog/catalogHttpClient';
+import type { CatalogInfoGenerator } from '../../../catalog/catalogInfoGenerator';
+import type {
+  RepositoryDrift,
+  RepositoryDriftDao,
+} from '../../../database/repositoryDao';
+import type { GithubApiService } from '../../../github';
+import type { GitlabApiService } from '../../../gitlab';
+import {
+  detectRepositoryDrifts,
+  findDriftImportByRepo,
+  repairImportByRepo,
+} from './repository-drift';
+
+const REPO_URL = 'https://github.com/my-org/my-repo';
+const LOCATION = `${REPO_URL}/blob/main/catalog-info.yaml`;
+
+function drift(overrides?: Partial<RepositoryDrift>): RepositoryDrift {
+  return {
+    id: 1,
+    repositoryUrl: REPO_URL,
+    status: 'CATALOG_INFO_MISSING',
+    locationId: 'loc-1',
+    locationTarget: LOCATION,
+    defaultBranch: 'main',
+    detectedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('repository-drift', () => {
+  const logger = mockServices.logger.mock();
+  const config = mockServices.rootConfig({
+    data: {
+      app: { baseUrl: 'https://my-backstage-app.example.com' },
+    },
+  });
+  let repositoryDriftDao: jest.Mocked<RepositoryDriftDao>;
+  let githubApiService: jest.Mocked<GithubApiService>;
+  let catalogHttpClient: jest.Mocked<CatalogHttpClient>;
+  let catalogInfoGenerator: jest.Mocked<CatalogInfoGenerator>;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    repositoryDriftDao = {
+      replaceDrifts: jest.fn(),
+      findDriftByRepoUrl: jest.fn(),
+      findDrifts: jest.fn(),
+      deleteDriftByRepoUrl: jest.fn(),
+    } as unknown as jest.Mocked<RepositoryDriftDao>;
+    githubApiService = {
+      getRepositoryFromIntegrations: jest.fn(),
+      hasFileInRepo: jest.fn(),
+      findImportOpenPr: jest.fn(),
+      submitPrToRepo: jest.fn(),
+    } as unknown as jest.Mocked<GithubApiService>;
+    catalogHttpClient = {
+      listCatalogUrlLocationsByIdFromLocationsEndpoint: jest.fn(),
+      deleteCatalogLocationById: jest.fn(),
+      possiblyCreateLocation: jest.fn(),
+      refreshLocationByRepoUrl: jest.fn(),
+    } as unknown as jest.Mocked<CatalogHttpClient>;
+    catalogInfoGenerator = {
+      generateDefaultCatalogInfoContent: jest
+        .fn()
+        .mockResolvedValue('apiVersion: backstage.io/v1alpha1'),
+    } as unknown as jest.Mocked<CatalogInfoGenerator>;
+  });
+
+  const deps = () => ({
+    logger,
+    config,
+    githubApiService,
+    gitlabApiService: {} as GitlabApiService,
+    catalogHttpClient,
+    repositoryDriftDao,
+  });
+
+  describe('detectRepositoryDrifts', () => {
+    const givenLocations = (...targets: string[]) =>
+      catalogHttpClient.listCatalogUrlLocationsByIdFromLocationsEndpoint.mockResolvedValue(
+        {
+          locations: targets.map((target, index) => ({
+            id: `loc-${index + 1}`,
+            target,
+            source: 'location',
+          })),
+        },
+      );
+
+    it('should not report any drift for a healthy import', async () => {
+      givenLocations(LOCATION);
+      githubApiService.getRepositoryFromIntegrations.mockResolvedValue({
+        repository: { name: 'my-repo', default_branch: 'main' } as any,
+        errors: [],
+      });
+      githubApiService.hasFileInRepo.mockResolvedValue(true);
+
+      await detectRepositoryDrifts(deps());
+
+      expect(repositoryDriftDao.replaceDrifts).toHaveBeenCalledWith([]);
+    });
+
+    it('should ignore locations not at the root of the repository', async () => {
+      givenLocations(`${REPO_URL}/blob/main/components/catalog-info.yaml`);
+
+      await detectRepositoryDrifts(deps());
+
+      expect(
+        githubApiService.getRepositoryFromIntegrations,
+      ).not.toHaveBeenCalled();
+      expect(repositoryDriftDao.replaceDrifts).toHaveBeenCalledWith([]);
+    });
+
+    it('should report a missing catalog-info file unless an import PR is open', async () => {
+      givenLocations(LOCATION);
+      githubApiService.getRepositoryFromIntegrations.mockResolvedValue({
+        repository: { name: 'my-repo', default_branch: 'main' } as any,
+        errors: [],
+      });
+      githubApiService.hasFileInRepo.mockResolvedValue(false);
+      githubApiService.findImportOpenPr.mockResolvedValue({});
+
+      await detectRepositoryDrifts(deps());
+
+      expect(repositoryDriftDao.replaceDrifts).toHaveBeenCalledWith([
+        {
+          repositoryUrl: REPO_URL,
+          locationId: 'loc-1',
+          locationTarget: LOCATION,
+          status: 'CATALOG_INFO_MISSING',
+          defaultBranch: 'main',
+        },
+      ]);
+    });
+
+    it('should report a renamed default branch', async () => {
+      givenLocations(LOCATION);
+      githubApiService.getRepositoryFromIntegrations.mockResolvedValue({
+        repository: { name: 'my-repo', default_branch: 'trunk' } as any,
+        errors: [],
+      });
+      githubApiService.hasFileInRepo.mockResolvedValue(false);
+
+      await detectRepositoryDrifts(deps());
+
+      expect(githubApiService.hasFileInRepo).toHaveBeenCalledWith({
+        repoUrl: REPO_URL,
+        defaultBranch: 'main',
+        fileName: 'catalog-info.yaml',
+      });
+      expect(repositoryDriftDao.replaceDrifts).toHaveBeenCalledWith([
+        expect.objectContaining({
+          status: 'DEFAULT_BRANCH_CHANGED',
+          defaultBranch: 'trunk',
+        }),
+      ]);
+    });
+
+    it('should report archived and deleted repositories', async () => {
+      const otherRepoUrl = 'https://github.com/my-org/deleted-repo';
+      givenLocations(LOCATION, `${otherRepoUrl}/blob/main/catalog-info.yaml`);
+      githubApiService.getRepositoryFromIntegrations.mockImplementation(
+        async (repoUrl: string) => {
+          if (repoUrl === otherRepoUrl) {
+            throw Object.assign(new Error('Not Found'), { status: 404 });
+          }
+          return {
+            repository: {
+              name: 'my-repo',
+              default_branch: 'main',
+              archived: true,
+            } as any,
+            errors: [],
+          };
+        },
+      );
+
+      await detectRepositoryDrifts(deps());
+
+      expect(repositoryDriftDao.replaceDrifts).toHaveBeenCalledWith([
+        expect.objectContaining({
+          repositoryUrl: REPO_URL,
+          status: 'REPOSITORY_ARCHIVED',
+        }),
+        expect.objectContaining({
+          repositoryUrl: otherRepoUrl,
+          locationId: 'loc-2',
+          status: 'LOCATION_ORPHANED',
+        }),
+      ]);
+    });
+
+    it('should skip repositories that cannot be checked', async () => {
+      givenLocations(LOCATION);
+      githubApiService.getRepositoryFromIntegrations.mockRejectedValue(
+        new Error('Bad credentials'),
+      );
+
+      await detectRepositoryDrifts(deps());
+
+      expect(repositoryDriftDao.replaceDrifts).toHaveBeenCalledWith([]);
+    });
+  });
+
+  describe('findDriftImportByRepo', () => {
+    it('should return the drift as import status', async () => {
+      repositoryDriftDao.findDriftByRepoUrl.mockResolvedValue(drift());
+
+      const result = await findDriftImportByRepo(deps(), REPO_URL);
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          approvalTool: 'GIT',
+          status: 'DRIFT_CATALOG_INFO_MISSING',
+          drift: {
+            location: LOCATION,
+            detectedAt: '2024-01-01T00:00:00.000Z',
+          },
+        }),
+      );
+    });
+
+    it('should return undefined without any drift', async () => {
+      repositoryDriftDao.findDriftByRepoUrl.mockResolvedValue(undefined);
+
+      await expect(findDriftImportByRepo(deps(), REPO_URL)).resolves.toBe(
+        undefined,
+      );
+    });
+  });
+
+  describe('repairImportByRepo', () => {
+    it('should return 404 if no drift was detected', async () => {
+      repositoryDriftDao.findDriftByRepoUrl.mockResolvedValue(undefined);
+
+      const result = await repairImportByRepo(
+        { ...deps(), catalogInfoGenerator },
+        REPO_URL,
+      );
+
+      expect(result.statusCode).toBe(404);
+    });
+
+    it('should open a fix PR for a missing catalog-info file', async () => {
+      repositoryDriftDao.findDriftByRepoUrl.mockResolvedValue(drift());
+      githubApiService.submitPrToRepo.mockResolvedValue({
+        prUrl: `${REPO_URL}/pull/2`,
+        prNumber: 2,
+        hasChanges: true,
+      });
+
+      const result = await repairImportByRepo(
+        { ...deps(), catalogInfoGenerator },
+        REPO_URL,
+      );
+
+      expect(githubApiService.submitPrToRepo).toHaveBeenCalledWith(
+        logger,
+        expect.objectContaining({
+          repoUrl: REPO_URL,
+          defaultBranch: 'main',
+          catalogInfoContent: 'apiVersion: backstage.io/v1alpha1',
+        }),
+      );
+      expect(result.statusCode).toBe(200);
+      expect(result.responseBody?.status).toBe('WAIT_PR_APPROVAL');
+      expect(result.responseBody?.github?.pullRequest?.url).toBe(
+        `${REPO_URL}/pull/2`,
+      );
+      expect(repositoryDriftDao.deleteDriftByRepoUrl).toHaveBeenCalledWith(
+        REPO_URL,
+      );
+    });
+
+    it('should keep the drift if the fix PR could not be opened', async () => {
+      repositoryDriftDao.findDriftByRepoUrl.mockResolvedValue(drift());
+      githubApiService.submitPrToRepo.mockResolvedValue({
+        errors: ['Forbidden'],
+      });
+
+      const result = await repairImportByRepo(
+        { ...deps(), catalogInfoGenerator },
+        REPO_URL,
+      );
+
+      expect(result.responseBody?.status).toBe('PR_ERROR');
+      expect(result.responseBody?.errors).toEqual(['Forbidden']);
+      expect(repositoryDriftDao.deleteDriftByRepoUrl).not.toHaveBeenCalled();
+    });
+
+    it('should re-register the location on the new default branch', async () => {
+      repositoryDriftDao.findDriftByRepoUrl.mockResolvedValue(
+        drift({ status: 'DEFAULT_BRANCH_CHANGED', defaultBranch: 'trunk' }),
+      );
+      githubApiService.hasFileInRepo.mockResolvedValue(true);
+
+      const result = await repairImportByRepo(
+        { ...deps(), catalogInfoGenerator },
+        REPO_URL,
+      );
+
+      expect(catalogHttpClient.deleteCatalogLocationById).toHaveBeenCalledWith(
+        'loc-1',
+      );
+      expect(catalogHttpClient.possiblyCreateLocation).toHaveBeenCalledWith(
+        `${REPO_URL}/blob/trunk/catalog-info.yaml`,
+      );
+      expect(githubApiService.submitPrToRepo).not.toHaveBeenCalled();
+      expect(result.responseBody?.status).toBe('ADDED');
+    });
+
+    it('should unregister the location of a deleted repository', async () => {
+      repositoryDriftDao.findDriftByRepoUrl.mockResolvedValue(
+        drift({ status: 'LOCATION_ORPHANED' }),
+      );
+
+      const result = await repairImportByRepo(
+        { ...deps(), catalogInfoGenerator },
+        REPO_URL,
+      );
+
+      expect(catalogHttpClient.deleteCatalogLocationById).toHaveBeenCalledWith(
+        'loc-1',
+      );
+      expect(result.statusCode).toBe(200);
+      expect(result.responseBody?.status).toBeNull();
+      expect(repositoryDriftDao.deleteDriftByRepoUrl).toHaveBeenCalledWith(
+        REPO_URL,
+      );
+    });
+  });
+});
@@ -0,0 +1,439 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import type { LoggerService } from '@backstage/backend-plugin-api';
+import type { Config } from '@backstage/config';
+
+import gitUrlParse from 'git-url-parse';
+
+import { CatalogHttpClient } from '../../../catalog/catalogHttpClient';
+import type { CatalogInfoGenerator } from '../../../catalog/catalogInfoGenerator';
+import {
+  getCatalogFilename,
+  getCatalogUrl,
+} from '../../../catalog/catalogUtils';
+import type {
+  NewRepositoryDrift,
+  RepositoryDrift,
+  RepositoryDriftDao,
+} from '../../../database/repositoryDao';
+import type { Components } from '../../../generated/openapi';
+import {
+  buildRepoFileUrl,
+  getRepoUrlFromLocation,
+  isNotFoundError,
+  logErrorIfNeeded,
+  parseGitURLForApprovalTool,
+} from '../../../helpers';
+import {
+  getApprovalToolKey,
+  getGitApiService,
+  type GitApiService,
+  type GitApiServices,
+} from '../gitApiServices';
+import type { HandlerResponse } from '../handlers';
+
+export type RepositoryDriftServices = {
+  repositoryDriftDao?: RepositoryDriftDao;
+};
+
+type DriftDetectionDeps = GitApiServices & {
+  logger: LoggerService;
+  config: Config;
+  catalogHttpClient: CatalogHttpClient;
+};
+
+function toRepository(repoUrl: string, defaultBranch?: string) {
+  const gitUrl = gitUrlParse(repoUrl);
+  return {
+    url: repoUrl,
+    name: gitUrl.name,
+    organization: gitUrl.organization,
+    id: `${gitUrl.organization}/${gitUrl.name}`,
+    defaultBranch,
+  };
+}
+
+function toImport(drift: RepositoryDrift): Components.Schemas.Import {
+  return {
+    id: drift.repositoryUrl,
+    approvalTool: parseGitURLForApprovalTool(drift.repositoryUrl),
+    status: `DRIFT_${drift.status}`,
+    lastUpdate: new Date(drift.detectedAt).toISOString(),
+    repository: toRepository(drift.repositoryUrl, drift.defaultBranch),
+    drift: {
+      location: drift.locationTarget,
+      detectedAt: new Date(drift.detectedAt).toISOString(),
+    },
+  };
+}
+
+/**
+ * Returns the import of the given repository if a drift was detected for it by the last detection run.
+ */
+export async function findDriftImportByRepo(
+  deps: RepositoryDriftServices,
+  repoUrl: string,
+): Promise<Components.Schemas.Import | undefined> {
+  const drift = await deps.repositoryDriftDao?.findDriftByRepoUrl(repoUrl);
+  return drift ? toImport(drift) : undefined;
+}
+
+/**
+ * Returns the imports of all the repositories for which a drift was detected by the last detection run.
+ */
+export async function findAllDriftImports(
+  deps: RepositoryDriftServices,
+  search?: string,
+): Promise<Components.Schemas.Import[]> {
+  if (!deps.repositoryDriftDao) {
+    return [];
+  }
+  const drifts = await deps.repositoryDriftDao.findDrifts(search);
+  return drifts.map(toImport);
+}
+
+/**
+ * Returns the branch referenced by a Location pointing to the catalog file at the root of the repository,
+ * or undefined if the Location points to any other file.
+ */
+function getLocationBranch(
+  repoUrl: string,
+  target: string,
+  catalogFilename: string,
+): string | undefined {
+  // The branch placeholder allows to support all the URL formats handled by buildRepoFileUrl
+  const [prefix, suffix] = buildRepoFileUrl(
+    repoUrl,
+    '\u0000',
+    catalogFilename,
+  ).split('\u0000');
+  if (
+    target.length <= prefix.length + suffix.length ||
+    !target.startsWith(prefix) ||
+    !target.endsWith(suffix)
+  ) {
+    return undefined;
+  }
+  const branch = target.substring(prefix.length, target.length - suffix.length);
+  // A branch containing a slash means the catalog file lives in a subdirectory of the repository
+  return branch.includes('/') ? undefined : branch;
+}
+
+function isRepositoryNotFoundError(error: any): boolean {
+  return (
+    error?.status === 404 ||
+    error?.cause?.response?.status === 404 ||
+    isNotFoundError(error)
+  );
+}
+
+async function detectDrift(
+  deps: DriftDetectionDeps,
+  gitApiService: GitApiService,
+  location: { id?: string; target: string },
+  repoUrl: string,
+  branch: string,
+): Promise<NewRepositoryDrift | undefined> {
+  const drift = {
+    repositoryUrl: repoUrl,
+    locationId: location.id,
+    locationTarget: location.target,
+  };
+
+  let repoResponse: Awaited<
+    ReturnType<GitApiService['getRepositoryFromIntegrations']>
+  >;
+  try {
+    repoResponse = await gitApiService.getRepositoryFromIntegrations(repoUrl);
+  } catch (err: any) {
+    if (isRepositoryNotFoundError(err)) {
+      return { ...drift, status: 'LOCATION_ORPHANED' };
+    }
+    throw err;
+  }
+  const repository = repoResponse.repository;
+  if (!repository) {
+    // Without any error, an unknown repository means that it was deleted (or that it is no longer accessible)
+    return repoResponse.errors?.length
+      ? undefined
+      : { ...drift, status: 'LOCATION_ORPHANED' };
+  }
+  if (repository.archived) {
+    return {
+      ...drift,
+      status: 'REPOSITORY_ARCHIVED',
+      defaultBranch: repository.default_branch,
+    };
+  }
+
+  const fileName = getCatalogFilename(deps.config);
+  const defaultBranch = repository.default_branch ?? branch;
+  if (defaultBranch !== branch) {
+    const hasFileOnLocationBranch = await gitApiService.hasFileInRepo({
+      repoUrl,
+      defaultBranch: branch,
+      fileName,
+    });
+    if (!hasFileOnLocationBranch) {
+      return { ...drift, status: 'DEFAULT_BRANCH_CHANGED', defaultBranch };
+    }
+    return undefined;
+  }
+
+  const hasFile = await gitApiService.hasFileInRepo({
+    repoUrl,
+    defaultBranch,
+    fileName,
+  });
+  if (hasFile) {
+    return undefined;
+  }
+  // An import PR still waiting for approval is not a drift
+  const openImportPr = await gitApiService.findImportOpenPr(deps.logger, {
+    repoUrl,
+  });
+  if (openImportPr?.prUrl) {
+    return undefined;
+  }
+  return { ...drift, status: 'CATALOG_INFO_MISSING', defaultBranch };
+}
+
+/**
+ * Checks all the repositories imported in the catalog for drifts, i.e.:
+ *   - the catalog-info file was deleted or moved from the repository
+ *   - the default branch of the repository was renamed
+ *   - the repository was archived
+ *   - the repository no longer exists, leaving an orphaned Location in the catalog
+ * The drifts found replace the ones detected by the previous run.
+ */
+export async function detectRepositoryDrifts(
+  deps: DriftDetectionDeps & RepositoryDriftServices,
+): Promise<void> {
+  if (!deps.repositoryDriftDao) {
+    return;
+  }
+  const catalogFilename = getCatalogFilename(deps.config);
+  const { locations } =
+    await deps.catalogHttpClient.listCatalogUrlLocationsByIdFromLocationsEndpoint();
+  deps.logger.debug(
+    `Checking ${locations.length} catalog location(s) for repository drifts..`,
+  );
+
+  const drifts = new Map<string, NewRepositoryDrift>();
+  for (const location of locations) {
+    const repoUrl = getRepoUrlFromLocation(location.target);
+    if (!repoUrl || drifts.has(repoUrl)) {
+      continue;
+    }
+    // Only Locations at the root of the repository are imports
+    const branch = getLocationBranch(repoUrl, location.target, catalogFilename);
+    if (!branch) {
+      continue;
+    }
+    try {
+      const gitApiService = getGitApiService(
+        deps,
+        parseGitURLForApprovalTool(repoUrl),
+      );
+      const drift = await detectDrift(
+        deps,
+        gitApiService,
+        location,
+        repoUrl,
+        branch,
+      );
+      if (drift) {
+        drifts.set(repoUrl, drift);
+      }
+    } catch (err: any) {
+      logErrorIfNeeded(
+        deps.logger,
+        `Error while checking ${location.target} for drifts`,
+        err,
+      );
+    }
+  }
+
+  await deps.repositoryDriftDao.replaceDrifts(Array.from(drifts.values()));
+  deps.logger.info(`Detected ${drifts.size} drifted repository(ies)`);
+}
+
+async function submitFixPr(
+  deps: DriftDetectionDeps & { catalogInfoGenerator: CatalogInfoGenerator },
+  gitApiService: GitApiService,
+  drift: RepositoryDrift,
+  defaultBranch: string | undefined,
+  result: Components.Schemas.Import,
+): Promise<Components.Schemas.Import> {
+  const appTitle =
+    deps.config.getOptionalString('app.title') ?? 'Red Hat Developer Hub';
+  const appBaseUrl = deps.config.getString('app.baseUrl');
+  const catalogFileName = getCatalogFilename(deps.config);
+  const repoUrl = drift.repositoryUrl;
+  const pr = await gitApiService.submitPrToRepo(deps.logger, {
+    repoUrl,
+    gitUrl: gitUrlParse(repoUrl),
+    defaultBranch,
+    catalogInfoContent:
+      await deps.catalogInfoGenerator.generateDefaultCatalogInfoContent(
+        repoUrl,
+        true,
+        defaultBranch,
+      ),
+    prTitle: `Add ${catalogFileName}`,
+    prBody: `
+This pull request restores the **Backstage entity metadata file** of this repository, which is no longer found on the default branch.
+
+After this pull request is merged, the component will be available again in the [${appTitle} software catalog](${appBaseUrl}).
+`,
+  });
+  if (pr.errors && pr.errors.length > 0) {
+    return { ...result, status: 'PR_ERROR', errors: pr.errors };
+  }
+  if (!pr.prUrl) {
+    return { ...result, status: 'ADDED' };
+  }
+  const fixed: Components.Schemas.Import = {
+    ...result,
+    status: 'WAIT_PR_APPROVAL',
+    lastUpdate: pr.lastUpdate,
+  };
+  fixed[getApprovalToolKey(result.approvalTool)] = {
+    pullRequest: {
+      number: pr.prNumber,
+      url: pr.prUrl,
+    },
+  };
+  return fixed;
+}
+
+/**
+ * Repairs the drift detected for the given repository:
+ *   - a missing catalog-info file is restored by a fix PR
+ *   - the Location of a repository whose default branch changed is re-registered on the new default branch
+ *     (along with a fix PR if the catalog-info file is not on that branch)
+ *   - the Location of an archived or deleted repository is unregistered from the catalog
+ */
+export async function repairImportByRepo(
+  deps: DriftDetectionDeps &
+    RepositoryDriftServices & {
+      catalogInfoGenerator: CatalogInfoGenerator;
+    },
+  repoUrl: string,
+): Promise<HandlerResponse<Components.Schemas.Import>> {
+  deps.logger.debug(`Repairing bulk import of ${repoUrl}..`);
+  const drift = await deps.repositoryDriftDao?.findDriftByRepoUrl(repoUrl);
+  if (!drift) {
+    return {
+      statusCode: 404,
+      responseBody: {
+        id: repoUrl,
+        repository: toRepository(repoUrl),
+        errors: [`No drift detected for ${repoUrl}`],
+      },
+    };
+  }
+
+  let result: Components.Schemas.Import = {
+    id: repoUrl,
+    approvalTool: parseGitURLForApprovalTool(repoUrl),
+    repository: toRepository(repoUrl, drift.defaultBranch),
+    status: null,
+  };
+  try {
+    const gitApiService = getGitApiService(deps, result.approvalTool);
+    switch (drift.status) {
+      case 'CATALOG_INFO_MISSING':
+        result = await submitFixPr(
+          deps,
+          gitApiService,
+          drift,
+          drift.defaultBranch,
+          result,
+        );
+        break;
+      case 'DEFAULT_BRANCH_CHANGED': {
+        if (drift.locationId) {
+          await deps.catalogHttpClient.deleteCatalogLocationById(
+            drift.locationId,
+          );
+        }
+        await deps.catalogHttpClient.possiblyCreateLocation(
+          getCatalogUrl(deps.config, repoUrl, drift.defaultBranch),
+        );
+        const hasFile = await gitApiService.hasFileInRepo({
+          repoUrl,
+          defaultBranch: drift.defaultBranch,
+          fileName: getCatalogFilename(deps.config),
+        });
+        if (hasFile) {
+          result.status = 'ADDED';
+          // Force a refresh of the Location, so that the entities from the catalog-info.yaml can show up quickly (not guaranteed however).
+          await deps.catalogHttpClient.refreshLocationByRepoUrl(
+            repoUrl,
+            drift.defaultBranch,
+          );
+        } else {
+          // If the fix PR cannot be opened, the next detection run reports the catalog-info file as missing
+          result = await submitFixPr(
+            deps,
+            gitApiService,
+            drift,
+            drift.defaultBranch,
+            result,
+          );
+        }
+        break;
+      }
+      default:
+        // Archived or deleted repository: the Location can no longer be imported
+        if (drift.locationId) {
+          await deps.catalogHttpClient.deleteCatalogLocationById(
+            drift.locationId,
+          );
+        }
+        break;
+    }
+  } catch (error: any) {
+    logErrorIfNeeded(deps.logger, `Error while repairing ${repoUrl}`, error);
+    return {
+      statusCode: 500,
+      responseBody: {
+        ...result,
+        errors: [error.message],
+      },
+    };
+  }
+
+  // Keep the drift if the catalog-info file could not be restored, so that the repair can be retried
+  if (drift.status !== 'CATALOG_INFO_MISSING' || result.status !== 'PR_ERROR') {
+    await deps.repositoryDriftDao!.deleteDriftByRepoUrl(repoUrl);
+  }
+  return {
+    statusCode: 200,
+    responseBody: result,
+  };
+}
+
+/**
+ * Forgets about the drift detected for the given repository (if any).
+ */
+export async function deleteRepositoryDrift(
+  deps: RepositoryDriftServices,
+  repoUrl: string,
+): Promise<void> {
+  await deps.repositoryDriftDao?.deleteDriftByRepoUrl(repoUrl);
+}
@@ -0,0 +1,436 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { mockServices } from '@backstage/backend-test-utils';
+
+import gitUrlParse from 'git-url-parse';
+
+import type { CatalogHttpClient } from '../../../catalog/catalogHttpClient';
+import type { CatalogInfoGenerator } from '../../../catalog/catalogInfoGenerator';
+import type {
+  ServiceNowChangeRequest,
+  ServiceNowChangeRequestDao,
+} from '../../../database/repositoryDao';
+import type { GithubApiService } from '../../../github';
+import type { GitlabApiService } from '../../../gitlab';
+import type { ServiceNowApiService } from '../../../servicenow';
+import {
+  deleteServiceNowChangeRequests,
+  findServiceNowImportByRepo,
+  handleServiceNowChangeRequestCreation,
+  syncServiceNowChangeRequests,
+} from './servicenow-change-request';
+
+const REPO_URL = 'https://github.com/my-org/my-repo';
+
+function changeRequest(
+  overrides?: Partial<ServiceNowChangeRequest>,
+): ServiceNowChangeRequest {
+  return {
+    id: 1,
+    repositoryUrl: REPO_URL,
+    defaultBranch: 'main',
+    sysId: 'sys-123',
+    number: 'CHG0000123',
+    status: 'PENDING',
+    catalogInfoContent: 'apiVersion: backstage.io/v1alpha1',
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-02T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('servicenow-change-request', () => {
+  const logger = mockServices.logger.mock();
+  const config = mockServices.rootConfig({
+    data: {
+      app: { baseUrl: 'https://my-backstage-app.example.com' },
+    },
+  });
+  let serviceNowApiService: jest.Mocked<ServiceNowApiService>;
+  let serviceNowChangeRequestDao: jest.Mocked<ServiceNowChangeRequestDao>;
+  let githubApiService: jest.Mocked<GithubApiService>;
+  let catalogHttpClient: jest.Mocked<CatalogHttpClient>;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    serviceNowApiService = {
+      isConfigured: jest.fn().mockReturnValue(true),
+      createChangeRequest: jest.fn(),
+      getChangeRequest: jest.fn(),
+      cancelChangeRequest: jest.fn(),
+      getChangeRequestUrl: jest
+        .fn()
+        .mockImplementation(
+          (sysId: string) =>
+            `https://my-instance.service-now.com/nav_to.do?uri=change_request.do%3Fsys_id%3D${sysId}`,
+        ),
+    } as unknown as jest.Mocked<ServiceNowApiService>;
+    serviceNowChangeRequestDao = {
+      insertChangeRequest: jest.fn().mockResolvedValue(1),
+      lastChangeRequestByRepoUrl: jest.fn(),
+      findChangeRequestsByStatus: jest.fn(),
+      findNotApprovedChangeRequests: jest.fn(),
+      updateStatus: jest.fn(),
+      deleteChangeRequestsByRepoUrl: jest.fn(),
+    } as unknown as jest.Mocked<ServiceNowChangeRequestDao>;
+    githubApiService = {
+      hasFileInRepo: jest.fn(),
+      submitPrToRepo: jest.fn(),
+    } as unknown as jest.Mocked<GithubApiService>;
+    catalogHttpClient = {
+      possiblyCreateLocation: jest.fn(),
+      refreshLocationByRepoUrl: jest.fn(),
+    } as unknown as jest.Mocked<CatalogHttpClient>;
+  });
+
+  describe('handleServiceNowChangeRequestCreation', () => {
+    it('should create a change request and save it for later polling', async () => {
+      serviceNowApiService.createChangeRequest.mockResolvedValue({
+        sys_id: 'sys-123',
+        number: 'CHG0000123',
+      });
+
+      const result = await handleServiceNowChangeRequestCreation(
+        {
+          logger,
+          config,
+          catalogInfoGenerator: {} as CatalogInfoGenerator,
+          serviceNowApiService,
+          serviceNowChangeRequestDao,
+        },
+        {
+          approvalTool: 'SERVICENOW',
+          catalogInfoContent: 'apiVersion: backstage.io/v1alpha1',
+          repository: { url: REPO_URL, defaultBranch: 'main' },
+          servicenow: {
+            changeRequest: { title: 'Import my-repo', body: 'Please' },
+          },
+        },
+        gitUrlParse(REPO_URL),
+      );
+
+      expect(serviceNowApiService.createChangeRequest).toHaveBeenCalledWith({
+        shortDescription: 'Import my-repo',
+        description: expect.stringContaining(
+          'apiVersion: backstage.io/v1alpha1',
+        ),
+      });
+      expect(
+        serviceNowChangeRequestDao.insertChangeRequest,
+      ).toHaveBeenCalledWith({
+        repositoryUrl: REPO_URL,
+        defaultBranch: 'main',
+        sysId: 'sys-123',
+        number: 'CHG0000123',
+        catalogInfoContent: 'apiVersion: backstage.io/v1alpha1',
+      });
+      expect(result).toEqual(
+        expect.objectContaining({
+          approvalTool: 'SERVICENOW',
+          status: 'WAIT_SERVICENOW_RESOLUTION',
+          repository: {
+            url: REPO_URL,
+            name: 'my-repo',
+            organization: 'my-org',
+          },
+          servicenow: {
+            changeRequest: {
+              url: 'https://my-instance.service-now.com/nav_to.do?uri=change_request.do%3Fsys_id%3Dsys-123',
+              number: 'CHG0000123',
+              sysId: 'sys-123',
+              title: 'Import my-repo',
+              body: 'Please',
+              status: 'PENDING',
+            },
+          },
+        }),
+      );
+    });
+
+    it('should return the pending change request instead of creating a new one', async () => {
+      serviceNowChangeRequestDao.lastChangeRequestByRepoUrl.mockResolvedValue(
+        changeRequest(),
+      );
+
+      const result = await handleServiceNowChangeRequestCreation(
+        {
+          logger,
+          config,
+          catalogInfoGenerator: {} as CatalogInfoGenerator,
+          serviceNowApiService,
+          serviceNowChangeRequestDao,
+        },
+        {
+          approvalTool: 'SERVICENOW',
+          catalogInfoContent: 'apiVersion: backstage.io/v1alpha1',
+          repository: { url: REPO_URL, defaultBranch: 'main' },
+        },
+        gitUrlParse(REPO_URL),
+      );
+
+      expect(serviceNowApiService.createChangeRequest).not.toHaveBeenCalled();
+      expect(
+        serviceNowChangeRequestDao.insertChangeRequest,
+      ).not.toHaveBeenCalled();
+      expect(result).toEqual(
+        expect.objectContaining({
+          approvalTool: 'SERVICENOW',
+          status: 'WAIT_SERVICENOW_RESOLUTION',
+          servicenow: {
+            changeRequest: {
+              url: 'https://my-instance.service-now.com/nav_to.do?uri=change_request.do%3Fsys_id%3Dsys-123',
+              number: 'CHG0000123',
+              sysId: 'sys-123',
+              status: 'PENDING',
+            },
+          },
+        }),
+      );
+    });
+
+    it('should create a new change request if the previous one was rejected', async () => {
+      serviceNowChangeRequestDao.lastChangeRequestByRepoUrl.mockResolvedValue(
+        changeRequest({ status: 'REJECTED' }),
+      );
+      serviceNowApiService.createChangeRequest.mockResolvedValue({
+        sys_id: 'sys-456',
+        number: 'CHG0000456',
+      });
+
+      const result = await handleServiceNowChangeRequestCreation(
+        {
+          logger,
+          config,
+          catalogInfoGenerator: {} as CatalogInfoGenerator,
+          serviceNowApiService,
+          serviceNowChangeRequestDao,
+        },
+        {
+          approvalTool: 'SERVICENOW',
+          catalogInfoContent: 'apiVersion: backstage.io/v1alpha1',
+          repository: { url: REPO_URL, defaultBranch: 'main' },
+        },
+        gitUrlParse(REPO_URL),
+      );
+
+      expect(serviceNowApiService.createChangeRequest).toHaveBeenCalledTimes(1);
+      expect(
+        serviceNowChangeRequestDao.insertChangeRequest,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({ sysId: 'sys-456', number: 'CHG0000456' }),
+      );
+      expect(result.servicenow?.changeRequest?.number).toEqual('CHG0000456');
+    });
+
+    it('should return an error if ServiceNow is not configured', async () => {
+      serviceNowApiService.isConfigured.mockReturnValue(false);
+
+      const result = await handleServiceNowChangeRequestCreation(
+        {
+          logger,
+          config,
+          catalogInfoGenerator: {} as CatalogInfoGenerator,
+          serviceNowApiService,
+          serviceNowChangeRequestDao,
+        },
+        {
+          approvalTool: 'SERVICENOW',
+          repository: { url: REPO_URL, defaultBranch: 'main' },
+        },
+        gitUrlParse(REPO_URL),
+      );
+
+      expect(result.status).toEqual('SERVICENOW_ERROR');
+      expect(serviceNowApiService.createChangeRequest).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findServiceNowImportByRepo', () => {
+    it.each([
+      ['PENDING', 'WAIT_SERVICENOW_RESOLUTION'],
+      ['REJECTED', 'SERVICENOW_TICKET_REJECTED'],
+    ] as const)(
+      'should map a %s change request to the %s import status',
+      async (changeRequestStatus, expectedImportStatus) => {
+        serviceNowChangeRequestDao.lastChangeRequestByRepoUrl.mockResolvedValue(
+          changeRequest({ status: changeRequestStatus }),
+        );
+
+        const result = await findServiceNowImportByRepo(
+          { serviceNowApiService, serviceNowChangeRequestDao },
+          REPO_URL,
+        );
+
+        expect(result?.status).toEqual(expectedImportStatus);
+        expect(result?.lastUpdate).toEqual('2024-01-02T00:00:00.000Z');
+        expect(result?.servicenow?.changeRequest?.number).toEqual('CHG0000123');
+      },
+    );
+
+    it('should ignore approved change requests', async () => {
+      serviceNowChangeRequestDao.lastChangeRequestByRepoUrl.mockResolvedValue(
+        changeRequest({ status: 'APPROVED' }),
+      );
+
+      const result = await findServiceNowImportByRepo(
+        { serviceNowApiService, serviceNowChangeRequestDao },
+        REPO_URL,
+      );
+
+      expect(result).toBeUndefined();
+    });
+
+    it('should return nothing if ServiceNow is not configured', async () => {
+      const result = await findServiceNowImportByRepo({}, REPO_URL);
+
+      expect(result).toBeUndefined();
+    });
+  });
+
+  describe('syncServiceNowChangeRequests', () => {
+    const syncDeps = () => ({
+      logger,
+      config,
+      githubApiService,
+      gitlabApiService: {} as GitlabApiService,
+      serviceNowApiService,
+      serviceNowChangeRequestDao,
+      catalogHttpClient,
+    });
+
+    beforeEach(() => {
+      serviceNowChangeRequestDao.findChangeRequestsByStatus.mockResolvedValue([
+        changeRequest(),
+      ]);
+    });
+
+    it('should not do anything while the change request is pending', async () => {
+      serviceNowApiService.getChangeRequest.mockResolvedValue({
+        sys_id: 'sys-123',
+        number: 'CHG0000123',
+        approval: 'requested',
+      });
+
+      await syncServiceNowChangeRequests(syncDeps());
+
+      expect(serviceNowChangeRequestDao.updateStatus).not.toHaveBeenCalled();
+      expect(catalogHttpClient.possiblyCreateLocation).not.toHaveBeenCalled();
+    });
+
+    it('should open the import PR and register the location once the change request is approved', async () => {
+      serviceNowApiService.getChangeRequest.mockResolvedValue({
+        sys_id: 'sys-123',
+        number: 'CHG0000123',
+        approval: 'approved',
+      });
+      githubApiService.hasFileInRepo.mockResolvedValue(false);
+      githubApiService.submitPrToRepo.mockResolvedValue({
+        prUrl: `${REPO_URL}/pull/1`,
+        prNumber: 1,
+      });
+
+      await syncServiceNowChangeRequests(syncDeps());
+
+      expect(githubApiService.submitPrToRepo).toHaveBeenCalledWith(
+        logger,
+        expect.objectContaining({
+          repoUrl: REPO_URL,
+          defaultBranch: 'main',
+          catalogInfoContent: 'apiVersion: backstage.io/v1alpha1',
+          prTitle: 'Add catalog-info.yaml',
+        }),
+      );
+      expect(catalogHttpClient.possiblyCreateLocation).toHaveBeenCalledWith(
+        `${REPO_URL}/blob/main/catalog-info.yaml`,
+      );
+      expect(serviceNowChangeRequestDao.updateStatus).toHaveBeenCalledWith(
+        'sys-123',
+        'APPROVED',
+      );
+    });
+
+    it('should retry later if the import PR could not be opened', async () => {
+      serviceNowApiService.getChangeRequest.mockResolvedValue({
+        sys_id: 'sys-123',
+        number: 'CHG0000123',
+        approval: 'approved',
+      });
+      githubApiService.hasFileInRepo.mockResolvedValue(false);
+      githubApiService.submitPrToRepo.mockResolvedValue({
+        errors: ['Forbidden'],
+      });
+
+      await syncServiceNowChangeRequests(syncDeps());
+
+      expect(catalogHttpClient.possiblyCreateLocation).not.toHaveBeenCalled();
+      expect(serviceNowChangeRequestDao.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should mark the change request as rejected', async () => {
+      serviceNowApiService.getChangeRequest.mockResolvedValue({
+        sys_id: 'sys-123',
+        number: 'CHG0000123',
+        approval: 'rejected',
+      });
+
+      await syncServiceNowChangeRequests(syncDeps());
+
+      expect(catalogHttpClient.possiblyCreateLocation).not.toHaveBeenCalled();
+      expect(serviceNowChangeRequestDao.updateStatus).toHaveBeenCalledWith(
+        'sys-123',
+        'REJECTED',
+      );
+    });
+  });
+
+  describe('deleteServiceNowChangeRequests', () => {
+    it('should cancel the pending change request', async () => {
+      serviceNowChangeRequestDao.lastChangeRequestByRepoUrl.mockResolvedValue(
+        changeRequest(),
+      );
+
+      await deleteServiceNowChangeRequests(
+        { logger, config, serviceNowApiService, serviceNowChangeRequestDao },
+        REPO_URL,
+      );
+
+      expect(serviceNowApiService.cancelChangeRequest).toHaveBeenCalledWith(
+        'sys-123',
+        expect.any(String),
+      );
+      expect(
+        serviceNowChangeRequestDao.deleteChangeRequestsByRepoUrl,
+      ).toHaveBeenCalledWith(REPO_URL);
+    });
+
+    it('should not cancel a change request that was already resolved', async () => {
+      serviceNowChangeRequestDao.lastChangeRequestByRepoUrl.mockResolvedValue(
+        changeRequest({ status: 'REJECTED' }),
+      );
+
+      await deleteServiceNowChangeRequests(
+        { logger, config, serviceNowApiService, serviceNowChangeRequestDao },
+        REPO_URL,
+      );
+
+      expect(serviceNowApiService.cancelChangeRequest).not.toHaveBeenCalled();
+      expect(
+        serviceNowChangeRequestDao.deleteChangeRequestsByRepoUrl,
+      ).toHaveBeenCalledWith(REPO_URL);
+    });
+  });
+});
@@ -0,0 +1,357 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { LoggerService } from '@backstage/backend-plugin-api';
+import type { Config } from '@backstage/config';
+
+import gitUrlParse from 'git-url-parse';
+
+import { CatalogHttpClient } from '../../../catalog/catalogHttpClient';
+import type { CatalogInfoGenerator } from '../../../catalog/catalogInfoGenerator';
+import {
+  getCatalogFilename,
+  getCatalogUrl,
+} from '../../../catalog/catalogUtils';
+import type {
+  ServiceNowChangeRequest,
+  ServiceNowChangeRequestDao,
+} from '../../../database/repositoryDao';
+import type { Components } from '../../../generated/openapi';
+import { logErrorIfNeeded, parseGitURLForApprovalTool } from '../../../helpers';
+import {
+  getChangeRequestStatus,
+  type ServiceNowApiService,
+} from '../../../servicenow';
+import { getGitApiService, type GitApiServices } from '../gitApiServices';
+
+export type ServiceNowServices = {
+  serviceNowApiService?: ServiceNowApiService;
+  serviceNowChangeRequestDao?: ServiceNowChangeRequestDao;
+};
+
+function getAppInfo(config: Config) {
+  return {
+    appTitle: config.getOptionalString('app.title') ?? 'Red Hat Developer Hub',
+    appBaseUrl: config.getString('app.baseUrl'),
+  };
+}
+
+function toImportStatus(
+  changeRequest: ServiceNowChangeRequest,
+): Components.Schemas.ImportStatus {
+  switch (changeRequest.status) {
+    case 'PENDING':
+      return 'WAIT_SERVICENOW_RESOLUTION';
+    case 'REJECTED':
+      return 'SERVICENOW_TICKET_REJECTED';
+    default:
+      return null;
+  }
+}
+
+function toImport(
+  serviceNowApiService: ServiceNowApiService,
+  changeRequest: ServiceNowChangeRequest,
+): Components.Schemas.Import {
+  const gitUrl = gitUrlParse(changeRequest.repositoryUrl);
+  return {
+    id: changeRequest.repositoryUrl,
+    approvalTool: 'SERVICENOW',
+    status: toImportStatus(changeRequest),
+    lastUpdate: new Date(changeRequest.updatedAt).toISOString(),
+    repository: {
+      url: changeRequest.repositoryUrl,
+      name: gitUrl.name,
+      organization: gitUrl.organization,
+      id: `${gitUrl.organization}/${gitUrl.name}`,
+      defaultBranch: changeRequest.defaultBranch,
+    },
+    servicenow: {
+      changeRequest: {
+        url: serviceNowApiService.getChangeRequestUrl(changeRequest.sysId),
+        number: changeRequest.number,
+        sysId: changeRequest.sysId,
+        status: changeRequest.status,
+      },
+    },
+  };
+}
+
+/**
+ * Returns the import of the given repository if it is still waiting for (or was rejected by) a ServiceNow change request.
+ * Approved change requests are ignored, because the import status is then determined from the catalog and the repository.
+ */
+export async function findServiceNowImportByRepo(
+  deps: ServiceNowServices,
+  repoUrl: string,
+): Promise<Components.Schemas.Import | undefined> {
+  if (!deps.serviceNowApiService || !deps.serviceNowChangeRequestDao) {
+    return undefined;
+  }
+  const changeRequest =
+    await deps.serviceNowChangeRequestDao.lastChangeRequestByRepoUrl(repoUrl);
+  if (!changeRequest || changeRequest.status === 'APPROVED') {
+    return undefined;
+  }
+  return toImport(deps.serviceNowApiService, changeRequest);
+}
+
+/**
+ * Returns all the imports still waiting for (or rejected by) a ServiceNow change request.
+ */
+export async function findAllServiceNowImports(
+  deps: ServiceNowServices,
+  search?: string,
+): Promise<Components.Schemas.Import[]> {
+  const serviceNowApiService = deps.serviceNowApiService;
+  if (!serviceNowApiService || !deps.serviceNowChangeRequestDao) {
+    return [];
+  }
+  const changeRequests =
+    await deps.serviceNowChangeRequestDao.findNotApprovedChangeRequests(search);
+  return changeRequests.map(changeRequest =>
+    toImport(serviceNowApiService, changeRequest),
+  );
+}
+
+export async function handleServiceNowChangeRequestCreation(
+  deps: ServiceNowServices & {
+    logger: LoggerService;
+    config: Config;
+    catalogInfoGenerator: CatalogInfoGenerator;
+  },
+  req: Components.Schemas.ImportRequest,
+  gitUrl: gitUrlParse.GitUrl,
+): Promise<Components.Schemas.Import> {
+  const repository = {
+    url: req.repository.url,
+    name: gitUrl.name,
+    organization: gitUrl.organization,
+  };
+  if (
+    !deps.serviceNowApiService?.isConfigured() ||
+    !deps.serviceNowChangeRequestDao
+  ) {
+    return {
+      approvalTool: 'SERVICENOW',
+      errors: [
+        "Looks like ServiceNow is not configured. Please add a configuration entry under 'bulkImport.serviceNow'",
+      ],
+      status: 'SERVICENOW_ERROR',
+      repository,
+    };
+  }
+
+  // Importing the same repository again must not open a second ticket while the first one is still being reviewed
+  const pendingChangeRequest =
+    await deps.serviceNowChangeRequestDao.lastChangeRequestByRepoUrl(
+      req.repository.url,
+    );
+  if (pendingChangeRequest?.status === 'PENDING') {
+    deps.logger.debug(
+      `ServiceNow change request ${pendingChangeRequest.number} is still pending for ${req.repository.url}: not creating a new one`,
+    );
+    return toImport(deps.serviceNowApiService, pendingChangeRequest);
+  }
+
+  const { appTitle, appBaseUrl } = getAppInfo(deps.config);
+  const catalogFileName = getCatalogFilename(deps.config);
+  const catalogInfoContent =
+    req.catalogInfoContent ??
+    (await deps.catalogInfoGenerator.generateDefaultCatalogInfoContent(
+      req.repository.url,
+      true,
+      req.repository.defaultBranch,
+    ));
+  const title =
+    req.servicenow?.changeRequest?.title ??
+    `Import ${req.repository.url} into the ${appTitle} software catalog`;
+  const body =
+    req.servicenow?.changeRequest?.body ??
+    `This change request adds a Backstage entity metadata file (${catalogFileName}) to the ${req.repository.url} repository, so that the component can be added to the ${appTitle} software catalog (${appBaseUrl}).`;
+
+  const changeRequest = await deps.serviceNowApiService.createChangeRequest({
+    shortDescription: title,
+    description: `${body}
+
+Content of the ${catalogFileName} file that will be added to the repository once this change request is approved:
+
+${catalogInfoContent}`,
+  });
+  await deps.serviceNowChangeRequestDao.insertChangeRequest({
+    repositoryUrl: req.repository.url,
+    defaultBranch: req.repository.defaultBranch,
+    sysId: changeRequest.sys_id,
+    number: changeRequest.number,
+    catalogInfoContent,
+  });
+  deps.logger.debug(
+    `Created ServiceNow change request ${changeRequest.number} for ${req.repository.url}`,
+  );
+
+  return {
+    approvalTool: 'SERVICENOW',
+    status: 'WAIT_SERVICENOW_RESOLUTION',
+    lastUpdate: new Date().toISOString(),
+    repository,
+    servicenow: {
+      changeRequest: {
+        url: deps.serviceNowApiService.getChangeRequestUrl(
+          changeRequest.sys_id,
+        ),
+        number: changeRequest.number,
+        sysId: changeRequest.sys_id,
+        title,
+        body,
+        status: 'PENDING',
+      },
+    },
+  };
+}
+
+async function registerApprovedImport(
+  deps: GitApiServices & {
+    logger: LoggerService;
+    config: Config;
+    catalogHttpClient: CatalogHttpClient;
+  },
+  changeRequest: ServiceNowChangeRequest,
+): Promise<boolean> {
+  const repoUrl = changeRequest.repositoryUrl;
+  const defaultBranch = changeRequest.defaultBranch;
+  const gitApiService = getGitApiService(
+    deps,
+    parseGitURLForApprovalTool(repoUrl),
+  );
+  const catalogFileName = getCatalogFilename(deps.config);
+  const hasCatalogInfoFileInRepo = await gitApiService.hasFileInRepo({
+    repoUrl,
+    defaultBranch,
+    fileName: catalogFileName,
+  });
+  if (!hasCatalogInfoFileInRepo && changeRequest.catalogInfoContent) {
+    const { appTitle, appBaseUrl } = getAppInfo(deps.config);
+    const pr = await gitApiService.submitPrToRepo(deps.logger, {
+      repoUrl,
+      gitUrl: gitUrlParse(repoUrl),
+      defaultBranch,
+      catalogInfoContent: changeRequest.catalogInfoContent,
+      prTitle: `Add ${catalogFileName}`,
+      prBody: `
+This pull request adds a **Backstage entity metadata file** to this repository so that the component can be added to a Backstage application.
+
+The import of this repository was approved in ServiceNow change request ${changeRequest.number}. After this pull request is merged, the component will become available in the [${appTitle} software catalog](${appBaseUrl}).
+`,
+    });
+    if (pr.errors && pr.errors.length > 0) {
+      deps.logger.warn(
+        `Could not create the import PR for ${repoUrl} after approval of ServiceNow change request ${changeRequest.number}: ${pr.errors}`,
+      );
+      return false;
+    }
+  }
+
+  await deps.catalogHttpClient.possiblyCreateLocation(
+    getCatalogUrl(deps.config, repoUrl, defaultBranch),
+  );
+  if (hasCatalogInfoFileInRepo) {
+    // Force a refresh of the Location, so that the entities from the catalog-info.yaml can show up quickly (not guaranteed however).
+    await deps.catalogHttpClient.refreshLocationByRepoUrl(
+      repoUrl,
+      defaultBranch,
+    );
+  }
+  return true;
+}
+
+/**
+ * Polls ServiceNow for the state of all pending change requests.
+ * Once a change request is approved, the import PR is opened if needed and the Location is registered in the catalog.
+ */
+export async function syncServiceNowChangeRequests(
+  deps: GitApiServices &
+    ServiceNowServices & {
+      logger: LoggerService;
+      config: Config;
+      catalogHttpClient: CatalogHttpClient;
+    },
+): Promise<void> {
+  if (!deps.serviceNowApiService || !deps.serviceNowChangeRequestDao) {
+    return;
+  }
+  const pendingChangeRequests =
+    await deps.serviceNowChangeRequestDao.findChangeRequestsByStatus('PENDING');
+  deps.logger.debug(
+    `Checking ${pendingChangeRequests.length} pending ServiceNow change request(s)..`,
+  );
+  for (const changeRequest of pendingChangeRequests) {
+    try {
+      const status = getChangeRequestStatus(
+        await deps.serviceNowApiService.getChangeRequest(changeRequest.sysId),
+      );
+      if (status === 'PENDING') {
+        continue;
+      }
+      if (
+        status === 'APPROVED' &&
+        !(await registerApprovedImport(deps, changeRequest))
+      ) {
+        continue;
+      }
+      await deps.serviceNowChangeRequestDao.updateStatus(
+        changeRequest.sysId,
+        status,
+      );
+      deps.logger.info(
+        `ServiceNow change request ${changeRequest.number} for ${changeRequest.repositoryUrl} was ${status.toLocaleLowerCase()}`,
+      );
+    } catch (err: any) {
+      logErrorIfNeeded(
+        deps.logger,
+        `Error while checking ServiceNow change request ${changeRequest.number} for ${changeRequest.repositoryUrl}`,
+        err,
+      );
+    }
+  }
+}
+
+/**
+ * Cancels the pending ServiceNow change request of the given repository (if any), and forgets about all its change requests.
+ */
+export async function deleteServiceNowChangeRequests(
+  deps: ServiceNowServices & {
+    logger: LoggerService;
+    config: Config;
+  },
+  repoUrl: string,
+): Promise<void> {
+  if (!deps.serviceNowApiService || !deps.serviceNowChangeRequestDao) {
+    return;
+  }
+  const changeRequest =
+    await deps.serviceNowChangeRequestDao.lastChangeRequestByRepoUrl(repoUrl);
+  if (!changeRequest) {
+    return;
+  }
+  if (changeRequest.status === 'PENDING') {
+    const { appTitle, appBaseUrl } = getAppInfo(deps.config);
+    await deps.serviceNowApiService.cancelChangeRequest(
+      changeRequest.sysId,
+      `Canceling change request upon request for bulk import deletion. This request was created from ${appTitle} (${appBaseUrl}).`,
+    );
+  }
+  await deps.serviceNowChangeRequestDao.deleteChangeRequestsByRepoUrl(repoUrl);
+}
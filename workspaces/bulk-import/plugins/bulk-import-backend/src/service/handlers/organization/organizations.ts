@@ -16,12 +16,15 @@
 
 import type { LoggerService } from '@backstage/backend-plugin-api';
 
+import type { AzureOrganizationResponse } from '../../../azure';
+import type { BitbucketOrganizationResponse } from '../../../bitbucket';
 import type { Components } from '../../../generated/openapi';
 import type {
-  GithubApiService,
+  GithubOrganization,
   GithubOrganizationResponse,
 } from '../../../github';
-import { GitlabApiService, GitlabOrganizationResponse } from '../../../gitlab';
+import { GitlabOrganizationResponse } from '../../../gitlab';
+import type { GitApiService } from '../gitApiServices';
 import {
   DefaultPageNumber,
   DefaultPageSize,
@@ -30,7 +33,7 @@ import {
 
 export async function findAllOrganizations(
   logger: LoggerService,
-  gitApiService: GithubApiService | GitlabApiService,
+  gitApiService: GitApiService,
   search?: string,
   pageNumber: number = DefaultPageNumber,
   pageSize: number = DefaultPageSize,
@@ -81,19 +84,25 @@ export async function findAllOrganizations(
 }
 
 function extractOrgMap(
-  allOrgsAccessible: GithubOrganizationResponse | GitlabOrganizationResponse,
+  allOrgsAccessible:
+    | GithubOrganizationResponse
+    | GitlabOrganizationResponse
+    | BitbucketOrganizationResponse
+    | AzureOrganizationResponse,
 ) {
   const orgMap = new Map<string, Components.Schemas.Organization>();
   for (const org of allOrgsAccessible.organizations ?? []) {
+    // Repository counts are only returned by GitHub and GitLab
+    const { public_repos, total_private_repos, owned_private_repos } =
+      org as GithubOrganization;
     let totalRepoCount: number | undefined;
     if (
-      org.public_repos !== undefined ||
-      org.total_private_repos !== undefined ||
-      org.owned_private_repos !== undefined
+      public_repos !== undefined ||
+      total_private_repos !== undefined ||
+      owned_private_repos !== undefined
     ) {
       totalRepoCount =
-        (org.public_repos ?? 0) +
-        (org.owned_private_repos ?? org.total_private_repos ?? 0);
+        (public_repos ?? 0) + (owned_private_repos ?? total_private_repos ?? 0);
     }
     orgMap.set(org.name, {
       id: `${org.id}`,
@@ -20,26 +20,31 @@ import type { Config } from '@backstage/config';
 import gitUrlParse from 'git-url-parse';
 
 import { CatalogHttpClient } from '../../../catalog/catalogHttpClient';
+import type { AzureRepositoryResponse } from '../../../azure';
+import type { BitbucketRepositoryResponse } from '../../../bitbucket';
 import type { Components } from '../../../generated/openapi';
-import type {
-  GithubApiService,
-  GithubRepositoryResponse,
-} from '../../../github';
-import { GitlabApiService, GitlabRepositoryResponse } from '../../../gitlab';
+import type { GithubRepositoryResponse } from '../../../github';
+import { GitlabRepositoryResponse } from '../../../gitlab';
+import type { GitApiService } from '../gitApiServices';
 import {
   DefaultPageNumber,
   DefaultPageSize,
   type HandlerResponse,
 } from '../handlers';
-import { getImportStatusFromLocations } from '../import';
+import {
+  getImportStatusFromLocations,
+  type RepositoryDriftServices,
+  type ServiceNowServices,
+} from '../import';
 
 export async function findAllRepositories(
-  deps: {
-    logger: LoggerService;
-    config: Config;
-    gitApiService: GithubApiService | GitlabApiService;
-    catalogHttpClient: CatalogHttpClient;
-  },
+  deps: ServiceNowServices &
+    RepositoryDriftServices & {
+      logger: LoggerService;
+      config: Config;
+      gitApiService: GitApiService;
+      catalogHttpClient: CatalogHttpClient;
+    },
   reqParams?: {
     approvalTool?: string;
     search?: string;
@@ -66,12 +71,13 @@ export async function findAllRepositories(
 }
 
 export async function findRepositoriesByOrganization(
-  deps: {
-    logger: LoggerService;
-    config: Config;
-    gitApiService: GithubApiService | GitlabApiService;
-    catalogHttpClient: CatalogHttpClient;
-  },
+  deps: ServiceNowServices &
+    RepositoryDriftServices & {
+      logger: LoggerService;
+      config: Config;
+      gitApiService: GitApiService;
+      catalogHttpClient: CatalogHttpClient;
+    },
   orgName: string,
   search?: string,
   checkStatus: boolean = false,
@@ -111,13 +117,18 @@ type ImportStatus =
   | undefined;
 
 async function formatResponse(
-  deps: {
-    logger: LoggerService;
-    config: Config;
-    gitApiService: GithubApiService | GitlabApiService;
-    catalogHttpClient: CatalogHttpClient;
-  },
-  allReposAccessible: GithubRepositoryResponse | GitlabRepositoryResponse,
+  deps: ServiceNowServices &
+    RepositoryDriftServices & {
+      logger: LoggerService;
+      config: Config;
+      gitApiService: GitApiService;
+      catalogHttpClient: CatalogHttpClient;
+    },
+  allReposAccessible:
+    | GithubRepositoryResponse
+    | GitlabRepositoryResponse
+    | BitbucketRepositoryResponse
+    | AzureRepositoryResponse,
   checkStatus: boolean,
 ) {
   const errorList =
@@ -24,7 +24,9 @@ import type {
   DiscoveryService,
   HttpAuthService,
   LoggerService,
+  SchedulerService,
 } from '@backstage/backend-plugin-api';
+import { readSchedulerServiceTaskScheduleDefinitionFromConfig } from '@backstage/backend-plugin-api';
 import type { CatalogApi } from '@backstage/catalog-client';
 import type { Config } from '@backstage/config';
 import { InputError } from '@backstage/errors';
@@ -46,15 +48,21 @@ import { CatalogHttpClient } from '../catalog/catalogHttpClient';
 import { CatalogInfoGenerator } from '../catalog/catalogInfoGenerator';
 import { migrate } from '../database/migration';
 import {
+  ImportBatchDao,
   OrchestratorWorkflowDao,
   RepositoryDao,
+  RepositoryDriftDao,
   ScaffolderTaskDao,
+  ServiceNowChangeRequestDao,
   TaskLocationsDao,
 } from '../database/repositoryDao';
 import type { Components, Paths, SourceImport } from '../generated/openapi.d';
 import { openApiDocument } from '../generated/openapidocument';
+import { AzureApiService } from '../azure';
+import { BitbucketApiService } from '../bitbucket';
 import { GithubApiService } from '../github';
 import { GitlabApiService } from '../gitlab';
+import { ServiceNowApiService } from '../servicenow';
 import {
   getImportTemplateRef,
   parseGitURLForApprovalTool,
@@ -63,17 +71,32 @@ import {
 import { auditCreateEvent } from '../helpers/auditorUtils';
 import {
   createImportJobs,
+  createImportManifestJobs,
   deleteImportByRepo,
   deleteRepositoryRecord,
+  detectRepositoryDrifts,
   findAllImports,
+  findImportBatchById,
   findImportStatusByRepo,
   findOrchestratorImportStatusByRepo,
   findTaskImportStatusByRepo,
+  IMPORT_BATCHES_TASK_ID,
+  processImportBatches,
+  repairImportByRepo,
   sortImports,
+  syncServiceNowChangeRequests,
+  type ImportManifestServices,
+  type RepositoryDriftServices,
+  type ServiceNowServices,
 } from './handlers/import';
 import { createWorkflowImportJobs } from './handlers/import/execute-orchestrator-workflow';
 import { createTaskImportJobs } from './handlers/import/execute-template';
 import { findAllOrganizations } from './handlers/organization';
+import {
+  getGitApiService,
+  getGitApprovalTool,
+  type GitApiServices,
+} from './handlers/gitApiServices';
 import { ping } from './handlers/ping';
 import {
   findAllRepositories,
@@ -95,6 +118,7 @@ export interface RouterOptions {
   catalogApi: CatalogApi;
   auditor: AuditorService;
   database: DatabaseService;
+  scheduler?: SchedulerService;
 }
 
 namespace Operations {
@@ -114,6 +138,8 @@ namespace Operations {
   export const CREATE_TASK_IMPORT_JOBS = 'createTaskImportJobs';
   export const CREATE_ORCHESTRATOR_WORKFLOW_JOBS =
     'createOrchestratorWorkflowJobs';
+  export const CREATE_IMPORT_MANIFEST_JOBS = 'createImportManifestJobs';
+  export const FIND_IMPORT_BATCH_BY_ID = 'findImportBatchById';
 
   export const FIND_IMPORT_STATUS_BY_REPO = 'findImportStatusByRepo';
   export const FIND_TASK_IMPORT_STATUS_BY_REPO = 'findTaskImportStatusByRepo';
@@ -124,6 +150,8 @@ namespace Operations {
   export const DELETE_TASK_IMPORT_BY_REPO = 'deleteTaskImportByRepo';
   export const DELETE_ORCHESTRATOR_IMPORT_BY_REPO =
     'deleteOrchestratorImportByRepo';
+
+  export const REPAIR_IMPORT_BY_REPO = 'repairImportByRepo';
 }
 
 /**
@@ -144,6 +172,7 @@ export async function createRouter(
     catalogApi,
     auditor: auditor,
     database,
+    scheduler,
   } = options;
 
   const knex = await migrate(database);
@@ -156,9 +185,13 @@ export async function createRouter(
     'orchestrator_repositories',
   );
   const orchestratorWorkflowDao = new OrchestratorWorkflowDao(knex);
-  // This should probably be sometype of object that holds all the scm API service objects
   const githubApiService = new GithubApiService(logger, config, cache);
-  const gitlabApiService = new GitlabApiService(logger, config, cache);
+  const gitApiServices: GitApiServices = {
+    githubApiService,
+    gitlabApiService: new GitlabApiService(logger, config, cache),
+    bitbucketApiService: new BitbucketApiService(logger, config),
+    azureApiService: new AzureApiService(logger, config),
+  };
   const catalogHttpClient = new CatalogHttpClient({
     logger,
     config,
@@ -169,7 +202,96 @@ export async function createRouter(
   const catalogInfoGenerator = new CatalogInfoGenerator(
     logger,
     catalogHttpClient,
+    gitApiServices,
   );
+  const serviceNowApiService = new ServiceNowApiService(logger, config);
+  const serviceNowServices: ServiceNowServices =
+    serviceNowApiService.isConfigured()
+      ? {
+          serviceNowApiService,
+          serviceNowChangeRequestDao: new ServiceNowChangeRequestDao(knex),
+        }
+      : {};
+  if (serviceNowApiService.isConfigured() && scheduler) {
+    const scheduleConfig = config.getOptionalConfig(
+      'bulkImport.serviceNow.schedule',
+    );
+    await scheduler.scheduleTask({
+      id: 'bulk-import-servicenow-change-requests-sync',
+      ...(scheduleConfig
+        ? readSchedulerServiceTaskScheduleDefinitionFromConfig(scheduleConfig)
+        : { frequency: { minutes: 5 }, timeout: { minutes: 3 } }),
+      fn: async () =>
+        syncServiceNowChangeRequests({
+          logger,
+          config,
+          ...gitApiServices,
+          ...serviceNowServices,
+          catalogHttpClient,
+        }),
+    });
+  }
+
+  const repositoryDriftServices: RepositoryDriftServices = {
+    repositoryDriftDao: new RepositoryDriftDao(knex),
+  };
+  if (scheduler) {
+    const scheduleConfig = config.getOptionalConfig(
+      'bulkImport.driftDetection.schedule',
+    );
+    await scheduler.scheduleTask({
+      id: 'bulk-import-repository-drift-detection',
+      ...(scheduleConfig
+        ? readSchedulerServiceTaskScheduleDefinitionFromConfig(scheduleConfig)
+        : { frequency: { hours: 1 }, timeout: { minutes: 15 } }),
+      fn: async () =>
+        detectRepositoryDrifts({
+          logger,
+          config,
+          ...gitApiServices,
+          ...repositoryDriftServices,
+          catalogHttpClient,
+        }),
+    });
+  }
+
+  const importManifestServices: ImportManifestServices = {
+    importBatchDao: new ImportBatchDao(knex),
+    discovery,
+    repositoryDao,
+    taskDao,
+    taskLocationsDao,
+    scheduler,
+  };
+  const processAllImportBatches = () =>
+    processImportBatches({
+      logger,
+      config,
+      auth,
+      catalogApi,
+      ...gitApiServices,
+      ...serviceNowServices,
+      ...importManifestServices,
+      catalogInfoGenerator,
+      catalogHttpClient,
+    });
+  if (scheduler) {
+    const scheduleConfig = config.getOptionalConfig(
+      'bulkImport.importManifest.schedule',
+    );
+    await scheduler.scheduleTask({
+      id: IMPORT_BATCHES_TASK_ID,
+      ...(scheduleConfig
+        ? readSchedulerServiceTaskScheduleDefinitionFromConfig(scheduleConfig)
+        : { frequency: { minutes: 1 }, timeout: { hours: 1 } }),
+      fn: processAllImportBatches,
+    });
+  } else {
+    // Batches interrupted by a restart are resumed in the background
+    processAllImportBatches().catch(err =>
+      logger.error('Error while resuming import batches', err),
+    );
+  }
 
   // create openapi requests handler
   const api = new OpenAPIBackend({
@@ -222,7 +344,7 @@ export async function createRouter(
       q.sizePerIntegration = stringToNumber(q.sizePerIntegration);
       const response = await findAllOrganizations(
         logger,
-        q.approvalTool === 'GITLAB' ? gitlabApiService : githubApiService,
+        getGitApiService(gitApiServices, q.approvalTool),
         q.search,
         q.pagePerIntegration,
         q.sizePerIntegration,
@@ -252,9 +374,10 @@ export async function createRouter(
         {
           logger,
           config,
-          gitApiService:
-            q.approvalTool === 'GITLAB' ? gitlabApiService : githubApiService,
+          gitApiService: getGitApiService(gitApiServices, q.approvalTool),
           catalogHttpClient,
+          ...serviceNowServices,
+          ...repositoryDriftServices,
         },
         {
           search: q.search,
@@ -290,9 +413,10 @@ export async function createRouter(
         {
           logger,
           config,
-          gitApiService:
-            q.approvalTool === 'GITLAB' ? gitlabApiService : githubApiService,
+          gitApiService: getGitApiService(gitApiServices, q.approvalTool),
           catalogHttpClient,
+          ...serviceNowServices,
+          ...repositoryDriftServices,
         },
         c.request.params.organizationName?.toString(),
         q.search,
@@ -327,8 +451,9 @@ export async function createRouter(
         {
           logger,
           config,
-          githubApiService,
-          gitlabApiService,
+          ...gitApiServices,
+          ...serviceNowServices,
+          ...repositoryDriftServices,
           catalogHttpClient,
         },
         {
@@ -362,8 +487,7 @@ export async function createRouter(
           {
             logger,
             config,
-            githubApiService,
-            gitlabApiService,
+            ...gitApiServices,
             catalogHttpClient,
             repositoryDao,
             taskDao,
@@ -453,8 +577,9 @@ export async function createRouter(
           config,
           auth,
           catalogApi,
-          gitlabApiService,
-          githubApiService,
+          ...gitApiServices,
+          ...serviceNowServices,
+          ...repositoryDriftServices,
           catalogInfoGenerator,
           catalogHttpClient,
         },
@@ -518,8 +643,7 @@ export async function createRouter(
         requestBody: c.request.requestBody,
         orchestratorWorkflowDao,
         orchestratorRepositoryDao,
-        githubApiService,
-        gitlabApiService,
+        ...gitApiServices,
       });
 
       res.status(response.statusCode).json(response.responseBody);
@@ -539,8 +663,7 @@ export async function createRouter(
         {
           logger,
           config,
-          githubApiService,
-          gitlabApiService,
+          ...gitApiServices,
           catalogHttpClient,
           repositoryDao,
           taskDao,
@@ -567,10 +690,14 @@ export async function createRouter(
         {
           logger,
           config,
-          gitApiService:
-            q.approvalTool === 'GITLAB' ? gitlabApiService : githubApiService,
+          gitApiService: getGitApiService(
+            gitApiServices,
+            getGitApprovalTool(q.approvalTool, q.repo),
+          ),
           catalogHttpClient,
           approvalTool: q.approvalTool,
+          ...serviceNowServices,
+          ...repositoryDriftServices,
         },
         q.repo,
         q.defaultBranch,
@@ -637,11 +764,13 @@ export async function createRouter(
         {
           logger,
           config,
-          gitApiService:
-            parseGitURLForApprovalTool(q.repo) === 'GITLAB'
-              ? gitlabApiService
-              : githubApiService,
+          gitApiService: getGitApiService(
+            gitApiServices,
+            parseGitURLForApprovalTool(q.repo),
+          ),
           catalogHttpClient,
+          ...serviceNowServices,
+          ...repositoryDriftServices,
         },
         q.repo,
         q.defaultBranch,
@@ -670,8 +799,76 @@ export async function createRouter(
     },
   );
 
+  api.register(
+    Operations.REPAIR_IMPORT_BY_REPO,
+    async (c: Context, _req: Request, res: Response) => {
+      const q: Paths.RepairImportByRepo.QueryParameters = {
+        ...c.request.query,
+      };
+      if (!q.repo?.trim()) {
+        throw new Error('missing or blank "repo" parameter');
+      }
+      const response = await repairImportByRepo(
+        {
+          logger,
+          config,
+          ...gitApiServices,
+          ...repositoryDriftServices,
+          catalogHttpClient,
+          catalogInfoGenerator,
+        },
+        q.repo,
+      );
+      return res.status(response.statusCode).json(response.responseBody);
+    },
+  );
+
+  api.register(
+    Operations.CREATE_IMPORT_MANIFEST_JOBS,
+    async (c: Context<string>, req: Request, res: Response) => {
+      const q: Paths.CreateImportManifestJobs.QueryParameters = {
+        ...c.request.query,
+      };
+      q.dryRun = stringToBoolean(q.dryRun);
+      const response = await createImportManifestJobs(
+        {
+          logger,
+          config,
+          auth,
+          catalogApi,
+          ...gitApiServices,
+          ...serviceNowServices,
+          ...importManifestServices,
+          catalogInfoGenerator,
+          catalogHttpClient,
+        },
+        {
+          manifest: c.request.requestBody,
+          contentType: req.header('content-type'),
+          dryRun: q.dryRun,
+        },
+      );
+      return res.status(response.statusCode).json(response.responseBody);
+    },
+  );
+
+  api.register(
+    Operations.FIND_IMPORT_BATCH_BY_ID,
+    async (c: Context, _req: Request, res: Response) => {
+      const response = await findImportBatchById(
+        importManifestServices,
+        c.request.params.batchId.toString(),
+      );
+      return res.status(response.statusCode).json(response.responseBody);
+    },
+  );
+
   const router = Router();
   router.use(express.json());
+  // Import manifests are submitted as raw YAML or CSV content
+  router.use(
+    express.text({ type: ['application/yaml', 'text/csv'], limit: '1mb' }),
+  );
 
   const permissionIntegrationRouter = createPermissionIntegrationRouter({
     permissions: [bulkImportPermission],
@@ -761,6 +958,24 @@ async function createAuditorEventByOperationId(
         actionType: 'create',
       });
       break;
+    case Operations.CREATE_IMPORT_MANIFEST_JOBS:
+      auditorEvent = await auditCreateEvent(auditor, 'import-write', req, {
+        actionType: 'create',
+        source: 'manifest',
+        dryRun: req.query.dryRun,
+      });
+      break;
+    case Operations.FIND_IMPORT_BATCH_BY_ID:
+      auditorEvent = await auditCreateEvent(
+        auditor,
+        'import-status-read',
+        req,
+        {
+          queryType: 'by-batch',
+          batchId: req.params.batchId,
+        },
+      );
+      break;
     case Operations.FIND_IMPORT_STATUS_BY_REPO:
     case Operations.FIND_TASK_IMPORT_STATUS_BY_REPO:
     case Operations.FIND_ORCHESTRATOR_IMPORT_STATUS_BY_REPO:
@@ -779,6 +994,12 @@ async function createAuditorEventByOperationId(
         repository: req.query.repo,
       });
       break;
+    case Operations.REPAIR_IMPORT_BY_REPO:
+      auditorEvent = await auditCreateEvent(auditor, 'import-write', req, {
+        actionType: 'repair',
+        repository: req.query.repo,
+      });
+      break;
     case undefined:
       auditorEvent = await auditCreateEvent(auditor, operationId, req);
       break;
@@ -0,0 +1,220 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { mockServices } from '@backstage/backend-test-utils';
+import type { JsonObject } from '@backstage/types';
+
+import { rest } from 'msw';
+import { setupServer } from 'msw/node';
+
+import {
+  getChangeRequestStatus,
+  ServiceNowApiService,
+} from './serviceNowApiService';
+
+const SERVICENOW_URL = 'https://my-instance.service-now.com';
+
+describe('ServiceNowApiService tests', () => {
+  const server = setupServer();
+  const logger = mockServices.logger.mock();
+
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
+  afterEach(() => server.resetHandlers());
+  afterAll(() => server.close());
+
+  function createService(serviceNowConfig?: JsonObject) {
+    return new ServiceNowApiService(
+      logger,
+      mockServices.rootConfig({
+        data: serviceNowConfig
+          ? { bulkImport: { serviceNow: serviceNowConfig } }
+          : {},
+      }),
+    );
+  }
+
+  it('should not be configured without any ServiceNow configuration', async () => {
+    const serviceNowApiService = createService();
+
+    expect(serviceNowApiService.isConfigured()).toBe(false);
+    await expect(
+      serviceNowApiService.getChangeRequest('sys-123'),
+    ).rejects.toThrow('Looks like ServiceNow is not configured');
+  });
+
+  it('should create a change request with the configured fields', async () => {
+    let receivedBody: any;
+    let receivedAuthorization: string | null = null;
+    server.use(
+      rest.post(
+        `${SERVICENOW_URL}/api/now/table/change_request`,
+        async (req, res, ctx) => {
+          receivedBody = await req.json();
+          receivedAuthorization = req.headers.get('Authorization');
+          return res(
+            ctx.status(201),
+            ctx.json({
+              result: {
+                sys_id: 'sys-123',
+                number: 'CHG0000123',
+                state: '-5',
+                approval: 'not requested',
+              },
+            }),
+          );
+        },
+      ),
+    );
+    const serviceNowApiService = createService({
+      baseUrl: `${SERVICENOW_URL}/`,
+      username: 'my-user',
+      password: 'my-password', // notsecret
+      assignmentGroup: 'platform-team',
+      changeRequestFields: { category: 'Software' },
+    });
+
+    const changeRequest = await serviceNowApiService.createChangeRequest({
+      shortDescription: 'Import my-repo',
+      description: 'Some description',
+    });
+
+    expect(changeRequest).toEqual({
+      sys_id: 'sys-123',
+      number: 'CHG0000123',
+      state: '-5',
+      approval: 'not requested',
+    });
+    expect(receivedBody).toEqual({
+      type: 'normal',
+      category: 'Software',
+      assignment_group: 'platform-team',
+      short_description: 'Import my-repo',
+      description: 'Some description',
+    });
+    expect(receivedAuthorization).toEqual(
+      `Basic ${Buffer.from('my-user:my-password').toString('base64')}`,
+    );
+  });
+
+  it('should get a change request using the configured token', async () => {
+    let receivedAuthorization: string | null = null;
+    server.use(
+      rest.get(
+        `${SERVICENOW_URL}/api/now/table/change_request/sys-123`,
+        (req, res, ctx) => {
+          receivedAuthorization = req.headers.get('Authorization');
+          return res(
+            ctx.status(200),
+            ctx.json({
+              result: {
+                sys_id: 'sys-123',
+                number: 'CHG0000123',
+                state: '-2',
+                approval: 'approved',
+              },
+            }),
+          );
+        },
+      ),
+    );
+    const serviceNowApiService = createService({
+      baseUrl: SERVICENOW_URL,
+      token: 'my-token', // notsecret
+    });
+
+    const changeRequest =
+      await serviceNowApiService.getChangeRequest('sys-123');
+
+    expect(getChangeRequestStatus(changeRequest)).toEqual('APPROVED');
+    expect(receivedAuthorization).toEqual('Bearer my-token');
+  });
+
+  it('should throw an error if the change request cannot be found', async () => {
+    server.use(
+      rest.get(
+        `${SERVICENOW_URL}/api/now/table/change_request/unknown`,
+        (_, res, ctx) =>
+          res(
+            ctx.status(404),
+            ctx.json({ error: { message: 'No Record found' } }),
+          ),
+      ),
+    );
+    const serviceNowApiService = createService({
+      baseUrl: SERVICENOW_URL,
+      token: 'my-token', // notsecret
+    });
+
+    await expect(
+      serviceNowApiService.getChangeRequest('unknown'),
+    ).rejects.toThrow();
+  });
+
+  it('should cancel a change request', async () => {
+    let receivedBody: any;
+    server.use(
+      rest.patch(
+        `${SERVICENOW_URL}/api/now/table/change_request/sys-123`,
+        async (req, res, ctx) => {
+          receivedBody = await req.json();
+          return res(
+            ctx.status(200),
+            ctx.json({
+              result: { sys_id: 'sys-123', number: 'CHG0000123', state: '4' },
+            }),
+          );
+        },
+      ),
+    );
+    const serviceNowApiService = createService({
+      baseUrl: SERVICENOW_URL,
+      token: 'my-token', // notsecret
+    });
+
+    await serviceNowApiService.cancelChangeRequest('sys-123', 'Not needed');
+
+    expect(receivedBody).toEqual({ state: '4', work_notes: 'Not needed' });
+  });
+
+  it('should build the URL of the change request', () => {
+    const serviceNowApiService = createService({
+      baseUrl: SERVICENOW_URL,
+      token: 'my-token', // notsecret
+    });
+
+    expect(serviceNowApiService.getChangeRequestUrl('sys-123')).toEqual(
+      `${SERVICENOW_URL}/nav_to.do?uri=change_request.do%3Fsys_id%3Dsys-123`,
+    );
+  });
+
+  it.each([
+    [{ approval: 'requested', state: '-3' }, 'PENDING'],
+    [{ approval: 'approved', state: '-2' }, 'APPROVED'],
+    [{ approval: 'rejected', state: '-3' }, 'REJECTED'],
+    [{ approval: 'requested', state: '4' }, 'REJECTED'],
+  ])(
+    'should map the change request %o to the %s status',
+    (changeRequest, expectedStatus) => {
+      expect(
+        getChangeRequestStatus({
+          sys_id: 'sys-123',
+          number: 'CHG0000123',
+          ...changeRequest,
+        }),
+      ).toEqual(expectedStatus);
+    },
+  );
+});
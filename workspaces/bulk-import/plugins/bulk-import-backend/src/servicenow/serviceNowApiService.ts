@@ -0,0 +1,150 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { LoggerService } from '@backstage/backend-plugin-api';
+import type { Config } from '@backstage/config';
+
+import type { ServiceNowChangeRequestStatus } from '../database/repositoryDao';
+import { sendJsonRequest } from '../helpers';
+import type {
+  ServiceNowChangeRequestInput,
+  ServiceNowChangeRequestRecord,
+} from './types';
+
+const CHANGE_REQUEST_FIELDS = 'sys_id,number,state,approval';
+const CANCELED_STATE = '4';
+
+// See https://docs.servicenow.com/bundle/latest/page/integrate/inbound-rest/concept/c_TableAPI.html
+export class ServiceNowApiService {
+  private readonly logger: LoggerService;
+  private readonly config?: Config;
+
+  constructor(logger: LoggerService, config: Config) {
+    this.logger = logger;
+    this.config = config.getOptionalConfig('bulkImport.serviceNow');
+  }
+
+  isConfigured(): boolean {
+    return this.config !== undefined;
+  }
+
+  async createChangeRequest(
+    input: ServiceNowChangeRequestInput,
+  ): Promise<ServiceNowChangeRequestRecord> {
+    const assignmentGroup =
+      this.getConfig().getOptionalString('assignmentGroup');
+    const additionalFields =
+      this.getConfig().getOptional<Record<string, string>>(
+        'changeRequestFields',
+      ) ?? {};
+    const resp = await sendJsonRequest<{
+      result: ServiceNowChangeRequestRecord;
+    }>(
+      `${this.getBaseUrl()}/api/now/table/change_request?sysparm_fields=${CHANGE_REQUEST_FIELDS}`,
+      this.getHeaders(),
+      {
+        method: 'POST',
+        body: {
+          type: 'normal',
+          ...additionalFields,
+          ...(assignmentGroup ? { assignment_group: assignmentGroup } : {}),
+          short_description: input.shortDescription,
+          description: input.description,
+        },
+      },
+    );
+    this.logger.debug(
+      `Created ServiceNow change request ${resp.result.number} (${resp.result.sys_id})`,
+    );
+    return resp.result;
+  }
+
+  async getChangeRequest(
+    sysId: string,
+  ): Promise<ServiceNowChangeRequestRecord> {
+    const resp = await sendJsonRequest<{
+      result: ServiceNowChangeRequestRecord;
+    }>(
+      `${this.getBaseUrl()}/api/now/table/change_request/${encodeURIComponent(sysId)}?sysparm_fields=${CHANGE_REQUEST_FIELDS}`,
+      this.getHeaders(),
+    );
+    return resp.result;
+  }
+
+  async cancelChangeRequest(sysId: string, comment: string): Promise<void> {
+    await sendJsonRequest(
+      `${this.getBaseUrl()}/api/now/table/change_request/${encodeURIComponent(sysId)}?sysparm_fields=${CHANGE_REQUEST_FIELDS}`,
+      this.getHeaders(),
+      {
+        method: 'PATCH',
+        body: {
+          state: CANCELED_STATE,
+          work_notes: comment,
+        },
+      },
+    );
+  }
+
+  getChangeRequestUrl(sysId: string): string {
+    return `${this.getBaseUrl()}/nav_to.do?uri=${encodeURIComponent(
+      `change_request.do?sys_id=${sysId}`,
+    )}`;
+  }
+
+  private getConfig(): Config {
+    if (!this.config) {
+      throw new Error(
+        "Looks like ServiceNow is not configured. Please add a configuration entry under 'bulkImport.serviceNow'",
+      );
+    }
+    return this.config;
+  }
+
+  private getBaseUrl(): string {
+    return this.getConfig().getString('baseUrl').replace(/\/+$/, '');
+  }
+
+  private getHeaders(): Record<string, string> {
+    const config = this.getConfig();
+    const token = config.getOptionalString('token');
+    if (token) {
+      return { Authorization: `Bearer ${token}` };
+    }
+    const username = config.getString('username');
+    const password = config.getString('password');
+    return {
+      Authorization: `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`,
+    };
+  }
+}
+
+/**
+ * Maps the state and approval of a ServiceNow change request to the status of the import
+ */
+export function getChangeRequestStatus(
+  changeRequest: ServiceNowChangeRequestRecord,
+): ServiceNowChangeRequestStatus {
+  if (
+    changeRequest.approval === 'rejected' ||
+    changeRequest.state === CANCELED_STATE
+  ) {
+    return 'REJECTED';
+  }
+  if (changeRequest.approval === 'approved') {
+    return 'APPROVED';
+  }
+  return 'PENDING';
+}
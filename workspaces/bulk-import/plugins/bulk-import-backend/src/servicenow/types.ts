@@ -0,0 +1,33 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export type ServiceNowChangeRequestRecord = {
+  sys_id: string;
+  number: string;
+  /**
+   * State of the change request, e.g.: '-5' (New), '-3' (Authorize), '-2' (Scheduled), '3' (Closed) or '4' (Canceled)
+   */
+  state?: string;
+  /**
+   * Approval of the change request: 'not requested', 'requested', 'approved' or 'rejected'
+   */
+  approval?: string;
+};
+
+export type ServiceNowChangeRequestInput = {
+  shortDescription: string;
+  description: string;
+};
@@ -37,6 +37,18 @@ export interface Config {
      */
     importTemplate?: string;
 
+    /**
+     * ServiceNow instance used to approve repository imports with change requests.
+     * The 'ServiceNow' approval tool is available only when this is configured.
+     */
+    serviceNow?: {
+      /**
+       * The base URL of the ServiceNow instance, e.g. https://my-instance.service-now.com
+       * @visibility frontend
+       */
+      baseUrl: string;
+    };
+
     /**
      * Whether to show the instructions section
      * @default true
@@ -142,6 +142,12 @@ class MockBulkImportApi implements BulkImportAPI {
       i => i.repository.url === repo,
     ) as ImportJobStatus;
   }
+
+  async repairImportAction(repo: string): Promise<ImportJobStatus> {
+    return mockGetImportJobs.imports.find(
+      i => i.repository.url === repo,
+    ) as ImportJobStatus;
+  }
 }
 
 const mockBulkImportApi = new MockBulkImportApi();
@@ -173,6 +173,21 @@ const handlers = [
       return res(ctx.json({ status: 404, ok: false }));
     },
   ),
+  rest.post(
+    `${LOCAL_ADDR}/api/bulk-import/import/by-repo/repair`,
+    (req, res, ctx) => {
+      if (req.url.searchParams.get('repo') === 'org/dessert/donut') {
+        return res(
+          ctx.status(200),
+          ctx.json({ id: 'org/dessert/donut', status: 'WAIT_PR_APPROVAL' }),
+        );
+      }
+      return res(
+        ctx.status(404),
+        ctx.json({ errors: ['No drift detected for org/dessert/cupcake'] }),
+      );
+    },
+  ),
 ];
 
 const server = setupServer(...handlers);
@@ -397,6 +412,21 @@ describe('BulkImportBackendClient with open-pull-requests', () => {
     });
   });
 
+  describe('repairImportAction', () => {
+    it('repairImportAction should send a POST request and return the new import status', async () => {
+      const response =
+        await bulkImportApi.repairImportAction('org/dessert/donut');
+
+      expect(response.status).toBe(RepositoryStatus.WAIT_PR_APPROVAL);
+    });
+
+    it('repairImportAction should throw the error of the backend', async () => {
+      await expect(
+        bulkImportApi.repairImportAction('org/dessert/cupcake'),
+      ).rejects.toEqual('No drift detected for org/dessert/cupcake');
+    });
+  });
+
   describe('getImportAction', () => {
     it('getImportAction should retrive the status of the repo', async () => {
       const response = await bulkImportApi.getImportAction(
@@ -67,6 +67,7 @@ export type BulkImportAPI = {
     defaultBranch: string,
     approvalTool?: ApprovalTool,
   ) => Promise<ImportJobStatus | Response>;
+  repairImportAction: (repo: string) => Promise<ImportJobStatus>;
 };
 
 export type Options = {
@@ -254,4 +255,24 @@ export class BulkImportBackendClient implements BulkImportAPI {
     }
     return jsonResponse.json();
   }
+
+  async repairImportAction(repo: string) {
+    const { token: idToken } = await this.identityApi.getCredentials();
+    const backendUrl = this.configApi.getString('backend.baseUrl');
+    const jsonResponse = await fetch(
+      `${backendUrl}/api/bulk-import/import/by-repo/repair?repo=${repo}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(idToken && { Authorization: `Bearer ${idToken}` }),
+        },
+      },
+    );
+    const importStatus = await jsonResponse.json();
+    if (!jsonResponse.ok) {
+      throw importStatus.errors?.[0] ?? importStatus.err;
+    }
+    return importStatus;
+  }
 }
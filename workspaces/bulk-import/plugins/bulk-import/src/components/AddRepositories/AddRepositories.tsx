@@ -43,7 +43,15 @@ export const AddRepositories = ({ error }: { error?: any }) => {
   // Check if integrations are configured
   const hasGitHubIntegration = configApi.has('integrations.github');
   const hasGitLabIntegration = configApi.has('integrations.gitlab');
-  const hasMissingIntegrations = !hasGitHubIntegration && !hasGitLabIntegration;
+  const hasBitbucketIntegration =
+    configApi.has('integrations.bitbucketCloud') ||
+    configApi.has('integrations.bitbucketServer');
+  const hasAzureIntegration = configApi.has('integrations.azure');
+  const hasMissingIntegrations =
+    !hasGitHubIntegration &&
+    !hasGitLabIntegration &&
+    !hasBitbucketIntegration &&
+    !hasAzureIntegration;
 
   // Parse error message if it exists and is valid JSON
   const errorMessage = (() => {
@@ -44,15 +44,27 @@ export const AddRepositoriesForm = ({
 }) => {
   const bulkImportApi = useApi(bulkImportApiRef);
   const queryClient = useQueryClient();
-  const { numberOfApprovalTools, gitlabConfigured } =
-    useNumberOfApprovalTools();
+  const {
+    numberOfApprovalTools,
+    gitlabConfigured,
+    bitbucketConfigured,
+    azureConfigured,
+  } = useNumberOfApprovalTools();
 
   // Set default approval tool based on configuration
   const getDefaultApprovalTool = () => {
     if (numberOfApprovalTools === 1) {
-      return gitlabConfigured ? ApprovalTool.Gitlab : ApprovalTool.Git;
+      if (gitlabConfigured) {
+        return ApprovalTool.Gitlab;
+      }
+      if (bitbucketConfigured) {
+        return ApprovalTool.Bitbucket;
+      }
+      if (azureConfigured) {
+        return ApprovalTool.Azure;
+      }
     }
-    return ApprovalTool.Git; // Default to GitHub when both are configured
+    return ApprovalTool.Git; // Default to GitHub when several are configured
   };
 
   const initialValues: AddRepositoriesFormValues = {
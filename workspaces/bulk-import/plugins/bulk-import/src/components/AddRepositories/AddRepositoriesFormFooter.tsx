@@ -53,6 +53,14 @@ export const AddRepositoriesFormFooter = () => {
       submitTitle: getGitSubmitTitle(),
       toolTipTitle: t('forms.footer.importTooltip'),
     },
+    [ApprovalTool.Bitbucket]: {
+      submitTitle: t('common.import'),
+      toolTipTitle: t('forms.footer.importTooltip'),
+    },
+    [ApprovalTool.Azure]: {
+      submitTitle: t('common.import'),
+      toolTipTitle: t('forms.footer.importTooltip'),
+    },
   };
 
   const disableCreate =
@@ -25,6 +25,7 @@ import { useTheme } from '@mui/material/styles';
 import Tooltip from '@mui/material/Tooltip';
 import Typography from '@mui/material/Typography';
 
+import { useNumberOfApprovalTools } from '../../hooks';
 import { useTranslation } from '../../hooks/useTranslation';
 
 interface ApprovalToolProps {
@@ -38,6 +39,8 @@ const ApprovalTool: FC<ApprovalToolProps> = ({
 }) => {
   const { t } = useTranslation();
   const theme = useTheme();
+  const { bitbucketConfigured, azureConfigured, serviceNowConfigured } =
+    useNumberOfApprovalTools();
   const handleApprovalToolChange = (
     _event: ChangeEvent<{}>,
     newValue: string,
@@ -94,6 +97,27 @@ const ApprovalTool: FC<ApprovalToolProps> = ({
           control={<Radio />}
           label={t('addRepositories.approvalTool.gitlab')}
         />
+        {bitbucketConfigured && (
+          <FormControlLabel
+            value="BITBUCKET"
+            control={<Radio />}
+            label={t('addRepositories.approvalTool.bitbucket')}
+          />
+        )}
+        {azureConfigured && (
+          <FormControlLabel
+            value="AZURE"
+            control={<Radio />}
+            label={t('addRepositories.approvalTool.azure')}
+          />
+        )}
+        {serviceNowConfigured && (
+          <FormControlLabel
+            value="SERVICENOW"
+            control={<Radio />}
+            label={t('addRepositories.approvalTool.serviceNow')}
+          />
+        )}
       </RadioGroup>
     </Box>
   );
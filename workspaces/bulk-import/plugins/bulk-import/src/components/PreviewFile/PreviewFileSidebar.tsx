@@ -40,6 +40,7 @@ import {
 } from '../../types';
 import {
   evaluatePRTemplate,
+  getGitProvider,
   getPRTemplate,
 } from '../../utils/repository-utils';
 import { PreviewFileSidebarDrawerContent } from './PreviewFileSidebarDrawerContent';
@@ -126,7 +127,7 @@ export const PreviewFileSidebar = ({
           baseUrl as string,
           url,
           branch,
-          approvalTool === ApprovalTool.Gitlab ? 'gitlab' : 'github',
+          getGitProvider(approvalTool),
         );
         delete prTemp.prDescription;
         delete prTemp.prTitle;
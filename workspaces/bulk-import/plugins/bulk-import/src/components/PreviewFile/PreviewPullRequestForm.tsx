@@ -87,6 +87,8 @@ export const PreviewPullRequestForm = ({
 
   const approvalToolLabel = {
     [ApprovalTool.Gitlab]: t('previewFile.pullRequest.mergeRequest'),
+    [ApprovalTool.Bitbucket]: t('previewFile.pullRequest.title'),
+    [ApprovalTool.Azure]: t('previewFile.pullRequest.title'),
     [ApprovalTool.Git]: t('previewFile.pullRequest.title'),
     [ApprovalTool.ServiceNow]: t('previewFile.pullRequest.serviceNowTicket'),
   };
@@ -36,6 +36,7 @@ import {
 } from '../../utils/repository-utils';
 import CatalogInfoAction from './CatalogInfoAction';
 import DeleteRepository from './DeleteRepository';
+import RepairRepository from './RepairRepository';
 import SyncRepository from './SyncRepository';
 
 const useStyles = makeStyles(() => ({
@@ -135,6 +136,7 @@ export const AddedRepositoryTableRow = ({
         <CatalogInfoAction data={data} />
         <DeleteRepository data={data} />
         <SyncRepository data={data} />
+        <RepairRepository data={data} />
       </TableCell>
     </TableRow>
   );
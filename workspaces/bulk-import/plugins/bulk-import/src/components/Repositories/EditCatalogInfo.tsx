@@ -31,9 +31,9 @@ import {
   RepositorySelection,
 } from '../../types';
 import {
+  getJobGitProvider,
   ImportJobResponse,
   ImportJobStatus,
-  isGithubJob,
 } from '../../types/response-types';
 import {
   getJobErrors,
@@ -57,7 +57,7 @@ const EditCatalogInfo = ({
   let yamlContent = {} as Entity;
   try {
     if (importStatus) {
-      const gitProvider = isGithubJob(importStatus) ? 'github' : 'gitlab';
+      const gitProvider = getJobGitProvider(importStatus);
       yamlContent = yaml.loadAll(
         importStatus[gitProvider]?.pullRequest?.catalogInfoContent ?? '',
       )[0] as Entity;
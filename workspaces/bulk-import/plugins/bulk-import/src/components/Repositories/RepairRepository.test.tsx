@@ -0,0 +1,90 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { useApi } from '@backstage/core-plugin-api';
+
+import { fireEvent, render, waitFor } from '@testing-library/react';
+import { useFormikContext } from 'formik';
+
+import { mockGetRepositories } from '../../mocks/mockData';
+import { RepositoryStatus } from '../../types';
+import RepairRepository from './RepairRepository';
+
+jest.mock('@backstage/core-plugin-api', () => ({
+  ...jest.requireActual('@backstage/core-plugin-api'),
+  useApi: jest.fn(),
+}));
+
+jest.mock('formik', () => ({
+  ...jest.requireActual('formik'),
+  useFormikContext: jest.fn(),
+}));
+
+const repairImportAction = jest.fn();
+const setFieldValue = jest.fn();
+
+const givenStatus = (status: RepositoryStatus) =>
+  (useFormikContext as jest.Mock).mockReturnValue({
+    setFieldValue,
+    values: {
+      repositories: {
+        [mockGetRepositories.repositories[0].id]: {
+          catalogInfoYaml: { status },
+        },
+      },
+    },
+  });
+
+describe('RepairRepository', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    (useApi as jest.Mock).mockReturnValue({ repairImportAction });
+  });
+
+  it('should not be displayed for a repository without drift', () => {
+    givenStatus(RepositoryStatus.ADDED);
+
+    const { queryByTestId } = render(
+      <RepairRepository data={mockGetRepositories.repositories[0]} />,
+    );
+
+    expect(queryByTestId('repair-repository')).not.toBeInTheDocument();
+  });
+
+  it('should repair a drifted repository and update its status', async () => {
+    givenStatus(RepositoryStatus.DRIFT_CATALOG_INFO_MISSING);
+    repairImportAction.mockResolvedValue({
+      status: RepositoryStatus.WAIT_PR_APPROVAL,
+      lastUpdate: '2024-01-01T00:00:00Z',
+      github: { pullRequest: { url: 'https://github.com/org/repo/pull/1' } },
+    });
+    const data = mockGetRepositories.repositories[0];
+
+    const { getByRole } = render(<RepairRepository data={data} />);
+    fireEvent.click(getByRole('button', { name: 'Repair' }));
+
+    await waitFor(() =>
+      expect(setFieldValue).toHaveBeenCalledWith(
+        `repositories.[${data.id}].catalogInfoYaml.status`,
+        RepositoryStatus.WAIT_PR_APPROVAL,
+      ),
+    );
+    expect(repairImportAction).toHaveBeenCalledWith(data.repoUrl);
+    expect(setFieldValue).toHaveBeenCalledWith(
+      `repositories.[${data.id}].catalogInfoYaml.pullRequest`,
+      'https://github.com/org/repo/pull/1',
+    );
+  });
+});
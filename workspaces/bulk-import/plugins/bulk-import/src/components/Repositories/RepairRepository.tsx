@@ -0,0 +1,101 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useState } from 'react';
+
+import { useApi } from '@backstage/core-plugin-api';
+
+import BuildIcon from '@mui/icons-material/Build';
+import IconButton from '@mui/material/IconButton';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import { useFormikContext } from 'formik';
+
+import { bulkImportApiRef } from '../../api/BulkImportBackendClient';
+import { useTranslation } from '../../hooks/useTranslation';
+import {
+  AddRepositoriesFormValues,
+  AddRepositoryData,
+  getJobGitProvider,
+} from '../../types';
+
+type RepairRepositoryProps = {
+  data: AddRepositoryData;
+};
+
+const RepairRepository = ({ data }: RepairRepositoryProps) => {
+  const { t } = useTranslation();
+  const bulkImportApi = useApi(bulkImportApiRef);
+  const { values, setFieldValue } =
+    useFormikContext<AddRepositoriesFormValues>();
+  const [repairing, setRepairing] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const status = values.repositories?.[data.id]?.catalogInfoYaml?.status;
+  if (!status?.startsWith('DRIFT_')) {
+    return null;
+  }
+
+  const handleClick = async () => {
+    setRepairing(true);
+    setError(undefined);
+    try {
+      const value = await bulkImportApi.repairImportAction(data.repoUrl || '');
+      setFieldValue(
+        `repositories.[${data.id}].catalogInfoYaml.status`,
+        value.status,
+      );
+      setFieldValue(
+        `repositories.[${data.id}].catalogInfoYaml.pullRequest`,
+        value[getJobGitProvider(value)]?.pullRequest?.url || '',
+      );
+      setFieldValue(
+        `repositories.[${data.id}].catalogInfoYaml.lastUpdated`,
+        value.lastUpdate,
+      );
+    } catch (err: any) {
+      setError(String(err?.message ?? err));
+    } finally {
+      setRepairing(false);
+    }
+  };
+
+  return (
+    <Tooltip
+      title={
+        error
+          ? t('repositories.unableToRepairRepository' as any, {
+              error,
+            })
+          : t('repositories.repairRepository')
+      }
+    >
+      <Typography component="span" data-testid="repair-repository">
+        <IconButton
+          color="inherit"
+          onClick={() => handleClick()}
+          aria-label={t('repositories.repairRepository')}
+          size="large"
+          disabled={repairing}
+        >
+          <BuildIcon />
+        </IconButton>
+      </Typography>
+    </Tooltip>
+  );
+};
+
+export default RepairRepository;
@@ -21,7 +21,15 @@ import Typography from '@mui/material/Typography';
 
 import { useTranslation } from '../hooks/useTranslation';
 
-export const WaitingForPR = ({ url }: { url: string }) => {
+export const WaitingForPR = ({
+  url,
+  label,
+  linkLabel,
+}: {
+  url: string;
+  label?: string;
+  linkLabel?: string;
+}) => {
   const { t } = useTranslation();
 
   return (
@@ -32,7 +40,9 @@ export const WaitingForPR = ({ url }: { url: string }) => {
       }}
     >
       <StatusPending />
-      <Typography component="span">{t('status.waitingForApproval')}</Typography>
+      <Typography component="span">
+        {label ?? t('status.waitingForApproval')}
+      </Typography>
       {url && (
         <Link
           to={url}
@@ -42,7 +52,7 @@ export const WaitingForPR = ({ url }: { url: string }) => {
             display: 'inline-flex',
           }}
         >
-          {t('repositories.pr')}
+          {linkLabel ?? t('repositories.pr')}
           <OpenInNewIcon sx={{ paddingBottom: '5px', paddingTop: '3px' }} />
         </Link>
       )}
@@ -25,6 +25,7 @@ import { useNumberOfApprovalTools } from './useNumberOfApprovalTools';
 
 const mockConfigApi = {
   getOptionalConfigArray: jest.fn(),
+  has: jest.fn(),
 };
 
 function createWrapper() {
@@ -39,6 +40,7 @@ function createWrapper() {
 describe('useNumberOfApprovalTools', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockConfigApi.has.mockReturnValue(false);
   });
 
   it('should return 1 when only GitHub is configured', () => {
@@ -100,4 +102,41 @@ describe('useNumberOfApprovalTools', () => {
     expect(result.current.githubConfigured).toBe(false);
     expect(result.current.gitlabConfigured).toBe(false);
   });
+
+  it('should count Bitbucket Cloud, Bitbucket Server and Azure DevOps integrations', () => {
+    mockConfigApi.getOptionalConfigArray.mockImplementation((key: string) => {
+      if (key === 'integrations.github') return [{ host: 'github.com' }];
+      if (key === 'integrations.bitbucketServer')
+        return [{ host: 'bitbucket.example.com' }];
+      if (key === 'integrations.azure') return [{ host: 'dev.azure.com' }];
+      return [];
+    });
+
+    const { result } = renderHook(() => useNumberOfApprovalTools(), {
+      wrapper: createWrapper(),
+    });
+
+    expect(result.current.numberOfApprovalTools).toBe(3);
+    expect(result.current.gitlabConfigured).toBe(false);
+    expect(result.current.bitbucketConfigured).toBe(true);
+    expect(result.current.azureConfigured).toBe(true);
+  });
+
+  it('should count ServiceNow when it is configured', () => {
+    mockConfigApi.getOptionalConfigArray.mockImplementation((key: string) => {
+      if (key === 'integrations.github') return [{ host: 'github.com' }];
+      return [];
+    });
+    mockConfigApi.has.mockImplementation(
+      (key: string) => key === 'bulkImport.serviceNow.baseUrl',
+    );
+
+    const { result } = renderHook(() => useNumberOfApprovalTools(), {
+      wrapper: createWrapper(),
+    });
+
+    expect(result.current.numberOfApprovalTools).toBe(2);
+    expect(result.current.githubConfigured).toBe(true);
+    expect(result.current.serviceNowConfigured).toBe(true);
+  });
 });
@@ -18,6 +18,9 @@ import { configApiRef, useApi } from '@backstage/core-plugin-api';
 type ApprovalToolConfig = {
   githubConfigured: boolean;
   gitlabConfigured: boolean;
+  bitbucketConfigured: boolean;
+  azureConfigured: boolean;
+  serviceNowConfigured: boolean;
   numberOfApprovalTools: number;
 };
 
@@ -28,15 +31,31 @@ export function useNumberOfApprovalTools(): ApprovalToolConfig {
     config.getOptionalConfigArray('integrations.github') ?? [];
   const gitlabIntegrations =
     config.getOptionalConfigArray('integrations.gitlab') ?? [];
+  const bitbucketIntegrations = [
+    ...(config.getOptionalConfigArray('integrations.bitbucketCloud') ?? []),
+    ...(config.getOptionalConfigArray('integrations.bitbucketServer') ?? []),
+  ];
+  const azureIntegrations =
+    config.getOptionalConfigArray('integrations.azure') ?? [];
 
   const isGitHubConfigured = githubIntegrations.length > 0;
   const isGitLabConfigured = gitlabIntegrations.length > 0;
+  const isBitbucketConfigured = bitbucketIntegrations.length > 0;
+  const isAzureConfigured = azureIntegrations.length > 0;
+  const isServiceNowConfigured = config.has('bulkImport.serviceNow.baseUrl');
 
   return {
     githubConfigured: isGitHubConfigured,
     gitlabConfigured: isGitLabConfigured,
+    bitbucketConfigured: isBitbucketConfigured,
+    azureConfigured: isAzureConfigured,
+    serviceNowConfigured: isServiceNowConfigured,
     numberOfApprovalTools:
-      Number(isGitHubConfigured) + Number(isGitLabConfigured),
+      Number(isGitHubConfigured) +
+      Number(isGitLabConfigured) +
+      Number(isBitbucketConfigured) +
+      Number(isAzureConfigured) +
+      Number(isServiceNowConfigured),
   };
 }
 
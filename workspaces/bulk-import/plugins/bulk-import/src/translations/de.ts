@@ -85,6 +85,10 @@ const bulkImportTranslationDe = createTranslationMessages({
       'catalog-info.yaml Pull-Request bearbeiten',
     'repositories.viewCatalogInfoTooltip': 'catalog-info.yaml Datei anzeigen',
     'repositories.pr': 'PR',
+    'repositories.changeRequest': 'Änderungsantrag',
+    'repositories.repairRepository': 'Reparieren',
+    'repositories.unableToRepairRepository':
+      'Repository kann nicht repariert werden. {{error}}',
 
     // Status keys used by getImportStatus function
     'status.alreadyImported': 'Bereits importiert',
@@ -96,6 +100,15 @@ const bulkImportTranslationDe = createTranslationMessages({
     'status.missingConfigurations': 'Fehlende Konfigurationen',
     'status.failedCreatingPR': 'Fehler beim Erstellen der PR',
     'status.pullRequestRejected': 'Pull-Request abgelehnt',
+    'status.waitingForServiceNowResolution':
+      'Warten auf ServiceNow-Genehmigung',
+    'status.serviceNowTicketRejected': 'ServiceNow-Änderungsantrag abgelehnt',
+    'status.serviceNowError':
+      'Fehler beim Erstellen des ServiceNow-Änderungsantrags',
+    'status.driftCatalogInfoMissing': 'catalog-info.yaml fehlt',
+    'status.driftDefaultBranchChanged': 'Standard-Branch geändert',
+    'status.driftRepositoryArchived': 'Repository archiviert',
+    'status.driftLocationOrphaned': 'Verwaiste Location',
 
     // Table headers
     'table.headers.name': 'Name',
@@ -131,6 +144,9 @@ const bulkImportTranslationDe = createTranslationMessages({
       'Der Import erfordert eine Genehmigung. Nach der Genehmigung der Pull-Anfrage werden die Repositories auf die Katalogseite importiert.',
     'addRepositories.approvalTool.github': 'GitHub',
     'addRepositories.approvalTool.gitlab': 'GitLab',
+    'addRepositories.approvalTool.bitbucket': 'Bitbucket',
+    'addRepositories.approvalTool.azure': 'Azure DevOps',
+    'addRepositories.approvalTool.serviceNow': 'ServiceNow',
     'addRepositories.repositoryType.title': 'Repository-Typ',
     'addRepositories.repositoryType.repository': 'Repository',
     'addRepositories.repositoryType.organization': 'Organisation',
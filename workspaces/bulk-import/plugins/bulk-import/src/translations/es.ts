@@ -84,6 +84,10 @@ const bulkImportTranslationEs = createTranslationMessages({
       'Editar pull request catalog-info.yaml',
     'repositories.viewCatalogInfoTooltip': 'Ver archivo catalog-info.yaml',
     'repositories.pr': 'PR',
+    'repositories.changeRequest': 'Solicitud de cambio',
+    'repositories.repairRepository': 'Reparar',
+    'repositories.unableToRepairRepository':
+      'No se puede reparar el repositorio. {{error}}',
 
     // Status
     'status.alreadyImported': 'Ya importado',
@@ -96,6 +100,16 @@ const bulkImportTranslationEs = createTranslationMessages({
     'status.missingConfigurations': 'Configuraciones faltantes',
     'status.failedCreatingPR': 'Error al crear PR',
     'status.pullRequestRejected': 'Pull request rechazada',
+    'status.waitingForServiceNowResolution':
+      'Esperando la aprobación de ServiceNow',
+    'status.serviceNowTicketRejected':
+      'Solicitud de cambio de ServiceNow rechazada',
+    'status.serviceNowError':
+      'Error al crear la solicitud de cambio de ServiceNow',
+    'status.driftCatalogInfoMissing': 'Falta catalog-info.yaml',
+    'status.driftDefaultBranchChanged': 'La rama predeterminada ha cambiado',
+    'status.driftRepositoryArchived': 'Repositorio archivado',
+    'status.driftLocationOrphaned': 'Ubicación huérfana',
 
     // Validation
     'validation.componentNameInvalid':
@@ -142,6 +156,9 @@ const bulkImportTranslationEs = createTranslationMessages({
       'La importación requiere aprobación. Después de que se apruebe la pull request, los repositorios se importarán a la página Catálogo.',
     'addRepositories.approvalTool.github': 'GitHub',
     'addRepositories.approvalTool.gitlab': 'GitLab',
+    'addRepositories.approvalTool.bitbucket': 'Bitbucket',
+    'addRepositories.approvalTool.azure': 'Azure DevOps',
+    'addRepositories.approvalTool.serviceNow': 'ServiceNow',
     'addRepositories.repositoryType.title': 'Tipo de repositorio',
     'addRepositories.repositoryType.repository': 'Repositorio',
     'addRepositories.repositoryType.organization': 'Organización',
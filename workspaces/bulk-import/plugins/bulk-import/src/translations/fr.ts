@@ -75,11 +75,25 @@ const bulkImportTranslationFr = createTranslationMessages({
     'repositories.viewCatalogInfoTooltip':
       'Afficher le fichier catalog-info.yaml',
     'repositories.pr': 'PR',
+    'repositories.changeRequest': 'Demande de changement',
+    'repositories.repairRepository': 'Réparer',
+    'repositories.unableToRepairRepository':
+      'Impossible de réparer le dépôt. {{error}}',
     'status.alreadyImported': 'Déjà importé',
     'status.added': 'Ajouté',
     'status.waitingForApproval': "En attente d'approbation",
     'status.imported': 'Importé',
     'status.readyToImport': 'Prêt à importer',
+    'status.waitingForServiceNowResolution':
+      "En attente de l'approbation ServiceNow",
+    'status.serviceNowTicketRejected':
+      'Demande de changement ServiceNow rejetée',
+    'status.serviceNowError':
+      'Échec de la création de la demande de changement ServiceNow',
+    'status.driftCatalogInfoMissing': 'catalog-info.yaml manquant',
+    'status.driftDefaultBranchChanged': 'Branche par défaut modifiée',
+    'status.driftRepositoryArchived': 'Dépôt archivé',
+    'status.driftLocationOrphaned': 'Emplacement orphelin',
     'errors.prErrorPermissions':
       "Impossible de créer un nouveau PR en raison d'autorisations insuffisantes. Contactez votre administrateur.",
     'errors.catalogInfoExists':
@@ -136,6 +150,9 @@ const bulkImportTranslationFr = createTranslationMessages({
       "L'importation nécessite une approbation. Une fois la demande d'extraction/fusion approuvée, les référentiels/projets seront importés sur la page Catalogue.",
     'addRepositories.approvalTool.github': 'GitHub',
     'addRepositories.approvalTool.gitlab': 'GitLab',
+    'addRepositories.approvalTool.bitbucket': 'Bitbucket',
+    'addRepositories.approvalTool.azure': 'Azure DevOps',
+    'addRepositories.approvalTool.serviceNow': 'ServiceNow',
     'addRepositories.repositoryType.title': 'Type de référentiel',
     'addRepositories.repositoryType.repository': 'Dépôt',
     'addRepositories.repositoryType.organization': 'Organisation',
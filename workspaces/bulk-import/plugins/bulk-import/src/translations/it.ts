@@ -81,6 +81,10 @@ const bulkImportTranslationIt = createTranslationMessages({
     'repositories.viewCatalogInfoTooltip':
       'Visualizza il file catalog-info.yaml',
     'repositories.pr': 'Richiesta pull',
+    'repositories.changeRequest': 'Richiesta di modifica',
+    'repositories.repairRepository': 'Ripara',
+    'repositories.unableToRepairRepository':
+      'Impossibile riparare il repository. {{error}}',
     'status.alreadyImported': 'Già importata',
     'status.added': 'Aggiunta',
     'status.waitingForApproval': 'In attesa di approvazione',
@@ -91,6 +95,16 @@ const bulkImportTranslationIt = createTranslationMessages({
     'status.missingConfigurations': 'Configurazioni mancanti',
     'status.failedCreatingPR': 'Impossibile creare la PR',
     'status.pullRequestRejected': 'Richiesta pull rifiutata',
+    'status.waitingForServiceNowResolution':
+      'In attesa di approvazione ServiceNow',
+    'status.serviceNowTicketRejected':
+      'Richiesta di modifica ServiceNow rifiutata',
+    'status.serviceNowError':
+      'Impossibile creare la richiesta di modifica ServiceNow',
+    'status.driftCatalogInfoMissing': 'catalog-info.yaml mancante',
+    'status.driftDefaultBranchChanged': 'Branch predefinito modificato',
+    'status.driftRepositoryArchived': 'Repository archiviato',
+    'status.driftLocationOrphaned': 'Posizione orfana',
     'errors.prErrorPermissions':
       "Impossibile creare una nuova richiesta pull a causa di autorizzazioni insufficienti. Contattare l'amministratore.",
     'errors.catalogInfoExists':
@@ -151,6 +165,9 @@ const bulkImportTranslationIt = createTranslationMessages({
       "L'importazione richiede l'approvazione. Dopo l'approvazione della richiesta di pull/merge, i repository/progetti vengono importati nella pagina Catalogo.",
     'addRepositories.approvalTool.github': 'GitHub',
     'addRepositories.approvalTool.gitlab': 'GitLab',
+    'addRepositories.approvalTool.bitbucket': 'Bitbucket',
+    'addRepositories.approvalTool.azure': 'Azure DevOps',
+    'addRepositories.approvalTool.serviceNow': 'ServiceNow',
     'addRepositories.repositoryType.title': 'Tipo di repository',
     'addRepositories.repositoryType.repository': 'Repository',
     'addRepositories.repositoryType.organization': 'Organizzazione',
@@ -82,6 +82,10 @@ const bulkImportTranslationJa = createTranslationMessages({
     'repositories.viewCatalogInfoTooltip':
       'catalog-info.yaml ファイルを表示する',
     'repositories.pr': 'PR',
+    'repositories.changeRequest': '変更要求',
+    'repositories.repairRepository': '修復',
+    'repositories.unableToRepairRepository':
+      'リポジトリを修復できません。{{error}}',
     'status.alreadyImported': 'インポート済み',
     'status.added': '追加済み',
     'status.waitingForApproval': '承認待ち',
@@ -91,6 +95,13 @@ const bulkImportTranslationJa = createTranslationMessages({
     'status.missingConfigurations': '設定が不足しています',
     'status.failedCreatingPR': 'PR の作成に失敗しました',
     'status.pullRequestRejected': 'プルリクエストが拒否されました',
+    'status.waitingForServiceNowResolution': 'ServiceNow の承認待ち',
+    'status.serviceNowTicketRejected': 'ServiceNow の変更要求が拒否されました',
+    'status.serviceNowError': 'ServiceNow の変更要求の作成に失敗しました',
+    'status.driftCatalogInfoMissing': 'catalog-info.yaml がありません',
+    'status.driftDefaultBranchChanged': 'デフォルトブランチが変更されました',
+    'status.driftRepositoryArchived': 'リポジトリがアーカイブされました',
+    'status.driftLocationOrphaned': '孤立したロケーション',
     'errors.prErrorPermissions':
       '権限が不十分なため、新しい PR を作成できませんでした。管理者に問い合わせてください。',
     'errors.catalogInfoExists':
@@ -148,6 +159,9 @@ const bulkImportTranslationJa = createTranslationMessages({
       'インポートには承認が必要です。プル/マージリクエストが承認されると、リポジトリー/プロジェクトがカタログページにインポートされます。',
     'addRepositories.approvalTool.github': 'GitHub',
     'addRepositories.approvalTool.gitlab': 'GitLab',
+    'addRepositories.approvalTool.bitbucket': 'Bitbucket',
+    'addRepositories.approvalTool.azure': 'Azure DevOps',
+    'addRepositories.approvalTool.serviceNow': 'ServiceNow',
     'addRepositories.repositoryType.title': 'リポジトリーの種類',
     'addRepositories.repositoryType.repository': 'リポジトリー',
     'addRepositories.repositoryType.organization': '組織',
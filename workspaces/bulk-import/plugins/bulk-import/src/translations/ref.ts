@@ -74,6 +74,9 @@ export const bulkImportMessages = {
     editCatalogInfoTooltip: 'Edit catalog-info.yaml pull request',
     viewCatalogInfoTooltip: 'View catalog-info.yaml file',
     pr: 'PR',
+    changeRequest: 'Change request',
+    repairRepository: 'Repair',
+    unableToRepairRepository: 'Unable to repair repository. {{error}}',
   },
   status: {
     alreadyImported: 'Already imported',
@@ -85,6 +88,13 @@ export const bulkImportMessages = {
     missingConfigurations: 'Missing configurations',
     failedCreatingPR: 'Failed to create PR',
     pullRequestRejected: 'Pull request rejected',
+    waitingForServiceNowResolution: 'Waiting for ServiceNow approval',
+    serviceNowTicketRejected: 'ServiceNow change request rejected',
+    serviceNowError: 'Failed to create ServiceNow change request',
+    driftCatalogInfoMissing: 'catalog-info.yaml missing',
+    driftDefaultBranchChanged: 'Default branch changed',
+    driftRepositoryArchived: 'Repository archived',
+    driftLocationOrphaned: 'Orphaned location',
   },
   errors: {
     prErrorPermissions:
@@ -156,6 +166,9 @@ export const bulkImportMessages = {
         'Importing requires approval. After the pull request is approved, the repositories will be imported to the Catalog page.',
       github: 'GitHub',
       gitlab: 'GitLab',
+      bitbucket: 'Bitbucket',
+      azure: 'Azure DevOps',
+      serviceNow: 'ServiceNow',
     },
     repositoryType: {
       title: 'Repository type',
@@ -41,6 +41,18 @@ export type ImportJobResponse = {
   repository: Repository;
 };
 
+export type ChangeRequest = {
+  number: string;
+  sysId: string;
+  url: string;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+};
+
+export type RepositoryDrift = {
+  location: string;
+  detectedAt: string;
+};
+
 export type ImportJobs = {
   imports: ImportJobStatus[];
   page: number;
@@ -56,9 +68,9 @@ export type PullRequest = {
   catalogInfoContent: string;
 };
 
-export type ImportJobStatus<
-  Provider extends 'github' | 'gitlab' = 'github' | 'gitlab',
-> = {
+export type GitProvider = 'github' | 'gitlab' | 'bitbucket' | 'azure';
+
+export type ImportJobStatus<Provider extends GitProvider = GitProvider> = {
   approvalTool: ApprovalTool;
   task?: {
     taskId: string;
@@ -73,12 +85,13 @@ export type ImportJobStatus<
   source?: 'location' | 'config' | 'integration';
   lastUpdate: string;
   repository: Repository;
+  servicenow?: { changeRequest: ChangeRequest };
+  drift?: RepositoryDrift;
 } & Partial<Record<Provider, { pullRequest: PullRequest }>>;
 
-export function isGithubJob(
-  job: ImportJobStatus<'github'> | ImportJobStatus<'gitlab'>,
-): job is ImportJobStatus<'github'> {
-  return 'github' in job;
+export function getJobGitProvider(job: ImportJobStatus): GitProvider {
+  const providers: GitProvider[] = ['github', 'gitlab', 'bitbucket', 'azure'];
+  return providers.find(provider => provider in job) ?? 'gitlab';
 }
 
 export type OrgAndRepoResponse = {
@@ -46,6 +46,13 @@ export type ImportStatus =
   | 'ADDED'
   | 'WAIT_PR_APPROVAL'
   | 'PR_ERROR'
+  | 'WAIT_SERVICENOW_RESOLUTION'
+  | 'SERVICENOW_ERROR'
+  | 'SERVICENOW_TICKET_REJECTED'
+  | 'DRIFT_CATALOG_INFO_MISSING'
+  | 'DRIFT_DEFAULT_BRANCH_CHANGED'
+  | 'DRIFT_REPOSITORY_ARCHIVED'
+  | 'DRIFT_LOCATION_ORPHANED'
   | 'Ready'
   | 'NotGenerated'
   | 'CATALOG_INFO_FILE_EXISTS_IN_REPO'
@@ -124,6 +131,13 @@ export enum RepositoryStatus {
   Ready = 'Ready',
   NotGenerated = 'NotGenerated',
   'PR_ERROR' = 'PR_ERROR',
+  'WAIT_SERVICENOW_RESOLUTION' = 'WAIT_SERVICENOW_RESOLUTION',
+  'SERVICENOW_ERROR' = 'SERVICENOW_ERROR',
+  'SERVICENOW_TICKET_REJECTED' = 'SERVICENOW_TICKET_REJECTED',
+  'DRIFT_CATALOG_INFO_MISSING' = 'DRIFT_CATALOG_INFO_MISSING',
+  'DRIFT_DEFAULT_BRANCH_CHANGED' = 'DRIFT_DEFAULT_BRANCH_CHANGED',
+  'DRIFT_REPOSITORY_ARCHIVED' = 'DRIFT_REPOSITORY_ARCHIVED',
+  'DRIFT_LOCATION_ORPHANED' = 'DRIFT_LOCATION_ORPHANED',
   'CATALOG_INFO_FILE_EXISTS_IN_REPO' = 'CATALOG_INFO_FILE_EXISTS_IN_REPO',
   'CATALOG_ENTITY_CONFLICT' = 'CATALOG_ENTITY_CONFLICT',
   'REPO_EMPTY' = 'REPO_EMPTY',
@@ -149,8 +163,10 @@ export enum RepositorySelection {
 
 export enum ApprovalTool {
   Git = 'GIT',
-  ServiceNow = 'servicenow',
+  ServiceNow = 'SERVICENOW',
   Gitlab = 'GITLAB',
+  Bitbucket = 'BITBUCKET',
+  Azure = 'AZURE',
 }
 
 export enum ImportFlow {
@@ -176,6 +192,24 @@ export type CreateImportJobRepository = {
       body: string;
     };
   };
+  bitbucket?: {
+    pullRequest: {
+      title: string;
+      body: string;
+    };
+  };
+  azure?: {
+    pullRequest: {
+      title: string;
+      body: string;
+    };
+  };
+  servicenow?: {
+    changeRequest: {
+      title: string;
+      body: string;
+    };
+  };
   repository: RepositoryResponse;
 };
 
@@ -22,9 +22,12 @@ import { ApprovalTool, ImportJobResponse, RepositoryStatus } from '../types';
 import {
   cleanComponentName,
   componentNameRegex,
+  defaultCatalogInfoYaml,
   evaluatePRTemplate,
+  getGitProvider,
   getJobErrors,
   getYamlKeyValuePairs,
+  prepareDataForSubmission,
   updateWithNewSelectedRepositories,
   urlHelper,
 } from './repository-utils';
@@ -278,4 +281,53 @@ describe('Repository utils', () => {
     expect(cleanComponentName('_component')).toBe('component');
     expect(cleanComponentName('$,.')).toBe('my-component');
   });
+
+  it('should use the project slug annotation of the selected approval tool', () => {
+    const annotations = (approvalTool: ApprovalTool) =>
+      defaultCatalogInfoYaml(
+        'my-repo',
+        'my-repo',
+        'my-org',
+        'user:default/guest',
+        getGitProvider(approvalTool),
+      ).metadata.annotations;
+
+    expect(annotations(ApprovalTool.Git)).toEqual({
+      'github.com/project-slug': 'my-org/my-repo',
+    });
+    expect(annotations(ApprovalTool.Gitlab)).toEqual({
+      'gitlab.com/project-slug': 'my-org/my-repo',
+    });
+    expect(annotations(ApprovalTool.Bitbucket)).toEqual({
+      'bitbucket.org/project-slug': 'my-org/my-repo',
+    });
+    expect(annotations(ApprovalTool.Azure)).toEqual({
+      'dev.azure.com/project-repo': 'my-org/my-repo',
+    });
+  });
+
+  it('should submit ServiceNow change request details instead of pull request ones', () => {
+    const [gitJob] = prepareDataForSubmission(
+      {
+        ['org/dessert/cupcake']:
+          mockSelectedRepositories['org/dessert/cupcake'],
+      },
+      ApprovalTool.Git,
+    );
+    const [serviceNowJob] = prepareDataForSubmission(
+      {
+        ['org/dessert/cupcake']:
+          mockSelectedRepositories['org/dessert/cupcake'],
+      },
+      ApprovalTool.ServiceNow,
+    );
+
+    expect(gitJob.github?.pullRequest).toBeDefined();
+    expect(gitJob.servicenow).toBeUndefined();
+    expect(serviceNowJob.approvalTool).toEqual('SERVICENOW');
+    expect(serviceNowJob.servicenow?.changeRequest).toEqual(
+      gitJob.github?.pullRequest,
+    );
+    expect(serviceNowJob.github).toBeUndefined();
+  });
 });
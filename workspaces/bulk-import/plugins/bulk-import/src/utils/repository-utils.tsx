@@ -15,7 +15,12 @@
  */
 
 import { Entity } from '@backstage/catalog-model';
-import { Link, StatusOK } from '@backstage/core-components';
+import {
+  Link,
+  StatusError,
+  StatusOK,
+  StatusWarning,
+} from '@backstage/core-components';
 import { configApiRef, useApi } from '@backstage/core-plugin-api';
 
 import Typography from '@mui/material/Typography';
@@ -32,11 +37,12 @@ import {
   ApprovalTool,
   CreateImportJobRepository,
   ErrorType,
+  getJobGitProvider,
+  GitProvider,
   ImportJobResponse,
   ImportJobs,
   ImportJobStatus,
   ImportStatus,
-  isGithubJob,
   JobErrors,
   Order,
   OrgAndRepoResponse,
@@ -115,7 +121,14 @@ export const descendingComparator = (
     [RepositoryStatus.ADDED]: 1,
     [RepositoryStatus.Ready]: 2,
     [RepositoryStatus.WAIT_PR_APPROVAL]: 3,
+    [RepositoryStatus.WAIT_SERVICENOW_RESOLUTION]: 3,
     [RepositoryStatus.PR_ERROR]: 4,
+    [RepositoryStatus.SERVICENOW_ERROR]: 4,
+    [RepositoryStatus.SERVICENOW_TICKET_REJECTED]: 4,
+    [RepositoryStatus.DRIFT_CATALOG_INFO_MISSING]: 4,
+    [RepositoryStatus.DRIFT_DEFAULT_BRANCH_CHANGED]: 4,
+    [RepositoryStatus.DRIFT_REPOSITORY_ARCHIVED]: 4,
+    [RepositoryStatus.DRIFT_LOCATION_ORPHANED]: 4,
     [RepositoryStatus.CATALOG_ENTITY_CONFLICT]: 4,
     [RepositoryStatus.CATALOG_INFO_FILE_EXISTS_IN_REPO]: 4,
     [RepositoryStatus.CODEOWNERS_FILE_NOT_FOUND_IN_REPO]: 4,
@@ -157,12 +170,32 @@ export const getComparator = (
     : (a, b) => -descendingComparator(a, b, orderBy);
 };
 
+const projectSlugAnnotations: Record<GitProvider, string> = {
+  github: 'github.com/project-slug',
+  gitlab: 'gitlab.com/project-slug',
+  bitbucket: 'bitbucket.org/project-slug',
+  azure: 'dev.azure.com/project-repo',
+};
+
+export const getGitProvider = (approvalTool?: ApprovalTool): GitProvider => {
+  switch (approvalTool) {
+    case ApprovalTool.Gitlab:
+      return 'gitlab';
+    case ApprovalTool.Bitbucket:
+      return 'bitbucket';
+    case ApprovalTool.Azure:
+      return 'azure';
+    default:
+      return 'github';
+  }
+};
+
 export const defaultCatalogInfoYaml = (
   componentName: string,
   repoName: string,
   orgName: string,
   owner: string,
-  gitProvider: 'github' | 'gitlab',
+  gitProvider: GitProvider,
 ) => {
   return {
     apiVersion: 'backstage.io/v1alpha1',
@@ -170,7 +203,7 @@ export const defaultCatalogInfoYaml = (
     metadata: {
       name: componentName,
       annotations: {
-        [`${gitProvider}.com/project-slug`]: `${orgName}/${repoName}`,
+        [projectSlugAnnotations[gitProvider]]: `${orgName}/${repoName}`,
       },
     },
     spec: { type: 'other', lifecycle: 'unknown', owner },
@@ -200,7 +233,7 @@ export const getPRTemplate = (
   baseUrl: string,
   repositoryUrl: string,
   defaultBranch: string,
-  gitProvider: 'github' | 'gitlab',
+  gitProvider: GitProvider,
 ): PullRequestPreview => {
   const importJobUrl = repositoryUrl
     ? `${baseUrl}/bulk-import?repository=${repositoryUrl}&defaultBranch=${defaultBranch}`
@@ -297,6 +330,19 @@ export const urlHelper = (url: string) => {
   return url.split('https://')[1] || url;
 };
 
+const getDriftStatusLabel = (status: string, t: (key: string) => string) => {
+  switch (status) {
+    case RepositoryStatus.DRIFT_DEFAULT_BRANCH_CHANGED:
+      return t('status.driftDefaultBranchChanged');
+    case RepositoryStatus.DRIFT_REPOSITORY_ARCHIVED:
+      return t('status.driftRepositoryArchived');
+    case RepositoryStatus.DRIFT_LOCATION_ORPHANED:
+      return t('status.driftLocationOrphaned');
+    default:
+      return t('status.driftCatalogInfoMissing');
+  }
+};
+
 export const getImportStatus = (
   status: string,
   t: (key: string) => string,
@@ -317,6 +363,54 @@ export const getImportStatus = (
     );
   }
 
+  if (status === 'WAIT_SERVICENOW_RESOLUTION') {
+    return showIcon ? (
+      <WaitingForPR
+        url={prUrl as string}
+        label={t('status.waitingForServiceNowResolution')}
+        linkLabel={t('repositories.changeRequest')}
+      />
+    ) : (
+      t('status.waitingForServiceNowResolution')
+    );
+  }
+
+  if (
+    status === 'SERVICENOW_TICKET_REJECTED' ||
+    status === 'SERVICENOW_ERROR'
+  ) {
+    const serviceNowLabelText =
+      status === 'SERVICENOW_ERROR'
+        ? t('status.serviceNowError')
+        : t('status.serviceNowTicketRejected');
+    return showIcon ? (
+      <Typography
+        component="span"
+        style={{ display: 'flex', alignItems: 'baseline' }}
+      >
+        <StatusError />
+        {serviceNowLabelText}
+      </Typography>
+    ) : (
+      serviceNowLabelText
+    );
+  }
+
+  if (status.startsWith('DRIFT_')) {
+    const driftLabelText = getDriftStatusLabel(status, t);
+    return showIcon ? (
+      <Typography
+        component="span"
+        style={{ display: 'flex', alignItems: 'baseline' }}
+      >
+        <StatusWarning />
+        {driftLabelText}
+      </Typography>
+    ) : (
+      driftLabelText
+    );
+  }
+
   if (status === 'ADDED') {
     return showIcon ? (
       <Typography
@@ -504,8 +598,13 @@ export const prepareDataForSubmission = (
 ) =>
   Object.values(repositories).reduce(
     (acc: CreateImportJobRepository[], repo) => {
-      const gitProvider =
-        approvalTool === ApprovalTool.Gitlab ? 'gitlab' : 'github';
+      const gitProvider = getGitProvider(approvalTool);
+      const pullRequest = {
+        title:
+          repo.catalogInfoYaml?.prTemplate?.prTitle ||
+          'Add catalog-info.yaml config file',
+        body: repo.catalogInfoYaml?.prTemplate?.prDescription || '',
+      };
       acc.push({
         approvalTool: approvalTool,
         codeOwnersFileAsEntityOwner:
@@ -526,14 +625,9 @@ export const prepareDataForSubmission = (
           null,
           2,
         ),
-        [gitProvider]: {
-          pullRequest: {
-            title:
-              repo.catalogInfoYaml?.prTemplate?.prTitle ||
-              'Add catalog-info.yaml config file',
-            body: repo.catalogInfoYaml?.prTemplate?.prDescription || '',
-          },
-        },
+        ...(approvalTool === ApprovalTool.ServiceNow
+          ? { servicenow: { changeRequest: pullRequest } }
+          : { [gitProvider]: { pullRequest } }),
       });
       return acc;
     },
@@ -626,7 +720,7 @@ export const calculateLastUpdated = (
 export const evaluatePRTemplate = (
   repositoryStatus: ImportJobStatus,
 ): { pullReqPreview: PullRequestPreview; isInvalidEntity: boolean } => {
-  const gitProvider = isGithubJob(repositoryStatus) ? 'github' : 'gitlab';
+  const gitProvider = getJobGitProvider(repositoryStatus);
   try {
     const entity = jsyaml.loadAll(
       repositoryStatus[gitProvider]?.pullRequest.catalogInfoContent ?? '',
@@ -696,8 +790,7 @@ export const prepareDataForRepositories = (
   user: string,
   baseUrl: string,
 ) => {
-  const gitProvider =
-    result?.approvalTool === ApprovalTool.Gitlab ? 'gitlab' : 'github';
+  const gitProvider = getGitProvider(result?.approvalTool);
   const repoData: { [id: string]: AddRepositoryData } =
     result?.repositories?.reduce((acc, val: Repository) => {
       const id = val.id;
@@ -743,7 +836,7 @@ export const prepareDataForAddedRepositories = (
   const repoData: { [id: string]: AddRepositoryData } =
     importJobs.imports?.reduce((acc, val: ImportJobStatus) => {
       const id = `${val.repository.organization}/${val.repository.name}`;
-      const gitProvider = isGithubJob(val) ? 'github' : 'gitlab';
+      const gitProvider = getJobGitProvider(val);
 
       const result: { [id: string]: AddRepositoryData } = {
         ...acc,
@@ -772,7 +865,10 @@ export const prepareDataForAddedRepositories = (
               val.repository.defaultBranch || 'main',
               gitProvider,
             ),
-            pullRequest: val[gitProvider]?.pullRequest?.url || '',
+            pullRequest:
+              val[gitProvider]?.pullRequest?.url ||
+              val.servicenow?.changeRequest?.url ||
+              '',
             lastUpdated: val.lastUpdate,
           },
         },
@@ -149,11 +149,11 @@ const mockPluginsMap = new Map<string, JsonObject>([
 ]);
 export const mockFileInstallationStorage = {
   initialize: jest.fn(),
-  getPackage: jest.fn((name: string) => {
+  getPackage: jest.fn(async (name: string) => {
     const pcg = mockPluginsMap.get(name);
     return pcg ? stringify(pcg) : pcg;
   }),
-  getPackages: jest.fn((names: Iterable<string>) => {
+  getPackages: jest.fn(async (names: Iterable<string>) => {
     const packages = Array.from(names)
       .filter(name => mockPluginsMap.has(name))
       .map(name => mockPluginsMap.get(name));
@@ -173,6 +173,13 @@ export const mockInstallationDataService = {
   updatePluginConfig: jest.fn(),
   setPackageDisabled: jest.fn(),
   setPluginDisabled: jest.fn(),
+  getInstallationHistory: jest.fn(),
+  rollbackPackageConfig: jest.fn(),
+  planPackageConfig: jest.fn(),
+  planPluginConfig: jest.fn(),
+  planPackageEnabled: jest.fn(),
+  planPluginEnabled: jest.fn(),
+  getPackageConfigSchema: jest.fn(),
 } as unknown as jest.Mocked<InstallationDataService>;
 
 export const mockExtensionsApi = {
@@ -22,13 +22,52 @@ export interface Config {
        * @visibility frontend
        */
       enabled?: boolean;
-      saveToSingleFile: {
+      saveToSingleFile?: {
         /**
          * The path to the yaml file containing the plugins installation configuration
          * @visibility frontend
          */
         file: string;
       };
+      /**
+       * Saves the plugins installation configuration to a Kubernetes ConfigMap.
+       */
+      saveToConfigMap?: {
+        /**
+         * The namespace of the ConfigMap
+         */
+        namespace: string;
+        /**
+         * The name of the ConfigMap
+         */
+        name: string;
+        /**
+         * The key of the ConfigMap containing the plugins installation configuration, defaults to 'dynamic-plugins.yaml'
+         */
+        key?: string;
+      };
+      /**
+       * Saves the plugins installation configuration to a file of a GitHub repository.
+       * The credentials are taken from the GitHub integration matching the repository URL.
+       */
+      saveToGitRepository?: {
+        /**
+         * The URL of the repository, e.g. https://github.com/my-org/gitops
+         */
+        repositoryUrl: string;
+        /**
+         * The path to the yaml file containing the plugins installation configuration within the repository
+         */
+        file: string;
+        /**
+         * The branch to update, defaults to the default branch of the repository
+         */
+        branch?: string;
+        /**
+         * Whether the changes are committed directly to the branch or proposed by a pull request, defaults to 'commit'
+         */
+        mode?: 'commit' | 'pullRequest';
+      };
     };
   };
 }
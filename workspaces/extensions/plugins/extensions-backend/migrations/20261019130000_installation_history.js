@@ -0,0 +1,60 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('installation_history', table => {
+    table.comment(
+      'Stores the changes of the plugins installation configuration, one row per changed package',
+    );
+    table.increments('id').primary().comment('Primary key');
+    table
+      .string('package')
+      .notNullable()
+      .index()
+      .comment('The dynamic artifact of the changed package');
+    table
+      .string('action')
+      .notNullable()
+      .comment('The change: update, enable, disable or rollback');
+    table
+      .string('actor')
+      .nullable()
+      .comment('The entity ref of the user who made the change');
+    table
+      .timestamp('created_at', { useTz: true })
+      .notNullable()
+      .defaultTo(knex.fn.now())
+      .comment('The time of the change');
+    table
+      .text('config_before')
+      .nullable()
+      .comment('The YAML configuration of the package before the change');
+    table
+      .text('config_after')
+      .nullable()
+      .comment('The YAML configuration of the package after the change');
+  });
+};
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTable('installation_history');
+};
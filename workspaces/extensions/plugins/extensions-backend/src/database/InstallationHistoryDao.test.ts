@@ -0,0 +1,101 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  mockServices,
+  TestDatabases,
+  type TestDatabaseId,
+} from '@backstage/backend-test-utils';
+
+import { migrate } from './migration';
+import { InstallationHistoryDao } from './InstallationHistoryDao';
+
+const databases = TestDatabases.create({
+  ids: ['POSTGRES_15', 'SQLITE_3'],
+});
+
+async function createDatabase(databaseId: TestDatabaseId) {
+  const knex = await databases.init(databaseId);
+  const mockDatabaseService = mockServices.database.mock({
+    getClient: async () => knex,
+    migrations: { skip: false },
+  });
+  await migrate(mockDatabaseService);
+  return knex;
+}
+
+describe('InstallationHistoryDao', () => {
+  it.each(databases.eachSupportedId())(
+    'should add and find entries, most recent first - %p',
+    async databaseId => {
+      const knex = await createDatabase(databaseId);
+      const dao = new InstallationHistoryDao(knex);
+
+      await dao.addEntries([
+        {
+          package: './dynamic-plugins/dist/package1',
+          action: 'update',
+          actor: 'user:default/alice',
+          configAfter: 'package: ./dynamic-plugins/dist/package1\n',
+        },
+        {
+          package: './dynamic-plugins/dist/package2',
+          action: 'update',
+          actor: 'user:default/alice',
+          configAfter: 'package: ./dynamic-plugins/dist/package2\n',
+        },
+      ]);
+      await dao.addEntries([
+        {
+          package: './dynamic-plugins/dist/package1',
+          action: 'disable',
+          actor: 'user:default/bob',
+          configBefore: 'package: ./dynamic-plugins/dist/package1\n',
+          configAfter:
+            'package: ./dynamic-plugins/dist/package1\ndisabled: true\n',
+        },
+      ]);
+
+      const all = await dao.findEntries({ limit: 10, offset: 0 });
+      expect(all.totalItems).toBe(3);
+      expect(all.items.map(entry => entry.action)).toEqual([
+        'disable',
+        'update',
+        'update',
+      ]);
+
+      const package1 = await dao.findEntries({
+        packageName: './dynamic-plugins/dist/package1',
+        limit: 1,
+        offset: 0,
+      });
+      expect(package1.totalItems).toBe(2);
+      expect(package1.items).toEqual([
+        expect.objectContaining({
+          package: './dynamic-plugins/dist/package1',
+          action: 'disable',
+          actor: 'user:default/bob',
+          configBefore: 'package: ./dynamic-plugins/dist/package1\n',
+          createdAt: expect.any(String),
+        }),
+      ]);
+
+      const entry = await dao.findEntryById(package1.items[0].id);
+      expect(entry).toEqual(package1.items[0]);
+      expect(await dao.findEntryById(12345)).toBeUndefined();
+    },
+  );
+});
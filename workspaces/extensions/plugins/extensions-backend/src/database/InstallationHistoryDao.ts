@@ -0,0 +1,100 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Knex } from 'knex';
+
+import type {
+  InstallationHistoryAction,
+  InstallationHistoryEntry,
+} from '@red-hat-developer-hub/backstage-plugin-extensions-common';
+
+const TABLE_NAME = 'installation_history';
+
+type InstallationHistoryRow = {
+  id: number;
+  package: string;
+  action: InstallationHistoryAction;
+  actor: string | null;
+  created_at: Date | string;
+  config_before: string | null;
+  config_after: string | null;
+};
+
+export type NewInstallationHistoryEntry = Omit<
+  InstallationHistoryEntry,
+  'id' | 'createdAt'
+>;
+
+const toEntry = (row: InstallationHistoryRow): InstallationHistoryEntry => ({
+  id: row.id,
+  package: row.package,
+  action: row.action,
+  actor: row.actor ?? undefined,
+  createdAt: new Date(row.created_at).toISOString(),
+  configBefore: row.config_before ?? undefined,
+  configAfter: row.config_after ?? undefined,
+});
+
+export class InstallationHistoryDao {
+  constructor(private readonly knex: Knex) {}
+
+  async addEntries(entries: NewInstallationHistoryEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+    await this.knex(TABLE_NAME).insert(
+      entries.map(entry => ({
+        package: entry.package,
+        action: entry.action,
+        actor: entry.actor ?? null,
+        config_before: entry.configBefore ?? null,
+        config_after: entry.configAfter ?? null,
+      })),
+    );
+  }
+
+  async findEntries(options: {
+    packageName?: string;
+    limit: number;
+    offset: number;
+  }): Promise<{ items: InstallationHistoryEntry[]; totalItems: number }> {
+    const query = this.knex<InstallationHistoryRow>(TABLE_NAME);
+    if (options.packageName) {
+      query.where('package', options.packageName);
+    }
+    const [rows, [{ count }]] = await Promise.all([
+      query
+        .clone()
+        .orderBy('id', 'desc')
+        .limit(options.limit)
+        .offset(options.offset),
+      query.clone().count<{ count: string }[]>('* as count'),
+    ]);
+    return {
+      items: (rows as InstallationHistoryRow[]).map(toEntry),
+      totalItems: Number(count),
+    };
+  }
+
+  async findEntryById(
+    id: number,
+  ): Promise<InstallationHistoryEntry | undefined> {
+    const row = await this.knex<InstallationHistoryRow>(TABLE_NAME)
+      .where('id', id)
+      .first();
+    return row ? toEntry(row as InstallationHistoryRow) : undefined;
+  }
+}
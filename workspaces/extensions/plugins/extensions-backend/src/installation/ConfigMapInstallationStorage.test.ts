@@ -0,0 +1,136 @@
+/*
+ * Copyright The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { CoreV1Api } from '@kubernetes/client-node';
+import { ConflictError } from '@backstage/errors';
+import { parse, stringify } from 'yaml';
+import {
+  mockDynamicPackage11,
+  mockDynamicPackage12,
+  mockDynamicPackage21,
+} from '../../__fixtures__/mockData';
+import { ConfigMapInstallationStorage } from './ConfigMapInstallationStorage';
+import { InstallationInitErrorReason } from '../errors/InstallationInitError';
+
+describe('ConfigMapInstallationStorage', () => {
+  const mockCoreV1Api = {
+    readNamespacedConfigMap: jest.fn(),
+    replaceNamespacedConfigMap: jest.fn(),
+  };
+
+  const configMap = {
+    metadata: {
+      name: 'dynamic-plugins',
+      namespace: 'rhdh',
+      resourceVersion: '42',
+    },
+    data: {
+      'dynamic-plugins.yaml': stringify({
+        plugins: [
+          mockDynamicPackage11,
+          mockDynamicPackage12,
+          mockDynamicPackage21,
+        ],
+      }),
+    },
+  };
+
+  const createStorage = (key?: string) =>
+    new ConfigMapInstallationStorage({
+      namespace: 'rhdh',
+      name: 'dynamic-plugins',
+      key,
+      coreV1Api: mockCoreV1Api as unknown as CoreV1Api,
+    });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockCoreV1Api.readNamespacedConfigMap.mockResolvedValue(configMap);
+    mockCoreV1Api.replaceNamespacedConfigMap.mockImplementation(
+      async ({ body }) => body,
+    );
+  });
+
+  describe('initialize', () => {
+    it('should initialize valid config', async () => {
+      const storage = createStorage();
+      await storage.initialize();
+
+      expect(mockCoreV1Api.readNamespacedConfigMap).toHaveBeenCalledWith({
+        name: 'dynamic-plugins',
+        namespace: 'rhdh',
+      });
+      expect(storage.getConfigYaml()).toEqual(
+        configMap.data['dynamic-plugins.yaml'],
+      );
+    });
+
+    it('should throw on initialize when the ConfigMap does not exist', async () => {
+      mockCoreV1Api.readNamespacedConfigMap.mockRejectedValue({ code: 404 });
+
+      await expect(createStorage().initialize()).rejects.toMatchObject({
+        reason: InstallationInitErrorReason.FILE_NOT_EXISTS,
+        message: 'The ConfigMap rhdh/dynamic-plugins is missing',
+      });
+    });
+
+    it('should throw on initialize when the key does not exist', async () => {
+      await expect(
+        createStorage('missing.yaml').initialize(),
+      ).rejects.toMatchObject({
+        reason: InstallationInitErrorReason.FILE_NOT_EXISTS,
+        message:
+          "The key 'missing.yaml' is missing in the ConfigMap rhdh/dynamic-plugins",
+      });
+    });
+  });
+
+  describe('setPackageDisabled', () => {
+    it('should replace the ConfigMap with the updated config', async () => {
+      const storage = createStorage();
+      await storage.initialize();
+
+      await storage.setPackageDisabled(mockDynamicPackage12.package, false);
+
+      expect(mockCoreV1Api.replaceNamespacedConfigMap).toHaveBeenCalledWith({
+        name: 'dynamic-plugins',
+        namespace: 'rhdh',
+        body: expect.objectContaining({
+          metadata: expect.objectContaining({ resourceVersion: '42' }),
+        }),
+      });
+      const { body } =
+        mockCoreV1Api.replaceNamespacedConfigMap.mock.calls[0][0];
+      expect(parse(body.data['dynamic-plugins.yaml']).plugins).toEqual([
+        mockDynamicPackage11,
+        { ...mockDynamicPackage12, disabled: false },
+        mockDynamicPackage21,
+      ]);
+    });
+
+    it('should throw ConflictError when the ConfigMap was modified concurrently', async () => {
+      mockCoreV1Api.replaceNamespacedConfigMap.mockRejectedValue({
+        code: 409,
+      });
+      const storage = createStorage();
+      await storage.initialize();
+
+      await expect(
+        storage.setPackageDisabled(mockDynamicPackage12.package, false),
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+});
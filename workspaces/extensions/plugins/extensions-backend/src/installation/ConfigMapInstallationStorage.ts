@@ -0,0 +1,117 @@
+/*
+ * Copyright The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { CoreV1Api, V1ConfigMap } from '@kubernetes/client-node';
+import { ConflictError } from '@backstage/errors';
+import {
+  InstallationInitError,
+  InstallationInitErrorReason,
+} from '../errors/InstallationInitError';
+import { YamlInstallationStorage } from './YamlInstallationStorage';
+
+export const DEFAULT_CONFIG_MAP_KEY = 'dynamic-plugins.yaml';
+
+export type ConfigMapInstallationStorageOptions = {
+  namespace: string;
+  name: string;
+  key?: string;
+  coreV1Api?: CoreV1Api;
+};
+
+/**
+ * Keeps the dynamic plugins configuration under a key of a Kubernetes ConfigMap.
+ *
+ * The Kubernetes configuration is loaded from the default locations,
+ * i.e. the KUBECONFIG env var, ~/.kube/config or the in-cluster service account.
+ */
+export class ConfigMapInstallationStorage extends YamlInstallationStorage {
+  private readonly namespace: string;
+  private readonly name: string;
+  private readonly key: string;
+  private coreV1Api?: CoreV1Api;
+  private configMap?: V1ConfigMap;
+
+  constructor(options: ConfigMapInstallationStorageOptions) {
+    super();
+    this.namespace = options.namespace;
+    this.name = options.name;
+    this.key = options.key ?? DEFAULT_CONFIG_MAP_KEY;
+    this.coreV1Api = options.coreV1Api;
+  }
+
+  private async getCoreV1Api(): Promise<CoreV1Api> {
+    if (!this.coreV1Api) {
+      const { CoreV1Api: CoreV1ApiClass, KubeConfig } =
+        await import('@kubernetes/client-node');
+      const kc = new KubeConfig();
+      kc.loadFromDefault();
+      this.coreV1Api = kc.makeApiClient(CoreV1ApiClass);
+    }
+    return this.coreV1Api;
+  }
+
+  protected async read(): Promise<string> {
+    const coreV1Api = await this.getCoreV1Api();
+    let configMap: V1ConfigMap;
+    try {
+      configMap = await coreV1Api.readNamespacedConfigMap({
+        name: this.name,
+        namespace: this.namespace,
+      });
+    } catch (error: any) {
+      if (error.statusCode === 404 || error.code === 404) {
+        throw new InstallationInitError(
+          InstallationInitErrorReason.FILE_NOT_EXISTS,
+          `The ConfigMap ${this.namespace}/${this.name} is missing`,
+        );
+      }
+      throw error;
+    }
+
+    const content = configMap.data?.[this.key];
+    if (content === undefined) {
+      throw new InstallationInitError(
+        InstallationInitErrorReason.FILE_NOT_EXISTS,
+        `The key '${this.key}' is missing in the ConfigMap ${this.namespace}/${this.name}`,
+      );
+    }
+    this.configMap = configMap;
+    return content;
+  }
+
+  protected async write(content: string): Promise<void> {
+    const coreV1Api = await this.getCoreV1Api();
+    // the resourceVersion of the read ConfigMap is kept, so concurrent changes are rejected
+    const body: V1ConfigMap = {
+      ...this.configMap,
+      data: { ...this.configMap?.data, [this.key]: content },
+    };
+    try {
+      this.configMap = await coreV1Api.replaceNamespacedConfigMap({
+        name: this.name,
+        namespace: this.namespace,
+        body,
+      });
+    } catch (error: any) {
+      if (error.statusCode === 409 || error.code === 409) {
+        throw new ConflictError(
+          `The ConfigMap ${this.namespace}/${this.name} has been modified in the meantime, please retry the change`,
+        );
+      }
+      throw error;
+    }
+  }
+}
@@ -29,7 +29,7 @@ describe('FileInstallationStorage', () => {
   const newPackageName = './dynamic-plugins/dist/package3-backend-dynamic';
 
   describe('initialize', () => {
-    it('should initialize valid config', () => {
+    it('should initialize valid config', async () => {
       const configFileName = resolve(
         __dirname,
         '../../__fixtures__/data/validPluginsConfig.yaml',
@@ -37,7 +37,7 @@ describe('FileInstallationStorage', () => {
       const fileInstallationStorage = new FileInstallationStorage(
         configFileName,
       );
-      fileInstallationStorage.initialize();
+      await fileInstallationStorage.initialize();
       const expected = stringify({
         plugins: [
           mockDynamicPackage11,
@@ -49,7 +49,7 @@ describe('FileInstallationStorage', () => {
       expect(fileInstallationStorage.getConfigYaml()).toEqual(expected);
     });
 
-    it('should throw on initialize when config file does not exist', () => {
+    it('should throw on initialize when config file does not exist', async () => {
       const configFileName = resolve(
         __dirname,
         '../../__fixtures__/data/nonExistentConfigFile.yaml',
@@ -58,9 +58,9 @@ describe('FileInstallationStorage', () => {
         configFileName,
       );
 
-      expect(() => {
-        fileInstallationStorage.initialize();
-      }).toThrow(`The file ${configFileName} is missing`);
+      await expect(fileInstallationStorage.initialize()).rejects.toThrow(
+        `The file ${configFileName} is missing`,
+      );
     });
 
     it('should throw on initialize when bad plugins format', async () => {
@@ -72,9 +72,7 @@ describe('FileInstallationStorage', () => {
         configFileName,
       );
 
-      expect(() => {
-        fileInstallationStorage.initialize();
-      }).toThrow(
+      await expect(fileInstallationStorage.initialize()).rejects.toThrow(
         "Invalid installation configuration, 'plugins' field must be a list",
       );
     });
@@ -88,16 +86,14 @@ describe('FileInstallationStorage', () => {
         configFileName,
       );
 
-      expect(() => {
-        fileInstallationStorage.initialize();
-      }).toThrow(
+      await expect(fileInstallationStorage.initialize()).rejects.toThrow(
         "Invalid installation configuration, 'package' field in package item must be a non-empty string",
       );
     });
   });
 
   describe('getPackage', () => {
-    it('should get correct package', () => {
+    it('should get correct package', async () => {
       const configFileName = resolve(
         __dirname,
         '../../__fixtures__/data/validPluginsConfig.yaml',
@@ -105,10 +101,10 @@ describe('FileInstallationStorage', () => {
       const fileInstallationStorage = new FileInstallationStorage(
         configFileName,
       );
-      fileInstallationStorage.initialize();
+      await fileInstallationStorage.initialize();
 
       expect(
-        fileInstallationStorage.getPackage(
+        await fileInstallationStorage.getPackage(
           mockPackages[1].spec.dynamicArtifact,
         ),
       ).toEqual(stringify([mockDynamicPackage12]));
@@ -116,7 +112,7 @@ describe('FileInstallationStorage', () => {
   });
 
   describe('getPackages', () => {
-    it('should get correct packages', () => {
+    it('should get correct packages', async () => {
       const configFileName = resolve(
         __dirname,
         '../../__fixtures__/data/validPluginsConfig.yaml',
@@ -124,10 +120,10 @@ describe('FileInstallationStorage', () => {
       const fileInstallationStorage = new FileInstallationStorage(
         configFileName,
       );
-      fileInstallationStorage.initialize();
+      await fileInstallationStorage.initialize();
 
       expect(
-        fileInstallationStorage.getPackages(
+        await fileInstallationStorage.getPackages(
           new Set([
             mockPackages[0].spec.dynamicArtifact,
             mockPackages[1].spec.dynamicArtifact,
@@ -151,7 +147,7 @@ describe('FileInstallationStorage', () => {
       );
     });
 
-    it('should update existing package', () => {
+    it('should update existing package', async () => {
       const configFileName = resolve(
         __dirname,
         '../../__fixtures__/data/validPluginsConfig.yaml',
@@ -163,9 +159,9 @@ describe('FileInstallationStorage', () => {
       const fileInstallationStorage = new FileInstallationStorage(
         configFileName,
       );
-      fileInstallationStorage.initialize();
+      await fileInstallationStorage.initialize();
 
-      fileInstallationStorage.updatePackage(
+      await fileInstallationStorage.updatePackage(
         './dynamic-plugins/dist/package21-backend-dynamic',
         stringify(updatedPackage),
       );
@@ -179,7 +175,7 @@ describe('FileInstallationStorage', () => {
       ]);
     });
 
-    it('should add new package', () => {
+    it('should add new package', async () => {
       const configFileName = resolve(
         __dirname,
         '../../__fixtures__/data/validPluginsConfig.yaml',
@@ -191,9 +187,9 @@ describe('FileInstallationStorage', () => {
       const fileInstallationStorage = new FileInstallationStorage(
         configFileName,
       );
-      fileInstallationStorage.initialize();
+      await fileInstallationStorage.initialize();
 
-      fileInstallationStorage.updatePackage(
+      await fileInstallationStorage.updatePackage(
         newPackageName,
         stringify(newPackage),
       );
@@ -214,14 +210,14 @@ describe('FileInstallationStorage', () => {
       const fileInstallationStorage = new FileInstallationStorage(
         configFileName,
       );
-      fileInstallationStorage.initialize();
+      await fileInstallationStorage.initialize();
 
-      expect(() => {
+      await expect(
         fileInstallationStorage.updatePackage(
           mockDynamicPackage11.package,
           'badConfig',
-        );
-      }).toThrow(
+        ),
+      ).rejects.toThrow(
         'Invalid installation configuration, package item must be a map',
       );
     });
@@ -241,7 +237,7 @@ describe('FileInstallationStorage', () => {
       );
     });
 
-    it('should update existing plugin', () => {
+    it('should update existing plugin', async () => {
       const configFileName = resolve(
         __dirname,
         '../../__fixtures__/data/validPluginsConfig.yaml',
@@ -283,9 +279,9 @@ describe('FileInstallationStorage', () => {
       const fileInstallationStorage = new FileInstallationStorage(
         configFileName,
       );
-      fileInstallationStorage.initialize();
+      await fileInstallationStorage.initialize();
 
-      fileInstallationStorage.updatePackages(
+      await fileInstallationStorage.updatePackages(
         new Set([
           mockDynamicPackage11.package,
           mockDynamicPackage12.package,
@@ -302,7 +298,7 @@ describe('FileInstallationStorage', () => {
       ]);
     });
 
-    it('should add new plugin', () => {
+    it('should add new plugin', async () => {
       const configFileName = resolve(
         __dirname,
         '../../__fixtures__/data/validPluginsConfig.yaml',
@@ -316,9 +312,9 @@ describe('FileInstallationStorage', () => {
       const fileInstallationStorage = new FileInstallationStorage(
         configFileName,
       );
-      fileInstallationStorage.initialize();
+      await fileInstallationStorage.initialize();
 
-      fileInstallationStorage.updatePackages(
+      await fileInstallationStorage.updatePackages(
         new Set([newPackageName]),
         stringify(newPlugin),
       );
@@ -339,14 +335,14 @@ describe('FileInstallationStorage', () => {
       const fileInstallationStorage = new FileInstallationStorage(
         configFileName,
       );
-      fileInstallationStorage.initialize();
+      await fileInstallationStorage.initialize();
 
-      expect(() => {
+      await expect(
         fileInstallationStorage.updatePackages(
           new Set(mockDynamicPackage11.package),
           'package: badFormat',
-        );
-      }).toThrow(
+        ),
+      ).rejects.toThrow(
         'Invalid installation configuration, plugin packages must be a list',
       );
     });
@@ -366,7 +362,7 @@ describe('FileInstallationStorage', () => {
       );
     });
 
-    it('should add new package with disabled status', () => {
+    it('should add new package with disabled status', async () => {
       const configFileName = resolve(
         __dirname,
         '../../__fixtures__/data/validPluginsConfig.yaml',
@@ -374,9 +370,9 @@ describe('FileInstallationStorage', () => {
       const fileInstallationStorage = new FileInstallationStorage(
         configFileName,
       );
-      fileInstallationStorage.initialize();
+      await fileInstallationStorage.initialize();
 
-      fileInstallationStorage.setPackageDisabled(newPackageName, false);
+      await fileInstallationStorage.setPackageDisabled(newPackageName, false);
 
       const updatedCatalogInfoYaml = fs.readFileSync(configFileName, 'utf8');
       const configYaml = parse(updatedCatalogInfoYaml);
@@ -388,7 +384,7 @@ describe('FileInstallationStorage', () => {
       ]);
     });
 
-    it('should update existing package with disabled status', () => {
+    it('should update existing package with disabled status', async () => {
       const configFileName = resolve(
         __dirname,
         '../../__fixtures__/data/validPluginsConfig.yaml',
@@ -396,9 +392,9 @@ describe('FileInstallationStorage', () => {
       const fileInstallationStorage = new FileInstallationStorage(
         configFileName,
       );
-      fileInstallationStorage.initialize();
+      await fileInstallationStorage.initialize();
 
-      fileInstallationStorage.setPackageDisabled(
+      await fileInstallationStorage.setPackageDisabled(
         mockDynamicPackage12.package,
         false,
       );
@@ -427,7 +423,7 @@ describe('FileInstallationStorage', () => {
       );
     });
 
-    it('should set disabled for existing plugin in the config', () => {
+    it('should set disabled for existing plugin in the config', async () => {
       const configFileName = resolve(
         __dirname,
         '../../__fixtures__/data/validPluginsConfig.yaml',
@@ -445,9 +441,9 @@ describe('FileInstallationStorage', () => {
       const fileInstallationStorage = new FileInstallationStorage(
         configFileName,
       );
-      fileInstallationStorage.initialize();
+      await fileInstallationStorage.initialize();
 
-      fileInstallationStorage.setPackagesDisabled(
+      await fileInstallationStorage.setPackagesDisabled(
         new Set([mockDynamicPackage11.package, mockDynamicPackage12.package]),
         false,
       );
@@ -460,7 +456,7 @@ describe('FileInstallationStorage', () => {
       ]);
     });
 
-    it('should set disabled for new plugin in the config', () => {
+    it('should set disabled for new plugin in the config', async () => {
       const configFileName = resolve(
         __dirname,
         '../../__fixtures__/data/validPluginsConfig.yaml',
@@ -474,9 +470,9 @@ describe('FileInstallationStorage', () => {
       const fileInstallationStorage = new FileInstallationStorage(
         configFileName,
       );
-      fileInstallationStorage.initialize();
+      await fileInstallationStorage.initialize();
 
-      fileInstallationStorage.setPackagesDisabled(
+      await fileInstallationStorage.setPackagesDisabled(
         new Set([newPackageName]),
         false,
       );
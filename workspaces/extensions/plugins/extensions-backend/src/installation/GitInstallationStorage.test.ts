@@ -0,0 +1,214 @@
+/*
+ * Copyright The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ConfigReader } from '@backstage/config';
+import { ScmIntegrations } from '@backstage/integration';
+import { parse, stringify } from 'yaml';
+import {
+  mockDynamicPackage11,
+  mockDynamicPackage12,
+  mockDynamicPackage21,
+} from '../../__fixtures__/mockData';
+import { GitInstallationStorage } from './GitInstallationStorage';
+import { InstallationInitErrorReason } from '../errors/InstallationInitError';
+
+const mockOctokit = {
+  rest: {
+    repos: {
+      get: jest.fn(),
+      getContent: jest.fn(),
+      createOrUpdateFileContents: jest.fn(),
+    },
+    git: {
+      getRef: jest.fn(),
+      createRef: jest.fn(),
+    },
+    pulls: {
+      create: jest.fn(),
+    },
+  },
+};
+
+jest.mock('@octokit/rest', () => ({
+  Octokit: jest.fn().mockImplementation(() => mockOctokit),
+}));
+
+describe('GitInstallationStorage', () => {
+  const integrations = ScmIntegrations.fromConfig(
+    new ConfigReader({
+      integrations: {
+        github: [{ host: 'github.com', token: 'github-token' }],
+      },
+    }),
+  );
+
+  const content = stringify({
+    plugins: [mockDynamicPackage11, mockDynamicPackage12, mockDynamicPackage21],
+  });
+
+  const committedConfig = () => {
+    const { content: committed } =
+      mockOctokit.rest.repos.createOrUpdateFileContents.mock.calls[0][0];
+    return parse(Buffer.from(committed, 'base64').toString('utf-8'));
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockOctokit.rest.repos.get.mockResolvedValue({
+      data: { default_branch: 'main' },
+    });
+    mockOctokit.rest.repos.getContent.mockResolvedValue({
+      data: {
+        type: 'file',
+        sha: 'file-sha',
+        content: Buffer.from(content, 'utf-8').toString('base64'),
+      },
+    });
+    mockOctokit.rest.git.getRef.mockResolvedValue({
+      data: { object: { sha: 'main-sha' } },
+    });
+  });
+
+  it('should throw when the repository URL has no GitHub integration', () => {
+    expect(
+      () =>
+        new GitInstallationStorage({
+          repositoryUrl: 'https://gitlab.com/my-org/gitops',
+          file: 'dynamic-plugins.yaml',
+          integrations,
+        }),
+    ).toThrow(
+      'No GitHub integration found for the repository https://gitlab.com/my-org/gitops',
+    );
+  });
+
+  it('should read the config from the default branch', async () => {
+    const storage = new GitInstallationStorage({
+      repositoryUrl: 'https://github.com/my-org/gitops',
+      file: 'rhdh/dynamic-plugins.yaml',
+      integrations,
+    });
+    await storage.initialize();
+
+    expect(mockOctokit.rest.repos.getContent).toHaveBeenCalledWith({
+      owner: 'my-org',
+      repo: 'gitops',
+      path: 'rhdh/dynamic-plugins.yaml',
+      ref: 'main',
+    });
+    expect(storage.getConfigYaml()).toEqual(content);
+  });
+
+  it('should throw on initialize when the file does not exist', async () => {
+    mockOctokit.rest.repos.getContent.mockRejectedValue({ status: 404 });
+    const storage = new GitInstallationStorage({
+      repositoryUrl: 'https://github.com/my-org/gitops',
+      file: 'dynamic-plugins.yaml',
+      branch: 'release',
+      integrations,
+    });
+
+    await expect(storage.initialize()).rejects.toMatchObject({
+      reason: InstallationInitErrorReason.FILE_NOT_EXISTS,
+      message:
+        'The file dynamic-plugins.yaml is missing on the branch release of https://github.com/my-org/gitops',
+    });
+  });
+
+  it('should commit the change to the branch', async () => {
+    const storage = new GitInstallationStorage({
+      repositoryUrl: 'https://github.com/my-org/gitops',
+      file: 'dynamic-plugins.yaml',
+      branch: 'release',
+      mode: 'commit',
+      integrations,
+    });
+    await storage.initialize();
+
+    await storage.setPackageDisabled(mockDynamicPackage12.package, false);
+
+    expect(
+      mockOctokit.rest.repos.createOrUpdateFileContents,
+    ).toHaveBeenCalledWith(
+      expect.objectContaining({
+        owner: 'my-org',
+        repo: 'gitops',
+        path: 'dynamic-plugins.yaml',
+        branch: 'release',
+        message: `Enable ${mockDynamicPackage12.package}`,
+        sha: 'file-sha',
+      }),
+    );
+    expect(committedConfig().plugins).toEqual([
+      mockDynamicPackage11,
+      { ...mockDynamicPackage12, disabled: false },
+      mockDynamicPackage21,
+    ]);
+    expect(mockOctokit.rest.pulls.create).not.toHaveBeenCalled();
+  });
+
+  it('should open a pull request with the change', async () => {
+    const storage = new GitInstallationStorage({
+      repositoryUrl: 'https://github.com/my-org/gitops',
+      file: 'dynamic-plugins.yaml',
+      mode: 'pullRequest',
+      integrations,
+    });
+    await storage.initialize();
+
+    await storage.setPackagesDisabled(
+      new Set([mockDynamicPackage11.package]),
+      true,
+    );
+
+    const { ref } = mockOctokit.rest.git.createRef.mock.calls[0][0];
+    expect(mockOctokit.rest.git.createRef).toHaveBeenCalledWith(
+      expect.objectContaining({ sha: 'main-sha' }),
+    );
+    expect(
+      mockOctokit.rest.repos.createOrUpdateFileContents,
+    ).toHaveBeenCalledWith(
+      expect.objectContaining({ branch: ref.replace('refs/heads/', '') }),
+    );
+    expect(mockOctokit.rest.pulls.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        owner: 'my-org',
+        repo: 'gitops',
+        title: `Disable ${mockDynamicPackage11.package}`,
+        head: ref.replace('refs/heads/', ''),
+        base: 'main',
+      }),
+    );
+  });
+
+  it('should throw ConflictError when the file was modified concurrently', async () => {
+    mockOctokit.rest.repos.createOrUpdateFileContents.mockRejectedValue({
+      status: 409,
+    });
+    const storage = new GitInstallationStorage({
+      repositoryUrl: 'https://github.com/my-org/gitops',
+      file: 'dynamic-plugins.yaml',
+      integrations,
+    });
+    await storage.initialize();
+
+    await expect(
+      storage.setPackageDisabled(mockDynamicPackage12.package, false),
+    ).rejects.toThrow(
+      'The file dynamic-plugins.yaml of https://github.com/my-org/gitops has been modified in the meantime, please retry the change',
+    );
+  });
+});
@@ -0,0 +1,197 @@
+/*
+ * Copyright The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Octokit } from '@octokit/rest';
+import {
+  DefaultGithubCredentialsProvider,
+  ScmIntegrationRegistry,
+} from '@backstage/integration';
+import { ConflictError, InputError } from '@backstage/errors';
+import {
+  InstallationInitError,
+  InstallationInitErrorReason,
+} from '../errors/InstallationInitError';
+import { YamlInstallationStorage } from './YamlInstallationStorage';
+
+export type GitInstallationStorageMode = 'commit' | 'pullRequest';
+
+export type GitInstallationStorageOptions = {
+  repositoryUrl: string;
+  file: string;
+  branch?: string;
+  mode?: GitInstallationStorageMode;
+  integrations: ScmIntegrationRegistry;
+};
+
+/**
+ * Keeps the dynamic plugins configuration in a file of a GitHub repository.
+ *
+ * Changes are either committed directly to the branch, or proposed by a pull request
+ * against it, so they can be rolled out by a GitOps workflow.
+ */
+export class GitInstallationStorage extends YamlInstallationStorage {
+  private readonly repositoryUrl: string;
+  private readonly owner: string;
+  private readonly repo: string;
+  private readonly file: string;
+  private readonly mode: GitInstallationStorageMode;
+  private readonly integrations: ScmIntegrationRegistry;
+  private branch?: string;
+  private fileSha?: string;
+
+  constructor(options: GitInstallationStorageOptions) {
+    super();
+    const integration = options.integrations.github.byUrl(
+      options.repositoryUrl,
+    );
+    if (!integration) {
+      throw new InputError(
+        `No GitHub integration found for the repository ${options.repositoryUrl}`,
+      );
+    }
+    const [owner, repo] = new URL(options.repositoryUrl).pathname
+      .replace(/^\/|\/$|\.git$/g, '')
+      .split('/');
+    if (!owner || !repo) {
+      throw new InputError(
+        `The repository URL ${options.repositoryUrl} must be in the form https://<host>/<owner>/<repo>`,
+      );
+    }
+    this.repositoryUrl = options.repositoryUrl;
+    this.owner = owner;
+    this.repo = repo;
+    this.file = options.file.replace(/^\//, '');
+    this.branch = options.branch;
+    this.mode = options.mode ?? 'commit';
+    this.integrations = options.integrations;
+  }
+
+  private async getOctokit(): Promise<Octokit> {
+    const credentialsProvider =
+      DefaultGithubCredentialsProvider.fromIntegrations(this.integrations);
+    const { token } = await credentialsProvider.getCredentials({
+      url: this.repositoryUrl,
+    });
+    if (!token) {
+      throw new Error(
+        `No credentials configured for the repository ${this.repositoryUrl}`,
+      );
+    }
+    return new Octokit({
+      baseUrl: this.integrations.github.byUrl(this.repositoryUrl)?.config
+        .apiBaseUrl,
+      auth: token,
+    });
+  }
+
+  private async getBranch(octokit: Octokit): Promise<string> {
+    if (!this.branch) {
+      const { data } = await octokit.rest.repos.get({
+        owner: this.owner,
+        repo: this.repo,
+      });
+      this.branch = data.default_branch;
+    }
+    return this.branch;
+  }
+
+  protected async read(): Promise<string> {
+    const octokit = await this.getOctokit();
+    const branch = await this.getBranch(octokit);
+    const { data } = await octokit.rest.repos
+      .getContent({
+        owner: this.owner,
+        repo: this.repo,
+        path: this.file,
+        ref: branch,
+      })
+      .catch(error => {
+        if (error.status === 404) {
+          throw new InstallationInitError(
+            InstallationInitErrorReason.FILE_NOT_EXISTS,
+            `The file ${this.file} is missing on the branch ${branch} of ${this.repositoryUrl}`,
+          );
+        }
+        throw error;
+      });
+    if (Array.isArray(data) || data.type !== 'file') {
+      throw new InstallationInitError(
+        InstallationInitErrorReason.FILE_NOT_EXISTS,
+        `The path ${this.file} of ${this.repositoryUrl} is not a file`,
+      );
+    }
+    this.fileSha = data.sha;
+    return Buffer.from(data.content, 'base64').toString('utf-8');
+  }
+
+  protected async write(content: string, summary: string): Promise<void> {
+    const octokit = await this.getOctokit();
+    const branch = await this.getBranch(octokit);
+    const targetBranch =
+      this.mode === 'pullRequest'
+        ? await this.createChangeBranch(octokit, branch)
+        : branch;
+
+    try {
+      await octokit.rest.repos.createOrUpdateFileContents({
+        owner: this.owner,
+        repo: this.repo,
+        path: this.file,
+        branch: targetBranch,
+        message: summary,
+        content: Buffer.from(content, 'utf-8').toString('base64'),
+        sha: this.fileSha,
+      });
+    } catch (error: any) {
+      if (error.status === 409) {
+        throw new ConflictError(
+          `The file ${this.file} of ${this.repositoryUrl} has been modified in the meantime, please retry the change`,
+        );
+      }
+      throw error;
+    }
+
+    if (this.mode === 'pullRequest') {
+      await octokit.rest.pulls.create({
+        owner: this.owner,
+        repo: this.repo,
+        title: summary,
+        head: targetBranch,
+        base: branch,
+        body: `This pull request was created by the Extensions plugin to update the dynamic plugins configuration in \`${this.file}\`.`,
+      });
+    }
+  }
+
+  private async createChangeBranch(
+    octokit: Octokit,
+    baseBranch: string,
+  ): Promise<string> {
+    const { data: baseRef } = await octokit.rest.git.getRef({
+      owner: this.owner,
+      repo: this.repo,
+      ref: `heads/${baseBranch}`,
+    });
+    const changeBranch = `extensions-installation-${Date.now()}`;
+    await octokit.rest.git.createRef({
+      owner: this.owner,
+      repo: this.repo,
+      ref: `refs/heads/${changeBranch}`,
+      sha: baseRef.object.sha,
+    });
+    return changeBranch;
+  }
+}
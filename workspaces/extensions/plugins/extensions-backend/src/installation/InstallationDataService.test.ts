@@ -16,8 +16,15 @@
 import { ConfigReader } from '@backstage/config';
 
 import { InstallationDataService } from './InstallationDataService';
+import { ConfigMapInstallationStorage } from './ConfigMapInstallationStorage';
+import { GitInstallationStorage } from './GitInstallationStorage';
+import { InstallationHistoryDao } from '../database/InstallationHistoryDao';
+import { InstallationPlanResolver } from './InstallationPlanResolver';
+import { ConfigSchemaLoader } from '../validation/ConfigSchemaLoader';
+import { ConfigFormatError } from '../errors/ConfigFormatError';
 import {
   mockDynamicPackage11,
+  mockDynamicPackage12,
   mockDynamicPlugin1,
   mockFileInstallationStorage,
   mockExtensionsApi,
@@ -39,6 +46,22 @@ jest.mock('./FileInstallationStorage', () => {
   };
 });
 
+jest.mock('./ConfigMapInstallationStorage', () => {
+  return {
+    ConfigMapInstallationStorage: jest
+      .fn()
+      .mockImplementation(() => mockFileInstallationStorage),
+  };
+});
+
+jest.mock('./GitInstallationStorage', () => {
+  return {
+    GitInstallationStorage: jest
+      .fn()
+      .mockImplementation(() => mockFileInstallationStorage),
+  };
+});
+
 describe('InstallationDataService', () => {
   let installationDataService: InstallationDataService;
 
@@ -53,6 +76,12 @@ describe('InstallationDataService', () => {
 
   const mockLogger = mockServices.logger.mock();
 
+  const mockInstallationHistory = {
+    addEntries: jest.fn(),
+    findEntries: jest.fn(),
+    findEntryById: jest.fn(),
+  } as unknown as jest.Mocked<InstallationHistoryDao>;
+
   const plugin = mockPlugins[0];
   mockExtensionsApi.getPluginPackages = jest.fn((namespace, name) => {
     const isMatch =
@@ -67,11 +96,12 @@ describe('InstallationDataService', () => {
   });
 
   describe('initialize', () => {
-    it("should return service with 'INSTALLATION_DISABLED_IN_PRODUCTION' error when production environment", () => {
+    it("should return service with 'INSTALLATION_DISABLED_IN_PRODUCTION' error when production environment", async () => {
       process.env.NODE_ENV = 'production';
-      installationDataService = InstallationDataService.fromConfig({
+      installationDataService = await InstallationDataService.fromConfig({
         config: validConfig,
         extensionsApi: mockExtensionsApi,
+        installationHistory: mockInstallationHistory,
         logger: mockLogger,
       });
 
@@ -84,14 +114,15 @@ describe('InstallationDataService', () => {
       );
     });
 
-    it("should return service with 'INSTALLATION_DISABLED' error when installation is disabled", () => {
+    it("should return service with 'INSTALLATION_DISABLED' error when installation is disabled", async () => {
       const disabledConfig = new ConfigReader({
         extensions: { installation: { enabled: false } },
       });
 
-      installationDataService = InstallationDataService.fromConfig({
+      installationDataService = await InstallationDataService.fromConfig({
         config: disabledConfig,
         extensionsApi: mockExtensionsApi,
+        installationHistory: mockInstallationHistory,
         logger: mockLogger,
       });
 
@@ -104,14 +135,15 @@ describe('InstallationDataService', () => {
       );
     });
 
-    it("should return service with 'FILE_CONFIG_VALUE_MISSING' error when file is missing", () => {
+    it("should return service with 'FILE_CONFIG_VALUE_MISSING' error when file is missing", async () => {
       const missingFileConfig = new ConfigReader({
         extensions: { installation: { enabled: true } },
       });
 
-      installationDataService = InstallationDataService.fromConfig({
+      installationDataService = await InstallationDataService.fromConfig({
         config: missingFileConfig,
         extensionsApi: mockExtensionsApi,
+        installationHistory: mockInstallationHistory,
         logger: mockLogger,
       });
 
@@ -124,7 +156,7 @@ describe('InstallationDataService', () => {
       );
     });
 
-    it("should return service with an error thrown by 'FileInstallationStorage.initialize'", () => {
+    it("should return service with an error thrown by 'FileInstallationStorage.initialize'", async () => {
       const fileNotFoundConfig = new ConfigReader({
         extensions: {
           installation: {
@@ -142,9 +174,10 @@ describe('InstallationDataService', () => {
         );
       });
 
-      installationDataService = InstallationDataService.fromConfig({
+      installationDataService = await InstallationDataService.fromConfig({
         config: fileNotFoundConfig,
         extensionsApi: mockExtensionsApi,
+        installationHistory: mockInstallationHistory,
         logger: mockLogger,
       });
 
@@ -156,19 +189,104 @@ describe('InstallationDataService', () => {
         InstallationInitErrorReason.FILE_NOT_EXISTS,
       );
     });
+    it('should allow installation to a ConfigMap in production environment', async () => {
+      process.env.NODE_ENV = 'production';
+      const configMapConfig = new ConfigReader({
+        extensions: {
+          installation: {
+            enabled: true,
+            saveToConfigMap: { namespace: 'rhdh', name: 'dynamic-plugins' },
+          },
+        },
+      });
+
+      installationDataService = await InstallationDataService.fromConfig({
+        config: configMapConfig,
+        extensionsApi: mockExtensionsApi,
+        installationHistory: mockInstallationHistory,
+        logger: mockLogger,
+      });
+
+      expect(ConfigMapInstallationStorage).toHaveBeenCalledWith({
+        namespace: 'rhdh',
+        name: 'dynamic-plugins',
+        key: undefined,
+      });
+      expect(mockFileInstallationStorage.initialize).toHaveBeenCalled();
+      expect(installationDataService.getInitializationError()).toBeUndefined();
+    });
+
+    it("should create Git storage from the 'saveToGitRepository' config", async () => {
+      const gitConfig = new ConfigReader({
+        extensions: {
+          installation: {
+            enabled: true,
+            saveToGitRepository: {
+              repositoryUrl: 'https://github.com/my-org/gitops',
+              file: 'rhdh/dynamic-plugins.yaml',
+              mode: 'pullRequest',
+            },
+          },
+        },
+      });
+
+      installationDataService = await InstallationDataService.fromConfig({
+        config: gitConfig,
+        extensionsApi: mockExtensionsApi,
+        installationHistory: mockInstallationHistory,
+        logger: mockLogger,
+      });
+
+      expect(GitInstallationStorage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          repositoryUrl: 'https://github.com/my-org/gitops',
+          file: 'rhdh/dynamic-plugins.yaml',
+          branch: undefined,
+          mode: 'pullRequest',
+        }),
+      );
+      expect(installationDataService.getInitializationError()).toBeUndefined();
+    });
+
+    it("should return service with 'UNKNOWN' error when multiple storages are configured", async () => {
+      const multipleStoragesConfig = new ConfigReader({
+        extensions: {
+          installation: {
+            enabled: true,
+            saveToSingleFile: { file: 'dummy-file.yaml' },
+            saveToConfigMap: { namespace: 'rhdh', name: 'dynamic-plugins' },
+          },
+        },
+      });
+
+      installationDataService = await InstallationDataService.fromConfig({
+        config: multipleStoragesConfig,
+        extensionsApi: mockExtensionsApi,
+        installationHistory: mockInstallationHistory,
+        logger: mockLogger,
+      });
+
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        "Installation feature is disabled. Error while loading data: Only one of 'extensions.installation.saveToSingleFile', 'extensions.installation.saveToConfigMap' can be specified in the extensions configuration",
+      );
+      expect(installationDataService.getInitializationError()?.reason).toBe(
+        InstallationInitErrorReason.UNKNOWN,
+      );
+    });
   });
 
   describe('getPackageConfig', () => {
     beforeEach(async () => {
-      installationDataService = InstallationDataService.fromConfig({
+      installationDataService = await InstallationDataService.fromConfig({
         config: validConfig,
         extensionsApi: mockExtensionsApi,
+        installationHistory: mockInstallationHistory,
         logger: mockServices.logger.mock(),
       });
     });
 
-    it('should return package config', () => {
-      const result = installationDataService.getPackageConfig(
+    it('should return package config', async () => {
+      const result = await installationDataService.getPackageConfig(
         mockPackages[0].spec.dynamicArtifact,
       );
       expect(result).toEqual(stringify(mockDynamicPackage11));
@@ -177,9 +295,10 @@ describe('InstallationDataService', () => {
 
   describe('getPluginConfig', () => {
     beforeEach(async () => {
-      installationDataService = InstallationDataService.fromConfig({
+      installationDataService = await InstallationDataService.fromConfig({
         config: validConfig,
         extensionsApi: mockExtensionsApi,
+        installationHistory: mockInstallationHistory,
         logger: mockServices.logger.mock(),
       });
     });
@@ -191,17 +310,18 @@ describe('InstallationDataService', () => {
   });
 
   describe('updatePackageConfig', () => {
-    beforeEach(() => {
-      installationDataService = InstallationDataService.fromConfig({
+    beforeEach(async () => {
+      installationDataService = await InstallationDataService.fromConfig({
         config: validConfig,
         extensionsApi: mockExtensionsApi,
+        installationHistory: mockInstallationHistory,
         logger: mockLogger,
       });
     });
 
-    it('should update package', () => {
+    it('should update package', async () => {
       const newConfig = stringify({ ...mockDynamicPackage11, disabled: false });
-      installationDataService.updatePackageConfig(
+      await installationDataService.updatePackageConfig(
         mockDynamicPackage11.package,
         newConfig,
       );
@@ -211,13 +331,37 @@ describe('InstallationDataService', () => {
         newConfig,
       );
     });
+
+    it('should record the change in the installation history', async () => {
+      const updatedPackage = { ...mockDynamicPackage11, disabled: false };
+      mockFileInstallationStorage.updatePackage.mockResolvedValueOnce(
+        stringify([updatedPackage]),
+      );
+
+      await installationDataService.updatePackageConfig(
+        mockDynamicPackage11.package,
+        stringify(updatedPackage),
+        'user:default/alice',
+      );
+
+      expect(mockInstallationHistory.addEntries).toHaveBeenCalledWith([
+        {
+          package: mockDynamicPackage11.package,
+          action: 'update',
+          actor: 'user:default/alice',
+          configBefore: stringify(mockDynamicPackage11),
+          configAfter: stringify(updatedPackage),
+        },
+      ]);
+    });
   });
 
   describe('updatePluginConfig', () => {
-    beforeEach(() => {
-      installationDataService = InstallationDataService.fromConfig({
+    beforeEach(async () => {
+      installationDataService = await InstallationDataService.fromConfig({
         config: validConfig,
         extensionsApi: mockExtensionsApi,
+        installationHistory: mockInstallationHistory,
         logger: mockLogger,
       });
     });
@@ -237,17 +381,92 @@ describe('InstallationDataService', () => {
     });
   });
 
+  describe('planPluginConfig', () => {
+    const plan = { warnings: [], requiredPackages: [] };
+    let resolveSpy: jest.SpyInstance;
+
+    beforeEach(async () => {
+      resolveSpy = jest
+        .spyOn(InstallationPlanResolver.prototype, 'resolve')
+        .mockResolvedValue(plan);
+      installationDataService = await InstallationDataService.fromConfig({
+        config: validConfig,
+        extensionsApi: mockExtensionsApi,
+        installationHistory: mockInstallationHistory,
+        logger: mockLogger,
+        backstageVersion: '1.45.2',
+      });
+    });
+
+    afterEach(() => resolveSpy.mockRestore());
+
+    it('should resolve the plan of the new plugin config', async () => {
+      const newConfig = stringify([
+        mockDynamicPackage11,
+        { ...mockDynamicPackage12, disabled: false },
+      ]);
+
+      await expect(
+        installationDataService.planPluginConfig(plugin, newConfig),
+      ).resolves.toEqual(plan);
+      expect(resolveSpy).toHaveBeenCalledWith({
+        changes: new Map([
+          [mockDynamicPackage11.package, false],
+          [mockDynamicPackage12.package, true],
+        ]),
+        plugins: [plugin],
+        getConfiguredPackages: expect.any(Function),
+      });
+      expect(mockFileInstallationStorage.updatePackages).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConfigFormatError when the package is not part of the plugin', async () => {
+      await expect(
+        installationDataService.planPluginConfig(
+          plugin,
+          stringify([{ package: './dynamic-plugins/dist/other' }]),
+        ),
+      ).rejects.toThrow(ConfigFormatError);
+    });
+
+    it('should throw ConfigFormatError when the plugin config does not match the config schema', async () => {
+      const getSchemaSpy = jest
+        .spyOn(ConfigSchemaLoader.prototype, 'getSchema')
+        .mockImplementation(async extensionsPackage =>
+          extensionsPackage.metadata.name === 'package11'
+            ? {
+                type: 'object',
+                properties: { package11: { type: 'string' } },
+              }
+            : undefined,
+        );
+      const newConfig = stringify([
+        { ...mockDynamicPackage11, pluginConfig: { package11: 11 } },
+        mockDynamicPackage12,
+      ]);
+
+      await expect(
+        installationDataService.planPluginConfig(plugin, newConfig),
+      ).rejects.toThrow(
+        "'pluginConfig' field of package './dynamic-plugins/dist/package11-backend-dynamic' does not match the config schema of the package: pluginConfig/package11 must be string",
+      );
+      expect(resolveSpy).not.toHaveBeenCalled();
+      getSchemaSpy.mockRestore();
+    });
+  });
+
   describe('setPackageDisabled', () => {
-    beforeEach(() => {
-      installationDataService = InstallationDataService.fromConfig({
+    beforeEach(async () => {
+      installationDataService = await InstallationDataService.fromConfig({
         config: validConfig,
         extensionsApi: mockExtensionsApi,
+        installationHistory: mockInstallationHistory,
         logger: mockLogger,
       });
     });
 
     it('should set package with disabled', async () => {
-      installationDataService.setPackageDisabled(
+      await installationDataService.setPackageDisabled(
         mockDynamicPackage11.package,
         false,
       );
@@ -259,10 +478,11 @@ describe('InstallationDataService', () => {
   });
 
   describe('setPluginDisabled', () => {
-    beforeEach(() => {
-      installationDataService = InstallationDataService.fromConfig({
+    beforeEach(async () => {
+      installationDataService = await InstallationDataService.fromConfig({
         config: validConfig,
         extensionsApi: mockExtensionsApi,
+        installationHistory: mockInstallationHistory,
         logger: mockLogger,
       });
     });
@@ -285,4 +505,126 @@ describe('InstallationDataService', () => {
       );
     });
   });
+
+  describe('getInstallationHistory', () => {
+    beforeEach(async () => {
+      installationDataService = await InstallationDataService.fromConfig({
+        config: validConfig,
+        extensionsApi: mockExtensionsApi,
+        installationHistory: mockInstallationHistory,
+        logger: mockLogger,
+      });
+    });
+
+    it('should find the history entries of the package', async () => {
+      const history = { items: [], totalItems: 0 };
+      mockInstallationHistory.findEntries.mockResolvedValueOnce(history);
+
+      const result = await installationDataService.getInstallationHistory({
+        packageName: mockDynamicPackage11.package,
+      });
+
+      expect(result).toBe(history);
+      expect(mockInstallationHistory.findEntries).toHaveBeenCalledWith({
+        packageName: mockDynamicPackage11.package,
+        limit: 20,
+        offset: 0,
+      });
+    });
+  });
+
+  describe('rollbackPackageConfig', () => {
+    const revision = {
+      id: 7,
+      package: mockDynamicPackage11.package,
+      action: 'update' as const,
+      actor: 'user:default/alice',
+      createdAt: '2026-10-19T12:00:00.000Z',
+      configAfter: stringify({ ...mockDynamicPackage11, disabled: true }),
+    };
+
+    beforeEach(async () => {
+      installationDataService = await InstallationDataService.fromConfig({
+        config: validConfig,
+        extensionsApi: mockExtensionsApi,
+        installationHistory: mockInstallationHistory,
+        logger: mockLogger,
+      });
+    });
+
+    it('should restore the package config of the revision', async () => {
+      mockInstallationHistory.findEntryById.mockResolvedValueOnce(revision);
+      mockFileInstallationStorage.updatePackage.mockResolvedValueOnce(
+        stringify([{ ...mockDynamicPackage11, disabled: true }]),
+      );
+
+      await installationDataService.rollbackPackageConfig(
+        mockPackages[0],
+        7,
+        'user:default/bob',
+      );
+
+      expect(mockFileInstallationStorage.updatePackage).toHaveBeenCalledWith(
+        mockDynamicPackage11.package,
+        revision.configAfter,
+      );
+      expect(mockInstallationHistory.addEntries).toHaveBeenCalledWith([
+        {
+          package: mockDynamicPackage11.package,
+          action: 'rollback',
+          actor: 'user:default/bob',
+          configBefore: stringify(mockDynamicPackage11),
+          configAfter: revision.configAfter,
+        },
+      ]);
+    });
+
+    it('should remove the package when it was removed by the revision', async () => {
+      mockInstallationHistory.findEntryById.mockResolvedValueOnce({
+        ...revision,
+        configAfter: undefined,
+      });
+
+      await installationDataService.rollbackPackageConfig(mockPackages[0], 7);
+
+      expect(mockFileInstallationStorage.updatePackages).toHaveBeenCalledWith(
+        new Set([mockDynamicPackage11.package]),
+        '[]',
+      );
+    });
+
+    it('should throw NotFoundError when the revision is of a different package', async () => {
+      mockInstallationHistory.findEntryById.mockResolvedValueOnce(revision);
+
+      await expect(
+        installationDataService.rollbackPackageConfig(mockPackages[1], 7),
+      ).rejects.toThrow(
+        `Revision 7 of the package ${mockDynamicPackage12.package} not found`,
+      );
+      expect(mockFileInstallationStorage.updatePackage).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConfigFormatError when the restored plugin config does not match the config schema', async () => {
+      const getSchemaSpy = jest
+        .spyOn(ConfigSchemaLoader.prototype, 'getSchema')
+        .mockResolvedValue({
+          type: 'object',
+          properties: { package11: { type: 'string' } },
+        });
+      mockInstallationHistory.findEntryById.mockResolvedValueOnce({
+        ...revision,
+        configAfter: stringify({
+          ...mockDynamicPackage11,
+          pluginConfig: { package11: 11 },
+        }),
+      });
+
+      await expect(
+        installationDataService.rollbackPackageConfig(mockPackages[0], 7),
+      ).rejects.toThrow(ConfigFormatError);
+      expect(mockFileInstallationStorage.updatePackage).not.toHaveBeenCalled();
+      expect(mockInstallationHistory.addEntries).not.toHaveBeenCalled();
+      getSchemaSpy.mockRestore();
+    });
+  });
 });
@@ -16,13 +16,24 @@
 
 import {
   ExtensionsApi,
+  ExtensionsPackage,
   ExtensionsPlugin,
+  InstallationHistoryAction,
+  InstallationHistoryResponse,
+  InstallationPlan,
 } from '@red-hat-developer-hub/backstage-plugin-extensions-common';
+import { NotFoundError } from '@backstage/errors';
+import type { JsonObject } from '@backstage/types';
+import { parse, parseDocument, stringify } from 'yaml';
 import { DEFAULT_NAMESPACE } from '@backstage/catalog-model';
+import { ScmIntegrations } from '@backstage/integration';
+import { FileInstallationStorage } from './FileInstallationStorage';
+import { InstallationStorage } from './InstallationStorage';
+import { ConfigMapInstallationStorage } from './ConfigMapInstallationStorage';
 import {
-  FileInstallationStorage,
-  InstallationStorage,
-} from './FileInstallationStorage';
+  GitInstallationStorage,
+  GitInstallationStorageMode,
+} from './GitInstallationStorage';
 import type { Config } from '@backstage/config';
 import {
   InstallationInitError,
@@ -31,10 +42,52 @@ import {
 } from '../errors/InstallationInitError';
 import { LoggerService } from '@backstage/backend-plugin-api';
 import { ConfigFormatError } from '../errors/ConfigFormatError';
+import { InstallationHistoryDao } from '../database/InstallationHistoryDao';
+import {
+  validatePackageConfigSchema,
+  validatePackageFormat,
+  validatePluginFormat,
+} from '../validation/configValidation';
+import { ConfigSchemaLoader } from '../validation/ConfigSchemaLoader';
+import { InstallationPlanResolver } from './InstallationPlanResolver';
+
+const STORAGE_CONFIG_KEYS = [
+  'saveToSingleFile',
+  'saveToConfigMap',
+  'saveToGitRepository',
+] as const;
+
+/**
+ * Whether the installation is configured to a storage which is suitable for production deployments,
+ * i.e. other than the local file.
+ */
+export const isRemoteInstallationStorageConfigured = (config: Config) =>
+  STORAGE_CONFIG_KEYS.some(
+    key =>
+      key !== 'saveToSingleFile' &&
+      config.has(`extensions.installation.${key}`),
+  );
+
+const toPackageConfigs = (packagesYaml?: string): Map<string, string> => {
+  const packages: JsonObject[] = (packagesYaml && parse(packagesYaml)) || [];
+  return new Map(packages.map(p => [p.package as string, stringify(p)]));
+};
+
+const toDynamicArtifacts = (
+  extensionsPackages: ExtensionsPackage[],
+): Set<string> =>
+  new Set(
+    extensionsPackages.flatMap(p =>
+      p.spec?.dynamicArtifact ? [p.spec.dynamicArtifact] : [],
+    ),
+  );
 
 export class InstallationDataService {
   private constructor(
     private readonly extensionsApi: ExtensionsApi,
+    private readonly installationHistory: InstallationHistoryDao,
+    private readonly planResolver: InstallationPlanResolver,
+    private readonly configSchemaLoader: ConfigSchemaLoader,
     private readonly _installationStorage?: InstallationStorage,
     private readonly initializationError?: InstallationInitError,
   ) {}
@@ -48,12 +101,51 @@ export class InstallationDataService {
     return this._installationStorage;
   }
 
-  static fromConfig(deps: {
+  private static createStorage(config: Config): InstallationStorage {
+    const configMapConfig = config.getOptionalConfig(
+      'extensions.installation.saveToConfigMap',
+    );
+    if (configMapConfig) {
+      return new ConfigMapInstallationStorage({
+        namespace: configMapConfig.getString('namespace'),
+        name: configMapConfig.getString('name'),
+        key: configMapConfig.getOptionalString('key'),
+      });
+    }
+
+    const gitConfig = config.getOptionalConfig(
+      'extensions.installation.saveToGitRepository',
+    );
+    if (gitConfig) {
+      return new GitInstallationStorage({
+        repositoryUrl: gitConfig.getString('repositoryUrl'),
+        file: gitConfig.getString('file'),
+        branch: gitConfig.getOptionalString('branch'),
+        mode: gitConfig.getOptionalString('mode') as
+          | GitInstallationStorageMode
+          | undefined,
+        integrations: ScmIntegrations.fromConfig(config),
+      });
+    }
+
+    return new FileInstallationStorage(
+      config.getString('extensions.installation.saveToSingleFile.file'),
+    );
+  }
+
+  static async fromConfig(deps: {
     config: Config;
     extensionsApi: ExtensionsApi;
+    installationHistory: InstallationHistoryDao;
     logger: LoggerService;
-  }): InstallationDataService {
-    const { config, extensionsApi, logger } = deps;
+    backstageVersion?: string;
+  }): Promise<InstallationDataService> {
+    const { config, extensionsApi, installationHistory, logger } = deps;
+    const planResolver = new InstallationPlanResolver(
+      extensionsApi,
+      deps.backstageVersion,
+    );
+    const configSchemaLoader = ConfigSchemaLoader.fromConfig(config, logger);
 
     const serviceWithInitializationError = (
       reason: InstallationInitErrorReasonKeys,
@@ -73,14 +165,24 @@ export class InstallationDataService {
       }
       return new InstallationDataService(
         extensionsApi,
+        installationHistory,
+        planResolver,
+        configSchemaLoader,
         undefined,
         new InstallationInitError(reason, message, cause),
       );
     };
 
     try {
+      const storageKeys = STORAGE_CONFIG_KEYS.filter(key =>
+        config.has(`extensions.installation.${key}`),
+      );
+
       const node_env = process.env.NODE_ENV ?? 'development';
-      if (node_env === 'production') {
+      if (
+        node_env === 'production' &&
+        !isRemoteInstallationStorageConfigured(config)
+      ) {
         return serviceWithInitializationError(
           InstallationInitErrorReason.INSTALLATION_DISABLED_IN_PRODUCTION,
           'Installation feature is disabled in production',
@@ -97,19 +199,35 @@ export class InstallationDataService {
         );
       }
 
-      const filePath = config.getOptionalString(
-        'extensions.installation.saveToSingleFile.file',
-      );
-      if (!filePath) {
+      if (storageKeys.length > 1) {
+        return serviceWithInitializationError(
+          InstallationInitErrorReason.UNKNOWN,
+          `Only one of ${storageKeys.map(key => `'extensions.installation.${key}'`).join(', ')} can be specified in the extensions configuration`,
+        );
+      }
+
+      if (
+        storageKeys.length === 0 ||
+        (storageKeys[0] === 'saveToSingleFile' &&
+          !config.getOptionalString(
+            'extensions.installation.saveToSingleFile.file',
+          ))
+      ) {
         return serviceWithInitializationError(
           InstallationInitErrorReason.FILE_CONFIG_VALUE_MISSING,
           "The 'extensions.installation.saveToSingleFile.file' config value is not being specified in the extensions configuration",
         );
       }
 
-      const storage = new FileInstallationStorage(filePath);
-      storage.initialize();
-      return new InstallationDataService(extensionsApi, storage);
+      const storage = InstallationDataService.createStorage(config);
+      await storage.initialize?.();
+      return new InstallationDataService(
+        extensionsApi,
+        installationHistory,
+        planResolver,
+        configSchemaLoader,
+        storage,
+      );
     } catch (e) {
       let reason: InstallationInitErrorReasonKeys;
       if (e instanceof InstallationInitError) {
@@ -130,14 +248,10 @@ export class InstallationDataService {
   private async getPluginDynamicArtifacts(
     plugin: ExtensionsPlugin,
   ): Promise<Set<string>> {
-    const extensionsPackages = await this.extensionsApi.getPluginPackages(
-      plugin.metadata.namespace ?? DEFAULT_NAMESPACE,
-      plugin.metadata.name,
-    );
-
-    return new Set(
-      extensionsPackages.flatMap(p =>
-        p.spec?.dynamicArtifact ? [p.spec.dynamicArtifact] : [],
+    return toDynamicArtifacts(
+      await this.extensionsApi.getPluginPackages(
+        plugin.metadata.namespace ?? DEFAULT_NAMESPACE,
+        plugin.metadata.name,
       ),
     );
   }
@@ -146,7 +260,42 @@ export class InstallationDataService {
     return this.initializationError;
   }
 
-  getPackageConfig(packageDynamicArtifact: string): string | undefined {
+  /**
+   * Applies the change and records the configurations of the changed packages before and after it.
+   */
+  private async recordChange(
+    packageNames: Set<string>,
+    action: InstallationHistoryAction,
+    actor: string | undefined,
+    change: () => Promise<string | undefined>,
+  ): Promise<void> {
+    const before = toPackageConfigs(
+      await this.installationStorage.getPackages(packageNames),
+    );
+    const after = toPackageConfigs(await change());
+    await this.installationHistory.addEntries(
+      Array.from(packageNames).map(packageName => ({
+        package: packageName,
+        action,
+        actor,
+        configBefore: before.get(packageName),
+        configAfter: after.get(packageName),
+      })),
+    );
+  }
+
+  /**
+   * Returns the config schema of the package configuration, when the package exports one.
+   */
+  async getPackageConfigSchema(
+    extensionsPackage: ExtensionsPackage,
+  ): Promise<JsonObject | undefined> {
+    return this.configSchemaLoader.getSchema(extensionsPackage);
+  }
+
+  async getPackageConfig(
+    packageDynamicArtifact: string,
+  ): Promise<string | undefined> {
     return this.installationStorage.getPackage(packageDynamicArtifact);
   }
 
@@ -155,27 +304,235 @@ export class InstallationDataService {
     return this.installationStorage.getPackages(dynamicArtifacts);
   }
 
-  updatePackageConfig(packageDynamicArtifact: string, newConfig: string): void {
-    this.installationStorage.updatePackage(packageDynamicArtifact, newConfig);
+  async updatePackageConfig(
+    packageDynamicArtifact: string,
+    newConfig: string,
+    actor?: string,
+  ): Promise<void> {
+    await this.recordChange(
+      new Set([packageDynamicArtifact]),
+      'update',
+      actor,
+      () =>
+        this.installationStorage.updatePackage(
+          packageDynamicArtifact,
+          newConfig,
+        ),
+    );
   }
 
   async updatePluginConfig(
     plugin: ExtensionsPlugin,
     newConfig: string,
+    actor?: string,
   ): Promise<void> {
     const dynamicArtifacts = await this.getPluginDynamicArtifacts(plugin);
-    this.installationStorage.updatePackages(dynamicArtifacts, newConfig);
+    await this.recordChange(dynamicArtifacts, 'update', actor, () =>
+      this.installationStorage.updatePackages(dynamicArtifacts, newConfig),
+    );
+  }
+
+  async setPackageDisabled(
+    packageDynamicArtifact: string,
+    disabled: boolean,
+    actor?: string,
+  ) {
+    await this.recordChange(
+      new Set([packageDynamicArtifact]),
+      disabled ? 'disable' : 'enable',
+      actor,
+      () =>
+        this.installationStorage.setPackageDisabled(
+          packageDynamicArtifact,
+          disabled,
+        ),
+    );
+  }
+
+  async setPluginDisabled(
+    plugin: ExtensionsPlugin,
+    disabled: boolean,
+    actor?: string,
+  ) {
+    const dynamicArtifacts = await this.getPluginDynamicArtifacts(plugin);
+    await this.recordChange(
+      dynamicArtifacts,
+      disabled ? 'disable' : 'enable',
+      actor,
+      () =>
+        this.installationStorage.setPackagesDisabled(
+          dynamicArtifacts,
+          disabled,
+        ),
+    );
+  }
+
+  private async resolvePlan(
+    changes: Map<string, boolean>,
+    plugins: ExtensionsPlugin[],
+  ): Promise<InstallationPlan> {
+    return this.planResolver.resolve({
+      changes,
+      plugins,
+      getConfiguredPackages: dynamicArtifacts =>
+        this.installationStorage.getPackages(dynamicArtifacts),
+    });
+  }
+
+  /**
+   * Validates the format of the package configuration and its 'pluginConfig' against the config schema of the package.
+   */
+  private async validatePackageConfig(
+    extensionsPackage: ExtensionsPackage,
+    newConfig: string,
+  ) {
+    const newNode = parseDocument(newConfig).contents;
+    validatePackageFormat(newNode, extensionsPackage.spec?.dynamicArtifact);
+    validatePackageConfigSchema(
+      newNode,
+      await this.configSchemaLoader.getSchema(extensionsPackage),
+    );
+    return newNode;
+  }
+
+  /**
+   * Checks the new configuration of the package before it is saved.
+   */
+  async planPackageConfig(
+    extensionsPackage: ExtensionsPackage,
+    newConfig: string,
+  ): Promise<InstallationPlan> {
+    const newNode = await this.validatePackageConfig(
+      extensionsPackage,
+      newConfig,
+    );
+    const plugins = await this.extensionsApi.getPackagePlugins(
+      extensionsPackage.metadata.namespace ?? DEFAULT_NAMESPACE,
+      extensionsPackage.metadata.name,
+    );
+    return this.resolvePlan(
+      new Map([
+        [newNode.get('package') as string, newNode.get('disabled') !== true],
+      ]),
+      plugins,
+    );
+  }
+
+  /**
+   * Checks the new configuration of the plugin packages before it is saved.
+   */
+  async planPluginConfig(
+    plugin: ExtensionsPlugin,
+    newConfig: string,
+  ): Promise<InstallationPlan> {
+    const extensionsPackages = await this.extensionsApi.getPluginPackages(
+      plugin.metadata.namespace ?? DEFAULT_NAMESPACE,
+      plugin.metadata.name,
+    );
+    const newNodes = parseDocument(newConfig);
+    validatePluginFormat(newNodes, toDynamicArtifacts(extensionsPackages));
+    const schemas = new Map(
+      await Promise.all(
+        extensionsPackages.map(
+          async p =>
+            [
+              p.spec?.dynamicArtifact,
+              await this.configSchemaLoader.getSchema(p),
+            ] as const,
+        ),
+      ),
+    );
+    for (const item of newNodes.contents.items) {
+      validatePackageConfigSchema(
+        item,
+        schemas.get(item.get('package') as string),
+      );
+    }
+    return this.resolvePlan(
+      new Map(
+        newNodes.contents.items.map(item => [
+          item.get('package') as string,
+          item.get('disabled') !== true,
+        ]),
+      ),
+      [plugin],
+    );
   }
 
-  setPackageDisabled(packageDynamicArtifact: string, disabled: boolean) {
-    this.installationStorage.setPackageDisabled(
-      packageDynamicArtifact,
-      disabled,
+  /**
+   * Checks the package before it is enabled.
+   */
+  async planPackageEnabled(
+    extensionsPackage: ExtensionsPackage,
+  ): Promise<InstallationPlan> {
+    const plugins = await this.extensionsApi.getPackagePlugins(
+      extensionsPackage.metadata.namespace ?? DEFAULT_NAMESPACE,
+      extensionsPackage.metadata.name,
+    );
+    return this.resolvePlan(
+      new Map([[extensionsPackage.spec?.dynamicArtifact ?? '', true]]),
+      plugins,
     );
   }
 
-  async setPluginDisabled(plugin: ExtensionsPlugin, disabled: boolean) {
+  /**
+   * Checks the plugin packages before they are enabled.
+   */
+  async planPluginEnabled(plugin: ExtensionsPlugin): Promise<InstallationPlan> {
     const dynamicArtifacts = await this.getPluginDynamicArtifacts(plugin);
-    this.installationStorage.setPackagesDisabled(dynamicArtifacts, disabled);
+    return this.resolvePlan(
+      new Map(Array.from(dynamicArtifacts).map(a => [a, true])),
+      [plugin],
+    );
+  }
+
+  async getInstallationHistory(options: {
+    packageName?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<InstallationHistoryResponse> {
+    return this.installationHistory.findEntries({
+      packageName: options.packageName,
+      limit: options.limit ?? 20,
+      offset: options.offset ?? 0,
+    });
+  }
+
+  /**
+   * Restores the configuration of the package recorded after the change with the given revision id.
+   * The restored configuration is validated like a new one, since the config schema of the package may have changed since then.
+   */
+  async rollbackPackageConfig(
+    extensionsPackage: ExtensionsPackage,
+    revision: number,
+    actor?: string,
+  ): Promise<void> {
+    const packageDynamicArtifact =
+      extensionsPackage.spec?.dynamicArtifact ?? '';
+    const entry = await this.installationHistory.findEntryById(revision);
+    if (!entry || entry.package !== packageDynamicArtifact) {
+      throw new NotFoundError(
+        `Revision ${revision} of the package ${packageDynamicArtifact} not found`,
+      );
+    }
+    if (entry.configAfter !== undefined) {
+      await this.validatePackageConfig(extensionsPackage, entry.configAfter);
+    }
+    await this.recordChange(
+      new Set([packageDynamicArtifact]),
+      'rollback',
+      actor,
+      () =>
+        entry.configAfter === undefined
+          ? // the package was removed by the change
+            this.installationStorage.updatePackages(
+              new Set([packageDynamicArtifact]),
+              '[]',
+            )
+          : this.installationStorage.updatePackage(
+              packageDynamicArtifact,
+              entry.configAfter,
+            ),
+    );
   }
 }
@@ -0,0 +1,227 @@
+/*
+ * Copyright The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  ExtensionsApi,
+  ExtensionsKind,
+  ExtensionsPackage,
+  ExtensionsPackageInstallStatus,
+} from '@red-hat-developer-hub/backstage-plugin-extensions-common';
+import { stringify } from 'yaml';
+import { mockPlugins } from '../../__fixtures__/mockData';
+import { InstallationPlanResolver } from './InstallationPlanResolver';
+
+const createPackage = (
+  name: string,
+  spec: ExtensionsPackage['spec'],
+): ExtensionsPackage => ({
+  apiVersion: 'extensions.backstage.io/v1alpha1',
+  kind: ExtensionsKind.Package,
+  metadata: { namespace: 'default', name },
+  spec: { dynamicArtifact: `./dynamic-plugins/dist/${name}`, ...spec },
+});
+
+describe('InstallationPlanResolver', () => {
+  const frontendPackage = createPackage('package11', {
+    packageName: '@scope/package11',
+    role: 'frontend-plugin',
+    supportedVersions: '1.45.2',
+  });
+  const backendPackage = createPackage('package12', {
+    packageName: '@scope/package12',
+    role: 'backend-plugin',
+    supportedVersions: '^1.44.0',
+  });
+
+  const mockExtensionsApi = {
+    getPluginPackages: jest.fn(),
+    getPackages: jest.fn(),
+  };
+  const getConfiguredPackages = jest.fn();
+
+  const createResolver = (backstageVersion?: string) =>
+    new InstallationPlanResolver(
+      mockExtensionsApi as unknown as ExtensionsApi,
+      backstageVersion,
+    );
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockExtensionsApi.getPluginPackages.mockResolvedValue([
+      frontendPackage,
+      backendPackage,
+    ]);
+    mockExtensionsApi.getPackages.mockImplementation(async ({ filter }) => ({
+      items: [frontendPackage, backendPackage].filter(
+        pkg => pkg.spec?.packageName === filter['spec.packageName'],
+      ),
+      totalItems: 1,
+      pageInfo: {},
+    }));
+    getConfiguredPackages.mockResolvedValue(undefined);
+  });
+
+  it('should return an empty plan when the plugin packages are installed together', async () => {
+    const plan = await createResolver('1.45.2').resolve({
+      changes: new Map([
+        [frontendPackage.spec!.dynamicArtifact!, true],
+        [backendPackage.spec!.dynamicArtifact!, true],
+      ]),
+      plugins: [mockPlugins[0]],
+      getConfiguredPackages,
+    });
+
+    expect(plan).toEqual({ warnings: [], requiredPackages: [] });
+    expect(mockExtensionsApi.getPluginPackages).toHaveBeenCalledWith(
+      'default',
+      'plugin1',
+    );
+  });
+
+  it('should flag packages incompatible with the running Backstage version', async () => {
+    const plan = await createResolver('1.46.0').resolve({
+      changes: new Map([
+        [frontendPackage.spec!.dynamicArtifact!, true],
+        [backendPackage.spec!.dynamicArtifact!, true],
+      ]),
+      plugins: [mockPlugins[0]],
+      getConfiguredPackages,
+    });
+
+    expect(plan.warnings).toEqual([
+      {
+        type: 'incompatibleVersion',
+        package: './dynamic-plugins/dist/package11',
+        message:
+          'Package ./dynamic-plugins/dist/package11 supports Backstage 1.45.2, but the running Backstage version is 1.46.0',
+      },
+    ]);
+  });
+
+  it('should not check the compatibility without the running Backstage version', async () => {
+    const plan = await createResolver().resolve({
+      changes: new Map([
+        [frontendPackage.spec!.dynamicArtifact!, true],
+        [backendPackage.spec!.dynamicArtifact!, true],
+      ]),
+      plugins: [mockPlugins[0]],
+      getConfiguredPackages,
+    });
+
+    expect(plan.warnings).toEqual([]);
+  });
+
+  it('should require the backend counterpart which is not installed', async () => {
+    getConfiguredPackages.mockResolvedValue(
+      stringify([
+        { package: backendPackage.spec!.dynamicArtifact, disabled: true },
+      ]),
+    );
+
+    const plan = await createResolver('1.45.2').resolve({
+      changes: new Map([[frontendPackage.spec!.dynamicArtifact!, true]]),
+      plugins: [mockPlugins[0]],
+      getConfiguredPackages,
+    });
+
+    expect(getConfiguredPackages).toHaveBeenCalledWith(
+      new Set([backendPackage.spec!.dynamicArtifact]),
+    );
+    expect(plan.requiredPackages).toEqual([
+      {
+        package: './dynamic-plugins/dist/package12',
+        entityRef: 'package:default/package12',
+        role: 'backend-plugin',
+        requiredBy: './dynamic-plugins/dist/package11',
+      },
+    ]);
+  });
+
+  it('should not require the counterpart installed outside of the installation storage', async () => {
+    mockExtensionsApi.getPluginPackages.mockResolvedValue([
+      frontendPackage,
+      {
+        ...backendPackage,
+        spec: {
+          ...backendPackage.spec,
+          installStatus: ExtensionsPackageInstallStatus.Installed,
+        },
+      },
+    ]);
+
+    const plan = await createResolver('1.45.2').resolve({
+      changes: new Map([[frontendPackage.spec!.dynamicArtifact!, true]]),
+      plugins: [mockPlugins[0]],
+      getConfiguredPackages,
+    });
+
+    expect(plan.requiredPackages).toEqual([]);
+  });
+
+  it('should not check disabled packages', async () => {
+    const plan = await createResolver('1.46.0').resolve({
+      changes: new Map([
+        [frontendPackage.spec!.dynamicArtifact!, false],
+        [backendPackage.spec!.dynamicArtifact!, false],
+      ]),
+      plugins: [mockPlugins[0]],
+      getConfiguredPackages,
+    });
+
+    expect(plan).toEqual({ warnings: [], requiredPackages: [] });
+  });
+
+  it('should flag an enabled duplicate of the same npm package', async () => {
+    const duplicatePackage = createPackage('package11-oci', {
+      packageName: '@scope/package11',
+      role: 'frontend-plugin',
+      dynamicArtifact: 'oci://quay.io/scope/package11:1.0.0!package11',
+    });
+    mockExtensionsApi.getPackages.mockImplementation(async ({ filter }) => ({
+      items: [frontendPackage, backendPackage, duplicatePackage].filter(
+        pkg => pkg.spec?.packageName === filter['spec.packageName'],
+      ),
+      totalItems: 2,
+      pageInfo: {},
+    }));
+    getConfiguredPackages.mockResolvedValue(
+      stringify([
+        { package: duplicatePackage.spec!.dynamicArtifact, disabled: false },
+      ]),
+    );
+
+    const plan = await createResolver('1.45.2').resolve({
+      changes: new Map([
+        [frontendPackage.spec!.dynamicArtifact!, true],
+        [backendPackage.spec!.dynamicArtifact!, true],
+      ]),
+      plugins: [mockPlugins[0]],
+      getConfiguredPackages,
+    });
+
+    expect(mockExtensionsApi.getPackages).toHaveBeenCalledWith({
+      filter: { 'spec.packageName': '@scope/package11' },
+    });
+    expect(plan.warnings).toEqual([
+      {
+        type: 'duplicatePackage',
+        package: './dynamic-plugins/dist/package11',
+        message:
+          'Package ./dynamic-plugins/dist/package11 conflicts with the enabled package oci://quay.io/scope/package11:1.0.0!package11 of the same npm package @scope/package11',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,212 @@
+/*
+ * Copyright The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  ExtensionsApi,
+  ExtensionsPackage,
+  ExtensionsPackageInstallStatus,
+  ExtensionsPlugin,
+  InstallationPlan,
+  InstallationPlanRequiredPackage,
+  InstallationPlanWarning,
+} from '@red-hat-developer-hub/backstage-plugin-extensions-common';
+import {
+  DEFAULT_NAMESPACE,
+  stringifyEntityRef,
+} from '@backstage/catalog-model';
+import type { JsonObject } from '@backstage/types';
+import { parse } from 'yaml';
+import semver from 'semver';
+
+const FRONTEND_ROLES = ['frontend-plugin', 'frontend-plugin-module'];
+const BACKEND_ROLES = ['backend-plugin', 'backend-plugin-module'];
+
+const getRole = (pkg: ExtensionsPackage) =>
+  pkg.spec?.role ?? pkg.spec?.backstage?.role;
+
+const getSupportedVersions = (pkg: ExtensionsPackage) =>
+  pkg.spec?.supportedVersions ?? pkg.spec?.backstage?.supportedVersions;
+
+export type InstallationPlanRequest = {
+  /** The enabled state of the changed packages after the change, by their dynamic artifacts */
+  changes: Map<string, boolean>;
+  /** The plugins the changed packages are part of */
+  plugins: ExtensionsPlugin[];
+  /** Resolves the YAML list of the given packages from the installation storage */
+  getConfiguredPackages: (
+    dynamicArtifacts: Set<string>,
+  ) => Promise<string | undefined>;
+};
+
+/**
+ * Checks the compatibility and the dependencies of packages before their configuration is saved.
+ */
+export class InstallationPlanResolver {
+  constructor(
+    private readonly extensionsApi: ExtensionsApi,
+    private readonly backstageVersion?: string,
+  ) {}
+
+  async resolve(request: InstallationPlanRequest): Promise<InstallationPlan> {
+    const { changes, plugins, getConfiguredPackages } = request;
+
+    const pluginPackages = await Promise.all(
+      plugins.map(plugin =>
+        this.extensionsApi.getPluginPackages(
+          plugin.metadata.namespace ?? DEFAULT_NAMESPACE,
+          plugin.metadata.name,
+        ),
+      ),
+    );
+    const changedPackages = new Map<string, ExtensionsPackage>();
+    for (const pkg of pluginPackages.flat()) {
+      const dynamicArtifact = pkg.spec?.dynamicArtifact;
+      if (dynamicArtifact && changes.get(dynamicArtifact)) {
+        changedPackages.set(dynamicArtifact, pkg);
+      }
+    }
+
+    const duplicates = await this.findDuplicates(
+      Array.from(changedPackages.values()),
+    );
+
+    const candidates = new Set(
+      [...pluginPackages.flat(), ...duplicates.flatMap(([, other]) => other)]
+        .map(pkg => pkg.spec?.dynamicArtifact)
+        .filter((a): a is string => !!a && !changes.has(a)),
+    );
+    const configured: JsonObject[] =
+      (candidates.size > 0 &&
+        parse((await getConfiguredPackages(candidates)) ?? '[]')) ||
+      [];
+    const configuredEnabled = new Map(
+      configured.map(p => [p.package as string, p.disabled !== true]),
+    );
+
+    const isEnabled = (pkg: ExtensionsPackage) => {
+      const dynamicArtifact = pkg.spec?.dynamicArtifact;
+      if (dynamicArtifact && changes.has(dynamicArtifact)) {
+        return changes.get(dynamicArtifact)!;
+      }
+      if (dynamicArtifact && configuredEnabled.has(dynamicArtifact)) {
+        return configuredEnabled.get(dynamicArtifact)!;
+      }
+      return (
+        pkg.spec?.installStatus === ExtensionsPackageInstallStatus.Installed ||
+        pkg.spec?.installStatus ===
+          ExtensionsPackageInstallStatus.UpdateAvailable
+      );
+    };
+
+    const warnings: InstallationPlanWarning[] = [];
+    for (const [dynamicArtifact, pkg] of changedPackages) {
+      const supportedVersions = getSupportedVersions(pkg);
+      if (
+        this.backstageVersion &&
+        supportedVersions &&
+        semver.validRange(supportedVersions) &&
+        !semver.satisfies(this.backstageVersion, supportedVersions, {
+          includePrerelease: true,
+        })
+      ) {
+        warnings.push({
+          type: 'incompatibleVersion',
+          package: dynamicArtifact,
+          message: `Package ${dynamicArtifact} supports Backstage ${supportedVersions}, but the running Backstage version is ${this.backstageVersion}`,
+        });
+      }
+    }
+
+    const reportedDuplicates = new Set<string>();
+    for (const [pkg, others] of duplicates) {
+      const dynamicArtifact = pkg.spec!.dynamicArtifact!;
+      for (const other of others.filter(isEnabled)) {
+        const otherArtifact = other.spec!.dynamicArtifact!;
+        const key = [dynamicArtifact, otherArtifact].sort().join('\n');
+        if (!reportedDuplicates.has(key)) {
+          reportedDuplicates.add(key);
+          warnings.push({
+            type: 'duplicatePackage',
+            package: dynamicArtifact,
+            message: `Package ${dynamicArtifact} conflicts with the enabled package ${otherArtifact} of the same npm package ${pkg.spec?.packageName}`,
+          });
+        }
+      }
+    }
+
+    const requiredPackages: InstallationPlanRequiredPackage[] = [];
+    for (const packages of pluginPackages) {
+      const enabledPackages = packages.filter(
+        pkg =>
+          pkg.spec?.dynamicArtifact &&
+          changedPackages.has(pkg.spec.dynamicArtifact),
+      );
+      for (const [roles, counterpartRole] of [
+        [FRONTEND_ROLES, 'backend-plugin'],
+        [BACKEND_ROLES, 'frontend-plugin'],
+      ] as const) {
+        const requiredBy = enabledPackages.find(pkg =>
+          roles.includes(getRole(pkg) ?? ''),
+        );
+        const counterparts = packages.filter(
+          pkg => getRole(pkg) === counterpartRole,
+        );
+        if (
+          !requiredBy ||
+          counterparts.length === 0 ||
+          counterparts.some(isEnabled)
+        ) {
+          continue;
+        }
+        for (const counterpart of counterparts) {
+          requiredPackages.push({
+            package: counterpart.spec?.dynamicArtifact ?? '',
+            entityRef: stringifyEntityRef(counterpart),
+            role: counterpartRole,
+            requiredBy: requiredBy.spec!.dynamicArtifact!,
+          });
+        }
+      }
+    }
+
+    return { warnings, requiredPackages };
+  }
+
+  /**
+   * Finds the other catalog packages of the same npm packages as the given packages.
+   */
+  private async findDuplicates(
+    packages: ExtensionsPackage[],
+  ): Promise<[ExtensionsPackage, ExtensionsPackage[]][]> {
+    return Promise.all(
+      packages
+        .filter(pkg => pkg.spec?.packageName)
+        .map(async pkg => {
+          const { items } = await this.extensionsApi.getPackages({
+            filter: { 'spec.packageName': pkg.spec!.packageName! },
+          });
+          return [
+            pkg,
+            items.filter(
+              other =>
+                other.spec?.dynamicArtifact &&
+                other.spec.dynamicArtifact !== pkg.spec?.dynamicArtifact,
+            ),
+          ] as [ExtensionsPackage, ExtensionsPackage[]];
+        }),
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/*
+ * Copyright The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Storage of the dynamic plugins configuration managed by the installation feature.
+ *
+ * The methods changing the configuration resolve to the YAML list of the changed packages as written.
+ */
+export interface InstallationStorage {
+  initialize?(): Promise<void>;
+  getPackage(packageName: string): Promise<string | undefined>;
+  updatePackage(
+    packageName: string,
+    newConfig: string,
+  ): Promise<string | undefined>;
+  getPackages(packageNames: Set<string>): Promise<string | undefined>;
+  updatePackages(
+    packageNames: Set<string>,
+    newConfig: string,
+  ): Promise<string | undefined>;
+  setPackageDisabled(
+    packageName: string,
+    disabled: boolean,
+  ): Promise<string | undefined>;
+  setPackagesDisabled(
+    packageNames: Set<string>,
+    disabled: boolean,
+  ): Promise<string | undefined>;
+}
@@ -0,0 +1,195 @@
+/*
+ * Copyright The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Document, isMap, parseDocument, YAMLMap, YAMLSeq } from 'yaml';
+import {
+  validateConfigurationFormat,
+  validatePackageFormat,
+  validatePluginFormat,
+} from '../validation/configValidation';
+import type { JsonValue } from '@backstage/types';
+import { InstallationStorage } from './InstallationStorage';
+
+/**
+ * Base class of the storages keeping the dynamic plugins configuration in a YAML document.
+ *
+ * The document is read again before every operation, so that changes made
+ * outside of the installation feature (e.g. by a GitOps workflow) are not overwritten.
+ */
+export abstract class YamlInstallationStorage implements InstallationStorage {
+  private config: Document;
+
+  constructor() {
+    this.config = new Document();
+  }
+
+  /**
+   * Reads the raw YAML content of the configuration.
+   */
+  protected abstract read(): Promise<string>;
+
+  /**
+   * Persists the raw YAML content of the configuration.
+   *
+   * @param content - the updated configuration
+   * @param summary - short description of the change, e.g. for a commit message
+   */
+  protected abstract write(content: string, summary: string): Promise<void>;
+
+  private get packages(): YAMLSeq<YAMLMap<string, JsonValue>> {
+    return this.config.get('plugins') as YAMLSeq<YAMLMap<string, JsonValue>>;
+  }
+
+  private toStringYaml(mapNodes: YAMLMap<string, JsonValue>[]): string {
+    const tempDoc = new Document(mapNodes);
+    return tempDoc.toString({ lineWidth: 0 });
+  }
+
+  private getPackageYamlMap(
+    packageName: string,
+  ): YAMLMap<string, JsonValue> | undefined {
+    return this.packages.items.find(
+      p => isMap(p) && p.get('package') === packageName,
+    );
+  }
+
+  private async load(): Promise<void> {
+    const rawContent = await this.read();
+    const parsedContent = parseDocument(rawContent);
+    validateConfigurationFormat(parsedContent);
+    this.config = parsedContent;
+  }
+
+  private async save(summary: string): Promise<void> {
+    await this.write(this.getConfigYaml(), summary);
+  }
+
+  async initialize(): Promise<void> {
+    await this.load();
+  }
+
+  getConfigYaml(): string {
+    return this.config.toString({ lineWidth: 0 });
+  }
+
+  async getPackage(packageName: string): Promise<string | undefined> {
+    await this.load();
+    const res = this.getPackageYamlMap(packageName);
+    return res ? this.toStringYaml([res]) : res;
+  }
+
+  private getPackagesYaml(packageNames: Set<string>): string | undefined {
+    const res = [];
+    for (const packageName of packageNames) {
+      const packageMap = this.getPackageYamlMap(packageName);
+      if (packageMap) {
+        res.push(packageMap);
+      }
+    }
+    return res.length === 0 ? undefined : this.toStringYaml(res);
+  }
+
+  async getPackages(packageNames: Set<string>): Promise<string | undefined> {
+    await this.load();
+    return this.getPackagesYaml(packageNames);
+  }
+
+  async updatePackage(
+    packageName: string,
+    newConfig: string,
+  ): Promise<string | undefined> {
+    const newNode = parseDocument(newConfig).contents;
+    validatePackageFormat(newNode, packageName);
+
+    await this.load();
+    const existingPackage = this.packages.items.find(
+      item => item.get('package') === packageName,
+    );
+    if (existingPackage) {
+      existingPackage.items = newNode.items;
+    } else {
+      this.packages.items.push(newNode);
+    }
+    await this.save(`Update configuration of ${packageName}`);
+    return this.getPackagesYaml(new Set([packageName]));
+  }
+
+  async updatePackages(
+    packageNames: Set<string>,
+    newConfig: string,
+  ): Promise<string | undefined> {
+    const newNodes = parseDocument(newConfig);
+    validatePluginFormat(newNodes, packageNames);
+
+    await this.load();
+    const updatedPackages = new YAMLSeq<YAMLMap<string, JsonValue>>();
+    for (const item of this.packages.items) {
+      const name = item.get('package') as string;
+      if (!packageNames.has(name)) {
+        updatedPackages.items.push(item); // keep unchanged package of different plugin
+      }
+    }
+    updatedPackages.items.push(...newNodes.contents.items);
+
+    this.config.set('plugins', updatedPackages);
+    await this.save(
+      `Update configuration of ${Array.from(packageNames).join(', ')}`,
+    );
+    return this.getPackagesYaml(packageNames);
+  }
+
+  async setPackageDisabled(
+    packageName: string,
+    disabled: boolean,
+  ): Promise<string | undefined> {
+    await this.load();
+    let pkg = this.getPackageYamlMap(packageName);
+    if (!pkg) {
+      pkg = new YAMLMap<string, JsonValue>();
+      pkg.set('package', packageName);
+      this.packages.add(pkg);
+    }
+    pkg.set('disabled', disabled);
+    await this.save(`${disabled ? 'Disable' : 'Enable'} ${packageName}`);
+    return this.getPackagesYaml(new Set([packageName]));
+  }
+
+  async setPackagesDisabled(
+    packageNames: Set<string>,
+    disabled: boolean,
+  ): Promise<string | undefined> {
+    await this.load();
+    const packages = this.packages;
+    const packageMap = packages.items.reduce(
+      (map, item) => map.set(item.get('package') as string, item),
+      new Map<string, YAMLMap<string, JsonValue>>(),
+    );
+    for (const packageName of packageNames) {
+      let item = packageMap.get(packageName);
+      if (!item) {
+        item = new YAMLMap<string, JsonValue>();
+        item.set('package', packageName);
+        packages.add(item);
+      }
+      item.set('disabled', disabled);
+    }
+
+    await this.save(
+      `${disabled ? 'Disable' : 'Enable'} ${Array.from(packageNames).join(', ')}`,
+    );
+    return this.getPackagesYaml(packageNames);
+  }
+}
@@ -28,6 +28,9 @@ import {
 
 import { createRouter } from './router';
 import { InstallationDataService } from './installation/InstallationDataService';
+import { migrate } from './database/migration';
+import { InstallationHistoryDao } from './database/InstallationHistoryDao';
+import { readBackstageVersion } from './utils/readBackstageVersion';
 
 /**
  * Extensions backend plugin
@@ -41,6 +44,7 @@ export const extensionsPlugin = createBackendPlugin({
       deps: {
         auth: coreServices.auth,
         config: coreServices.rootConfig,
+        database: coreServices.database,
         httpAuth: coreServices.httpAuth,
         httpRouter: coreServices.httpRouter,
         discovery: coreServices.discovery,
@@ -52,6 +56,7 @@ export const extensionsPlugin = createBackendPlugin({
         pluginProvider,
         auth,
         config,
+        database,
         httpAuth,
         httpRouter,
         discovery,
@@ -65,11 +70,20 @@ export const extensionsPlugin = createBackendPlugin({
           catalogApi,
         });
 
+        const knex = await migrate(database);
+        const backstageVersion = await readBackstageVersion();
+        if (!backstageVersion) {
+          logger.warn(
+            'Unable to read the Backstage version from backstage.json, the compatibility of packages will not be checked',
+          );
+        }
         const installationDataService: InstallationDataService =
-          InstallationDataService.fromConfig({
+          await InstallationDataService.fromConfig({
             config,
             extensionsApi,
+            installationHistory: new InstallationHistoryDao(knex),
             logger,
+            backstageVersion,
           });
 
         httpRouter.use(
@@ -81,6 +95,7 @@ export const extensionsPlugin = createBackendPlugin({
             pluginProvider,
             logger,
             config,
+            backstageVersion,
           }),
         );
       },
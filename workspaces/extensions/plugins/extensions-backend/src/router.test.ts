@@ -57,6 +57,10 @@ import {
   InstallationInitErrorReason,
 } from './errors/InstallationInitError';
 
+jest.mock('./utils/readBackstageVersion', () => ({
+  readBackstageVersion: async () => '1.45.2',
+}));
+
 type MockExtensionsEntity =
   | Partial<ExtensionsPlugin>
   | Partial<ExtensionsCollection>
@@ -142,6 +146,12 @@ const configurationEndpointsTestCases = [
       req.get('/api/extensions/package/default/package11/configuration'),
     body: undefined,
   },
+  {
+    description: 'GET /package/:namespace/:name/configuration/schema',
+    reqBuilder: (req: request.SuperTest<request.Test>) =>
+      req.get('/api/extensions/package/default/package11/configuration/schema'),
+    body: undefined,
+  },
   {
     description: 'POST /package/:namespace/:name/configuration',
     reqBuilder: (req: request.SuperTest<request.Test>) =>
@@ -156,6 +166,20 @@ const configurationEndpointsTestCases = [
       ),
     body: { disabled: true },
   },
+  {
+    description: 'POST /package/:namespace/:name/configuration/plan',
+    reqBuilder: (req: request.SuperTest<request.Test>) =>
+      req.post('/api/extensions/package/default/package11/configuration/plan'),
+    body: { configYaml: stringify(mockDynamicPackage11) },
+  },
+  {
+    description: 'POST /package/:namespace/:name/configuration/rollback',
+    reqBuilder: (req: request.SuperTest<request.Test>) =>
+      req.post(
+        '/api/extensions/package/default/package11/configuration/rollback',
+      ),
+    body: { revision: 1 },
+  },
   {
     description: 'GET /plugin/:namespace/:name/configuration',
     reqBuilder: (req: request.SuperTest<request.Test>) =>
@@ -168,6 +192,12 @@ const configurationEndpointsTestCases = [
       req.post('/api/extensions/package/default/plugin1/configuration'),
     body: { configYaml: stringify(mockDynamicPlugin1) },
   },
+  {
+    description: 'POST /plugin/:namespace/:name/configuration/plan',
+    reqBuilder: (req: request.SuperTest<request.Test>) =>
+      req.post('/api/extensions/plugin/default/plugin1/configuration/plan'),
+    body: { configYaml: stringify(mockDynamicPlugin1) },
+  },
   {
     description: 'PATCH /plugin/:namespace/:name/configuration/disable',
     reqBuilder: (req: request.SuperTest<request.Test>) =>
@@ -345,10 +375,16 @@ describe('createRouter', () => {
     return { backendServer };
   };
 
+  const emptyPlan = { warnings: [], requiredPackages: [] };
+
   beforeEach(() => {
     jest
       .spyOn(InstallationDataService, 'fromConfig')
-      .mockReturnValue(mockInstallationDataService);
+      .mockResolvedValue(mockInstallationDataService);
+    mockInstallationDataService.planPackageConfig.mockResolvedValue(emptyPlan);
+    mockInstallationDataService.planPluginConfig.mockResolvedValue(emptyPlan);
+    mockInstallationDataService.planPackageEnabled.mockResolvedValue(emptyPlan);
+    mockInstallationDataService.planPluginEnabled.mockResolvedValue(emptyPlan);
   });
 
   describe('GET /collections', () => {
@@ -624,14 +660,78 @@ describe('createRouter', () => {
       const response = await request(backendServer)
         .post('/api/extensions/plugin/default/plugin1/configuration')
         .send({ configYaml: stringify(mockDynamicPlugin1) });
+      expect(mockInstallationDataService.planPluginConfig).toHaveBeenCalledWith(
+        mockPlugins[0],
+        stringify(mockDynamicPlugin1),
+      );
       expect(
         mockInstallationDataService.updatePluginConfig,
-      ).toHaveBeenCalledWith(mockPlugins[0], stringify(mockDynamicPlugin1));
+      ).toHaveBeenCalledWith(
+        mockPlugins[0],
+        stringify(mockDynamicPlugin1),
+        'user:default/mock',
+      );
       expect(response.status).toEqual(200);
       expect(response.body).toEqual({ status: 'OK' });
     });
   });
 
+  describe('POST /plugin/:namespace/:name/configuration/plan', () => {
+    it('should fail when config missing with InputError 400', async () => {
+      const { backendServer } = await setupTestWithMockCatalog(PLUGIN_SETUP);
+
+      const response = await request(backendServer).post(
+        '/api/extensions/plugin/default/plugin1/configuration/plan',
+      );
+      expectInputError(response, "'configYaml' object must be present");
+    });
+
+    it('should fail when bad config format with InputError 400', async () => {
+      const { backendServer } = await setupTestWithMockCatalog(PLUGIN_SETUP);
+
+      const errorMessage =
+        'Invalid installation configuration, plugin packages must be a list';
+      mockInstallationDataService.planPluginConfig.mockRejectedValueOnce(
+        new ConfigFormatError(errorMessage),
+      );
+
+      const response = await request(backendServer)
+        .post('/api/extensions/plugin/default/plugin1/configuration/plan')
+        .send({ configYaml: 'invalid-plugin' });
+      expectInputError(response, errorMessage);
+    });
+
+    it('should return the installation plan without saving the configuration', async () => {
+      const { backendServer } = await setupTestWithMockCatalog(PLUGIN_SETUP);
+      const plan = {
+        warnings: [
+          {
+            type: 'incompatibleVersion',
+            package: mockDynamicPackage11.package,
+            message: 'Package is not compatible',
+          },
+        ],
+        requiredPackages: [],
+      };
+      mockInstallationDataService.planPluginConfig.mockResolvedValueOnce(
+        plan as any,
+      );
+
+      const response = await request(backendServer)
+        .post('/api/extensions/plugin/default/plugin1/configuration/plan')
+        .send({ configYaml: stringify(mockDynamicPlugin1) });
+      expect(mockInstallationDataService.planPluginConfig).toHaveBeenCalledWith(
+        mockPlugins[0],
+        stringify(mockDynamicPlugin1),
+      );
+      expect(
+        mockInstallationDataService.updatePluginConfig,
+      ).not.toHaveBeenCalled();
+      expect(response.status).toEqual(200);
+      expect(response.body).toEqual(plan);
+    });
+  });
+
   describe('PATCH /plugin/:namespace/:name/configuration/disable', () => {
     it('should fail when disabled missing with InputError 400', async () => {
       const { backendServer } = await setupTestWithMockCatalog(PLUGIN_SETUP);
@@ -675,7 +775,7 @@ describe('createRouter', () => {
         .send({ disabled });
       expect(
         mockInstallationDataService.setPluginDisabled,
-      ).toHaveBeenCalledWith(mockPlugins[0], disabled);
+      ).toHaveBeenCalledWith(mockPlugins[0], disabled, 'user:default/mock');
       expect(response.status).toEqual(200);
       expect(response.body).toEqual({ status: 'OK' });
     });
@@ -704,7 +804,7 @@ describe('createRouter', () => {
       });
       const packageToGet = stringify(mockDynamicPackage11);
 
-      mockInstallationDataService.getPackageConfig.mockReturnValue(
+      mockInstallationDataService.getPackageConfig.mockResolvedValue(
         packageToGet,
       );
 
@@ -716,6 +816,38 @@ describe('createRouter', () => {
     });
   });
 
+  describe('GET /package/:namespace/:name/configuration/schema', () => {
+    it('should get the package config schema', async () => {
+      const { backendServer } = await setupTestWithMockCatalog(PACKAGE_SETUP);
+      const schema = {
+        type: 'object',
+        properties: { package11: { type: 'object' } },
+      };
+      mockInstallationDataService.getPackageConfigSchema.mockResolvedValue(
+        schema,
+      );
+
+      const response = await request(backendServer).get(
+        '/api/extensions/package/default/package11/configuration/schema',
+      );
+      expect(response.status).toEqual(200);
+      expect(response.body).toEqual({ schema });
+    });
+
+    it('should return no schema when the package does not export one', async () => {
+      const { backendServer } = await setupTestWithMockCatalog(PACKAGE_SETUP);
+      mockInstallationDataService.getPackageConfigSchema.mockResolvedValue(
+        undefined,
+      );
+
+      const response = await request(backendServer).get(
+        '/api/extensions/package/default/package11/configuration/schema',
+      );
+      expect(response.status).toEqual(200);
+      expect(response.body).toEqual({});
+    });
+  });
+
   describe('POST /package/:namespace/:name/configuration', () => {
     it('should fail when config missing with InputError 400', async () => {
       const { backendServer } = await setupTestWithMockCatalog(PACKAGE_SETUP);
@@ -767,12 +899,43 @@ describe('createRouter', () => {
       ).toHaveBeenCalledWith(
         mockDynamicPackage11.package,
         stringify(mockDynamicPackage11),
+        'user:default/mock',
       );
       expect(response.status).toEqual(200);
       expect(response.body).toEqual({ status: 'OK' });
     });
   });
 
+  describe('POST /package/:namespace/:name/configuration/plan', () => {
+    it('should return the installation plan without saving the configuration', async () => {
+      const { backendServer } = await setupTestWithMockCatalog(PACKAGE_SETUP);
+      const plan = {
+        warnings: [],
+        requiredPackages: [
+          {
+            package: mockDynamicPackage11.package,
+            entityRef: 'package:default/package11',
+            role: 'backend-plugin',
+            requiredBy: './dynamic-plugins/dist/package12',
+          },
+        ],
+      };
+      mockInstallationDataService.planPackageConfig.mockResolvedValueOnce(plan);
+
+      const response = await request(backendServer)
+        .post('/api/extensions/package/default/package11/configuration/plan')
+        .send({ configYaml: stringify(mockDynamicPackage11) });
+      expect(
+        mockInstallationDataService.planPackageConfig,
+      ).toHaveBeenCalledWith(mockPackages[0], stringify(mockDynamicPackage11));
+      expect(
+        mockInstallationDataService.updatePackageConfig,
+      ).not.toHaveBeenCalled();
+      expect(response.status).toEqual(200);
+      expect(response.body).toEqual(plan);
+    });
+  });
+
   describe('PATCH /package/:namespace/:name/configuration/disable', () => {
     it('should fail when disabled missing with InputError 400', async () => {
       const { backendServer } = await setupTestWithMockCatalog(PACKAGE_SETUP);
@@ -823,10 +986,139 @@ describe('createRouter', () => {
         .send({ disabled });
       expect(
         mockInstallationDataService.setPackageDisabled,
-      ).toHaveBeenCalledWith(mockDynamicPackage11.package, disabled);
+      ).toHaveBeenCalledWith(
+        mockDynamicPackage11.package,
+        disabled,
+        'user:default/mock',
+      );
+      expect(response.status).toEqual(200);
+      expect(response.body).toEqual({ status: 'OK' });
+    });
+  });
+
+  describe('POST /package/:namespace/:name/configuration/rollback', () => {
+    it('should fail when bad revision format with InputError 400', async () => {
+      const { backendServer } = await setupTestWithMockCatalog(PACKAGE_SETUP);
+
+      const response = await request(backendServer)
+        .post(
+          '/api/extensions/package/default/package11/configuration/rollback',
+        )
+        .send({ revision: 'latest' });
+      expectInputError(response, "'revision' must be present integer");
+    });
+
+    it('should roll back the package configuration', async () => {
+      const { backendServer } = await setupTestWithMockCatalog(PACKAGE_SETUP);
+
+      const response = await request(backendServer)
+        .post(
+          '/api/extensions/package/default/package11/configuration/rollback',
+        )
+        .send({ revision: 7 });
+      expect(
+        mockInstallationDataService.rollbackPackageConfig,
+      ).toHaveBeenCalledWith(mockPackages[0], 7, 'user:default/mock');
       expect(response.status).toEqual(200);
       expect(response.body).toEqual({ status: 'OK' });
     });
+
+    it('should fail with InputError 400 when the restored configuration is invalid', async () => {
+      const { backendServer } = await setupTestWithMockCatalog(PACKAGE_SETUP);
+      mockInstallationDataService.rollbackPackageConfig.mockRejectedValueOnce(
+        new ConfigFormatError(
+          "Invalid installation configuration, 'pluginConfig' field of package 'package11' does not match the config schema of the package",
+        ),
+      );
+
+      const response = await request(backendServer)
+        .post(
+          '/api/extensions/package/default/package11/configuration/rollback',
+        )
+        .send({ revision: 7 });
+      expectInputError(
+        response,
+        "Invalid installation configuration, 'pluginConfig' field of package 'package11' does not match the config schema of the package",
+      );
+    });
+  });
+
+  describe('GET /installation/history', () => {
+    it('should return the installation history of the package', async () => {
+      const { backendServer } = await setupTestWithMockCatalog({
+        mockData: {},
+        config: FILE_INSTALL_CONFIG,
+      });
+      const history = {
+        items: [
+          {
+            id: 1,
+            package: mockDynamicPackage11.package,
+            action: 'disable',
+            actor: 'user:default/mock',
+            createdAt: '2026-10-19T12:00:00.000Z',
+            configBefore: stringify(mockDynamicPackage11),
+            configAfter: stringify({ ...mockDynamicPackage11, disabled: true }),
+          },
+        ],
+        totalItems: 1,
+      };
+      mockInstallationDataService.getInstallationHistory.mockResolvedValueOnce(
+        history as any,
+      );
+
+      const response = await request(backendServer)
+        .get('/api/extensions/installation/history')
+        .query({ package: mockDynamicPackage11.package, limit: 5 });
+
+      expect(response.status).toEqual(200);
+      expect(response.body).toEqual(history);
+      expect(
+        mockInstallationDataService.getInstallationHistory,
+      ).toHaveBeenCalledWith({
+        packageName: mockDynamicPackage11.package,
+        limit: 5,
+        offset: undefined,
+      });
+    });
+
+    it('should fail when bad limit format with InputError 400', async () => {
+      const { backendServer } = await setupTestWithMockCatalog({
+        mockData: {},
+        config: FILE_INSTALL_CONFIG,
+      });
+
+      const response = await request(backendServer)
+        .get('/api/extensions/installation/history')
+        .query({ limit: -1 });
+      expectInputError(response, "'limit' must be a non-negative integer");
+    });
+
+    it('should return 403 when conditionally allowed by permission framework', async () => {
+      const { backendServer } = await setupTestWithMockCatalog({
+        mockData: {},
+        config: FILE_INSTALL_CONFIG,
+        policyDecision: {
+          result: AuthorizeResult.CONDITIONAL,
+          pluginId: 'extensions',
+          resourceType: 'extensions-plugin',
+          conditions: {
+            rule: 'HAS_NAME',
+            resourceType: 'extensions-plugin',
+            params: { pluginNames: ['plugin1'] },
+          },
+        },
+      });
+
+      const response = await request(backendServer).get(
+        '/api/extensions/installation/history',
+      );
+      expect(response.status).toEqual(403);
+      expect(response.body.error).toEqual({
+        message: 'Not allowed to read the installation history',
+        name: 'NotAllowedError',
+      });
+    });
   });
 
   describe('Denial when missing permissions', () => {
@@ -897,7 +1189,7 @@ describe('createRouter', () => {
     const originalFromConfig = InstallationDataService.fromConfig;
 
     beforeEach(() => {
-      InstallationDataService.fromConfig = jest.fn().mockReturnValue({
+      InstallationDataService.fromConfig = jest.fn().mockResolvedValue({
         getInitializationError: () =>
           new InstallationInitError(
             InstallationInitErrorReason.INSTALLATION_DISABLED,
@@ -934,6 +1226,47 @@ describe('createRouter', () => {
     );
   });
 
+  describe('GET /environment', () => {
+    it('should not allow installation in production with the file storage', async () => {
+      const { backendServer } = await setupTestWithMockCatalog({
+        mockData: {},
+        config: FILE_INSTALL_CONFIG,
+      });
+
+      const response = await request(backendServer).get(
+        '/api/extensions/environment',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        nodeEnv: 'test',
+        installationAllowedInProduction: false,
+        backstageVersion: '1.45.2',
+      });
+    });
+
+    it('should allow installation in production with the ConfigMap storage', async () => {
+      const { backendServer } = await setupTestWithMockCatalog({
+        mockData: {},
+        config: {
+          extensions: {
+            installation: {
+              enabled: true,
+              saveToConfigMap: { namespace: 'rhdh', name: 'dynamic-plugins' },
+            },
+          },
+        },
+      });
+
+      const response = await request(backendServer).get(
+        '/api/extensions/environment',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.installationAllowedInProduction).toBe(true);
+    });
+  });
+
   describe('GET /loaded-plugins', () => {
     it('should return the list of loaded dynamic plugins', async () => {
       const { backendServer } = await setupTestWithMockCatalog({
@@ -38,6 +38,7 @@ import {
   extensionsPluginReadPermission,
   ExtensionsApi,
   ExtensionsPlugin,
+  InstallationPlan,
   RESOURCE_TYPE_EXTENSIONS_PLUGIN,
   extensionsPermissions,
 } from '@red-hat-developer-hub/backstage-plugin-extensions-common';
@@ -46,7 +47,10 @@ import { createSearchParams } from './utils/createSearchParams';
 import { removeVerboseSpecContent } from './utils/removeVerboseSpecContent';
 import { rules as extensionRules } from './permissions/rules';
 import { matches } from './utils/permissionUtils';
-import { InstallationDataService } from './installation/InstallationDataService';
+import {
+  InstallationDataService,
+  isRemoteInstallationStorageConfigured,
+} from './installation/InstallationDataService';
 import { ConfigFormatError } from './errors/ConfigFormatError';
 
 import { MiddlewareFactory } from '@backstage/backend-defaults/rootHttpRouter';
@@ -63,6 +67,7 @@ export type ExtensionsRouterOptions = {
   pluginProvider: DynamicPluginProvider;
   logger: LoggerService;
   config: Config;
+  backstageVersion?: string;
 };
 
 export async function createRouter(
@@ -76,6 +81,7 @@ export async function createRouter(
     pluginProvider,
     logger,
     config,
+    backstageVersion,
   } = options;
 
   const requireInitializedInstallationDataService = (
@@ -127,6 +133,22 @@ export async function createRouter(
     return decision;
   };
 
+  const getActor = async (request: Request): Promise<string | undefined> => {
+    const { principal } = await httpAuth.credentials(request);
+    return (principal as { userEntityRef?: string }).userEntityRef;
+  };
+
+  const logInstallationPlan = (plan: InstallationPlan) => {
+    for (const warning of plan.warnings) {
+      logger.warn(warning.message);
+    }
+    for (const requiredPackage of plan.requiredPackages) {
+      logger.warn(
+        `Package ${requiredPackage.requiredBy} requires the package ${requiredPackage.package}, which is not installed`,
+      );
+    }
+  };
+
   const getAuthorizedPlugin = async (
     request: Request,
     permission: ResourcePermission<'extensions-plugin'> | BasicPermission,
@@ -254,13 +276,27 @@ export async function createRouter(
           `Package catalog entity ${extensionsPackage.metadata.name} is missing 'spec.dynamicArtifact'`,
         );
       }
-      const result = installationDataService.getPackageConfig(
+      const result = await installationDataService.getPackageConfig(
         extensionsPackage.spec?.dynamicArtifact,
       );
       res.status(200).json({ configYaml: result });
     },
   );
 
+  router.get(
+    '/package/:namespace/:name/configuration/schema',
+    requireInitializedInstallationDataService,
+    async (req, res) => {
+      const extensionsPackage = await getAuthorizedPackage(
+        req,
+        extensionsPluginReadPermission,
+      );
+      const schema =
+        await installationDataService.getPackageConfigSchema(extensionsPackage);
+      res.status(200).json({ schema });
+    },
+  );
+
   router.post(
     '/package/:namespace/:name/configuration',
     requireInitializedInstallationDataService,
@@ -280,9 +316,16 @@ export async function createRouter(
         throw new InputError("'configYaml' object must be present");
       }
       try {
-        installationDataService.updatePackageConfig(
+        logInstallationPlan(
+          await installationDataService.planPackageConfig(
+            extensionsPackage,
+            newConfig,
+          ),
+        );
+        await installationDataService.updatePackageConfig(
           extensionsPackage.spec.dynamicArtifact,
           newConfig,
+          await getActor(req),
         );
       } catch (e) {
         if (e instanceof ConfigFormatError) {
@@ -294,9 +337,48 @@ export async function createRouter(
     },
   );
 
+  router.post(
+    '/package/:namespace/:name/configuration/plan',
+    requireInitializedInstallationDataService,
+    async (req, res) => {
+      const extensionsPackage = await getAuthorizedPackage(
+        req,
+        extensionsPluginWritePermission,
+      );
+      if (!extensionsPackage.spec?.dynamicArtifact) {
+        throw new Error(
+          `Package ${extensionsPackage.metadata.name} is missing 'spec.dynamicArtifact'`,
+        );
+      }
+
+      const newConfig = req.body.configYaml;
+      if (!newConfig) {
+        throw new InputError("'configYaml' object must be present");
+      }
+      try {
+        res
+          .status(200)
+          .json(
+            await installationDataService.planPackageConfig(
+              extensionsPackage,
+              newConfig,
+            ),
+          );
+      } catch (e) {
+        if (e instanceof ConfigFormatError) {
+          throw new InputError(e.message);
+        }
+        throw e;
+      }
+    },
+  );
+
   router.get('/environment', async (_req, res) => {
     res.status(200).json({
       nodeEnv: process.env.NODE_ENV || 'development',
+      installationAllowedInProduction:
+        isRemoteInstallationStorageConfigured(config),
+      backstageVersion,
     });
   });
 
@@ -319,14 +401,91 @@ export async function createRouter(
       if (typeof disabled !== 'boolean') {
         throw new InputError("'disabled' must be present boolean");
       }
-      installationDataService.setPackageDisabled(
+      if (!disabled) {
+        logInstallationPlan(
+          await installationDataService.planPackageEnabled(extensionsPackage),
+        );
+      }
+      await installationDataService.setPackageDisabled(
         extensionsPackage.spec.dynamicArtifact,
         disabled,
+        await getActor(req),
+      );
+      res.status(200).json({ status: 'OK' });
+    },
+  );
+
+  router.post(
+    '/package/:namespace/:name/configuration/rollback',
+    requireInitializedInstallationDataService,
+    async (req, res) => {
+      const extensionsPackage = await getAuthorizedPackage(
+        req,
+        extensionsPluginWritePermission,
       );
+
+      if (!extensionsPackage.spec?.dynamicArtifact) {
+        throw new Error(
+          `Package catalog entity ${extensionsPackage.metadata.name} is missing 'spec.dynamicArtifact'`,
+        );
+      }
+
+      const revision = req.body.revision;
+      if (!Number.isInteger(revision)) {
+        throw new InputError("'revision' must be present integer");
+      }
+      try {
+        await installationDataService.rollbackPackageConfig(
+          extensionsPackage,
+          revision,
+          await getActor(req),
+        );
+      } catch (e) {
+        if (e instanceof ConfigFormatError) {
+          throw new InputError(e.message);
+        }
+        throw e;
+      }
       res.status(200).json({ status: 'OK' });
     },
   );
 
+  router.get('/installation/history', async (req, res) => {
+    // the history is not scoped to plugins, so it requires an unconditional read permission
+    const decision = await authorizeConditional(
+      req,
+      extensionsPluginReadPermission,
+    );
+    if (decision.result !== AuthorizeResult.ALLOW) {
+      throw new NotAllowedError(
+        `Not allowed to ${extensionsPluginReadPermission.attributes.action} the installation history`,
+      );
+    }
+
+    const parseNumber = (name: string) => {
+      const value = req.query[name];
+      if (value === undefined) {
+        return undefined;
+      }
+      const parsed = Number(value);
+      if (!Number.isInteger(parsed) || parsed < 0) {
+        throw new InputError(`'${name}' must be a non-negative integer`);
+      }
+      return parsed;
+    };
+    const packageName = req.query.package;
+    if (packageName !== undefined && typeof packageName !== 'string') {
+      throw new InputError("'package' must be a string");
+    }
+
+    const history = await installationDataService.getInstallationHistory({
+      packageName,
+      limit: parseNumber('limit'),
+      offset: parseNumber('offset'),
+    });
+    res.status(200).json(history);
+  });
+
   router.get('/plugins', async (req, res) => {
     const request = decodeGetEntitiesRequest(createSearchParams(req));
     const plugins = await extensionsApi.getPlugins(request);
@@ -432,7 +591,14 @@ export async function createRouter(
         throw new InputError("'configYaml' object must be present");
       }
       try {
-        await installationDataService.updatePluginConfig(plugin, newConfig);
+        logInstallationPlan(
+          await installationDataService.planPluginConfig(plugin, newConfig),
+        );
+        await installationDataService.updatePluginConfig(
+          plugin,
+          newConfig,
+          await getActor(req),
+        );
       } catch (e) {
         if (e instanceof ConfigFormatError) {
           throw new InputError(e.message);
@@ -443,6 +609,34 @@ export async function createRouter(
     },
   );
 
+  router.post(
+    '/plugin/:namespace/:name/configuration/plan',
+    requireInitializedInstallationDataService,
+    async (req, res) => {
+      const plugin = await getAuthorizedPlugin(
+        req,
+        extensionsPluginWritePermission,
+      );
+
+      const newConfig = req.body.configYaml;
+      if (!newConfig) {
+        throw new InputError("'configYaml' object must be present");
+      }
+      try {
+        res
+          .status(200)
+          .json(
+            await installationDataService.planPluginConfig(plugin, newConfig),
+          );
+      } catch (e) {
+        if (e instanceof ConfigFormatError) {
+          throw new InputError(e.message);
+        }
+        throw e;
+      }
+    },
+  );
+
   router.patch(
     '/plugin/:namespace/:name/configuration/disable',
     requireInitializedInstallationDataService,
@@ -455,7 +649,16 @@ export async function createRouter(
       if (typeof disabled !== 'boolean') {
         throw new InputError("'disabled' must be present boolean");
       }
-      await installationDataService.setPluginDisabled(plugin, disabled);
+      if (!disabled) {
+        logInstallationPlan(
+          await installationDataService.planPluginEnabled(plugin),
+        );
+      }
+      await installationDataService.setPluginDisabled(
+        plugin,
+        disabled,
+        await getActor(req),
+      );
       res.status(200).json({ status: 'OK' });
     },
   );
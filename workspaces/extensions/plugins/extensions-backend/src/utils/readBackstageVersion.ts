@@ -0,0 +1,37 @@
+/*
+ * Copyright The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import { resolvePackagePath } from '@backstage/backend-plugin-api';
+import { findPaths } from '@backstage/cli-common';
+
+/**
+ * Reads the Backstage version of the running app from the `backstage.json` file in its root directory.
+ */
+export const readBackstageVersion = async (
+  file: string = findPaths(
+    resolvePackagePath(
+      '@red-hat-developer-hub/backstage-plugin-extensions-backend',
+    ),
+  ).resolveTargetRoot('backstage.json'),
+): Promise<string | undefined> => {
+  try {
+    const { version } = JSON.parse(await fs.promises.readFile(file, 'utf-8'));
+    return typeof version === 'string' ? version : undefined;
+  } catch {
+    return undefined;
+  }
+};
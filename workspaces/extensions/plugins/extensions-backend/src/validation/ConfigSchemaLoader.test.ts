@@ -0,0 +1,130 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  createMockDirectory,
+  mockServices,
+} from '@backstage/backend-test-utils';
+import { ConfigSchemaLoader } from './ConfigSchemaLoader';
+import { mockPackages } from '../../__fixtures__/mockData';
+
+describe('ConfigSchemaLoader', () => {
+  const mockDir = createMockDirectory();
+  const mockLogger = mockServices.logger.mock();
+
+  const package11Schema = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    type: 'object',
+    properties: {
+      package11: {
+        type: 'object',
+        properties: {
+          baseUrl: { type: 'string', visibility: 'frontend' },
+          required: { type: 'boolean' },
+        },
+        required: ['baseUrl'],
+      },
+    },
+    required: ['package11'],
+  };
+
+  const package12Schema = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    type: 'object',
+    properties: {
+      package12: { type: 'object', properties: { title: { type: 'string' } } },
+    },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDir.setContent({
+      'package11-backend-dynamic': {
+        'package.json': JSON.stringify({
+          name: '@example/package11-backend-dynamic',
+        }),
+        dist: { 'configSchema.json': JSON.stringify(package11Schema) },
+      },
+      'renamed-package12': {
+        'package.json': JSON.stringify({ name: '@example/package12' }),
+        'dist-scalprum': {
+          'configSchema.json': JSON.stringify(package12Schema),
+        },
+      },
+      'package21-backend-dynamic': {
+        'package.json': JSON.stringify({
+          name: '@example/package21-backend-dynamic',
+        }),
+      },
+    });
+  });
+
+  it('should return the schema of the package without the required keywords', async () => {
+    const loader = new ConfigSchemaLoader(mockLogger, mockDir.path);
+
+    await expect(loader.getSchema(mockPackages[0])).resolves.toEqual({
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      type: 'object',
+      properties: {
+        package11: {
+          type: 'object',
+          properties: {
+            baseUrl: { type: 'string', visibility: 'frontend' },
+            required: { type: 'boolean' },
+          },
+        },
+      },
+    });
+  });
+
+  it('should find the schema by the npm package name', async () => {
+    const loader = new ConfigSchemaLoader(mockLogger, mockDir.path);
+
+    await expect(
+      loader.getSchema({
+        ...mockPackages[1],
+        spec: { ...mockPackages[1].spec, packageName: '@example/package12' },
+      }),
+    ).resolves.toEqual(package12Schema);
+  });
+
+  it('should return undefined when the package does not export a schema', async () => {
+    const loader = new ConfigSchemaLoader(mockLogger, mockDir.path);
+
+    await expect(loader.getSchema(mockPackages[2])).resolves.toBeUndefined();
+    await expect(loader.getSchema(mockPackages[1])).resolves.toBeUndefined();
+  });
+
+  it('should return undefined when the dynamic plugins root directory is not configured', async () => {
+    const loader = new ConfigSchemaLoader(mockLogger);
+
+    await expect(loader.getSchema(mockPackages[0])).resolves.toBeUndefined();
+  });
+
+  it('should log a warning when the dynamic plugins root directory cannot be read', async () => {
+    const loader = new ConfigSchemaLoader(
+      mockLogger,
+      mockDir.resolve('not-existing'),
+    );
+
+    await expect(loader.getSchema(mockPackages[0])).resolves.toBeUndefined();
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Unable to read the config schemas of the dynamic plugins',
+      ),
+    );
+  });
+});
@@ -0,0 +1,166 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { findPaths } from '@backstage/cli-common';
+import type { Config } from '@backstage/config';
+import {
+  LoggerService,
+  resolvePackagePath,
+} from '@backstage/backend-plugin-api';
+import type { JsonObject, JsonValue } from '@backstage/types';
+import { ExtensionsPackage } from '@red-hat-developer-hub/backstage-plugin-extensions-common';
+
+/**
+ * The locations of the config schema exported with the frontend and the backend dynamic plugins.
+ */
+const SCHEMA_FILES = [
+  path.join('dist-scalprum', 'configSchema.json'),
+  path.join('dist', 'configSchema.json'),
+];
+
+const readJson = async (file: string): Promise<JsonValue | undefined> => {
+  try {
+    return JSON.parse(await fs.promises.readFile(file, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+};
+
+const isJsonObject = (value?: JsonValue): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Removes the `required` keywords from the schema,
+ * as the required values can be provided by the app-config instead of the package configuration.
+ */
+const withoutRequired = (schema: JsonValue): JsonValue => {
+  if (Array.isArray(schema)) {
+    return schema.map(withoutRequired);
+  }
+  if (!isJsonObject(schema)) {
+    return schema;
+  }
+  return Object.fromEntries(
+    Object.entries(schema)
+      .filter(([key, value]) => key !== 'required' || !Array.isArray(value))
+      .map(([key, value]) => [key, withoutRequired(value!)]),
+  );
+};
+
+/**
+ * The names under which the dynamic plugin of the package can be installed in the dynamic plugins root directory.
+ */
+const getInstallationNames = (extensionsPackage: ExtensionsPackage) => {
+  const names: string[] = [];
+  const dynamicArtifact = extensionsPackage.spec?.dynamicArtifact;
+  if (dynamicArtifact?.startsWith('oci://')) {
+    names.push(dynamicArtifact.split('!').at(1) ?? '');
+  } else if (dynamicArtifact) {
+    names.push(path.basename(dynamicArtifact));
+  }
+  const packageName = extensionsPackage.spec?.packageName;
+  if (packageName) {
+    names.push(packageName, `${packageName}-dynamic`);
+  }
+  return names.filter(Boolean);
+};
+
+/**
+ * Loads the config schemas of the dynamic plugins installed in the dynamic plugins root directory.
+ */
+export class ConfigSchemaLoader {
+  private schemas?: Promise<Map<string, JsonObject>>;
+
+  constructor(
+    private readonly logger: LoggerService,
+    private readonly rootDirectory?: string,
+  ) {}
+
+  static fromConfig(config: Config, logger: LoggerService): ConfigSchemaLoader {
+    const rootDirectory = config.getOptionalString(
+      'dynamicPlugins.rootDirectory',
+    );
+    return new ConfigSchemaLoader(
+      logger,
+      rootDirectory &&
+        findPaths(
+          resolvePackagePath(
+            '@red-hat-developer-hub/backstage-plugin-extensions-backend',
+          ),
+        ).resolveTargetRoot(rootDirectory),
+    );
+  }
+
+  /**
+   * Returns the config schema of the package without its `required` keywords,
+   * or undefined when the package is not installed or does not export a config schema.
+   */
+  async getSchema(
+    extensionsPackage: ExtensionsPackage,
+  ): Promise<JsonObject | undefined> {
+    // the installed dynamic plugins change only on restart
+    this.schemas ??= this.loadSchemas();
+    const schemas = await this.schemas;
+    return getInstallationNames(extensionsPackage)
+      .map(name => schemas.get(name))
+      .find(schema => schema !== undefined);
+  }
+
+  private async loadSchemas(): Promise<Map<string, JsonObject>> {
+    const schemas = new Map<string, JsonObject>();
+    if (!this.rootDirectory) {
+      return schemas;
+    }
+
+    let directories: string[];
+    try {
+      directories = (
+        await fs.promises.readdir(this.rootDirectory, { withFileTypes: true })
+      )
+        .filter(entry => entry.isDirectory())
+        .map(entry => entry.name);
+    } catch (e) {
+      this.logger.warn(
+        `Unable to read the config schemas of the dynamic plugins in ${this.rootDirectory}: ${e.message}`,
+      );
+      return schemas;
+    }
+
+    await Promise.all(
+      directories.map(async directory => {
+        const pluginPath = path.join(this.rootDirectory!, directory);
+        for (const schemaFile of SCHEMA_FILES) {
+          const schema = await readJson(path.join(pluginPath, schemaFile));
+          if (isJsonObject(schema) && Object.keys(schema).length > 0) {
+            const names = [directory];
+            const manifest = await readJson(
+              path.join(pluginPath, 'package.json'),
+            );
+            if (isJsonObject(manifest) && typeof manifest.name === 'string') {
+              names.push(manifest.name);
+            }
+            const schemaWithoutRequired = withoutRequired(schema) as JsonObject;
+            names.forEach(name => schemas.set(name, schemaWithoutRequired));
+            return;
+          }
+        }
+      }),
+    );
+    return schemas;
+  }
+}
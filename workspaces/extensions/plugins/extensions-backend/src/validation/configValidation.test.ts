@@ -16,6 +16,7 @@
 import { parseDocument } from 'yaml';
 import {
   validateConfigurationFormat,
+  validatePackageConfigSchema,
   validatePackageFormat,
   validatePluginFormat,
 } from './configValidation';
@@ -181,3 +182,66 @@ describe('validatePluginFormat', () => {
     );
   });
 });
+
+describe('validatePackageConfigSchema', () => {
+  const schema = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    type: 'object',
+    properties: {
+      package1: {
+        type: 'object',
+        properties: {
+          baseUrl: { type: 'string', visibility: 'frontend' },
+          timeout: { type: 'number' },
+        },
+      },
+    },
+  };
+
+  const parsePackage = (content: string) => {
+    const item = parseDocument(content).contents;
+    validatePackageFormat(item);
+    return item;
+  };
+
+  it('should validate plugin config matching the schema', () => {
+    const item = parsePackage(`
+      package: package1
+      pluginConfig:
+        package1:
+          baseUrl: https://example.com
+          timeout: 10
+    `);
+    expect(() => validatePackageConfigSchema(item, schema)).not.toThrow();
+  });
+
+  it('should skip validation without schema or plugin config', () => {
+    expect(() =>
+      validatePackageConfigSchema(
+        parsePackage(`
+          package: package1
+          pluginConfig:
+            package1:
+              timeout: not-a-number
+        `),
+      ),
+    ).not.toThrow();
+    expect(() =>
+      validatePackageConfigSchema(parsePackage('package: package1'), schema),
+    ).not.toThrow();
+  });
+
+  it('should throw if plugin config does not match the schema', () => {
+    const item = parsePackage(`
+      package: package1
+      pluginConfig:
+        package1:
+          timeout: not-a-number
+    `);
+    expect(() => validatePackageConfigSchema(item, schema)).toThrow(
+      new ConfigFormatError(
+        "Invalid installation configuration, 'pluginConfig' field of package 'package1' does not match the config schema of the package: pluginConfig/package1/timeout must be number",
+      ),
+    );
+  });
+});
@@ -15,7 +15,11 @@
  */
 import { Document, isMap, isSeq, type YAMLMap, type YAMLSeq } from 'yaml';
 import { ConfigFormatError } from '../errors/ConfigFormatError';
-import type { JsonValue } from '@backstage/types';
+import type { JsonObject, JsonValue } from '@backstage/types';
+import Ajv from 'ajv';
+
+// the config schemas of Backstage use custom keywords, such as 'visibility'
+const ajv = new Ajv({ allErrors: true, strict: false });
 
 export function validateConfigurationFormat(
   doc: Document,
@@ -107,3 +111,20 @@ export function validatePluginFormat(
     }
   }
 }
+
+export function validatePackageConfigSchema(
+  item: YAMLMap<string, JsonValue>,
+  schema?: JsonObject,
+): void {
+  const pluginConfig = item.get('pluginConfig');
+  if (!schema || !isMap(pluginConfig)) {
+    return;
+  }
+
+  const validate = ajv.compile(schema);
+  if (!validate(pluginConfig.toJSON())) {
+    throw new ConfigFormatError(
+      `Invalid installation configuration, 'pluginConfig' field of package '${item.get('package')}' does not match the config schema of the package: ${ajv.errorsText(validate.errors, { dataVar: 'pluginConfig' })}`,
+    );
+  }
+}
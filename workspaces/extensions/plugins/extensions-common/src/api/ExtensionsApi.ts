@@ -21,10 +21,14 @@ import {
 } from '@backstage/catalog-client';
 
 import {
+  ConfigSchemaResponse,
   ConfigurationResponse,
   ExtensionsCollection,
   ExtensionsPackage,
   ExtensionsPlugin,
+  InstallationHistoryRequest,
+  InstallationHistoryResponse,
+  InstallationPlan,
   NodeEnvironmentType,
 } from '../types';
 
@@ -82,6 +86,11 @@ export interface ExtensionsApi {
     name: string,
   ): Promise<ConfigurationResponse>;
 
+  getPackageConfigSchema?(
+    namespace: string,
+    name: string,
+  ): Promise<ConfigSchemaResponse>;
+
   installPackage?(
     namespace: string,
     name: string,
@@ -94,6 +103,22 @@ export interface ExtensionsApi {
     disabled: boolean,
   ): Promise<{ status: string }>;
 
+  getPackageInstallationPlan?(
+    namespace: string,
+    name: string,
+    configYaml: string,
+  ): Promise<InstallationPlan>;
+
+  rollbackPackageConfig?(
+    namespace: string,
+    name: string,
+    revision: number,
+  ): Promise<{ status: string }>;
+
+  getInstallationHistory?(
+    request?: InstallationHistoryRequest,
+  ): Promise<InstallationHistoryResponse>;
+
   getPlugins(
     request: GetEntitiesRequest,
   ): Promise<GetEntitiesResponse<ExtensionsPlugin>>;
@@ -111,7 +136,11 @@ export interface ExtensionsApi {
 
   getExtensionsConfiguration?(): Promise<{ enabled: boolean }>;
 
-  getNodeEnvironment?(): Promise<{ nodeEnv: NodeEnvironmentType }>;
+  getNodeEnvironment?(): Promise<{
+    nodeEnv: NodeEnvironmentType;
+    installationAllowedInProduction?: boolean;
+    backstageVersion?: string;
+  }>;
 
   getPluginConfigByName?(
     namespace: string,
@@ -130,6 +159,12 @@ export interface ExtensionsApi {
     disabled: boolean,
   ): Promise<{ status: string }>;
 
+  getPluginInstallationPlan?(
+    namespace: string,
+    name: string,
+    configYaml: string,
+  ): Promise<InstallationPlan>;
+
   getPluginPackages(
     namespace: string,
     name: string,
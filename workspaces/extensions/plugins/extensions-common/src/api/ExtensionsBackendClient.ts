@@ -21,10 +21,14 @@ import {
 import type { ConfigApi } from '@backstage/core-plugin-api';
 
 import type {
+  ConfigSchemaResponse,
   ConfigurationResponse,
   ExtensionsCollection,
   ExtensionsPackage,
   ExtensionsPlugin,
+  InstallationHistoryRequest,
+  InstallationHistoryResponse,
+  InstallationPlan,
 } from '../types';
 import {
   encodeGetEntitiesRequest,
@@ -188,6 +192,16 @@ export class ExtensionsBackendClient implements ExtensionsApi {
     );
   }
 
+  async getPackageConfigSchema(
+    namespace: string,
+    name: string,
+  ): Promise<ConfigSchemaResponse> {
+    return this.request(
+      `/package/${encodeURIComponent(namespace)}/${encodeURIComponent(name)}/configuration/schema`,
+      'GET',
+    );
+  }
+
   async installPackage(
     namespace: string,
     name: string,
@@ -214,6 +228,48 @@ export class ExtensionsBackendClient implements ExtensionsApi {
     );
   }
 
+  async getPackageInstallationPlan(
+    namespace: string,
+    name: string,
+    configYaml: string,
+  ): Promise<InstallationPlan> {
+    return this.request(
+      `/package/${encodeURIComponent(namespace)}/${encodeURIComponent(name)}/configuration/plan`,
+      'POST',
+      undefined,
+      { configYaml },
+    );
+  }
+
+  async rollbackPackageConfig(
+    namespace: string,
+    name: string,
+    revision: number,
+  ): Promise<{ status: string }> {
+    return this.request(
+      `/package/${encodeURIComponent(namespace)}/${encodeURIComponent(name)}/configuration/rollback`,
+      'POST',
+      undefined,
+      { revision },
+    );
+  }
+
+  async getInstallationHistory(
+    request: InstallationHistoryRequest = {},
+  ): Promise<InstallationHistoryResponse> {
+    const searchParams = new URLSearchParams();
+    if (request.package) {
+      searchParams.set('package', request.package);
+    }
+    if (request.limit !== undefined) {
+      searchParams.set('limit', String(request.limit));
+    }
+    if (request.offset !== undefined) {
+      searchParams.set('offset', String(request.offset));
+    }
+    return this.request('/installation/history', 'GET', searchParams);
+  }
+
   async getPlugins(
     request: GetEntitiesRequest,
   ): Promise<GetEntitiesResponse<ExtensionsPlugin>> {
@@ -254,7 +310,11 @@ export class ExtensionsBackendClient implements ExtensionsApi {
     return this.request(`/plugins/configure`, 'GET');
   }
 
-  async getNodeEnvironment(): Promise<{ nodeEnv: NodeEnvironmentType }> {
+  async getNodeEnvironment(): Promise<{
+    nodeEnv: NodeEnvironmentType;
+    installationAllowedInProduction?: boolean;
+    backstageVersion?: string;
+  }> {
     return this.request(`/environment`, 'GET');
   }
 
@@ -294,6 +354,19 @@ export class ExtensionsBackendClient implements ExtensionsApi {
     );
   }
 
+  async getPluginInstallationPlan(
+    namespace: string,
+    name: string,
+    configYaml: string,
+  ): Promise<InstallationPlan> {
+    return this.request(
+      `/plugin/${encodeURIComponent(namespace)}/${encodeURIComponent(name)}/configuration/plan`,
+      'POST',
+      undefined,
+      { configYaml },
+    );
+  }
+
   getPluginPackages(
     namespace: string,
     name: string,
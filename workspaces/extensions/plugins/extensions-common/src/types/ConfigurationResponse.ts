@@ -14,9 +14,19 @@
  * limitations under the License.
  */
 
+import type { JsonObject } from '@backstage/types';
+
 /**
  * @public
  */
 export type ConfigurationResponse = {
   configYaml: string;
 };
+
+/**
+ * @public
+ */
+export type ConfigSchemaResponse = {
+  /** The JSON schema of the package configuration, if the package exports one */
+  schema?: JsonObject;
+};
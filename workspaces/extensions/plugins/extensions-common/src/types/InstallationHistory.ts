@@ -0,0 +1,61 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @public
+ */
+export type InstallationHistoryAction =
+  | 'update'
+  | 'enable'
+  | 'disable'
+  | 'rollback';
+
+/**
+ * A change of the installation configuration of a package.
+ *
+ * @public
+ */
+export type InstallationHistoryEntry = {
+  id: number;
+  /** The dynamic artifact of the changed package */
+  package: string;
+  action: InstallationHistoryAction;
+  /** The entity ref of the user who made the change */
+  actor?: string;
+  createdAt: string;
+  /** The YAML configuration of the package before the change, missing when the package was not configured */
+  configBefore?: string;
+  /** The YAML configuration of the package after the change, missing when the package was removed */
+  configAfter?: string;
+};
+
+/**
+ * @public
+ */
+export type InstallationHistoryResponse = {
+  items: InstallationHistoryEntry[];
+  totalItems: number;
+};
+
+/**
+ * @public
+ */
+export type InstallationHistoryRequest = {
+  /** The dynamic artifact of the package to filter the history by */
+  package?: string;
+  limit?: number;
+  offset?: number;
+};
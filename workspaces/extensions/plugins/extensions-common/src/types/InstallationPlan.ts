@@ -0,0 +1,56 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @public
+ */
+export type InstallationPlanWarningType =
+  | 'incompatibleVersion'
+  | 'duplicatePackage';
+
+/**
+ * @public
+ */
+export type InstallationPlanWarning = {
+  type: InstallationPlanWarningType;
+  /** The dynamic artifact of the package the warning applies to */
+  package: string;
+  message: string;
+};
+
+/**
+ * A package which is not installed, but is needed by a package of the installation.
+ *
+ * @public
+ */
+export type InstallationPlanRequiredPackage = {
+  /** The dynamic artifact of the required package */
+  package: string;
+  entityRef: string;
+  role?: string;
+  /** The dynamic artifact of the package that needs the required package */
+  requiredBy: string;
+};
+
+/**
+ * The result of checking an installation configuration before it is saved.
+ *
+ * @public
+ */
+export type InstallationPlan = {
+  warnings: InstallationPlanWarning[];
+  requiredPackages: InstallationPlanRequiredPackage[];
+};
@@ -22,3 +22,5 @@ export * from './ExtensionsPlugin';
 export * from './ExtensionsSupport';
 export * from './ConfigurationResponse';
 export * from './NodeEnvironmentType';
+export * from './InstallationHistory';
+export * from './InstallationPlan';
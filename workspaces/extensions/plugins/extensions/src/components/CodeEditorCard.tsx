@@ -14,18 +14,51 @@
  * limitations under the License.
  */
 
-import { lazy, Suspense } from 'react';
+import { lazy, Suspense, useEffect, useState } from 'react';
+import Box from '@mui/material/Box';
 import Grid from '@mui/material/Grid';
 import Card from '@mui/material/Card';
 import CardContent from '@mui/material/CardContent';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
 import { Progress } from '@backstage/core-components';
 
+import { ExtensionsPackage } from '@red-hat-developer-hub/backstage-plugin-extensions-common';
+
+import { useCodeEditor } from './CodeEditorContext';
+import { ConfigSchemaForm, PackageConfigSchema } from './ConfigSchemaForm';
+import { usePackageConfigSchemas } from '../hooks/usePackageConfigSchemas';
+import { useTranslation } from '../hooks/useTranslation';
+
 // Lazy load CodeEditor to avoid loading Monaco Editor until needed
 const CodeEditor = lazy(() =>
   import('./CodeEditor').then(module => ({ default: module.CodeEditor })),
 );
 
-export const CodeEditorCard = ({ onLoad }: { onLoad: () => void }) => {
+export const CodeEditorCard = ({
+  onLoad,
+  packages = [],
+}: {
+  onLoad: () => void;
+  /** Packages whose config schemas offer the form view of the configuration */
+  packages?: ExtensionsPackage[];
+}) => {
+  const { t } = useTranslation();
+  const codeEditor = useCodeEditor();
+  const [view, setView] = useState<'yaml' | 'form'>('yaml');
+  const schemaQueries = usePackageConfigSchemas(packages);
+  const schemas = packages.flatMap((pkg, index): PackageConfigSchema[] => {
+    const schema = schemaQueries[index]?.data?.schema;
+    return schema ? [{ pkg, schema }] : [];
+  });
+
+  useEffect(() => {
+    // the hidden editor has no size to lay out until it is shown again
+    if (view === 'yaml') {
+      codeEditor.getEditor()?.layout();
+    }
+  }, [codeEditor, view]);
+
   return (
     <Grid
       item
@@ -42,6 +75,24 @@ export const CodeEditorCard = ({ onLoad }: { onLoad: () => void }) => {
           borderRadius: 0,
         }}
       >
+        {schemas.length > 0 && (
+          <Box sx={{ px: 2, pt: 2 }}>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={view}
+              onChange={(_, value) => value && setView(value)}
+              aria-label={t('install.configForm.view')}
+            >
+              <ToggleButton value="yaml">
+                {t('install.configForm.yaml')}
+              </ToggleButton>
+              <ToggleButton value="form">
+                {t('install.configForm.form')}
+              </ToggleButton>
+            </ToggleButtonGroup>
+          </Box>
+        )}
         <CardContent
           sx={{
             flex: 1,
@@ -51,25 +102,34 @@ export const CodeEditorCard = ({ onLoad }: { onLoad: () => void }) => {
             scrollbarWidth: 'thin',
           }}
         >
-          <Suspense
-            fallback={
-              <div
-                style={{
-                  width: '100%',
-                  height: '100%',
-                  display: 'flex',
-                  alignItems: 'start',
-                  justifyContent: 'center',
-                }}
-              >
-                <div style={{ width: '100%', height: '100px' }}>
-                  <Progress />
-                </div>
-              </div>
-            }
+          {view === 'form' && <ConfigSchemaForm schemas={schemas} />}
+          <Box
+            sx={{
+              flex: 1,
+              display: view === 'yaml' ? 'flex' : 'none',
+              flexDirection: 'column',
+            }}
           >
-            <CodeEditor defaultLanguage="yaml" onLoaded={onLoad} />
-          </Suspense>
+            <Suspense
+              fallback={
+                <div
+                  style={{
+                    width: '100%',
+                    height: '100%',
+                    display: 'flex',
+                    alignItems: 'start',
+                    justifyContent: 'center',
+                  }}
+                >
+                  <div style={{ width: '100%', height: '100px' }}>
+                    <Progress />
+                  </div>
+                </div>
+              }
+            >
+              <CodeEditor defaultLanguage="yaml" onLoaded={onLoad} />
+            </Suspense>
+          </Box>
         </CardContent>
       </Card>
     </Grid>
@@ -0,0 +1,123 @@
+/*
+ * Copyright The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { TestApiProvider } from '@backstage/test-utils';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+
+import { ExtensionsPackage } from '@red-hat-developer-hub/backstage-plugin-extensions-common';
+
+import { ConfigSchemaForm } from './ConfigSchemaForm';
+
+const mockGetValue = jest.fn();
+const mockSetValue = jest.fn();
+
+jest.mock('./CodeEditorContext', () => ({
+  useCodeEditor: () => ({
+    getValue: mockGetValue,
+    setValue: mockSetValue,
+  }),
+}));
+
+const pkg: ExtensionsPackage = {
+  apiVersion: 'extensions.backstage.io/v1alpha1',
+  kind: 'Package',
+  metadata: {
+    namespace: 'default',
+    name: 'package11',
+    title: 'Package 11',
+  },
+  spec: {
+    dynamicArtifact: './dynamic-plugins/dist/package11-backend-dynamic',
+  },
+};
+
+const schema = {
+  type: 'object',
+  properties: {
+    package11: {
+      type: 'object',
+      title: 'Package 11 settings',
+      properties: {
+        baseUrl: { type: 'string', title: 'Base URL' },
+      },
+    },
+  },
+};
+
+const renderForm = () =>
+  render(
+    <TestApiProvider apis={[]}>
+      <ConfigSchemaForm schemas={[{ pkg, schema }]} />
+    </TestApiProvider>,
+  );
+
+describe('ConfigSchemaForm', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should update the plugin config in the editor when the form changes', async () => {
+    mockGetValue.mockReturnValue(
+      'plugins:\n  - package: ./dynamic-plugins/dist/package11-backend-dynamic\n    disabled: false\n',
+    );
+    renderForm();
+
+    expect(screen.getByText('Package 11')).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Base URL'), {
+      target: { value: 'https://example.com' },
+    });
+
+    await waitFor(() => {
+      expect(mockSetValue).toHaveBeenLastCalledWith(
+        'plugins:\n  - package: ./dynamic-plugins/dist/package11-backend-dynamic\n    disabled: false\n    pluginConfig:\n      package11:\n        baseUrl: https://example.com\n',
+        false,
+      );
+    });
+  });
+
+  it('should show the existing plugin config in the form', () => {
+    mockGetValue.mockReturnValue(
+      'plugins:\n  - package: ./dynamic-plugins/dist/package11-backend-dynamic\n    pluginConfig:\n      package11:\n        baseUrl: https://existing.example.com\n',
+    );
+    renderForm();
+
+    expect(screen.getByLabelText('Base URL')).toHaveValue(
+      'https://existing.example.com',
+    );
+  });
+
+  it('should show a message when the package is not in the configuration', () => {
+    mockGetValue.mockReturnValue('plugins: []\n');
+    renderForm();
+
+    expect(
+      screen.getByText(
+        'The package ./dynamic-plugins/dist/package11-backend-dynamic is not included in the configuration.',
+      ),
+    ).toBeInTheDocument();
+  });
+
+  it('should show an error when the YAML configuration is invalid', () => {
+    mockGetValue.mockReturnValue('plugins: [\n');
+    renderForm();
+
+    expect(
+      screen.getByText(
+        'Fix the errors in the YAML configuration to edit it as a form.',
+      ),
+    ).toBeInTheDocument();
+  });
+});
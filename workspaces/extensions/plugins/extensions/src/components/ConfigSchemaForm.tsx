@@ -0,0 +1,128 @@
+/*
+ * Copyright The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useCallback, useState } from 'react';
+
+import type { JsonObject } from '@backstage/types';
+import { ExtensionsPackage } from '@red-hat-developer-hub/backstage-plugin-extensions-common';
+
+import Form from '@rjsf/mui';
+import { IChangeEvent } from '@rjsf/core';
+import { RJSFSchema, UiSchema } from '@rjsf/utils';
+import validator from '@rjsf/validator-ajv8';
+import yaml, { Document, YAMLMap } from 'yaml';
+
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+
+import { useCodeEditor } from './CodeEditorContext';
+import { useTranslation } from '../hooks/useTranslation';
+
+export interface PackageConfigSchema {
+  pkg: ExtensionsPackage;
+  schema: JsonObject;
+}
+
+const uiSchema: UiSchema = {
+  'ui:submitButtonOptions': { norender: true },
+};
+
+const findPackageItem = (
+  doc: Document,
+  dynamicArtifact?: string,
+): YAMLMap | undefined => {
+  const plugins = doc.get('plugins');
+  if (!dynamicArtifact || !yaml.isSeq(plugins)) {
+    return undefined;
+  }
+  return plugins.items.find(
+    (item): item is YAMLMap =>
+      yaml.isMap(item) && item.get('package') === dynamicArtifact,
+  );
+};
+
+/**
+ * Edits the `pluginConfig` of the packages in the code editor with forms generated from their config schemas.
+ */
+export const ConfigSchemaForm = ({
+  schemas,
+}: {
+  schemas: PackageConfigSchema[];
+}) => {
+  const { t } = useTranslation();
+  const codeEditor = useCodeEditor();
+  // the form is mounted when switching from the YAML view, so the editor content is read once
+  const [doc] = useState(() => yaml.parseDocument(codeEditor.getValue() ?? ''));
+
+  const handleChange = useCallback(
+    (dynamicArtifact: string, formData?: JsonObject) => {
+      const item = findPackageItem(doc, dynamicArtifact);
+      if (!item) {
+        return;
+      }
+      if (formData && Object.keys(formData).length > 0) {
+        item.set('pluginConfig', doc.createNode(formData));
+      } else {
+        item.delete('pluginConfig');
+      }
+      codeEditor.setValue(doc.toString(), false);
+    },
+    [codeEditor, doc],
+  );
+
+  if (doc.errors.length > 0) {
+    return (
+      <Alert severity="error">{t('install.configForm.invalidYaml')}</Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      {schemas.map(({ pkg, schema }) => {
+        const dynamicArtifact = pkg.spec?.dynamicArtifact ?? '';
+        const item = findPackageItem(doc, dynamicArtifact);
+        const pluginConfig = item?.get('pluginConfig');
+        return (
+          <Box key={pkg.metadata.name}>
+            <Typography variant="h5" sx={{ mb: 1 }}>
+              {pkg.metadata.title ?? pkg.metadata.name}
+            </Typography>
+            {item ? (
+              <Form
+                schema={schema as RJSFSchema}
+                uiSchema={uiSchema}
+                validator={validator}
+                formData={yaml.isMap(pluginConfig) ? pluginConfig.toJSON() : {}}
+                onChange={(e: IChangeEvent) =>
+                  handleChange(dynamicArtifact, e.formData)
+                }
+                liveValidate
+                showErrorList={false}
+              />
+            ) : (
+              <Typography variant="body2" color="text.secondary">
+                {t('install.configForm.packageNotConfigured', {
+                  package: dynamicArtifact,
+                } as any)}
+              </Typography>
+            )}
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
@@ -137,7 +137,8 @@ export const ExtensionsCatalogContent = () => {
   }
 
   const isProductionEnvironment =
-    nodeEnvironment?.data?.nodeEnv === 'production';
+    nodeEnvironment?.data?.nodeEnv === 'production' &&
+    !nodeEnvironment.data.installationAllowedInProduction;
 
   const showExtensionsConfigurationAlert =
     !isProductionEnvironment && !extensionsConfig.data?.enabled;
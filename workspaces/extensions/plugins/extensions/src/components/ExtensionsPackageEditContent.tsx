@@ -318,7 +318,7 @@ export const ExtensionsPackageEditContent = ({
           spacing={3}
           sx={{ flex: 1, overflow: 'hidden', height: '100%', pb: 1 }}
         >
-          <CodeEditorCard onLoad={onLoaded} />
+          <CodeEditorCard onLoad={onLoaded} packages={[pkg]} />
 
           {showRightCard && (
             <Grid
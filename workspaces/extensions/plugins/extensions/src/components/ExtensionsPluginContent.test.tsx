@@ -314,4 +314,27 @@ describe('ExtensionsPluginContent', () => {
     expect(getByTestId('actions-button')).toBeInTheDocument();
     expect(getByTestId('disable-plugin')).toBeInTheDocument();
   });
+
+  it('should have the Install button enabled for production env when installation is allowed in production', async () => {
+    useNodeEnvironmentMock.mockReturnValue({
+      data: {
+        nodeEnv: 'production',
+        installationAllowedInProduction: true,
+      },
+    });
+    usePluginConfigurationPermissionsMock.mockReturnValue({
+      data: {
+        write: 'ALLOW',
+        read: 'ALLOW',
+      },
+      isLoading: false,
+      error: null,
+      refetch: jest.fn(),
+    });
+
+    const { getByText } = renderWithProviders(
+      <ExtensionsPluginContent plugin={plugin} />,
+    );
+    expect(getByText('Install')).toBeEnabled();
+  });
 });
@@ -392,7 +392,8 @@ export const ExtensionsPluginContent = ({
 
   const highlights = isPackage ? [] : (plugin.spec?.highlights ?? []);
   const isProductionEnvironment =
-    nodeEnvironment?.data?.nodeEnv === 'production';
+    nodeEnvironment?.data?.nodeEnv === 'production' &&
+    !nodeEnvironment.data.installationAllowedInProduction;
 
   const missingDynamicArtifact = isExtensionsPackage(plugin)
     ? !plugin.spec?.dynamicArtifact
@@ -26,6 +26,7 @@ import { extensionsApiRef } from '../api';
 import { alertApiRef } from '@backstage/core-plugin-api';
 import { usePluginConfigurationPermissions } from '../hooks/usePluginConfigurationPermissions';
 import { useInstallPlugin } from '../hooks/useInstallPlugin';
+import { usePluginInstallationPlan } from '../hooks/usePluginInstallationPlan';
 import { useExtensionsConfiguration } from '../hooks/useExtensionsConfiguration';
 
 const usePluginConfigMock = usePluginConfig as jest.Mock;
@@ -34,6 +35,7 @@ const useExtensionsConfigurationMock = useExtensionsConfiguration as jest.Mock;
 const usePluginConfigurationPermissionsMock =
   usePluginConfigurationPermissions as jest.Mock;
 const useInstallPluginMock = useInstallPlugin as jest.Mock;
+const usePluginInstallationPlanMock = usePluginInstallationPlan as jest.Mock;
 
 jest.mock('../hooks/usePluginConfig', () => ({
   usePluginConfig: jest.fn(),
@@ -47,6 +49,10 @@ jest.mock('../hooks/useInstallPlugin', () => ({
   useInstallPlugin: jest.fn(),
 }));
 
+jest.mock('../hooks/usePluginInstallationPlan', () => ({
+  usePluginInstallationPlan: jest.fn(),
+}));
+
 jest.mock('../hooks/usePluginConfigurationPermissions', () => ({
   usePluginConfigurationPermissions: jest.fn(),
 }));
@@ -112,6 +118,12 @@ beforeEach(() => {
       enabled: true,
     },
   });
+
+  usePluginInstallationPlanMock.mockReturnValue({
+    mutateAsync: jest
+      .fn()
+      .mockResolvedValue({ warnings: [], requiredPackages: [] }),
+  });
 });
 
 describe('ExtensionsPluginInstallContent', () => {
@@ -341,4 +353,49 @@ describe('ExtensionsPluginInstallContent', () => {
       expect(getByText('Installation failed')).toBeInTheDocument();
     });
   });
+
+  it('should show the installation plan before saving the configuration', async () => {
+    const installPlugin = jest.fn().mockResolvedValue({ status: 'OK' });
+    useInstallPluginMock.mockReturnValue({ mutateAsync: installPlugin });
+    usePluginInstallationPlanMock.mockReturnValue({
+      mutateAsync: jest.fn().mockResolvedValue({
+        warnings: [
+          {
+            type: 'incompatibleVersion',
+            package:
+              './dynamic-plugins/dist/backstage-community-plugin-3scale-backend-dynamic',
+            message: 'Package is not compatible',
+          },
+        ],
+        requiredPackages: [],
+      }),
+    });
+
+    const { getByText } = render(
+      <TestApiProvider
+        apis={[
+          [extensionsApiRef, mockExtensionsApi],
+          [alertApiRef, mockAlertApiRef],
+        ]}
+      >
+        <BrowserRouter>
+          <ExtensionsPluginInstallContent packages={packages} plugin={plugin} />
+        </BrowserRouter>
+      </TestApiProvider>,
+    );
+    await waitFor(() => {
+      expect(mockCodeEditorSetValue).toHaveBeenCalled();
+    });
+    fireEvent.click(getByText('Install'));
+    await waitFor(() => {
+      expect(getByText('Review the installation')).toBeInTheDocument();
+      expect(getByText('Package is not compatible')).toBeInTheDocument();
+    });
+    expect(installPlugin).not.toHaveBeenCalled();
+
+    fireEvent.click(getByText('Install'));
+    await waitFor(() => {
+      expect(installPlugin).toHaveBeenCalled();
+    });
+  });
 });
@@ -33,6 +33,7 @@ import {
   ExtensionsPackageSpec,
   ExtensionsPlugin,
   ExtensionsPluginInstallStatus,
+  InstallationPlan,
 } from '@red-hat-developer-hub/backstage-plugin-extensions-common';
 
 import Box from '@mui/material/Box';
@@ -73,6 +74,7 @@ import {
 import { usePluginConfigurationPermissions } from '../hooks/usePluginConfigurationPermissions';
 import { usePluginConfig } from '../hooks/usePluginConfig';
 import { useInstallPlugin } from '../hooks/useInstallPlugin';
+import { usePluginInstallationPlan } from '../hooks/usePluginInstallationPlan';
 import { useNodeEnvironment } from '../hooks/useNodeEnvironment';
 import { useExtensionsConfiguration } from '../hooks/useExtensionsConfiguration';
 import { mapExtensionsPluginInstallStatusToInstallPageButton } from '../labels';
@@ -141,6 +143,7 @@ export const ExtensionsPluginInstallContent = ({
 }) => {
   const { t } = useTranslation();
   const { mutateAsync: installPlugin } = useInstallPlugin();
+  const { mutateAsync: getInstallationPlan } = usePluginInstallationPlan();
   const { installedPlugins, setInstalledPlugins } = useInstallationContext();
   const params = useRouteRefParams(pluginInstallRouteRef);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -148,6 +151,10 @@ export const ExtensionsPluginInstallContent = ({
   const [installationError, setInstallationError] = useState<string | null>(
     null,
   );
+  const [installationPlan, setInstallationPlan] = useState<{
+    configYaml: string;
+    plan: InstallationPlan;
+  } | null>(null);
   const [hasGlobalHeader, setHasGlobalHeader] = useState(false);
   const pluginConfig = usePluginConfig(params.namespace, params.name);
   const pluginConfigPermissions = usePluginConfigurationPermissions(
@@ -157,7 +164,8 @@ export const ExtensionsPluginInstallContent = ({
   const extensionsConfig = useExtensionsConfiguration();
   const nodeEnvironment = useNodeEnvironment();
   const isProductionEnvironment =
-    nodeEnvironment?.data?.nodeEnv === 'production';
+    nodeEnvironment?.data?.nodeEnv === 'production' &&
+    !nodeEnvironment.data.installationAllowedInProduction;
 
   const theme = useTheme();
   // TODO: add divider color in theme plugin
@@ -271,6 +279,18 @@ export const ExtensionsPluginInstallContent = ({
     const pluginsYamlString = pluginsYaml.toString();
 
     try {
+      if (installationPlan?.configYaml !== pluginsYamlString) {
+        const plan = await getInstallationPlan({
+          namespace: plugin.metadata.namespace ?? 'default',
+          name: plugin.metadata.name,
+          configYaml: pluginsYamlString,
+        });
+        if (plan?.warnings?.length || plan?.requiredPackages?.length) {
+          setInstallationPlan({ configYaml: pluginsYamlString, plan });
+          setIsSubmitting(false);
+          return;
+        }
+      }
       const res = await installPlugin({
         namespace: plugin.metadata.namespace ?? 'default',
         name: plugin.metadata.name,
@@ -357,6 +377,29 @@ export const ExtensionsPluginInstallContent = ({
           {installationError}
         </Alert>
       )}
+      {installationPlan && (
+        <Alert severity="warning" sx={{ mb: '1rem' }}>
+          <AlertTitle>{t('install.plan.title')}</AlertTitle>
+          <Box component="ul" sx={{ my: 0, pl: 2 }}>
+            {installationPlan.plan.warnings.map((warning, index) => (
+              <li key={`warning-${index}`}>{warning.message}</li>
+            ))}
+            {installationPlan.plan.requiredPackages.map(
+              (requiredPackage, index) => (
+                <li key={`required-${index}`}>
+                  {t('install.plan.requiredPackage', {
+                    package: requiredPackage.package,
+                    requiredBy: requiredPackage.requiredBy,
+                  } as any)}
+                </li>
+              ),
+            )}
+          </Box>
+          <Typography variant="body2" sx={{ mt: 1 }}>
+            {t('install.plan.confirm')}
+          </Typography>
+        </Alert>
+      )}
       {missingDynamicArtifact && (
         <Alert severity="error" sx={{ mb: '1rem' }}>
           <AlertTitle>
@@ -380,7 +423,9 @@ export const ExtensionsPluginInstallContent = ({
           spacing={3}
           sx={{ flex: 1, overflow: 'hidden', height: '100%', pb: 1 }}
         >
-          {packages.length > 0 && <CodeEditorCard onLoad={onLoaded} />}
+          {packages.length > 0 && (
+            <CodeEditorCard onLoad={onLoaded} packages={packages} />
+          )}
 
           {showRightCard && (
             <Grid
@@ -258,4 +258,101 @@ describe('InstalledPackagesTable', () => {
     );
     expect(screen.queryByText('beta')).not.toBeInTheDocument();
   });
+
+  it('restores a previous revision from the configuration history', async () => {
+    useNodeEnvironmentMock.mockReturnValue({
+      data: {
+        nodeEnv: 'development',
+      },
+    });
+    const dynamicPlugins = [
+      {
+        name: '@scope/pkg-a-dynamic',
+        version: '1.0.0',
+        role: 'frontend-plugin',
+        platform: 'fe',
+      },
+    ];
+    const entity = {
+      apiVersion: 'extensions.backstage.io/v1alpha1',
+      kind: 'Package',
+      metadata: {
+        namespace: 'rhdh',
+        name: 'scope-pkg-a',
+        title: 'Package A',
+      },
+      spec: {
+        packageName: '@scope/pkg-a',
+        version: '1.0.0',
+        partOf: ['plugin-a'],
+        dynamicArtifact: './dynamic-plugins/dist/scope-pkg-a-dynamic',
+      },
+    };
+    const getInstallationHistory = jest.fn().mockResolvedValue({
+      items: [
+        {
+          id: 3,
+          package: './dynamic-plugins/dist/scope-pkg-a-dynamic',
+          action: 'disable',
+          actor: 'user:default/guest',
+          createdAt: '2026-10-19T12:00:00.000Z',
+        },
+      ],
+      totalItems: 1,
+    });
+    const rollbackPackageConfig = jest.fn().mockResolvedValue({ status: 'OK' });
+
+    const apis = [
+      [
+        dynamicPluginsInfoApiRef,
+        { listLoadedPlugins: jest.fn().mockResolvedValue(dynamicPlugins) },
+      ],
+      [
+        extensionsApiRef,
+        {
+          getPackages: jest.fn().mockResolvedValue({
+            items: [entity],
+            totalItems: 1,
+            pageInfo: {},
+          }),
+          getPackageByName: jest.fn().mockResolvedValue(entity),
+          getPackageConfigByName: jest.fn().mockResolvedValue({
+            configYaml: '- package: ./dynamic-plugins/dist/scope-pkg-a-dynamic',
+          }),
+          getExtensionsConfiguration: jest
+            .fn()
+            .mockResolvedValue({ enabled: true }),
+          getPluginConfigAuthorization: jest
+            .fn()
+            .mockResolvedValue({ read: 'ALLOW', write: 'ALLOW' }),
+          getInstallationHistory,
+          rollbackPackageConfig,
+        },
+      ],
+    ] as const;
+
+    renderWithProviders(apis);
+
+    fireEvent.click(
+      await screen.findByRole('button', {
+        name: 'View configuration history',
+      }),
+    );
+
+    expect(await screen.findByText('user:default/guest')).toBeInTheDocument();
+    expect(screen.getByText('Package disabled')).toBeInTheDocument();
+    expect(getInstallationHistory).toHaveBeenCalledWith({
+      package: './dynamic-plugins/dist/scope-pkg-a-dynamic',
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Restore' }));
+
+    await waitFor(() =>
+      expect(rollbackPackageConfig).toHaveBeenCalledWith(
+        'rhdh',
+        'scope-pkg-a',
+        3,
+      ),
+    );
+  });
 });
@@ -44,6 +44,7 @@ import {
   DownloadPackageYaml,
   EditPackage,
   InstalledPackageRow,
+  PackageHistory,
   PackageName,
   TogglePackage,
   UninstallPackage,
@@ -75,7 +76,8 @@ export const InstalledPackagesTable = () => {
 
   const showUninstall = false;
   const isProductionEnvironment =
-    nodeEnvironment?.data?.nodeEnv === 'production';
+    nodeEnvironment?.data?.nodeEnv === 'production' &&
+    !nodeEnvironment.data.installationAllowedInProduction;
   const installedPackagesCount = Object.entries(installedPackages)?.length ?? 0;
 
   const getPackageAlertMessage = (count: number, packageName?: string) => {
@@ -205,6 +207,15 @@ export const InstalledPackagesTable = () => {
                 setSnackbarOpen(true);
               }}
             />
+            <PackageHistory
+              pkg={row}
+              isProductionEnv={isProductionEnvironment}
+              isInstallationEnabled={extensionsConfig.data?.enabled ?? false}
+              onError={(err: string) => {
+                setRowActionError(err);
+                setSnackbarOpen(true);
+              }}
+            />
           </Box>
         );
       },
@@ -0,0 +1,157 @@
+/*
+ * Copyright The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Progress } from '@backstage/core-components';
+
+import Button from '@mui/material/Button';
+import CircularProgress from '@mui/material/CircularProgress';
+import CloseIcon from '@mui/icons-material/Close';
+import Dialog from '@mui/material/Dialog';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import IconButton from '@mui/material/IconButton';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Typography from '@mui/material/Typography';
+
+import {
+  InstallationHistoryAction,
+  InstallationHistoryEntry,
+} from '@red-hat-developer-hub/backstage-plugin-extensions-common';
+
+import { useTranslation } from '../../hooks/useTranslation';
+import { usePackageInstallationHistory } from '../../hooks/usePackageInstallationHistory';
+
+export const PackageHistoryDialog = ({
+  open,
+  title,
+  dynamicArtifact,
+  canRestore,
+  restoringRevision,
+  onRestore,
+  onClose,
+}: {
+  open: boolean;
+  title: string;
+  dynamicArtifact?: string;
+  canRestore: boolean;
+  restoringRevision?: number;
+  onRestore: (entry: InstallationHistoryEntry) => void;
+  onClose: () => void;
+}) => {
+  const { t } = useTranslation();
+  const history = usePackageInstallationHistory(dynamicArtifact, open);
+
+  const actionLabels: Record<InstallationHistoryAction, string> = {
+    update: t('installedPackages.history.actions.update'),
+    enable: t('installedPackages.history.actions.enable'),
+    disable: t('installedPackages.history.actions.disable'),
+    rollback: t('installedPackages.history.actions.rollback'),
+  };
+
+  const renderContent = () => {
+    if (history.isLoading) {
+      return <Progress />;
+    }
+    if (!history.data?.items?.length) {
+      return (
+        <Typography variant="body1">
+          {t('installedPackages.history.noRecords')}
+        </Typography>
+      );
+    }
+    return (
+      <Table size="small" aria-label={title}>
+        <TableHead>
+          <TableRow>
+            <TableCell>{t('installedPackages.history.columns.date')}</TableCell>
+            <TableCell>{t('installedPackages.history.columns.user')}</TableCell>
+            <TableCell>
+              {t('installedPackages.history.columns.action')}
+            </TableCell>
+            <TableCell />
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {history.data.items.map(entry => (
+            <TableRow key={entry.id}>
+              <TableCell>
+                {new Date(entry.createdAt).toLocaleString()}
+              </TableCell>
+              <TableCell>
+                {entry.actor ?? t('installedPackages.history.unknownUser')}
+              </TableCell>
+              <TableCell>{actionLabels[entry.action]}</TableCell>
+              <TableCell align="right">
+                <Button
+                  size="small"
+                  variant="outlined"
+                  sx={{ textTransform: 'none' }}
+                  disabled={!canRestore || restoringRevision !== undefined}
+                  startIcon={
+                    restoringRevision === entry.id && (
+                      <CircularProgress size="16px" color="inherit" />
+                    )
+                  }
+                  onClick={() => onRestore(entry)}
+                >
+                  {t('installedPackages.history.restore')}
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  if (!open) {
+    return null;
+  }
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="md"
+      fullWidth
+      aria-labelledby="package-history-dialog"
+    >
+      <DialogTitle id="package-history-dialog" sx={{ p: '16px 20px' }}>
+        <Typography component="span" sx={{ fontWeight: 'bold' }}>
+          {title}
+        </Typography>
+        <IconButton
+          aria-label="close"
+          onClick={onClose}
+          title={t('common.close')}
+          size="large"
+          sx={{
+            position: 'absolute',
+            right: 1,
+            top: 1,
+            color: 'grey.700',
+          }}
+        >
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+      <DialogContent>{renderContent()}</DialogContent>
+    </Dialog>
+  );
+};
@@ -22,12 +22,16 @@ import { Link } from '@backstage/core-components';
 import EditIcon from '@mui/icons-material/Edit';
 import DeleteIcon from '@mui/icons-material/Delete';
 import FileDownloadOutlinedIcon from '@mui/icons-material/FileDownloadOutlined';
+import HistoryIcon from '@mui/icons-material/History';
 import IconButton from '@mui/material/IconButton';
 import Tooltip from '@mui/material/Tooltip';
 import Switch from '@mui/material/Switch';
 import Box from '@mui/material/Box';
 
-import { ExtensionsPackageInstallStatus } from '@red-hat-developer-hub/backstage-plugin-extensions-common';
+import {
+  ExtensionsPackageInstallStatus,
+  InstallationHistoryEntry,
+} from '@red-hat-developer-hub/backstage-plugin-extensions-common';
 
 import { useTranslation } from '../../hooks/useTranslation';
 import { packageInstallRouteRef, packageRouteRef } from '../../routes';
@@ -36,7 +40,9 @@ import { usePackage } from '../../hooks/usePackage';
 import { downloadPackageYAML } from '../../utils/downloadPackageYaml';
 import { usePluginConfigurationPermissions } from '../../hooks/usePluginConfigurationPermissions';
 import { useEnablePlugin } from '../../hooks/useEnablePlugin';
+import { useRollbackPackage } from '../../hooks/useRollbackPackage';
 import { useInstallationContext } from '../InstallationContext';
+import { PackageHistoryDialog } from './PackageHistoryDialog';
 
 export type InstalledPackageRow = {
   displayName: string;
@@ -387,6 +393,127 @@ export const TogglePackage = ({
   );
 };
 
+export const PackageHistory = ({
+  pkg,
+  isProductionEnv,
+  isInstallationEnabled,
+  onError,
+}: {
+  pkg: InstalledPackageRow;
+  isProductionEnv: boolean;
+  isInstallationEnabled: boolean;
+  onError?: (error: string) => void;
+}) => {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [restoringRevision, setRestoringRevision] = useState<number>();
+  const { installedPackages, setInstalledPackages } = useInstallationContext();
+  const { mutateAsync: rollbackPackage } = useRollbackPackage();
+  const packageEntity = usePackage(pkg.namespace, pkg.name);
+  const packageConfigPermission = usePluginConfigurationPermissions(
+    pkg.namespace!,
+    pkg.parentPlugin ?? '',
+  );
+
+  const disabledIcon = (
+    <Box component="span" display="inline-flex">
+      <IconButton
+        size="small"
+        disabled
+        sx={{ color: theme => theme.palette.action.disabled }}
+      >
+        <HistoryIcon />
+      </IconButton>
+    </Box>
+  );
+
+  if (!pkg.hasEntity || packageConfigPermission.data?.read !== 'ALLOW') {
+    return (
+      <Tooltip
+        title={
+          pkg.hasEntity
+            ? t('installedPackages.table.tooltips.noHistoryPermissions')
+            : t('installedPackages.table.tooltips.enableActions')
+        }
+      >
+        {disabledIcon}
+      </Tooltip>
+    );
+  }
+
+  if (pkg.missingDynamicArtifact) {
+    return (
+      <Tooltip
+        title={t('tooltips.missingDynamicArtifact' as any, { type: 'package' })}
+      >
+        {disabledIcon}
+      </Tooltip>
+    );
+  }
+
+  const canRestore =
+    !isProductionEnv &&
+    isInstallationEnabled &&
+    packageConfigPermission.data?.write === 'ALLOW';
+
+  const handleRestore = async (entry: InstallationHistoryEntry) => {
+    setRestoringRevision(entry.id);
+    try {
+      const res = await rollbackPackage({
+        namespace: pkg.namespace ?? 'default',
+        name: pkg.name!,
+        revision: entry.id,
+      });
+
+      if (res?.status === 'OK') {
+        setInstalledPackages({
+          ...installedPackages,
+          [pkg.packageName ?? pkg.name]: t('install.packageUpdated'),
+        });
+        setOpen(false);
+      } else {
+        const errorMessage =
+          (res as any)?.error?.message ?? res?.toString() ?? 'Unknown error';
+        onError?.(`Failed to restore package ${pkg.name}: ${errorMessage}`);
+      }
+    } catch (err: any) {
+      const errorMessage =
+        err?.error?.message ??
+        err?.message ??
+        err?.toString() ??
+        'Unknown error';
+      onError?.(`Failed to restore package ${pkg.name}: ${errorMessage}`);
+    } finally {
+      setRestoringRevision(undefined);
+    }
+  };
+
+  return (
+    <>
+      <Tooltip title={t('installedPackages.table.tooltips.packageHistory')}>
+        <IconButton
+          size="small"
+          sx={{ color: theme => theme.palette.text.primary }}
+          onClick={() => setOpen(true)}
+        >
+          <HistoryIcon />
+        </IconButton>
+      </Tooltip>
+      <PackageHistoryDialog
+        open={open}
+        title={t('installedPackages.history.title', {
+          name: pkg.displayName,
+        } as any)}
+        dynamicArtifact={packageEntity.data?.spec?.dynamicArtifact}
+        canRestore={canRestore}
+        restoringRevision={restoringRevision}
+        onRestore={handleRestore}
+        onClose={() => setOpen(false)}
+      />
+    </>
+  );
+};
+
 export const UninstallPackage = ({ pkg }: { pkg: InstalledPackageRow }) => {
   const { t } = useTranslation();
   if (!pkg.hasEntity || pkg.missingDynamicArtifact) {
@@ -43,7 +43,8 @@ const PluginInstallHeader = () => {
   const plugin = usePlugin(params.namespace, params.name);
   const isInstallationEnabled = extensionsConfig.data?.enabled ?? false;
   const isProductionEnvironment =
-    nodeEnvironment?.data?.nodeEnv === 'production';
+    nodeEnvironment?.data?.nodeEnv === 'production' &&
+    !nodeEnvironment.data.installationAllowedInProduction;
 
   const displayName = plugin.data?.metadata?.title ?? params.name;
   const getTitle = () => {
@@ -188,16 +188,33 @@ const extensionsTranslationDe = createTranslationMessages({
       'Sie haben keine Berechtigung, die Konfiguration zu bearbeiten. Wenden Sie sich an Ihren Administrator, um Zugriff oder Unterstützung anzufordern.',
     'installedPackages.table.tooltips.noTogglePermissions':
       'Sie haben keine Berechtigung, Pakete zu aktivieren oder zu deaktivieren. Wenden Sie sich an Ihren Administrator, um Zugriff oder Unterstützung anzufordern.',
+    'installedPackages.table.tooltips.noHistoryPermissions':
+      'Sie haben keine Berechtigung, den Konfigurationsverlauf anzuzeigen. Wenden Sie sich an Ihren Administrator, um Zugriff oder Unterstützung anzufordern.',
     'installedPackages.table.tooltips.editPackage':
       'Paket-Konfiguration bearbeiten',
     'installedPackages.table.tooltips.downloadPackage':
       'Paket-Konfiguration herunterladen',
     'installedPackages.table.tooltips.enablePackage': 'Paket aktivieren',
     'installedPackages.table.tooltips.disablePackage': 'Paket deaktivieren',
+    'installedPackages.table.tooltips.packageHistory':
+      'Konfigurationsverlauf anzeigen',
     'installedPackages.table.emptyMessages.noResults':
       'Keine Ergebnisse gefunden. Versuchen Sie einen anderen Suchbegriff.',
     'installedPackages.table.emptyMessages.noRecords':
       'Keine Datensätze zum Anzeigen',
+    'installedPackages.history.title': 'Konfigurationsverlauf von {{name}}',
+    'installedPackages.history.columns.date': 'Datum',
+    'installedPackages.history.columns.user': 'Benutzer',
+    'installedPackages.history.columns.action': 'Änderung',
+    'installedPackages.history.actions.update': 'Konfiguration aktualisiert',
+    'installedPackages.history.actions.enable': 'Paket aktiviert',
+    'installedPackages.history.actions.disable': 'Paket deaktiviert',
+    'installedPackages.history.actions.rollback':
+      'Konfiguration wiederhergestellt',
+    'installedPackages.history.restore': 'Wiederherstellen',
+    'installedPackages.history.unknownUser': 'Unbekannt',
+    'installedPackages.history.noRecords':
+      'Für dieses Paket wurden keine Konfigurationsänderungen aufgezeichnet.',
 
     // Plugin actions and states
     'actions.install': 'Installieren',
@@ -287,6 +304,18 @@ const extensionsTranslationDe = createTranslationMessages({
     'install.errors.missingPackageField':
       "Ungültiger Editor-Inhalt: 'package'-Feld fehlt im Element",
     'install.errors.failedToSave': 'Speichern fehlgeschlagen',
+    'install.plan.title': 'Installation überprüfen',
+    'install.plan.requiredPackage':
+      'Das Paket {{requiredBy}} benötigt das Paket {{package}}, das nicht installiert ist.',
+    'install.plan.confirm':
+      'Um die Konfiguration trotzdem zu speichern, wählen Sie die Schaltfläche erneut aus. Um die benötigten Pakete zu installieren, fügen Sie sie der Konfiguration hinzu.',
+    'install.configForm.view': 'Konfigurationsansicht',
+    'install.configForm.yaml': 'YAML',
+    'install.configForm.form': 'Formular',
+    'install.configForm.invalidYaml':
+      'Beheben Sie die Fehler in der YAML-Konfiguration, um sie als Formular zu bearbeiten.',
+    'install.configForm.packageNotConfigured':
+      'Das Paket {{package}} ist nicht in der Konfiguration enthalten.',
 
     // Loading and error states
     loading: 'Laden...',
@@ -188,16 +188,32 @@ const extensionsTranslationEs = createTranslationMessages({
       'No tienes permiso para editar la configuración. Contacta a tu administrador para solicitar acceso o asistencia.',
     'installedPackages.table.tooltips.noTogglePermissions':
       'No tienes permiso para habilitar o deshabilitar paquetes. Contacta a tu administrador para solicitar acceso o asistencia.',
+    'installedPackages.table.tooltips.noHistoryPermissions':
+      'No tiene permiso para ver el historial de configuración. Póngase en contacto con su administrador para solicitar acceso o asistencia.',
     'installedPackages.table.tooltips.editPackage':
       'Editar configuración del paquete',
     'installedPackages.table.tooltips.downloadPackage':
       'Descargar configuración del paquete',
     'installedPackages.table.tooltips.enablePackage': 'Habilitar paquete',
     'installedPackages.table.tooltips.disablePackage': 'Deshabilitar paquete',
+    'installedPackages.table.tooltips.packageHistory':
+      'Ver historial de configuración',
     'installedPackages.table.emptyMessages.noResults':
       'No se encontraron resultados. Intente con un término de búsqueda diferente.',
     'installedPackages.table.emptyMessages.noRecords':
       'No hay registros para mostrar',
+    'installedPackages.history.title': 'Historial de configuración de {{name}}',
+    'installedPackages.history.columns.date': 'Fecha',
+    'installedPackages.history.columns.user': 'Usuario',
+    'installedPackages.history.columns.action': 'Cambio',
+    'installedPackages.history.actions.update': 'Configuración actualizada',
+    'installedPackages.history.actions.enable': 'Paquete habilitado',
+    'installedPackages.history.actions.disable': 'Paquete deshabilitado',
+    'installedPackages.history.actions.rollback': 'Configuración restaurada',
+    'installedPackages.history.restore': 'Restaurar',
+    'installedPackages.history.unknownUser': 'Desconocido',
+    'installedPackages.history.noRecords':
+      'No se han registrado cambios de configuración para este paquete.',
 
     // Plugin actions and states
     'actions.install': 'Instalar',
@@ -287,6 +303,18 @@ const extensionsTranslationEs = createTranslationMessages({
     'install.errors.missingPackageField':
       "Contenido del editor inválido: falta el campo 'package' en el elemento",
     'install.errors.failedToSave': 'Error al guardar',
+    'install.plan.title': 'Revisar la instalación',
+    'install.plan.requiredPackage':
+      'El paquete {{requiredBy}} requiere el paquete {{package}}, que no está instalado.',
+    'install.plan.confirm':
+      'Para guardar la configuración de todos modos, seleccione el botón de nuevo. Para instalar los paquetes requeridos, agréguelos a la configuración.',
+    'install.configForm.view': 'Vista de la configuración',
+    'install.configForm.yaml': 'YAML',
+    'install.configForm.form': 'Formulario',
+    'install.configForm.invalidYaml':
+      'Corrija los errores de la configuración YAML para editarla como formulario.',
+    'install.configForm.packageNotConfigured':
+      'El paquete {{package}} no está incluido en la configuración.',
 
     // Loading and error states
     loading: 'Cargando...',
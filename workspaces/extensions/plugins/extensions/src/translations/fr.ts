@@ -162,16 +162,33 @@ const extensionsTranslationFr = createTranslationMessages({
       'Vous n’avez pas la permission de modifier la configuration. Contactez votre administrateur pour demander un accès ou une assistance.',
     'installedPackages.table.tooltips.noTogglePermissions':
       'Vous n’avez pas la permission d’activer ou de désactiver les paquets. Contactez votre administrateur pour demander un accès ou une assistance.',
+    'installedPackages.table.tooltips.noHistoryPermissions':
+      "Vous n'avez pas l'autorisation d'afficher l'historique de configuration. Contactez votre administrateur pour demander l'accès ou de l'aide.",
     'installedPackages.table.tooltips.editPackage':
       'Modifier la configuration du paquet',
     'installedPackages.table.tooltips.downloadPackage':
       'Télécharger la configuration du paquet',
     'installedPackages.table.tooltips.enablePackage': 'Activer le paquet',
     'installedPackages.table.tooltips.disablePackage': 'Désactiver le paquet',
+    'installedPackages.table.tooltips.packageHistory':
+      "Afficher l'historique de configuration",
     'installedPackages.table.emptyMessages.noResults':
       'Aucun résultat trouvé. Essayez un autre terme de recherche.',
     'installedPackages.table.emptyMessages.noRecords':
       'Aucun enregistrement à afficher',
+    'installedPackages.history.title':
+      'Historique de configuration de {{name}}',
+    'installedPackages.history.columns.date': 'Date',
+    'installedPackages.history.columns.user': 'Utilisateur',
+    'installedPackages.history.columns.action': 'Modification',
+    'installedPackages.history.actions.update': 'Configuration mise à jour',
+    'installedPackages.history.actions.enable': 'Paquet activé',
+    'installedPackages.history.actions.disable': 'Paquet désactivé',
+    'installedPackages.history.actions.rollback': 'Configuration restaurée',
+    'installedPackages.history.restore': 'Restaurer',
+    'installedPackages.history.unknownUser': 'Inconnu',
+    'installedPackages.history.noRecords':
+      "Aucune modification de configuration n'a été enregistrée pour ce paquet.",
     'actions.install': 'Installer',
     'actions.view': 'Voir',
     'actions.edit': 'Modifier',
@@ -251,6 +268,18 @@ const extensionsTranslationFr = createTranslationMessages({
     'install.errors.missingPackageField':
       "Contenu de l'éditeur non valide : champ « package » manquant dans l'élément",
     'install.errors.failedToSave': 'Échec de la sauvegarde',
+    'install.plan.title': "Vérifier l'installation",
+    'install.plan.requiredPackage':
+      "Le paquet {{requiredBy}} nécessite le paquet {{package}}, qui n'est pas installé.",
+    'install.plan.confirm':
+      'Pour enregistrer la configuration malgré tout, sélectionnez à nouveau le bouton. Pour installer les paquets requis, ajoutez-les à la configuration.',
+    'install.configForm.view': 'Vue de la configuration',
+    'install.configForm.yaml': 'YAML',
+    'install.configForm.form': 'Formulaire',
+    'install.configForm.invalidYaml':
+      'Corrigez les erreurs de la configuration YAML pour la modifier sous forme de formulaire.',
+    'install.configForm.packageNotConfigured':
+      "Le paquet {{package}} n'est pas inclus dans la configuration.",
     loading: 'Chargement en cours...',
     error: "Une erreur s'est produite",
     retry: 'Réessayer',
@@ -164,6 +164,8 @@ const extensionsTranslationIt = createTranslationMessages({
       "L'utente non dispone dell'autorizzazione per modificare la configurazione. Contattare l'amministratore per richiedere l'accesso o l'assistenza.",
     'installedPackages.table.tooltips.noTogglePermissions':
       "L'utente non dispone dell'autorizzazione per abilitare o disabilitare i pacchetti. Contattare l'amministratore per richiedere l'accesso o l'assistenza.",
+    'installedPackages.table.tooltips.noHistoryPermissions':
+      "Non si dispone dell'autorizzazione per visualizzare la cronologia della configurazione. Contattare l'amministratore per richiedere l'accesso o assistenza.",
     'installedPackages.table.tooltips.editPackage':
       'Modifica la configurazione del pacchetto',
     'installedPackages.table.tooltips.downloadPackage':
@@ -171,10 +173,25 @@ const extensionsTranslationIt = createTranslationMessages({
     'installedPackages.table.tooltips.enablePackage': 'Abilita il pacchetto',
     'installedPackages.table.tooltips.disablePackage':
       'Disabilita il pacchetto',
+    'installedPackages.table.tooltips.packageHistory':
+      'Visualizza la cronologia della configurazione',
     'installedPackages.table.emptyMessages.noResults':
       'Nessun risultato trovato. Provare un termine di ricerca diverso.',
     'installedPackages.table.emptyMessages.noRecords':
       'Nessun record da visualizzare',
+    'installedPackages.history.title':
+      'Cronologia della configurazione di {{name}}',
+    'installedPackages.history.columns.date': 'Data',
+    'installedPackages.history.columns.user': 'Utente',
+    'installedPackages.history.columns.action': 'Modifica',
+    'installedPackages.history.actions.update': 'Configurazione aggiornata',
+    'installedPackages.history.actions.enable': 'Pacchetto abilitato',
+    'installedPackages.history.actions.disable': 'Pacchetto disabilitato',
+    'installedPackages.history.actions.rollback': 'Configurazione ripristinata',
+    'installedPackages.history.restore': 'Ripristina',
+    'installedPackages.history.unknownUser': 'Sconosciuto',
+    'installedPackages.history.noRecords':
+      'Non sono state registrate modifiche alla configurazione per questo pacchetto.',
     'actions.install': 'Installa',
     'actions.view': 'Visualizza',
     'actions.edit': 'Modifica',
@@ -254,6 +271,18 @@ const extensionsTranslationIt = createTranslationMessages({
     'install.errors.missingPackageField':
       "Contenuto dell'editor non valido: campo 'pacchetto' mancante nell'elemento",
     'install.errors.failedToSave': 'Impossibile salvare',
+    'install.plan.title': "Verificare l'installazione",
+    'install.plan.requiredPackage':
+      'Il pacchetto {{requiredBy}} richiede il pacchetto {{package}}, che non è installato.',
+    'install.plan.confirm':
+      'Per salvare comunque la configurazione, selezionare di nuovo il pulsante. Per installare i pacchetti richiesti, aggiungerli alla configurazione.',
+    'install.configForm.view': 'Vista della configurazione',
+    'install.configForm.yaml': 'YAML',
+    'install.configForm.form': 'Modulo',
+    'install.configForm.invalidYaml':
+      'Correggere gli errori nella configurazione YAML per modificarla come modulo.',
+    'install.configForm.packageNotConfigured':
+      'Il pacchetto {{package}} non è incluso nella configurazione.',
     loading: 'Caricamento...',
     error: 'Si è verificato un errore',
     retry: 'Riprovare',
@@ -168,15 +168,30 @@ const extensionsTranslationJa = createTranslationMessages({
       '設定を編集する権限がありません。管理者に連絡し、アクセス権を要求またはサポートを依頼してください。',
     'installedPackages.table.tooltips.noTogglePermissions':
       'パッケージを有効化または無効化する権限がありません。管理者に連絡し、アクセス権を要求またはサポートを依頼してください。',
+    'installedPackages.table.tooltips.noHistoryPermissions':
+      '設定履歴を表示する権限がありません。アクセス権またはサポートについては管理者にお問い合わせください。',
     'installedPackages.table.tooltips.editPackage': 'パッケージ設定を編集する',
     'installedPackages.table.tooltips.downloadPackage':
       'パッケージ設定をダウンロードする',
     'installedPackages.table.tooltips.enablePackage': 'パッケージを有効にする',
     'installedPackages.table.tooltips.disablePackage': 'パッケージを無効にする',
+    'installedPackages.table.tooltips.packageHistory': '設定履歴を表示',
     'installedPackages.table.emptyMessages.noResults':
       '結果が見つかりません。別の検索語句を試してください。',
     'installedPackages.table.emptyMessages.noRecords':
       '表示するレコードがありません',
+    'installedPackages.history.title': '{{name}} の設定履歴',
+    'installedPackages.history.columns.date': '日付',
+    'installedPackages.history.columns.user': 'ユーザー',
+    'installedPackages.history.columns.action': '変更',
+    'installedPackages.history.actions.update': '設定が更新されました',
+    'installedPackages.history.actions.enable': 'パッケージが有効になりました',
+    'installedPackages.history.actions.disable': 'パッケージが無効になりました',
+    'installedPackages.history.actions.rollback': '設定が復元されました',
+    'installedPackages.history.restore': '復元',
+    'installedPackages.history.unknownUser': '不明',
+    'installedPackages.history.noRecords':
+      'このパッケージの設定変更は記録されていません。',
     'actions.install': 'インストール',
     'actions.view': '表示',
     'actions.edit': '編集',
@@ -256,6 +271,18 @@ const extensionsTranslationJa = createTranslationMessages({
     'install.errors.missingPackageField':
       "無効なエディターコンテンツ: 項目に 'package' フィールドがありません",
     'install.errors.failedToSave': '保存に失敗しました',
+    'install.plan.title': 'インストールの確認',
+    'install.plan.requiredPackage':
+      'パッケージ {{requiredBy}} には、インストールされていないパッケージ {{package}} が必要です。',
+    'install.plan.confirm':
+      'それでも設定を保存するには、もう一度ボタンを選択してください。必要なパッケージをインストールするには、設定に追加してください。',
+    'install.configForm.view': '設定ビュー',
+    'install.configForm.yaml': 'YAML',
+    'install.configForm.form': 'フォーム',
+    'install.configForm.invalidYaml':
+      'フォームとして編集するには、YAML 設定のエラーを修正してください。',
+    'install.configForm.packageNotConfigured':
+      'パッケージ {{package}} は設定に含まれていません。',
     loading: '読み込み中...',
     error: 'エラーが発生しました',
     retry: '再試行',
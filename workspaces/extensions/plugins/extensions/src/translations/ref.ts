@@ -213,16 +213,37 @@ export const extensionsMessages = {
           "You don't have permission to edit the configuration. Contact your administrator to request access or assistance.",
         noTogglePermissions:
           "You don't have permission to enable or disable packages. Contact your administrator to request access or assistance.",
+        noHistoryPermissions:
+          "You don't have permission to view the configuration history. Contact your administrator to request access or assistance.",
         editPackage: 'Edit package configuration',
         downloadPackage: 'Download package configuration',
         enablePackage: 'Enable package',
         disablePackage: 'Disable package',
+        packageHistory: 'View configuration history',
       },
       emptyMessages: {
         noResults: 'No results found. Try a different search term.',
         noRecords: 'No records to display',
       },
     },
+    history: {
+      title: 'Configuration history of {{name}}',
+      columns: {
+        date: 'Date',
+        user: 'User',
+        action: 'Change',
+      },
+      actions: {
+        update: 'Configuration updated',
+        enable: 'Package enabled',
+        disable: 'Package disabled',
+        rollback: 'Configuration restored',
+      },
+      restore: 'Restore',
+      unknownUser: 'Unknown',
+      noRecords:
+        'No configuration changes have been recorded for this package.',
+    },
   },
 
   // Plugin actions and states
@@ -324,6 +345,22 @@ export const extensionsMessages = {
         "Invalid editor content: 'package' field missing in item",
       failedToSave: 'Failed to save',
     },
+    plan: {
+      title: 'Review the installation',
+      requiredPackage:
+        'The package {{requiredBy}} requires the package {{package}}, which is not installed.',
+      confirm:
+        'To save the configuration anyway, select the button again. To install the required packages, add them to the configuration.',
+    },
+    configForm: {
+      view: 'Configuration view',
+      yaml: 'YAML',
+      form: 'Form',
+      invalidYaml:
+        'Fix the errors in the YAML configuration to edit it as a form.',
+      packageNotConfigured:
+        'The package {{package}} is not included in the configuration.',
+    },
   },
 
   // Loading and error states
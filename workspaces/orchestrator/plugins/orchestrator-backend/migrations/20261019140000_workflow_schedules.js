@@ -0,0 +1,76 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('workflow_schedules', table => {
+    table.comment('Stores the schedules of recurring workflow executions');
+    table.string('id').primary().comment('Primary key');
+    table
+      .string('workflow_id')
+      .notNullable()
+      .index()
+      .comment('The ID of the scheduled workflow');
+    table
+      .string('cron')
+      .notNullable()
+      .comment('The cron expression of the schedule');
+    table
+      .text('input_data')
+      .nullable()
+      .comment('The JSON input data the workflow is executed with');
+    table
+      .string('run_as')
+      .notNullable()
+      .comment('The entity ref of the user the workflow is executed as');
+    table
+      .boolean('enabled')
+      .notNullable()
+      .defaultTo(true)
+      .comment('Whether the scheduled executions are run');
+    table
+      .timestamp('created_at', { useTz: true })
+      .notNullable()
+      .defaultTo(knex.fn.now())
+      .comment('The time the schedule was created');
+    table
+      .timestamp('updated_at', { useTz: true })
+      .notNullable()
+      .defaultTo(knex.fn.now())
+      .comment('The time the schedule was last changed');
+    table
+      .timestamp('last_run_at', { useTz: true })
+      .nullable()
+      .comment('The time of the last execution');
+    table
+      .string('last_instance_id')
+      .nullable()
+      .comment('The ID of the workflow instance started by the last execution');
+    table
+      .text('last_run_error')
+      .nullable()
+      .comment('The error of the last execution if it could not be started');
+  });
+};
+
+/**
+ * @param {import('knex').Knex} knex
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTable('workflow_schedules');
+};
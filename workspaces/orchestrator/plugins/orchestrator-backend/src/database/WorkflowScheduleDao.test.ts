@@ -0,0 +1,126 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  mockServices,
+  TestDatabases,
+  type TestDatabaseId,
+} from '@backstage/backend-test-utils';
+
+import { migrate } from './migration';
+import { WorkflowScheduleDao } from './WorkflowScheduleDao';
+
+const databases = TestDatabases.create({
+  ids: ['POSTGRES_15', 'SQLITE_3'],
+});
+
+async function createDatabase(databaseId: TestDatabaseId) {
+  const knex = await databases.init(databaseId);
+  const mockDatabaseService = mockServices.database.mock({
+    getClient: async () => knex,
+    migrations: { skip: false },
+  });
+  await migrate(mockDatabaseService);
+  return knex;
+}
+
+describe('WorkflowScheduleDao', () => {
+  it.each(databases.eachSupportedId())(
+    'should create, find, update and delete schedules - %p',
+    async databaseId => {
+      const knex = await createDatabase(databaseId);
+      const dao = new WorkflowScheduleDao(knex);
+
+      const created = await dao.createSchedule('workflow1', {
+        cron: '0 * * * *',
+        inputData: { name: 'nightly' },
+        runAs: 'user:default/alice',
+        enabled: true,
+      });
+      await dao.createSchedule('workflow2', {
+        cron: '*/5 * * * *',
+        runAs: 'user:default/bob',
+        enabled: false,
+      });
+
+      expect(created).toEqual(
+        expect.objectContaining({
+          workflowId: 'workflow1',
+          cron: '0 * * * *',
+          inputData: { name: 'nightly' },
+          runAs: 'user:default/alice',
+          enabled: true,
+          lastRunAt: undefined,
+        }),
+      );
+      expect(
+        (await dao.findSchedules({ workflowId: 'workflow1' })).map(s => s.id),
+      ).toEqual([created.id]);
+      expect(
+        (await dao.findSchedules({ enabled: true })).map(s => s.workflowId),
+      ).toEqual(['workflow1']);
+
+      const updated = await dao.updateSchedule(created.id, {
+        cron: '30 2 * * *',
+        runAs: 'user:default/bob',
+        enabled: false,
+      });
+      expect(updated).toEqual(
+        expect.objectContaining({
+          cron: '30 2 * * *',
+          inputData: undefined,
+          runAs: 'user:default/bob',
+          enabled: false,
+        }),
+      );
+
+      expect(await dao.deleteSchedule(created.id)).toBe(true);
+      expect(await dao.deleteSchedule(created.id)).toBe(false);
+      expect(await dao.findScheduleById(created.id)).toBeUndefined();
+    },
+  );
+
+  it.each(databases.eachSupportedId())(
+    'should record the runs of a schedule - %p',
+    async databaseId => {
+      const knex = await createDatabase(databaseId);
+      const dao = new WorkflowScheduleDao(knex);
+      const { id } = await dao.createSchedule('workflow1', {
+        cron: '0 * * * *',
+        runAs: 'user:default/alice',
+        enabled: true,
+      });
+
+      const runAt = new Date('2026-10-19T10:00:00.000Z');
+      await dao.recordRun(id, { runAt, instanceId: 'instance1' });
+      expect(await dao.findScheduleById(id)).toEqual(
+        expect.objectContaining({
+          lastRunAt: runAt,
+          lastInstanceId: 'instance1',
+          lastRunError: undefined,
+        }),
+      );
+
+      await dao.recordRun(id, { runAt, error: 'Workflow is not available' });
+      expect(await dao.findScheduleById(id)).toEqual(
+        expect.objectContaining({
+          lastInstanceId: undefined,
+          lastRunError: 'Workflow is not available',
+        }),
+      );
+    },
+  );
+});
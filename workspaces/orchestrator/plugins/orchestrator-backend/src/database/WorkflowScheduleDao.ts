@@ -0,0 +1,150 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { JsonObject } from '@backstage/types';
+
+import { Knex } from 'knex';
+
+import { randomUUID } from 'crypto';
+
+const TABLE_NAME = 'workflow_schedules';
+
+type WorkflowScheduleRow = {
+  id: string;
+  workflow_id: string;
+  cron: string;
+  input_data: string | null;
+  run_as: string;
+  enabled: boolean | number;
+  created_at: Date | string;
+  updated_at: Date | string;
+  last_run_at: Date | string | null;
+  last_instance_id: string | null;
+  last_run_error: string | null;
+};
+
+export type WorkflowSchedule = {
+  id: string;
+  workflowId: string;
+  cron: string;
+  inputData?: JsonObject;
+  runAs: string;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  lastRunAt?: Date;
+  lastInstanceId?: string;
+  lastRunError?: string;
+};
+
+export type WorkflowScheduleChange = Pick<
+  WorkflowSchedule,
+  'cron' | 'inputData' | 'runAs' | 'enabled'
+>;
+
+const toSchedule = (row: WorkflowScheduleRow): WorkflowSchedule => ({
+  id: row.id,
+  workflowId: row.workflow_id,
+  cron: row.cron,
+  inputData: row.input_data ? JSON.parse(row.input_data) : undefined,
+  runAs: row.run_as,
+  enabled: !!row.enabled,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+  lastRunAt: row.last_run_at ? new Date(row.last_run_at) : undefined,
+  lastInstanceId: row.last_instance_id ?? undefined,
+  lastRunError: row.last_run_error ?? undefined,
+});
+
+const toColumns = (change: WorkflowScheduleChange) => ({
+  cron: change.cron,
+  input_data: change.inputData ? JSON.stringify(change.inputData) : null,
+  run_as: change.runAs,
+  enabled: change.enabled,
+});
+
+export class WorkflowScheduleDao {
+  constructor(private readonly knex: Knex) {}
+
+  async findSchedules(options: {
+    workflowId?: string;
+    enabled?: boolean;
+  }): Promise<WorkflowSchedule[]> {
+    const query = this.knex<WorkflowScheduleRow>(TABLE_NAME);
+    if (options.workflowId) {
+      query.where('workflow_id', options.workflowId);
+    }
+    if (options.enabled !== undefined) {
+      query.where('enabled', options.enabled);
+    }
+    const rows = await query.orderBy('created_at', 'asc');
+    return (rows as WorkflowScheduleRow[]).map(toSchedule);
+  }
+
+  async findScheduleById(id: string): Promise<WorkflowSchedule | undefined> {
+    const row = await this.knex<WorkflowScheduleRow>(TABLE_NAME)
+      .where('id', id)
+      .first();
+    return row ? toSchedule(row as WorkflowScheduleRow) : undefined;
+  }
+
+  async createSchedule(
+    workflowId: string,
+    change: WorkflowScheduleChange,
+  ): Promise<WorkflowSchedule> {
+    const id = randomUUID();
+    const now = new Date();
+    await this.knex(TABLE_NAME).insert({
+      id,
+      workflow_id: workflowId,
+      ...toColumns(change),
+      created_at: now,
+      updated_at: now,
+    });
+    return (await this.findScheduleById(id))!;
+  }
+
+  async updateSchedule(
+    id: string,
+    change: WorkflowScheduleChange,
+  ): Promise<WorkflowSchedule | undefined> {
+    await this.knex(TABLE_NAME)
+      .where('id', id)
+      .update({ ...toColumns(change), updated_at: new Date() });
+    return this.findScheduleById(id);
+  }
+
+  async deleteSchedule(id: string): Promise<boolean> {
+    const deleted = await this.knex(TABLE_NAME).where('id', id).delete();
+    return deleted > 0;
+  }
+
+  /**
+   * Records an execution of a schedule, it does not change the update time of the schedule.
+   */
+  async recordRun(
+    id: string,
+    run: { runAt: Date; instanceId?: string; error?: string },
+  ): Promise<void> {
+    await this.knex(TABLE_NAME)
+      .where('id', id)
+      .update({
+        last_run_at: run.runAt,
+        last_instance_id: run.instanceId ?? null,
+        last_run_error: run.error ?? null,
+      });
+  }
+}
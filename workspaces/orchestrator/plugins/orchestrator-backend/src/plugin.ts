@@ -59,6 +59,7 @@ export const orchestratorPlugin = createBackendPlugin({
         httpAuth: coreServices.httpAuth,
         http: coreServices.httpRouter,
         userInfo: coreServices.userInfo,
+        database: coreServices.database,
       },
       async init(props) {
         const { http } = props;
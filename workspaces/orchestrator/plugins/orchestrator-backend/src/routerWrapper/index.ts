@@ -16,6 +16,7 @@
 
 import type {
   AuditorService,
+  DatabaseService,
   DiscoveryService,
   HttpAuthService,
   LoggerService,
@@ -44,6 +45,7 @@ export interface RouterOptions {
   permissions: PermissionsService;
   httpAuth: HttpAuthService;
   userInfo: UserInfoService;
+  database: DatabaseService;
   workflowLogsProvidersRegistry: WorkflowLogsProvidersRegistry;
 }
 
@@ -76,6 +78,7 @@ export async function createRouter(
     permissions: args.permissions,
     httpAuth: args.httpAuth,
     userInfo: args.userInfo,
+    database: args.database,
     workflowLogsProvidersRegistry: args.workflowLogsProvidersRegistry,
   });
 }
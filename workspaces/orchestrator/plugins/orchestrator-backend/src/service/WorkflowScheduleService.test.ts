@@ -0,0 +1,291 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { mockServices } from '@backstage/backend-test-utils';
+import { InputError, NotAllowedError, NotFoundError } from '@backstage/errors';
+
+import {
+  WorkflowSchedule,
+  WorkflowScheduleDao,
+} from '../database/WorkflowScheduleDao';
+import { DataIndexService } from './DataIndexService';
+import { SonataFlowService } from './SonataFlowService';
+import { WorkflowScheduleService } from './WorkflowScheduleService';
+
+const createScheduleMock = (
+  overrides: Partial<WorkflowSchedule> = {},
+): WorkflowSchedule => ({
+  id: 'schedule1',
+  workflowId: 'workflow1',
+  cron: '0 * * * *',
+  inputData: { name: 'nightly' },
+  runAs: 'user:default/alice',
+  enabled: true,
+  createdAt: new Date('2026-10-19T08:30:00.000Z'),
+  updatedAt: new Date('2026-10-19T08:30:00.000Z'),
+  ...overrides,
+});
+
+// Mocked dependencies
+const workflowScheduleDaoMock = {
+  findSchedules: jest.fn(),
+  findScheduleById: jest.fn(),
+  createSchedule: jest.fn(),
+  updateSchedule: jest.fn(),
+  deleteSchedule: jest.fn(),
+  recordRun: jest.fn(),
+};
+const dataIndexServiceMock = {
+  fetchWorkflowInfo: jest.fn(),
+};
+const sonataFlowServiceMock = {
+  executeWorkflow: jest.fn(),
+};
+
+// Target
+const workflowScheduleService = new WorkflowScheduleService(
+  mockServices.logger.mock(),
+  workflowScheduleDaoMock as unknown as WorkflowScheduleDao,
+  dataIndexServiceMock as unknown as DataIndexService,
+  sonataFlowServiceMock as unknown as SonataFlowService,
+);
+
+describe('WorkflowScheduleService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createSchedule', () => {
+    it('should create an enabled schedule run as the given user', async () => {
+      workflowScheduleDaoMock.createSchedule.mockResolvedValue(
+        createScheduleMock(),
+      );
+
+      const result = await workflowScheduleService.createSchedule(
+        'workflow1',
+        { cron: '0 * * * *', inputData: { name: 'nightly' } },
+        'user:default/alice',
+      );
+
+      expect(workflowScheduleDaoMock.createSchedule).toHaveBeenCalledWith(
+        'workflow1',
+        {
+          cron: '0 * * * *',
+          inputData: { name: 'nightly' },
+          runAs: 'user:default/alice',
+          enabled: true,
+        },
+      );
+      expect(result).toEqual({
+        id: 'schedule1',
+        workflowId: 'workflow1',
+        cron: '0 * * * *',
+        inputData: { name: 'nightly' },
+        enabled: true,
+        runAs: 'user:default/alice',
+        createdAt: '2026-10-19T08:30:00.000Z',
+        nextRunAt: '2026-10-19T09:00:00.000Z',
+        lastRunAt: undefined,
+        lastInstanceId: undefined,
+        lastRunError: undefined,
+      });
+    });
+
+    it('should reject an invalid cron expression', async () => {
+      await expect(
+        workflowScheduleService.createSchedule(
+          'workflow1',
+          { cron: 'every hour' },
+          'user:default/alice',
+        ),
+      ).rejects.toThrow(InputError);
+      expect(workflowScheduleDaoMock.createSchedule).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSchedules', () => {
+    it('should return the schedules of the workflow', async () => {
+      workflowScheduleDaoMock.findSchedules.mockResolvedValue([
+        createScheduleMock(),
+      ]);
+
+      const result = await workflowScheduleService.getSchedules(
+        'workflow1',
+        true,
+      );
+
+      expect(workflowScheduleDaoMock.findSchedules).toHaveBeenCalledWith({
+        workflowId: 'workflow1',
+      });
+      expect(result.schedules).toEqual([
+        expect.objectContaining({
+          id: 'schedule1',
+          inputData: { name: 'nightly' },
+          runAs: 'user:default/alice',
+        }),
+      ]);
+    });
+
+    it('should leave out the input data when it is not requested', async () => {
+      workflowScheduleDaoMock.findSchedules.mockResolvedValue([
+        createScheduleMock(),
+      ]);
+
+      const result = await workflowScheduleService.getSchedules(
+        'workflow1',
+        false,
+      );
+
+      expect(result.schedules[0].inputData).toBeUndefined();
+      expect(result.schedules[0].cron).toEqual('0 * * * *');
+    });
+  });
+
+  describe('updateSchedule', () => {
+    it('should keep running the schedule as the user who created it', async () => {
+      workflowScheduleDaoMock.findScheduleById.mockResolvedValue(
+        createScheduleMock(),
+      );
+      workflowScheduleDaoMock.updateSchedule.mockResolvedValue(
+        createScheduleMock({ enabled: false }),
+      );
+
+      const result = await workflowScheduleService.updateSchedule(
+        'workflow1',
+        'schedule1',
+        { cron: '0 * * * *', enabled: false },
+        'user:default/alice',
+      );
+
+      expect(workflowScheduleDaoMock.updateSchedule).toHaveBeenCalledWith(
+        'schedule1',
+        {
+          cron: '0 * * * *',
+          inputData: undefined,
+          runAs: 'user:default/alice',
+          enabled: false,
+        },
+      );
+      expect(result.nextRunAt).toBeUndefined();
+    });
+
+    it('should not allow another user to update the schedule', async () => {
+      workflowScheduleDaoMock.findScheduleById.mockResolvedValue(
+        createScheduleMock(),
+      );
+
+      await expect(
+        workflowScheduleService.updateSchedule(
+          'workflow1',
+          'schedule1',
+          { cron: '0 * * * *', enabled: false },
+          'user:default/bob',
+        ),
+      ).rejects.toThrow(NotAllowedError);
+      expect(workflowScheduleDaoMock.updateSchedule).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the schedule belongs to another workflow', async () => {
+      workflowScheduleDaoMock.findScheduleById.mockResolvedValue(
+        createScheduleMock({ workflowId: 'workflow2' }),
+      );
+
+      await expect(
+        workflowScheduleService.updateSchedule(
+          'workflow1',
+          'schedule1',
+          { cron: '0 * * * *' },
+          'user:default/bob',
+        ),
+      ).rejects.toThrow(NotFoundError);
+      expect(workflowScheduleDaoMock.updateSchedule).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runTask', () => {
+    const now = new Date('2026-10-19T10:00:30.000Z');
+
+    beforeEach(() => {
+      dataIndexServiceMock.fetchWorkflowInfo.mockResolvedValue({
+        id: 'workflow1',
+        serviceUrl: 'http://localhost',
+      });
+    });
+
+    it('should execute the due schedules and record the started instances', async () => {
+      workflowScheduleDaoMock.findSchedules.mockResolvedValue([
+        createScheduleMock({
+          lastRunAt: new Date('2026-10-19T09:00:00.000Z'),
+        }),
+        createScheduleMock({
+          id: 'schedule2',
+          lastRunAt: new Date('2026-10-19T10:00:00.000Z'),
+        }),
+      ]);
+      sonataFlowServiceMock.executeWorkflow.mockResolvedValue({
+        id: 'instance1',
+      });
+
+      await workflowScheduleService.runTask(now);
+
+      expect(workflowScheduleDaoMock.findSchedules).toHaveBeenCalledWith({
+        enabled: true,
+      });
+      expect(sonataFlowServiceMock.executeWorkflow).toHaveBeenCalledTimes(1);
+      expect(sonataFlowServiceMock.executeWorkflow).toHaveBeenCalledWith({
+        definitionId: 'workflow1',
+        serviceUrl: 'http://localhost',
+        inputData: {
+          workflowdata: { name: 'nightly' },
+          initiatorEntity: 'user:default/alice',
+        },
+      });
+      expect(workflowScheduleDaoMock.recordRun).toHaveBeenCalledWith(
+        'schedule1',
+        { runAt: now, instanceId: 'instance1' },
+      );
+    });
+
+    it('should not run missed executions of a re-enabled schedule', async () => {
+      workflowScheduleDaoMock.findSchedules.mockResolvedValue([
+        createScheduleMock({
+          lastRunAt: new Date('2026-10-18T09:00:00.000Z'),
+          updatedAt: new Date('2026-10-19T10:00:10.000Z'),
+        }),
+      ]);
+
+      await workflowScheduleService.runTask(now);
+
+      expect(sonataFlowServiceMock.executeWorkflow).not.toHaveBeenCalled();
+    });
+
+    it('should record the error of a failed execution', async () => {
+      workflowScheduleDaoMock.findSchedules.mockResolvedValue([
+        createScheduleMock(),
+      ]);
+      sonataFlowServiceMock.executeWorkflow.mockRejectedValue(
+        new Error('Workflow service is down'),
+      );
+
+      await workflowScheduleService.runTask(now);
+
+      expect(workflowScheduleDaoMock.recordRun).toHaveBeenCalledWith(
+        'schedule1',
+        { runAt: now, error: 'Workflow service is down' },
+      );
+    });
+  });
+});
@@ -0,0 +1,250 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LoggerService, SchedulerService } from '@backstage/backend-plugin-api';
+import { InputError, NotAllowedError, NotFoundError } from '@backstage/errors';
+import type { JsonObject } from '@backstage/types';
+
+import { CronTime } from 'cron';
+
+import {
+  WorkflowScheduleDTO,
+  WorkflowScheduleListResultDTO,
+  WorkflowScheduleRequestDTO,
+} from '@red-hat-developer-hub/backstage-plugin-orchestrator-common';
+
+import {
+  WorkflowSchedule,
+  WorkflowScheduleDao,
+} from '../database/WorkflowScheduleDao';
+import { DataIndexService } from './DataIndexService';
+import { SonataFlowService } from './SonataFlowService';
+
+export class WorkflowScheduleService {
+  private readonly TASK_ID = 'task__Orchestrator__WorkflowScheduleService';
+  private readonly DEFAULT_FREQUENCY_IN_SECONDS = 60;
+  private readonly DEFAULT_TIMEOUT_IN_MINUTES = 10;
+
+  constructor(
+    private readonly logger: LoggerService,
+    private readonly workflowScheduleDao: WorkflowScheduleDao,
+    private readonly dataIndexService: DataIndexService,
+    private readonly sonataFlowService: SonataFlowService,
+  ) {}
+
+  /**
+   * The input data may contain secrets, so it is left out unless the caller is allowed to run the workflow.
+   */
+  public async getSchedules(
+    workflowId: string,
+    includeInputData: boolean,
+  ): Promise<WorkflowScheduleListResultDTO> {
+    const schedules = await this.workflowScheduleDao.findSchedules({
+      workflowId,
+    });
+    return {
+      schedules: schedules.map(schedule =>
+        this.toDTO(schedule, includeInputData),
+      ),
+    };
+  }
+
+  public async createSchedule(
+    workflowId: string,
+    request: WorkflowScheduleRequestDTO,
+    runAs: string,
+  ): Promise<WorkflowScheduleDTO> {
+    this.parseCron(request.cron);
+    const schedule = await this.workflowScheduleDao.createSchedule(workflowId, {
+      cron: request.cron,
+      inputData: request.inputData as JsonObject | undefined,
+      runAs,
+      enabled: request.enabled ?? true,
+    });
+    return this.toDTO(schedule);
+  }
+
+  /**
+   * A schedule keeps running as the user who created it, so only that user can change what it runs.
+   */
+  public async updateSchedule(
+    workflowId: string,
+    scheduleId: string,
+    request: WorkflowScheduleRequestDTO,
+    userEntityRef: string,
+  ): Promise<WorkflowScheduleDTO> {
+    const existing = await this.getSchedule(workflowId, scheduleId);
+    if (existing.runAs !== userEntityRef) {
+      throw new NotAllowedError(
+        `Schedule ${scheduleId} of workflow ${workflowId} runs as ${existing.runAs} and can only be updated by that user`,
+      );
+    }
+    this.parseCron(request.cron);
+    const schedule = await this.workflowScheduleDao.updateSchedule(
+      existing.id,
+      {
+        cron: request.cron,
+        inputData: request.inputData as JsonObject | undefined,
+        runAs: existing.runAs,
+        enabled: request.enabled ?? existing.enabled,
+      },
+    );
+    return this.toDTO(schedule ?? existing);
+  }
+
+  public async deleteSchedule(
+    workflowId: string,
+    scheduleId: string,
+  ): Promise<void> {
+    const existing = await this.getSchedule(workflowId, scheduleId);
+    await this.workflowScheduleDao.deleteSchedule(existing.id);
+  }
+
+  public schedule(args: {
+    scheduler: SchedulerService;
+    frequencyInSeconds?: number;
+    timeoutInMinutes?: number;
+  }): void {
+    const {
+      scheduler,
+      frequencyInSeconds = this.DEFAULT_FREQUENCY_IN_SECONDS,
+      timeoutInMinutes = this.DEFAULT_TIMEOUT_IN_MINUTES,
+    } = args;
+
+    scheduler.scheduleTask({
+      id: this.TASK_ID,
+      frequency: { seconds: frequencyInSeconds },
+      timeout: { minutes: timeoutInMinutes },
+      fn: async () => {
+        await this.runTask();
+      },
+    });
+  }
+
+  /**
+   * Starts the executions of the enabled schedules whose next run time has passed.
+   */
+  public async runTask(now: Date = new Date()): Promise<void> {
+    try {
+      const schedules = await this.workflowScheduleDao.findSchedules({
+        enabled: true,
+      });
+      const dueSchedules = schedules.filter(schedule => {
+        const nextRunAt = this.getNextRunAt(schedule);
+        return nextRunAt && nextRunAt <= now;
+      });
+      await Promise.all(
+        dueSchedules.map(schedule => this.executeSchedule(schedule, now)),
+      );
+    } catch (error) {
+      this.logger.error(`Error running ${this.TASK_ID}: ${error}`);
+    }
+  }
+
+  private async executeSchedule(
+    schedule: WorkflowSchedule,
+    runAt: Date,
+  ): Promise<void> {
+    const { id, workflowId } = schedule;
+    try {
+      const definition =
+        await this.dataIndexService.fetchWorkflowInfo(workflowId);
+      if (!definition?.serviceUrl) {
+        throw new Error(`ServiceURL is not defined for workflow ${workflowId}`);
+      }
+      const executionResponse = await this.sonataFlowService.executeWorkflow({
+        definitionId: workflowId,
+        serviceUrl: definition.serviceUrl,
+        inputData: {
+          workflowdata: schedule.inputData,
+          initiatorEntity: schedule.runAs,
+        },
+      });
+      if (!executionResponse?.id) {
+        throw new Error(`Couldn't execute workflow ${workflowId}`);
+      }
+      this.logger.info(
+        `Schedule ${id} started instance ${executionResponse.id} of workflow ${workflowId}`,
+      );
+      await this.workflowScheduleDao.recordRun(id, {
+        runAt,
+        instanceId: executionResponse.id,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(
+        `Schedule ${id} failed to execute workflow ${workflowId}: ${message}`,
+      );
+      await this.workflowScheduleDao.recordRun(id, { runAt, error: message });
+    }
+  }
+
+  private async getSchedule(
+    workflowId: string,
+    scheduleId: string,
+  ): Promise<WorkflowSchedule> {
+    const schedule =
+      await this.workflowScheduleDao.findScheduleById(scheduleId);
+    if (!schedule || schedule.workflowId !== workflowId) {
+      throw new NotFoundError(
+        `Schedule ${scheduleId} of workflow ${workflowId} not found`,
+      );
+    }
+    return schedule;
+  }
+
+  private parseCron(cron: string): CronTime {
+    try {
+      return new CronTime(cron);
+    } catch (error) {
+      throw new InputError(`Invalid cron expression '${cron}': ${error}`);
+    }
+  }
+
+  /**
+   * The next run is computed from the last run, or from the last change of the schedule
+   * if it was changed since, so that re-enabling a schedule does not trigger missed runs.
+   */
+  private getNextRunAt(schedule: WorkflowSchedule): Date | undefined {
+    if (!schedule.enabled) {
+      return undefined;
+    }
+    const from =
+      schedule.lastRunAt && schedule.lastRunAt > schedule.updatedAt
+        ? schedule.lastRunAt
+        : schedule.updatedAt;
+    return new CronTime(schedule.cron).getNextDateFrom(from).toJSDate();
+  }
+
+  private toDTO(
+    schedule: WorkflowSchedule,
+    includeInputData = true,
+  ): WorkflowScheduleDTO {
+    return {
+      id: schedule.id,
+      workflowId: schedule.workflowId,
+      cron: schedule.cron,
+      inputData: includeInputData ? schedule.inputData : undefined,
+      enabled: schedule.enabled,
+      runAs: schedule.runAs,
+      createdAt: schedule.createdAt.toISOString(),
+      nextRunAt: this.getNextRunAt(schedule)?.toISOString(),
+      lastRunAt: schedule.lastRunAt?.toISOString(),
+      lastInstanceId: schedule.lastInstanceId,
+      lastRunError: schedule.lastRunError,
+    };
+  }
+}
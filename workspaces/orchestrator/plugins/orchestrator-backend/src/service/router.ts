@@ -55,6 +55,8 @@ import {
   WorkflowOverviewListResultDTO,
 } from '@red-hat-developer-hub/backstage-plugin-orchestrator-common';
 
+import { migrate } from '../database/migration';
+import { WorkflowScheduleDao } from '../database/WorkflowScheduleDao';
 import { WorkflowLogsProvidersRegistry } from '../providers/WorkflowLogsProvidersRegistry';
 import { RouterOptions } from '../routerWrapper';
 import { buildPagination } from '../types/pagination';
@@ -64,10 +66,12 @@ import { DataInputSchemaService } from './DataInputSchemaService';
 import { OrchestratorService } from './OrchestratorService';
 import { SonataFlowService } from './SonataFlowService';
 import { WorkflowCacheService } from './WorkflowCacheService';
+import { WorkflowScheduleService } from './WorkflowScheduleService';
 
 interface PublicServices {
   dataInputSchemaService: DataInputSchemaService;
   orchestratorService: OrchestratorService;
+  workflowScheduleService: WorkflowScheduleService;
 }
 
 interface RouterApi {
@@ -186,13 +190,16 @@ export async function createBackendRouter(
     permissions,
     httpAuth,
     userInfo,
+    database,
     workflowLogsProvidersRegistry,
   } = options;
+  const knex = await migrate(database);
   const publicServices = initPublicServices(
     logger,
     config,
     scheduler,
     workflowLogsProvidersRegistry,
+    new WorkflowScheduleDao(knex),
   );
 
   const routerApi = await initRouterApi(publicServices.orchestratorService);
@@ -257,6 +264,7 @@ function initPublicServices(
   config: Config,
   scheduler: SchedulerService,
   workflowLogsProvidersRegistry: WorkflowLogsProvidersRegistry,
+  workflowScheduleDao: WorkflowScheduleDao,
 ): PublicServices {
   const dataIndexUrl = config.getString('orchestrator.dataIndexService.url');
   const dataIndexService = new DataIndexService(dataIndexUrl, logger);
@@ -269,6 +277,14 @@ function initPublicServices(
   );
   workflowCacheService.schedule({ scheduler: scheduler });
 
+  const workflowScheduleService = new WorkflowScheduleService(
+    logger,
+    workflowScheduleDao,
+    dataIndexService,
+    sonataFlowService,
+  );
+  workflowScheduleService.schedule({ scheduler: scheduler });
+
   const isWorkflowLogProviderAdded = config.getOptional(
     'orchestrator.workflowLogProvider',
   );
@@ -289,6 +305,7 @@ function initPublicServices(
   return {
     orchestratorService,
     dataInputSchemaService,
+    workflowScheduleService,
   };
 }
 
@@ -1093,6 +1110,188 @@ function setupInternalRoutes(
       }
     },
   );
+
+  // v2
+  routerApi.openApiBackend.register(
+    'getWorkflowSchedules',
+    async (c, req: express.Request, res: express.Response, next) => {
+      const workflowId = c.request.params.workflowId as string;
+
+      const auditEvent = await auditor.createEvent({
+        eventId: 'get-workflow-schedules',
+        request: req,
+        meta: {
+          workflowId,
+        },
+      });
+
+      const decision = await authorize(
+        req,
+        [
+          orchestratorWorkflowPermission,
+          orchestratorWorkflowSpecificPermission(workflowId),
+        ],
+        permissions,
+        httpAuth,
+      );
+      if (decision.result === AuthorizeResult.DENY) {
+        manageDenyAuthorization(auditEvent);
+      }
+      const useDecision = await authorize(
+        req,
+        [
+          orchestratorWorkflowUsePermission,
+          orchestratorWorkflowUseSpecificPermission(workflowId),
+        ],
+        permissions,
+        httpAuth,
+      );
+
+      return services.workflowScheduleService
+        .getSchedules(workflowId, useDecision.result === AuthorizeResult.ALLOW)
+        .then(result => {
+          auditEvent.success({
+            meta: { schedulesCount: result.schedules.length },
+          });
+          return res.status(200).json(result);
+        })
+        .catch(error => {
+          auditEvent.fail({ error });
+          next(error);
+        });
+    },
+  );
+
+  // v2
+  routerApi.openApiBackend.register(
+    'createWorkflowSchedule',
+    async (c, req: express.Request, res: express.Response, next) => {
+      const workflowId = c.request.params.workflowId as string;
+      const credentials = await httpAuth.credentials(req);
+      const runAs = (await userInfo.getUserInfo(credentials)).userEntityRef;
+
+      const auditEvent = await auditor.createEvent({
+        eventId: 'create-workflow-schedule',
+        request: req,
+        meta: {
+          workflowId,
+          runAs,
+        },
+      });
+
+      const decision = await authorize(
+        req,
+        [
+          orchestratorWorkflowUsePermission,
+          orchestratorWorkflowUseSpecificPermission(workflowId),
+        ],
+        permissions,
+        httpAuth,
+      );
+      if (decision.result === AuthorizeResult.DENY) {
+        manageDenyAuthorization(auditEvent);
+      }
+
+      return services.workflowScheduleService
+        .createSchedule(workflowId, req.body, runAs)
+        .then(result => {
+          auditEvent.success({ meta: { scheduleId: result.id } });
+          return res.status(200).json(result);
+        })
+        .catch(error => {
+          auditEvent.fail({ error });
+          next(error);
+        });
+    },
+  );
+
+  // v2
+  routerApi.openApiBackend.register(
+    'updateWorkflowSchedule',
+    async (c, req: express.Request, res: express.Response, next) => {
+      const workflowId = c.request.params.workflowId as string;
+      const scheduleId = c.request.params.scheduleId as string;
+      const credentials = await httpAuth.credentials(req);
+      const userEntityRef = (await userInfo.getUserInfo(credentials))
+        .userEntityRef;
+
+      const auditEvent = await auditor.createEvent({
+        eventId: 'update-workflow-schedule',
+        request: req,
+        meta: {
+          workflowId,
+          scheduleId,
+          userEntityRef,
+        },
+      });
+
+      const decision = await authorize(
+        req,
+        [
+          orchestratorWorkflowUsePermission,
+          orchestratorWorkflowUseSpecificPermission(workflowId),
+        ],
+        permissions,
+        httpAuth,
+      );
+      if (decision.result === AuthorizeResult.DENY) {
+        manageDenyAuthorization(auditEvent);
+      }
+
+      return services.workflowScheduleService
+        .updateSchedule(workflowId, scheduleId, req.body, userEntityRef)
+        .then(result => {
+          auditEvent.success();
+          return res.status(200).json(result);
+        })
+        .catch(error => {
+          auditEvent.fail({ error });
+          next(error);
+        });
+    },
+  );
+
+  // v2
+  routerApi.openApiBackend.register(
+    'deleteWorkflowSchedule',
+    async (c, req: express.Request, res: express.Response, next) => {
+      const workflowId = c.request.params.workflowId as string;
+      const scheduleId = c.request.params.scheduleId as string;
+
+      const auditEvent = await auditor.createEvent({
+        eventId: 'delete-workflow-schedule',
+        request: req,
+        meta: {
+          workflowId,
+          scheduleId,
+        },
+      });
+
+      const decision = await authorize(
+        req,
+        [
+          orchestratorWorkflowUsePermission,
+          orchestratorWorkflowUseSpecificPermission(workflowId),
+        ],
+        permissions,
+        httpAuth,
+      );
+      if (decision.result === AuthorizeResult.DENY) {
+        manageDenyAuthorization(auditEvent);
+      }
+
+      return services.workflowScheduleService
+        .deleteSchedule(workflowId, scheduleId)
+        .then(() => {
+          auditEvent.success();
+          return res.status(200).end();
+        })
+        .catch(error => {
+          auditEvent.fail({ error });
+          next(error);
+        });
+    },
+  );
 }
 
 function getRequestFilters(req: HttpRequest): Filter | undefined {
@@ -908,6 +908,117 @@ export interface WorkflowRunStatusDTO {
      */
     'value'?: string;
 }
+/**
+ * Schedule of recurring executions of a workflow
+ * @export
+ * @interface WorkflowScheduleDTO
+ */
+export interface WorkflowScheduleDTO {
+    /**
+     * 
+     * @type {string}
+     * @memberof WorkflowScheduleDTO
+     */
+    'id': string;
+    /**
+     * 
+     * @type {string}
+     * @memberof WorkflowScheduleDTO
+     */
+    'workflowId': string;
+    /**
+     * Cron expression of the schedule
+     * @type {string}
+     * @memberof WorkflowScheduleDTO
+     */
+    'cron': string;
+    /**
+     * Input data the workflow is executed with
+     * @type {object}
+     * @memberof WorkflowScheduleDTO
+     */
+    'inputData'?: object;
+    /**
+     * Whether the scheduled executions are run
+     * @type {boolean}
+     * @memberof WorkflowScheduleDTO
+     */
+    'enabled': boolean;
+    /**
+     * Entity reference of the user the workflow is executed as
+     * @type {string}
+     * @memberof WorkflowScheduleDTO
+     */
+    'runAs': string;
+    /**
+     * 
+     * @type {string}
+     * @memberof WorkflowScheduleDTO
+     */
+    'createdAt': string;
+    /**
+     * Time of the next execution, unset if the schedule is disabled
+     * @type {string}
+     * @memberof WorkflowScheduleDTO
+     */
+    'nextRunAt'?: string;
+    /**
+     * Time of the last execution
+     * @type {string}
+     * @memberof WorkflowScheduleDTO
+     */
+    'lastRunAt'?: string;
+    /**
+     * ID of the workflow instance started by the last execution
+     * @type {string}
+     * @memberof WorkflowScheduleDTO
+     */
+    'lastInstanceId'?: string;
+    /**
+     * Error of the last execution if it could not be started
+     * @type {string}
+     * @memberof WorkflowScheduleDTO
+     */
+    'lastRunError'?: string;
+}
+/**
+ * 
+ * @export
+ * @interface WorkflowScheduleListResultDTO
+ */
+export interface WorkflowScheduleListResultDTO {
+    /**
+     * 
+     * @type {Array<WorkflowScheduleDTO>}
+     * @memberof WorkflowScheduleListResultDTO
+     */
+    'schedules': Array<WorkflowScheduleDTO>;
+}
+/**
+ * 
+ * @export
+ * @interface WorkflowScheduleRequestDTO
+ */
+export interface WorkflowScheduleRequestDTO {
+    /**
+     * Cron expression of the schedule
+     * @type {string}
+     * @memberof WorkflowScheduleRequestDTO
+     */
+    'cron': string;
+    /**
+     * Input data the workflow is executed with
+     * @type {object}
+     * @memberof WorkflowScheduleRequestDTO
+     */
+    'inputData'?: object;
+    /**
+     * Whether the scheduled executions are run
+     * @type {boolean}
+     * @memberof WorkflowScheduleRequestDTO
+     */
+    'enabled'?: boolean;
+}
 
 /**
  * DefaultApi - axios parameter creator
@@ -940,6 +1051,84 @@ export const DefaultApiAxiosParamCreator = function (configuration?: Configurati
 
 
     
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * Creates a schedule of recurring executions of a workflow run as the calling user
+         * @summary Create a workflow schedule
+         * @param {string} workflowId ID of the workflow to schedule
+         * @param {WorkflowScheduleRequestDTO} workflowScheduleRequestDTO 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        createWorkflowSchedule: async (workflowId: string, workflowScheduleRequestDTO: WorkflowScheduleRequestDTO, options: RawAxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'workflowId' is not null or undefined
+            assertParamExists('createWorkflowSchedule', 'workflowId', workflowId)
+            // verify required parameter 'workflowScheduleRequestDTO' is not null or undefined
+            assertParamExists('createWorkflowSchedule', 'workflowScheduleRequestDTO', workflowScheduleRequestDTO)
+            const localVarPath = `/v2/workflows/{workflowId}/schedules`
+                .replace(`{${"workflowId"}}`, encodeURIComponent(String(workflowId)));
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'POST', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+
+    
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(workflowScheduleRequestDTO, localVarRequestOptions, configuration)
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * Deletes a schedule of recurring executions of a workflow
+         * @summary Delete a workflow schedule
+         * @param {string} workflowId ID of the workflow
+         * @param {string} scheduleId ID of the schedule to delete
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        deleteWorkflowSchedule: async (workflowId: string, scheduleId: string, options: RawAxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'workflowId' is not null or undefined
+            assertParamExists('deleteWorkflowSchedule', 'workflowId', workflowId)
+            // verify required parameter 'scheduleId' is not null or undefined
+            assertParamExists('deleteWorkflowSchedule', 'scheduleId', scheduleId)
+            const localVarPath = `/v2/workflows/{workflowId}/schedules/{scheduleId}`
+                .replace(`{${"workflowId"}}`, encodeURIComponent(String(workflowId)))
+                .replace(`{${"scheduleId"}}`, encodeURIComponent(String(scheduleId)));
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'DELETE', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+
+    
             setSearchParams(localVarUrlObj, localVarQueryParameter);
             let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
             localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
@@ -1195,6 +1384,40 @@ export const DefaultApiAxiosParamCreator = function (configuration?: Configurati
 
 
     
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * Returns the schedules of recurring executions of a workflow, their input data is only included for the users allowed to execute the workflow
+         * @summary Get workflow schedules
+         * @param {string} workflowId ID of the workflow
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        getWorkflowSchedules: async (workflowId: string, options: RawAxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'workflowId' is not null or undefined
+            assertParamExists('getWorkflowSchedules', 'workflowId', workflowId)
+            const localVarPath = `/v2/workflows/{workflowId}/schedules`
+                .replace(`{${"workflowId"}}`, encodeURIComponent(String(workflowId)));
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'GET', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+
+    
             setSearchParams(localVarUrlObj, localVarQueryParameter);
             let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
             localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
@@ -1405,6 +1628,50 @@ export const DefaultApiAxiosParamCreator = function (configuration?: Configurati
             localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
             localVarRequestOptions.data = serializeDataIfNeeded(retriggerInstanceRequestDTO, localVarRequestOptions, configuration)
 
+            return {
+                url: toPathString(localVarUrlObj),
+                options: localVarRequestOptions,
+            };
+        },
+        /**
+         * Updates a schedule of recurring executions of a workflow, only the user the executions are run as can update it
+         * @summary Update a workflow schedule
+         * @param {string} workflowId ID of the workflow
+         * @param {string} scheduleId ID of the schedule to update
+         * @param {WorkflowScheduleRequestDTO} workflowScheduleRequestDTO 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        updateWorkflowSchedule: async (workflowId: string, scheduleId: string, workflowScheduleRequestDTO: WorkflowScheduleRequestDTO, options: RawAxiosRequestConfig = {}): Promise<RequestArgs> => {
+            // verify required parameter 'workflowId' is not null or undefined
+            assertParamExists('updateWorkflowSchedule', 'workflowId', workflowId)
+            // verify required parameter 'scheduleId' is not null or undefined
+            assertParamExists('updateWorkflowSchedule', 'scheduleId', scheduleId)
+            // verify required parameter 'workflowScheduleRequestDTO' is not null or undefined
+            assertParamExists('updateWorkflowSchedule', 'workflowScheduleRequestDTO', workflowScheduleRequestDTO)
+            const localVarPath = `/v2/workflows/{workflowId}/schedules/{scheduleId}`
+                .replace(`{${"workflowId"}}`, encodeURIComponent(String(workflowId)))
+                .replace(`{${"scheduleId"}}`, encodeURIComponent(String(scheduleId)));
+            // use dummy base URL string because the URL constructor only accepts absolute URLs.
+            const localVarUrlObj = new URL(localVarPath, DUMMY_BASE_URL);
+            let baseOptions;
+            if (configuration) {
+                baseOptions = configuration.baseOptions;
+            }
+
+            const localVarRequestOptions = { method: 'PUT', ...baseOptions, ...options};
+            const localVarHeaderParameter = {} as any;
+            const localVarQueryParameter = {} as any;
+
+
+    
+            localVarHeaderParameter['Content-Type'] = 'application/json';
+
+            setSearchParams(localVarUrlObj, localVarQueryParameter);
+            let headersFromBaseOptions = baseOptions && baseOptions.headers ? baseOptions.headers : {};
+            localVarRequestOptions.headers = {...localVarHeaderParameter, ...headersFromBaseOptions, ...options.headers};
+            localVarRequestOptions.data = serializeDataIfNeeded(workflowScheduleRequestDTO, localVarRequestOptions, configuration)
+
             return {
                 url: toPathString(localVarUrlObj),
                 options: localVarRequestOptions,
@@ -1433,6 +1700,34 @@ export const DefaultApiFp = function(configuration?: Configuration) {
             const localVarOperationServerBasePath = operationServerMap['DefaultApi.abortWorkflow']?.[localVarOperationServerIndex]?.url;
             return (axios, basePath) => createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration)(axios, localVarOperationServerBasePath || basePath);
         },
+        /**
+         * Creates a schedule of recurring executions of a workflow run as the calling user
+         * @summary Create a workflow schedule
+         * @param {string} workflowId ID of the workflow to schedule
+         * @param {WorkflowScheduleRequestDTO} workflowScheduleRequestDTO 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async createWorkflowSchedule(workflowId: string, workflowScheduleRequestDTO: WorkflowScheduleRequestDTO, options?: RawAxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<WorkflowScheduleDTO>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.createWorkflowSchedule(workflowId, workflowScheduleRequestDTO, options);
+            const localVarOperationServerIndex = configuration?.serverIndex ?? 0;
+            const localVarOperationServerBasePath = operationServerMap['DefaultApi.createWorkflowSchedule']?.[localVarOperationServerIndex]?.url;
+            return (axios, basePath) => createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration)(axios, localVarOperationServerBasePath || basePath);
+        },
+        /**
+         * Deletes a schedule of recurring executions of a workflow
+         * @summary Delete a workflow schedule
+         * @param {string} workflowId ID of the workflow
+         * @param {string} scheduleId ID of the schedule to delete
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async deleteWorkflowSchedule(workflowId: string, scheduleId: string, options?: RawAxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<void>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.deleteWorkflowSchedule(workflowId, scheduleId, options);
+            const localVarOperationServerIndex = configuration?.serverIndex ?? 0;
+            const localVarOperationServerBasePath = operationServerMap['DefaultApi.deleteWorkflowSchedule']?.[localVarOperationServerIndex]?.url;
+            return (axios, basePath) => createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration)(axios, localVarOperationServerBasePath || basePath);
+        },
         /**
          * Execute a workflow
          * @summary Execute a workflow
@@ -1525,6 +1820,19 @@ export const DefaultApiFp = function(configuration?: Configuration) {
             const localVarOperationServerBasePath = operationServerMap['DefaultApi.getWorkflowOverviewById']?.[localVarOperationServerIndex]?.url;
             return (axios, basePath) => createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration)(axios, localVarOperationServerBasePath || basePath);
         },
+        /**
+         * Returns the schedules of recurring executions of a workflow, their input data is only included for the users allowed to execute the workflow
+         * @summary Get workflow schedules
+         * @param {string} workflowId ID of the workflow
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async getWorkflowSchedules(workflowId: string, options?: RawAxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<WorkflowScheduleListResultDTO>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.getWorkflowSchedules(workflowId, options);
+            const localVarOperationServerIndex = configuration?.serverIndex ?? 0;
+            const localVarOperationServerBasePath = operationServerMap['DefaultApi.getWorkflowSchedules']?.[localVarOperationServerIndex]?.url;
+            return (axios, basePath) => createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration)(axios, localVarOperationServerBasePath || basePath);
+        },
         /**
          * Get the workflow\'s definition
          * @param {string} workflowId ID of the workflow to fetch
@@ -1600,6 +1908,21 @@ export const DefaultApiFp = function(configuration?: Configuration) {
             const localVarOperationServerBasePath = operationServerMap['DefaultApi.retriggerInstance']?.[localVarOperationServerIndex]?.url;
             return (axios, basePath) => createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration)(axios, localVarOperationServerBasePath || basePath);
         },
+        /**
+         * Updates a schedule of recurring executions of a workflow, only the user the executions are run as can update it
+         * @summary Update a workflow schedule
+         * @param {string} workflowId ID of the workflow
+         * @param {string} scheduleId ID of the schedule to update
+         * @param {WorkflowScheduleRequestDTO} workflowScheduleRequestDTO 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        async updateWorkflowSchedule(workflowId: string, scheduleId: string, workflowScheduleRequestDTO: WorkflowScheduleRequestDTO, options?: RawAxiosRequestConfig): Promise<(axios?: AxiosInstance, basePath?: string) => AxiosPromise<WorkflowScheduleDTO>> {
+            const localVarAxiosArgs = await localVarAxiosParamCreator.updateWorkflowSchedule(workflowId, scheduleId, workflowScheduleRequestDTO, options);
+            const localVarOperationServerIndex = configuration?.serverIndex ?? 0;
+            const localVarOperationServerBasePath = operationServerMap['DefaultApi.updateWorkflowSchedule']?.[localVarOperationServerIndex]?.url;
+            return (axios, basePath) => createRequestFunction(localVarAxiosArgs, globalAxios, BASE_PATH, configuration)(axios, localVarOperationServerBasePath || basePath);
+        },
     }
 };
 
@@ -1620,6 +1943,28 @@ export const DefaultApiFactory = function (configuration?: Configuration, basePa
         abortWorkflow(instanceId: string, options?: any): AxiosPromise<string> {
             return localVarFp.abortWorkflow(instanceId, options).then((request) => request(axios, basePath));
         },
+        /**
+         * Creates a schedule of recurring executions of a workflow run as the calling user
+         * @summary Create a workflow schedule
+         * @param {string} workflowId ID of the workflow to schedule
+         * @param {WorkflowScheduleRequestDTO} workflowScheduleRequestDTO 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        createWorkflowSchedule(workflowId: string, workflowScheduleRequestDTO: WorkflowScheduleRequestDTO, options?: any): AxiosPromise<WorkflowScheduleDTO> {
+            return localVarFp.createWorkflowSchedule(workflowId, workflowScheduleRequestDTO, options).then((request) => request(axios, basePath));
+        },
+        /**
+         * Deletes a schedule of recurring executions of a workflow
+         * @summary Delete a workflow schedule
+         * @param {string} workflowId ID of the workflow
+         * @param {string} scheduleId ID of the schedule to delete
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        deleteWorkflowSchedule(workflowId: string, scheduleId: string, options?: any): AxiosPromise<void> {
+            return localVarFp.deleteWorkflowSchedule(workflowId, scheduleId, options).then((request) => request(axios, basePath));
+        },
         /**
          * Execute a workflow
          * @summary Execute a workflow
@@ -1691,6 +2036,16 @@ export const DefaultApiFactory = function (configuration?: Configuration, basePa
         getWorkflowOverviewById(workflowId: string, options?: any): AxiosPromise<WorkflowOverviewDTO> {
             return localVarFp.getWorkflowOverviewById(workflowId, options).then((request) => request(axios, basePath));
         },
+        /**
+         * Returns the schedules of recurring executions of a workflow, their input data is only included for the users allowed to execute the workflow
+         * @summary Get workflow schedules
+         * @param {string} workflowId ID of the workflow
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        getWorkflowSchedules(workflowId: string, options?: any): AxiosPromise<WorkflowScheduleListResultDTO> {
+            return localVarFp.getWorkflowSchedules(workflowId, options).then((request) => request(axios, basePath));
+        },
         /**
          * Get the workflow\'s definition
          * @param {string} workflowId ID of the workflow to fetch
@@ -1748,6 +2103,18 @@ export const DefaultApiFactory = function (configuration?: Configuration, basePa
         retriggerInstance(workflowId: string, instanceId: string, retriggerInstanceRequestDTO: RetriggerInstanceRequestDTO, options?: any): AxiosPromise<object> {
             return localVarFp.retriggerInstance(workflowId, instanceId, retriggerInstanceRequestDTO, options).then((request) => request(axios, basePath));
         },
+        /**
+         * Updates a schedule of recurring executions of a workflow, only the user the executions are run as can update it
+         * @summary Update a workflow schedule
+         * @param {string} workflowId ID of the workflow
+         * @param {string} scheduleId ID of the schedule to update
+         * @param {WorkflowScheduleRequestDTO} workflowScheduleRequestDTO 
+         * @param {*} [options] Override http request option.
+         * @throws {RequiredError}
+         */
+        updateWorkflowSchedule(workflowId: string, scheduleId: string, workflowScheduleRequestDTO: WorkflowScheduleRequestDTO, options?: any): AxiosPromise<WorkflowScheduleDTO> {
+            return localVarFp.updateWorkflowSchedule(workflowId, scheduleId, workflowScheduleRequestDTO, options).then((request) => request(axios, basePath));
+        },
     };
 };
 
@@ -1770,6 +2137,32 @@ export class DefaultApi extends BaseAPI {
         return DefaultApiFp(this.configuration).abortWorkflow(instanceId, options).then((request) => request(this.axios, this.basePath));
     }
 
+    /**
+     * Creates a schedule of recurring executions of a workflow run as the calling user
+     * @summary Create a workflow schedule
+     * @param {string} workflowId ID of the workflow to schedule
+     * @param {WorkflowScheduleRequestDTO} workflowScheduleRequestDTO 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public createWorkflowSchedule(workflowId: string, workflowScheduleRequestDTO: WorkflowScheduleRequestDTO, options?: RawAxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).createWorkflowSchedule(workflowId, workflowScheduleRequestDTO, options).then((request) => request(this.axios, this.basePath));
+    }
+
+    /**
+     * Deletes a schedule of recurring executions of a workflow
+     * @summary Delete a workflow schedule
+     * @param {string} workflowId ID of the workflow
+     * @param {string} scheduleId ID of the schedule to delete
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public deleteWorkflowSchedule(workflowId: string, scheduleId: string, options?: RawAxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).deleteWorkflowSchedule(workflowId, scheduleId, options).then((request) => request(this.axios, this.basePath));
+    }
+
     /**
      * Execute a workflow
      * @summary Execute a workflow
@@ -1855,6 +2248,18 @@ export class DefaultApi extends BaseAPI {
         return DefaultApiFp(this.configuration).getWorkflowOverviewById(workflowId, options).then((request) => request(this.axios, this.basePath));
     }
 
+    /**
+     * Returns the schedules of recurring executions of a workflow, their input data is only included for the users allowed to execute the workflow
+     * @summary Get workflow schedules
+     * @param {string} workflowId ID of the workflow
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public getWorkflowSchedules(workflowId: string, options?: RawAxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).getWorkflowSchedules(workflowId, options).then((request) => request(this.axios, this.basePath));
+    }
+
     /**
      * Get the workflow\'s definition
      * @param {string} workflowId ID of the workflow to fetch
@@ -1923,6 +2328,20 @@ export class DefaultApi extends BaseAPI {
     public retriggerInstance(workflowId: string, instanceId: string, retriggerInstanceRequestDTO: RetriggerInstanceRequestDTO, options?: RawAxiosRequestConfig) {
         return DefaultApiFp(this.configuration).retriggerInstance(workflowId, instanceId, retriggerInstanceRequestDTO, options).then((request) => request(this.axios, this.basePath));
     }
+
+    /**
+     * Updates a schedule of recurring executions of a workflow, only the user the executions are run as can update it
+     * @summary Update a workflow schedule
+     * @param {string} workflowId ID of the workflow
+     * @param {string} scheduleId ID of the schedule to update
+     * @param {WorkflowScheduleRequestDTO} workflowScheduleRequestDTO 
+     * @param {*} [options] Override http request option.
+     * @throws {RequiredError}
+     * @memberof DefaultApi
+     */
+    public updateWorkflowSchedule(workflowId: string, scheduleId: string, workflowScheduleRequestDTO: WorkflowScheduleRequestDTO, options?: RawAxiosRequestConfig) {
+        return DefaultApiFp(this.configuration).updateWorkflowSchedule(workflowId, scheduleId, workflowScheduleRequestDTO, options).then((request) => request(this.axios, this.basePath));
+    }
 }
 
 
@@ -34,6 +34,9 @@ import {
   WorkflowFormatDTO,
   WorkflowOverviewDTO,
   WorkflowOverviewListResultDTO,
+  WorkflowScheduleDTO,
+  WorkflowScheduleListResultDTO,
+  WorkflowScheduleRequestDTO,
 } from '@red-hat-developer-hub/backstage-plugin-orchestrator-common';
 
 import {
@@ -581,6 +584,202 @@ describe('OrchestratorClient', () => {
       await expect(promise).rejects.toThrow();
     });
   });
+
+  describe('getWorkflowSchedules', () => {
+    it('should return the workflow schedules when successful', async () => {
+      // Given
+      const workflowId = 'workflow123';
+      const mockSchedules: WorkflowScheduleListResultDTO = {
+        schedules: [
+          {
+            id: 'schedule1',
+            workflowId,
+            cron: '0 * * * *',
+            enabled: true,
+            runAs: 'user:default/test',
+            createdAt: '2026-10-19T10:00:00.000Z',
+            nextRunAt: '2026-10-19T11:00:00.000Z',
+          },
+        ],
+      };
+
+      const mockResponse: AxiosResponse<WorkflowScheduleListResultDTO> = {
+        data: mockSchedules,
+        status: 200,
+        statusText: 'OK',
+        headers: {} as RawAxiosResponseHeaders,
+        config: {} as InternalAxiosRequestConfig,
+      };
+
+      const getWorkflowSchedulesSpy = jest.spyOn(
+        DefaultApi.prototype,
+        'getWorkflowSchedules',
+      );
+      axios.request = jest.fn().mockResolvedValueOnce(mockResponse);
+
+      // When
+      const result = await orchestratorClient.getWorkflowSchedules(workflowId);
+
+      // Then
+      expect(result).toBeDefined();
+      expect(result.data).toEqual(mockSchedules);
+      expect(axios.request).toHaveBeenCalledTimes(1);
+      expect(axios.request).toHaveBeenCalledWith({
+        ...getAxiosTestRequest(`/v2/workflows/${workflowId}/schedules`),
+        method: 'GET',
+        headers: {
+          ...defaultAuthHeaders,
+        },
+      });
+      expect(getWorkflowSchedulesSpy).toHaveBeenCalledTimes(1);
+      expect(getWorkflowSchedulesSpy).toHaveBeenCalledWith(
+        workflowId,
+        getDefaultTestRequestConfig(),
+      );
+    });
+
+    it('should throw a ResponseError when fetching the workflow schedules fails', async () => {
+      // Given
+      const workflowId = 'workflow123';
+
+      // Mock fetch to simulate a failure
+      axios.request = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('Simulated error'));
+
+      // When
+      const promise = orchestratorClient.getWorkflowSchedules(workflowId);
+
+      // Then
+      await expect(promise).rejects.toThrow();
+    });
+  });
+
+  describe('createWorkflowSchedule', () => {
+    it('should create a workflow schedule successfully', async () => {
+      // Given
+      const workflowId = 'workflow123';
+      const request: WorkflowScheduleRequestDTO = {
+        cron: '0 * * * *',
+        inputData: { foo: 'bar' },
+      };
+      const mockSchedule: WorkflowScheduleDTO = {
+        id: 'schedule1',
+        workflowId,
+        cron: '0 * * * *',
+        inputData: { foo: 'bar' },
+        enabled: true,
+        runAs: 'user:default/test',
+        createdAt: '2026-10-19T10:00:00.000Z',
+      };
+
+      const mockResponse: AxiosResponse<WorkflowScheduleDTO> = {
+        data: mockSchedule,
+        status: 200,
+        statusText: 'OK',
+        headers: {} as RawAxiosResponseHeaders,
+        config: {} as InternalAxiosRequestConfig,
+      };
+
+      const createWorkflowScheduleSpy = jest.spyOn(
+        DefaultApi.prototype,
+        'createWorkflowSchedule',
+      );
+      axios.request = jest.fn().mockResolvedValueOnce(mockResponse);
+
+      // When
+      const result = await orchestratorClient.createWorkflowSchedule(
+        workflowId,
+        request,
+      );
+
+      // Then
+      expect(result).toBeDefined();
+      expect(result.data).toEqual(mockSchedule);
+      expect(axios.request).toHaveBeenCalledTimes(1);
+      expect(axios.request).toHaveBeenCalledWith({
+        ...getAxiosTestRequest(`/v2/workflows/${workflowId}/schedules`),
+        data: JSON.stringify(request),
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...defaultAuthHeaders,
+        },
+      });
+      expect(createWorkflowScheduleSpy).toHaveBeenCalledTimes(1);
+      expect(createWorkflowScheduleSpy).toHaveBeenCalledWith(
+        workflowId,
+        request,
+        getDefaultTestRequestConfig(),
+      );
+    });
+
+    it('should throw a ResponseError when creating the workflow schedule fails', async () => {
+      // Given
+      const workflowId = 'workflow123';
+
+      // Mock fetch to simulate a failure
+      axios.request = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('Simulated error'));
+
+      // When
+      const promise = orchestratorClient.createWorkflowSchedule(workflowId, {
+        cron: 'invalid',
+      });
+
+      // Then
+      await expect(promise).rejects.toThrow();
+    });
+  });
+
+  describe('deleteWorkflowSchedule', () => {
+    it('should delete a workflow schedule successfully', async () => {
+      // Given
+      const workflowId = 'workflow123';
+      const scheduleId = 'schedule1';
+
+      const mockResponse: AxiosResponse<void> = {
+        data: undefined,
+        status: 200,
+        statusText: 'OK',
+        headers: {} as RawAxiosResponseHeaders,
+        config: {} as InternalAxiosRequestConfig,
+      };
+
+      const deleteWorkflowScheduleSpy = jest.spyOn(
+        DefaultApi.prototype,
+        'deleteWorkflowSchedule',
+      );
+      axios.request = jest.fn().mockResolvedValueOnce(mockResponse);
+
+      // When
+      const result = await orchestratorClient.deleteWorkflowSchedule(
+        workflowId,
+        scheduleId,
+      );
+
+      // Then
+      expect(result.status).toEqual(200);
+      expect(axios.request).toHaveBeenCalledTimes(1);
+      expect(axios.request).toHaveBeenCalledWith({
+        ...getAxiosTestRequest(
+          `/v2/workflows/${workflowId}/schedules/${scheduleId}`,
+        ),
+        method: 'DELETE',
+        headers: {
+          ...defaultAuthHeaders,
+        },
+      });
+      expect(deleteWorkflowScheduleSpy).toHaveBeenCalledTimes(1);
+      expect(deleteWorkflowScheduleSpy).toHaveBeenCalledWith(
+        workflowId,
+        scheduleId,
+        getDefaultTestRequestConfig(),
+      );
+    });
+  });
+
   function getDefaultTestRequestConfig(): AxiosRequestConfig {
     return {
       baseURL: baseUrl,
@@ -40,6 +40,9 @@ import {
   WorkflowInstanceLogsDTO,
   WorkflowOverviewDTO,
   WorkflowOverviewListResultDTO,
+  WorkflowScheduleDTO,
+  WorkflowScheduleListResultDTO,
+  WorkflowScheduleRequestDTO,
 } from '@red-hat-developer-hub/backstage-plugin-orchestrator-common';
 
 import { OrchestratorApi } from './api';
@@ -309,6 +312,75 @@ export class OrchestratorClient implements OrchestratorApi {
     }
   }
 
+  async getWorkflowSchedules(
+    workflowId: string,
+  ): Promise<AxiosResponse<WorkflowScheduleListResultDTO>> {
+    const defaultApi = await this.getDefaultAPI();
+    const reqConfigOption: AxiosRequestConfig =
+      await this.getDefaultReqConfig();
+    try {
+      return await defaultApi.getWorkflowSchedules(workflowId, reqConfigOption);
+    } catch (err) {
+      throw getError(err);
+    }
+  }
+
+  async createWorkflowSchedule(
+    workflowId: string,
+    request: WorkflowScheduleRequestDTO,
+  ): Promise<AxiosResponse<WorkflowScheduleDTO>> {
+    const defaultApi = await this.getDefaultAPI();
+    const reqConfigOption: AxiosRequestConfig =
+      await this.getDefaultReqConfig();
+    try {
+      return await defaultApi.createWorkflowSchedule(
+        workflowId,
+        request,
+        reqConfigOption,
+      );
+    } catch (err) {
+      throw getError(err);
+    }
+  }
+
+  async updateWorkflowSchedule(
+    workflowId: string,
+    scheduleId: string,
+    request: WorkflowScheduleRequestDTO,
+  ): Promise<AxiosResponse<WorkflowScheduleDTO>> {
+    const defaultApi = await this.getDefaultAPI();
+    const reqConfigOption: AxiosRequestConfig =
+      await this.getDefaultReqConfig();
+    try {
+      return await defaultApi.updateWorkflowSchedule(
+        workflowId,
+        scheduleId,
+        request,
+        reqConfigOption,
+      );
+    } catch (err) {
+      throw getError(err);
+    }
+  }
+
+  async deleteWorkflowSchedule(
+    workflowId: string,
+    scheduleId: string,
+  ): Promise<AxiosResponse<void>> {
+    const defaultApi = await this.getDefaultAPI();
+    const reqConfigOption: AxiosRequestConfig =
+      await this.getDefaultReqConfig();
+    try {
+      return await defaultApi.deleteWorkflowSchedule(
+        workflowId,
+        scheduleId,
+        reqConfigOption,
+      );
+    } catch (err) {
+      throw getError(err);
+    }
+  }
+
   // getDefaultReqConfig is a convenience wrapper that includes authentication and other necessary headers
   private async getDefaultReqConfig(
     additionalHeaders?: RawAxiosRequestHeaders,
@@ -30,6 +30,9 @@ import {
   WorkflowInstanceLogsDTO,
   WorkflowOverviewDTO,
   WorkflowOverviewListResultDTO,
+  WorkflowScheduleDTO,
+  WorkflowScheduleListResultDTO,
+  WorkflowScheduleRequestDTO,
 } from '@red-hat-developer-hub/backstage-plugin-orchestrator-common';
 
 export interface OrchestratorApi {
@@ -82,6 +85,26 @@ export interface OrchestratorApi {
   getInstanceLogs(
     instanceId: string,
   ): Promise<AxiosResponse<WorkflowInstanceLogsDTO>>;
+
+  getWorkflowSchedules(
+    workflowId: string,
+  ): Promise<AxiosResponse<WorkflowScheduleListResultDTO>>;
+
+  createWorkflowSchedule(
+    workflowId: string,
+    request: WorkflowScheduleRequestDTO,
+  ): Promise<AxiosResponse<WorkflowScheduleDTO>>;
+
+  updateWorkflowSchedule(
+    workflowId: string,
+    scheduleId: string,
+    request: WorkflowScheduleRequestDTO,
+  ): Promise<AxiosResponse<WorkflowScheduleDTO>>;
+
+  deleteWorkflowSchedule(
+    workflowId: string,
+    scheduleId: string,
+  ): Promise<AxiosResponse<void>>;
 }
 
 export const orchestratorApiRef = createApiRef<OrchestratorApi>({
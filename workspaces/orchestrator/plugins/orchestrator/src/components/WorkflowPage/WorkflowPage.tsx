@@ -25,12 +25,17 @@ import { makeStyles } from 'tss-react/mui';
 
 import { orchestratorApiRef } from '../../api';
 import { useTranslation } from '../../hooks/useTranslation';
-import { workflowRouteRef, workflowRunsRoutePath } from '../../routes';
+import {
+  workflowRouteRef,
+  workflowRunsRoutePath,
+  workflowSchedulesRoutePath,
+} from '../../routes';
 import { useIsDarkMode } from '../../utils/isDarkMode';
 import { WorkflowRunsTabContent } from '../OrchestratorPage/WorkflowRunsTabContent';
 import { BaseOrchestratorPage } from '../ui/BaseOrchestratorPage';
 import { RunButton } from './RunButton';
 import { WorkflowDetailsTabContent } from './WorkflowDetailsTabContent';
+import { WorkflowSchedulesTabContent } from './WorkflowSchedulesTabContent';
 
 const useStyles = makeStyles<{ isDarkMode: boolean }>()(
   (_, { isDarkMode }) => ({
@@ -85,6 +90,15 @@ export const WorkflowPage = () => {
               <WorkflowRunsTabContent />
             </Grid>
           </TabbedLayout.Route>
+          <TabbedLayout.Route
+            path={workflowSchedulesRoutePath}
+            title={t('page.tabs.workflowSchedules')}
+          >
+            <Grid container spacing={2}>
+              <RunButton isAvailable={workflowOverviewDTO?.data.isAvailable} />
+              <WorkflowSchedulesTabContent />
+            </Grid>
+          </TabbedLayout.Route>
         </TabbedLayout>
       </Box>
     </BaseOrchestratorPage>
@@ -0,0 +1,126 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useState } from 'react';
+
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+
+import { WorkflowScheduleRequestDTO } from '@red-hat-developer-hub/backstage-plugin-orchestrator-common';
+
+import { useTranslation } from '../../hooks/useTranslation';
+import { InfoDialog } from '../ui/InfoDialog';
+
+const parseInputData = (value: string): Record<string, any> | undefined => {
+  try {
+    const inputData = JSON.parse(value || '{}');
+    return inputData &&
+      typeof inputData === 'object' &&
+      !Array.isArray(inputData)
+      ? inputData
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const WorkflowScheduleDialog = ({
+  open,
+  onClose,
+  onSubmit,
+}: {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (request: WorkflowScheduleRequestDTO) => Promise<void>;
+}) => {
+  const { t } = useTranslation();
+  const [cron, setCron] = useState('');
+  const [inputData, setInputData] = useState('{}');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const parsedInputData = parseInputData(inputData);
+
+  const handleClose = () => {
+    setCron('');
+    setInputData('{}');
+    setError(undefined);
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      await onSubmit({ cron: cron.trim(), inputData: parsedInputData });
+      handleClose();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <InfoDialog
+      title={t('schedules.dialog.title')}
+      open={open}
+      onClose={handleClose}
+      dialogActions={
+        <>
+          <Button
+            color="primary"
+            variant="contained"
+            onClick={handleSubmit}
+            disabled={submitting || !cron.trim() || !parsedInputData}
+          >
+            {t('schedules.buttons.save')}
+          </Button>
+          <Button color="primary" variant="outlined" onClick={handleClose}>
+            {t('common.cancel')}
+          </Button>
+        </>
+      }
+      wideDialog
+    >
+      <TextField
+        label={t('schedules.fields.cron')}
+        value={cron}
+        onChange={e => setCron(e.target.value)}
+        helperText={error ?? t('schedules.dialog.cronHelperText')}
+        error={!!error}
+        placeholder="0 9 * * 1-5"
+        margin="normal"
+        fullWidth
+        required
+      />
+      <TextField
+        label={t('schedules.fields.inputData')}
+        value={inputData}
+        onChange={e => setInputData(e.target.value)}
+        helperText={
+          parsedInputData
+            ? t('schedules.dialog.inputDataHelperText')
+            : t('schedules.dialog.invalidInputData')
+        }
+        error={!parsedInputData}
+        margin="normal"
+        minRows={6}
+        multiline
+        fullWidth
+      />
+    </InfoDialog>
+  );
+};
@@ -0,0 +1,224 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useMemo, useState } from 'react';
+import { useAsyncRetry } from 'react-use';
+
+import {
+  ErrorPanel,
+  InfoCard,
+  Link,
+  TableColumn,
+} from '@backstage/core-components';
+import {
+  useApi,
+  useRouteRef,
+  useRouteRefParams,
+} from '@backstage/core-plugin-api';
+
+import DeleteOutline from '@mui/icons-material/DeleteOutline';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Grid from '@mui/material/Grid';
+import IconButton from '@mui/material/IconButton';
+import Switch from '@mui/material/Switch';
+import Tooltip from '@mui/material/Tooltip';
+import { DateTime } from 'luxon';
+
+import {
+  orchestratorWorkflowUsePermission,
+  orchestratorWorkflowUseSpecificPermission,
+  WorkflowScheduleDTO,
+  WorkflowScheduleRequestDTO,
+} from '@red-hat-developer-hub/backstage-plugin-orchestrator-common';
+
+import { orchestratorApiRef } from '../../api';
+import { VALUE_UNAVAILABLE } from '../../constants';
+import { usePermissionArrayDecision } from '../../hooks/usePermissionArray';
+import { useTranslation } from '../../hooks/useTranslation';
+import { workflowInstanceRouteRef, workflowRouteRef } from '../../routes';
+import { Trans } from '../Trans';
+import OverrideBackstageTable from '../ui/OverrideBackstageTable';
+import { WorkflowScheduleDialog } from './WorkflowScheduleDialog';
+
+const formatDate = (date?: string) =>
+  date
+    ? DateTime.fromISO(date).toLocaleString(
+        DateTime.DATETIME_SHORT_WITH_SECONDS,
+      )
+    : VALUE_UNAVAILABLE;
+
+export const WorkflowSchedulesTabContent = () => {
+  const { t } = useTranslation();
+  const { workflowId } = useRouteRefParams(workflowRouteRef);
+  const orchestratorApi = useApi(orchestratorApiRef);
+  const workflowInstanceLink = useRouteRef(workflowInstanceRouteRef);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [updateError, setUpdateError] = useState<Error>();
+
+  const { allowed: canManage } = usePermissionArrayDecision([
+    orchestratorWorkflowUsePermission,
+    orchestratorWorkflowUseSpecificPermission(workflowId),
+  ]);
+
+  const { value, loading, error, retry } = useAsyncRetry(async () => {
+    const res = await orchestratorApi.getWorkflowSchedules(workflowId);
+    return res.data.schedules;
+  }, [orchestratorApi, workflowId]);
+
+  const columns = useMemo((): TableColumn<WorkflowScheduleDTO>[] => {
+    const handleToggle = async (schedule: WorkflowScheduleDTO) => {
+      try {
+        setUpdateError(undefined);
+        await orchestratorApi.updateWorkflowSchedule(workflowId, schedule.id, {
+          cron: schedule.cron,
+          inputData: schedule.inputData,
+          enabled: !schedule.enabled,
+        });
+      } catch (e) {
+        setUpdateError(e as Error);
+      }
+      retry();
+    };
+
+    const handleDelete = async (schedule: WorkflowScheduleDTO) => {
+      try {
+        setUpdateError(undefined);
+        await orchestratorApi.deleteWorkflowSchedule(workflowId, schedule.id);
+      } catch (e) {
+        setUpdateError(e as Error);
+      }
+      retry();
+    };
+
+    return [
+      { title: t('schedules.fields.cron'), field: 'cron' },
+      {
+        title: t('schedules.fields.enabled'),
+        field: 'enabled',
+        render: data => (
+          <Switch
+            checked={data.enabled}
+            disabled={!canManage}
+            onChange={() => handleToggle(data)}
+            inputProps={{ 'aria-label': t('schedules.fields.enabled') }}
+          />
+        ),
+      },
+      { title: t('schedules.fields.runAs'), field: 'runAs' },
+      {
+        title: t('schedules.fields.nextRun'),
+        field: 'nextRunAt',
+        render: data => formatDate(data.nextRunAt),
+      },
+      {
+        title: t('schedules.fields.lastRun'),
+        field: 'lastRunAt',
+        render: data =>
+          data.lastInstanceId ? (
+            <Link
+              to={workflowInstanceLink({ instanceId: data.lastInstanceId })}
+            >
+              {formatDate(data.lastRunAt)}
+            </Link>
+          ) : (
+            formatDate(data.lastRunAt)
+          ),
+      },
+      {
+        title: t('schedules.fields.lastRunError'),
+        field: 'lastRunError',
+        sorting: false,
+        render: data => data.lastRunError ?? VALUE_UNAVAILABLE,
+      },
+      {
+        title: t('schedules.fields.actions'),
+        sorting: false,
+        render: data => (
+          <Tooltip title={t('schedules.buttons.delete')}>
+            <span>
+              <IconButton
+                aria-label={t('schedules.buttons.delete')}
+                disabled={!canManage}
+                onClick={() => handleDelete(data)}
+                size="small"
+              >
+                <DeleteOutline />
+              </IconButton>
+            </span>
+          </Tooltip>
+        ),
+      },
+    ];
+  }, [t, orchestratorApi, workflowId, workflowInstanceLink, canManage, retry]);
+
+  const handleCreate = async (request: WorkflowScheduleRequestDTO) => {
+    await orchestratorApi.createWorkflowSchedule(workflowId, request);
+    retry();
+  };
+
+  if (error) {
+    return <ErrorPanel error={error} />;
+  }
+
+  const data = value ?? [];
+
+  return (
+    <Grid container item xs={12} spacing={2}>
+      {updateError && (
+        <Grid item xs={12}>
+          <ErrorPanel error={updateError} />
+        </Grid>
+      )}
+      <Grid item xs={12}>
+        <InfoCard
+          noPadding
+          title={
+            <Trans message="schedules.title" params={{ count: data.length }} />
+          }
+          action={
+            <Button
+              variant="outlined"
+              color="primary"
+              onClick={() => setIsDialogOpen(true)}
+              disabled={!canManage}
+            >
+              {t('schedules.buttons.add')}
+            </Button>
+          }
+        >
+          <OverrideBackstageTable
+            removeOutline
+            isLoading={loading}
+            columns={columns}
+            data={data}
+            options={{ paging: false, search: false, toolbar: false }}
+            emptyContent={
+              <Box padding={2} textAlign="center">
+                {t('schedules.messages.noSchedules')}
+              </Box>
+            }
+          />
+        </InfoCard>
+      </Grid>
+      <WorkflowScheduleDialog
+        open={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        onSubmit={handleCreate}
+      />
+    </Grid>
+  );
+};
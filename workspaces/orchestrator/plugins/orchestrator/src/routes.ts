@@ -49,6 +49,9 @@ export const workflowRunsRouteRef = createSubRouteRef({
   path: `/workflows/:workflowId/${workflowRunsRoutePath}`,
 });
 
+// workflow page - schedules tab
+export const workflowSchedulesRoutePath = 'schedules';
+
 // execute workflow page
 export const executeWorkflowRouteRef = createSubRouteRef({
   id: 'orchestrator/workflows/execute',
@@ -26,6 +26,7 @@ const orchestratorTranslationDe = createTranslationMessages({
     'page.tabs.allRuns': 'Alle Ausführungen',
     'page.tabs.workflowDetails': 'Detaillen',
     'page.tabs.workflowRuns': 'Ausführungen',
+    'page.tabs.workflowSchedules': 'Zeitpläne',
     'table.title.workflows': 'Workflows',
     'table.title.allRuns': 'Alle Ausführungen ({{count}})',
     'table.title.allWorkflowRuns': 'Ausführungen ({{count}})',
@@ -88,6 +89,27 @@ const orchestratorTranslationDe = createTranslationMessages({
     'workflow.buttons.running': 'Läuft...',
     'workflow.buttons.fromFailurePoint': 'Von Fehlerpunkt',
     'workflow.buttons.runFailedAgain': 'Erneut ausführen fehlgeschlagen',
+    'schedules.title': 'Zeitpläne ({{count}})',
+    'schedules.fields.cron': 'Cron-Ausdruck',
+    'schedules.fields.inputData': 'Eingabedaten',
+    'schedules.fields.enabled': 'Aktiviert',
+    'schedules.fields.runAs': 'Ausführen als',
+    'schedules.fields.nextRun': 'Nächste Ausführung',
+    'schedules.fields.lastRun': 'Letzte Ausführung',
+    'schedules.fields.lastRunError': 'Fehler der letzten Ausführung',
+    'schedules.fields.actions': 'Aktionen',
+    'schedules.buttons.add': 'Zeitplan hinzufügen',
+    'schedules.buttons.save': 'Speichern',
+    'schedules.buttons.delete': 'Zeitplan löschen',
+    'schedules.dialog.title': 'Zeitplan hinzufügen',
+    'schedules.dialog.cronHelperText':
+      'Cron-Ausdruck, der in der Zeitzone des Backstage-Backends ausgewertet wird',
+    'schedules.dialog.inputDataHelperText':
+      'JSON-Objekt, das dem Workflow als Eingabedaten übergeben wird',
+    'schedules.dialog.invalidInputData':
+      'Die Eingabedaten müssen ein JSON-Objekt sein',
+    'schedules.messages.noSchedules':
+      'Für diesen Workflow sind keine Zeitpläne definiert.',
     'run.title': 'Workflow ausführen',
     'run.pageTitle': '{{processName}} Ausführung',
     'run.variables': 'Ausführungsvariablen',
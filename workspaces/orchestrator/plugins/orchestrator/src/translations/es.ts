@@ -26,6 +26,7 @@ const orchestratorTranslationEs = createTranslationMessages({
     'page.tabs.allRuns': 'Todas las ejecuciones',
     'page.tabs.workflowDetails': 'Detalles del flujo de trabajo',
     'page.tabs.workflowRuns': 'Ejecuciones del flujo de trabajo',
+    'page.tabs.workflowSchedules': 'Programaciones',
     'table.title.workflows': 'Flujos de trabajo',
     'table.title.allRuns': 'Todas las ejecuciones ({{count}})',
     'table.title.allWorkflowRuns':
@@ -87,6 +88,27 @@ const orchestratorTranslationEs = createTranslationMessages({
     'workflow.buttons.running': 'Ejecutándose...',
     'workflow.buttons.fromFailurePoint': 'Desde el punto de fallo',
     'workflow.buttons.runFailedAgain': 'Reactivar fallido',
+    'schedules.title': 'Programaciones ({{count}})',
+    'schedules.fields.cron': 'Expresión cron',
+    'schedules.fields.inputData': 'Datos de entrada',
+    'schedules.fields.enabled': 'Habilitado',
+    'schedules.fields.runAs': 'Ejecutar como',
+    'schedules.fields.nextRun': 'Próxima ejecución',
+    'schedules.fields.lastRun': 'Última ejecución',
+    'schedules.fields.lastRunError': 'Error de la última ejecución',
+    'schedules.fields.actions': 'Acciones',
+    'schedules.buttons.add': 'Agregar programación',
+    'schedules.buttons.save': 'Guardar',
+    'schedules.buttons.delete': 'Eliminar programación',
+    'schedules.dialog.title': 'Agregar programación',
+    'schedules.dialog.cronHelperText':
+      'Expresión cron evaluada en la zona horaria del backend de Backstage',
+    'schedules.dialog.inputDataHelperText':
+      'Objeto JSON que se pasa al flujo de trabajo como datos de entrada',
+    'schedules.dialog.invalidInputData':
+      'Los datos de entrada deben ser un objeto JSON',
+    'schedules.messages.noSchedules':
+      'No hay programaciones definidas para este flujo de trabajo.',
     'run.title': 'Ejecutar flujo de trabajo',
     'run.variables': 'Variables de ejecución',
     'run.inputs': 'Entradas',
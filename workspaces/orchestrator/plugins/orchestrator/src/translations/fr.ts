@@ -30,6 +30,7 @@ const orchestratorTranslationFr = createTranslationMessages({
     'page.tabs.allRuns': 'Toutes les exécutions',
     'page.tabs.workflowDetails': 'Détails du flux de travail',
     'page.tabs.workflowRuns': "Le flux de travail s'exécute",
+    'page.tabs.workflowSchedules': 'Planifications',
     'table.title.workflows': 'Flux de travail',
     'table.title.allRuns': 'Toutes les courses ({{count}})',
     'table.title.allWorkflowRuns': 'Exécutions du workflow ({{count}})',
@@ -90,6 +91,27 @@ const orchestratorTranslationFr = createTranslationMessages({
     'workflow.buttons.running': "En cours d'exécution",
     'workflow.buttons.fromFailurePoint': 'Du point de défaillance',
     'workflow.buttons.runFailedAgain': "L'exécution a échoué à nouveau",
+    'schedules.title': 'Planifications ({{count}})',
+    'schedules.fields.cron': 'Expression cron',
+    'schedules.fields.inputData': "Données d'entrée",
+    'schedules.fields.enabled': 'Activée',
+    'schedules.fields.runAs': 'Exécuter en tant que',
+    'schedules.fields.nextRun': 'Prochaine exécution',
+    'schedules.fields.lastRun': 'Dernière exécution',
+    'schedules.fields.lastRunError': 'Erreur de la dernière exécution',
+    'schedules.fields.actions': 'Actions',
+    'schedules.buttons.add': 'Ajouter une planification',
+    'schedules.buttons.save': 'Enregistrer',
+    'schedules.buttons.delete': 'Supprimer la planification',
+    'schedules.dialog.title': 'Ajouter une planification',
+    'schedules.dialog.cronHelperText':
+      'Expression cron évaluée dans le fuseau horaire du backend Backstage',
+    'schedules.dialog.inputDataHelperText':
+      "Objet JSON transmis au flux de travail comme données d'entrée",
+    'schedules.dialog.invalidInputData':
+      "Les données d'entrée doivent être un objet JSON",
+    'schedules.messages.noSchedules':
+      "Aucune planification n'est définie pour ce flux de travail.",
     'run.title': 'Exécuter le flux de travail',
     'run.pageTitle': '{{processName}} exécuter',
     'run.variables': "Variables d'exécution",
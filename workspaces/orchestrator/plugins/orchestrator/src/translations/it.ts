@@ -30,6 +30,7 @@ const orchestratorTranslationIt = createTranslationMessages({
     'page.tabs.allRuns': 'Tutte le esecuzioni',
     'page.tabs.workflowDetails': 'Dettagli del flusso di lavoro',
     'page.tabs.workflowRuns': 'Esecuzioni del flusso di lavoro',
+    'page.tabs.workflowSchedules': 'Pianificazioni',
     'table.title.workflows': 'Flussi di lavoro',
     'table.title.allRuns': 'Tutte le esecuzioni ({{count}})',
     'table.title.allWorkflowRuns':
@@ -91,6 +92,27 @@ const orchestratorTranslationIt = createTranslationMessages({
     'workflow.buttons.running': 'Esecuzione in corso...',
     'workflow.buttons.fromFailurePoint': 'Dal punto di errore',
     'workflow.buttons.runFailedAgain': 'Esecuzione non riuscita di nuovo',
+    'schedules.title': 'Pianificazioni ({{count}})',
+    'schedules.fields.cron': 'Espressione cron',
+    'schedules.fields.inputData': 'Dati di input',
+    'schedules.fields.enabled': 'Abilitata',
+    'schedules.fields.runAs': 'Esegui come',
+    'schedules.fields.nextRun': 'Prossima esecuzione',
+    'schedules.fields.lastRun': 'Ultima esecuzione',
+    'schedules.fields.lastRunError': "Errore dell'ultima esecuzione",
+    'schedules.fields.actions': 'Azioni',
+    'schedules.buttons.add': 'Aggiungi pianificazione',
+    'schedules.buttons.save': 'Salva',
+    'schedules.buttons.delete': 'Elimina pianificazione',
+    'schedules.dialog.title': 'Aggiungi pianificazione',
+    'schedules.dialog.cronHelperText':
+      'Espressione cron valutata nel fuso orario del backend di Backstage',
+    'schedules.dialog.inputDataHelperText':
+      'Oggetto JSON passato al flusso di lavoro come dati di input',
+    'schedules.dialog.invalidInputData':
+      'I dati di input devono essere un oggetto JSON',
+    'schedules.messages.noSchedules':
+      'Nessuna pianificazione definita per questo flusso di lavoro.',
     'run.title': 'Esegui flusso di lavoro',
     'run.pageTitle': 'Esecuzione di {{processName}}',
     'run.variables': 'Esegui variabili',
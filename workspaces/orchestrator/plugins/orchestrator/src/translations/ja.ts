@@ -30,6 +30,7 @@ const orchestratorTranslationJa = createTranslationMessages({
     'page.tabs.allRuns': 'すべての実行',
     'page.tabs.workflowDetails': 'ワークフロー詳細',
     'page.tabs.workflowRuns': 'ワークフロー実行',
+    'page.tabs.workflowSchedules': 'スケジュール',
     'table.title.workflows': 'ワークフロー',
     'table.title.allRuns': 'すべての実行 ({{count}})',
     'table.title.allWorkflowRuns': 'ワークフロー実行 ({{count}})',
@@ -90,6 +91,27 @@ const orchestratorTranslationJa = createTranslationMessages({
     'workflow.buttons.running': '実行中...',
     'workflow.buttons.fromFailurePoint': '失敗箇所から',
     'workflow.buttons.runFailedAgain': '実行が再び失敗しました',
+    'schedules.title': 'スケジュール ({{count}})',
+    'schedules.fields.cron': 'cron 式',
+    'schedules.fields.inputData': '入力データ',
+    'schedules.fields.enabled': '有効',
+    'schedules.fields.runAs': '実行ユーザー',
+    'schedules.fields.nextRun': '次回の実行',
+    'schedules.fields.lastRun': '前回の実行',
+    'schedules.fields.lastRunError': '前回の実行エラー',
+    'schedules.fields.actions': 'アクション',
+    'schedules.buttons.add': 'スケジュールの追加',
+    'schedules.buttons.save': '保存',
+    'schedules.buttons.delete': 'スケジュールの削除',
+    'schedules.dialog.title': 'スケジュールの追加',
+    'schedules.dialog.cronHelperText':
+      'Backstage バックエンドのタイムゾーンで評価される cron 式',
+    'schedules.dialog.inputDataHelperText':
+      'ワークフローに入力データとして渡される JSON オブジェクト',
+    'schedules.dialog.invalidInputData':
+      '入力データは JSON オブジェクトである必要があります',
+    'schedules.messages.noSchedules':
+      'このワークフローにはスケジュールが定義されていません。',
     'run.title': 'ワークフローの実行',
     'run.pageTitle': '{{processName}} の実行',
     'run.variables': '実行変数',
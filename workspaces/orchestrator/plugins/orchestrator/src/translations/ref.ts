@@ -25,6 +25,7 @@ export const orchestratorMessages = {
       allRuns: 'All runs',
       workflowDetails: 'Workflow details',
       workflowRuns: 'Workflow runs',
+      workflowSchedules: 'Schedules',
     },
   },
   table: {
@@ -109,6 +110,35 @@ export const orchestratorMessages = {
       runFailedAgain: 'Run failed again',
     },
   },
+  schedules: {
+    title: 'Schedules ({{count}})',
+    fields: {
+      cron: 'Cron expression',
+      inputData: 'Input data',
+      enabled: 'Enabled',
+      runAs: 'Run as',
+      nextRun: 'Next run',
+      lastRun: 'Last run',
+      lastRunError: 'Last run error',
+      actions: 'Actions',
+    },
+    buttons: {
+      add: 'Add schedule',
+      save: 'Save',
+      delete: 'Delete schedule',
+    },
+    dialog: {
+      title: 'Add schedule',
+      cronHelperText:
+        'Cron expression evaluated in the time zone of the Backstage backend',
+      inputDataHelperText:
+        'JSON object passed to the workflow as its input data',
+      invalidInputData: 'Input data must be a JSON object',
+    },
+    messages: {
+      noSchedules: 'No schedules are defined for this workflow.',
+    },
+  },
   run: {
     title: 'Run workflow',
     pageTitle: '{{processName}} run',
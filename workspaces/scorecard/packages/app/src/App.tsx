@@ -146,6 +146,39 @@ const mountPoints: HomePageCardMountPoint[] = [
       },
     },
   },
+  {
+    Component: ScorecardHomepageCard as ComponentType,
+    config: {
+      id: 'scorecard-github.open_prs-by-owner',
+      title: 'Scorecard: GitHub open PRs by owner',
+      // Supported card layout
+      cardLayout: {
+        width: {
+          minColumns: 3,
+          maxColumns: 12,
+          defaultColumns: 6,
+        },
+        height: {
+          minRows: 5,
+          maxRows: 12,
+          defaultRows: 6,
+        },
+      },
+      // Default layout so that it is shown automatically
+      layouts: {
+        xl: { w: 6, h: 6 },
+        lg: { w: 6, h: 6 },
+        md: { w: 6, h: 6 },
+        sm: { w: 6, h: 6 },
+        xs: { w: 6, h: 6 },
+        xxs: { w: 6, h: 6 },
+      },
+      props: {
+        metricId: 'github.open_prs',
+        groupBy: 'owner',
+      },
+    },
+  },
   {
     Component: ScorecardHomepageCard as ComponentType,
     config: {
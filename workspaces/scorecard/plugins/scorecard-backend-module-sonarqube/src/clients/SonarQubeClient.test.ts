@@ -0,0 +1,210 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  mockServices,
+  registerMswTestHooks,
+} from '@backstage/backend-test-utils';
+import { rest } from 'msw';
+import { setupServer } from 'msw/node';
+import { SonarQubeClient } from './SonarQubeClient';
+
+const measuresResponse = (measures: { metric: string; value?: string }[]) => ({
+  component: {
+    key: 'my-project',
+    name: 'My Project',
+    measures,
+  },
+});
+
+describe('SonarQubeClient', () => {
+  const server = setupServer();
+  registerMswTestHooks(server);
+
+  const client = new SonarQubeClient([
+    {
+      name: 'default',
+      baseUrl: 'https://sonarqube.example.com',
+      apiKey: 'token',
+    },
+    {
+      name: 'other',
+      baseUrl: 'https://other.example.com/sonar/',
+      apiKey: 'other-token',
+    },
+  ]);
+
+  describe('fromConfig', () => {
+    it('should read the default and named instances', async () => {
+      const authorizations: Record<string, string | null> = {};
+      server.use(
+        rest.get(
+          'https://sonarqube.example.com/api/measures/component',
+          (req, res, ctx) => {
+            authorizations.default = req.headers.get('Authorization');
+            return res(
+              ctx.json(measuresResponse([{ metric: 'bugs', value: '1' }])),
+            );
+          },
+        ),
+        rest.get(
+          'https://other.example.com/api/measures/component',
+          (req, res, ctx) => {
+            authorizations.other = req.headers.get('Authorization');
+            return res(
+              ctx.json(measuresResponse([{ metric: 'bugs', value: '2' }])),
+            );
+          },
+        ),
+      );
+      const configuredClient = SonarQubeClient.fromConfig(
+        mockServices.rootConfig({
+          data: {
+            sonarqube: {
+              baseUrl: 'https://sonarqube.example.com',
+              apiKey: 'token',
+              instances: [
+                {
+                  name: 'other',
+                  baseUrl: 'https://other.example.com',
+                  apiKey: 'other-token',
+                },
+              ],
+            },
+          },
+        }),
+      );
+
+      await expect(
+        configuredClient.getMeasure({ projectKey: 'my-project' }, 'bugs'),
+      ).resolves.toBe('1');
+      await expect(
+        configuredClient.getMeasure(
+          { instanceName: 'other', projectKey: 'my-project' },
+          'bugs',
+        ),
+      ).resolves.toBe('2');
+      expect(authorizations).toEqual({
+        default: `Basic ${Buffer.from('token:').toString('base64')}`,
+        other: `Basic ${Buffer.from('other-token:').toString('base64')}`,
+      });
+    });
+
+    it('should create a client without instances when sonarqube is not configured', async () => {
+      const configuredClient = SonarQubeClient.fromConfig(
+        mockServices.rootConfig({ data: {} }),
+      );
+
+      await expect(
+        configuredClient.getMeasure({ projectKey: 'my-project' }, 'bugs'),
+      ).rejects.toThrow(
+        "SonarQube instance 'default' is not configured for project my-project",
+      );
+    });
+  });
+
+  describe('getMeasure', () => {
+    it('should return the measure of the project from the default instance', async () => {
+      let request: { url: URL; authorization: string | null } | undefined;
+      server.use(
+        rest.get(
+          'https://sonarqube.example.com/api/measures/component',
+          (req, res, ctx) => {
+            request = {
+              url: req.url,
+              authorization: req.headers.get('Authorization'),
+            };
+            return res(
+              ctx.json(
+                measuresResponse([{ metric: 'coverage', value: '85.4' }]),
+              ),
+            );
+          },
+        ),
+      );
+
+      const value = await client.getMeasure(
+        { projectKey: 'my-project' },
+        'coverage',
+      );
+
+      expect(value).toBe('85.4');
+      expect(request?.url.searchParams.get('component')).toBe('my-project');
+      expect(request?.url.searchParams.get('metricKeys')).toBe('coverage');
+      expect(request?.authorization).toBe(
+        `Basic ${Buffer.from('token:').toString('base64')}`,
+      );
+    });
+
+    it('should use the named instance of the project', async () => {
+      server.use(
+        rest.get(
+          'https://other.example.com/sonar/api/measures/component',
+          (_req, res, ctx) =>
+            res(ctx.json(measuresResponse([{ metric: 'bugs', value: '3' }]))),
+        ),
+      );
+
+      const value = await client.getMeasure(
+        { instanceName: 'other', projectKey: 'my-project' },
+        'bugs',
+      );
+
+      expect(value).toBe('3');
+    });
+
+    it('should throw an error if the instance is not configured', async () => {
+      await expect(
+        client.getMeasure(
+          { instanceName: 'unknown', projectKey: 'my-project' },
+          'bugs',
+        ),
+      ).rejects.toThrow(
+        "SonarQube instance 'unknown' is not configured for project my-project",
+      );
+    });
+
+    it('should throw an error if the API returns a non-ok response', async () => {
+      server.use(
+        rest.get(
+          'https://sonarqube.example.com/api/measures/component',
+          (_req, res, ctx) => res(ctx.status(404, 'Not Found')),
+        ),
+      );
+
+      await expect(
+        client.getMeasure({ projectKey: 'my-project' }, 'bugs'),
+      ).rejects.toThrow(
+        'SonarQube API request failed with status 404: Not Found',
+      );
+    });
+
+    it('should throw an error if the measure is missing', async () => {
+      server.use(
+        rest.get(
+          'https://sonarqube.example.com/api/measures/component',
+          (_req, res, ctx) => res(ctx.json(measuresResponse([]))),
+        ),
+      );
+
+      await expect(
+        client.getMeasure({ projectKey: 'my-project' }, 'coverage'),
+      ).rejects.toThrow(
+        "SonarQube measure 'coverage' not found for project my-project",
+      );
+    });
+  });
+});
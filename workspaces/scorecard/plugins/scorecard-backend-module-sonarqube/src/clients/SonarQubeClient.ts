@@ -0,0 +1,109 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Config } from '@backstage/config';
+import {
+  SonarQubeInstanceConfig,
+  SonarQubeMeasuresResponse,
+  SonarQubeProject,
+} from './types';
+
+const DEFAULT_INSTANCE_NAME = 'default';
+
+export class SonarQubeClient {
+  constructor(private readonly instances: SonarQubeInstanceConfig[]) {}
+
+  /**
+   * Reads the SonarQube instances the same way as the SonarQube backend plugin,
+   * the instance configured directly under `sonarqube` is used as the default instance.
+   */
+  static fromConfig(config: Config): SonarQubeClient {
+    const sonarQubeConfig = config.getOptionalConfig('sonarqube');
+    if (!sonarQubeConfig) {
+      return new SonarQubeClient([]);
+    }
+
+    const instances: SonarQubeInstanceConfig[] =
+      sonarQubeConfig.getOptionalConfigArray('instances')?.map(instance => ({
+        name: instance.getString('name'),
+        baseUrl: instance.getString('baseUrl'),
+        apiKey: instance.getString('apiKey'),
+      })) ?? [];
+
+    const baseUrl = sonarQubeConfig.getOptionalString('baseUrl');
+    if (baseUrl) {
+      instances.push({
+        name: DEFAULT_INSTANCE_NAME,
+        baseUrl,
+        apiKey: sonarQubeConfig.getString('apiKey'),
+      });
+    }
+
+    return new SonarQubeClient(instances);
+  }
+
+  async getMeasure(
+    project: SonarQubeProject,
+    metricKey: string,
+  ): Promise<string> {
+    const instanceName = project.instanceName ?? DEFAULT_INSTANCE_NAME;
+    const instance = this.instances.find(({ name }) => name === instanceName);
+    if (!instance) {
+      throw new Error(
+        `SonarQube instance '${instanceName}' is not configured for project ${project.projectKey}`,
+      );
+    }
+
+    const apiUrl = new URL(
+      'api/measures/component',
+      instance.baseUrl.endsWith('/')
+        ? instance.baseUrl
+        : `${instance.baseUrl}/`,
+    );
+    apiUrl.searchParams.set('component', project.projectKey);
+    apiUrl.searchParams.set('metricKeys', metricKey);
+
+    const response = await fetch(apiUrl.toString(), {
+      method: 'GET',
+      headers: {
+        Accept: 'application/json',
+        // SonarQube tokens are sent as the user name of basic authentication
+        Authorization: `Basic ${Buffer.from(`${instance.apiKey}:`).toString(
+          'base64',
+        )}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `SonarQube API request failed with status ${response.status}: ${response.statusText}`,
+      );
+    }
+
+    const data: SonarQubeMeasuresResponse = await response.json();
+    const measure = data.component.measures.find(
+      ({ metric }) => metric === metricKey,
+    );
+
+    if (measure?.value === undefined) {
+      throw new Error(
+        `SonarQube measure '${metricKey}' not found for project ${project.projectKey}`,
+      );
+    }
+
+    return measure.value;
+  }
+}
@@ -0,0 +1,40 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export interface SonarQubeInstanceConfig {
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface SonarQubeProject {
+  /** Name of the configured SonarQube instance, the default instance is used when not set */
+  instanceName?: string;
+  projectKey: string;
+}
+
+export interface SonarQubeMeasure {
+  metric: string;
+  value?: string;
+}
+
+export interface SonarQubeMeasuresResponse {
+  component: {
+    key: string;
+    name: string;
+    measures: SonarQubeMeasure[];
+  };
+}
@@ -0,0 +1,57 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { type Entity } from '@backstage/catalog-model';
+import { getProjectInformationFromEntity } from './utils';
+
+const createMockEntity = (projectKey?: string): Entity => ({
+  apiVersion: 'backstage.io/v1alpha1',
+  kind: 'Component',
+  metadata: {
+    name: 'test-component',
+    annotations: projectKey
+      ? { 'sonarqube.org/project-key': projectKey }
+      : undefined,
+  },
+});
+
+describe('getProjectInformationFromEntity', () => {
+  it('should return the project key', () => {
+    expect(
+      getProjectInformationFromEntity(createMockEntity('my-project')),
+    ).toEqual({ projectKey: 'my-project' });
+  });
+
+  it('should return the instance name and project key', () => {
+    expect(
+      getProjectInformationFromEntity(createMockEntity('other/my-project')),
+    ).toEqual({ instanceName: 'other', projectKey: 'my-project' });
+  });
+
+  it('should throw error when the annotation is missing', () => {
+    expect(() => getProjectInformationFromEntity(createMockEntity())).toThrow(
+      "Missing annotation 'sonarqube.org/project-key' for entity component:default/test-component",
+    );
+  });
+
+  it('should throw error when the annotation has invalid format', () => {
+    expect(() =>
+      getProjectInformationFromEntity(createMockEntity('other/')),
+    ).toThrow(
+      "Invalid format of 'sonarqube.org/project-key' other/ for entity component:default/test-component",
+    );
+  });
+});
@@ -0,0 +1,55 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { type Entity, stringifyEntityRef } from '@backstage/catalog-model';
+import { SonarQubeProject } from './types';
+
+export const SONARQUBE_PROJECT_KEY_ANNOTATION = 'sonarqube.org/project-key';
+
+/**
+ * Reads the SonarQube project from the `sonarqube.org/project-key` annotation.
+ * The annotation has the format `[instanceName/]projectKey`, the same as used by the SonarQube plugin.
+ */
+export const getProjectInformationFromEntity = (
+  entity: Entity,
+): SonarQubeProject => {
+  const annotation =
+    entity.metadata.annotations?.[SONARQUBE_PROJECT_KEY_ANNOTATION]?.trim();
+  if (!annotation) {
+    throw new Error(
+      `Missing annotation '${SONARQUBE_PROJECT_KEY_ANNOTATION}' for entity ${stringifyEntityRef(
+        entity,
+      )}`,
+    );
+  }
+
+  const separatorIndex = annotation.indexOf('/');
+  if (separatorIndex === -1) {
+    return { projectKey: annotation };
+  }
+
+  const instanceName = annotation.substring(0, separatorIndex);
+  const projectKey = annotation.substring(separatorIndex + 1);
+  if (!instanceName || !projectKey) {
+    throw new Error(
+      `Invalid format of '${SONARQUBE_PROJECT_KEY_ANNOTATION}' ${annotation} for entity ${stringifyEntityRef(
+        entity,
+      )}`,
+    );
+  }
+
+  return { instanceName, projectKey };
+};
@@ -0,0 +1,137 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  DEFAULT_PERCENTAGE_THRESHOLDS,
+  MetricType,
+  MetricValue,
+  ThresholdConfig,
+} from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
+
+/**
+ * Configuration for a SonarQube metric provider.
+ */
+export interface SonarQubeMetricConfig<T extends MetricType = MetricType> {
+  /** The metric name part of the provider ID (e.g., "code_smells") */
+  name: string;
+  /** The key of the SonarQube metric (e.g., "code_smells", "alert_status") */
+  metricKey: string;
+  /** The type of the scorecard metric */
+  type: T;
+  /** Display title for the metric (e.g., "SonarQube Code Smells") */
+  displayTitle: string;
+  /** Description of what the metric measures */
+  description: string;
+  /** Thresholds used when none are configured in app-config */
+  defaultThresholds: ThresholdConfig;
+  /** Converts the measure value returned by SonarQube to the metric value */
+  parseValue: (value: string) => MetricValue<T>;
+}
+
+const parseNumber = (value: string): number => {
+  const parsed = Number(value);
+  if (value.trim() === '' || Number.isNaN(parsed)) {
+    throw new Error(`Invalid SonarQube measure value '${value}'`);
+  }
+  return parsed;
+};
+
+export const SONARQUBE_COVERAGE_METRIC: SonarQubeMetricConfig<'percentage'> = {
+  name: 'coverage',
+  metricKey: 'coverage',
+  type: 'percentage',
+  displayTitle: 'SonarQube Coverage',
+  description:
+    'Percentage of lines and conditions covered by tests according to SonarQube.',
+  defaultThresholds: DEFAULT_PERCENTAGE_THRESHOLDS,
+  parseValue: parseNumber,
+};
+
+export const SONARQUBE_CODE_SMELLS_METRIC: SonarQubeMetricConfig<'number'> = {
+  name: 'code_smells',
+  metricKey: 'code_smells',
+  type: 'number',
+  displayTitle: 'SonarQube Code Smells',
+  description: 'Number of open code smells according to SonarQube.',
+  defaultThresholds: {
+    rules: [
+      { key: 'success', expression: '<10' },
+      { key: 'warning', expression: '10-50' },
+      { key: 'error', expression: '>50' },
+    ],
+  },
+  parseValue: parseNumber,
+};
+
+export const SONARQUBE_BUGS_METRIC: SonarQubeMetricConfig<'number'> = {
+  name: 'bugs',
+  metricKey: 'bugs',
+  type: 'number',
+  displayTitle: 'SonarQube Bugs',
+  description: 'Number of open bugs according to SonarQube.',
+  defaultThresholds: {
+    rules: [
+      { key: 'success', expression: '==0' },
+      { key: 'warning', expression: '1-5' },
+      { key: 'error', expression: '>5' },
+    ],
+  },
+  parseValue: parseNumber,
+};
+
+export const SONARQUBE_VULNERABILITIES_METRIC: SonarQubeMetricConfig<'number'> =
+  {
+    name: 'vulnerabilities',
+    metricKey: 'vulnerabilities',
+    type: 'number',
+    displayTitle: 'SonarQube Vulnerabilities',
+    description: 'Number of open vulnerabilities according to SonarQube.',
+    defaultThresholds: {
+      rules: [
+        { key: 'success', expression: '==0' },
+        { key: 'error', expression: '>0' },
+      ],
+    },
+    parseValue: parseNumber,
+  };
+
+export const SONARQUBE_QUALITY_GATE_METRIC: SonarQubeMetricConfig<'boolean'> = {
+  name: 'quality_gate',
+  metricKey: 'alert_status',
+  type: 'boolean',
+  displayTitle: 'SonarQube Quality Gate',
+  description:
+    'Whether the project passes its quality gate according to SonarQube.',
+  defaultThresholds: {
+    rules: [
+      { key: 'success', expression: '==true' },
+      { key: 'error', expression: '==false' },
+    ],
+  },
+  // SonarQube reports the quality gate status as OK or ERROR
+  parseValue: value => value === 'OK',
+};
+
+/**
+ * All available SonarQube metrics.
+ */
+export const SONARQUBE_METRICS: SonarQubeMetricConfig[] = [
+  SONARQUBE_COVERAGE_METRIC,
+  SONARQUBE_CODE_SMELLS_METRIC,
+  SONARQUBE_BUGS_METRIC,
+  SONARQUBE_VULNERABILITIES_METRIC,
+  SONARQUBE_QUALITY_GATE_METRIC,
+];
@@ -0,0 +1,141 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CATALOG_FILTER_EXISTS } from '@backstage/catalog-client';
+import { type Entity } from '@backstage/catalog-model';
+import { SonarQubeClient } from '../clients/SonarQubeClient';
+import {
+  SONARQUBE_BUGS_METRIC,
+  SONARQUBE_COVERAGE_METRIC,
+  SONARQUBE_QUALITY_GATE_METRIC,
+} from './SonarQubeConfig';
+import { SonarQubeMetricProvider } from './SonarQubeMetricProvider';
+
+describe('SonarQubeMetricProvider', () => {
+  const mockClient = {
+    getMeasure: jest.fn(),
+  } as unknown as jest.Mocked<SonarQubeClient>;
+
+  const entity: Entity = {
+    apiVersion: 'backstage.io/v1alpha1',
+    kind: 'Component',
+    metadata: {
+      name: 'test-component',
+      annotations: { 'sonarqube.org/project-key': 'my-project' },
+    },
+  };
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the provider and metric definition', () => {
+    const provider = new SonarQubeMetricProvider(
+      SONARQUBE_COVERAGE_METRIC,
+      mockClient,
+    );
+
+    expect(provider.getProviderDatasourceId()).toBe('sonarqube');
+    expect(provider.getProviderId()).toBe('sonarqube.coverage');
+    expect(provider.getMetricType()).toBe('percentage');
+    expect(provider.getMetric()).toEqual({
+      id: 'sonarqube.coverage',
+      title: 'SonarQube Coverage',
+      description:
+        'Percentage of lines and conditions covered by tests according to SonarQube.',
+      type: 'percentage',
+      history: true,
+    });
+  });
+
+  it('should return filter for sonarqube.org/project-key annotation', () => {
+    const provider = new SonarQubeMetricProvider(
+      SONARQUBE_BUGS_METRIC,
+      mockClient,
+    );
+
+    expect(provider.getCatalogFilter()).toEqual({
+      'metadata.annotations.sonarqube.org/project-key': CATALOG_FILTER_EXISTS,
+    });
+  });
+
+  it('should return default thresholds when none provided', () => {
+    const provider = new SonarQubeMetricProvider(
+      SONARQUBE_BUGS_METRIC,
+      mockClient,
+    );
+
+    expect(provider.getMetricThresholds()).toBe(
+      SONARQUBE_BUGS_METRIC.defaultThresholds,
+    );
+  });
+
+  it('should calculate number metrics from the measure value', async () => {
+    mockClient.getMeasure.mockResolvedValue('4');
+    const provider = new SonarQubeMetricProvider(
+      SONARQUBE_BUGS_METRIC,
+      mockClient,
+    );
+
+    await expect(provider.calculateMetric(entity)).resolves.toBe(4);
+    expect(mockClient.getMeasure).toHaveBeenCalledWith(
+      { projectKey: 'my-project' },
+      'bugs',
+    );
+  });
+
+  it('should calculate percentage metrics from the measure value', async () => {
+    mockClient.getMeasure.mockResolvedValue('85.4');
+    const provider = new SonarQubeMetricProvider(
+      SONARQUBE_COVERAGE_METRIC,
+      mockClient,
+    );
+
+    await expect(provider.calculateMetric(entity)).resolves.toBe(85.4);
+  });
+
+  it.each([
+    ['OK', true],
+    ['ERROR', false],
+  ])(
+    'should calculate the quality gate metric from status %s',
+    async (status, expected) => {
+      mockClient.getMeasure.mockResolvedValue(status);
+      const provider = new SonarQubeMetricProvider(
+        SONARQUBE_QUALITY_GATE_METRIC,
+        mockClient,
+      );
+
+      await expect(provider.calculateMetric(entity)).resolves.toBe(expected);
+      expect(mockClient.getMeasure).toHaveBeenCalledWith(
+        { projectKey: 'my-project' },
+        'alert_status',
+      );
+    },
+  );
+
+  it('should throw error when the measure value is not a number', async () => {
+    mockClient.getMeasure.mockResolvedValue('unknown');
+    const provider = new SonarQubeMetricProvider(
+      SONARQUBE_BUGS_METRIC,
+      mockClient,
+    );
+
+    await expect(provider.calculateMetric(entity)).rejects.toThrow(
+      "Invalid SonarQube measure value 'unknown'",
+    );
+  });
+});
@@ -0,0 +1,93 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CATALOG_FILTER_EXISTS } from '@backstage/catalog-client';
+import { type Entity } from '@backstage/catalog-model';
+import {
+  Metric,
+  MetricType,
+  MetricValue,
+  ThresholdConfig,
+} from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
+import { MetricProvider } from '@red-hat-developer-hub/backstage-plugin-scorecard-node';
+
+import { SonarQubeClient } from '../clients/SonarQubeClient';
+import {
+  getProjectInformationFromEntity,
+  SONARQUBE_PROJECT_KEY_ANNOTATION,
+} from '../clients/utils';
+import { SonarQubeMetricConfig } from './SonarQubeConfig';
+
+/**
+ * Metric provider for SonarQube.
+ * Reads a single measure of the project referenced by the `sonarqube.org/project-key` annotation.
+ */
+export class SonarQubeMetricProvider<T extends MetricType>
+  implements MetricProvider<T>
+{
+  private readonly thresholds: ThresholdConfig;
+
+  constructor(
+    private readonly config: SonarQubeMetricConfig<T>,
+    private readonly sonarQubeClient: SonarQubeClient,
+    thresholds?: ThresholdConfig,
+  ) {
+    this.thresholds = thresholds ?? config.defaultThresholds;
+  }
+
+  getProviderDatasourceId(): string {
+    return 'sonarqube';
+  }
+
+  getProviderId(): string {
+    return `sonarqube.${this.config.name}`;
+  }
+
+  getMetricType(): T {
+    return this.config.type;
+  }
+
+  getMetric(): Metric<T> {
+    return {
+      id: this.getProviderId(),
+      title: this.config.displayTitle,
+      description: this.config.description,
+      type: this.getMetricType(),
+      history: true,
+    };
+  }
+
+  getMetricThresholds(): ThresholdConfig {
+    return this.thresholds;
+  }
+
+  getCatalogFilter(): Record<string, string | symbol | (string | symbol)[]> {
+    return {
+      [`metadata.annotations.${SONARQUBE_PROJECT_KEY_ANNOTATION}`]:
+        CATALOG_FILTER_EXISTS,
+    };
+  }
+
+  async calculateMetric(entity: Entity): Promise<MetricValue<T>> {
+    const project = getProjectInformationFromEntity(entity);
+    const value = await this.sonarQubeClient.getMeasure(
+      project,
+      this.config.metricKey,
+    );
+
+    return this.config.parseValue(value);
+  }
+}
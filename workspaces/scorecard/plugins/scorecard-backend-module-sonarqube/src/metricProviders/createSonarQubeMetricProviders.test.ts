@@ -0,0 +1,91 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { mockServices } from '@backstage/backend-test-utils';
+import { SonarQubeClient } from '../clients/SonarQubeClient';
+import { createSonarQubeMetricProviders } from './createSonarQubeMetricProviders';
+import { SONARQUBE_METRICS } from './SonarQubeConfig';
+
+describe('createSonarQubeMetricProviders', () => {
+  const client = new SonarQubeClient([]);
+
+  it('should create all SonarQube metric providers with default thresholds', () => {
+    const providers = createSonarQubeMetricProviders(
+      mockServices.rootConfig({ data: {} }),
+      client,
+    );
+
+    expect(providers.map(provider => provider.getProviderId())).toEqual([
+      'sonarqube.coverage',
+      'sonarqube.code_smells',
+      'sonarqube.bugs',
+      'sonarqube.vulnerabilities',
+      'sonarqube.quality_gate',
+    ]);
+    providers.forEach((provider, index) => {
+      expect(provider.getMetricThresholds()).toBe(
+        SONARQUBE_METRICS[index].defaultThresholds,
+      );
+    });
+  });
+
+  it('should use thresholds from config', () => {
+    const thresholds = {
+      rules: [
+        { key: 'success', expression: '>=90' },
+        { key: 'error', expression: '<90' },
+      ],
+    };
+
+    const providers = createSonarQubeMetricProviders(
+      mockServices.rootConfig({
+        data: {
+          scorecard: {
+            plugins: { sonarqube: { coverage: { thresholds } } },
+          },
+        },
+      }),
+      client,
+    );
+
+    expect(providers[0].getMetricThresholds()).toEqual(thresholds);
+  });
+
+  it('should throw error when configured thresholds are invalid', () => {
+    expect(() =>
+      createSonarQubeMetricProviders(
+        mockServices.rootConfig({
+          data: {
+            scorecard: {
+              plugins: {
+                sonarqube: {
+                  quality_gate: {
+                    thresholds: {
+                      rules: [{ key: 'success', expression: '>10' }],
+                    },
+                  },
+                },
+              },
+            },
+          },
+        }),
+        client,
+      ),
+    ).toThrow(
+      'Invalid thresholds configuration at scorecard.plugins.sonarqube.quality_gate.thresholds',
+    );
+  });
+});
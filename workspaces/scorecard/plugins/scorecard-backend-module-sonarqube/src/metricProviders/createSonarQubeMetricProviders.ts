@@ -0,0 +1,49 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Config } from '@backstage/config';
+import {
+  getThresholdsFromConfig,
+  MetricProvider,
+} from '@red-hat-developer-hub/backstage-plugin-scorecard-node';
+import { SonarQubeClient } from '../clients/SonarQubeClient';
+import { SONARQUBE_METRICS } from './SonarQubeConfig';
+import { SonarQubeMetricProvider } from './SonarQubeMetricProvider';
+
+/**
+ * Creates all SonarQube metric providers.
+ * Thresholds configured under `scorecard.plugins.sonarqube.<metricName>.thresholds` replace the default thresholds.
+ * @param config Root config
+ * @param sonarQubeClient Client used by all providers
+ * @returns Array of SonarQube metric providers
+ */
+export function createSonarQubeMetricProviders(
+  config: Config,
+  sonarQubeClient: SonarQubeClient,
+): MetricProvider[] {
+  return SONARQUBE_METRICS.map(
+    metricConfig =>
+      new SonarQubeMetricProvider(
+        metricConfig,
+        sonarQubeClient,
+        getThresholdsFromConfig(
+          config,
+          `scorecard.plugins.sonarqube.${metricConfig.name}.thresholds`,
+          metricConfig.type,
+        ),
+      ),
+  );
+}
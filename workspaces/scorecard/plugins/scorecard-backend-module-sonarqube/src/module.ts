@@ -0,0 +1,43 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  coreServices,
+  createBackendModule,
+} from '@backstage/backend-plugin-api';
+import { scorecardMetricsExtensionPoint } from '@red-hat-developer-hub/backstage-plugin-scorecard-node';
+import { SonarQubeClient } from './clients/SonarQubeClient';
+import { createSonarQubeMetricProviders } from './metricProviders/createSonarQubeMetricProviders';
+
+export const scorecardModuleSonarQube = createBackendModule({
+  pluginId: 'scorecard',
+  moduleId: 'sonarqube',
+  register(reg) {
+    reg.registerInit({
+      deps: {
+        config: coreServices.rootConfig,
+        metrics: scorecardMetricsExtensionPoint,
+      },
+      async init({ config, metrics }) {
+        metrics.addMetricProvider(
+          ...createSonarQubeMetricProviders(
+            config,
+            SonarQubeClient.fromConfig(config),
+          ),
+        );
+      },
+    });
+  },
+});
@@ -20,6 +20,10 @@ import { DbMetricValue, DbAggregatedMetric } from '../src/database/types';
 type BuildMockDatabaseMetricValuesParams = {
   metricValues?: DbMetricValue[];
   latestEntityMetric?: DbMetricValue[];
+  latestMetricValues?: DbMetricValue[];
+  latestMetricValuesByMetricIds?: DbMetricValue[];
+  entityMetricHistory?: DbMetricValue[];
+  metricValuesByTimeRange?: DbMetricValue[];
   countOfExpiredMetrics?: number;
   aggregatedMetric?: DbAggregatedMetric;
 };
@@ -27,6 +31,10 @@ type BuildMockDatabaseMetricValuesParams = {
 export const mockDatabaseMetricValues = {
   createMetricValues: jest.fn(),
   readLatestEntityMetricValues: jest.fn(),
+  readLatestMetricValuesByEntityRefs: jest.fn(),
+  readLatestMetricValuesByEntityRefsAndMetricIds: jest.fn(),
+  readEntityMetricValuesByTimeRange: jest.fn(),
+  readMetricValuesByEntityRefsAndTimeRange: jest.fn(),
   cleanupExpiredMetrics: jest.fn(),
   readAggregatedMetricByEntityRefs: jest.fn(),
 } as unknown as jest.Mocked<DatabaseMetricValues>;
@@ -34,6 +42,10 @@ export const mockDatabaseMetricValues = {
 export const buildMockDatabaseMetricValues = ({
   metricValues,
   latestEntityMetric,
+  latestMetricValues,
+  latestMetricValuesByMetricIds,
+  entityMetricHistory,
+  metricValuesByTimeRange,
   countOfExpiredMetrics,
   aggregatedMetric,
 }: BuildMockDatabaseMetricValuesParams) => {
@@ -45,6 +57,23 @@ export const buildMockDatabaseMetricValues = ({
     ? jest.fn().mockResolvedValue(latestEntityMetric)
     : mockDatabaseMetricValues.readLatestEntityMetricValues;
 
+  const readLatestMetricValuesByEntityRefs = latestMetricValues
+    ? jest.fn().mockResolvedValue(latestMetricValues)
+    : mockDatabaseMetricValues.readLatestMetricValuesByEntityRefs;
+
+  const readLatestMetricValuesByEntityRefsAndMetricIds =
+    latestMetricValuesByMetricIds
+      ? jest.fn().mockResolvedValue(latestMetricValuesByMetricIds)
+      : mockDatabaseMetricValues.readLatestMetricValuesByEntityRefsAndMetricIds;
+
+  const readEntityMetricValuesByTimeRange = entityMetricHistory
+    ? jest.fn().mockResolvedValue(entityMetricHistory)
+    : mockDatabaseMetricValues.readEntityMetricValuesByTimeRange;
+
+  const readMetricValuesByEntityRefsAndTimeRange = metricValuesByTimeRange
+    ? jest.fn().mockResolvedValue(metricValuesByTimeRange)
+    : mockDatabaseMetricValues.readMetricValuesByEntityRefsAndTimeRange;
+
   const cleanupExpiredMetrics = countOfExpiredMetrics
     ? jest.fn().mockResolvedValue(countOfExpiredMetrics)
     : mockDatabaseMetricValues.cleanupExpiredMetrics;
@@ -56,6 +85,10 @@ export const buildMockDatabaseMetricValues = ({
   return {
     createMetricValues,
     readLatestEntityMetricValues,
+    readLatestMetricValuesByEntityRefs,
+    readLatestMetricValuesByEntityRefsAndMetricIds,
+    readEntityMetricValuesByTimeRange,
+    readMetricValuesByEntityRefsAndTimeRange,
     cleanupExpiredMetrics,
     readAggregatedMetricByEntityRefs,
   } as unknown as jest.Mocked<DatabaseMetricValues>;
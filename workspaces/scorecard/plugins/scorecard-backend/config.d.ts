@@ -15,14 +15,52 @@
  */
 
 import { SchedulerServiceTaskScheduleDefinitionConfig } from '@backstage/backend-plugin-api';
+import { HumanDuration } from '@backstage/types';
 
 export interface Config {
   /** Configuration for scorecard plugin */
   scorecard?: {
     /** Number of days to retain metric data in the database. Older data will be automatically cleaned up. Default: 365 days */
     dataRetentionDays?: number;
+    /** Configuration for on-demand metric refreshes of a single entity */
+    refresh?: {
+      /** Minimum number of seconds between two refreshes of the same entity. Default: 60 seconds */
+      minIntervalSeconds?: number;
+    };
     /** Configuration for scorecard metric providers */
     plugins?: {
+      /** Configuration for composite metrics derived from other registered metrics */
+      composite?: {
+        /** Each key is the metric name part of the composite metric ID (composite.metricName) */
+        [metricName: string]: {
+          /** Display title of the composite metric */
+          title: string;
+          /** Description of the composite metric */
+          description?: string;
+          /** Metrics the composite metric is derived from */
+          inputs: Array<{
+            /** ID of a registered metric, for example github.open_prs */
+            metricId: string;
+            /** Weight of the input metric in the composite score. Default: 1 */
+            weight?: number;
+          }>;
+          /** Threshold configuration for the composite metric, expressions are evaluated against a percentage */
+          thresholds?: {
+            rules?: Array<{
+              key: 'error' | 'warning' | 'success';
+              expression: string;
+            }>;
+          };
+          schedule?: SchedulerServiceTaskScheduleDefinitionConfig;
+          /** Configuration for notifications sent to entity owners when the metric status gets worse */
+          notifications?: {
+            /** Enables threshold breach notifications for the metric. Default: false */
+            enabled?: boolean;
+            /** Minimum time between two notifications for the same entity and metric. Default: 24 hours */
+            debounce?: HumanDuration;
+          };
+        };
+      };
       /** Configuration for datasource */
       [datasource: string]: {
         /** Configuration for metric providers within the datasource.
@@ -33,11 +71,18 @@ export interface Config {
           thresholds?: {
             rules?: Array<{
               key: 'error' | 'warning' | 'success';
-              /** Threshold expression - supports: >=, <=, >, <, ==, !=, - (range) */
+              /** Threshold expression - supports: >=, <=, >, <, ==, !=, - (range), in(a,b) and matches(regex) for string metrics */
               expression: string;
             }>;
           };
           schedule?: SchedulerServiceTaskScheduleDefinitionConfig;
+          /** Configuration for notifications sent to entity owners when the metric status gets worse */
+          notifications?: {
+            /** Enables threshold breach notifications for the metric. Default: false */
+            enabled?: boolean;
+            /** Minimum time between two notifications for the same entity and metric. Default: 24 hours */
+            debounce?: HumanDuration;
+          };
         };
       };
     };
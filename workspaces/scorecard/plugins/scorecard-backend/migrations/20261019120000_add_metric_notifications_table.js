@@ -0,0 +1,43 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+exports.up = async function up(knex) {
+  await knex.schema.createTable('metric_notifications', table => {
+    table.comment(
+      'Table containing the last threshold breach notification of each entity metric',
+    );
+    table.string('metric_id').notNullable();
+    table
+      .string('catalog_entity_ref')
+      .notNullable()
+      .comment('The entity ref the notification was sent for');
+    table
+      .string('status')
+      .checkIn(['success', 'warning', 'error'], 'notification_status_check')
+      .notNullable()
+      .comment('The metric status that triggered the notification');
+    table
+      .dateTime('notified_at', { precision: 0 })
+      .notNullable()
+      .comment('The timestamp when the notification was sent');
+
+    table.primary(['catalog_entity_ref', 'metric_id']);
+  });
+};
+
+exports.down = async function down(knex) {
+  await knex.schema.dropTable('metric_notifications');
+};
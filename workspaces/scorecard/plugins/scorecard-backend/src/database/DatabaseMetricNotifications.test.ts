@@ -0,0 +1,150 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  mockServices,
+  TestDatabaseId,
+  TestDatabases,
+} from '@backstage/backend-test-utils';
+import { DatabaseMetricNotifications } from './DatabaseMetricNotifications';
+import { migrate } from './migration';
+
+jest.setTimeout(60000);
+
+describe('DatabaseMetricNotifications', () => {
+  const databases = TestDatabases.create({
+    ids: ['SQLITE_3', 'POSTGRES_15'],
+  });
+
+  async function createDatabase(databaseId: TestDatabaseId) {
+    const client = await databases.init(databaseId);
+    const mockDatabaseService = mockServices.database.mock({
+      getClient: async () => client,
+      migrations: { skip: false },
+    });
+
+    await migrate(mockDatabaseService);
+
+    return {
+      client,
+      db: new DatabaseMetricNotifications(client),
+    };
+  }
+
+  describe('readLastNotifications', () => {
+    it.each(databases.eachSupportedId())(
+      'should return last notifications of the entities for the metric - %p',
+      async databaseId => {
+        const { client, db } = await createDatabase(databaseId);
+
+        await client('metric_notifications').insert([
+          {
+            catalog_entity_ref: 'component:default/test-service',
+            metric_id: 'github.metric1',
+            status: 'error',
+            notified_at: new Date('2023-01-01T00:00:00Z'),
+          },
+          {
+            catalog_entity_ref: 'component:default/test-service',
+            metric_id: 'github.metric2',
+            status: 'warning',
+            notified_at: new Date('2023-01-01T00:00:00Z'),
+          },
+          {
+            catalog_entity_ref: 'component:default/other-service',
+            metric_id: 'github.metric1',
+            status: 'warning',
+            notified_at: new Date('2023-01-01T00:00:00Z'),
+          },
+        ]);
+
+        const result = await db.readLastNotifications(
+          ['component:default/test-service'],
+          'github.metric1',
+        );
+
+        expect(result).toEqual([
+          {
+            catalog_entity_ref: 'component:default/test-service',
+            metric_id: 'github.metric1',
+            status: 'error',
+            notified_at: new Date('2023-01-01T00:00:00Z'),
+          },
+        ]);
+      },
+    );
+
+    it.each(databases.eachSupportedId())(
+      'should return empty array when no entity refs are given - %p',
+      async databaseId => {
+        const { db } = await createDatabase(databaseId);
+
+        await expect(
+          db.readLastNotifications([], 'github.metric1'),
+        ).resolves.toEqual([]);
+      },
+    );
+  });
+
+  describe('upsertNotifications', () => {
+    it.each(databases.eachSupportedId())(
+      'should insert new notifications and replace existing ones - %p',
+      async databaseId => {
+        const { db } = await createDatabase(databaseId);
+
+        await db.upsertNotifications([
+          {
+            catalog_entity_ref: 'component:default/test-service',
+            metric_id: 'github.metric1',
+            status: 'warning',
+            notified_at: new Date('2023-01-01T00:00:00Z'),
+          },
+        ]);
+        await db.upsertNotifications([
+          {
+            catalog_entity_ref: 'component:default/test-service',
+            metric_id: 'github.metric1',
+            status: 'error',
+            notified_at: new Date('2023-01-02T00:00:00Z'),
+          },
+          {
+            catalog_entity_ref: 'component:default/other-service',
+            metric_id: 'github.metric1',
+            status: 'warning',
+            notified_at: new Date('2023-01-02T00:00:00Z'),
+          },
+        ]);
+
+        const result = await db.readLastNotifications(
+          ['component:default/test-service', 'component:default/other-service'],
+          'github.metric1',
+        );
+
+        expect(result).toHaveLength(2);
+        expect(
+          result.find(
+            r => r.catalog_entity_ref === 'component:default/test-service',
+          ),
+        ).toEqual({
+          catalog_entity_ref: 'component:default/test-service',
+          metric_id: 'github.metric1',
+          status: 'error',
+          notified_at: new Date('2023-01-02T00:00:00Z'),
+        });
+      },
+    );
+  });
+});
@@ -0,0 +1,63 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Knex } from 'knex';
+import { DbMetricNotification } from './types';
+
+export class DatabaseMetricNotifications {
+  private readonly tableName = 'metric_notifications';
+
+  constructor(private readonly dbClient: Knex<any, any[]>) {}
+
+  /**
+   * Get the last sent notifications for specific entities and a metric
+   */
+  async readLastNotifications(
+    catalog_entity_refs: string[],
+    metric_id: string,
+  ): Promise<DbMetricNotification[]> {
+    if (catalog_entity_refs.length === 0) {
+      return [];
+    }
+
+    const rows: DbMetricNotification[] = await this.dbClient(this.tableName)
+      .select('*')
+      .where('metric_id', metric_id)
+      .whereIn('catalog_entity_ref', catalog_entity_refs);
+
+    // SQLite returns dates as numbers
+    return rows.map(row => ({
+      ...row,
+      notified_at: new Date(row.notified_at),
+    }));
+  }
+
+  /**
+   * Store sent notifications, replacing the previous notification of the same entity metric
+   */
+  async upsertNotifications(
+    notifications: DbMetricNotification[],
+  ): Promise<void> {
+    if (notifications.length === 0) {
+      return;
+    }
+
+    await this.dbClient(this.tableName)
+      .insert(notifications)
+      .onConflict(['catalog_entity_ref', 'metric_id'])
+      .merge(['status', 'notified_at']);
+  }
+}
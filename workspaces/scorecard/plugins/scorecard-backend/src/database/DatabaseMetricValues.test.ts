@@ -179,6 +179,257 @@ describe('DatabaseMetricValues', () => {
     );
   });
 
+  describe('readLatestMetricValuesByEntityRefs', () => {
+    it.each(databases.eachSupportedId())(
+      'should return latest metric value of each entity - %p',
+      async databaseId => {
+        const { client, db } = await createDatabase(databaseId);
+
+        await client('metric_values').insert([
+          {
+            ...metricValues[0],
+            value: 10,
+            timestamp: new Date('2023-01-01T00:00:00Z'),
+          },
+          {
+            ...metricValues[0],
+            timestamp: new Date('2023-01-01T01:00:00Z'), // newer value of the same entity
+            status: 'warning',
+          },
+          metricValues[1],
+          metricValues[2], // different metric
+          {
+            ...metricValues[0],
+            catalog_entity_ref: 'component:default/not-requested',
+          },
+        ]);
+
+        const result = await db.readLatestMetricValuesByEntityRefs(
+          [
+            'component:default/test-service',
+            'component:default/another-service',
+          ],
+          'github.metric1',
+        );
+
+        expect(result).toHaveLength(2);
+        expect(
+          result.find(
+            r => r.catalog_entity_ref === 'component:default/test-service',
+          ),
+        ).toMatchObject({ value: 41, status: 'warning' });
+        expect(
+          result.find(
+            r => r.catalog_entity_ref === 'component:default/another-service',
+          ),
+        ).toMatchObject({ value: 25, status: 'success' });
+      },
+    );
+  });
+
+  describe('readLatestMetricValuesByEntityRefsAndMetricIds', () => {
+    it.each(databases.eachSupportedId())(
+      'should return latest value of each entity and metric ordered by entity and metric - %p',
+      async databaseId => {
+        const { client, db } = await createDatabase(databaseId);
+
+        await client('metric_values').insert([
+          { ...metricValues[0], value: 10 },
+          {
+            ...metricValues[0],
+            timestamp: new Date('2023-01-01T01:00:00Z'), // newer value of the same entity
+          },
+          metricValues[1],
+          metricValues[2],
+          {
+            ...metricValues[0],
+            metric_id: 'github.not_requested',
+          },
+        ]);
+
+        const result = await db.readLatestMetricValuesByEntityRefsAndMetricIds(
+          [
+            'component:default/test-service',
+            'component:default/another-service',
+          ],
+          ['github.metric1', 'github.metric2'],
+        );
+
+        expect(
+          result.map(({ catalog_entity_ref, metric_id, value }) => [
+            catalog_entity_ref,
+            metric_id,
+            value,
+          ]),
+        ).toEqual([
+          ['component:default/another-service', 'github.metric1', 25],
+          ['component:default/another-service', 'github.metric2', null],
+          ['component:default/test-service', 'github.metric1', 41],
+        ]);
+      },
+    );
+  });
+
+  describe('readMetricValuesByEntityRefsAndTimeRange', () => {
+    it.each(databases.eachSupportedId())(
+      'should return values of the entities and metrics within the time range - %p',
+      async databaseId => {
+        const { client, db } = await createDatabase(databaseId);
+
+        await client('metric_values').insert([
+          {
+            ...metricValues[0],
+            value: 20,
+            timestamp: new Date('2023-01-02T00:00:00Z'),
+          },
+          {
+            ...metricValues[0],
+            value: 10,
+            timestamp: new Date('2023-01-01T00:00:00Z'),
+          },
+          {
+            ...metricValues[0],
+            value: 5,
+            timestamp: new Date('2022-12-01T00:00:00Z'), // outside of range
+          },
+          metricValues[1],
+          metricValues[2], // not requested metric
+        ]);
+
+        const result = await db.readMetricValuesByEntityRefsAndTimeRange(
+          [
+            'component:default/test-service',
+            'component:default/another-service',
+          ],
+          ['github.metric1'],
+          new Date('2023-01-01T00:00:00Z'),
+          new Date('2023-01-03T00:00:00Z'),
+        );
+
+        expect(
+          result.map(({ catalog_entity_ref, value }) => [
+            catalog_entity_ref,
+            value,
+          ]),
+        ).toEqual([
+          ['component:default/another-service', 25],
+          ['component:default/test-service', 10],
+          ['component:default/test-service', 20],
+        ]);
+      },
+    );
+  });
+
+  describe('string metric values', () => {
+    it.each(databases.eachSupportedId())(
+      'should store and read string metric values - %p',
+      async databaseId => {
+        const { db } = await createDatabase(databaseId);
+
+        await db.createMetricValues([
+          {
+            catalog_entity_ref: 'component:default/test-service',
+            metric_id: 'lifecycle.maturity',
+            value: 'gold',
+            timestamp: new Date('2023-01-01T00:00:00Z'),
+            status: 'success',
+          },
+          {
+            catalog_entity_ref: 'component:default/test-service',
+            metric_id: 'lifecycle.version',
+            value: '1',
+            timestamp: new Date('2023-01-01T00:00:00Z'),
+            status: 'success',
+          },
+        ]);
+
+        const latest = await db.readLatestEntityMetricValues(
+          'component:default/test-service',
+          ['lifecycle.maturity', 'lifecycle.version'],
+        );
+
+        expect(
+          latest.find(r => r.metric_id === 'lifecycle.maturity')?.value,
+        ).toBe('gold');
+        expect(
+          latest.find(r => r.metric_id === 'lifecycle.version')?.value,
+        ).toBe('1');
+
+        const history = await db.readEntityMetricValuesByTimeRange(
+          'component:default/test-service',
+          'lifecycle.maturity',
+          new Date('2022-12-31T00:00:00Z'),
+          new Date('2023-01-02T00:00:00Z'),
+        );
+
+        expect(history.map(r => r.value)).toEqual(['gold']);
+      },
+    );
+  });
+
+  describe('readEntityMetricValuesByTimeRange', () => {
+    it.each(databases.eachSupportedId())(
+      'should return metric values within the time range ordered by timestamp - %p',
+      async databaseId => {
+        const { client, db } = await createDatabase(databaseId);
+
+        await client('metric_values').insert([
+          {
+            ...metricValues[0],
+            value: 30,
+            timestamp: new Date('2023-01-03T00:00:00Z'),
+          },
+          {
+            ...metricValues[0],
+            value: 10,
+            timestamp: new Date('2023-01-01T00:00:00Z'),
+          },
+          {
+            ...metricValues[0],
+            value: 20,
+            timestamp: new Date('2023-01-02T00:00:00Z'),
+          },
+          {
+            ...metricValues[0],
+            value: 5,
+            timestamp: new Date('2022-12-01T00:00:00Z'), // outside of range
+          },
+          {
+            ...metricValues[1],
+            timestamp: new Date('2023-01-02T00:00:00Z'), // different entity
+          },
+        ]);
+
+        const result = await db.readEntityMetricValuesByTimeRange(
+          'component:default/test-service',
+          'github.metric1',
+          new Date('2023-01-01T00:00:00Z'),
+          new Date('2023-01-03T00:00:00Z'),
+        );
+
+        expect(result.map(r => r.value)).toEqual([10, 20, 30]);
+      },
+    );
+
+    it.each(databases.eachSupportedId())(
+      'should return empty array when no values exist in the time range - %p',
+      async databaseId => {
+        const { client, db } = await createDatabase(databaseId);
+
+        await client('metric_values').insert([metricValues[0]]);
+
+        const result = await db.readEntityMetricValuesByTimeRange(
+          'component:default/test-service',
+          'github.metric1',
+          new Date('2024-01-01T00:00:00Z'),
+          new Date('2024-02-01T00:00:00Z'),
+        );
+
+        expect(result).toEqual([]);
+      },
+    );
+  });
+
   describe('cleanupExpiredMetrics', () => {
     it.each(databases.eachSupportedId())(
       'should delete metric values that are older than the given date - %p',
@@ -26,6 +26,32 @@ export class DatabaseMetricValues {
 
   constructor(private readonly dbClient: Knex<any, any[]>) {}
 
+  /**
+   * String values have to be serialized explicitly to be stored as valid JSON,
+   * other metric values are serialized by the database driver.
+   */
+  private serializeValue(
+    metricValue: DbMetricValueCreate,
+  ): DbMetricValueCreate {
+    if (typeof metricValue.value !== 'string') {
+      return metricValue;
+    }
+    return { ...metricValue, value: JSON.stringify(metricValue.value) };
+  }
+
+  /**
+   * PostgreSQL parses JSON values when reading, SQLite returns serialized strings as they were stored
+   */
+  private deserializeValue(metricValue: DbMetricValue): DbMetricValue {
+    const client = this.dbClient.client.config.client;
+    const isSqlite = typeof client === 'string' && client.includes('sqlite');
+
+    if (!isSqlite || typeof metricValue.value !== 'string') {
+      return metricValue;
+    }
+    return { ...metricValue, value: JSON.parse(metricValue.value) };
+  }
+
   /**
    * Insert multiple metric values
    */
@@ -33,7 +59,9 @@ export class DatabaseMetricValues {
     if (metricValues.length === 0) {
       return;
     }
-    await this.dbClient(this.tableName).insert(metricValues);
+    await this.dbClient(this.tableName).insert(
+      metricValues.map(metricValue => this.serializeValue(metricValue)),
+    );
   }
 
   /**
@@ -43,7 +71,7 @@ export class DatabaseMetricValues {
     catalog_entity_ref: string,
     metric_ids: string[],
   ): Promise<DbMetricValue[]> {
-    return await this.dbClient(this.tableName)
+    const rows: DbMetricValue[] = await this.dbClient(this.tableName)
       .select('*')
       .whereIn(
         'id',
@@ -53,6 +81,99 @@ export class DatabaseMetricValues {
           .where('catalog_entity_ref', catalog_entity_ref)
           .groupBy('metric_id'),
       );
+
+    return rows.map(row => this.deserializeValue(row));
+  }
+
+  /**
+   * Get the latest values of a single metric for multiple entities
+   */
+  async readLatestMetricValuesByEntityRefs(
+    catalog_entity_refs: string[],
+    metric_id: string,
+  ): Promise<DbMetricValue[]> {
+    const rows: DbMetricValue[] = await this.dbClient(this.tableName)
+      .select('*')
+      .whereIn(
+        'id',
+        this.dbClient(this.tableName)
+          .max('id')
+          .where('metric_id', metric_id)
+          .whereIn('catalog_entity_ref', catalog_entity_refs)
+          .groupBy('catalog_entity_ref'),
+      );
+
+    return rows.map(row => this.deserializeValue(row));
+  }
+
+  /**
+   * Get the latest values of multiple metrics for multiple entities
+   */
+  async readLatestMetricValuesByEntityRefsAndMetricIds(
+    catalog_entity_refs: string[],
+    metric_ids: string[],
+  ): Promise<DbMetricValue[]> {
+    const rows: DbMetricValue[] = await this.dbClient(this.tableName)
+      .select('*')
+      .whereIn(
+        'id',
+        this.dbClient(this.tableName)
+          .max('id')
+          .whereIn('metric_id', metric_ids)
+          .whereIn('catalog_entity_ref', catalog_entity_refs)
+          .groupBy('catalog_entity_ref', 'metric_id'),
+      )
+      .orderBy(['catalog_entity_ref', 'metric_id']);
+
+    return rows.map(row => this.deserializeValue(row));
+  }
+
+  /**
+   * Get all values of multiple metrics for multiple entities within a time range, ordered from oldest to newest
+   */
+  async readMetricValuesByEntityRefsAndTimeRange(
+    catalog_entity_refs: string[],
+    metric_ids: string[],
+    from: Date,
+    to: Date,
+  ): Promise<DbMetricValue[]> {
+    const rows: DbMetricValue[] = await this.dbClient(this.tableName)
+      .select('*')
+      .whereIn('catalog_entity_ref', catalog_entity_refs)
+      .whereIn('metric_id', metric_ids)
+      .where('timestamp', '>=', from)
+      .where('timestamp', '<=', to)
+      .orderBy([
+        { column: 'catalog_entity_ref', order: 'asc' },
+        { column: 'metric_id', order: 'asc' },
+        { column: 'timestamp', order: 'asc' },
+        { column: 'id', order: 'asc' },
+      ]);
+
+    return rows.map(row => this.deserializeValue(row));
+  }
+
+  /**
+   * Get all metric values of a specific entity and metric within a time range, ordered from oldest to newest
+   */
+  async readEntityMetricValuesByTimeRange(
+    catalog_entity_ref: string,
+    metric_id: string,
+    from: Date,
+    to: Date,
+  ): Promise<DbMetricValue[]> {
+    const rows: DbMetricValue[] = await this.dbClient(this.tableName)
+      .select('*')
+      .where('catalog_entity_ref', catalog_entity_ref)
+      .where('metric_id', metric_id)
+      .where('timestamp', '>=', from)
+      .where('timestamp', '<=', to)
+      .orderBy([
+        { column: 'timestamp', order: 'asc' },
+        { column: 'id', order: 'asc' },
+      ]);
+
+    return rows.map(row => this.deserializeValue(row));
   }
 
   /**
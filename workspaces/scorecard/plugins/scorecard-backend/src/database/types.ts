@@ -45,3 +45,10 @@ export type DbAggregatedMetric = {
   warning: number;
   error: number;
 };
+
+export type DbMetricNotification = {
+  catalog_entity_ref: string;
+  metric_id: string;
+  status: DbMetricValueStatus;
+  notified_at: Date;
+};
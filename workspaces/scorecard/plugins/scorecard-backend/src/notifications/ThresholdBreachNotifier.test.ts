@@ -0,0 +1,270 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { mockServices } from '@backstage/backend-test-utils';
+import { RELATION_OWNED_BY } from '@backstage/catalog-model';
+import type { EventsService } from '@backstage/plugin-events-node';
+import type { NotificationService } from '@backstage/plugin-notifications-node';
+import { MockNumberProvider } from '../../__fixtures__/mockProviders';
+import { mockDatabaseMetricValues } from '../../__fixtures__/mockDatabaseMetricValues';
+import { MockEntityBuilder } from '../../__fixtures__/mockEntityBuilder';
+import { DatabaseMetricNotifications } from '../database/DatabaseMetricNotifications';
+import { DbMetricValue, DbMetricValueCreate } from '../database/types';
+import {
+  THRESHOLD_BREACH_EVENT_TOPIC,
+  ThresholdBreachNotifier,
+} from './ThresholdBreachNotifier';
+
+const timestamp = new Date('2024-01-15T12:00:00.000Z');
+
+const entity = new MockEntityBuilder()
+  .withMetadata({ name: 'test-component', namespace: 'default' })
+  .withRelations([
+    { type: RELATION_OWNED_BY, targetRef: 'group:default/team-a' },
+  ])
+  .build();
+
+const metricValue: DbMetricValueCreate = {
+  catalog_entity_ref: 'component:default/test-component',
+  metric_id: 'github.open_prs',
+  value: 42,
+  timestamp,
+  status: 'error',
+};
+
+const previousMetricValue: DbMetricValue = {
+  id: 1,
+  catalog_entity_ref: 'component:default/test-component',
+  metric_id: 'github.open_prs',
+  value: 10,
+  timestamp: new Date('2024-01-15T11:00:00.000Z'),
+  error_message: null,
+  status: 'success',
+};
+
+describe('ThresholdBreachNotifier', () => {
+  let mockEvents: jest.Mocked<EventsService>;
+  let mockNotifications: jest.Mocked<NotificationService>;
+  let mockNotificationsDatabase: jest.Mocked<DatabaseMetricNotifications>;
+  let mockLogger: ReturnType<typeof mockServices.logger.mock>;
+  let provider: MockNumberProvider;
+
+  const createNotifier = (notifications?: object) =>
+    new ThresholdBreachNotifier({
+      config: mockServices.rootConfig({
+        data: {
+          scorecard: {
+            plugins: {
+              github: {
+                open_prs: notifications ? { notifications } : {},
+              },
+            },
+          },
+        },
+      }),
+      logger: mockLogger,
+      events: mockEvents,
+      notifications: mockNotifications,
+      database: mockDatabaseMetricValues,
+      notificationsDatabase: mockNotificationsDatabase,
+    });
+
+  beforeEach(() => {
+    mockEvents = {
+      publish: jest.fn().mockResolvedValue(undefined),
+      subscribe: jest.fn(),
+    } as unknown as jest.Mocked<EventsService>;
+    mockNotifications = {
+      send: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<NotificationService>;
+    mockNotificationsDatabase = {
+      readLastNotifications: jest.fn().mockResolvedValue([]),
+      upsertNotifications: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<DatabaseMetricNotifications>;
+    mockLogger = mockServices.logger.mock();
+    provider = new MockNumberProvider(
+      'github.open_prs',
+      'github',
+      'GitHub open PRs',
+    );
+
+    mockDatabaseMetricValues.readLatestMetricValuesByEntityRefs.mockResolvedValue(
+      [previousMetricValue],
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should not notify when notifications are not enabled for the metric', async () => {
+    await createNotifier().notifyThresholdBreaches(
+      provider,
+      [entity],
+      [metricValue],
+    );
+
+    expect(
+      mockDatabaseMetricValues.readLatestMetricValuesByEntityRefs,
+    ).not.toHaveBeenCalled();
+    expect(mockEvents.publish).not.toHaveBeenCalled();
+    expect(mockNotifications.send).not.toHaveBeenCalled();
+  });
+
+  it('should publish an event and notify the owners when the status gets worse', async () => {
+    await createNotifier({ enabled: true }).notifyThresholdBreaches(
+      provider,
+      [entity],
+      [metricValue],
+    );
+
+    expect(
+      mockDatabaseMetricValues.readLatestMetricValuesByEntityRefs,
+    ).toHaveBeenCalledWith(
+      ['component:default/test-component'],
+      'github.open_prs',
+    );
+    expect(mockEvents.publish).toHaveBeenCalledWith({
+      topic: THRESHOLD_BREACH_EVENT_TOPIC,
+      eventPayload: {
+        entityRef: 'component:default/test-component',
+        metricId: 'github.open_prs',
+        previousStatus: 'success',
+        status: 'error',
+        value: 42,
+        timestamp: '2024-01-15T12:00:00.000Z',
+      },
+    });
+    expect(mockNotifications.send).toHaveBeenCalledWith({
+      recipients: { type: 'entity', entityRef: ['group:default/team-a'] },
+      payload: expect.objectContaining({
+        title: 'GitHub open PRs changed to error for test-component',
+        link: '/catalog/default/component/test-component',
+        severity: 'high',
+        topic: 'scorecard',
+        scope: 'scorecard:github.open_prs:component:default/test-component',
+      }),
+    });
+    expect(mockNotificationsDatabase.upsertNotifications).toHaveBeenCalledWith([
+      {
+        catalog_entity_ref: 'component:default/test-component',
+        metric_id: 'github.open_prs',
+        status: 'error',
+        notified_at: timestamp,
+      },
+    ]);
+  });
+
+  it('should not notify when the status improves or stays the same', async () => {
+    mockDatabaseMetricValues.readLatestMetricValuesByEntityRefs.mockResolvedValue(
+      [{ ...previousMetricValue, status: 'error' }],
+    );
+
+    await createNotifier({ enabled: true }).notifyThresholdBreaches(
+      provider,
+      [entity],
+      [{ ...metricValue, status: 'success' }],
+    );
+
+    expect(mockEvents.publish).not.toHaveBeenCalled();
+    expect(mockNotifications.send).not.toHaveBeenCalled();
+    expect(mockNotificationsDatabase.upsertNotifications).toHaveBeenCalledWith(
+      [],
+    );
+  });
+
+  it('should not notify when there is no previous value', async () => {
+    mockDatabaseMetricValues.readLatestMetricValuesByEntityRefs.mockResolvedValue(
+      [],
+    );
+
+    await createNotifier({ enabled: true }).notifyThresholdBreaches(
+      provider,
+      [entity],
+      [metricValue],
+    );
+
+    expect(mockNotifications.send).not.toHaveBeenCalled();
+  });
+
+  it('should not notify within the default debounce period', async () => {
+    mockNotificationsDatabase.readLastNotifications.mockResolvedValue([
+      {
+        catalog_entity_ref: 'component:default/test-component',
+        metric_id: 'github.open_prs',
+        status: 'warning',
+        notified_at: new Date('2024-01-15T00:00:00.000Z'),
+      },
+    ]);
+
+    await createNotifier({ enabled: true }).notifyThresholdBreaches(
+      provider,
+      [entity],
+      [metricValue],
+    );
+
+    expect(mockEvents.publish).not.toHaveBeenCalled();
+    expect(mockNotifications.send).not.toHaveBeenCalled();
+  });
+
+  it('should notify after the configured debounce period', async () => {
+    mockNotificationsDatabase.readLastNotifications.mockResolvedValue([
+      {
+        catalog_entity_ref: 'component:default/test-component',
+        metric_id: 'github.open_prs',
+        status: 'warning',
+        notified_at: new Date('2024-01-15T00:00:00.000Z'),
+      },
+    ]);
+
+    await createNotifier({
+      enabled: true,
+      debounce: { hours: 6 },
+    }).notifyThresholdBreaches(provider, [entity], [metricValue]);
+
+    expect(mockNotifications.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should publish an event but skip the notification when the entity has no owner', async () => {
+    await createNotifier({ enabled: true }).notifyThresholdBreaches(
+      provider,
+      [{ ...entity, relations: [] }],
+      [metricValue],
+    );
+
+    expect(mockEvents.publish).toHaveBeenCalledTimes(1);
+    expect(mockNotifications.send).not.toHaveBeenCalled();
+    expect(mockLogger.debug).toHaveBeenCalledWith(
+      'Skipping threshold breach notification of github.open_prs for component:default/test-component, the entity has no owner',
+    );
+  });
+
+  it('should log a warning instead of throwing when notifying fails', async () => {
+    mockNotifications.send.mockRejectedValue(new Error('Notification error'));
+
+    await expect(
+      createNotifier({ enabled: true }).notifyThresholdBreaches(
+        provider,
+        [entity],
+        [metricValue],
+      ),
+    ).resolves.toBeUndefined();
+
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      'Failed to notify threshold breaches of github.open_prs, Error: Notification error',
+    );
+  });
+});
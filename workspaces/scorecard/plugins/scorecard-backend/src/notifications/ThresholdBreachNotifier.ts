@@ -0,0 +1,268 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { LoggerService } from '@backstage/backend-plugin-api';
+import type { Config } from '@backstage/config';
+import { readDurationFromConfig } from '@backstage/config';
+import {
+  Entity,
+  getCompoundEntityRef,
+  RELATION_OWNED_BY,
+  stringifyEntityRef,
+} from '@backstage/catalog-model';
+import type { EventsService } from '@backstage/plugin-events-node';
+import type { NotificationService } from '@backstage/plugin-notifications-node';
+import { durationToMilliseconds, HumanDuration } from '@backstage/types';
+import { MetricProvider } from '@red-hat-developer-hub/backstage-plugin-scorecard-node';
+import { DatabaseMetricNotifications } from '../database/DatabaseMetricNotifications';
+import { DatabaseMetricValues } from '../database/DatabaseMetricValues';
+import { DbMetricValueCreate, DbMetricValueStatus } from '../database/types';
+
+export const THRESHOLD_BREACH_EVENT_TOPIC = 'scorecard.threshold.breached';
+
+type ThresholdBreachNotifierOptions = {
+  config: Config;
+  logger: LoggerService;
+  events: EventsService;
+  notifications: NotificationService;
+  database: DatabaseMetricValues;
+  notificationsDatabase: DatabaseMetricNotifications;
+};
+
+type ThresholdBreach = {
+  entity: Entity;
+  metricValue: DbMetricValueCreate;
+  previousStatus: DbMetricValueStatus;
+  status: DbMetricValueStatus;
+};
+
+const STATUS_SEVERITY: Record<DbMetricValueStatus, number> = {
+  success: 0,
+  warning: 1,
+  error: 2,
+};
+
+/**
+ * Notifies entity owners when a metric value moves to a worse threshold status than the previous stored value.
+ * Notifications are opt-in per metric and debounced per entity and metric.
+ */
+export class ThresholdBreachNotifier {
+  private static readonly DEFAULT_DEBOUNCE: HumanDuration = { hours: 24 };
+
+  private readonly config: Config;
+  private readonly logger: LoggerService;
+  private readonly events: EventsService;
+  private readonly notifications: NotificationService;
+  private readonly database: DatabaseMetricValues;
+  private readonly notificationsDatabase: DatabaseMetricNotifications;
+
+  constructor(options: ThresholdBreachNotifierOptions) {
+    this.config = options.config;
+    this.logger = options.logger;
+    this.events = options.events;
+    this.notifications = options.notifications;
+    this.database = options.database;
+    this.notificationsDatabase = options.notificationsDatabase;
+  }
+
+  /**
+   * Detects threshold breaches of new metric values and notifies the owners of the entities.
+   * Has to be called before the new metric values are stored. Failures are logged and never thrown.
+   *
+   * @param provider - Provider that calculated the metric values
+   * @param entities - Entities the metric values were calculated for
+   * @param metricValues - New metric values of the provider
+   */
+  async notifyThresholdBreaches(
+    provider: MetricProvider,
+    entities: Entity[],
+    metricValues: DbMetricValueCreate[],
+  ): Promise<void> {
+    const providerId = provider.getProviderId();
+    const configPath = `scorecard.plugins.${providerId}.notifications`;
+
+    if (!this.config.getOptionalBoolean(`${configPath}.enabled`)) {
+      return;
+    }
+
+    try {
+      const breaches = await this.findThresholdBreaches(
+        providerId,
+        entities,
+        metricValues,
+      );
+      const debouncedBreaches = await this.filterDebouncedBreaches(
+        providerId,
+        breaches,
+        this.getDebounceMs(configPath),
+      );
+
+      for (const breach of debouncedBreaches) {
+        await this.publishThresholdBreach(provider, breach);
+      }
+
+      await this.notificationsDatabase.upsertNotifications(
+        debouncedBreaches.map(({ metricValue, status }) => ({
+          catalog_entity_ref: metricValue.catalog_entity_ref,
+          metric_id: providerId,
+          status,
+          notified_at: metricValue.timestamp,
+        })),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to notify threshold breaches of ${providerId}, ${error}`,
+      );
+    }
+  }
+
+  private getDebounceMs(configPath: string): number {
+    const debounceConfigPath = `${configPath}.debounce`;
+    const debounce = this.config.has(debounceConfigPath)
+      ? readDurationFromConfig(this.config.getConfig(debounceConfigPath))
+      : ThresholdBreachNotifier.DEFAULT_DEBOUNCE;
+
+    return durationToMilliseconds(debounce);
+  }
+
+  private async findThresholdBreaches(
+    providerId: string,
+    entities: Entity[],
+    metricValues: DbMetricValueCreate[],
+  ): Promise<ThresholdBreach[]> {
+    const evaluatedValues = metricValues.filter(
+      (
+        metricValue,
+      ): metricValue is DbMetricValueCreate & { status: DbMetricValueStatus } =>
+        metricValue.status !== undefined,
+    );
+    if (evaluatedValues.length === 0) {
+      return [];
+    }
+
+    const previousValues =
+      await this.database.readLatestMetricValuesByEntityRefs(
+        evaluatedValues.map(({ catalog_entity_ref }) => catalog_entity_ref),
+        providerId,
+      );
+    const previousStatuses = new Map(
+      previousValues.map(({ catalog_entity_ref, status }) => [
+        catalog_entity_ref,
+        status,
+      ]),
+    );
+    const entitiesByRef = new Map(
+      entities.map(entity => [stringifyEntityRef(entity), entity]),
+    );
+
+    const breaches: ThresholdBreach[] = [];
+    for (const metricValue of evaluatedValues) {
+      const entity = entitiesByRef.get(metricValue.catalog_entity_ref);
+      const previousStatus = previousStatuses.get(
+        metricValue.catalog_entity_ref,
+      );
+      const status = metricValue.status;
+
+      if (
+        entity &&
+        previousStatus &&
+        STATUS_SEVERITY[status] > STATUS_SEVERITY[previousStatus]
+      ) {
+        breaches.push({ entity, metricValue, previousStatus, status });
+      }
+    }
+
+    return breaches;
+  }
+
+  private async filterDebouncedBreaches(
+    providerId: string,
+    breaches: ThresholdBreach[],
+    debounceMs: number,
+  ): Promise<ThresholdBreach[]> {
+    if (breaches.length === 0) {
+      return [];
+    }
+
+    const lastNotifications =
+      await this.notificationsDatabase.readLastNotifications(
+        breaches.map(({ metricValue }) => metricValue.catalog_entity_ref),
+        providerId,
+      );
+    const lastNotifiedAt = new Map(
+      lastNotifications.map(({ catalog_entity_ref, notified_at }) => [
+        catalog_entity_ref,
+        notified_at.getTime(),
+      ]),
+    );
+
+    return breaches.filter(({ metricValue }) => {
+      const notifiedAt = lastNotifiedAt.get(metricValue.catalog_entity_ref);
+      return (
+        notifiedAt === undefined ||
+        metricValue.timestamp.getTime() - notifiedAt >= debounceMs
+      );
+    });
+  }
+
+  private async publishThresholdBreach(
+    provider: MetricProvider,
+    { entity, metricValue, previousStatus, status }: ThresholdBreach,
+  ): Promise<void> {
+    const metric = provider.getMetric();
+    const entityRef = metricValue.catalog_entity_ref;
+
+    await this.events.publish({
+      topic: THRESHOLD_BREACH_EVENT_TOPIC,
+      eventPayload: {
+        entityRef,
+        metricId: metric.id,
+        previousStatus,
+        status,
+        value: metricValue.value,
+        timestamp: metricValue.timestamp.toISOString(),
+      },
+    });
+
+    const ownerRefs =
+      entity.relations
+        ?.filter(relation => relation.type === RELATION_OWNED_BY)
+        .map(relation => relation.targetRef) ?? [];
+
+    if (ownerRefs.length === 0) {
+      this.logger.debug(
+        `Skipping threshold breach notification of ${metric.id} for ${entityRef}, the entity has no owner`,
+      );
+      return;
+    }
+
+    const { kind, namespace, name } = getCompoundEntityRef(entity);
+
+    await this.notifications.send({
+      recipients: { type: 'entity', entityRef: ownerRefs },
+      payload: {
+        title: `${metric.title} changed to ${status} for ${name}`,
+        description: `The ${metric.title} metric of ${entityRef} changed from ${previousStatus} to ${status}, the current value is ${metricValue.value}.`,
+        link: `/catalog/${namespace}/${kind.toLocaleLowerCase(
+          'en-US',
+        )}/${name}`,
+        severity: status === 'error' ? 'high' : 'normal',
+        topic: 'scorecard',
+        scope: `scorecard:${metric.id}:${entityRef}`,
+      },
+    });
+  }
+}
@@ -19,12 +19,17 @@ import {
 } from '@backstage/backend-plugin-api';
 import { createRouter } from './service/router';
 import { catalogServiceRef } from '@backstage/plugin-catalog-node';
+import { eventsServiceRef } from '@backstage/plugin-events-node';
+import { notificationService } from '@backstage/plugin-notifications-node';
 import {
   MetricProvider,
   scorecardMetricsExtensionPoint,
 } from '@red-hat-developer-hub/backstage-plugin-scorecard-node';
 import { MetricProvidersRegistry } from './providers/MetricProvidersRegistry';
+import { createCompositeMetricProviders } from './providers/CompositeMetricProvider';
 import { CatalogMetricService } from './service/CatalogMetricService';
+import { MetricRefreshService } from './service/MetricRefreshService';
+import { RefreshRateLimiter } from './service/RefreshRateLimiter';
 import { ThresholdEvaluator } from './threshold/ThresholdEvaluator';
 import { scorecardPermissions } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
 import {
@@ -33,6 +38,8 @@ import {
 } from './permissions/rules';
 import { migrate } from './database/migration';
 import { DatabaseMetricValues } from './database/DatabaseMetricValues';
+import { DatabaseMetricNotifications } from './database/DatabaseMetricNotifications';
+import { ThresholdBreachNotifier } from './notifications/ThresholdBreachNotifier';
 import { Scheduler } from './scheduler';
 
 /**
@@ -59,9 +66,11 @@ export const scorecardPlugin = createBackendPlugin({
         catalog: catalogServiceRef,
         config: coreServices.rootConfig,
         database: coreServices.database,
+        events: eventsServiceRef,
         httpRouter: coreServices.httpRouter,
         httpAuth: coreServices.httpAuth,
         logger: coreServices.logger,
+        notifications: notificationService,
         permissions: coreServices.permissions,
         permissionsRegistry: coreServices.permissionsRegistry,
         scheduler: coreServices.scheduler,
@@ -71,9 +80,11 @@ export const scorecardPlugin = createBackendPlugin({
         catalog,
         config,
         database,
+        events,
         httpRouter,
         httpAuth,
         logger,
+        notifications,
         permissions,
         permissionsRegistry,
         scheduler,
@@ -93,6 +104,15 @@ export const scorecardPlugin = createBackendPlugin({
         const client = await database.getClient();
         const dbMetricValues = new DatabaseMetricValues(client);
 
+        // Composite metrics are registered last as they are derived from the metrics of other providers
+        createCompositeMetricProviders({
+          config,
+          registry: metricProvidersRegistry,
+          database: dbMetricValues,
+        }).forEach(compositeMetricProvider => {
+          metricProvidersRegistry.register(compositeMetricProvider);
+        });
+
         const catalogMetricService = new CatalogMetricService({
           catalog,
           auth,
@@ -100,6 +120,26 @@ export const scorecardPlugin = createBackendPlugin({
           database: dbMetricValues,
         });
 
+        const thresholdEvaluator = new ThresholdEvaluator();
+
+        const notifier = new ThresholdBreachNotifier({
+          config,
+          logger,
+          events,
+          notifications,
+          database: dbMetricValues,
+          notificationsDatabase: new DatabaseMetricNotifications(client),
+        });
+
+        const metricRefreshService = new MetricRefreshService({
+          catalog,
+          auth,
+          registry: metricProvidersRegistry,
+          database: dbMetricValues,
+          thresholdEvaluator,
+          notifier,
+        });
+
         Scheduler.create({
           auth,
           catalog,
@@ -108,16 +148,20 @@ export const scorecardPlugin = createBackendPlugin({
           scheduler,
           database: dbMetricValues,
           metricProvidersRegistry,
-          thresholdEvaluator: new ThresholdEvaluator(),
+          thresholdEvaluator,
+          notifier,
         }).start();
 
         httpRouter.use(
           await createRouter({
             metricProvidersRegistry,
             catalogMetricService,
+            metricRefreshService,
+            refreshRateLimiter: RefreshRateLimiter.fromConfig(config),
             catalog,
             httpAuth,
             permissions,
+            logger,
           }),
         );
       },
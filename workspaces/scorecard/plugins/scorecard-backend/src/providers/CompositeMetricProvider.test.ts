@@ -0,0 +1,276 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { mockServices } from '@backstage/backend-test-utils';
+import { CATALOG_FILTER_EXISTS } from '@backstage/catalog-client';
+import type { JsonObject } from '@backstage/types';
+import { DEFAULT_PERCENTAGE_THRESHOLDS } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
+import {
+  CompositeMetricProvider,
+  createCompositeMetricProviders,
+} from './CompositeMetricProvider';
+import { MetricProvidersRegistry } from './MetricProvidersRegistry';
+import {
+  MockBooleanProvider,
+  MockNumberProvider,
+} from '../../__fixtures__/mockProviders';
+import { MockEntityBuilder } from '../../__fixtures__/mockEntityBuilder';
+import { buildMockDatabaseMetricValues } from '../../__fixtures__/mockDatabaseMetricValues';
+import { DbMetricValue } from '../database/types';
+
+const buildMetricValue = (
+  metricId: string,
+  status: DbMetricValue['status'],
+): DbMetricValue => ({
+  id: 1,
+  catalog_entity_ref: 'component:default/default-component',
+  metric_id: metricId,
+  value: status ? 1 : null,
+  timestamp: new Date('2024-01-15T12:00:00.000Z'),
+  error_message: status ? null : 'calculation failed',
+  status,
+});
+
+describe('CompositeMetricProvider', () => {
+  const mockEntity = new MockEntityBuilder().build();
+
+  const createProvider = (latestEntityMetric: DbMetricValue[]) =>
+    new CompositeMetricProvider({
+      metricName: 'service_health',
+      title: 'Service health',
+      description: 'Overall health of the service.',
+      inputs: [
+        { metricId: 'github.open_prs', weight: 1 },
+        { metricId: 'openssf.code_review', weight: 3 },
+      ],
+      catalogFilter: {
+        'metadata.annotations.mock/key': CATALOG_FILTER_EXISTS,
+      },
+      database: buildMockDatabaseMetricValues({ latestEntityMetric }),
+    });
+
+  it('should return composite metric definition', () => {
+    const provider = createProvider([]);
+
+    expect(provider.getProviderDatasourceId()).toBe('composite');
+    expect(provider.getProviderId()).toBe('composite.service_health');
+    expect(provider.getMetricType()).toBe('percentage');
+    expect(provider.getMetric()).toEqual({
+      id: 'composite.service_health',
+      title: 'Service health',
+      description: 'Overall health of the service.',
+      type: 'percentage',
+      history: true,
+    });
+    expect(provider.getMetricThresholds()).toEqual(
+      DEFAULT_PERCENTAGE_THRESHOLDS,
+    );
+    expect(provider.getInputMetricIds()).toEqual([
+      'github.open_prs',
+      'openssf.code_review',
+    ]);
+  });
+
+  it('should read the latest values of input metrics', async () => {
+    const provider = createProvider([
+      buildMetricValue('github.open_prs', 'success'),
+    ]);
+
+    await provider.calculateMetric(mockEntity);
+
+    expect(
+      (provider as any).database.readLatestEntityMetricValues,
+    ).toHaveBeenCalledWith('component:default/default-component', [
+      'github.open_prs',
+      'openssf.code_review',
+    ]);
+  });
+
+  it('should calculate weighted average of input scores', async () => {
+    const provider = createProvider([
+      buildMetricValue('github.open_prs', 'error'),
+      buildMetricValue('openssf.code_review', 'warning'),
+    ]);
+
+    await expect(provider.calculateMetric(mockEntity)).resolves.toBe(37.5);
+  });
+
+  it('should leave out inputs without evaluated values', async () => {
+    const provider = createProvider([
+      buildMetricValue('github.open_prs', 'success'),
+      buildMetricValue('openssf.code_review', null),
+    ]);
+
+    await expect(provider.calculateMetric(mockEntity)).resolves.toBe(100);
+  });
+
+  it('should throw when no input has an evaluated value', async () => {
+    const provider = createProvider([]);
+
+    await expect(provider.calculateMetric(mockEntity)).rejects.toThrow(
+      "No evaluated values of input metrics github.open_prs, openssf.code_review found for composite metric 'composite.service_health'",
+    );
+  });
+});
+
+describe('createCompositeMetricProviders', () => {
+  let registry: MetricProvidersRegistry;
+
+  const database = buildMockDatabaseMetricValues({});
+
+  const createProviders = (composite: JsonObject) =>
+    createCompositeMetricProviders({
+      config: mockServices.rootConfig({
+        data: { scorecard: { plugins: { composite } } },
+      }),
+      registry,
+      database,
+    });
+
+  beforeEach(() => {
+    registry = new MetricProvidersRegistry();
+    registry.register(new MockNumberProvider('github.open_prs', 'github'));
+    registry.register(new MockBooleanProvider('jira.has_issues', 'jira'));
+  });
+
+  it('should return no providers when composite metrics are not configured', () => {
+    expect(
+      createCompositeMetricProviders({
+        config: mockServices.rootConfig(),
+        registry,
+        database,
+      }),
+    ).toEqual([]);
+  });
+
+  it('should create providers from config', () => {
+    const providers = createProviders({
+      service_health: {
+        title: 'Service health',
+        inputs: [
+          { metricId: 'github.open_prs', weight: 2 },
+          { metricId: 'jira.has_issues' },
+        ],
+        thresholds: {
+          rules: [
+            { key: 'success', expression: '>=90%' },
+            { key: 'error', expression: '<90%' },
+          ],
+        },
+      },
+    });
+
+    expect(providers).toHaveLength(1);
+    expect(providers[0].getProviderId()).toBe('composite.service_health');
+    expect((providers[0] as any).inputs).toEqual([
+      { metricId: 'github.open_prs', weight: 2 },
+      { metricId: 'jira.has_issues', weight: 1 },
+    ]);
+    expect(providers[0].getCatalogFilter()).toEqual({
+      'metadata.annotations.mock/key': CATALOG_FILTER_EXISTS,
+    });
+    expect(providers[0].getMetricThresholds()).toEqual({
+      rules: [
+        { key: 'success', expression: '>=90%' },
+        { key: 'error', expression: '<90%' },
+      ],
+    });
+  });
+
+  it('should allow previously configured composite metrics as inputs', () => {
+    const providers = createProviders({
+      service_health: {
+        title: 'Service health',
+        inputs: [{ metricId: 'github.open_prs' }],
+      },
+      overall: {
+        title: 'Overall',
+        inputs: [{ metricId: 'composite.service_health' }],
+      },
+    });
+
+    expect(providers.map(provider => provider.getProviderId())).toEqual([
+      'composite.service_health',
+      'composite.overall',
+    ]);
+  });
+
+  it('should throw when an input metric is not registered', () => {
+    expect(() =>
+      createProviders({
+        service_health: {
+          title: 'Service health',
+          inputs: [{ metricId: 'sonarqube.coverage' }],
+        },
+      }),
+    ).toThrow(
+      "Invalid composite metric composite.service_health, input metric 'sonarqube.coverage' is not registered",
+    );
+  });
+
+  it('should throw when a composite metric is its own input', () => {
+    expect(() =>
+      createProviders({
+        service_health: {
+          title: 'Service health',
+          inputs: [{ metricId: 'composite.service_health' }],
+        },
+      }),
+    ).toThrow(
+      'Invalid composite metric composite.service_health, a composite metric cannot be its own input',
+    );
+  });
+
+  it('should throw when weight is not positive', () => {
+    expect(() =>
+      createProviders({
+        service_health: {
+          title: 'Service health',
+          inputs: [{ metricId: 'github.open_prs', weight: 0 }],
+        },
+      }),
+    ).toThrow(
+      "Invalid composite metric composite.service_health, weight of input metric 'github.open_prs' must be a positive number",
+    );
+  });
+
+  it('should throw when no inputs are configured', () => {
+    expect(() =>
+      createProviders({
+        service_health: {
+          title: 'Service health',
+          inputs: [],
+        },
+      }),
+    ).toThrow(
+      'Invalid composite metric composite.service_health, at least one input metric is required',
+    );
+  });
+
+  it('should throw when thresholds are invalid', () => {
+    expect(() =>
+      createProviders({
+        service_health: {
+          title: 'Service health',
+          inputs: [{ metricId: 'github.open_prs' }],
+          thresholds: { rules: [{ key: 'success', expression: '>120%' }] },
+        },
+      }),
+    ).toThrow(
+      /Invalid thresholds configuration at scorecard.plugins.composite.service_health.thresholds/,
+    );
+  });
+});
@@ -0,0 +1,239 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Config } from '@backstage/config';
+import { stringifyEntityRef, type Entity } from '@backstage/catalog-model';
+import {
+  DEFAULT_PERCENTAGE_THRESHOLDS,
+  Metric,
+  ThresholdConfig,
+} from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
+import {
+  getThresholdsFromConfig,
+  MetricProvider,
+} from '@red-hat-developer-hub/backstage-plugin-scorecard-node';
+import { DatabaseMetricValues } from '../database/DatabaseMetricValues';
+import { DbMetricValueStatus } from '../database/types';
+import { MetricProvidersRegistry } from './MetricProvidersRegistry';
+
+export const COMPOSITE_DATASOURCE_ID = 'composite';
+
+/**
+ * Score of an input metric value based on the threshold it matched.
+ */
+const STATUS_SCORES: Record<DbMetricValueStatus, number> = {
+  success: 100,
+  warning: 50,
+  error: 0,
+};
+
+export type CompositeMetricInput = {
+  metricId: string;
+  weight: number;
+};
+
+export type CompositeMetricOptions = {
+  metricName: string;
+  title: string;
+  description?: string;
+  inputs: CompositeMetricInput[];
+  catalogFilter: Record<string, string | symbol | (string | symbol)[]>;
+  thresholds?: ThresholdConfig;
+  database: DatabaseMetricValues;
+};
+
+/**
+ * Metric provider that derives a score between 0 and 100 from the latest values of other registered metrics.
+ * Each input metric value is scored by the threshold it matched (success: 100, warning: 50, error: 0)
+ * and the composite value is the weighted average of those scores.
+ */
+export class CompositeMetricProvider implements MetricProvider<'percentage'> {
+  private readonly metricName: string;
+  private readonly title: string;
+  private readonly description?: string;
+  private readonly inputs: CompositeMetricInput[];
+  private readonly catalogFilter: Record<
+    string,
+    string | symbol | (string | symbol)[]
+  >;
+  private readonly thresholds: ThresholdConfig;
+  private readonly database: DatabaseMetricValues;
+
+  constructor(options: CompositeMetricOptions) {
+    this.metricName = options.metricName;
+    this.title = options.title;
+    this.description = options.description;
+    this.inputs = options.inputs;
+    this.catalogFilter = options.catalogFilter;
+    this.thresholds = options.thresholds ?? DEFAULT_PERCENTAGE_THRESHOLDS;
+    this.database = options.database;
+  }
+
+  getProviderDatasourceId(): string {
+    return COMPOSITE_DATASOURCE_ID;
+  }
+
+  getProviderId(): string {
+    return `${COMPOSITE_DATASOURCE_ID}.${this.metricName}`;
+  }
+
+  getMetricType(): 'percentage' {
+    return 'percentage';
+  }
+
+  getMetric(): Metric<'percentage'> {
+    return {
+      id: this.getProviderId(),
+      title: this.title,
+      description: this.description ?? '',
+      type: this.getMetricType(),
+      history: true,
+    };
+  }
+
+  getMetricThresholds(): ThresholdConfig {
+    return this.thresholds;
+  }
+
+  getCatalogFilter(): Record<string, string | symbol | (string | symbol)[]> {
+    return this.catalogFilter;
+  }
+
+  /**
+   * IDs of the metrics this composite metric is derived from
+   */
+  getInputMetricIds(): string[] {
+    return this.inputs.map(input => input.metricId);
+  }
+
+  async calculateMetric(entity: Entity): Promise<number> {
+    const metricValues = await this.database.readLatestEntityMetricValues(
+      stringifyEntityRef(entity),
+      this.getInputMetricIds(),
+    );
+
+    let weightedScore = 0;
+    let totalWeight = 0;
+
+    for (const input of this.inputs) {
+      const status = metricValues.find(
+        metricValue => metricValue.metric_id === input.metricId,
+      )?.status;
+
+      // Inputs without an evaluated value are left out of the score
+      if (!status) {
+        continue;
+      }
+
+      weightedScore += STATUS_SCORES[status] * input.weight;
+      totalWeight += input.weight;
+    }
+
+    if (totalWeight === 0) {
+      throw new Error(
+        `No evaluated values of input metrics ${this.getInputMetricIds().join(
+          ', ',
+        )} found for composite metric '${this.getProviderId()}'`,
+      );
+    }
+
+    return Math.round((weightedScore / totalWeight) * 100) / 100;
+  }
+}
+
+/**
+ * Create composite metric providers configured under `scorecard.plugins.composite`.
+ * Input metrics must be registered before the composite metric, composite metrics can use previously configured composite metrics as inputs.
+ */
+export function createCompositeMetricProviders(options: {
+  config: Config;
+  registry: MetricProvidersRegistry;
+  database: DatabaseMetricValues;
+}): CompositeMetricProvider[] {
+  const { config, registry, database } = options;
+  const configPath = `scorecard.plugins.${COMPOSITE_DATASOURCE_ID}`;
+  const compositeConfig = config.getOptionalConfig(configPath);
+
+  if (!compositeConfig) {
+    return [];
+  }
+
+  const providers: CompositeMetricProvider[] = [];
+  const availableProviders = new Map<string, MetricProvider>(
+    registry
+      .listProviders()
+      .map(provider => [provider.getProviderId(), provider]),
+  );
+
+  for (const metricName of compositeConfig.keys()) {
+    const metricConfig = compositeConfig.getConfig(metricName);
+    const providerId = `${COMPOSITE_DATASOURCE_ID}.${metricName}`;
+
+    const inputs = metricConfig.getConfigArray('inputs').map(inputConfig => ({
+      metricId: inputConfig.getString('metricId'),
+      weight: inputConfig.getOptionalNumber('weight') ?? 1,
+    }));
+
+    if (inputs.length === 0) {
+      throw new Error(
+        `Invalid composite metric ${providerId}, at least one input metric is required`,
+      );
+    }
+
+    const catalogFilter: Record<string, string | symbol | (string | symbol)[]> =
+      {};
+
+    for (const input of inputs) {
+      if (input.metricId === providerId) {
+        throw new Error(
+          `Invalid composite metric ${providerId}, a composite metric cannot be its own input`,
+        );
+      }
+      const inputProvider = availableProviders.get(input.metricId);
+      if (!inputProvider) {
+        throw new Error(
+          `Invalid composite metric ${providerId}, input metric '${input.metricId}' is not registered`,
+        );
+      }
+      if (!(input.weight > 0)) {
+        throw new Error(
+          `Invalid composite metric ${providerId}, weight of input metric '${input.metricId}' must be a positive number`,
+        );
+      }
+      // Composite metrics are only calculated for entities supported by all of their inputs
+      Object.assign(catalogFilter, inputProvider.getCatalogFilter());
+    }
+
+    const provider = new CompositeMetricProvider({
+      metricName,
+      title: metricConfig.getString('title'),
+      description: metricConfig.getOptionalString('description'),
+      inputs,
+      catalogFilter,
+      thresholds: getThresholdsFromConfig(
+        config,
+        `${configPath}.${metricName}.thresholds`,
+        'percentage',
+      ),
+      database,
+    });
+
+    availableProviders.set(providerId, provider);
+    providers.push(provider);
+  }
+
+  return providers;
+}
@@ -28,6 +28,7 @@ import {
 import { mockDatabaseMetricValues } from '../../__fixtures__/mockDatabaseMetricValues';
 import { mockMetricProvidersRegistry } from '../../__fixtures__/mockMetricProvidersRegistry';
 import { ThresholdEvaluator } from '../threshold/ThresholdEvaluator';
+import { CompositeMetricProvider } from '../providers/CompositeMetricProvider';
 
 jest.mock('./tasks/CleanupExpiredMetricsTask');
 jest.mock('./tasks/PullMetricsByProviderTask');
@@ -215,6 +216,42 @@ describe('Scheduler', () => {
       ]);
     });
 
+    it('should pass IDs of dependent composite metrics to input provider tasks', async () => {
+      const compositeProvider = new CompositeMetricProvider({
+        metricName: 'service_health',
+        title: 'Service health',
+        inputs: [{ metricId: 'github.test_metric', weight: 1 }],
+        catalogFilter: {},
+        database: mockDatabase,
+      });
+      mockRegistry.listProviders.mockReturnValue([
+        numberProvider,
+        booleanProvider,
+        compositeProvider,
+      ]);
+
+      (scheduler as any).initializeTasksByProviders();
+
+      expect(PullMetricsByProviderTask).toHaveBeenNthCalledWith(
+        1,
+        expect.any(Object),
+        numberProvider,
+        ['composite.service_health'],
+      );
+      expect(PullMetricsByProviderTask).toHaveBeenNthCalledWith(
+        2,
+        expect.any(Object),
+        booleanProvider,
+        [],
+      );
+      expect(PullMetricsByProviderTask).toHaveBeenNthCalledWith(
+        3,
+        expect.any(Object),
+        compositeProvider,
+        [],
+      );
+    });
+
     it('should not initialize tasks when providers are not registered', async () => {
       mockRegistry.listProviders.mockReturnValue([]);
 
@@ -28,6 +28,8 @@ import { PullMetricsByProviderTask } from './tasks/PullMetricsByProviderTask';
 import { SchedulerOptions, SchedulerTask } from './types';
 import { DatabaseMetricValues } from '../database/DatabaseMetricValues';
 import { ThresholdEvaluator } from '../threshold/ThresholdEvaluator';
+import { CompositeMetricProvider } from '../providers/CompositeMetricProvider';
+import { ThresholdBreachNotifier } from '../notifications/ThresholdBreachNotifier';
 
 export class Scheduler {
   private readonly auth: AuthService;
@@ -38,6 +40,7 @@ export class Scheduler {
   private readonly database: DatabaseMetricValues;
   private readonly metricProvidersRegistry: MetricProvidersRegistry;
   private readonly thresholdEvaluator: ThresholdEvaluator;
+  private readonly notifier?: ThresholdBreachNotifier;
 
   private tasks: Array<{ name: string; task: SchedulerTask }> = [];
 
@@ -50,6 +53,7 @@ export class Scheduler {
     this.database = options.database;
     this.metricProvidersRegistry = options.metricProvidersRegistry;
     this.thresholdEvaluator = options.thresholdEvaluator;
+    this.notifier = options.notifier;
   }
 
   static create(options: SchedulerOptions): Scheduler {
@@ -96,10 +100,19 @@ export class Scheduler {
 
   private initializeTasksByProviders(): void {
     const providers = this.metricProvidersRegistry.listProviders();
+    const compositeProviders = providers.filter(
+      (provider): provider is CompositeMetricProvider =>
+        provider instanceof CompositeMetricProvider,
+    );
 
     for (const provider of providers) {
+      const providerId = provider.getProviderId();
+      const dependentProviderIds = compositeProviders
+        .filter(composite => composite.getInputMetricIds().includes(providerId))
+        .map(composite => composite.getProviderId());
+
       this.tasks.push({
-        name: provider.getProviderId(),
+        name: providerId,
         task: new PullMetricsByProviderTask(
           {
             scheduler: this.scheduler,
@@ -109,8 +122,10 @@ export class Scheduler {
             catalog: this.catalog,
             auth: this.auth,
             thresholdEvaluator: this.thresholdEvaluator,
+            notifier: this.notifier,
           },
           provider,
+          dependentProviderIds,
         ),
       });
     }
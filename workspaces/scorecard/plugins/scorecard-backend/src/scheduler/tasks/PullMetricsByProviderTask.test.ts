@@ -25,6 +25,7 @@ import { CATALOG_FILTER_EXISTS } from '@backstage/catalog-client';
 import { mockDatabaseMetricValues } from '../../../__fixtures__/mockDatabaseMetricValues';
 import { ThresholdEvaluator } from '../../threshold/ThresholdEvaluator';
 import { mockThresholdRules } from '../../../__fixtures__/mockThresholdRules';
+import { ThresholdBreachNotifier } from '../../notifications/ThresholdBreachNotifier';
 
 jest.mock('../../utils/mergeEntityAndProviderThresholds', () => ({
   mergeEntityAndProviderThresholds: jest.fn(),
@@ -156,6 +157,67 @@ describe('PullMetricsByProviderTask', () => {
     });
   });
 
+  describe('triggerDependentTasks', () => {
+    let dependentTask: PullMetricsByProviderTask;
+
+    const runTask = async () => {
+      await dependentTask.start();
+      const { fn } = mockTaskRunner.run.mock.calls[0][0];
+      await fn();
+    };
+
+    beforeEach(() => {
+      dependentTask = new PullMetricsByProviderTask(
+        {
+          scheduler: mockScheduler,
+          logger: mockLogger,
+          database: mockDatabaseMetricValues,
+          config: mockConfig,
+          catalog: mockCatalog,
+          auth: mockAuth,
+          thresholdEvaluator: mockThresholdEvaluator,
+        },
+        mockProvider,
+        ['composite.service_health'],
+      );
+      (dependentTask as any).pullProviderMetrics = jest
+        .fn()
+        .mockResolvedValue(undefined);
+    });
+
+    it('should trigger dependent tasks after pulling metrics', async () => {
+      await runTask();
+
+      expect(mockScheduler.triggerTask).toHaveBeenCalledWith(
+        'composite.service_health',
+      );
+    });
+
+    it('should not trigger dependent tasks when pulling metrics fails', async () => {
+      (dependentTask as any).pullProviderMetrics = jest
+        .fn()
+        .mockRejectedValue(new Error('test error'));
+
+      await runTask();
+
+      expect(mockScheduler.triggerTask).not.toHaveBeenCalled();
+    });
+
+    it('should log a warning when triggering a dependent task fails', async () => {
+      mockScheduler.triggerTask.mockRejectedValue(new Error('already running'));
+      mockLogger.child.mockReturnValue(mockLogger);
+
+      await runTask();
+
+      expect(mockLogger.child).toHaveBeenCalledWith(
+        expect.objectContaining({ taskId: 'github.test_metric' }),
+      );
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Failed to trigger composite.service_health after pulling metrics for github.test_metric, Error: already running',
+      );
+    });
+  });
+
   describe('getScheduleFromConfig', () => {
     it('should return the default schedule if not configured', () => {
       const config = (task as any).getScheduleFromConfig(
@@ -289,6 +351,64 @@ describe('PullMetricsByProviderTask', () => {
       expect(createMetricValuesSpy).toHaveBeenCalledWith(metricValues);
     });
 
+    it('should store an error when the calculated value does not match the metric type', async () => {
+      jest
+        .spyOn(mockProvider, 'calculateMetric')
+        .mockResolvedValue('not a number' as unknown as number);
+      const createMetricValuesSpy = jest.spyOn(
+        mockDatabaseMetricValues,
+        'createMetricValues',
+      );
+      await (task as any).pullProviderMetrics(mockProvider, mockLogger);
+
+      expect(
+        mockThresholdEvaluator.getFirstMatchingThreshold,
+      ).not.toHaveBeenCalled();
+      expect(createMetricValuesSpy).toHaveBeenCalledWith([
+        expect.objectContaining({
+          catalog_entity_ref: 'component:default/test1',
+          value: undefined,
+          error_message:
+            'Invalid value "not a number" for number metric, expected a number',
+        }),
+        expect.objectContaining({
+          catalog_entity_ref: 'component:default/test2',
+          value: undefined,
+          error_message:
+            'Invalid value "not a number" for number metric, expected a number',
+        }),
+      ]);
+    });
+
+    it('should notify threshold breaches before creating metric values', async () => {
+      const mockNotifier = {
+        notifyThresholdBreaches: jest.fn().mockResolvedValue(undefined),
+      } as unknown as jest.Mocked<ThresholdBreachNotifier>;
+      (task as any).notifier = mockNotifier;
+      const createMetricValuesSpy = jest.spyOn(
+        mockDatabaseMetricValues,
+        'createMetricValues',
+      );
+
+      await (task as any).pullProviderMetrics(mockProvider, mockLogger);
+
+      expect(mockNotifier.notifyThresholdBreaches).toHaveBeenCalledWith(
+        mockProvider,
+        mockEntities,
+        [
+          expect.objectContaining({
+            catalog_entity_ref: 'component:default/test1',
+          }),
+          expect.objectContaining({
+            catalog_entity_ref: 'component:default/test2',
+          }),
+        ],
+      );
+      expect(
+        mockNotifier.notifyThresholdBreaches.mock.invocationCallOrder[0],
+      ).toBeLessThan(createMetricValuesSpy.mock.invocationCallOrder[0]);
+    });
+
     it('should log completion', async () => {
       await (task as any).pullProviderMetrics(mockProvider, mockLogger);
 
@@ -25,13 +25,12 @@ import {
 import type { Config } from '@backstage/config';
 import { CatalogService } from '@backstage/plugin-catalog-node';
 import { MetricProvider } from '@red-hat-developer-hub/backstage-plugin-scorecard-node';
-import { mergeEntityAndProviderThresholds } from '../../utils/mergeEntityAndProviderThresholds';
 import { v4 as uuid } from 'uuid';
-import { stringifyEntityRef } from '@backstage/catalog-model';
 import { DbMetricValueCreate } from '../../database/types';
 import { SchedulerOptions, SchedulerTask } from '../types';
 import { ThresholdEvaluator } from '../../threshold/ThresholdEvaluator';
-import { MetricValue } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
+import { calculateEntityMetricValue } from '../../utils/calculateEntityMetricValue';
+import { ThresholdBreachNotifier } from '../../notifications/ThresholdBreachNotifier';
 
 type Options = Pick<
   SchedulerOptions,
@@ -42,6 +41,7 @@ type Options = Pick<
   | 'catalog'
   | 'auth'
   | 'thresholdEvaluator'
+  | 'notifier'
 >;
 
 export class PullMetricsByProviderTask implements SchedulerTask {
@@ -54,6 +54,8 @@ export class PullMetricsByProviderTask implements SchedulerTask {
   private readonly scheduler: SchedulerService;
   private readonly database: DatabaseMetricValues;
   private readonly thresholdEvaluator: ThresholdEvaluator;
+  private readonly notifier?: ThresholdBreachNotifier;
+  private readonly dependentProviderIds: string[];
 
   private static readonly CATALOG_BATCH_SIZE = 50;
 
@@ -64,7 +66,15 @@ export class PullMetricsByProviderTask implements SchedulerTask {
       initialDelay: { minutes: 1 },
     };
 
-  constructor(options: Options, provider: MetricProvider) {
+  /**
+   * @param dependentProviderIds - IDs of composite metric providers derived from this provider's metric,
+   * their tasks are triggered after metrics of this provider are pulled
+   */
+  constructor(
+    options: Options,
+    provider: MetricProvider,
+    dependentProviderIds: string[] = [],
+  ) {
     this.config = options.config;
     this.auth = options.auth;
     this.providerId = provider.getProviderId();
@@ -74,6 +84,8 @@ export class PullMetricsByProviderTask implements SchedulerTask {
     this.scheduler = options.scheduler;
     this.database = options.database;
     this.thresholdEvaluator = options.thresholdEvaluator;
+    this.notifier = options.notifier;
+    this.dependentProviderIds = dependentProviderIds;
   }
 
   async start(): Promise<void> {
@@ -98,11 +110,27 @@ export class PullMetricsByProviderTask implements SchedulerTask {
             `${this.providerId} pulling metrics failed, ${error}`,
             error,
           );
+          return;
         }
+
+        await this.triggerDependentTasks(logger);
       },
     });
   }
 
+  private async triggerDependentTasks(logger: LoggerService): Promise<void> {
+    for (const dependentProviderId of this.dependentProviderIds) {
+      try {
+        await this.scheduler.triggerTask(dependentProviderId);
+      } catch (error) {
+        // The task is not scheduled or is already running
+        logger.warn(
+          `Failed to trigger ${dependentProviderId} after pulling metrics for ${this.providerId}, ${error}`,
+        );
+      }
+    }
+  }
+
   private getScheduleFromConfig(
     schedulePath: string,
   ): SchedulerServiceTaskScheduleDefinition {
@@ -122,8 +150,6 @@ export class PullMetricsByProviderTask implements SchedulerTask {
     let totalProcessed = 0;
     let cursor: string | undefined = undefined;
 
-    const metricType = provider.getMetricType();
-
     try {
       do {
         const entitiesResponse = await this.catalog.queryEntities(
@@ -138,41 +164,13 @@ export class PullMetricsByProviderTask implements SchedulerTask {
         cursor = entitiesResponse.pageInfo.nextCursor;
 
         const batchResults = await Promise.allSettled(
-          entitiesResponse.items.map(async entity => {
-            let value: MetricValue | undefined;
-
-            try {
-              value = await provider.calculateMetric(entity);
-
-              const thresholds = mergeEntityAndProviderThresholds(
-                entity,
-                provider,
-              );
-
-              const status = this.thresholdEvaluator.getFirstMatchingThreshold(
-                value,
-                metricType,
-                thresholds,
-              );
-
-              return {
-                catalog_entity_ref: stringifyEntityRef(entity),
-                metric_id: this.providerId,
-                value,
-                timestamp: new Date(),
-                status,
-              } as DbMetricValueCreate;
-            } catch (error) {
-              return {
-                catalog_entity_ref: stringifyEntityRef(entity),
-                metric_id: this.providerId,
-                value,
-                timestamp: new Date(),
-                error_message:
-                  error instanceof Error ? error.message : String(error),
-              } as DbMetricValueCreate;
-            }
-          }),
+          entitiesResponse.items.map(entity =>
+            calculateEntityMetricValue(
+              entity,
+              provider,
+              this.thresholdEvaluator,
+            ),
+          ),
         ).then(promises =>
           promises.reduce((acc, curr) => {
             if (curr.status === 'fulfilled') {
@@ -182,6 +180,12 @@ export class PullMetricsByProviderTask implements SchedulerTask {
           }, [] as DbMetricValueCreate[]),
         );
 
+        // Breaches are detected against the previously stored values, so notify before storing
+        await this.notifier?.notifyThresholdBreaches(
+          provider,
+          entitiesResponse.items,
+          batchResults,
+        );
         await this.database.createMetricValues(batchResults);
         totalProcessed += entitiesResponse.items.length;
       } while (cursor !== undefined);
@@ -14,8 +14,8 @@
  * limitations under the License.
  */
 
-import { NotFoundError } from '@backstage/errors';
-import { mockServices } from '@backstage/backend-test-utils';
+import { InputError, NotFoundError } from '@backstage/errors';
+import { mockCredentials, mockServices } from '@backstage/backend-test-utils';
 import { catalogServiceMock } from '@backstage/plugin-catalog-node/testUtils';
 import { CatalogMetricService } from './CatalogMetricService';
 import { MetricProvidersRegistry } from '../providers/MetricProvidersRegistry';
@@ -506,4 +506,356 @@ describe('CatalogMetricService', () => {
       });
     });
   });
+
+  describe('getAggregatedMetricGroups', () => {
+    const buildMetricValue = (
+      catalogEntityRef: string,
+      status: DbMetricValue['status'],
+      timestamp = '2024-01-15T10:00:00.000Z',
+    ): DbMetricValue => ({
+      ...latestEntityMetric[0],
+      catalog_entity_ref: catalogEntityRef,
+      value: status ? 42 : null,
+      status,
+      timestamp: new Date(timestamp),
+    });
+
+    beforeEach(() => {
+      mockedDatabase.readLatestMetricValuesByEntityRefs.mockResolvedValue([
+        buildMetricValue('component:default/a1', 'success'),
+        buildMetricValue('component:default/a2', 'error'),
+        buildMetricValue(
+          'component:default/b1',
+          'warning',
+          '2024-01-15T11:00:00.000Z',
+        ),
+        buildMetricValue('component:default/b2', null),
+        buildMetricValue('component:default/orphan', 'success'),
+      ]);
+    });
+
+    it('should read latest metric values of all grouped entities', async () => {
+      await service.getAggregatedMetricGroups(
+        new Map([
+          ['group:default/team-a', ['component:default/a1']],
+          [null, ['component:default/orphan']],
+        ]),
+        'github.important_metric',
+      );
+
+      expect(
+        mockedDatabase.readLatestMetricValuesByEntityRefs,
+      ).toHaveBeenCalledWith(
+        ['component:default/a1', 'component:default/orphan'],
+        'github.important_metric',
+      );
+    });
+
+    it('should aggregate metric values by group', async () => {
+      const result = await service.getAggregatedMetricGroups(
+        new Map([
+          [null, ['component:default/orphan']],
+          [
+            'group:default/team-b',
+            ['component:default/b1', 'component:default/b2'],
+          ],
+          [
+            'group:default/team-a',
+            ['component:default/a1', 'component:default/a2'],
+          ],
+          ['group:default/team-c', ['component:default/c1']],
+        ]),
+        'github.important_metric',
+      );
+
+      expect(result).toEqual({
+        groups: [
+          {
+            group: 'group:default/team-a',
+            values: [
+              { count: 1, name: 'success' },
+              { count: 0, name: 'warning' },
+              { count: 1, name: 'error' },
+            ],
+            total: 2,
+          },
+          {
+            group: 'group:default/team-b',
+            values: [
+              { count: 0, name: 'success' },
+              { count: 1, name: 'warning' },
+              { count: 0, name: 'error' },
+            ],
+            total: 1,
+          },
+          {
+            group: null,
+            values: [
+              { count: 1, name: 'success' },
+              { count: 0, name: 'warning' },
+              { count: 0, name: 'error' },
+            ],
+            total: 1,
+          },
+        ],
+        timestamp: '2024-01-15T11:00:00.000Z',
+      });
+    });
+
+    it('should return no groups when there are no entities', async () => {
+      const result = await service.getAggregatedMetricGroups(
+        new Map(),
+        'github.important_metric',
+      );
+
+      expect(result).toEqual({
+        groups: [],
+        timestamp: '2024-01-15T12:00:00.000Z',
+      });
+      expect(
+        mockedDatabase.readLatestMetricValuesByEntityRefs,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getEntityMetricHistory', () => {
+    const historyOptions = {
+      from: new Date('2024-01-01T00:00:00.000Z'),
+      to: new Date('2024-01-15T12:00:00.000Z'),
+      bucket: 'daily' as const,
+    };
+
+    const entityMetricHistory = [
+      {
+        ...latestEntityMetric[0],
+        value: 40,
+        timestamp: new Date('2024-01-14T08:00:00.000Z'),
+        status: 'warning',
+      },
+      {
+        ...latestEntityMetric[0],
+        timestamp: new Date('2024-01-15T08:00:00.000Z'),
+      },
+    ] as DbMetricValue[];
+
+    beforeEach(() => {
+      mockedDatabase = buildMockDatabaseMetricValues({ entityMetricHistory });
+      mockedRegistry.getMetric.mockReturnValue({
+        ...provider.getMetric(),
+        history: true,
+      });
+
+      service = new CatalogMetricService({
+        catalog: mockedCatalog,
+        auth: mockedAuth,
+        registry: mockedRegistry,
+        database: mockedDatabase,
+      });
+    });
+
+    it('should throw an error if the entity is not found', async () => {
+      mockedCatalog.getEntityByRef.mockResolvedValue(undefined);
+
+      await expect(
+        service.getEntityMetricHistory(
+          'component:default/test-component',
+          'github.important_metric',
+          historyOptions,
+        ),
+      ).rejects.toThrow(
+        new NotFoundError('Entity not found: component:default/test-component'),
+      );
+    });
+
+    it('should throw an error if the metric does not support history', async () => {
+      mockedRegistry.getMetric.mockReturnValue(provider.getMetric());
+
+      await expect(
+        service.getEntityMetricHistory(
+          'component:default/test-component',
+          'github.important_metric',
+          historyOptions,
+        ),
+      ).rejects.toThrow(
+        new InputError(
+          "Metric 'github.important_metric' does not support history",
+        ),
+      );
+      expect(
+        mockedDatabase.readEntityMetricValuesByTimeRange,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should read entity metric values within the time range', async () => {
+      await service.getEntityMetricHistory(
+        'component:default/test-component',
+        'github.important_metric',
+        historyOptions,
+      );
+
+      expect(
+        mockedDatabase.readEntityMetricValuesByTimeRange,
+      ).toHaveBeenCalledWith(
+        'component:default/test-component',
+        'github.important_metric',
+        historyOptions.from,
+        historyOptions.to,
+      );
+    });
+
+    it('should return bucketed metric history', async () => {
+      const result = await service.getEntityMetricHistory(
+        'component:default/test-component',
+        'github.important_metric',
+        historyOptions,
+      );
+
+      expect(result).toEqual({
+        id: 'github.important_metric',
+        status: 'success',
+        metadata: {
+          title: provider.getMetric().title,
+          description: provider.getMetric().description,
+          type: 'number',
+          history: true,
+        },
+        result: {
+          bucket: 'daily',
+          from: '2024-01-01T00:00:00.000Z',
+          to: '2024-01-15T12:00:00.000Z',
+          values: [
+            {
+              timestamp: '2024-01-14T00:00:00.000Z',
+              value: 40,
+              status: 'warning',
+            },
+            {
+              timestamp: '2024-01-15T00:00:00.000Z',
+              value: 42,
+              status: 'success',
+            },
+          ],
+        },
+      });
+    });
+  });
+
+  describe('exportMetricValues', () => {
+    const credentials = mockCredentials.user('user:default/test-user');
+    const queriedEntityRef = 'component:default/default-component';
+
+    const collectRows = async (
+      options: Parameters<CatalogMetricService['exportMetricValues']>[0],
+    ) => {
+      const rows = [];
+      for await (const batch of service.exportMetricValues(options)) {
+        rows.push(...batch);
+      }
+      return rows;
+    };
+
+    beforeEach(() => {
+      mockedDatabase = buildMockDatabaseMetricValues({
+        latestMetricValuesByMetricIds: latestEntityMetric,
+        metricValuesByTimeRange: latestEntityMetric,
+      });
+
+      mockedCatalog.queryEntities
+        .mockResolvedValueOnce({
+          items: [mockEntity],
+          totalItems: 2,
+          pageInfo: { nextCursor: 'next-page' },
+        })
+        .mockResolvedValueOnce({
+          items: [],
+          totalItems: 2,
+          pageInfo: {},
+        });
+
+      service = new CatalogMetricService({
+        catalog: mockedCatalog,
+        auth: mockedAuth,
+        registry: mockedRegistry,
+        database: mockedDatabase,
+      });
+    });
+
+    it('should query entities page by page with the caller credentials', async () => {
+      await collectRows({
+        metricIds: ['github.important_metric'],
+        credentials,
+        filter: { kind: ['component'] },
+      });
+
+      expect(mockedCatalog.queryEntities).toHaveBeenCalledTimes(2);
+      expect(mockedCatalog.queryEntities).toHaveBeenNthCalledWith(
+        1,
+        {
+          filter: { kind: ['component'] },
+          fields: ['kind', 'metadata.name', 'metadata.namespace'],
+          limit: 50,
+        },
+        { credentials },
+      );
+      expect(mockedCatalog.queryEntities).toHaveBeenNthCalledWith(
+        2,
+        {
+          filter: { kind: ['component'] },
+          fields: ['kind', 'metadata.name', 'metadata.namespace'],
+          limit: 50,
+          cursor: 'next-page',
+        },
+        { credentials },
+      );
+    });
+
+    it('should export the latest metric values when no range is given', async () => {
+      const rows = await collectRows({
+        metricIds: ['github.important_metric'],
+        credentials,
+      });
+
+      expect(
+        mockedDatabase.readLatestMetricValuesByEntityRefsAndMetricIds,
+      ).toHaveBeenCalledWith([queriedEntityRef], ['github.important_metric']);
+      expect(
+        mockedDatabase.readMetricValuesByEntityRefsAndTimeRange,
+      ).not.toHaveBeenCalled();
+      expect(rows).toEqual([
+        {
+          entityRef: 'component:default/test-component',
+          metricId: 'github.important_metric',
+          value: 42,
+          status: 'success',
+          timestamp: '2024-01-15T12:00:00.000Z',
+          errorMessage: null,
+        },
+      ]);
+    });
+
+    it('should export metric values within the range', async () => {
+      const range = {
+        from: new Date('2024-01-01T00:00:00.000Z'),
+        to: new Date('2024-01-15T12:00:00.000Z'),
+      };
+
+      await collectRows({
+        metricIds: ['github.important_metric'],
+        credentials,
+        range,
+      });
+
+      expect(
+        mockedDatabase.readMetricValuesByEntityRefsAndTimeRange,
+      ).toHaveBeenCalledWith(
+        [queriedEntityRef],
+        ['github.important_metric'],
+        range.from,
+        range.to,
+      );
+      expect(
+        mockedDatabase.readLatestMetricValuesByEntityRefsAndMetricIds,
+      ).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -18,10 +18,18 @@ import {
   MetricResult,
   ThresholdConfig,
   AggregatedMetric,
+  AggregatedMetricGroup,
+  MetricHistoryBucket,
+  MetricHistoryResult,
+  MetricValue,
 } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
 import { MetricProvidersRegistry } from '../providers/MetricProvidersRegistry';
-import { NotFoundError, stringifyError } from '@backstage/errors';
-import { AuthService } from '@backstage/backend-plugin-api';
+import { InputError, NotFoundError, stringifyError } from '@backstage/errors';
+import {
+  AuthService,
+  BackstageCredentials,
+} from '@backstage/backend-plugin-api';
+import { stringifyEntityRef } from '@backstage/catalog-model';
 import { filterAuthorizedMetrics } from '../permissions/permissionUtils';
 import {
   PermissionCondition,
@@ -30,8 +38,10 @@ import {
 } from '@backstage/plugin-permission-common';
 import { CatalogService } from '@backstage/plugin-catalog-node';
 import { DatabaseMetricValues } from '../database/DatabaseMetricValues';
+import { DbMetricValueStatus } from '../database/types';
 import { mergeEntityAndProviderThresholds } from '../utils/mergeEntityAndProviderThresholds';
 import { AggregatedMetricMapper } from './mappers';
+import { bucketMetricHistory } from '../utils/bucketMetricHistory';
 
 type CatalogMetricServiceOptions = {
   catalog: CatalogService;
@@ -40,6 +50,38 @@ type CatalogMetricServiceOptions = {
   database: DatabaseMetricValues;
 };
 
+export type MetricHistoryOptions = {
+  from: Date;
+  to: Date;
+  bucket: MetricHistoryBucket;
+};
+
+export type MetricValuesExportOptions = {
+  metricIds: string[];
+  /** Credentials used to query the entities, only entities readable with them are exported */
+  credentials: BackstageCredentials;
+  /** Catalog filter of the exported entities */
+  filter?: Record<string, string | symbol | (string | symbol)[]>;
+  /** Time range of exported values, only the latest values are exported when not set */
+  range?: { from: Date; to: Date };
+};
+
+export type MetricValueExportRow = {
+  entityRef: string;
+  metricId: string;
+  value: MetricValue | null;
+  status: DbMetricValueStatus | null;
+  timestamp: string;
+  errorMessage: string | null;
+};
+
+const EXPORT_ENTITIES_BATCH_SIZE = 50;
+
+export type AggregatedMetricGroups = {
+  groups: AggregatedMetricGroup[];
+  timestamp: string;
+};
+
 export type AggregatedMetricsByStatus = Record<
   string,
   { values: { success: number; warning: number; error: number }; total: number }
@@ -167,4 +209,183 @@ export class CatalogMetricService {
 
     return AggregatedMetricMapper.toAggregatedMetric();
   }
+
+  /**
+   * Get aggregated metrics for groups of entities and a single metric ID.
+   * Groups without any entity with a metric value are left out.
+   *
+   * @param entityRefsByGroup - Entity references in format "kind:namespace/name" grouped by the group name
+   * @param metricId - Metric ID to aggregate.
+   * @returns Aggregated metric results of each group, ordered by the number of entities, entities without a group are last
+   */
+  async getAggregatedMetricGroups(
+    entityRefsByGroup: Map<string | null, string[]>,
+    metricId: string,
+  ): Promise<AggregatedMetricGroups> {
+    const entityRefs = [...entityRefsByGroup.values()].flat();
+
+    const latestMetricValues =
+      entityRefs.length !== 0
+        ? await this.database.readLatestMetricValuesByEntityRefs(
+            entityRefs,
+            metricId,
+          )
+        : [];
+
+    const metricValuesByEntityRef = new Map(
+      latestMetricValues
+        .filter(metricValue => metricValue.status && metricValue.value !== null)
+        .map(metricValue => [metricValue.catalog_entity_ref, metricValue]),
+    );
+
+    let maxTimestamp: Date | undefined;
+
+    const groups = [...entityRefsByGroup.entries()]
+      .map(([group, groupEntityRefs]) => {
+        const aggregatedMetric = {
+          metric_id: metricId,
+          total: 0,
+          max_timestamp: new Date(),
+          success: 0,
+          warning: 0,
+          error: 0,
+        };
+
+        for (const entityRef of groupEntityRefs) {
+          const metricValue = metricValuesByEntityRef.get(entityRef);
+          if (metricValue?.status) {
+            aggregatedMetric[metricValue.status] += 1;
+            aggregatedMetric.total += 1;
+
+            const timestamp = new Date(metricValue.timestamp);
+            if (!maxTimestamp || timestamp > maxTimestamp) {
+              maxTimestamp = timestamp;
+            }
+          }
+        }
+
+        const { values, total } =
+          AggregatedMetricMapper.toAggregatedMetric(aggregatedMetric);
+
+        return { group, values, total };
+      })
+      .filter(group => group.total > 0)
+      .sort((a, b) => {
+        if (a.group === null || b.group === null) {
+          return a.group === null ? 1 : -1;
+        }
+        return b.total - a.total || a.group.localeCompare(b.group);
+      });
+
+    return {
+      groups,
+      timestamp: (maxTimestamp ?? new Date()).toISOString(),
+    };
+  }
+
+  /**
+   * Export metric values of all entities matching the catalog filter.
+   * Values are yielded in batches of entities, so that large exports can be streamed.
+   *
+   * @param options - Metrics, entities and time range to export
+   * @returns Async iterator of exported metric values, ordered by entity and metric within a batch
+   */
+  async *exportMetricValues(
+    options: MetricValuesExportOptions,
+  ): AsyncGenerator<MetricValueExportRow[]> {
+    const { metricIds, credentials, filter, range } = options;
+    let cursor: string | undefined = undefined;
+
+    do {
+      const response = await this.catalog.queryEntities(
+        {
+          ...(filter ? { filter } : {}),
+          fields: ['kind', 'metadata.name', 'metadata.namespace'],
+          limit: EXPORT_ENTITIES_BATCH_SIZE,
+          ...(cursor ? { cursor } : {}),
+        },
+        { credentials },
+      );
+      cursor = response.pageInfo.nextCursor;
+
+      const entityRefs = response.items.map(entity =>
+        stringifyEntityRef(entity),
+      );
+
+      if (entityRefs.length !== 0) {
+        const metricValues = range
+          ? await this.database.readMetricValuesByEntityRefsAndTimeRange(
+              entityRefs,
+              metricIds,
+              range.from,
+              range.to,
+            )
+          : await this.database.readLatestMetricValuesByEntityRefsAndMetricIds(
+              entityRefs,
+              metricIds,
+            );
+
+        yield metricValues.map(metricValue => ({
+          entityRef: metricValue.catalog_entity_ref,
+          metricId: metricValue.metric_id,
+          value: metricValue.value,
+          status: metricValue.status,
+          timestamp: new Date(metricValue.timestamp).toISOString(),
+          errorMessage: metricValue.error_message,
+        }));
+      }
+    } while (cursor !== undefined);
+  }
+
+  /**
+   * Get the history of a single metric for a specific catalog entity.
+   *
+   * @param entityRef - Entity reference in format "kind:namespace/name"
+   * @param metricId - Metric ID to get the history of
+   * @param options - Time range and bucket granularity of the history
+   * @returns Metric history with the latest value of each bucket
+   */
+  async getEntityMetricHistory(
+    entityRef: string,
+    metricId: string,
+    options: MetricHistoryOptions,
+  ): Promise<MetricHistoryResult> {
+    const { from, to, bucket } = options;
+
+    const entity = await this.catalog.getEntityByRef(entityRef, {
+      credentials: await this.auth.getOwnServiceCredentials(),
+    });
+    if (!entity) {
+      throw new NotFoundError(`Entity not found: ${entityRef}`);
+    }
+
+    const metric = this.registry.getMetric(metricId);
+    if (!metric.history) {
+      throw new InputError(`Metric '${metricId}' does not support history`);
+    }
+
+    const rawValues = await this.database.readEntityMetricValuesByTimeRange(
+      entityRef,
+      metricId,
+      from,
+      to,
+    );
+
+    return {
+      id: metric.id,
+      status: 'success',
+      metadata: {
+        title: metric.title,
+        description: metric.description,
+        type: metric.type,
+        history: metric.history,
+      },
+      result: {
+        bucket,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        values: bucketMetricHistory(rawValues, bucket),
+      },
+    };
+  }
 }
@@ -0,0 +1,197 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { mockServices } from '@backstage/backend-test-utils';
+import { CATALOG_FILTER_EXISTS } from '@backstage/catalog-client';
+import { NotFoundError } from '@backstage/errors';
+import { catalogServiceMock } from '@backstage/plugin-catalog-node/testUtils';
+import { MetricRefreshService } from './MetricRefreshService';
+import { MetricProvidersRegistry } from '../providers/MetricProvidersRegistry';
+import { CompositeMetricProvider } from '../providers/CompositeMetricProvider';
+import { ThresholdEvaluator } from '../threshold/ThresholdEvaluator';
+import {
+  MockBooleanProvider,
+  MockNumberProvider,
+} from '../../__fixtures__/mockProviders';
+import { mockDatabaseMetricValues } from '../../__fixtures__/mockDatabaseMetricValues';
+import { MockEntityBuilder } from '../../__fixtures__/mockEntityBuilder';
+
+describe('MetricRefreshService', () => {
+  const entity = new MockEntityBuilder()
+    .withMetadata({
+      name: 'my-service',
+      namespace: 'default',
+      uid: 'entity-uid',
+      annotations: { 'mock/key': 'value' },
+    })
+    .build();
+
+  let catalog: ReturnType<typeof catalogServiceMock.mock>;
+  let registry: MetricProvidersRegistry;
+  let service: MetricRefreshService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-15T12:00:00.000Z'));
+
+    catalog = catalogServiceMock.mock({
+      getEntityByRef: jest.fn().mockResolvedValue(entity),
+      queryEntities: jest.fn().mockResolvedValue({
+        items: [entity],
+        pageInfo: {},
+        totalItems: 1,
+      }),
+    });
+
+    registry = new MetricProvidersRegistry();
+    registry.register(new MockNumberProvider('github.open_prs', 'github'));
+    registry.register(new MockBooleanProvider('jira.has_issues', 'jira'));
+
+    service = new MetricRefreshService({
+      catalog,
+      auth: mockServices.auth(),
+      registry,
+      database: mockDatabaseMetricValues,
+      thresholdEvaluator: new ThresholdEvaluator(),
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should throw NotFoundError when entity does not exist', async () => {
+    catalog.getEntityByRef.mockResolvedValue(undefined);
+
+    await expect(
+      service.refreshEntityMetrics('component:default/my-service'),
+    ).rejects.toThrow(
+      new NotFoundError('Entity not found: component:default/my-service'),
+    );
+    expect(mockDatabaseMetricValues.createMetricValues).not.toHaveBeenCalled();
+  });
+
+  it('should recalculate and store metrics of all applicable providers', async () => {
+    const refreshedMetricIds = await service.refreshEntityMetrics(
+      'component:default/my-service',
+    );
+
+    expect(refreshedMetricIds).toEqual(['github.open_prs', 'jira.has_issues']);
+    expect(mockDatabaseMetricValues.createMetricValues).toHaveBeenCalledWith([
+      {
+        catalog_entity_ref: 'component:default/my-service',
+        metric_id: 'github.open_prs',
+        value: 42,
+        timestamp: new Date('2024-01-15T12:00:00.000Z'),
+        status: 'error',
+      },
+      {
+        catalog_entity_ref: 'component:default/my-service',
+        metric_id: 'jira.has_issues',
+        value: false,
+        timestamp: new Date('2024-01-15T12:00:00.000Z'),
+        status: 'error',
+      },
+    ]);
+  });
+
+  it('should check if the entity matches the catalog filter of each provider', async () => {
+    await service.refreshEntityMetrics('component:default/my-service');
+
+    expect(catalog.queryEntities).toHaveBeenCalledWith(
+      {
+        filter: {
+          'metadata.annotations.mock/key': CATALOG_FILTER_EXISTS,
+          'metadata.uid': 'entity-uid',
+        },
+        fields: ['metadata.uid'],
+        limit: 1,
+      },
+      expect.any(Object),
+    );
+  });
+
+  it('should skip providers not applicable to the entity', async () => {
+    catalog.queryEntities
+      .mockResolvedValueOnce({ items: [entity], pageInfo: {}, totalItems: 1 })
+      .mockResolvedValueOnce({ items: [], pageInfo: {}, totalItems: 0 });
+
+    const refreshedMetricIds = await service.refreshEntityMetrics(
+      'component:default/my-service',
+    );
+
+    expect(refreshedMetricIds).toEqual(['github.open_prs']);
+  });
+
+  it('should only refresh metrics allowed by the permission filter', async () => {
+    const refreshedMetricIds = await service.refreshEntityMetrics(
+      'component:default/my-service',
+      {
+        rule: 'HAS_METRIC_ID',
+        resourceType: 'scorecard-metric',
+        params: { metricIds: ['jira.has_issues'] },
+      },
+    );
+
+    expect(refreshedMetricIds).toEqual(['jira.has_issues']);
+    expect(catalog.queryEntities).toHaveBeenCalledTimes(1);
+  });
+
+  it('should recalculate composite metrics after other metrics are stored', async () => {
+    const compositeProvider = new CompositeMetricProvider({
+      metricName: 'service_health',
+      title: 'Service health',
+      inputs: [{ metricId: 'github.open_prs', weight: 1 }],
+      catalogFilter: {
+        'metadata.annotations.mock/key': CATALOG_FILTER_EXISTS,
+      },
+      database: mockDatabaseMetricValues,
+    });
+    registry.register(compositeProvider);
+
+    const calculateMetricSpy = jest
+      .spyOn(compositeProvider, 'calculateMetric')
+      .mockResolvedValue(50);
+
+    const refreshedMetricIds = await service.refreshEntityMetrics(
+      'component:default/my-service',
+    );
+
+    expect(refreshedMetricIds).toEqual([
+      'github.open_prs',
+      'jira.has_issues',
+      'composite.service_health',
+    ]);
+    expect(mockDatabaseMetricValues.createMetricValues).toHaveBeenCalledTimes(
+      2,
+    );
+    expect(
+      mockDatabaseMetricValues.createMetricValues.mock.invocationCallOrder[0],
+    ).toBeLessThan(calculateMetricSpy.mock.invocationCallOrder[0]);
+    expect(
+      mockDatabaseMetricValues.createMetricValues,
+    ).toHaveBeenLastCalledWith([
+      {
+        catalog_entity_ref: 'component:default/my-service',
+        metric_id: 'composite.service_health',
+        value: 50,
+        timestamp: new Date('2024-01-15T12:00:00.000Z'),
+        status: 'warning',
+      },
+    ]);
+  });
+});
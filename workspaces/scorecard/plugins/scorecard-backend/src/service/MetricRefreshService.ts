@@ -0,0 +1,182 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Entity } from '@backstage/catalog-model';
+import type {
+  AuthService,
+  BackstageCredentials,
+} from '@backstage/backend-plugin-api';
+import { NotFoundError } from '@backstage/errors';
+import {
+  PermissionCondition,
+  PermissionCriteria,
+  PermissionRuleParams,
+} from '@backstage/plugin-permission-common';
+import { CatalogService } from '@backstage/plugin-catalog-node';
+import { MetricProvider } from '@red-hat-developer-hub/backstage-plugin-scorecard-node';
+import { DatabaseMetricValues } from '../database/DatabaseMetricValues';
+import { DbMetricValueCreate } from '../database/types';
+import { filterAuthorizedMetrics } from '../permissions/permissionUtils';
+import { CompositeMetricProvider } from '../providers/CompositeMetricProvider';
+import { MetricProvidersRegistry } from '../providers/MetricProvidersRegistry';
+import { ThresholdEvaluator } from '../threshold/ThresholdEvaluator';
+import { calculateEntityMetricValue } from '../utils/calculateEntityMetricValue';
+import { ThresholdBreachNotifier } from '../notifications/ThresholdBreachNotifier';
+
+type MetricRefreshServiceOptions = {
+  catalog: CatalogService;
+  auth: AuthService;
+  registry: MetricProvidersRegistry;
+  database: DatabaseMetricValues;
+  thresholdEvaluator: ThresholdEvaluator;
+  notifier?: ThresholdBreachNotifier;
+};
+
+export class MetricRefreshService {
+  private readonly catalog: CatalogService;
+  private readonly auth: AuthService;
+  private readonly registry: MetricProvidersRegistry;
+  private readonly database: DatabaseMetricValues;
+  private readonly thresholdEvaluator: ThresholdEvaluator;
+  private readonly notifier?: ThresholdBreachNotifier;
+
+  constructor(options: MetricRefreshServiceOptions) {
+    this.catalog = options.catalog;
+    this.auth = options.auth;
+    this.registry = options.registry;
+    this.database = options.database;
+    this.thresholdEvaluator = options.thresholdEvaluator;
+    this.notifier = options.notifier;
+  }
+
+  /**
+   * Recalculate metrics of all providers applicable to a specific catalog entity and store the new values.
+   *
+   * @param entityRef - Entity reference in format "kind:namespace/name"
+   * @param filter - Permission filter of the metrics that can be refreshed
+   * @returns IDs of the refreshed metrics
+   */
+  async refreshEntityMetrics(
+    entityRef: string,
+    filter?: PermissionCriteria<
+      PermissionCondition<string, PermissionRuleParams>
+    >,
+  ): Promise<string[]> {
+    const credentials = await this.auth.getOwnServiceCredentials();
+
+    const entity = await this.catalog.getEntityByRef(entityRef, {
+      credentials,
+    });
+    if (!entity) {
+      throw new NotFoundError(`Entity not found: ${entityRef}`);
+    }
+
+    const authorizedMetricIds = new Set(
+      filterAuthorizedMetrics(this.registry.listMetrics(), filter).map(
+        metric => metric.id,
+      ),
+    );
+
+    const providers: MetricProvider[] = [];
+    for (const provider of this.registry.listProviders()) {
+      if (
+        authorizedMetricIds.has(provider.getProviderId()) &&
+        (await this.isEntityApplicable(entity, provider, credentials))
+      ) {
+        providers.push(provider);
+      }
+    }
+
+    const compositeProviders = providers.filter(
+      provider => provider instanceof CompositeMetricProvider,
+    );
+    const datasourceProviders = providers.filter(
+      provider => !(provider instanceof CompositeMetricProvider),
+    );
+
+    const metricValues = await Promise.all(
+      datasourceProviders.map(provider =>
+        calculateEntityMetricValue(entity, provider, this.thresholdEvaluator),
+      ),
+    );
+    await this.notifyThresholdBreaches(
+      datasourceProviders,
+      entity,
+      metricValues,
+    );
+    await this.database.createMetricValues(metricValues);
+
+    // Composite metrics are derived from the latest stored values of other metrics,
+    // they are recalculated one by one in registration order so that composites of composites see fresh values
+    for (const provider of compositeProviders) {
+      const metricValue = await calculateEntityMetricValue(
+        entity,
+        provider,
+        this.thresholdEvaluator,
+      );
+      await this.notifyThresholdBreaches([provider], entity, [metricValue]);
+      await this.database.createMetricValues([metricValue]);
+    }
+
+    return providers.map(provider => provider.getProviderId());
+  }
+
+  private async notifyThresholdBreaches(
+    providers: MetricProvider[],
+    entity: Entity,
+    metricValues: DbMetricValueCreate[],
+  ): Promise<void> {
+    if (!this.notifier) {
+      return;
+    }
+
+    for (const provider of providers) {
+      await this.notifier.notifyThresholdBreaches(
+        provider,
+        [entity],
+        metricValues.filter(
+          ({ metric_id }) => metric_id === provider.getProviderId(),
+        ),
+      );
+    }
+  }
+
+  private async isEntityApplicable(
+    entity: Entity,
+    provider: MetricProvider,
+    credentials: BackstageCredentials,
+  ): Promise<boolean> {
+    // Entities read from the catalog always have a uid
+    const uid = entity.metadata.uid;
+    if (!uid) {
+      return false;
+    }
+
+    const { items } = await this.catalog.queryEntities(
+      {
+        filter: {
+          ...provider.getCatalogFilter(),
+          'metadata.uid': uid,
+        },
+        fields: ['metadata.uid'],
+        limit: 1,
+      },
+      { credentials },
+    );
+
+    return items.length > 0;
+  }
+}
@@ -0,0 +1,102 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { mockServices } from '@backstage/backend-test-utils';
+import { RefreshRateLimiter } from './RefreshRateLimiter';
+
+describe('RefreshRateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-15T12:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should allow the first refresh of an entity', () => {
+    const rateLimiter = new RefreshRateLimiter({ minIntervalMs: 60000 });
+
+    expect(
+      rateLimiter.tryAcquire('component:default/my-service'),
+    ).toBeUndefined();
+  });
+
+  it('should return seconds until the next allowed refresh of the same entity', () => {
+    const rateLimiter = new RefreshRateLimiter({ minIntervalMs: 60000 });
+
+    rateLimiter.tryAcquire('component:default/my-service');
+    jest.advanceTimersByTime(15500);
+
+    expect(rateLimiter.tryAcquire('component:default/my-service')).toBe(45);
+  });
+
+  it('should not limit refreshes of other entities', () => {
+    const rateLimiter = new RefreshRateLimiter({ minIntervalMs: 60000 });
+
+    rateLimiter.tryAcquire('component:default/my-service');
+
+    expect(
+      rateLimiter.tryAcquire('component:default/other-service'),
+    ).toBeUndefined();
+  });
+
+  it('should allow refreshing the entity again after the interval', () => {
+    const rateLimiter = new RefreshRateLimiter({ minIntervalMs: 60000 });
+
+    rateLimiter.tryAcquire('component:default/my-service');
+    jest.advanceTimersByTime(60000);
+
+    expect(
+      rateLimiter.tryAcquire('component:default/my-service'),
+    ).toBeUndefined();
+  });
+
+  it('should allow refreshing the entity again after the refresh is released', () => {
+    const rateLimiter = new RefreshRateLimiter({ minIntervalMs: 60000 });
+
+    rateLimiter.tryAcquire('component:default/my-service');
+    rateLimiter.release('component:default/my-service');
+
+    expect(
+      rateLimiter.tryAcquire('component:default/my-service'),
+    ).toBeUndefined();
+  });
+
+  describe('fromConfig', () => {
+    it('should use the configured minimum interval', () => {
+      const rateLimiter = RefreshRateLimiter.fromConfig(
+        mockServices.rootConfig({
+          data: { scorecard: { refresh: { minIntervalSeconds: 10 } } },
+        }),
+      );
+
+      rateLimiter.tryAcquire('component:default/my-service');
+
+      expect(rateLimiter.tryAcquire('component:default/my-service')).toBe(10);
+    });
+
+    it('should default to 60 seconds', () => {
+      const rateLimiter = RefreshRateLimiter.fromConfig(
+        mockServices.rootConfig(),
+      );
+
+      rateLimiter.tryAcquire('component:default/my-service');
+
+      expect(rateLimiter.tryAcquire('component:default/my-service')).toBe(60);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Config } from '@backstage/config';
+
+type RefreshRateLimiterOptions = {
+  /** Minimum time between two refreshes of the same entity */
+  minIntervalMs: number;
+};
+
+/**
+ * Limits on-demand metric refreshes per entity. The state is kept in memory,
+ * so each backend instance limits the refreshes it handles on its own.
+ */
+export class RefreshRateLimiter {
+  private static readonly DEFAULT_MIN_INTERVAL_SECONDS = 60;
+
+  private readonly minIntervalMs: number;
+  private readonly lastRefreshes = new Map<string, number>();
+
+  constructor(options: RefreshRateLimiterOptions) {
+    this.minIntervalMs = options.minIntervalMs;
+  }
+
+  static fromConfig(config: Config): RefreshRateLimiter {
+    const minIntervalSeconds =
+      config.getOptionalNumber('scorecard.refresh.minIntervalSeconds') ??
+      RefreshRateLimiter.DEFAULT_MIN_INTERVAL_SECONDS;
+
+    return new RefreshRateLimiter({ minIntervalMs: minIntervalSeconds * 1000 });
+  }
+
+  /**
+   * Records a refresh of the entity if it is allowed.
+   *
+   * @param entityRef - Entity reference in format "kind:namespace/name"
+   * @returns Number of seconds until the entity can be refreshed again, undefined if the refresh is allowed
+   */
+  tryAcquire(entityRef: string): number | undefined {
+    const now = Date.now();
+    this.pruneExpired(now);
+
+    const lastRefresh = this.lastRefreshes.get(entityRef);
+    if (lastRefresh !== undefined) {
+      return Math.ceil((lastRefresh + this.minIntervalMs - now) / 1000);
+    }
+
+    this.lastRefreshes.set(entityRef, now);
+    return undefined;
+  }
+
+  /**
+   * Releases the refresh of the entity, so a failed refresh can be retried immediately.
+   *
+   * @param entityRef - Entity reference in format "kind:namespace/name"
+   */
+  release(entityRef: string): void {
+    this.lastRefreshes.delete(entityRef);
+  }
+
+  private pruneExpired(now: number): void {
+    for (const [entityRef, lastRefresh] of this.lastRefreshes) {
+      if (now - lastRefresh >= this.minIntervalMs) {
+        this.lastRefreshes.delete(entityRef);
+      }
+    }
+  }
+}
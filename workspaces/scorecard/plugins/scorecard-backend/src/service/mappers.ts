@@ -16,10 +16,13 @@
 
 import {
   AggregatedMetric,
+  AggregatedMetricGroupBy,
+  AggregatedMetricGroupsResult,
   AggregatedMetricResult,
   Metric,
 } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
 import { DbAggregatedMetric } from '../database/types';
+import type { AggregatedMetricGroups } from './CatalogMetricService';
 
 export class AggregatedMetricMapper {
   static toAggregatedMetric(
@@ -60,4 +63,27 @@ export class AggregatedMetricMapper {
       result: aggregatedMetric,
     };
   }
+
+  static toAggregatedMetricGroupsResult(
+    metric: Metric,
+    grouping: { groupBy: AggregatedMetricGroupBy; key?: string },
+    aggregatedMetricGroups: AggregatedMetricGroups,
+  ): AggregatedMetricGroupsResult {
+    return {
+      id: metric.id,
+      status: 'success',
+      metadata: {
+        title: metric.title,
+        description: metric.description,
+        type: metric.type,
+        history: metric.history,
+      },
+      result: {
+        groupBy: grouping.groupBy,
+        ...(grouping.key ? { key: grouping.key } : {}),
+        groups: aggregatedMetricGroups.groups,
+        timestamp: aggregatedMetricGroups.timestamp,
+      },
+    };
+  }
 }
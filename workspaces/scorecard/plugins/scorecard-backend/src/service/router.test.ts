@@ -29,12 +29,17 @@ import {
   githubNumberMetricMetadata,
 } from '../../__fixtures__/mockProviders';
 import {
+  AggregatedMetricGroupsResult,
   AggregatedMetricResult,
   Metric,
+  MetricHistoryResult,
   MetricResult,
 } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
 import { CatalogMetricService } from './CatalogMetricService';
-import { NotFoundError } from '@backstage/errors';
+import { MetricRefreshService } from './MetricRefreshService';
+import { RefreshRateLimiter } from './RefreshRateLimiter';
+import { ThresholdEvaluator } from '../threshold/ThresholdEvaluator';
+import { NotAllowedError, NotFoundError } from '@backstage/errors';
 import { catalogServiceMock } from '@backstage/plugin-catalog-node/testUtils';
 import {
   AuthorizeResult,
@@ -47,6 +52,10 @@ jest.mock('../utils/getEntitiesOwnedByUser', () => ({
   getEntitiesOwnedByUser: jest.fn(),
 }));
 
+jest.mock('../utils/getEntityRefsByGroup', () => ({
+  getEntityRefsByGroup: jest.fn(),
+}));
+
 jest.mock('../permissions/permissionUtils', () => {
   const originalModule = jest.requireActual('../permissions/permissionUtils');
   return {
@@ -56,6 +65,7 @@ jest.mock('../permissions/permissionUtils', () => {
 });
 
 import * as getEntitiesOwnedByUserModule from '../utils/getEntitiesOwnedByUser';
+import * as getEntityRefsByGroupModule from '../utils/getEntityRefsByGroup';
 import * as permissionUtilsModule from '../permissions/permissionUtils';
 import { MockEntityBuilder } from '../../__fixtures__/mockEntityBuilder';
 import { AggregatedMetricMapper } from './mappers';
@@ -81,9 +91,12 @@ describe('createRouter', () => {
   let app: express.Express;
   let metricProvidersRegistry: MetricProvidersRegistry;
   let catalogMetricService: CatalogMetricService;
+  let metricRefreshService: MetricRefreshService;
+  let refreshRateLimiter: RefreshRateLimiter;
   let httpAuthMock: ServiceMock<
     import('@backstage/backend-plugin-api').HttpAuthService
   >;
+  const loggerMock = mockServices.logger.mock();
   const permissionsMock: ServiceMock<PermissionsService> =
     mockServices.permissions.mock({
       authorizeConditional: jest.fn(),
@@ -99,6 +112,14 @@ describe('createRouter', () => {
       auth: mockServices.auth(),
       database: mockDatabaseMetricValues,
     });
+    metricRefreshService = new MetricRefreshService({
+      catalog,
+      registry: metricProvidersRegistry,
+      auth: mockServices.auth(),
+      database: mockDatabaseMetricValues,
+      thresholdEvaluator: new ThresholdEvaluator(),
+    });
+    refreshRateLimiter = new RefreshRateLimiter({ minIntervalMs: 60000 });
 
     permissionsMock.authorizeConditional.mockResolvedValue([
       { result: AuthorizeResult.ALLOW },
@@ -119,9 +140,12 @@ describe('createRouter', () => {
     const router = await createRouter({
       metricProvidersRegistry,
       catalogMetricService,
+      metricRefreshService,
+      refreshRateLimiter,
       catalog,
       httpAuth: httpAuthMock,
       permissions: permissionsMock,
+      logger: loggerMock,
     });
     app = express();
     app.use(router);
@@ -464,6 +488,180 @@ describe('createRouter', () => {
     });
   });
 
+  describe('POST /metrics/catalog/:kind/:namespace/:name/refresh', () => {
+    const mockMetricResults: MetricResult[] = [
+      {
+        id: 'github.open_prs',
+        status: 'success',
+        metadata: githubNumberMetricMetadata,
+        result: {
+          value: 3,
+          timestamp: '2025-01-01T10:30:00.000Z',
+          thresholdResult: {
+            definition: {
+              rules: [
+                { key: 'error', expression: '>10' },
+                { key: 'warning', expression: '>5' },
+                { key: 'success', expression: '<=5' },
+              ],
+            },
+            status: 'success',
+            evaluation: 'success',
+          },
+        },
+      },
+    ];
+
+    beforeEach(() => {
+      jest
+        .spyOn(metricRefreshService, 'refreshEntityMetrics')
+        .mockResolvedValue(['github.open_prs']);
+      jest
+        .spyOn(catalogMetricService, 'getLatestEntityMetrics')
+        .mockResolvedValue(mockMetricResults);
+    });
+
+    it('should return 403 Unauthorized when DENY permissions', async () => {
+      permissionsMock.authorizeConditional.mockResolvedValue([
+        { result: AuthorizeResult.DENY },
+      ]);
+
+      const result = await request(app).post(
+        '/metrics/catalog/component/default/my-service/refresh',
+      );
+
+      expect(result.statusCode).toBe(403);
+      expect(result.body.error.name).toEqual('NotAllowedError');
+      expect(metricRefreshService.refreshEntityMetrics).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 NotAllowedError when user does not have access to the entity', async () => {
+      jest
+        .spyOn(permissionUtilsModule, 'checkEntityAccess')
+        .mockRejectedValueOnce(
+          new NotAllowedError(
+            'Access to "component:default/my-service" entity metrics denied',
+          ),
+        );
+
+      const result = await request(app).post(
+        '/metrics/catalog/component/default/my-service/refresh',
+      );
+
+      expect(result.statusCode).toBe(403);
+      expect(metricRefreshService.refreshEntityMetrics).not.toHaveBeenCalled();
+    });
+
+    it('should refresh metrics and return the latest metric results', async () => {
+      const response = await request(app).post(
+        '/metrics/catalog/component/default/my-service/refresh',
+      );
+
+      expect(response.status).toBe(200);
+      expect(metricRefreshService.refreshEntityMetrics).toHaveBeenCalledWith(
+        'component:default/my-service',
+        undefined,
+      );
+      expect(catalogMetricService.getLatestEntityMetrics).toHaveBeenCalledWith(
+        'component:default/my-service',
+        ['github.open_prs'],
+        undefined,
+      );
+      expect(response.body).toEqual(mockMetricResults);
+    });
+
+    it('should pass refresh permission conditions to the refresh service', async () => {
+      permissionsMock.authorizeConditional.mockResolvedValue([
+        CONDITIONAL_POLICY_DECISION,
+      ]);
+
+      const response = await request(app).post(
+        '/metrics/catalog/component/default/my-service/refresh',
+      );
+
+      expect(response.status).toBe(200);
+      expect(metricRefreshService.refreshEntityMetrics).toHaveBeenCalledWith(
+        'component:default/my-service',
+        {
+          anyOf: [
+            {
+              params: {
+                metricIds: ['github.open_prs', 'github.open_issues'],
+              },
+              resourceType: 'scorecard-metric',
+              rule: 'HAS_METRIC_ID',
+            },
+          ],
+        },
+      );
+    });
+
+    it('should return an empty array when no metrics were refreshed', async () => {
+      jest
+        .spyOn(metricRefreshService, 'refreshEntityMetrics')
+        .mockResolvedValue([]);
+
+      const response = await request(app).post(
+        '/metrics/catalog/component/default/my-service/refresh',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([]);
+      expect(
+        catalogMetricService.getLatestEntityMetrics,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should return 429 when the entity was refreshed recently', async () => {
+      await request(app).post(
+        '/metrics/catalog/component/default/my-service/refresh',
+      );
+      const response = await request(app).post(
+        '/metrics/catalog/component/default/my-service/refresh',
+      );
+
+      expect(response.status).toBe(429);
+      expect(response.headers['retry-after']).toBe('60');
+      expect(response.body.error.name).toBe('TooManyRequestsError');
+      expect(metricRefreshService.refreshEntityMetrics).toHaveBeenCalledTimes(
+        1,
+      );
+    });
+
+    it('should allow retrying the refresh immediately when it failed', async () => {
+      jest
+        .spyOn(metricRefreshService, 'refreshEntityMetrics')
+        .mockRejectedValueOnce(new Error('Provider unavailable'));
+
+      const failedResponse = await request(app).post(
+        '/metrics/catalog/component/default/my-service/refresh',
+      );
+      const response = await request(app).post(
+        '/metrics/catalog/component/default/my-service/refresh',
+      );
+
+      expect(failedResponse.status).toBe(500);
+      expect(response.status).toBe(200);
+      expect(metricRefreshService.refreshEntityMetrics).toHaveBeenCalledTimes(
+        2,
+      );
+    });
+
+    it('should not limit refreshes of other entities', async () => {
+      await request(app).post(
+        '/metrics/catalog/component/default/my-service/refresh',
+      );
+      const response = await request(app).post(
+        '/metrics/catalog/component/default/other-service/refresh',
+      );
+
+      expect(response.status).toBe(200);
+      expect(metricRefreshService.refreshEntityMetrics).toHaveBeenCalledTimes(
+        2,
+      );
+    });
+  });
+
   describe('GET /metrics/:metricId/catalog/aggregations', () => {
     const mockAggregatedMetricResult: AggregatedMetricResult = {
       id: 'github.open_prs',
@@ -543,9 +741,12 @@ describe('createRouter', () => {
       const router = await createRouter({
         metricProvidersRegistry,
         catalogMetricService,
+        metricRefreshService,
+        refreshRateLimiter,
         catalog: mockCatalog,
         httpAuth: httpAuthMock,
         permissions: permissionsMock,
+        logger: loggerMock,
       });
       aggregationApp = express();
       aggregationApp.use(router);
@@ -725,4 +926,409 @@ describe('createRouter', () => {
       );
     });
   });
+
+  describe('GET /metrics/:metricId/catalog/aggregations/groups', () => {
+    const entityRefsByGroup = new Map([
+      ['group:default/team-a', ['component:default/my-service']],
+      [null, ['component:default/my-other-service']],
+    ]);
+
+    const aggregatedMetricGroups = {
+      groups: [
+        {
+          group: 'group:default/team-a',
+          values: [
+            { count: 1, name: 'success' as const },
+            { count: 0, name: 'warning' as const },
+            { count: 0, name: 'error' as const },
+          ],
+          total: 1,
+        },
+      ],
+      timestamp: '2025-01-01T10:30:00.000Z',
+    };
+
+    let getEntityRefsByGroupSpy: jest.SpyInstance;
+    let getAggregatedMetricGroupsSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      metricProvidersRegistry.register(
+        new MockNumberProvider('github.open_prs', 'github', 'GitHub Open PRs'),
+      );
+      metricProvidersRegistry.register(
+        new MockNumberProvider('jira.open_issues', 'jira', 'Jira Open Issues'),
+      );
+
+      getEntityRefsByGroupSpy = jest
+        .spyOn(getEntityRefsByGroupModule, 'getEntityRefsByGroup')
+        .mockResolvedValue(entityRefsByGroup);
+
+      getAggregatedMetricGroupsSpy = jest
+        .spyOn(catalogMetricService, 'getAggregatedMetricGroups')
+        .mockResolvedValue(aggregatedMetricGroups);
+    });
+
+    afterEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should return 403 Unauthorized when DENY permissions', async () => {
+      permissionsMock.authorizeConditional.mockResolvedValue([
+        { result: AuthorizeResult.DENY },
+      ]);
+      const result = await request(app).get(
+        '/metrics/github.open_prs/catalog/aggregations/groups?groupBy=owner',
+      );
+
+      expect(result.statusCode).toBe(403);
+      expect(result.body.error.name).toEqual('NotAllowedError');
+    });
+
+    it('should return 403 NotAllowedError when user does not have access to the metric', async () => {
+      permissionsMock.authorizeConditional.mockResolvedValue([
+        CONDITIONAL_POLICY_DECISION,
+      ]);
+      const result = await request(app).get(
+        '/metrics/jira.open_issues/catalog/aggregations/groups?groupBy=owner',
+      );
+
+      expect(result.statusCode).toBe(403);
+      expect(result.body.error.name).toEqual('NotAllowedError');
+    });
+
+    it('should return 404 NotFoundError when metric is not found', async () => {
+      const result = await request(app).get(
+        '/metrics/non.existent.metric/catalog/aggregations/groups?groupBy=owner',
+      );
+
+      expect(result.statusCode).toBe(404);
+      expect(result.body.error.name).toBe('NotFoundError');
+    });
+
+    it('should return 400 InputError for invalid groupBy', async () => {
+      const result = await request(app).get(
+        '/metrics/github.open_prs/catalog/aggregations/groups?groupBy=lifecycle',
+      );
+
+      expect(result.statusCode).toBe(400);
+      expect(result.body.error.name).toBe('InputError');
+      expect(getEntityRefsByGroupSpy).not.toHaveBeenCalled();
+    });
+
+    it('should group entities matching the metric catalog filter with user credentials', async () => {
+      await request(app).get(
+        '/metrics/github.open_prs/catalog/aggregations/groups?groupBy=label&key=tier',
+      );
+
+      expect(getEntityRefsByGroupSpy).toHaveBeenCalledWith('label', 'tier', {
+        catalog: expect.any(Object),
+        credentials: {
+          principal: { userEntityRef: 'user:default/test-user' },
+        },
+        filter: {
+          'metadata.annotations.mock/key': expect.any(Symbol),
+        },
+      });
+      expect(getAggregatedMetricGroupsSpy).toHaveBeenCalledWith(
+        entityRefsByGroup,
+        'github.open_prs',
+      );
+    });
+
+    it('should return aggregated metric groups', async () => {
+      const response = await request(app).get(
+        '/metrics/github.open_prs/catalog/aggregations/groups?groupBy=owner',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        id: 'github.open_prs',
+        status: 'success',
+        metadata: {
+          title: 'GitHub Open PRs',
+          description: 'Mock number description.',
+          type: 'number',
+        },
+        result: {
+          groupBy: 'owner',
+          ...aggregatedMetricGroups,
+        },
+      } as AggregatedMetricGroupsResult);
+    });
+  });
+
+  describe('GET /metrics/export', () => {
+    const exportRows = [
+      {
+        entityRef: 'component:default/my-service',
+        metricId: 'github.open_prs',
+        value: 5,
+        status: 'success' as const,
+        timestamp: '2025-01-01T10:30:00.000Z',
+        errorMessage: null,
+      },
+      {
+        entityRef: 'component:default/my-service',
+        metricId: 'jira.open_issues',
+        value: null,
+        status: null,
+        timestamp: '2025-01-01T10:30:00.000Z',
+        errorMessage: 'Failed, "quoted"',
+      },
+    ];
+
+    let exportMetricValuesSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      metricProvidersRegistry.register(
+        new MockNumberProvider('github.open_prs', 'github', 'GitHub Open PRs'),
+      );
+      metricProvidersRegistry.register(
+        new MockNumberProvider('jira.open_issues', 'jira', 'Jira Open Issues'),
+      );
+
+      exportMetricValuesSpy = jest
+        .spyOn(catalogMetricService, 'exportMetricValues')
+        .mockImplementation(async function* exportMetricValues() {
+          yield exportRows;
+        });
+    });
+
+    afterEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should return 403 Unauthorized when DENY permissions', async () => {
+      permissionsMock.authorizeConditional.mockResolvedValue([
+        { result: AuthorizeResult.DENY },
+      ]);
+      const result = await request(app).get('/metrics/export');
+
+      expect(result.statusCode).toBe(403);
+      expect(result.body.error.name).toEqual('NotAllowedError');
+    });
+
+    it('should return 400 InputError when format is invalid', async () => {
+      const result = await request(app).get('/metrics/export?format=xml');
+
+      expect(result.statusCode).toBe(400);
+      expect(result.body.error.name).toEqual('InputError');
+    });
+
+    it('should export latest metric values as CSV by default', async () => {
+      const result = await request(app).get('/metrics/export');
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers['content-type']).toContain('text/csv');
+      expect(result.headers['content-disposition']).toBe(
+        'attachment; filename="scorecard-metrics.csv"',
+      );
+      expect(result.text).toBe(
+        [
+          'entityRef,metricId,value,status,timestamp,errorMessage',
+          'component:default/my-service,github.open_prs,5,success,2025-01-01T10:30:00.000Z,',
+          'component:default/my-service,jira.open_issues,,,2025-01-01T10:30:00.000Z,"Failed, ""quoted"""',
+          '',
+        ].join('\n'),
+      );
+      expect(exportMetricValuesSpy).toHaveBeenCalledWith({
+        metricIds: ['github.open_prs', 'jira.open_issues'],
+        credentials: expect.any(Object),
+        filter: undefined,
+        range: undefined,
+      });
+    });
+
+    it('should export metric values as JSON', async () => {
+      const result = await request(app).get('/metrics/export?format=json');
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers['content-type']).toContain('application/json');
+      expect(JSON.parse(result.text)).toEqual(exportRows);
+    });
+
+    it('should pass kind, owner and range filters to the service', async () => {
+      const result = await request(app).get(
+        '/metrics/export?metricIds=github.open_prs&kind=component,api&owner=group:default/team-a&from=2025-01-01T00:00:00.000Z&to=2025-01-31T00:00:00.000Z',
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(exportMetricValuesSpy).toHaveBeenCalledWith({
+        metricIds: ['github.open_prs'],
+        credentials: expect.any(Object),
+        filter: {
+          kind: ['component', 'api'],
+          'relations.ownedBy': ['group:default/team-a'],
+        },
+        range: {
+          from: new Date('2025-01-01T00:00:00.000Z'),
+          to: new Date('2025-01-31T00:00:00.000Z'),
+        },
+      });
+    });
+
+    it('should end the export and log the error when the export fails after streaming started', async () => {
+      exportMetricValuesSpy.mockImplementation(
+        async function* exportMetricValues() {
+          yield exportRows.slice(0, 1);
+          throw new Error('Database connection lost');
+        },
+      );
+
+      const result = await request(app).get('/metrics/export');
+
+      expect(result.statusCode).toBe(200);
+      expect(result.text).toBe(
+        [
+          'entityRef,metricId,value,status,timestamp,errorMessage',
+          'component:default/my-service,github.open_prs,5,success,2025-01-01T10:30:00.000Z,',
+          '',
+        ].join('\n'),
+      );
+      expect(loggerMock.error).toHaveBeenCalledWith(
+        'Failed to export the scorecard metric values: Error: Database connection lost',
+      );
+    });
+
+    it('should only export metrics allowed by conditional permissions', async () => {
+      permissionsMock.authorizeConditional.mockResolvedValue([
+        CONDITIONAL_POLICY_DECISION,
+      ]);
+
+      const result = await request(app).get('/metrics/export');
+
+      expect(result.statusCode).toBe(200);
+      expect(exportMetricValuesSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ metricIds: ['github.open_prs'] }),
+      );
+    });
+  });
+
+  describe('GET /metrics/:metricId/catalog/:kind/:namespace/:name/history', () => {
+    const mockMetricHistoryResult: MetricHistoryResult = {
+      id: 'github.open_prs',
+      status: 'success',
+      metadata: {
+        title: 'GitHub Open PRs',
+        description: 'Mock number description.',
+        type: 'number',
+        history: true,
+      },
+      result: {
+        bucket: 'daily',
+        from: '2025-01-01T00:00:00.000Z',
+        to: '2025-01-03T00:00:00.000Z',
+        values: [
+          {
+            timestamp: '2025-01-01T00:00:00.000Z',
+            value: 12,
+            status: 'warning',
+          },
+          {
+            timestamp: '2025-01-02T00:00:00.000Z',
+            value: 4,
+            status: 'success',
+          },
+        ],
+      },
+    };
+
+    let getEntityMetricHistorySpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      metricProvidersRegistry.register(
+        new MockNumberProvider('github.open_prs', 'github', 'GitHub Open PRs'),
+      );
+      metricProvidersRegistry.register(
+        new MockNumberProvider('jira.open_issues', 'jira', 'Jira Open Issues'),
+      );
+
+      getEntityMetricHistorySpy = jest
+        .spyOn(catalogMetricService, 'getEntityMetricHistory')
+        .mockResolvedValue(mockMetricHistoryResult);
+    });
+
+    afterEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should return 403 Unauthorized when DENY permissions', async () => {
+      permissionsMock.authorizeConditional.mockResolvedValue([
+        { result: AuthorizeResult.DENY },
+      ]);
+      const result = await request(app).get(
+        '/metrics/github.open_prs/catalog/component/default/my-service/history',
+      );
+
+      expect(result.statusCode).toBe(403);
+      expect(result.body.error.name).toEqual('NotAllowedError');
+    });
+
+    it('should return 403 NotAllowedError when user does not have access to the metric', async () => {
+      permissionsMock.authorizeConditional.mockResolvedValue([
+        CONDITIONAL_POLICY_DECISION,
+      ]);
+      const result = await request(app).get(
+        '/metrics/jira.open_issues/catalog/component/default/my-service/history',
+      );
+
+      expect(result.statusCode).toBe(403);
+      expect(result.body.error.name).toEqual('NotAllowedError');
+      expect(getEntityMetricHistorySpy).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 NotFoundError when metric is not found', async () => {
+      const result = await request(app).get(
+        '/metrics/non.existent.metric/catalog/component/default/my-service/history',
+      );
+
+      expect(result.statusCode).toBe(404);
+      expect(result.body.error.name).toBe('NotFoundError');
+    });
+
+    it('should return 400 InputError when invalid query parameters', async () => {
+      const result = await request(app).get(
+        '/metrics/github.open_prs/catalog/component/default/my-service/history?bucket=hourly',
+      );
+
+      expect(result.statusCode).toBe(400);
+      expect(result.body.error.name).toBe('InputError');
+      expect(result.body.error.message).toContain('Invalid query parameters');
+    });
+
+    it('should check entity access before returning history', async () => {
+      const checkEntityAccessSpy = jest.spyOn(
+        permissionUtilsModule,
+        'checkEntityAccess',
+      );
+      await request(app).get(
+        '/metrics/github.open_prs/catalog/component/default/my-service/history',
+      );
+
+      expect(checkEntityAccessSpy).toHaveBeenCalledWith(
+        'component:default/my-service',
+        expect.any(Object),
+        permissionsMock,
+        httpAuthMock,
+      );
+    });
+
+    it('should return metric history for a specific entity', async () => {
+      const response = await request(app).get(
+        '/metrics/github.open_prs/catalog/Component/default/my-service/history?from=2025-01-01T00:00:00.000Z&to=2025-01-03T00:00:00.000Z&bucket=weekly',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(mockMetricHistoryResult);
+      expect(getEntityMetricHistorySpy).toHaveBeenCalledWith(
+        'component:default/my-service',
+        'github.open_prs',
+        {
+          from: new Date('2025-01-01T00:00:00.000Z'),
+          to: new Date('2025-01-03T00:00:00.000Z'),
+          bucket: 'weekly',
+        },
+      );
+    });
+  });
 });
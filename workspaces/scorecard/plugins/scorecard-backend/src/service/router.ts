@@ -21,9 +21,12 @@ import {
 import express, { Request } from 'express';
 import Router from 'express-promise-router';
 import type { CatalogMetricService } from './CatalogMetricService';
+import type { MetricRefreshService } from './MetricRefreshService';
+import type { RefreshRateLimiter } from './RefreshRateLimiter';
 import type { MetricProvidersRegistry } from '../providers/MetricProvidersRegistry';
 import {
   type HttpAuthService,
+  type LoggerService,
   type PermissionsService,
 } from '@backstage/backend-plugin-api';
 import type { CatalogService } from '@backstage/plugin-catalog-node';
@@ -33,32 +36,49 @@ import {
   PolicyDecision,
   ResourcePermission,
 } from '@backstage/plugin-permission-common';
-import { scorecardMetricReadPermission } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
+import {
+  scorecardMetricReadPermission,
+  scorecardMetricRefreshPermission,
+} from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
 import {
   filterAuthorizedMetrics,
   checkEntityAccess,
 } from '../permissions/permissionUtils';
-import { stringifyEntityRef } from '@backstage/catalog-model';
+import {
+  RELATION_OWNED_BY,
+  stringifyEntityRef,
+} from '@backstage/catalog-model';
 import { validateCatalogMetricsSchema } from '../validation/validateCatalogMetricsSchema';
 import { getEntitiesOwnedByUser } from '../utils/getEntitiesOwnedByUser';
 import { parseCommaSeparatedString } from '../utils/parseCommaSeparatedString';
 import { validateMetricsSchema } from '../validation/validateMetricsSchema';
+import { validateMetricHistorySchema } from '../validation/validateMetricHistorySchema';
+import { validateAggregationGroupsSchema } from '../validation/validateAggregationGroupsSchema';
+import { validateMetricExportSchema } from '../validation/validateMetricExportSchema';
+import { createMetricExportFormatter } from '../utils/createMetricExportFormatter';
+import { getEntityRefsByGroup } from '../utils/getEntityRefsByGroup';
 import { AggregatedMetricMapper } from './mappers';
 
 export type ScorecardRouterOptions = {
   metricProvidersRegistry: MetricProvidersRegistry;
   catalogMetricService: CatalogMetricService;
+  metricRefreshService: MetricRefreshService;
+  refreshRateLimiter: RefreshRateLimiter;
   catalog: CatalogService;
   httpAuth: HttpAuthService;
   permissions: PermissionsService;
+  logger: LoggerService;
 };
 
 export async function createRouter({
   metricProvidersRegistry,
   catalogMetricService,
+  metricRefreshService,
+  refreshRateLimiter,
   catalog,
   httpAuth,
   permissions,
+  logger,
 }: ScorecardRouterOptions): Promise<express.Router> {
   const router = Router();
   router.use(express.json());
@@ -121,6 +141,69 @@ export async function createRouter({
     return res.json({ metrics: metricProvidersRegistry.listMetrics() });
   });
 
+  router.get('/metrics/export', async (req, res) => {
+    const { conditions } = await authorizeConditional(
+      req,
+      scorecardMetricReadPermission,
+    );
+
+    const { metricIds, format, kind, owner, range } =
+      validateMetricExportSchema(req.query);
+
+    const authorizedMetrics = filterAuthorizedMetrics(
+      metricProvidersRegistry.listMetrics(
+        metricIds ? parseCommaSeparatedString(metricIds) : undefined,
+      ),
+      conditions,
+    );
+
+    if (authorizedMetrics.length === 0) {
+      throw new NotAllowedError(
+        `To view the scorecard metrics, your administrator must grant you the required permission.`,
+      );
+    }
+
+    // Entities are queried with the caller credentials, so only entities the caller can read are exported
+    const credentials = await httpAuth.credentials(req);
+
+    const filter = {
+      ...(kind ? { kind: parseCommaSeparatedString(kind) } : {}),
+      ...(owner
+        ? {
+            [`relations.${RELATION_OWNED_BY}`]:
+              parseCommaSeparatedString(owner),
+          }
+        : {}),
+    };
+
+    const formatter = createMetricExportFormatter(format);
+
+    res.setHeader('Content-Type', formatter.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="scorecard-metrics.${format}"`,
+    );
+    res.write(formatter.start());
+
+    try {
+      for await (const rows of catalogMetricService.exportMetricValues({
+        metricIds: authorizedMetrics.map(metric => metric.id),
+        credentials,
+        filter: Object.keys(filter).length !== 0 ? filter : undefined,
+        range,
+      })) {
+        res.write(rows.map(row => formatter.formatRow(row)).join(''));
+      }
+    } catch (error) {
+      // The headers and part of the body are already sent, so the error can no longer become an error response
+      logger.error(`Failed to export the scorecard metric values: ${error}`);
+      res.end();
+      return;
+    }
+
+    res.end(formatter.end());
+  });
+
   router.get('/metrics/catalog/:kind/:namespace/:name', async (req, res) => {
     const { conditions } = await authorizeConditional(
       req,
@@ -148,6 +231,62 @@ export async function createRouter({
     res.json(results);
   });
 
+  router.post(
+    '/metrics/catalog/:kind/:namespace/:name/refresh',
+    async (req, res) => {
+      const { conditions: refreshConditions } = await authorizeConditional(
+        req,
+        scorecardMetricRefreshPermission,
+      );
+      const { conditions: readConditions } = await authorizeConditional(
+        req,
+        scorecardMetricReadPermission,
+      );
+
+      const { kind, namespace, name } = req.params;
+
+      const entityRef = stringifyEntityRef({ kind, namespace, name });
+
+      // Check if user has permission to read this specific catalog entity
+      await checkEntityAccess(entityRef, req, permissions, httpAuth);
+
+      const retryAfterSeconds = refreshRateLimiter.tryAcquire(entityRef);
+      if (retryAfterSeconds !== undefined) {
+        res.setHeader('Retry-After', String(retryAfterSeconds));
+        res.status(429).json({
+          error: {
+            name: 'TooManyRequestsError',
+            message: `Metrics of "${entityRef}" entity were refreshed recently, try again in ${retryAfterSeconds} seconds`,
+          },
+        });
+        return;
+      }
+
+      let refreshedMetricIds: string[];
+      try {
+        refreshedMetricIds = await metricRefreshService.refreshEntityMetrics(
+          entityRef,
+          refreshConditions,
+        );
+      } catch (error) {
+        refreshRateLimiter.release(entityRef);
+        throw error;
+      }
+
+      if (refreshedMetricIds.length === 0) {
+        res.json([]);
+        return;
+      }
+
+      const results = await catalogMetricService.getLatestEntityMetrics(
+        entityRef,
+        refreshedMetricIds,
+        readConditions,
+      );
+      res.json(results);
+    },
+  );
+
   router.get('/metrics/:metricId/catalog/aggregations', async (req, res) => {
     const { metricId } = req.params;
 
@@ -192,5 +331,88 @@ export async function createRouter({
     );
   });
 
+  router.get(
+    '/metrics/:metricId/catalog/aggregations/groups',
+    async (req, res) => {
+      const { metricId } = req.params;
+
+      const { conditions } = await authorizeConditional(
+        req,
+        scorecardMetricReadPermission,
+      );
+
+      const provider = metricProvidersRegistry.getProvider(metricId);
+      const metric = provider.getMetric();
+      const authorizedMetrics = filterAuthorizedMetrics([metric], conditions);
+
+      if (authorizedMetrics.length === 0) {
+        throw new NotAllowedError(
+          `To view the scorecard metrics, your administrator must grant you the required permission.`,
+        );
+      }
+
+      const { groupBy, key } = validateAggregationGroupsSchema(req.query);
+
+      const credentials = await httpAuth.credentials(req, { allow: ['user'] });
+
+      // Entities are queried with user credentials, so only entities the user can read are aggregated
+      const entityRefsByGroup = await getEntityRefsByGroup(groupBy, key, {
+        catalog,
+        credentials,
+        filter: provider.getCatalogFilter(),
+      });
+
+      const aggregatedMetricGroups =
+        await catalogMetricService.getAggregatedMetricGroups(
+          entityRefsByGroup,
+          metricId,
+        );
+
+      res.json(
+        AggregatedMetricMapper.toAggregatedMetricGroupsResult(
+          metric,
+          { groupBy, key },
+          aggregatedMetricGroups,
+        ),
+      );
+    },
+  );
+
+  router.get(
+    '/metrics/:metricId/catalog/:kind/:namespace/:name/history',
+    async (req, res) => {
+      const { metricId, kind, namespace, name } = req.params;
+
+      const { conditions } = await authorizeConditional(
+        req,
+        scorecardMetricReadPermission,
+      );
+
+      const metric = metricProvidersRegistry.getMetric(metricId);
+      const authorizedMetrics = filterAuthorizedMetrics([metric], conditions);
+
+      if (authorizedMetrics.length === 0) {
+        throw new NotAllowedError(
+          `To view the scorecard metrics, your administrator must grant you the required permission.`,
+        );
+      }
+
+      const { from, to, bucket } = validateMetricHistorySchema(req.query);
+
+      const entityRef = stringifyEntityRef({ kind, namespace, name });
+
+      // Check if user has permission to read this specific catalog entity
+      await checkEntityAccess(entityRef, req, permissions, httpAuth);
+
+      const history = await catalogMetricService.getEntityMetricHistory(
+        entityRef,
+        metricId,
+        { from, to, bucket },
+      );
+
+      res.json(history);
+    },
+  );
+
   return router;
 }
@@ -212,7 +212,7 @@ describe('ThresholdEvaluator', () => {
         ),
       ).toThrow(
         new ThresholdConfigFormatError(
-          `Range expressions are only supported for number metrics, got: "boolean" metric for expression "10-20"`,
+          `Range expressions are only supported for number and percentage metrics, got: "boolean" metric for expression "10-20"`,
         ),
       );
     });
@@ -268,4 +268,84 @@ describe('ThresholdEvaluator', () => {
       },
     );
   });
+
+  describe('getFirstMatchingThreshold - percentage metrics', () => {
+    const percentageThresholds: ThresholdConfig = {
+      rules: [
+        { key: 'success', expression: '>=80%' },
+        { key: 'warning', expression: '50-80' },
+        { key: 'error', expression: '<50' },
+      ],
+    };
+
+    it.each([
+      { value: 100, expectedEvaluation: 'success' },
+      { value: 80, expectedEvaluation: 'success' },
+      { value: 65.5, expectedEvaluation: 'warning' },
+      { value: 12, expectedEvaluation: 'error' },
+    ])(
+      'should return $expectedEvaluation threshold for $value%',
+      ({ value, expectedEvaluation }) => {
+        expect(
+          evaluator.getFirstMatchingThreshold(
+            value,
+            'percentage',
+            percentageThresholds,
+          ),
+        ).toBe(expectedEvaluation);
+      },
+    );
+  });
+
+  describe('getFirstMatchingThreshold - string metrics', () => {
+    const stringThresholds: ThresholdConfig = {
+      rules: [
+        { key: 'success', expression: 'in(gold,silver)' },
+        { key: 'warning', expression: '==bronze' },
+        { key: 'error', expression: 'matches(^(none|unknown)$)' },
+      ],
+    };
+
+    it.each([
+      { value: 'gold', expectedEvaluation: 'success' },
+      { value: 'silver', expectedEvaluation: 'success' },
+      { value: 'bronze', expectedEvaluation: 'warning' },
+      { value: 'unknown', expectedEvaluation: 'error' },
+      { value: 'platinum', expectedEvaluation: undefined },
+    ])(
+      'should return $expectedEvaluation threshold for $value value',
+      ({ value, expectedEvaluation }) => {
+        expect(
+          evaluator.getFirstMatchingThreshold(
+            value,
+            'string',
+            stringThresholds,
+          ),
+        ).toBe(expectedEvaluation);
+      },
+    );
+
+    it('should handle != operator for string', () => {
+      const thresholds: ThresholdConfig = {
+        rules: [{ key: 'success', expression: '!=bronze' }],
+      };
+
+      expect(
+        evaluator.getFirstMatchingThreshold('gold', 'string', thresholds),
+      ).toBe('success');
+      expect(
+        evaluator.getFirstMatchingThreshold('bronze', 'string', thresholds),
+      ).toBeUndefined();
+    });
+
+    it('should throw error for string expression with non-string value', () => {
+      expect(() =>
+        evaluator.getFirstMatchingThreshold(42, 'string', stringThresholds),
+      ).toThrow(
+        new ThresholdConfigFormatError(
+          `"in" expressions are only supported for string metrics, got: "42" value for expression "in(gold,silver)"`,
+        ),
+      );
+    });
+  });
 });
@@ -38,13 +38,15 @@ export class ThresholdEvaluator {
     '-': (a: number, [min, max]: [number, number]) => {
       return a >= min && a <= max;
     },
+    in: (a: string, values: string[]) => values.includes(a),
+    matches: (a: string, pattern: RegExp) => pattern.test(a),
   } as const;
 
   /**
    * Evaluate a metric value against a threshold expression
    * @param metricValue - The value to evaluate
    * @param metricType - The type of metric
-   * @param expression - The threshold expression (e.g., ">40", "==true")
+   * @param expression - The threshold expression (e.g., ">40", "==true", "in(gold,silver)")
    * @returns true if the metric value matches the threshold expression
    */
   private evaluateThreshold(
@@ -57,12 +59,23 @@ export class ThresholdEvaluator {
     if (result.operator === '-') {
       if (typeof metricValue !== 'number') {
         throw new ThresholdConfigFormatError(
-          `Range expressions are only supported for number metrics, got: "${metricValue}" value for expression "${expression}"`,
+          `Range expressions are only supported for number and percentage metrics, got: "${metricValue}" value for expression "${expression}"`,
         );
       }
       return this.operations['-'](metricValue, result.values);
     }
 
+    if (result.operator === 'in' || result.operator === 'matches') {
+      if (typeof metricValue !== 'string') {
+        throw new ThresholdConfigFormatError(
+          `"${result.operator}" expressions are only supported for string metrics, got: "${metricValue}" value for expression "${expression}"`,
+        );
+      }
+      return result.operator === 'in'
+        ? this.operations.in(metricValue, result.values)
+        : this.operations.matches(metricValue, result.pattern);
+    }
+
     const operatorFn = this.operations[result.operator];
     return operatorFn(metricValue, result.value);
   }
@@ -0,0 +1,116 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { bucketMetricHistory, getBucketStart } from './bucketMetricHistory';
+import { DbMetricValue } from '../database/types';
+
+const buildMetricValue = (
+  timestamp: string,
+  value: number | null,
+  status: DbMetricValue['status'] = 'success',
+): DbMetricValue => ({
+  id: 1,
+  catalog_entity_ref: 'component:default/test-component',
+  metric_id: 'github.open_prs',
+  value,
+  timestamp: new Date(timestamp),
+  error_message: value === null ? 'Failed to fetch metric' : null,
+  status: value === null ? null : status,
+});
+
+describe('getBucketStart', () => {
+  it('should return start of the day for daily bucket', () => {
+    expect(
+      getBucketStart(new Date('2025-01-15T13:45:12.000Z'), 'daily'),
+    ).toEqual(new Date('2025-01-15T00:00:00.000Z'));
+  });
+
+  it('should return monday of the week for weekly bucket', () => {
+    // 2025-01-15 is a Wednesday
+    expect(
+      getBucketStart(new Date('2025-01-15T13:45:12.000Z'), 'weekly'),
+    ).toEqual(new Date('2025-01-13T00:00:00.000Z'));
+  });
+
+  it('should return previous monday for sunday in weekly bucket', () => {
+    expect(
+      getBucketStart(new Date('2025-01-19T23:59:59.000Z'), 'weekly'),
+    ).toEqual(new Date('2025-01-13T00:00:00.000Z'));
+  });
+});
+
+describe('bucketMetricHistory', () => {
+  it('should return empty array when there are no metric values', () => {
+    expect(bucketMetricHistory([], 'daily')).toEqual([]);
+  });
+
+  it('should keep the latest value of each daily bucket', () => {
+    const result = bucketMetricHistory(
+      [
+        buildMetricValue('2025-01-15T01:00:00.000Z', 10),
+        buildMetricValue('2025-01-15T12:00:00.000Z', 12, 'warning'),
+        buildMetricValue('2025-01-16T12:00:00.000Z', 8),
+      ],
+      'daily',
+    );
+
+    expect(result).toEqual([
+      { timestamp: '2025-01-15T00:00:00.000Z', value: 12, status: 'warning' },
+      { timestamp: '2025-01-16T00:00:00.000Z', value: 8, status: 'success' },
+    ]);
+  });
+
+  it('should keep the latest value of each weekly bucket', () => {
+    const result = bucketMetricHistory(
+      [
+        buildMetricValue('2025-01-13T01:00:00.000Z', 10),
+        buildMetricValue('2025-01-19T12:00:00.000Z', 60, 'error'),
+        buildMetricValue('2025-01-20T12:00:00.000Z', 8),
+      ],
+      'weekly',
+    );
+
+    expect(result).toEqual([
+      { timestamp: '2025-01-13T00:00:00.000Z', value: 60, status: 'error' },
+      { timestamp: '2025-01-20T00:00:00.000Z', value: 8, status: 'success' },
+    ]);
+  });
+
+  it('should prefer successfully calculated values over failed ones', () => {
+    const result = bucketMetricHistory(
+      [
+        buildMetricValue('2025-01-15T01:00:00.000Z', 10),
+        buildMetricValue('2025-01-15T12:00:00.000Z', null),
+      ],
+      'daily',
+    );
+
+    expect(result).toEqual([
+      { timestamp: '2025-01-15T00:00:00.000Z', value: 10, status: 'success' },
+    ]);
+  });
+
+  it('should return null value when all calculations in bucket failed', () => {
+    const result = bucketMetricHistory(
+      [buildMetricValue('2025-01-15T01:00:00.000Z', null)],
+      'daily',
+    );
+
+    expect(result).toEqual([
+      { timestamp: '2025-01-15T00:00:00.000Z', value: null, status: null },
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  MetricHistoryBucket,
+  MetricHistoryValue,
+} from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
+import { DbMetricValue } from '../database/types';
+
+/**
+ * Get the start of the bucket (UTC) the given timestamp belongs to.
+ * Weekly buckets start on Monday.
+ *
+ * @param timestamp - The timestamp to get the bucket start for
+ * @param bucket - The bucket granularity
+ * @returns The start of the bucket
+ */
+export function getBucketStart(
+  timestamp: Date,
+  bucket: MetricHistoryBucket,
+): Date {
+  const start = new Date(
+    Date.UTC(
+      timestamp.getUTCFullYear(),
+      timestamp.getUTCMonth(),
+      timestamp.getUTCDate(),
+    ),
+  );
+
+  if (bucket === 'weekly') {
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  }
+
+  return start;
+}
+
+/**
+ * Group metric values into buckets, keeping the latest value of each bucket.
+ * Successfully calculated values take precedence over failed calculations.
+ *
+ * @param metricValues - Metric values ordered from oldest to newest
+ * @param bucket - The bucket granularity
+ * @returns One history value per non-empty bucket, ordered from oldest to newest
+ */
+export function bucketMetricHistory(
+  metricValues: DbMetricValue[],
+  bucket: MetricHistoryBucket,
+): MetricHistoryValue[] {
+  const buckets = new Map<string, DbMetricValue>();
+
+  for (const metricValue of metricValues) {
+    const key = getBucketStart(
+      new Date(metricValue.timestamp),
+      bucket,
+    ).toISOString();
+    const current = buckets.get(key);
+
+    if (!current || metricValue.value !== null || current.value === null) {
+      buckets.set(key, metricValue);
+    }
+  }
+
+  return Array.from(buckets.entries()).map(([timestamp, metricValue]) => ({
+    timestamp,
+    value: metricValue.value,
+    status: metricValue.value === null ? null : metricValue.status,
+  }));
+}
@@ -0,0 +1,89 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { calculateEntityMetricValue } from './calculateEntityMetricValue';
+import { ThresholdEvaluator } from '../threshold/ThresholdEvaluator';
+import { MockNumberProvider } from '../../__fixtures__/mockProviders';
+import { MockEntityBuilder } from '../../__fixtures__/mockEntityBuilder';
+
+describe('calculateEntityMetricValue', () => {
+  const entity = new MockEntityBuilder().build();
+  const thresholdEvaluator = new ThresholdEvaluator();
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-15T12:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should return the calculated value with its threshold status', async () => {
+    const provider = new MockNumberProvider(
+      'github.open_prs',
+      'github',
+      'GitHub Open PRs',
+      'Open PRs',
+      10,
+    );
+
+    await expect(
+      calculateEntityMetricValue(entity, provider, thresholdEvaluator),
+    ).resolves.toEqual({
+      catalog_entity_ref: 'component:default/default-component',
+      metric_id: 'github.open_prs',
+      value: 10,
+      timestamp: new Date('2024-01-15T12:00:00.000Z'),
+      status: 'success',
+    });
+  });
+
+  it('should return the error message when calculation fails', async () => {
+    const provider = new MockNumberProvider('github.open_prs', 'github');
+    jest
+      .spyOn(provider, 'calculateMetric')
+      .mockRejectedValue(new Error('API rate limit exceeded'));
+
+    await expect(
+      calculateEntityMetricValue(entity, provider, thresholdEvaluator),
+    ).resolves.toEqual({
+      catalog_entity_ref: 'component:default/default-component',
+      metric_id: 'github.open_prs',
+      value: undefined,
+      timestamp: new Date('2024-01-15T12:00:00.000Z'),
+      error_message: 'API rate limit exceeded',
+    });
+  });
+
+  it('should return the error message when the value does not match the metric type', async () => {
+    const provider = new MockNumberProvider('github.open_prs', 'github');
+    jest
+      .spyOn(provider, 'calculateMetric')
+      .mockResolvedValue('many' as unknown as number);
+
+    await expect(
+      calculateEntityMetricValue(entity, provider, thresholdEvaluator),
+    ).resolves.toEqual({
+      catalog_entity_ref: 'component:default/default-component',
+      metric_id: 'github.open_prs',
+      value: undefined,
+      timestamp: new Date('2024-01-15T12:00:00.000Z'),
+      error_message:
+        'Invalid value "many" for number metric, expected a number',
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Entity } from '@backstage/catalog-model';
+import { stringifyEntityRef } from '@backstage/catalog-model';
+import { MetricValue } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
+import { MetricProvider } from '@red-hat-developer-hub/backstage-plugin-scorecard-node';
+import { DbMetricValueCreate } from '../database/types';
+import { ThresholdEvaluator } from '../threshold/ThresholdEvaluator';
+import { mergeEntityAndProviderThresholds } from './mergeEntityAndProviderThresholds';
+import { validateMetricValue } from './validateMetricValue';
+
+/**
+ * Calculates the metric of a provider for a single entity and evaluates its thresholds.
+ * Calculation and threshold errors are returned as the error message of the metric value.
+ */
+export const calculateEntityMetricValue = async (
+  entity: Entity,
+  provider: MetricProvider,
+  thresholdEvaluator: ThresholdEvaluator,
+): Promise<DbMetricValueCreate> => {
+  const metricType = provider.getMetricType();
+  let value: MetricValue | undefined;
+
+  try {
+    const calculatedValue = await provider.calculateMetric(entity);
+    validateMetricValue(calculatedValue, metricType);
+    value = calculatedValue;
+
+    const thresholds = mergeEntityAndProviderThresholds(entity, provider);
+
+    const status = thresholdEvaluator.getFirstMatchingThreshold(
+      value,
+      metricType,
+      thresholds,
+    );
+
+    return {
+      catalog_entity_ref: stringifyEntityRef(entity),
+      metric_id: provider.getProviderId(),
+      value,
+      timestamp: new Date(),
+      status,
+    } as DbMetricValueCreate;
+  } catch (error) {
+    return {
+      catalog_entity_ref: stringifyEntityRef(entity),
+      metric_id: provider.getProviderId(),
+      value,
+      timestamp: new Date(),
+      error_message: error instanceof Error ? error.message : String(error),
+    } as DbMetricValueCreate;
+  }
+};
@@ -0,0 +1,96 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  createMetricExportFormatter,
+  escapeCsvField,
+} from './createMetricExportFormatter';
+import { MetricValueExportRow } from '../service/CatalogMetricService';
+
+const rows: MetricValueExportRow[] = [
+  {
+    entityRef: 'component:default/service-a',
+    metricId: 'github.open_prs',
+    value: 5,
+    status: 'success',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    errorMessage: null,
+  },
+  {
+    entityRef: 'component:default/service-b',
+    metricId: 'github.open_prs',
+    value: null,
+    status: null,
+    timestamp: '2025-01-01T00:00:00.000Z',
+    errorMessage: 'Failed to fetch, "rate limited"',
+  },
+];
+
+const formatRows = (format: 'csv' | 'json', exportRows: typeof rows) => {
+  const formatter = createMetricExportFormatter(format);
+  return [
+    formatter.start(),
+    ...exportRows.map(row => formatter.formatRow(row)),
+    formatter.end(),
+  ].join('');
+};
+
+describe('escapeCsvField', () => {
+  it.each([
+    [null, ''],
+    [42, '42'],
+    [true, 'true'],
+    ['plain', 'plain'],
+    ['with,comma', '"with,comma"'],
+    ['with "quotes"', '"with ""quotes"""'],
+    ['with\nline break', '"with\nline break"'],
+    [-3, '-3'],
+    ['=HYPERLINK("http://evil")', '"\'=HYPERLINK(""http://evil"")"'],
+    ['+1', "'+1"],
+    ['-1', "'-1"],
+    ['@SUM(A1)', "'@SUM(A1)"],
+    ['\tcmd', "'\tcmd"],
+  ])('should escape %p', (value, expected) => {
+    expect(escapeCsvField(value)).toBe(expected);
+  });
+});
+
+describe('createMetricExportFormatter', () => {
+  it('should format rows as csv', () => {
+    const formatter = createMetricExportFormatter('csv');
+
+    expect(formatter.contentType).toBe('text/csv; charset=utf-8');
+    expect(formatRows('csv', rows)).toBe(
+      [
+        'entityRef,metricId,value,status,timestamp,errorMessage',
+        'component:default/service-a,github.open_prs,5,success,2025-01-01T00:00:00.000Z,',
+        'component:default/service-b,github.open_prs,,,2025-01-01T00:00:00.000Z,"Failed to fetch, ""rate limited"""',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should format rows as a json array', () => {
+    const formatter = createMetricExportFormatter('json');
+
+    expect(formatter.contentType).toBe('application/json; charset=utf-8');
+    expect(JSON.parse(formatRows('json', rows))).toEqual(rows);
+  });
+
+  it('should format an empty json array', () => {
+    expect(formatRows('json', [])).toBe('[]');
+  });
+});
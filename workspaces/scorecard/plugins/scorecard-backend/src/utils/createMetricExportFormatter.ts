@@ -0,0 +1,88 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { MetricExportFormat } from '../validation/validateMetricExportSchema';
+import type { MetricValueExportRow } from '../service/CatalogMetricService';
+
+const CSV_COLUMNS: (keyof MetricValueExportRow)[] = [
+  'entityRef',
+  'metricId',
+  'value',
+  'status',
+  'timestamp',
+  'errorMessage',
+];
+
+export type MetricExportFormatter = {
+  contentType: string;
+  start: () => string;
+  formatRow: (row: MetricValueExportRow) => string;
+  end: () => string;
+};
+
+/**
+ * Escape a CSV field, fields containing separators, quotes or line breaks are quoted
+ * and text fields that a spreadsheet would evaluate as a formula are prefixed with a quote
+ */
+export function escapeCsvField(
+  value: string | number | boolean | null,
+): string {
+  if (value === null) {
+    return '';
+  }
+
+  const field =
+    typeof value === 'string' && /^[=+\-@\t\r]/.test(value)
+      ? `'${value}`
+      : String(value);
+  if (/[",\r\n]/.test(field)) {
+    return `"${field.replace(/"/g, '""')}"`;
+  }
+  return field;
+}
+
+/**
+ * Create a formatter that writes exported metric values row by row,
+ * so the export can be streamed without keeping all rows in memory.
+ *
+ * @param format - Format of the export
+ */
+export function createMetricExportFormatter(
+  format: MetricExportFormat,
+): MetricExportFormatter {
+  if (format === 'json') {
+    let isFirstRow = true;
+
+    return {
+      contentType: 'application/json; charset=utf-8',
+      start: () => '[',
+      formatRow: row => {
+        const separator = isFirstRow ? '' : ',';
+        isFirstRow = false;
+        return `${separator}\n${JSON.stringify(row)}`;
+      },
+      end: () => (isFirstRow ? ']' : '\n]'),
+    };
+  }
+
+  return {
+    contentType: 'text/csv; charset=utf-8',
+    start: () => `${CSV_COLUMNS.join(',')}\n`,
+    formatRow: row =>
+      `${CSV_COLUMNS.map(column => escapeCsvField(row[column])).join(',')}\n`,
+    end: () => '',
+  };
+}
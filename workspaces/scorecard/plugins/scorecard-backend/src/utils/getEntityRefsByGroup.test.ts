@@ -0,0 +1,198 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { catalogServiceMock } from '@backstage/plugin-catalog-node/testUtils';
+import type { BackstageCredentials } from '@backstage/backend-plugin-api';
+import { CATALOG_FILTER_EXISTS } from '@backstage/catalog-client';
+import { RELATION_OWNED_BY, RELATION_PART_OF } from '@backstage/catalog-model';
+import { getEntityRefsByGroup } from './getEntityRefsByGroup';
+import { MockEntityBuilder } from '../../__fixtures__/mockEntityBuilder';
+
+const filter = { 'metadata.annotations.mock/key': CATALOG_FILTER_EXISTS };
+
+const paymentsComponent = new MockEntityBuilder()
+  .withMetadata({
+    name: 'payments',
+    namespace: 'default',
+    labels: { tier: 'gold' },
+    annotations: { 'example.com/cost-center': '1234' },
+  })
+  .withRelations([
+    { type: RELATION_OWNED_BY, targetRef: 'group:default/team-a' },
+    { type: RELATION_PART_OF, targetRef: 'system:default/billing' },
+  ])
+  .build();
+
+const checkoutComponent = new MockEntityBuilder()
+  .withMetadata({
+    name: 'checkout',
+    namespace: 'default',
+    labels: { tier: 'gold' },
+  })
+  .withRelations([
+    { type: RELATION_OWNED_BY, targetRef: 'group:default/team-a' },
+    { type: RELATION_PART_OF, targetRef: 'component:default/payments' },
+  ])
+  .build();
+
+const orphanComponent = new MockEntityBuilder()
+  .withMetadata({ name: 'orphan', namespace: 'default' })
+  .build();
+
+const billingSystem = new MockEntityBuilder()
+  .withKind('System')
+  .withMetadata({ name: 'billing', namespace: 'default' })
+  .withRelations([
+    { type: RELATION_PART_OF, targetRef: 'domain:default/finance' },
+  ])
+  .build();
+
+describe('getEntityRefsByGroup', () => {
+  let mockedCatalog: ReturnType<typeof catalogServiceMock.mock>;
+  let mockCredentials: BackstageCredentials;
+
+  beforeEach(() => {
+    mockedCatalog = catalogServiceMock.mock();
+    mockCredentials = {} as BackstageCredentials;
+
+    mockedCatalog.queryEntities.mockResolvedValue({
+      items: [paymentsComponent, checkoutComponent, orphanComponent],
+      pageInfo: { nextCursor: undefined },
+      totalItems: 3,
+    });
+    mockedCatalog.getEntitiesByRefs.mockResolvedValue({
+      items: [billingSystem],
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const getGroups = (
+    groupBy: Parameters<typeof getEntityRefsByGroup>[0],
+    key?: string,
+  ) =>
+    getEntityRefsByGroup(groupBy, key, {
+      catalog: mockedCatalog,
+      credentials: mockCredentials,
+      filter,
+    });
+
+  it('should query entities matching the filter with given credentials', async () => {
+    await getGroups('owner');
+
+    expect(mockedCatalog.queryEntities).toHaveBeenCalledWith(
+      {
+        filter,
+        fields: ['kind', 'metadata', 'relations'],
+        limit: 50,
+      },
+      { credentials: mockCredentials },
+    );
+  });
+
+  it('should query all pages of entities', async () => {
+    mockedCatalog.queryEntities
+      .mockResolvedValueOnce({
+        items: [paymentsComponent],
+        pageInfo: { nextCursor: 'next' },
+        totalItems: 2,
+      })
+      .mockResolvedValueOnce({
+        items: [orphanComponent],
+        pageInfo: { nextCursor: undefined },
+        totalItems: 2,
+      });
+
+    const result = await getGroups('owner');
+
+    expect(mockedCatalog.queryEntities).toHaveBeenCalledTimes(2);
+    expect(mockedCatalog.queryEntities).toHaveBeenLastCalledWith(
+      expect.objectContaining({ cursor: 'next' }),
+      { credentials: mockCredentials },
+    );
+    expect(result).toEqual(
+      new Map([
+        ['group:default/team-a', ['component:default/payments']],
+        [null, ['component:default/orphan']],
+      ]),
+    );
+  });
+
+  it('should group entities by owner', async () => {
+    expect(await getGroups('owner')).toEqual(
+      new Map([
+        [
+          'group:default/team-a',
+          ['component:default/payments', 'component:default/checkout'],
+        ],
+        [null, ['component:default/orphan']],
+      ]),
+    );
+  });
+
+  it('should group entities by system', async () => {
+    expect(await getGroups('system')).toEqual(
+      new Map([
+        ['system:default/billing', ['component:default/payments']],
+        [null, ['component:default/checkout', 'component:default/orphan']],
+      ]),
+    );
+  });
+
+  it('should group entities by domain of their system', async () => {
+    const result = await getGroups('domain');
+
+    expect(mockedCatalog.getEntitiesByRefs).toHaveBeenCalledWith(
+      {
+        entityRefs: ['system:default/billing'],
+        fields: ['kind', 'metadata.name', 'metadata.namespace', 'relations'],
+      },
+      { credentials: mockCredentials },
+    );
+    expect(result).toEqual(
+      new Map([
+        ['domain:default/finance', ['component:default/payments']],
+        [null, ['component:default/checkout', 'component:default/orphan']],
+      ]),
+    );
+  });
+
+  it('should not resolve systems when not grouping by domain', async () => {
+    await getGroups('owner');
+
+    expect(mockedCatalog.getEntitiesByRefs).not.toHaveBeenCalled();
+  });
+
+  it('should group entities by label', async () => {
+    expect(await getGroups('label', 'tier')).toEqual(
+      new Map([
+        ['gold', ['component:default/payments', 'component:default/checkout']],
+        [null, ['component:default/orphan']],
+      ]),
+    );
+  });
+
+  it('should group entities by annotation', async () => {
+    expect(await getGroups('annotation', 'example.com/cost-center')).toEqual(
+      new Map([
+        ['1234', ['component:default/payments']],
+        [null, ['component:default/checkout', 'component:default/orphan']],
+      ]),
+    );
+  });
+});
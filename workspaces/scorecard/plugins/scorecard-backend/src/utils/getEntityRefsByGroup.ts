@@ -0,0 +1,168 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { BackstageCredentials } from '@backstage/backend-plugin-api';
+import { CatalogService } from '@backstage/plugin-catalog-node';
+import {
+  Entity,
+  parseEntityRef,
+  RELATION_OWNED_BY,
+  RELATION_PART_OF,
+  stringifyEntityRef,
+} from '@backstage/catalog-model';
+import { AggregatedMetricGroupBy } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
+
+const QUERY_ENTITIES_BATCH_SIZE = 50;
+
+function getRelationTargetRef(
+  entity: Entity,
+  relationType: string,
+  targetKind?: string,
+): string | undefined {
+  return entity.relations?.find(
+    relation =>
+      relation.type === relationType &&
+      (!targetKind ||
+        parseEntityRef(relation.targetRef).kind.toLocaleLowerCase('en-US') ===
+          targetKind),
+  )?.targetRef;
+}
+
+/**
+ * Resolve domains of systems the entities are part of, entities can only be part of a domain through their system
+ */
+async function getDomainsOfSystems(
+  systemRefs: string[],
+  options: {
+    catalog: CatalogService;
+    credentials: BackstageCredentials;
+  },
+): Promise<Map<string, string | undefined>> {
+  const domainsOfSystems = new Map<string, string | undefined>();
+
+  if (systemRefs.length === 0) {
+    return domainsOfSystems;
+  }
+
+  const { items } = await options.catalog.getEntitiesByRefs(
+    {
+      entityRefs: systemRefs,
+      fields: ['kind', 'metadata.name', 'metadata.namespace', 'relations'],
+    },
+    { credentials: options.credentials },
+  );
+
+  items.forEach((system, index) => {
+    domainsOfSystems.set(
+      systemRefs[index],
+      system
+        ? getRelationTargetRef(system, RELATION_PART_OF, 'domain')
+        : undefined,
+    );
+  });
+
+  return domainsOfSystems;
+}
+
+/**
+ * Get references of the entities matching the catalog filter grouped by owner, system, domain, label or annotation.
+ * Entities the credentials are not allowed to read are left out, entities without a group are grouped under `null`.
+ *
+ * @param groupBy - Entity property to group the entities by
+ * @param key - Label or annotation key, required when grouping by label or annotation
+ */
+export async function getEntityRefsByGroup(
+  groupBy: AggregatedMetricGroupBy,
+  key: string | undefined,
+  options: {
+    catalog: CatalogService;
+    credentials: BackstageCredentials;
+    filter: Record<string, string | symbol | (string | symbol)[]>;
+  },
+): Promise<Map<string | null, string[]>> {
+  const entities: Entity[] = [];
+  let cursor: string | undefined = undefined;
+
+  do {
+    const response = await options.catalog.queryEntities(
+      {
+        filter: options.filter,
+        fields: ['kind', 'metadata', 'relations'],
+        limit: QUERY_ENTITIES_BATCH_SIZE,
+        ...(cursor ? { cursor } : {}),
+      },
+      { credentials: options.credentials },
+    );
+
+    cursor = response.pageInfo.nextCursor;
+    entities.push(...response.items);
+  } while (cursor !== undefined);
+
+  const domainsOfSystems =
+    groupBy === 'domain'
+      ? await getDomainsOfSystems(
+          [
+            ...new Set(
+              entities
+                .map(entity =>
+                  getRelationTargetRef(entity, RELATION_PART_OF, 'system'),
+                )
+                .filter((systemRef): systemRef is string => !!systemRef),
+            ),
+          ],
+          options,
+        )
+      : undefined;
+
+  const getGroup = (entity: Entity): string | undefined => {
+    switch (groupBy) {
+      case 'owner':
+        return getRelationTargetRef(entity, RELATION_OWNED_BY);
+      case 'system':
+        return getRelationTargetRef(entity, RELATION_PART_OF, 'system');
+      case 'domain': {
+        const domainRef = getRelationTargetRef(
+          entity,
+          RELATION_PART_OF,
+          'domain',
+        );
+        const systemRef = getRelationTargetRef(
+          entity,
+          RELATION_PART_OF,
+          'system',
+        );
+        return domainRef ?? (systemRef && domainsOfSystems?.get(systemRef));
+      }
+      case 'label':
+        return key ? entity.metadata.labels?.[key] : undefined;
+      case 'annotation':
+        return key ? entity.metadata.annotations?.[key] : undefined;
+      default:
+        return undefined;
+    }
+  };
+
+  const entityRefsByGroup = new Map<string | null, string[]>();
+
+  for (const entity of entities) {
+    const group = getGroup(entity) ?? null;
+    const entityRefs = entityRefsByGroup.get(group) ?? [];
+    entityRefs.push(stringifyEntityRef(entity));
+    entityRefsByGroup.set(group, entityRefs);
+  }
+
+  return entityRefsByGroup;
+}
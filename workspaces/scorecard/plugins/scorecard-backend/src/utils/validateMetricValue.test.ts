@@ -0,0 +1,72 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { validateMetricValue } from './validateMetricValue';
+
+describe('validateMetricValue', () => {
+  it.each([
+    { value: 42, metricType: 'number' as const },
+    { value: true, metricType: 'boolean' as const },
+    { value: 'gold', metricType: 'string' as const },
+    { value: 0, metricType: 'percentage' as const },
+    { value: 87.5, metricType: 'percentage' as const },
+    { value: 100, metricType: 'percentage' as const },
+  ])('should accept $value for $metricType metric', ({ value, metricType }) => {
+    expect(() => validateMetricValue(value, metricType)).not.toThrow();
+  });
+
+  it.each([
+    {
+      value: '42',
+      metricType: 'number' as const,
+      expectedError: 'Invalid value "42" for number metric, expected a number',
+    },
+    {
+      value: NaN,
+      metricType: 'number' as const,
+      expectedError: 'Invalid value "NaN" for number metric, expected a number',
+    },
+    {
+      value: 1,
+      metricType: 'boolean' as const,
+      expectedError: 'Invalid value "1" for boolean metric, expected a boolean',
+    },
+    {
+      value: 3,
+      metricType: 'string' as const,
+      expectedError: 'Invalid value "3" for string metric, expected a string',
+    },
+    {
+      value: '80%',
+      metricType: 'percentage' as const,
+      expectedError:
+        'Invalid value "80%" for percentage metric, expected a number',
+    },
+    {
+      value: 120,
+      metricType: 'percentage' as const,
+      expectedError:
+        'Invalid value "120" for percentage metric, expected a number between 0 and 100',
+    },
+  ])(
+    'should throw error for $value in $metricType metric',
+    ({ value, metricType, expectedError }) => {
+      expect(() => validateMetricValue(value, metricType)).toThrow(
+        expectedError,
+      );
+    },
+  );
+});
@@ -0,0 +1,52 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  MetricType,
+  MetricValue,
+} from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
+
+/**
+ * Validate that a calculated metric value matches the metric type
+ *
+ * @param value - The value calculated by the metric provider
+ * @param metricType - The type of the metric
+ * @throws Error if the value does not match the metric type
+ */
+export function validateMetricValue(
+  value: unknown,
+  metricType: MetricType,
+): asserts value is MetricValue {
+  const expectedValueType = metricType === 'percentage' ? 'number' : metricType;
+
+  if (
+    typeof value !== expectedValueType ||
+    (typeof value === 'number' && Number.isNaN(value))
+  ) {
+    throw new Error(
+      `Invalid value "${value}" for ${metricType} metric, expected a ${expectedValueType}`,
+    );
+  }
+
+  if (
+    metricType === 'percentage' &&
+    ((value as number) < 0 || (value as number) > 100)
+  ) {
+    throw new Error(
+      `Invalid value "${value}" for percentage metric, expected a number between 0 and 100`,
+    );
+  }
+}
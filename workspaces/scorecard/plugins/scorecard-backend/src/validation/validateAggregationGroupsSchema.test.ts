@@ -0,0 +1,72 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { validateAggregationGroupsSchema } from './validateAggregationGroupsSchema';
+import { InputError } from '@backstage/errors';
+
+describe('validateAggregationGroupsSchema', () => {
+  describe('valid query parameters', () => {
+    it.each(['owner', 'system', 'domain'])(
+      'should parse groupBy %s',
+      groupBy => {
+        expect(validateAggregationGroupsSchema({ groupBy })).toEqual({
+          groupBy,
+        });
+      },
+    );
+
+    it.each(['label', 'annotation'])(
+      'should parse groupBy %s with key',
+      groupBy => {
+        expect(
+          validateAggregationGroupsSchema({ groupBy, key: 'example.com/team' }),
+        ).toEqual({ groupBy, key: 'example.com/team' });
+      },
+    );
+  });
+
+  describe('invalid query parameters', () => {
+    it('should throw InputError when groupBy is missing', () => {
+      expect(() => validateAggregationGroupsSchema({})).toThrow(InputError);
+    });
+
+    it('should throw InputError for unsupported groupBy', () => {
+      expect(() =>
+        validateAggregationGroupsSchema({ groupBy: 'lifecycle' }),
+      ).toThrow('Invalid query parameters');
+    });
+
+    it('should throw InputError when key is missing for label', () => {
+      expect(() =>
+        validateAggregationGroupsSchema({ groupBy: 'label' }),
+      ).toThrow(
+        "'key' is required when grouping by label or annotation and not allowed otherwise",
+      );
+    });
+
+    it('should throw InputError when key is provided for owner', () => {
+      expect(() =>
+        validateAggregationGroupsSchema({ groupBy: 'owner', key: 'team' }),
+      ).toThrow(InputError);
+    });
+
+    it('should throw InputError for empty key', () => {
+      expect(() =>
+        validateAggregationGroupsSchema({ groupBy: 'annotation', key: '' }),
+      ).toThrow(InputError);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { validateMetricExportSchema } from './validateMetricExportSchema';
+import { InputError } from '@backstage/errors';
+
+describe('validateMetricExportSchema', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2025-01-31T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('valid query parameters', () => {
+    it('should default to csv export of latest values', () => {
+      expect(validateMetricExportSchema({})).toEqual({ format: 'csv' });
+    });
+
+    it('should parse filters and format', () => {
+      expect(
+        validateMetricExportSchema({
+          metricIds: 'github.open_prs,jira.open_issues',
+          format: 'json',
+          kind: 'component',
+          owner: 'group:default/team-a',
+        }),
+      ).toEqual({
+        metricIds: 'github.open_prs,jira.open_issues',
+        format: 'json',
+        kind: 'component',
+        owner: 'group:default/team-a',
+      });
+    });
+
+    it('should parse provided time range', () => {
+      expect(
+        validateMetricExportSchema({
+          from: '2024-10-01T00:00:00Z',
+          to: '2024-12-31T00:00:00Z',
+        }).range,
+      ).toEqual({
+        from: new Date('2024-10-01T00:00:00.000Z'),
+        to: new Date('2024-12-31T00:00:00.000Z'),
+      });
+    });
+
+    it('should default to to the current time', () => {
+      expect(
+        validateMetricExportSchema({ from: '2025-01-01T00:00:00Z' }).range,
+      ).toEqual({
+        from: new Date('2025-01-01T00:00:00.000Z'),
+        to: new Date('2025-01-31T00:00:00.000Z'),
+      });
+    });
+  });
+
+  describe('invalid query parameters', () => {
+    it('should throw InputError for unsupported format', () => {
+      expect(() => validateMetricExportSchema({ format: 'xml' })).toThrow(
+        InputError,
+      );
+    });
+
+    it('should throw InputError when to is provided without from', () => {
+      expect(() =>
+        validateMetricExportSchema({ to: '2025-01-01T00:00:00Z' }),
+      ).toThrow("'to' is only allowed together with 'from'");
+    });
+
+    it('should throw InputError when from is not earlier than to', () => {
+      expect(() =>
+        validateMetricExportSchema({
+          from: '2025-01-10T00:00:00Z',
+          to: '2025-01-01T00:00:00Z',
+        }),
+      ).toThrow("'from' must be earlier than 'to'");
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'zod';
+import { InputError } from '@backstage/errors';
+
+export type MetricExportFormat = 'csv' | 'json';
+
+export function validateMetricExportSchema(query: unknown): {
+  metricIds?: string;
+  format: MetricExportFormat;
+  kind?: string;
+  owner?: string;
+  range?: { from: Date; to: Date };
+} {
+  const metricExportSchema = z
+    .object({
+      metricIds: z.string().min(1).optional(),
+      format: z.enum(['csv', 'json']).default('csv'),
+      kind: z.string().min(1).optional(),
+      owner: z.string().min(1).optional(),
+      from: z.string().datetime({ offset: true }).optional(),
+      to: z.string().datetime({ offset: true }).optional(),
+    })
+    .refine(({ from, to }) => from || !to, {
+      message: "'to' is only allowed together with 'from'",
+    })
+    .transform(({ from, to, ...rest }) => ({
+      ...rest,
+      // Latest values are exported when no time range is given
+      ...(from
+        ? {
+            range: {
+              from: new Date(from),
+              to: to ? new Date(to) : new Date(),
+            },
+          }
+        : {}),
+    }))
+    .refine(
+      ({ range }) => !range || range.from.getTime() < range.to.getTime(),
+      { message: "'from' must be earlier than 'to'" },
+    );
+
+  const parsed = metricExportSchema.safeParse(query);
+
+  if (!parsed.success) {
+    throw new InputError(`Invalid query parameters: ${parsed.error.message}`);
+  }
+
+  return parsed.data;
+}
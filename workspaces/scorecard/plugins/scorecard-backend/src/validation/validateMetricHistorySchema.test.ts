@@ -0,0 +1,92 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { validateMetricHistorySchema } from './validateMetricHistorySchema';
+import { InputError } from '@backstage/errors';
+
+describe('validateMetricHistorySchema', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2025-01-31T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('valid query parameters', () => {
+    it('should default to the last 30 days with daily buckets', () => {
+      expect(validateMetricHistorySchema({})).toEqual({
+        from: new Date('2025-01-01T00:00:00.000Z'),
+        to: new Date('2025-01-31T00:00:00.000Z'),
+        bucket: 'daily',
+      });
+    });
+
+    it('should parse provided time range and bucket', () => {
+      expect(
+        validateMetricHistorySchema({
+          from: '2024-10-01T00:00:00Z',
+          to: '2024-12-31T00:00:00Z',
+          bucket: 'weekly',
+        }),
+      ).toEqual({
+        from: new Date('2024-10-01T00:00:00.000Z'),
+        to: new Date('2024-12-31T00:00:00.000Z'),
+        bucket: 'weekly',
+      });
+    });
+
+    it('should default from to 30 days before the provided to', () => {
+      expect(
+        validateMetricHistorySchema({ to: '2024-12-31T00:00:00.000Z' }),
+      ).toEqual({
+        from: new Date('2024-12-01T00:00:00.000Z'),
+        to: new Date('2024-12-31T00:00:00.000Z'),
+        bucket: 'daily',
+      });
+    });
+
+    it('should accept timestamps with offset', () => {
+      expect(
+        validateMetricHistorySchema({ from: '2025-01-10T02:00:00+02:00' }).from,
+      ).toEqual(new Date('2025-01-10T00:00:00.000Z'));
+    });
+  });
+
+  describe('invalid query parameters', () => {
+    it('should throw InputError for unsupported bucket', () => {
+      expect(() => validateMetricHistorySchema({ bucket: 'hourly' })).toThrow(
+        InputError,
+      );
+    });
+
+    it('should throw InputError for invalid date', () => {
+      expect(() => validateMetricHistorySchema({ from: 'yesterday' })).toThrow(
+        'Invalid query parameters',
+      );
+    });
+
+    it('should throw InputError when from is not earlier than to', () => {
+      expect(() =>
+        validateMetricHistorySchema({
+          from: '2025-01-10T00:00:00Z',
+          to: '2025-01-01T00:00:00Z',
+        }),
+      ).toThrow("'from' must be earlier than 'to'");
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'zod';
+import { InputError } from '@backstage/errors';
+import { MetricHistoryBucket } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
+import { daysToMilliseconds } from '../scheduler/tasks/utils';
+
+const DEFAULT_HISTORY_RANGE_DAYS = 30;
+
+export function validateMetricHistorySchema(query: unknown): {
+  from: Date;
+  to: Date;
+  bucket: MetricHistoryBucket;
+} {
+  const metricHistorySchema = z
+    .object({
+      from: z.string().datetime({ offset: true }).optional(),
+      to: z.string().datetime({ offset: true }).optional(),
+      bucket: z.enum(['daily', 'weekly']).default('daily'),
+    })
+    .transform(({ from, to, bucket }) => {
+      const toDate = to ? new Date(to) : new Date();
+      const fromDate = from
+        ? new Date(from)
+        : new Date(
+            toDate.getTime() - daysToMilliseconds(DEFAULT_HISTORY_RANGE_DAYS),
+          );
+
+      return { from: fromDate, to: toDate, bucket };
+    })
+    .superRefine(({ from, to }, ctx) => {
+      // Refinements still run when a datetime failed to parse, so the values may not be Dates
+      if (!(from instanceof Date) || !(to instanceof Date)) {
+        return;
+      }
+      if (from.getTime() >= to.getTime()) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "'from' must be earlier than 'to'",
+        });
+      }
+    });
+
+  const parsed = metricHistorySchema.safeParse(query);
+
+  if (!parsed.success) {
+    throw new InputError(`Invalid query parameters: ${parsed.error.message}`);
+  }
+
+  return parsed.data;
+}
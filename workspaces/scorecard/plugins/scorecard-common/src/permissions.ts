@@ -43,7 +43,21 @@ export const scorecardMetricReadPermission = createPermission({
   resourceType: RESOURCE_TYPE_SCORECARD_METRIC,
 });
 
+/** This permission grants access to recalculate scorecard metrics of an entity on demand
+ * @public
+ */
+export const scorecardMetricRefreshPermission = createPermission({
+  name: 'scorecard.metric.refresh',
+  attributes: {
+    action: 'update',
+  },
+  resourceType: RESOURCE_TYPE_SCORECARD_METRIC,
+});
+
 /**
  * @public
  */
-export const scorecardPermissions = [scorecardMetricReadPermission];
+export const scorecardPermissions = [
+  scorecardMetricReadPermission,
+  scorecardMetricRefreshPermission,
+];
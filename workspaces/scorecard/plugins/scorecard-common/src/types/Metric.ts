@@ -17,17 +17,23 @@
 import { ThresholdResult } from './threshold';
 
 /**
+ * Supported metric types. `percentage` metrics are numbers between 0 and 100,
+ * `string` metrics are enum-like values such as maturity levels.
  * @public
  */
-export type MetricType = 'number' | 'boolean';
+export type MetricType = 'number' | 'boolean' | 'string' | 'percentage';
 
 /**
  * @public
  */
-export type MetricValue<T extends MetricType = MetricType> = T extends 'number'
+export type MetricValue<T extends MetricType = MetricType> = T extends
+  | 'number'
+  | 'percentage'
   ? number
   : T extends 'boolean'
   ? boolean
+  : T extends 'string'
+  ? string
   : never;
 
 /**
@@ -92,3 +98,80 @@ export type AggregatedMetricResult = {
   };
   result: AggregatedMetric;
 };
+
+/**
+ * Entity property used to group aggregated metric values
+ * @public
+ */
+export type AggregatedMetricGroupBy =
+  | 'owner'
+  | 'system'
+  | 'domain'
+  | 'label'
+  | 'annotation';
+
+/**
+ * Aggregated metric values of the entities within a single group
+ * @public
+ */
+export type AggregatedMetricGroup = {
+  group: string | null; // entity ref of the owner, system or domain, or the label or annotation value, null for entities without a group
+  values: AggregatedMetricValue[];
+  total: number;
+};
+
+/**
+ * @public
+ */
+export type AggregatedMetricGroupsResult = {
+  id: string;
+  status: 'success' | 'error';
+  metadata: {
+    title: string;
+    description: string;
+    type: MetricType;
+    history?: boolean;
+  };
+  result: {
+    groupBy: AggregatedMetricGroupBy;
+    key?: string;
+    groups: AggregatedMetricGroup[];
+    timestamp: string;
+  };
+};
+
+/**
+ * Granularity used to bucket historical metric values
+ * @public
+ */
+export type MetricHistoryBucket = 'daily' | 'weekly';
+
+/**
+ * Latest metric value recorded within a single history bucket
+ * @public
+ */
+export type MetricHistoryValue = {
+  timestamp: string; // start of the bucket
+  value: MetricValue | null;
+  status: AggregatedMetricValue['name'] | null;
+};
+
+/**
+ * @public
+ */
+export type MetricHistoryResult = {
+  id: string;
+  status: 'success' | 'error';
+  metadata: {
+    title: string;
+    description: string;
+    type: MetricType;
+    history?: boolean;
+  };
+  result: {
+    bucket: MetricHistoryBucket;
+    from: string;
+    to: string;
+    values: MetricHistoryValue[];
+  };
+};
@@ -52,3 +52,15 @@ export const DEFAULT_NUMBER_THRESHOLDS: ThresholdConfig = {
     { key: 'error', expression: '>50' },
   ],
 };
+
+/**
+ * Default threshold configuration for percentage metrics where high percentage indicates good health
+ * @public
+ */
+export const DEFAULT_PERCENTAGE_THRESHOLDS: ThresholdConfig = {
+  rules: [
+    { key: 'success', expression: '>=80' },
+    { key: 'warning', expression: '50-80' },
+    { key: 'error', expression: '<50' },
+  ],
+};
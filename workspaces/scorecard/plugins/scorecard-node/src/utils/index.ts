@@ -21,4 +21,6 @@ export type {
   ComparisonSign,
   ComparisonOperator,
   RangeOperator,
+  SetOperator,
+  PatternOperator,
 } from './types';
@@ -106,6 +106,75 @@ describe('parseThresholdExpression', () => {
     });
   });
 
+  describe('parseThresholdExpression - percentage metrics', () => {
+    it.each([
+      {
+        expression: '>=80',
+        expectedResult: { operator: '>=', value: 80 },
+      },
+      {
+        expression: '>=80%',
+        expectedResult: { operator: '>=', value: 80 },
+      },
+      {
+        expression: '<50.5 %',
+        expectedResult: { operator: '<', value: 50.5 },
+      },
+      {
+        expression: '50-80',
+        expectedResult: { operator: '-', values: [50, 80] },
+      },
+      {
+        expression: '50%-80%',
+        expectedResult: { operator: '-', values: [50, 80] },
+      },
+    ])(
+      'should parse percentage expression $expression correctly',
+      ({ expression, expectedResult }) => {
+        const result = parseThresholdExpression(expression, 'percentage');
+        expect(result).toEqual(expectedResult);
+      },
+    );
+  });
+
+  describe('parseThresholdExpression - string metrics', () => {
+    it.each([
+      {
+        expression: '==gold',
+        expectedResult: { operator: '==', value: 'gold' },
+      },
+      {
+        expression: '!= bronze',
+        expectedResult: { operator: '!=', value: 'bronze' },
+      },
+      {
+        expression: 'in(gold,silver)',
+        expectedResult: { operator: 'in', values: ['gold', 'silver'] },
+      },
+      {
+        expression: 'in( gold , silver )',
+        expectedResult: { operator: 'in', values: ['gold', 'silver'] },
+      },
+    ])(
+      'should parse string expression $expression correctly',
+      ({ expression, expectedResult }) => {
+        const result = parseThresholdExpression(expression, 'string');
+        expect(result).toEqual(expectedResult);
+      },
+    );
+
+    it('should parse matches expression into regular expression', () => {
+      const result = parseThresholdExpression(
+        'matches(^release-\\d+$)',
+        'string',
+      );
+      expect(result).toEqual({
+        operator: 'matches',
+        pattern: /^release-\d+$/,
+      });
+    });
+  });
+
   describe('parseThresholdExpression - error handling', () => {
     it.each([
       {
@@ -213,5 +282,87 @@ describe('parseThresholdExpression', () => {
         );
       },
     );
+
+    it.each([
+      {
+        expression: '>101',
+        expectedError:
+          'Percentage value 101 must be between 0 and 100 in expression: ">101"',
+      },
+      {
+        expression: '50-120%',
+        expectedError:
+          'Percentage value 120 must be between 0 and 100 in expression: "50-120%"',
+      },
+      {
+        expression: '>=%',
+        expectedError: 'Cannot parse "%" as number from expression: ">=%"',
+      },
+    ])(
+      'should throw error for invalid percentage values: $expression',
+      ({ expression, expectedError }) => {
+        expect(() =>
+          parseThresholdExpression(expression, 'percentage'),
+        ).toThrow(new ThresholdConfigFormatError(expectedError));
+      },
+    );
+
+    it('should throw error for percent sign in number metric expression', () => {
+      expect(() => parseThresholdExpression('>80%', 'number')).toThrow(
+        new ThresholdConfigFormatError(
+          'Percent sign is only supported for percentage metrics, got: "number" metric for expression ">80%"',
+        ),
+      );
+    });
+
+    it.each([
+      {
+        expression: '>gold',
+        expectedError:
+          'Only "==" and "!=" comparisons are supported for string metrics, got: ">" in expression ">gold"',
+      },
+      {
+        expression: 'in(gold,,silver)',
+        expectedError:
+          'Cannot parse empty value from expression: "in(gold,,silver)"',
+      },
+      {
+        expression: 'matches([a-z)',
+        expectedError:
+          'Cannot parse "[a-z" as regular expression from expression: "matches([a-z)"',
+      },
+      {
+        expression: '10-20',
+        expectedError:
+          'Range expressions are only supported for number and percentage metrics, got: "string" metric for expression "10-20"',
+      },
+    ])(
+      'should throw error for invalid string expressions: $expression',
+      ({ expression, expectedError }) => {
+        expect(() => parseThresholdExpression(expression, 'string')).toThrow(
+          new ThresholdConfigFormatError(expectedError),
+        );
+      },
+    );
+
+    it.each([
+      {
+        expression: 'in(gold,silver)',
+        expectedError:
+          '"in" expressions are only supported for string metrics, got: "number" metric for expression "in(gold,silver)"',
+      },
+      {
+        expression: 'matches(gold)',
+        expectedError:
+          '"matches" expressions are only supported for string metrics, got: "number" metric for expression "matches(gold)"',
+      },
+    ])(
+      'should throw error for string-only expressions on number metrics: $expression',
+      ({ expression, expectedError }) => {
+        expect(() => parseThresholdExpression(expression, 'number')).toThrow(
+          new ThresholdConfigFormatError(expectedError),
+        );
+      },
+    );
   });
 });
@@ -15,39 +15,123 @@
  */
 
 import type { MetricType } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
-import type { ComparisonOperator, RangeOperator } from '../types';
+import type {
+  ComparisonOperator,
+  ComparisonSign,
+  PatternOperator,
+  RangeOperator,
+  SetOperator,
+} from '../types';
 import { ThresholdConfigFormatError } from '../../errors';
 
+function isNumericMetricType(targetType: MetricType): boolean {
+  return targetType === 'number' || targetType === 'percentage';
+}
+
+function parseNumericValue(
+  valueStr: string,
+  targetType: MetricType,
+  expression: string,
+): number {
+  const hasPercentSign = valueStr.endsWith('%');
+
+  if (hasPercentSign && targetType !== 'percentage') {
+    throw new ThresholdConfigFormatError(
+      `Percent sign is only supported for percentage metrics, got: "${targetType}" metric for expression "${expression}"`,
+    );
+  }
+
+  const numericStr = hasPercentSign ? valueStr.slice(0, -1).trim() : valueStr;
+  const value = numericStr === '' ? NaN : Number(numericStr);
+
+  if (Number.isNaN(value)) {
+    throw new ThresholdConfigFormatError(
+      `Cannot parse "${valueStr}" as number from expression: "${expression}"`,
+    );
+  }
+
+  if (targetType === 'percentage' && (value < 0 || value > 100)) {
+    throw new ThresholdConfigFormatError(
+      `Percentage value ${value} must be between 0 and 100 in expression: "${expression}"`,
+    );
+  }
+
+  return value;
+}
+
 function parseRangeOperator(
   expression: string,
   targetType: MetricType,
 ): RangeOperator | undefined {
-  const rangeMatch = /^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/.exec(expression);
+  const rangeMatch = /^(\d+(?:\.\d+)?%?)-(\d+(?:\.\d+)?%?)$/.exec(expression);
   if (!rangeMatch) {
     return undefined;
   }
 
-  if (targetType !== 'number') {
+  if (!isNumericMetricType(targetType)) {
     throw new ThresholdConfigFormatError(
-      `Range expressions are only supported for number metrics, got: "${targetType}" metric for expression "${expression}"`,
+      `Range expressions are only supported for number and percentage metrics, got: "${targetType}" metric for expression "${expression}"`,
     );
   }
-  const minValue = Number(rangeMatch[1]);
-  const maxValue = Number(rangeMatch[2]);
+  const minValue = parseNumericValue(rangeMatch[1], targetType, expression);
+  const maxValue = parseNumericValue(rangeMatch[2], targetType, expression);
 
-  if (Number.isNaN(minValue) || Number.isNaN(maxValue)) {
+  if (minValue >= maxValue) {
     throw new ThresholdConfigFormatError(
-      `Cannot parse range values ${minValue} and ${maxValue} from expression: "${expression}"`,
+      `Invalid range: minimum value (${minValue}) must be less than maximum value (${maxValue})`,
     );
   }
 
-  if (minValue >= maxValue) {
+  return { operator: '-', values: [minValue, maxValue] };
+}
+
+function parseSetOperator(
+  expression: string,
+  targetType: MetricType,
+): SetOperator | undefined {
+  const match = /^in\((.*)\)$/.exec(expression);
+  if (!match) {
+    return undefined;
+  }
+
+  if (targetType !== 'string') {
     throw new ThresholdConfigFormatError(
-      `Invalid range: minimum value (${minValue}) must be less than maximum value (${maxValue})`,
+      `"in" expressions are only supported for string metrics, got: "${targetType}" metric for expression "${expression}"`,
     );
   }
 
-  return { operator: '-', values: [minValue, maxValue] };
+  const values = match[1].split(',').map(value => value.trim());
+  if (values.some(value => value === '')) {
+    throw new ThresholdConfigFormatError(
+      `Cannot parse empty value from expression: "${expression}"`,
+    );
+  }
+
+  return { operator: 'in', values };
+}
+
+function parsePatternOperator(
+  expression: string,
+  targetType: MetricType,
+): PatternOperator | undefined {
+  const match = /^matches\((.*)\)$/.exec(expression);
+  if (!match) {
+    return undefined;
+  }
+
+  if (targetType !== 'string') {
+    throw new ThresholdConfigFormatError(
+      `"matches" expressions are only supported for string metrics, got: "${targetType}" metric for expression "${expression}"`,
+    );
+  }
+
+  try {
+    return { operator: 'matches', pattern: new RegExp(match[1]) };
+  } catch {
+    throw new ThresholdConfigFormatError(
+      `Cannot parse "${match[1]}" as regular expression from expression: "${expression}"`,
+    );
+  }
 }
 
 function parseComparisonOperator(
@@ -59,17 +143,14 @@ function parseComparisonOperator(
     return undefined;
   }
 
-  const operator = match[1] as '>=' | '<=' | '>' | '<' | '==' | '!=';
+  const operator = match[1] as ComparisonSign;
   const valueStr = match[2].trim();
 
-  if (targetType === 'number') {
-    const value = Number(valueStr);
-    if (Number.isNaN(value)) {
-      throw new ThresholdConfigFormatError(
-        `Cannot parse "${valueStr}" as number from expression: "${expression}"`,
-      );
-    }
-    return { operator, value };
+  if (isNumericMetricType(targetType)) {
+    return {
+      operator,
+      value: parseNumericValue(valueStr, targetType, expression),
+    };
   }
 
   if (targetType === 'boolean') {
@@ -84,6 +165,15 @@ function parseComparisonOperator(
     );
   }
 
+  if (targetType === 'string') {
+    if (operator !== '==' && operator !== '!=') {
+      throw new ThresholdConfigFormatError(
+        `Only "==" and "!=" comparisons are supported for string metrics, got: "${operator}" in expression "${expression}"`,
+      );
+    }
+    return { operator, value: valueStr };
+  }
+
   return undefined;
 }
 
@@ -94,13 +184,21 @@ function parseComparisonOperator(
 export function parseThresholdExpression(
   expression: string,
   targetType: MetricType,
-): ComparisonOperator | RangeOperator {
+): ComparisonOperator | RangeOperator | SetOperator | PatternOperator {
   const trimmedExpression = expression.trim();
 
   const rangeParsed = parseRangeOperator(trimmedExpression, targetType);
   if (rangeParsed !== undefined) {
     return rangeParsed;
   }
+  const setParsed = parseSetOperator(trimmedExpression, targetType);
+  if (setParsed !== undefined) {
+    return setParsed;
+  }
+  const patternParsed = parsePatternOperator(trimmedExpression, targetType);
+  if (patternParsed !== undefined) {
+    return patternParsed;
+  }
   const operatorParsed = parseComparisonOperator(trimmedExpression, targetType);
   if (operatorParsed !== undefined) {
     return operatorParsed;
@@ -39,3 +39,21 @@ export type RangeOperator = {
   operator: '-';
   values: [number, number];
 };
+
+/**
+ * Type for set membership operators, supported for string metrics only
+ * @public
+ */
+export type SetOperator = {
+  operator: 'in';
+  values: string[];
+};
+
+/**
+ * Type for regular expression operators, supported for string metrics only
+ * @public
+ */
+export type PatternOperator = {
+  operator: 'matches';
+  pattern: RegExp;
+};
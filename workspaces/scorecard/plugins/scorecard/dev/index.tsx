@@ -26,11 +26,19 @@ import type { Entity } from '@backstage/catalog-model';
 import type {
   MetricResult,
   AggregatedMetricResult,
+  AggregatedMetricGroupBy,
+  AggregatedMetricGroupsResult,
+  MetricHistoryResult,
 } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
 
 import { scorecardPlugin, EntityScorecardContent } from '../src/plugin';
 import { scorecardTranslations } from '../src/translations';
-import { scorecardApiRef, ScorecardApi } from '../src/api';
+import {
+  scorecardApiRef,
+  ScorecardApi,
+  ScorecardExportOptions,
+  ScorecardHistoryOptions,
+} from '../src/api';
 import {
   mockScorecardErrorData,
   mockScorecardSuccessData,
@@ -55,11 +63,113 @@ class MockScorecardApi implements ScorecardApi {
   async getScorecards(_entity: Entity): Promise<MetricResult[]> {
     return [...mockScorecardSuccessData, ...mockScorecardErrorData];
   }
+  async refreshScorecards(_entity: Entity): Promise<MetricResult[]> {
+    const timestamp = new Date().toISOString();
+    return [
+      ...mockScorecardSuccessData.map(metric => ({
+        ...metric,
+        result: { ...metric.result, timestamp },
+      })),
+      ...mockScorecardErrorData,
+    ];
+  }
   async getAggregatedScorecard(
     _metricId: string,
   ): Promise<AggregatedMetricResult> {
     return mockAggregatedScorecardSuccessData;
   }
+  async getAggregatedScorecardGroups(
+    metricId: string,
+    groupBy: AggregatedMetricGroupBy,
+    key?: string,
+  ): Promise<AggregatedMetricGroupsResult> {
+    const { metadata, result } = mockAggregatedScorecardSuccessData;
+    return {
+      id: metricId,
+      status: 'success',
+      metadata,
+      result: {
+        groupBy,
+        key,
+        groups: [
+          {
+            group: 'group:default/team-a',
+            values: [
+              { count: 8, name: 'success' },
+              { count: 4, name: 'warning' },
+              { count: 2, name: 'error' },
+            ],
+            total: 14,
+          },
+          {
+            group: 'group:default/team-b',
+            values: [
+              { count: 3, name: 'success' },
+              { count: 10, name: 'warning' },
+              { count: 10, name: 'error' },
+            ],
+            total: 23,
+          },
+        ],
+        timestamp: result.timestamp,
+      },
+    };
+  }
+  async getScorecardHistory(
+    _entity: Entity,
+    metricId: string,
+    options?: ScorecardHistoryOptions,
+  ): Promise<MetricHistoryResult> {
+    const metric = mockScorecardSuccessData.find(m => m.id === metricId);
+    const to = options?.to ? new Date(options.to) : new Date();
+    const from = options?.from
+      ? new Date(options.from)
+      : new Date(to.getTime() - 6 * 24 * 60 * 60 * 1000);
+    const values = [5, 7, 12, 9, 11, 8, 6].map((value, index) => ({
+      timestamp: new Date(
+        from.getTime() + index * 24 * 60 * 60 * 1000,
+      ).toISOString(),
+      value,
+      status: value < 10 ? ('success' as const) : ('warning' as const),
+    }));
+    return {
+      id: metricId,
+      status: 'success',
+      metadata: metric?.metadata ?? mockAggregatedScorecardSuccessData.metadata,
+      result: {
+        bucket: options?.bucket ?? 'daily',
+        from: from.toISOString(),
+        to: to.toISOString(),
+        values,
+      },
+    };
+  }
+  async exportScorecardMetrics(
+    options?: ScorecardExportOptions,
+  ): Promise<Blob> {
+    const rows = mockScorecardSuccessData
+      .filter(
+        metric =>
+          !options?.metricIds?.length || options.metricIds.includes(metric.id),
+      )
+      .map(metric => ({
+        entityRef: 'component:default/example-service',
+        metricId: metric.id,
+        value: metric.result.value,
+        status: metric.result.thresholdResult.evaluation,
+        timestamp: metric.result.timestamp,
+        errorMessage: metric.error ?? '',
+      }));
+    if (options?.format === 'json') {
+      return new Blob([JSON.stringify(rows)], { type: 'application/json' });
+    }
+    const csv = [
+      'entityRef,metricId,value,status,timestamp,errorMessage',
+      ...rows.map(row => Object.values(row).join(',')),
+      '',
+    ].join('\n');
+    return new Blob([csv], { type: 'text/csv' });
+  }
 }
 
 createDevApp()
@@ -23,8 +23,36 @@ import type { Entity } from '@backstage/catalog-model';
 import type {
   MetricResult,
   AggregatedMetricResult,
+  AggregatedMetricGroupBy,
+  AggregatedMetricGroupsResult,
+  MetricHistoryBucket,
+  MetricHistoryResult,
 } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
 
+export type ScorecardHistoryOptions = {
+  /** ISO timestamp of the start of the time range */
+  from?: string;
+  /** ISO timestamp of the end of the time range */
+  to?: string;
+  /** Granularity of the returned values */
+  bucket?: MetricHistoryBucket;
+};
+
+export type ScorecardExportOptions = {
+  /** Metric IDs to export, all metrics the user can read are exported when omitted */
+  metricIds?: string[];
+  /** Format of the exported file */
+  format?: 'csv' | 'json';
+  /** Entity kinds to export the metric values of */
+  kind?: string[];
+  /** Owner entity refs to export the metric values of */
+  owner?: string[];
+  /** ISO timestamp of the start of the time range, the latest values are exported when omitted */
+  from?: string;
+  /** ISO timestamp of the end of the time range */
+  to?: string;
+};
+
 export interface ScorecardApi {
   /**
    * Retrieves scorecard metrics for a specific entity.
@@ -33,7 +61,43 @@ export interface ScorecardApi {
    * @returns Promise resolving to an array of metric results
    */
   getScorecards(entity: Entity, metricIds?: string[]): Promise<MetricResult[]>;
+  /**
+   * Recalculates scorecard metrics for a specific entity immediately.
+   * @param entity - The Backstage entity to refresh metrics for
+   * @returns Promise resolving to an array of refreshed metric results
+   */
+  refreshScorecards(entity: Entity): Promise<MetricResult[]>;
   getAggregatedScorecard(metricId: string): Promise<AggregatedMetricResult>;
+  /**
+   * Retrieves a breakdown of an aggregated metric by groups of entities.
+   * @param metricId - The metric ID to aggregate
+   * @param groupBy - Entity property to group the entities by
+   * @param key - Label or annotation key, required when grouping by label or annotation
+   * @returns Promise resolving to the aggregated metric of each group
+   */
+  getAggregatedScorecardGroups(
+    metricId: string,
+    groupBy: AggregatedMetricGroupBy,
+    key?: string,
+  ): Promise<AggregatedMetricGroupsResult>;
+  /**
+   * Retrieves the history of a single metric for a specific entity.
+   * @param entity - The Backstage entity to get the metric history for
+   * @param metricId - The metric ID to retrieve the history of
+   * @param options - Optional time range and bucket granularity
+   * @returns Promise resolving to the metric history
+   */
+  getScorecardHistory(
+    entity: Entity,
+    metricId: string,
+    options?: ScorecardHistoryOptions,
+  ): Promise<MetricHistoryResult>;
+  /**
+   * Exports metric values of all catalog entities the user can read.
+   * @param options - Optional metrics, filters, time range and format of the export
+   * @returns Promise resolving to the exported file
+   */
+  exportScorecardMetrics(options?: ScorecardExportOptions): Promise<Blob>;
 }
 
 export const scorecardApiRef = createApiRef<ScorecardApi>({
@@ -121,6 +185,57 @@ export class ScorecardApiClient implements ScorecardApi {
     }
   }
 
+  /**
+   * Recalculates scorecard metrics for a specific entity immediately.
+   * @param entity - The Backstage entity to refresh metrics for
+   * @returns Promise resolving to an array of refreshed metric results
+   * @throws Error if the request fails, is rate limited or returns invalid data
+   */
+  async refreshScorecards(entity: Entity): Promise<MetricResult[]> {
+    if (
+      !entity?.kind ||
+      !entity?.metadata?.namespace ||
+      !entity?.metadata?.name
+    ) {
+      throw new Error(
+        'Entity missing required properties for scorecard refresh',
+      );
+    }
+
+    const baseUrl = await this.getBaseUrl();
+    const url = new URL(
+      `${baseUrl}/metrics/catalog/${entity.kind}/${entity.metadata.namespace}/${entity.metadata.name}/refresh`,
+    );
+
+    try {
+      const response = await this.fetchApi.fetch(url.toString(), {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `Failed to refresh scorecards: ${response.status} ${response.statusText}. ${errorText}`,
+        );
+      }
+
+      const data = await response.json();
+
+      if (!Array.isArray(data)) {
+        throw new Error('Invalid response format from scorecard API');
+      }
+
+      return data;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error(
+        `Unexpected error refreshing scorecards: ${String(error)}`,
+      );
+    }
+  }
+
   async getAggregatedScorecard(
     metricId: string,
   ): Promise<AggregatedMetricResult> {
@@ -159,4 +274,180 @@ export class ScorecardApiClient implements ScorecardApi {
       );
     }
   }
+
+  /**
+   * Retrieves a breakdown of an aggregated metric by groups of entities.
+   * @param metricId - The metric ID to aggregate
+   * @param groupBy - Entity property to group the entities by
+   * @param key - Label or annotation key, required when grouping by label or annotation
+   * @returns Promise resolving to the aggregated metric of each group
+   * @throws Error if the request fails or returns invalid data
+   */
+  async getAggregatedScorecardGroups(
+    metricId: string,
+    groupBy: AggregatedMetricGroupBy,
+    key?: string,
+  ): Promise<AggregatedMetricGroupsResult> {
+    if (!metricId) {
+      throw new Error('Metric ID is required for aggregated scorecards');
+    }
+
+    const baseUrl = await this.getBaseUrl();
+    const url = new URL(
+      `${baseUrl}/metrics/${metricId}/catalog/aggregations/groups`,
+    );
+    url.searchParams.set('groupBy', groupBy);
+    if (key) {
+      url.searchParams.set('key', key);
+    }
+
+    try {
+      const response = await this.fetchApi.fetch(url.toString());
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `Failed to fetch aggregated scorecard groups: ${response.status} ${response.statusText}. ${errorText}`,
+        );
+      }
+
+      const data = await response.json();
+
+      if (!data || !Array.isArray(data.result?.groups)) {
+        throw new TypeError(
+          'Invalid response format from aggregated scorecard groups API',
+        );
+      }
+
+      return data;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error(
+        `Unexpected error fetching aggregated scorecard groups: ${String(
+          error,
+        )}`,
+      );
+    }
+  }
+
+  /**
+   * Retrieves the history of a single metric for a specific entity.
+   * @param entity - The Backstage entity to get the metric history for
+   * @param metricId - The metric ID to retrieve the history of
+   * @param options - Optional time range and bucket granularity
+   * @returns Promise resolving to the metric history
+   * @throws Error if the request fails or returns invalid data
+   */
+  async getScorecardHistory(
+    entity: Entity,
+    metricId: string,
+    options: ScorecardHistoryOptions = {},
+  ): Promise<MetricHistoryResult> {
+    if (
+      !entity?.kind ||
+      !entity?.metadata?.namespace ||
+      !entity?.metadata?.name
+    ) {
+      throw new Error(
+        'Entity missing required properties for scorecard lookup',
+      );
+    }
+
+    const baseUrl = await this.getBaseUrl();
+    const url = new URL(
+      `${baseUrl}/metrics/${metricId}/catalog/${entity.kind}/${entity.metadata.namespace}/${entity.metadata.name}/history`,
+    );
+
+    if (options.from) {
+      url.searchParams.set('from', options.from);
+    }
+    if (options.to) {
+      url.searchParams.set('to', options.to);
+    }
+    if (options.bucket) {
+      url.searchParams.set('bucket', options.bucket);
+    }
+
+    try {
+      const response = await this.fetchApi.fetch(url.toString());
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `Failed to fetch scorecard history: ${response.status} ${response.statusText}. ${errorText}`,
+        );
+      }
+
+      const data = await response.json();
+
+      if (!data || !Array.isArray(data.result?.values)) {
+        throw new TypeError(
+          'Invalid response format from scorecard history API',
+        );
+      }
+
+      return data;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error(
+        `Unexpected error fetching scorecard history: ${String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Exports metric values of all catalog entities the user can read.
+   * @param options - Optional metrics, filters, time range and format of the export
+   * @returns Promise resolving to the exported file
+   * @throws Error if the request fails
+   */
+  async exportScorecardMetrics(
+    options: ScorecardExportOptions = {},
+  ): Promise<Blob> {
+    const baseUrl = await this.getBaseUrl();
+    const url = new URL(`${baseUrl}/metrics/export`);
+
+    if (options.metricIds?.length) {
+      url.searchParams.set('metricIds', options.metricIds.join(','));
+    }
+    if (options.format) {
+      url.searchParams.set('format', options.format);
+    }
+    if (options.kind?.length) {
+      url.searchParams.set('kind', options.kind.join(','));
+    }
+    if (options.owner?.length) {
+      url.searchParams.set('owner', options.owner.join(','));
+    }
+    if (options.from) {
+      url.searchParams.set('from', options.from);
+    }
+    if (options.to) {
+      url.searchParams.set('to', options.to);
+    }
+
+    try {
+      const response = await this.fetchApi.fetch(url.toString());
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `Failed to export scorecard metrics: ${response.status} ${response.statusText}. ${errorText}`,
+        );
+      }
+
+      return await response.blob();
+    } catch (error) {
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error(
+        `Unexpected error exporting scorecard metrics: ${String(error)}`,
+      );
+    }
+  }
 }
@@ -23,10 +23,11 @@ import Divider from '@mui/material/Divider';
 import Box from '@mui/material/Box';
 import Typography from '@mui/material/Typography';
 
-interface CardWrapperProps extends HTMLProps<HTMLDivElement> {
+interface CardWrapperProps extends Omit<HTMLProps<HTMLDivElement>, 'action'> {
   children: ReactNode;
   title: string;
   subheader?: ReactNode;
+  action?: ReactNode;
   description?: string;
   width?: string;
   childrenWidth?: string | number;
@@ -38,6 +39,7 @@ export const CardWrapper = ({
   children,
   title,
   subheader,
+  action,
   description,
   width,
   childrenWidth = '100%',
@@ -57,6 +59,7 @@ export const CardWrapper = ({
       <CardHeader
         title={title}
         subheader={subheader ?? undefined}
+        action={action}
         sx={{
           '& .v5-MuiCardHeader-title, & .v5-MuiCardHeader-subheader': {
             fontSize: '1.25rem',
@@ -14,6 +14,8 @@
  * limitations under the License.
  */
 
+import { useMemo } from 'react';
+
 import { MetricResult } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
 import { ResponseErrorPanel } from '@backstage/core-components';
 
@@ -23,14 +25,29 @@ import CircularProgress from '@mui/material/CircularProgress';
 import NoScorecardsState from '../Common/NoScorecardsState';
 import Scorecard from './Scorecard';
 import { useScorecards } from '../../hooks/useScorecards';
+import { useRefreshScorecards } from '../../hooks/useRefreshScorecards';
 import { getStatusConfig } from '../../utils/utils';
 import PermissionRequiredState from '../Common/PermissionRequiredState';
 import { useTranslation } from '../../hooks/useTranslation';
 
 export const EntityScorecardContent = () => {
   const { scorecards, loadingData, error } = useScorecards();
+  const { refreshedScorecards, refreshing, refreshScorecards } =
+    useRefreshScorecards();
   const { t } = useTranslation();
 
+  // Refreshed metrics replace the loaded ones, metrics the user cannot refresh are kept as loaded
+  const displayedScorecards = useMemo(() => {
+    if (!refreshedScorecards) {
+      return scorecards;
+    }
+
+    const refreshedById = new Map(
+      refreshedScorecards.map(metric => [metric.id, metric]),
+    );
+    return scorecards?.map(metric => refreshedById.get(metric.id) ?? metric);
+  }, [scorecards, refreshedScorecards]);
+
   if (loadingData) {
     return (
       <Box
@@ -62,7 +79,7 @@ export const EntityScorecardContent = () => {
       gap={2}
       sx={{ alignItems: 'flex-start' }}
     >
-      {scorecards?.map((metric: MetricResult) => {
+      {displayedScorecards?.map((metric: MetricResult) => {
         // Check if metric data unavailable
         const isMetricDataError =
           metric.status === 'error' || metric.result?.value === null;
@@ -99,11 +116,20 @@ export const EntityScorecardContent = () => {
             statusColor={statusConfig.color}
             StatusIcon={statusConfig.icon ?? (() => null)}
             value={metric.result?.value}
+            metricType={metric.metadata.type}
             thresholds={metric.result?.thresholdResult}
             isMetricDataError={isMetricDataError}
             metricDataError={metric?.error}
             isThresholdError={isThresholdError}
             thresholdError={metric.result?.thresholdResult?.error}
+            metricId={metric.id}
+            showHistory={
+              !!metric.metadata.history &&
+              metric.metadata.type !== 'string' &&
+              !isMetricDataError
+            }
+            onRefresh={refreshScorecards}
+            refreshing={refreshing}
           />
         );
       })}
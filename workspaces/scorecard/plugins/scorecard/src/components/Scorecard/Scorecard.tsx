@@ -15,6 +15,7 @@
  */
 
 import {
+  MetricType,
   MetricValue,
   ThresholdResult,
 } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
@@ -29,12 +30,16 @@ import {
 } from 'recharts';
 
 import Box from '@mui/material/Box';
+import CircularProgress from '@mui/material/CircularProgress';
+import IconButton from '@mui/material/IconButton';
+import RefreshIcon from '@mui/icons-material/Refresh';
 import { useTheme } from '@mui/material/styles';
 import MuiTooltip from '@mui/material/Tooltip';
 import { useTranslation } from '../../hooks/useTranslation';
 import { CardWrapper } from '../Common/CardWrapper';
 import CustomLegend from './CustomLegend';
-import { getRingColor } from '../../utils/utils';
+import ScorecardTrend from './ScorecardTrend';
+import { formatMetricValue, getRingColor } from '../../utils/utils';
 
 interface ScorecardProps {
   cardTitle: string;
@@ -42,11 +47,16 @@ interface ScorecardProps {
   statusColor: string;
   StatusIcon: React.ElementType;
   value: MetricValue | null;
+  metricType?: MetricType;
   thresholds?: ThresholdResult;
   isMetricDataError?: boolean;
   metricDataError?: string;
   isThresholdError?: boolean;
   thresholdError?: string;
+  metricId?: string;
+  showHistory?: boolean;
+  onRefresh?: () => void;
+  refreshing?: boolean;
 }
 
 const Scorecard = ({
@@ -55,11 +65,16 @@ const Scorecard = ({
   statusColor,
   StatusIcon,
   value,
+  metricType,
   thresholds,
   isMetricDataError = false,
   metricDataError,
   isThresholdError = false,
   thresholdError,
+  metricId,
+  showHistory = false,
+  onRefresh,
+  refreshing = false,
 }: ScorecardProps) => {
   const theme = useTheme();
   const { t } = useTranslation();
@@ -70,11 +85,30 @@ const Scorecard = ({
 
   const pieData = [{ name: 'full', value: 100, color: ringColor }];
 
+  const refreshAction = onRefresh && (
+    <MuiTooltip
+      title={refreshing ? t('refresh.refreshing') : t('refresh.refresh')}
+    >
+      {/* Disabled buttons don't fire events, the span keeps the tooltip working */}
+      <span>
+        <IconButton
+          aria-label={t('refresh.refresh')}
+          onClick={onRefresh}
+          disabled={refreshing}
+          size="small"
+        >
+          {refreshing ? <CircularProgress size={20} /> : <RefreshIcon />}
+        </IconButton>
+      </span>
+    </MuiTooltip>
+  );
+
   return (
     <CardWrapper
       role="article"
       title={cardTitle}
       description={description}
+      action={refreshAction}
       width="371px"
     >
       <Box
@@ -158,7 +192,7 @@ const Scorecard = ({
                         fontWeight={500}
                         fill={color}
                       >
-                        {value}
+                        {formatMetricValue(value, metricType)}
                       </text>
                     )}
 
@@ -245,6 +279,7 @@ const Scorecard = ({
           </PieChart>
         </ResponsiveContainer>
       </Box>
+      {showHistory && metricId && <ScorecardTrend metricId={metricId} />}
     </CardWrapper>
   );
 };
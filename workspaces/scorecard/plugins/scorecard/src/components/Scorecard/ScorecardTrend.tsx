@@ -0,0 +1,88 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LineChart, Line, ResponsiveContainer, YAxis } from 'recharts';
+
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import { useTheme } from '@mui/material/styles';
+
+import { useScorecardHistory } from '../../hooks/useScorecardHistory';
+import { useTranslation } from '../../hooks/useTranslation';
+
+interface ScorecardTrendProps {
+  metricId: string;
+}
+
+const ScorecardTrend = ({ metricId }: ScorecardTrendProps) => {
+  const theme = useTheme();
+  const { t } = useTranslation();
+  const { history, loadingData, error } = useScorecardHistory({ metricId });
+
+  if (loadingData || error || !history) {
+    return null;
+  }
+
+  // Boolean metrics are plotted as 1 (true) and 0 (false)
+  const trendData = history.result.values
+    .filter(({ value }) => value !== null)
+    .map(({ timestamp, value }) => ({
+      timestamp,
+      value: typeof value === 'boolean' ? Number(value) : value,
+    }));
+
+  return (
+    <Box data-testid="scorecard-trend" sx={{ width: '100%', pt: 1 }}>
+      <Typography
+        variant="body2"
+        color="textSecondary"
+        sx={{ fontSize: '0.875rem', fontWeight: 400 }}
+      >
+        {t('history.title')}
+      </Typography>
+      {trendData.length < 2 ? (
+        <Typography
+          variant="body2"
+          color="textSecondary"
+          sx={{ fontSize: '0.75rem', pt: 1 }}
+        >
+          {t('history.notEnoughData')}
+        </Typography>
+      ) : (
+        <ResponsiveContainer width="100%" height={48}>
+          <LineChart
+            data={trendData}
+            margin={{ top: 4, right: 4, bottom: 4, left: 4 }}
+          >
+            <YAxis hide domain={['dataMin', 'dataMax']} />
+            <Line
+              type={
+                history.metadata.type === 'boolean' ? 'stepAfter' : 'monotone'
+              }
+              dataKey="value"
+              stroke={theme.palette.primary.main}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </Box>
+  );
+};
+
+export default ScorecardTrend;
@@ -84,12 +84,17 @@ jest.mock('../../../hooks/useScorecards', () => ({
   useScorecards: jest.fn(),
 }));
 
+jest.mock('../../../hooks/useRefreshScorecards', () => ({
+  useRefreshScorecards: jest.fn(),
+}));
+
 jest.mock('../../../utils/utils', () => ({
   getStatusConfig: jest.fn(),
 }));
 
 // Get the mocked functions
 const { useScorecards } = require('../../../hooks/useScorecards');
+const { useRefreshScorecards } = require('../../../hooks/useRefreshScorecards');
 const { getStatusConfig } = require('../../../utils/utils');
 
 describe('EntityScorecardContent Component', () => {
@@ -100,6 +105,12 @@ describe('EntityScorecardContent Component', () => {
       color: 'green',
       icon: 'CheckCircleIcon',
     });
+
+    useRefreshScorecards.mockReturnValue({
+      refreshedScorecards: undefined,
+      refreshing: false,
+      refreshScorecards: jest.fn(),
+    });
   });
 
   it('should render loading state when data is loading', () => {
@@ -166,6 +177,32 @@ describe('EntityScorecardContent Component', () => {
     expect(screen.getByText('Value: 22')).toBeInTheDocument();
   });
 
+  it('should replace loaded scorecards with refreshed ones', async () => {
+    useScorecards.mockReturnValue({
+      scorecards: mockScorecardSuccessData,
+      loadingData: false,
+      error: undefined,
+    });
+    useRefreshScorecards.mockReturnValue({
+      refreshedScorecards: [
+        {
+          ...mockScorecardSuccessData[0],
+          result: { ...mockScorecardSuccessData[0].result, value: 3 },
+        },
+      ],
+      refreshing: false,
+      refreshScorecards: jest.fn(),
+    });
+
+    render(<EntityScorecardContent />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Value: 3')).toBeInTheDocument();
+    });
+    expect(screen.queryByText('Value: 8')).not.toBeInTheDocument();
+    expect(screen.getByText('Value: 22')).toBeInTheDocument();
+  });
+
   it('should call getStatusConfig for each metric', () => {
     useScorecards.mockReturnValue({
       scorecards: mockScorecardSuccessData,
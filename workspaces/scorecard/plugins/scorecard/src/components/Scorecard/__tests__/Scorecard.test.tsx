@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
 import { ThemeProvider, createTheme } from '@mui/material/styles';
 import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline';
 import WarningAmberIcon from '@mui/icons-material/WarningAmber';
@@ -181,6 +181,65 @@ describe('Scorecard Component', () => {
     expect(screen.getByText('9999')).toBeInTheDocument();
   });
 
+  it('should render percentage values with a percent sign', () => {
+    render(
+      <TestWrapper>
+        <Scorecard {...defaultProps} value={85} metricType="percentage" />
+      </TestWrapper>,
+    );
+
+    expect(screen.getByText('85%')).toBeInTheDocument();
+  });
+
+  it('should render string values', () => {
+    render(
+      <TestWrapper>
+        <Scorecard {...defaultProps} value="gold" metricType="string" />
+      </TestWrapper>,
+    );
+
+    expect(screen.getByText('gold')).toBeInTheDocument();
+  });
+
+  it('should not render the refresh action without onRefresh', () => {
+    render(
+      <TestWrapper>
+        <Scorecard {...defaultProps} />
+      </TestWrapper>,
+    );
+
+    expect(
+      screen.queryByRole('button', { name: 'Refresh metrics' }),
+    ).not.toBeInTheDocument();
+  });
+
+  it('should call onRefresh when the refresh action is clicked', () => {
+    const onRefresh = jest.fn();
+
+    render(
+      <TestWrapper>
+        <Scorecard {...defaultProps} onRefresh={onRefresh} />
+      </TestWrapper>,
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Refresh metrics' }));
+
+    expect(onRefresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('should show progress and disable the refresh action while refreshing', () => {
+    render(
+      <TestWrapper>
+        <Scorecard {...defaultProps} onRefresh={jest.fn()} refreshing />
+      </TestWrapper>,
+    );
+
+    expect(
+      screen.getByRole('button', { name: 'Refresh metrics' }),
+    ).toBeDisabled();
+    expect(screen.getByRole('progressbar')).toBeInTheDocument();
+  });
+
   it('should handle undefined thresholds', () => {
     const noThresholdsProps = {
       ...defaultProps,
@@ -0,0 +1,177 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { render, screen } from '@testing-library/react';
+import { ThemeProvider, createTheme } from '@mui/material/styles';
+import { MetricHistoryResult } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
+
+import ScorecardTrend from '../ScorecardTrend';
+
+jest.mock('recharts', () => ({
+  ResponsiveContainer: ({ children }: any) => <div>{children}</div>,
+  LineChart: ({ children, data }: any) => (
+    <div data-testid="line-chart" data-points={data.length}>
+      {children}
+    </div>
+  ),
+  Line: ({ type }: any) => <div data-testid="line" data-type={type} />,
+  YAxis: () => null,
+}));
+
+jest.mock('../../../hooks/useScorecardHistory', () => ({
+  useScorecardHistory: jest.fn(),
+}));
+
+const { useScorecardHistory } = require('../../../hooks/useScorecardHistory');
+
+const buildHistory = (
+  values: MetricHistoryResult['result']['values'],
+  type: MetricHistoryResult['metadata']['type'] = 'number',
+): MetricHistoryResult => ({
+  id: 'github.open_prs',
+  status: 'success',
+  metadata: {
+    title: 'GitHub open PRs',
+    description: 'Current count of open Pull Requests.',
+    type,
+    history: true,
+  },
+  result: {
+    bucket: 'daily',
+    from: '2025-01-01T00:00:00.000Z',
+    to: '2025-01-31T00:00:00.000Z',
+    values,
+  },
+});
+
+const renderTrend = () =>
+  render(
+    <ThemeProvider theme={createTheme()}>
+      <ScorecardTrend metricId="github.open_prs" />
+    </ThemeProvider>,
+  );
+
+describe('ScorecardTrend Component', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should request history of the given metric', () => {
+    useScorecardHistory.mockReturnValue({
+      history: undefined,
+      loadingData: true,
+      error: undefined,
+    });
+
+    renderTrend();
+
+    expect(useScorecardHistory).toHaveBeenCalledWith({
+      metricId: 'github.open_prs',
+    });
+  });
+
+  it('should render nothing while loading', () => {
+    useScorecardHistory.mockReturnValue({
+      history: undefined,
+      loadingData: true,
+      error: undefined,
+    });
+
+    renderTrend();
+
+    expect(screen.queryByTestId('scorecard-trend')).not.toBeInTheDocument();
+  });
+
+  it('should render nothing when history fails to load', () => {
+    useScorecardHistory.mockReturnValue({
+      history: undefined,
+      loadingData: false,
+      error: new Error('Failed to fetch scorecard history'),
+    });
+
+    renderTrend();
+
+    expect(screen.queryByTestId('scorecard-trend')).not.toBeInTheDocument();
+  });
+
+  it('should render not enough data message when there are less than two values', () => {
+    useScorecardHistory.mockReturnValue({
+      history: buildHistory([
+        { timestamp: '2025-01-30T00:00:00.000Z', value: 5, status: 'success' },
+        { timestamp: '2025-01-31T00:00:00.000Z', value: null, status: null },
+      ]),
+      loadingData: false,
+      error: undefined,
+    });
+
+    renderTrend();
+
+    expect(
+      screen.getByText('Not enough data to show a trend yet'),
+    ).toBeInTheDocument();
+    expect(screen.queryByTestId('line-chart')).not.toBeInTheDocument();
+  });
+
+  it('should render the trend chart for number metrics', () => {
+    useScorecardHistory.mockReturnValue({
+      history: buildHistory([
+        { timestamp: '2025-01-29T00:00:00.000Z', value: 12, status: 'warning' },
+        { timestamp: '2025-01-30T00:00:00.000Z', value: 8, status: 'success' },
+        { timestamp: '2025-01-31T00:00:00.000Z', value: 5, status: 'success' },
+      ]),
+      loadingData: false,
+      error: undefined,
+    });
+
+    renderTrend();
+
+    expect(screen.getByText('Trend (last 30 days)')).toBeInTheDocument();
+    expect(screen.getByTestId('line-chart')).toHaveAttribute(
+      'data-points',
+      '3',
+    );
+    expect(screen.getByTestId('line')).toHaveAttribute('data-type', 'monotone');
+  });
+
+  it('should render a step chart for boolean metrics', () => {
+    useScorecardHistory.mockReturnValue({
+      history: buildHistory(
+        [
+          {
+            timestamp: '2025-01-30T00:00:00.000Z',
+            value: false,
+            status: 'error',
+          },
+          {
+            timestamp: '2025-01-31T00:00:00.000Z',
+            value: true,
+            status: 'success',
+          },
+        ],
+        'boolean',
+      ),
+      loadingData: false,
+      error: undefined,
+    });
+
+    renderTrend();
+
+    expect(screen.getByTestId('line')).toHaveAttribute(
+      'data-type',
+      'stepAfter',
+    );
+  });
+});
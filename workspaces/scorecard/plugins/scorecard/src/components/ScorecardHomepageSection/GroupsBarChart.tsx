@@ -0,0 +1,97 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Bar,
+  BarChart,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import type {
+  AggregatedMetricGroup,
+  AggregatedMetricGroupBy,
+} from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
+
+import { useTheme } from '@mui/material/styles';
+
+import { useTranslation } from '../../hooks/useTranslation';
+
+/**
+ * Owners, systems and domains are entity references, they are shown without the kind and the default namespace
+ */
+export const getGroupLabel = (
+  group: string,
+  groupBy: AggregatedMetricGroupBy,
+): string => {
+  if (groupBy === 'label' || groupBy === 'annotation') {
+    return group;
+  }
+
+  const nameWithNamespace = group.slice(group.indexOf(':') + 1);
+  return nameWithNamespace.startsWith('default/')
+    ? nameWithNamespace.slice('default/'.length)
+    : nameWithNamespace;
+};
+
+interface GroupsBarChartProps {
+  groups: AggregatedMetricGroup[];
+  groupBy: AggregatedMetricGroupBy;
+}
+
+export const GroupsBarChart = ({ groups, groupBy }: GroupsBarChartProps) => {
+  const theme = useTheme();
+  const { t } = useTranslation();
+
+  const barData = groups.map(({ group, values }) => ({
+    name:
+      group === null ? t('groups.ungrouped') : getGroupLabel(group, groupBy),
+    ...Object.fromEntries(values.map(({ name, count }) => [name, count])),
+  }));
+
+  const statuses = [
+    { key: 'success', color: theme.palette.success.main },
+    { key: 'warning', color: theme.palette.warning.main },
+    { key: 'error', color: theme.palette.error.main },
+  ] as const;
+
+  return (
+    <ResponsiveContainer width="100%" height="100%" minHeight={174}>
+      <BarChart
+        data={barData}
+        layout="vertical"
+        margin={{ top: 4, right: 16, bottom: 4, left: 4 }}
+      >
+        <XAxis type="number" allowDecimals={false} />
+        <YAxis type="category" dataKey="name" width={120} />
+        <Tooltip />
+        <Legend />
+        {statuses.map(({ key, color }) => (
+          <Bar
+            key={key}
+            dataKey={key}
+            name={t(`thresholds.${key}`)}
+            stackId="status"
+            fill={color}
+            isAnimationActive={false}
+          />
+        ))}
+      </BarChart>
+    </ResponsiveContainer>
+  );
+};
@@ -16,19 +16,29 @@
 
 import Box from '@mui/material/Box';
 import CircularProgress from '@mui/material/CircularProgress';
+import type { AggregatedMetricGroupBy } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
 
 import { ScorecardHomepageCardComponent } from './ScorecardHomepageCardComponent';
 import { useAggregatedScorecard } from '../../hooks/useAggregatedScorecard';
+import { useExportScorecardMetrics } from '../../hooks/useExportScorecardMetrics';
 import { useTranslation } from '../../hooks/useTranslation';
 import { ErrorStatePanel } from './ErrorStatePanel';
 import { EmptyStatePanel } from './EmptyStatePanel';
+import { ScorecardHomepageGroupsCard } from './ScorecardHomepageGroupsCard';
 
-export const ScorecardHomepageCard = ({ metricId }: { metricId: string }) => {
+const ScorecardHomepageAggregatedCard = ({
+  metricId,
+}: {
+  metricId: string;
+}) => {
   const { t } = useTranslation();
 
   const { aggregatedScorecard, loadingData, error } = useAggregatedScorecard({
     metricId,
   });
+  const { exporting, exportScorecardMetrics } = useExportScorecardMetrics({
+    metricId,
+  });
 
   if (loadingData) {
     return (
@@ -80,6 +90,30 @@ export const ScorecardHomepageCard = ({ metricId }: { metricId: string }) => {
       cardTitle={finalTitle}
       description={finalDescription}
       scorecard={aggregatedScorecard}
+      onExport={exportScorecardMetrics}
+      exporting={exporting}
     />
   );
 };
+
+export const ScorecardHomepageCard = ({
+  metricId,
+  groupBy,
+  groupByKey,
+}: {
+  metricId: string;
+  groupBy?: AggregatedMetricGroupBy;
+  groupByKey?: string;
+}) => {
+  if (groupBy) {
+    return (
+      <ScorecardHomepageGroupsCard
+        metricId={metricId}
+        groupBy={groupBy}
+        groupByKey={groupByKey}
+      />
+    );
+  }
+
+  return <ScorecardHomepageAggregatedCard metricId={metricId} />;
+};
@@ -19,6 +19,10 @@ import { useState } from 'react';
 import type { AggregatedMetricResult } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
 
 import Box from '@mui/material/Box';
+import CircularProgress from '@mui/material/CircularProgress';
+import IconButton from '@mui/material/IconButton';
+import Tooltip from '@mui/material/Tooltip';
+import DownloadIcon from '@mui/icons-material/Download';
 import { useTheme } from '@mui/material/styles';
 
 import { CardWrapper } from '../Common/CardWrapper';
@@ -32,10 +36,14 @@ export const ScorecardHomepageCardComponent = ({
   scorecard,
   cardTitle,
   description,
+  onExport,
+  exporting = false,
 }: {
   scorecard: AggregatedMetricResult;
   cardTitle: string;
   description: string;
+  onExport?: () => void;
+  exporting?: boolean;
 }) => {
   const theme = useTheme();
   const { t } = useTranslation();
@@ -58,10 +66,27 @@ export const ScorecardHomepageCardComponent = ({
         }[value.name] || theme.palette.success.main,
     })) ?? [];
 
+  const exportAction = onExport && (
+    <Tooltip title={exporting ? t('export.exporting') : t('export.export')}>
+      {/* Disabled buttons don't fire events, the span keeps the tooltip working */}
+      <span>
+        <IconButton
+          aria-label={t('export.export')}
+          onClick={onExport}
+          disabled={exporting}
+          size="small"
+        >
+          {exporting ? <CircularProgress size={20} /> : <DownloadIcon />}
+        </IconButton>
+      </span>
+    </Tooltip>
+  );
+
   return (
     <CardWrapper
       title={cardTitle}
       subheader={t('thresholds.entities', { count: scorecard.result.total })}
+      action={exportAction}
       description={description}
     >
       <Box
@@ -0,0 +1,102 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Box from '@mui/material/Box';
+import CircularProgress from '@mui/material/CircularProgress';
+import type { AggregatedMetricGroupBy } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
+
+import { useAggregatedScorecardGroups } from '../../hooks/useAggregatedScorecardGroups';
+import { useTranslation } from '../../hooks/useTranslation';
+import { CardWrapper } from '../Common/CardWrapper';
+import { ErrorStatePanel } from './ErrorStatePanel';
+import { EmptyStatePanel } from './EmptyStatePanel';
+import { GroupsBarChart } from './GroupsBarChart';
+
+export const ScorecardHomepageGroupsCard = ({
+  metricId,
+  groupBy,
+  groupByKey,
+}: {
+  metricId: string;
+  groupBy: AggregatedMetricGroupBy;
+  groupByKey?: string;
+}) => {
+  const { t } = useTranslation();
+
+  const { aggregatedScorecardGroups, loadingData, error } =
+    useAggregatedScorecardGroups({ metricId, groupBy, groupByKey });
+
+  if (loadingData) {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="200px"
+      >
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error) {
+    return <ErrorStatePanel error={error} metricId={metricId} />;
+  }
+
+  if (!aggregatedScorecardGroups) {
+    return null;
+  }
+
+  if (aggregatedScorecardGroups.result.groups.length === 0) {
+    return (
+      <EmptyStatePanel
+        metricId={metricId}
+        label={t('errors.noDataFound')}
+        tooltipContent={t('errors.noDataFoundMessage')}
+      />
+    );
+  }
+
+  const titleKey = `metric.${aggregatedScorecardGroups.id}.title`;
+  const descriptionKey = `metric.${aggregatedScorecardGroups.id}.description`;
+
+  const title = t(titleKey as any, {});
+  const description = t(descriptionKey as any, {});
+
+  const finalTitle =
+    title === titleKey ? aggregatedScorecardGroups.metadata.title : title;
+  const finalDescription =
+    description === descriptionKey
+      ? aggregatedScorecardGroups.metadata.description
+      : description;
+
+  return (
+    <CardWrapper
+      title={finalTitle}
+      subheader={t('groups.groups', {
+        count: aggregatedScorecardGroups.result.groups.length,
+      })}
+      description={finalDescription}
+    >
+      <Box width="100%" minWidth={311} minHeight={174} height="100%">
+        <GroupsBarChart
+          groups={aggregatedScorecardGroups.result.groups}
+          groupBy={groupBy}
+        />
+      </Box>
+    </CardWrapper>
+  );
+};
@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
 import { ThemeProvider, createTheme } from '@mui/material/styles';
 
 import { ScorecardHomepageCardComponent } from '../ScorecardHomepageCardComponent';
@@ -28,17 +28,20 @@ jest.mock('../../Common/CardWrapper', () => ({
   CardWrapper: ({
     title,
     subheader,
+    action,
     description,
     children,
   }: {
     title: string;
     subheader: string;
+    action?: React.ReactNode;
     description: string;
     children: React.ReactNode;
   }) => (
     <div data-testid="card-wrapper">
       <div data-testid="card-title">{title}</div>
       <div data-testid="card-subheader">{subheader}</div>
+      <div data-testid="card-action">{action}</div>
       <div data-testid="card-description">{description}</div>
       <div data-testid="card-content">{children}</div>
     </div>
@@ -260,4 +263,55 @@ describe('ScorecardHomepageCardComponent', () => {
 
     expect(screen.getByTestId('pie-data-length')).toHaveTextContent('0');
   });
+
+  it('should not render the export action without onExport', () => {
+    render(
+      <ScorecardHomepageCardComponent
+        scorecard={mockScorecard}
+        cardTitle="GitHub open PRs"
+        description="desc"
+      />,
+      { wrapper: TestWrapper },
+    );
+
+    expect(
+      screen.queryByRole('button', { name: 'export.export' }),
+    ).not.toBeInTheDocument();
+  });
+
+  it('should call onExport when the export action is clicked', () => {
+    const onExport = jest.fn();
+
+    render(
+      <ScorecardHomepageCardComponent
+        scorecard={mockScorecard}
+        cardTitle="GitHub open PRs"
+        description="desc"
+        onExport={onExport}
+      />,
+      { wrapper: TestWrapper },
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'export.export' }));
+
+    expect(onExport).toHaveBeenCalledTimes(1);
+  });
+
+  it('should show progress and disable the export action while exporting', () => {
+    render(
+      <ScorecardHomepageCardComponent
+        scorecard={mockScorecard}
+        cardTitle="GitHub open PRs"
+        description="desc"
+        onExport={jest.fn()}
+        exporting
+      />,
+      { wrapper: TestWrapper },
+    );
+
+    expect(
+      screen.getByRole('button', { name: 'export.export' }),
+    ).toBeDisabled();
+    expect(screen.getByRole('progressbar')).toBeInTheDocument();
+  });
 });
@@ -0,0 +1,293 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { render, screen } from '@testing-library/react';
+import { ThemeProvider, createTheme } from '@mui/material/styles';
+
+import { ScorecardHomepageCard } from '../ScorecardHomepageCard';
+import { getGroupLabel } from '../GroupsBarChart';
+
+import type {
+  AggregatedMetricGroup,
+  AggregatedMetricGroupsResult,
+} from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
+
+jest.mock('@backstage/core-components', () => ({
+  ResponseErrorPanel: ({ error }: { error: Error }) => (
+    <div data-testid="response-error-panel">{error.message}</div>
+  ),
+}));
+
+jest.mock('../../../hooks/useAggregatedScorecard', () => ({
+  useAggregatedScorecard: jest.fn(),
+}));
+
+jest.mock('../../../hooks/useExportScorecardMetrics', () => ({
+  useExportScorecardMetrics: () => ({
+    exporting: false,
+    exportScorecardMetrics: jest.fn(),
+  }),
+}));
+
+jest.mock('../../../hooks/useAggregatedScorecardGroups', () => ({
+  useAggregatedScorecardGroups: jest.fn(),
+}));
+
+jest.mock('../../../hooks/useTranslation', () => ({
+  useTranslation: () => ({
+    t: (key: string, options?: any) => {
+      switch (key) {
+        case 'groups.groups':
+          return `${options?.count} groups`;
+        default:
+          return key;
+      }
+    },
+  }),
+}));
+
+jest.mock('../../Common/CardWrapper', () => ({
+  CardWrapper: ({
+    title,
+    subheader,
+    children,
+  }: {
+    title: string;
+    subheader: string;
+    children: React.ReactNode;
+  }) => (
+    <div data-testid="card-wrapper">
+      <div data-testid="card-title">{title}</div>
+      <div data-testid="card-subheader">{subheader}</div>
+      <div data-testid="card-content">{children}</div>
+    </div>
+  ),
+}));
+
+jest.mock('../GroupsBarChart', () => ({
+  ...jest.requireActual('../GroupsBarChart'),
+  GroupsBarChart: ({ groups }: { groups: AggregatedMetricGroup[] }) => (
+    <div data-testid="groups-bar-chart">{groups.length}</div>
+  ),
+}));
+
+jest.mock('../EmptyStatePanel', () => ({
+  EmptyStatePanel: ({
+    label,
+    metricId,
+  }: {
+    label: string;
+    metricId: string;
+  }) => (
+    <div data-testid="empty-state-panel">
+      <div data-testid="empty-state-label">{label}</div>
+      <div data-testid="metric-id">{metricId}</div>
+    </div>
+  ),
+}));
+
+const {
+  useAggregatedScorecard,
+} = require('../../../hooks/useAggregatedScorecard');
+const {
+  useAggregatedScorecardGroups,
+} = require('../../../hooks/useAggregatedScorecardGroups');
+
+const TestWrapper = ({ children }: { children: React.ReactNode }) => (
+  <ThemeProvider theme={createTheme()}>{children}</ThemeProvider>
+);
+
+const mockScorecardGroups: AggregatedMetricGroupsResult = {
+  id: 'github.open_prs',
+  status: 'success',
+  metadata: {
+    title: 'GitHub open PRs',
+    description: 'Open PR count',
+    type: 'number',
+    history: true,
+  },
+  result: {
+    groupBy: 'owner',
+    groups: [
+      {
+        group: 'group:default/team-a',
+        values: [
+          { name: 'success', count: 2 },
+          { name: 'warning', count: 1 },
+          { name: 'error', count: 0 },
+        ],
+        total: 3,
+      },
+      {
+        group: null,
+        values: [
+          { name: 'success', count: 0 },
+          { name: 'warning', count: 0 },
+          { name: 'error', count: 1 },
+        ],
+        total: 1,
+      },
+    ],
+    timestamp: '2024-01-01T00:00:00Z',
+  },
+};
+
+describe('ScorecardHomepageCard with groupBy', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useAggregatedScorecard.mockReturnValue({
+      aggregatedScorecard: undefined,
+      loadingData: true,
+      error: undefined,
+    });
+  });
+
+  it('should pass the grouping to the groups hook', () => {
+    useAggregatedScorecardGroups.mockReturnValue({
+      aggregatedScorecardGroups: mockScorecardGroups,
+      loadingData: false,
+      error: undefined,
+    });
+
+    render(
+      <ScorecardHomepageCard
+        metricId="github.open_prs"
+        groupBy="label"
+        groupByKey="tier"
+      />,
+      { wrapper: TestWrapper },
+    );
+
+    expect(useAggregatedScorecardGroups).toHaveBeenCalledWith({
+      metricId: 'github.open_prs',
+      groupBy: 'label',
+      groupByKey: 'tier',
+    });
+    expect(useAggregatedScorecard).not.toHaveBeenCalled();
+  });
+
+  it('should render loading spinner when data is loading', () => {
+    useAggregatedScorecardGroups.mockReturnValue({
+      aggregatedScorecardGroups: undefined,
+      loadingData: true,
+      error: undefined,
+    });
+
+    render(
+      <ScorecardHomepageCard metricId="github.open_prs" groupBy="owner" />,
+      {
+        wrapper: TestWrapper,
+      },
+    );
+
+    expect(screen.getByRole('progressbar')).toBeInTheDocument();
+  });
+
+  it('should render empty state panel when NotAllowedError occurs', () => {
+    useAggregatedScorecardGroups.mockReturnValue({
+      aggregatedScorecardGroups: undefined,
+      loadingData: false,
+      error: new Error('NotAllowedError: missing permission'),
+    });
+
+    render(
+      <ScorecardHomepageCard metricId="github.open_prs" groupBy="owner" />,
+      {
+        wrapper: TestWrapper,
+      },
+    );
+
+    expect(screen.getByTestId('empty-state-label')).toHaveTextContent(
+      'errors.missingPermission',
+    );
+  });
+
+  it('should render error panel for other errors', () => {
+    useAggregatedScorecardGroups.mockReturnValue({
+      aggregatedScorecardGroups: undefined,
+      loadingData: false,
+      error: new Error('Something went wrong'),
+    });
+
+    render(
+      <ScorecardHomepageCard metricId="github.open_prs" groupBy="owner" />,
+      {
+        wrapper: TestWrapper,
+      },
+    );
+
+    expect(screen.getByTestId('response-error-panel')).toHaveTextContent(
+      'Something went wrong',
+    );
+  });
+
+  it('should render empty state panel when no groups are found', () => {
+    useAggregatedScorecardGroups.mockReturnValue({
+      aggregatedScorecardGroups: {
+        ...mockScorecardGroups,
+        result: { ...mockScorecardGroups.result, groups: [] },
+      },
+      loadingData: false,
+      error: undefined,
+    });
+
+    render(
+      <ScorecardHomepageCard metricId="github.open_prs" groupBy="owner" />,
+      {
+        wrapper: TestWrapper,
+      },
+    );
+
+    expect(screen.getByTestId('empty-state-label')).toHaveTextContent(
+      'errors.noDataFound',
+    );
+  });
+
+  it('should render the groups bar chart when data loads successfully', () => {
+    useAggregatedScorecardGroups.mockReturnValue({
+      aggregatedScorecardGroups: mockScorecardGroups,
+      loadingData: false,
+      error: undefined,
+    });
+
+    render(
+      <ScorecardHomepageCard metricId="github.open_prs" groupBy="owner" />,
+      {
+        wrapper: TestWrapper,
+      },
+    );
+
+    expect(screen.getByTestId('card-title')).toHaveTextContent(
+      'GitHub open PRs',
+    );
+    expect(screen.getByTestId('card-subheader')).toHaveTextContent('2 groups');
+    expect(screen.getByTestId('groups-bar-chart')).toHaveTextContent('2');
+  });
+});
+
+describe('getGroupLabel', () => {
+  it('should strip the kind and default namespace of entity refs', () => {
+    expect(getGroupLabel('group:default/team-a', 'owner')).toBe('team-a');
+    expect(getGroupLabel('system:other/payments', 'system')).toBe(
+      'other/payments',
+    );
+  });
+
+  it('should return label and annotation values as they are', () => {
+    expect(getGroupLabel('default/value', 'label')).toBe('default/value');
+    expect(getGroupLabel('a:b', 'annotation')).toBe('a:b');
+  });
+});
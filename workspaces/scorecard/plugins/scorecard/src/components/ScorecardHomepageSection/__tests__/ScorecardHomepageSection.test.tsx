@@ -32,6 +32,13 @@ jest.mock('../../../hooks/useAggregatedScorecard', () => ({
   useAggregatedScorecard: jest.fn(),
 }));
 
+jest.mock('../../../hooks/useExportScorecardMetrics', () => ({
+  useExportScorecardMetrics: () => ({
+    exporting: false,
+    exportScorecardMetrics: jest.fn(),
+  }),
+}));
+
 jest.mock('../../../hooks/useTranslation', () => ({
   useTranslation: () => ({
     t: (key: string) => key,
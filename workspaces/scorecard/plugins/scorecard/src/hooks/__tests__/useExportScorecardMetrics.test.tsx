@@ -0,0 +1,125 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { act, renderHook } from '@testing-library/react';
+import {
+  alertApiRef,
+  identityApiRef,
+  useApi,
+} from '@backstage/core-plugin-api';
+
+import { useExportScorecardMetrics } from '../useExportScorecardMetrics';
+
+jest.mock('@backstage/core-plugin-api', () => ({
+  ...jest.requireActual('@backstage/core-plugin-api'),
+  useApi: jest.fn(),
+}));
+
+const mockUseApi = useApi as jest.MockedFunction<typeof useApi>;
+
+describe('useExportScorecardMetrics', () => {
+  const mockScorecardApi = {
+    exportScorecardMetrics: jest.fn(),
+  };
+  const mockIdentityApi = {
+    getBackstageIdentity: jest.fn(),
+  };
+  const mockAlertApi = {
+    post: jest.fn(),
+  };
+
+  const createObjectURL = jest.fn();
+  const revokeObjectURL = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUseApi.mockImplementation(((apiRef: unknown) => {
+      if (apiRef === alertApiRef) {
+        return mockAlertApi;
+      }
+      if (apiRef === identityApiRef) {
+        return mockIdentityApi;
+      }
+      return mockScorecardApi;
+    }) as any);
+    mockIdentityApi.getBackstageIdentity.mockResolvedValue({
+      type: 'user',
+      userEntityRef: 'user:default/test-user',
+      ownershipEntityRefs: ['user:default/test-user', 'group:default/team-a'],
+    });
+    createObjectURL.mockReturnValue('blob:scorecard-export');
+    global.URL.createObjectURL = createObjectURL;
+    global.URL.revokeObjectURL = revokeObjectURL;
+  });
+
+  it('should not export metrics until requested', () => {
+    const { result } = renderHook(() =>
+      useExportScorecardMetrics({ metricId: 'github.open_prs' }),
+    );
+
+    expect(result.current.exporting).toBe(false);
+    expect(mockScorecardApi.exportScorecardMetrics).not.toHaveBeenCalled();
+  });
+
+  it('should export metric values of the entities owned by the user and download them', async () => {
+    const file = new Blob(['entityRef,metricId'], { type: 'text/csv' });
+    mockScorecardApi.exportScorecardMetrics.mockResolvedValue(file);
+    const clickSpy = jest
+      .spyOn(HTMLAnchorElement.prototype, 'click')
+      .mockImplementation(() => {});
+
+    const { result } = renderHook(() =>
+      useExportScorecardMetrics({ metricId: 'github.open_prs' }),
+    );
+
+    await act(async () => {
+      await result.current.exportScorecardMetrics();
+    });
+
+    expect(mockScorecardApi.exportScorecardMetrics).toHaveBeenCalledWith({
+      metricIds: ['github.open_prs'],
+      owner: ['user:default/test-user', 'group:default/team-a'],
+      format: 'csv',
+    });
+    expect(createObjectURL).toHaveBeenCalledWith(file);
+    expect(clickSpy).toHaveBeenCalledTimes(1);
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:scorecard-export');
+    expect(result.current.exporting).toBe(false);
+
+    clickSpy.mockRestore();
+  });
+
+  it('should post an alert when export fails', async () => {
+    mockScorecardApi.exportScorecardMetrics.mockRejectedValue(
+      new Error('Failed to export scorecard metrics: 403 Forbidden.'),
+    );
+
+    const { result } = renderHook(() =>
+      useExportScorecardMetrics({ metricId: 'github.open_prs' }),
+    );
+
+    await act(async () => {
+      await result.current.exportScorecardMetrics();
+    });
+
+    expect(mockAlertApi.post).toHaveBeenCalledWith({
+      message:
+        'Failed to export metric values: Failed to export scorecard metrics: 403 Forbidden.',
+      severity: 'error',
+      display: 'transient',
+    });
+    expect(createObjectURL).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,129 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { act, renderHook } from '@testing-library/react';
+import { useEntity } from '@backstage/plugin-catalog-react';
+import { alertApiRef, useApi } from '@backstage/core-plugin-api';
+import { MetricResult } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
+
+import { useRefreshScorecards } from '../useRefreshScorecards';
+
+jest.mock('@backstage/plugin-catalog-react');
+jest.mock('@backstage/core-plugin-api', () => ({
+  ...jest.requireActual('@backstage/core-plugin-api'),
+  useApi: jest.fn(),
+}));
+
+const mockUseEntity = useEntity as jest.MockedFunction<typeof useEntity>;
+const mockUseApi = useApi as jest.MockedFunction<typeof useApi>;
+
+describe('useRefreshScorecards', () => {
+  const mockScorecardApi = {
+    refreshScorecards: jest.fn(),
+  };
+  const mockAlertApi = {
+    post: jest.fn(),
+  };
+
+  const mockEntity = {
+    apiVersion: 'backstage.io/v1alpha1',
+    kind: 'Component',
+    metadata: {
+      namespace: 'default',
+      name: 'test-component',
+    },
+  };
+
+  const mockRefreshedScorecards: MetricResult[] = [
+    {
+      id: 'github.open_prs',
+      status: 'success',
+      metadata: {
+        title: 'GitHub open PRs',
+        description: 'Open PRs',
+        type: 'number',
+        history: true,
+      },
+      result: {
+        value: 3,
+        timestamp: '2025-08-08T10:00:00Z',
+        thresholdResult: {
+          status: 'success',
+          definition: {
+            rules: [{ key: 'success', expression: '< 10' }],
+          },
+          evaluation: 'success',
+        },
+      },
+    },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUseEntity.mockReturnValue({ entity: mockEntity });
+    mockUseApi.mockImplementation(((apiRef: unknown) =>
+      apiRef === alertApiRef ? mockAlertApi : mockScorecardApi) as any);
+  });
+
+  it('should not refresh metrics until requested', () => {
+    const { result } = renderHook(() => useRefreshScorecards());
+
+    expect(result.current.refreshedScorecards).toBeUndefined();
+    expect(result.current.refreshing).toBe(false);
+    expect(mockScorecardApi.refreshScorecards).not.toHaveBeenCalled();
+  });
+
+  it('should return refreshed scorecards', async () => {
+    mockScorecardApi.refreshScorecards.mockResolvedValue(
+      mockRefreshedScorecards,
+    );
+
+    const { result } = renderHook(() => useRefreshScorecards());
+
+    await act(async () => {
+      await result.current.refreshScorecards();
+    });
+
+    expect(mockScorecardApi.refreshScorecards).toHaveBeenCalledWith(mockEntity);
+    expect(result.current.refreshedScorecards).toEqual(mockRefreshedScorecards);
+    expect(result.current.refreshing).toBe(false);
+  });
+
+  it('should post an alert and keep previous results when refresh fails', async () => {
+    mockScorecardApi.refreshScorecards
+      .mockResolvedValueOnce(mockRefreshedScorecards)
+      .mockRejectedValueOnce(
+        new Error('Failed to refresh scorecards: 429 Too Many Requests.'),
+      );
+
+    const { result } = renderHook(() => useRefreshScorecards());
+
+    await act(async () => {
+      await result.current.refreshScorecards();
+    });
+    await act(async () => {
+      await result.current.refreshScorecards();
+    });
+
+    expect(mockAlertApi.post).toHaveBeenCalledWith({
+      message:
+        'Failed to refresh metrics: Failed to refresh scorecards: 429 Too Many Requests.',
+      severity: 'error',
+      display: 'transient',
+    });
+    expect(result.current.refreshedScorecards).toEqual(mockRefreshedScorecards);
+  });
+});
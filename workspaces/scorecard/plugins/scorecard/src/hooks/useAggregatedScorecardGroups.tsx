@@ -0,0 +1,84 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useMemo } from 'react';
+
+import { useApi } from '@backstage/core-plugin-api';
+import useAsync from 'react-use/lib/useAsync';
+import {
+  AggregatedMetricGroupBy,
+  AggregatedMetricGroupsResult,
+} from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
+
+import { scorecardApiRef } from '../api';
+import { useTranslation } from './useTranslation';
+
+export interface UseAggregatedScorecardGroupsOptions {
+  /** The metric ID to aggregate */
+  metricId: string;
+  /** Entity property to group the entities by */
+  groupBy: AggregatedMetricGroupBy;
+  /** Label or annotation key, required when grouping by label or annotation */
+  groupByKey?: string;
+}
+
+export const useAggregatedScorecardGroups = (
+  options: UseAggregatedScorecardGroupsOptions,
+) => {
+  const scorecardApi = useApi(scorecardApiRef);
+  const { metricId, groupBy, groupByKey } = options;
+  const { t } = useTranslation();
+
+  const { error, loading, value } = useAsync(async () => {
+    try {
+      const aggregatedScorecardGroups =
+        await scorecardApi.getAggregatedScorecardGroups(
+          metricId,
+          groupBy,
+          groupByKey,
+        );
+
+      if (
+        !aggregatedScorecardGroups ||
+        !Array.isArray(aggregatedScorecardGroups.result?.groups)
+      ) {
+        throw new Error(t('errors.invalidApiResponse'));
+      }
+
+      return aggregatedScorecardGroups;
+    } catch (err) {
+      if (err instanceof Error) {
+        throw err;
+      }
+      throw new Error(
+        t('errors.fetchError' as any, {
+          error: String(err),
+        }),
+      );
+    }
+  }, [scorecardApi, metricId, groupBy, groupByKey, t]);
+
+  return useMemo(
+    () => ({
+      aggregatedScorecardGroups: value as
+        | AggregatedMetricGroupsResult
+        | undefined,
+      loadingData: loading,
+      error,
+    }),
+    [value, loading, error],
+  );
+};
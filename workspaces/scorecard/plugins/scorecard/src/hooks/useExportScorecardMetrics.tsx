@@ -0,0 +1,86 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { useMemo } from 'react';
+
+import {
+  alertApiRef,
+  identityApiRef,
+  useApi,
+} from '@backstage/core-plugin-api';
+import useAsyncFn from 'react-use/lib/useAsyncFn';
+
+import { scorecardApiRef } from '../api';
+import { useTranslation } from './useTranslation';
+
+export interface UseExportScorecardMetricsResponse {
+  /** Whether the metric values are currently being exported */
+  exporting: boolean;
+  /** Downloads the latest metric values of the entities owned by the user */
+  exportScorecardMetrics: () => Promise<void>;
+}
+
+const downloadFile = (file: Blob, fileName: string) => {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const useExportScorecardMetrics = ({
+  metricId,
+}: {
+  metricId: string;
+}): UseExportScorecardMetricsResponse => {
+  const scorecardApi = useApi(scorecardApiRef);
+  const identityApi = useApi(identityApiRef);
+  const alertApi = useApi(alertApiRef);
+  const { t } = useTranslation();
+
+  const [{ loading }, exportScorecardMetrics] = useAsyncFn(async () => {
+    try {
+      // Export the same entities the homepage card aggregates: the ones owned by the user or their groups
+      const { ownershipEntityRefs } = await identityApi.getBackstageIdentity();
+
+      const file = await scorecardApi.exportScorecardMetrics({
+        metricIds: [metricId],
+        owner: ownershipEntityRefs,
+        format: 'csv',
+      });
+
+      downloadFile(file, `${metricId}.csv`);
+    } catch (err) {
+      alertApi.post({
+        message: t('export.failed' as any, {
+          error: err instanceof Error ? err.message : String(err),
+        }),
+        severity: 'error',
+        display: 'transient',
+      });
+    }
+  }, [metricId, scorecardApi, identityApi, alertApi, t]);
+
+  return useMemo(
+    () => ({
+      exporting: loading,
+      exportScorecardMetrics,
+    }),
+    [loading, exportScorecardMetrics],
+  );
+};
@@ -0,0 +1,67 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useMemo, useState } from 'react';
+
+import { alertApiRef, useApi } from '@backstage/core-plugin-api';
+import { useEntity } from '@backstage/plugin-catalog-react';
+import useAsyncFn from 'react-use/lib/useAsyncFn';
+import { MetricResult } from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
+
+import { scorecardApiRef } from '../api';
+import { useTranslation } from './useTranslation';
+
+export interface UseRefreshScorecardsResponse {
+  /** Latest metric results returned by a successful refresh */
+  refreshedScorecards: MetricResult[] | undefined;
+  /** Whether the metrics are currently being refreshed */
+  refreshing: boolean;
+  /** Recalculates the metrics of the current entity */
+  refreshScorecards: () => Promise<void>;
+}
+
+export const useRefreshScorecards = (): UseRefreshScorecardsResponse => {
+  const { entity } = useEntity();
+  const scorecardApi = useApi(scorecardApiRef);
+  const alertApi = useApi(alertApiRef);
+  const { t } = useTranslation();
+
+  const [refreshedScorecards, setRefreshedScorecards] =
+    useState<MetricResult[]>();
+
+  const [{ loading }, refreshScorecards] = useAsyncFn(async () => {
+    try {
+      setRefreshedScorecards(await scorecardApi.refreshScorecards(entity));
+    } catch (err) {
+      alertApi.post({
+        message: t('refresh.failed' as any, {
+          error: err instanceof Error ? err.message : String(err),
+        }),
+        severity: 'error',
+        display: 'transient',
+      });
+    }
+  }, [entity, scorecardApi, alertApi, t]);
+
+  return useMemo(
+    () => ({
+      refreshedScorecards,
+      refreshing: loading,
+      refreshScorecards,
+    }),
+    [refreshedScorecards, loading, refreshScorecards],
+  );
+};
@@ -0,0 +1,74 @@
+/*
+ * Copyright Red Hat, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useMemo } from 'react';
+
+import { useApi } from '@backstage/core-plugin-api';
+import { useEntity } from '@backstage/plugin-catalog-react';
+import useAsync from 'react-use/lib/useAsync';
+import {
+  MetricHistoryBucket,
+  MetricHistoryResult,
+} from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
+
+import { scorecardApiRef } from '../api';
+import { useTranslation } from './useTranslation';
+
+export interface UseScorecardHistoryOptions {
+  /** The metric ID to retrieve the history of */
+  metricId: string;
+  /** Granularity of the history values, defaults to daily */
+  bucket?: MetricHistoryBucket;
+}
+
+export const useScorecardHistory = (options: UseScorecardHistoryOptions) => {
+  const { entity } = useEntity();
+  const scorecardApi = useApi(scorecardApiRef);
+  const { metricId, bucket } = options;
+  const { t } = useTranslation();
+
+  const { error, loading, value } = useAsync(async () => {
+    try {
+      const history = await scorecardApi.getScorecardHistory(entity, metricId, {
+        bucket,
+      });
+
+      if (!history || !Array.isArray(history.result?.values)) {
+        throw new Error(t('errors.invalidApiResponse'));
+      }
+
+      return history;
+    } catch (err) {
+      if (err instanceof Error) {
+        throw err;
+      }
+      throw new Error(
+        t('errors.fetchError' as any, {
+          error: String(err),
+        }),
+      );
+    }
+  }, [entity, scorecardApi, metricId, bucket, t]);
+
+  return useMemo(
+    () => ({
+      history: value as MetricHistoryResult | undefined,
+      loadingData: loading,
+      error,
+    }),
+    [value, loading, error],
+  );
+};
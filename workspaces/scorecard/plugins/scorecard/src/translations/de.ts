@@ -69,6 +69,26 @@ const scorecardTranslationDe = createTranslationMessages({
     'thresholds.noEntities': 'Keine Entitäten in {{category}} Zustand',
     'thresholds.entities_one': '{{count}} Entität',
     'thresholds.entities_other': '{{count}} Entitäten',
+
+    // History translations
+    'history.title': 'Verlauf (letzte 30 Tage)',
+    'history.notEnoughData':
+      'Noch nicht genügend Daten, um einen Verlauf anzuzeigen',
+
+    // Groups translations
+    'groups.ungrouped': 'Nicht zugeordnet',
+    'groups.groups_one': '{{count}} Gruppe',
+    'groups.groups_other': '{{count}} Gruppen',
+
+    // Refresh translations
+    'refresh.refresh': 'Metriken aktualisieren',
+    'refresh.refreshing': 'Metriken werden aktualisiert',
+    'refresh.failed': 'Metriken konnten nicht aktualisiert werden: {{error}}',
+
+    // Export translations
+    'export.export': 'Metrikwerte exportieren',
+    'export.exporting': 'Metrikwerte werden exportiert',
+    'export.failed': 'Metrikwerte konnten nicht exportiert werden: {{error}}',
   },
 });
 
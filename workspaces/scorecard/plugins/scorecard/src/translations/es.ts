@@ -68,6 +68,27 @@ const scorecardTranslationEs = createTranslationMessages({
     'thresholds.noEntities': 'No hay entidades en el estado {{category}}',
     'thresholds.entities_one': '{{count}} entidad',
     'thresholds.entities_other': '{{count}} entidades',
+
+    // History translations
+    'history.title': 'Tendencia (últimos 30 días)',
+    'history.notEnoughData':
+      'Aún no hay datos suficientes para mostrar una tendencia',
+
+    // Groups translations
+    'groups.ungrouped': 'Sin asignar',
+    'groups.groups_one': '{{count}} grupo',
+    'groups.groups_other': '{{count}} grupos',
+
+    // Refresh translations
+    'refresh.refresh': 'Actualizar métricas',
+    'refresh.refreshing': 'Actualizando métricas',
+    'refresh.failed': 'No se pudieron actualizar las métricas: {{error}}',
+
+    // Export translations
+    'export.export': 'Exportar valores de métricas',
+    'export.exporting': 'Exportando valores de métricas',
+    'export.failed':
+      'No se pudieron exportar los valores de métricas: {{error}}',
   },
 });
 
@@ -66,6 +66,27 @@ const scorecardTranslationFr = createTranslationMessages({
     'thresholds.noEntities': "Aucune entité dans l'état {{category}}",
     'thresholds.entities_one': '{{count}} entité',
     'thresholds.entities_other': '{{count}} entités',
+
+    // History translations
+    'history.title': 'Tendance (30 derniers jours)',
+    'history.notEnoughData':
+      'Pas encore assez de données pour afficher une tendance',
+
+    // Groups translations
+    'groups.ungrouped': 'Non attribué',
+    'groups.groups_one': '{{count}} groupe',
+    'groups.groups_other': '{{count}} groupes',
+
+    // Refresh translations
+    'refresh.refresh': 'Actualiser les métriques',
+    'refresh.refreshing': 'Actualisation des métriques',
+    'refresh.failed': "Échec de l'actualisation des métriques : {{error}}",
+
+    // Export translations
+    'export.export': 'Exporter les valeurs des métriques',
+    'export.exporting': 'Exportation des valeurs des métriques',
+    'export.failed':
+      "Échec de l'exportation des valeurs des métriques : {{error}}",
   },
 });
 
@@ -65,6 +65,26 @@ const scorecardTranslationIt = createTranslationMessages({
     'thresholds.noEntities': 'Nessuna entità con stato {{category}}',
     'thresholds.entities_one': '{{count}} entità',
     'thresholds.entities_other': '{{count}} entità',
+
+    // History translations
+    'history.title': 'Andamento (ultimi 30 giorni)',
+    'history.notEnoughData':
+      'Dati non ancora sufficienti per mostrare un andamento',
+
+    // Groups translations
+    'groups.ungrouped': 'Non assegnato',
+    'groups.groups_one': '{{count}} gruppo',
+    'groups.groups_other': '{{count}} gruppi',
+
+    // Refresh translations
+    'refresh.refresh': 'Aggiorna metriche',
+    'refresh.refreshing': 'Aggiornamento delle metriche',
+    'refresh.failed': 'Impossibile aggiornare le metriche: {{error}}',
+
+    // Export translations
+    'export.export': 'Esporta i valori delle metriche',
+    'export.exporting': 'Esportazione dei valori delle metriche',
+    'export.failed': 'Impossibile esportare i valori delle metriche: {{error}}',
   },
 });
 
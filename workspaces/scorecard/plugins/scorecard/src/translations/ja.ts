@@ -65,6 +65,25 @@ const scorecardTranslationJa = createTranslationMessages({
     'thresholds.noEntities': '{{category}} 状態のエンティティーがありません',
     'thresholds.entities_one': '{{count}} エンティティー',
     'thresholds.entities_other': '{{count}} エンティティー',
+
+    // History translations
+    'history.title': '傾向 (過去 30 日間)',
+    'history.notEnoughData': '傾向を表示するためのデータがまだ不足しています',
+
+    // Groups translations
+    'groups.ungrouped': '未割り当て',
+    'groups.groups_one': '{{count}} グループ',
+    'groups.groups_other': '{{count}} グループ',
+
+    // Refresh translations
+    'refresh.refresh': 'メトリクスを更新',
+    'refresh.refreshing': 'メトリクスを更新しています',
+    'refresh.failed': 'メトリクスの更新に失敗しました: {{error}}',
+
+    // Export translations
+    'export.export': 'メトリクス値をエクスポート',
+    'export.exporting': 'メトリクス値をエクスポートしています',
+    'export.failed': 'メトリクス値をエクスポートできませんでした: {{error}}',
   },
 });
 
@@ -82,6 +82,27 @@ export const scorecardMessages = {
     entities_one: '{{count}} entity',
     entities_other: '{{count}} entities',
   },
+
+  // History translations
+  history: {
+    title: 'Trend (last 30 days)',
+    notEnoughData: 'Not enough data to show a trend yet',
+  },
+  groups: {
+    ungrouped: 'Unassigned',
+    groups_one: '{{count}} group',
+    groups_other: '{{count}} groups',
+  },
+  refresh: {
+    refresh: 'Refresh metrics',
+    refreshing: 'Refreshing metrics',
+    failed: 'Failed to refresh metrics: {{error}}',
+  },
+  export: {
+    export: 'Export metric values',
+    exporting: 'Exporting metric values',
+    failed: 'Failed to export metric values: {{error}}',
+  },
 };
 
 /**
@@ -18,7 +18,7 @@ import DangerousOutlinedIcon from '@mui/icons-material/DangerousOutlined';
 import WarningAmberIcon from '@mui/icons-material/WarningAmber';
 import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline';
 
-import { getStatusConfig } from '../utils';
+import { formatMetricValue, getStatusConfig } from '../utils';
 
 describe('getStatusConfig', () => {
   describe('error handling', () => {
@@ -161,3 +161,28 @@ describe('getStatusConfig', () => {
     });
   });
 });
+
+describe('formatMetricValue', () => {
+  it('should return an empty string when there is no value', () => {
+    expect(formatMetricValue(null, 'number')).toBe('');
+    expect(formatMetricValue(undefined)).toBe('');
+  });
+
+  it('should format number values', () => {
+    expect(formatMetricValue(42, 'number')).toBe('42');
+    expect(formatMetricValue(0, 'number')).toBe('0');
+  });
+
+  it('should format percentage values with a percent sign', () => {
+    expect(formatMetricValue(85.5, 'percentage')).toBe('85.5%');
+  });
+
+  it('should format boolean values', () => {
+    expect(formatMetricValue(true, 'boolean')).toBe('true');
+    expect(formatMetricValue(false, 'boolean')).toBe('false');
+  });
+
+  it('should format string values', () => {
+    expect(formatMetricValue('gold', 'string')).toBe('gold');
+  });
+});
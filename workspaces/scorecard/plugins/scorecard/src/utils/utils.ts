@@ -17,6 +17,10 @@
 import WarningAmberIcon from '@mui/icons-material/WarningAmber';
 import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline';
 import DangerousOutlinedIcon from '@mui/icons-material/DangerousOutlined';
+import {
+  MetricType,
+  MetricValue,
+} from '@red-hat-developer-hub/backstage-plugin-scorecard-common';
 
 export type StatusConfig = {
   color: string;
@@ -70,3 +74,23 @@ export const getRingColor = (
   const [paletteKey, shade] = statusColor.split('.');
   return theme.palette?.[paletteKey]?.[shade] ?? statusColor;
 };
+
+/**
+ * @param value - The metric value to display.
+ * @param type - The type of the metric, percentage values get a `%` suffix.
+ * @returns The metric value formatted for display, or an empty string if there is no value.
+ */
+export const formatMetricValue = (
+  value: MetricValue | null | undefined,
+  type?: MetricType,
+): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  if (type === 'percentage') {
+    return `${value}%`;
+  }
+
+  return String(value);
+};